@@ -0,0 +1,706 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { createHash, timingSafeEqual } from 'crypto';
+import { stixId, uuidV5 } from '../../src/lib/stableId';
+
+// ============================================================================
+// TAXII 2.1 SERVER
+// ============================================================================
+// Read-only TAXII 2.1 API over the threat_intelligence table so EDR/SIEM
+// platforms can poll the hub directly. One API root ("osint") with an
+// "all" collection plus one collection per source and per severity level.
+// Rows are converted to STIX 2.1 on the fly using the same deterministic ids
+// as the in-app STIX export (src/services/stixService.ts).
+
+const TAXII_MEDIA_TYPE = 'application/taxii+json;version=2.1';
+const STIX_MEDIA_TYPE = 'application/stix+json;version=2.1';
+const API_ROOT = 'osint';
+const PRODUCER_NAME = 'OSINT Hub';
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const ROW_BATCH_SIZE = 200;
+// The table is capped at ~10k rows by the auto-cleanup trigger
+const MAX_SCAN_ROWS = 10000;
+const SEVERITY_LEVELS = ['critical', 'high', 'medium', 'low', 'info'];
+const COLLECTION_NAMESPACE = '6f1c9a52-3d7e-4b8a-9c41-0e2d5f7a8b13';
+
+const ROW_COLUMNS =
+  'id, source_name, threat_type, severity_level, confidence_level, title, description, indicators, attribution, metadata, tags, first_seen, last_seen, created_at, updated_at';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+interface ThreatRow {
+  id: string;
+  source_name: string;
+  threat_type: string;
+  severity_level: string;
+  confidence_level: number;
+  title: string;
+  description: string | null;
+  indicators: unknown;
+  attribution: Record<string, string> | null;
+  metadata: Record<string, unknown> | null;
+  tags: string[] | null;
+  first_seen: string | null;
+  last_seen: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface TaxiiCollection {
+  id: string;
+  title: string;
+  description: string;
+  can_read: boolean;
+  can_write: boolean;
+  media_types: string[];
+  filter: { column: 'source_name' | 'severity_level'; value: string } | null;
+}
+
+interface StixObject {
+  type: string;
+  id: string;
+  spec_version: '2.1';
+  created: string;
+  modified: string;
+  [key: string]: unknown;
+}
+
+interface PagedObject {
+  object: StixObject;
+  dateAdded: string;
+}
+
+interface PageCursor {
+  // Position of the row to resume at and how many of its objects were already sent
+  t: string;
+  id: string;
+  skip: number;
+}
+
+interface PageQuery {
+  collection: TaxiiCollection;
+  addedAfter?: string;
+  cursor?: PageCursor;
+  limit: number;
+  ids?: Set<string>;
+  types?: Set<string>;
+}
+
+interface Page {
+  items: PagedObject[];
+  more: boolean;
+  next?: string;
+}
+
+class TaxiiError extends Error {
+  constructor(public status: number, public title: string, description?: string) {
+    super(description || title);
+  }
+}
+
+/* ============================================================================
+   IDENTIFIERS
+============================================================================ */
+
+// The first page opens with the producer identity; this cursor resumes after it
+const AFTER_IDENTITY: PageCursor = { t: '', id: '', skip: 0 };
+
+function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+const CURSOR_ROW_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Cursor fields end up inside a PostgREST or() filter, so only the exact
+// shapes this server issues are accepted
+function isValidCursor(cursor: PageCursor): boolean {
+  if (!Number.isInteger(cursor.skip) || cursor.skip < 0) return false;
+  if (cursor.t === '' && cursor.id === '') return cursor.skip === 0; // AFTER_IDENTITY
+  return typeof cursor.t === 'string' && CURSOR_TIMESTAMP.test(cursor.t) && !isNaN(Date.parse(cursor.t)) &&
+    typeof cursor.id === 'string' && CURSOR_ROW_ID.test(cursor.id);
+}
+
+function decodeCursor(value: string): PageCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (cursor && typeof cursor === 'object' && isValidCursor(cursor)) {
+      return { t: cursor.t, id: cursor.id, skip: cursor.skip };
+    }
+  } catch {
+    // fall through
+  }
+  throw new TaxiiError(400, 'Invalid next parameter', 'The next value is not a cursor issued by this server');
+}
+
+/* ============================================================================
+   ROW -> STIX CONVERSION
+============================================================================ */
+
+type ObservableKind = 'ipv4' | 'ipv6' | 'domain' | 'url' | 'md5' | 'sha1' | 'sha256' | 'email';
+
+const OBSERVABLE_PATHS: Record<ObservableKind, string> = {
+  ipv4: 'ipv4-addr:value',
+  ipv6: 'ipv6-addr:value',
+  domain: 'domain-name:value',
+  url: 'url:value',
+  md5: "file:hashes.'MD5'",
+  sha1: "file:hashes.'SHA-1'",
+  sha256: "file:hashes.'SHA-256'",
+  email: 'email-addr:value',
+};
+
+// stixService keys indicators by its IOCIndicator type names
+const OBSERVABLE_ID_TYPES: Record<ObservableKind, string> = {
+  ipv4: 'ip',
+  ipv6: 'ip',
+  domain: 'domain',
+  url: 'url',
+  md5: 'hash_md5',
+  sha1: 'hash_sha1',
+  sha256: 'hash_sha256',
+  email: 'email',
+};
+
+const ACTOR_THREAT_TYPES = new Set(['apt', 'actor']);
+const MALWARE_THREAT_TYPES = new Set(['malware', 'ransomware']);
+
+function classifyValue(value: string): ObservableKind | null {
+  if (/^(\d{1,3}\.){3}\d{1,3}(:\d+)?$/.test(value)) return 'ipv4';
+  if ((/^[0-9a-f:]+$/i.test(value) && value.includes('::')) || /^([0-9a-f]{1,4}:){7}[0-9a-f]{1,4}$/i.test(value)) return 'ipv6';
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) return 'url';
+  if (/^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i.test(value)) return 'email';
+  if (/^[0-9a-f]{32}$/i.test(value)) return 'md5';
+  if (/^[0-9a-f]{40}$/i.test(value)) return 'sha1';
+  if (/^[0-9a-f]{64}$/i.test(value)) return 'sha256';
+  if (/^(?=.{4,253}$)([a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}\.?$/i.test(value)) return 'domain';
+  return null;
+}
+
+// Indicators are stored as {type, value} objects by the pipelines and as bare
+// strings by older sync paths; the declared type is only a hint.
+function extractObservables(row: ThreatRow): { kind: ObservableKind; value: string }[] {
+  const entries = Array.isArray(row.indicators) ? row.indicators : [];
+  const seen = new Set<string>();
+  const observables: { kind: ObservableKind; value: string }[] = [];
+
+  for (const entry of entries) {
+    const record = entry && typeof entry === 'object' ? (entry as Record<string, unknown>) : null;
+    const raw = typeof entry === 'string' ? entry : record ? record.value ?? record.indicator : null;
+    if (typeof raw !== 'string' || !raw.trim()) continue;
+    let value = raw.trim();
+    const kind = classifyValue(value);
+    if (!kind) continue;
+    // ip:port C2 entries become plain address indicators
+    if (kind === 'ipv4') value = value.split(':')[0];
+    if (kind === 'domain') value = value.replace(/\.$/, '').toLowerCase();
+    const key = `${kind}|${value.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    observables.push({ kind, value });
+  }
+  return observables;
+}
+
+function escapePatternValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+function toTimestamp(value: string | null | undefined, fallback: string): string {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : fallback;
+}
+
+function rowVersion(row: ThreatRow): string {
+  return toTimestamp(row.updated_at, toTimestamp(row.created_at, new Date(0).toISOString()));
+}
+
+function familyName(row: ThreatRow): string | null {
+  const candidates = [
+    row.metadata?.malware_family,
+    row.metadata?.malwareFamily,
+    row.metadata?.family,
+    row.attribution?.malware_family,
+  ];
+  const name = candidates.find((c): c is string => typeof c === 'string' && c.trim() !== '');
+  if (name) return name.trim();
+  // Pipeline rows describe families as "<family> - <value>"
+  const match = row.description?.match(/^(.+?) - /);
+  return match ? match[1].trim() : null;
+}
+
+const IDENTITY_CREATED = '2024-01-01T00:00:00.000Z';
+
+function identityObject(): StixObject {
+  return {
+    type: 'identity',
+    spec_version: '2.1',
+    id: stixId('identity', PRODUCER_NAME),
+    created: IDENTITY_CREATED,
+    modified: IDENTITY_CREATED,
+    name: PRODUCER_NAME,
+    identity_class: 'system',
+  };
+}
+
+/**
+ * Converts a threat_intelligence row into STIX objects: one indicator per
+ * recognisable observable, a malware / threat-actor / vulnerability / campaign
+ * SDO when the row describes one, and "indicates" relationships between them.
+ */
+export function rowToStix(row: ThreatRow): StixObject[] {
+  const version = rowVersion(row);
+  const created = toTimestamp(row.created_at, version);
+  const validFrom = toTimestamp(row.first_seen, created);
+  const identityId = stixId('identity', PRODUCER_NAME);
+  const common = {
+    spec_version: '2.1' as const,
+    created,
+    modified: version,
+    created_by_ref: identityId,
+    confidence: Math.max(0, Math.min(100, Math.round(row.confidence_level ?? 50))),
+    labels: row.tags?.length ? row.tags : undefined,
+    external_references: [{ source_name: row.source_name, external_id: row.id }],
+    x_osint_severity: row.severity_level,
+  };
+
+  const objects: StixObject[] = [];
+  let subject: StixObject | null = null;
+  const threatType = (row.threat_type || '').toLowerCase();
+
+  if (MALWARE_THREAT_TYPES.has(threatType) && familyName(row)) {
+    const name = familyName(row);
+    subject = {
+      type: 'malware',
+      id: stixId('malware', name.toLowerCase()),
+      ...common,
+      name,
+      is_family: true,
+      malware_types: threatType === 'ransomware' ? ['ransomware'] : undefined,
+    };
+  } else if (ACTOR_THREAT_TYPES.has(threatType)) {
+    const name = row.attribution?.name || row.attribution?.actor || row.title.replace(/^[A-Z]+:\s*/, '');
+    subject = {
+      type: 'threat-actor',
+      id: stixId('threat-actor', name.toLowerCase()),
+      ...common,
+      name,
+      description: row.description || undefined,
+      threat_actor_types: [threatType === 'apt' ? 'nation-state' : 'unknown'],
+    };
+  } else if (threatType === 'vulnerability') {
+    const cve = `${row.title} ${row.description || ''}`.match(/CVE-\d{4}-\d{4,}/i)?.[0]?.toUpperCase();
+    const name = cve || row.title;
+    subject = {
+      type: 'vulnerability',
+      id: stixId('vulnerability', name.toLowerCase()),
+      ...common,
+      name,
+      description: row.description || undefined,
+      external_references: cve
+        ? [{ source_name: 'cve', external_id: cve }, ...common.external_references]
+        : common.external_references,
+    };
+  } else if (threatType === 'campaign') {
+    subject = {
+      type: 'campaign',
+      id: stixId('campaign', row.title.toLowerCase()),
+      ...common,
+      name: row.title,
+      description: row.description || undefined,
+      first_seen: validFrom,
+    };
+  }
+
+  if (subject) objects.push(subject);
+
+  for (const { kind, value } of extractObservables(row)) {
+    const indicator: StixObject = {
+      type: 'indicator',
+      id: stixId('indicator', `${OBSERVABLE_ID_TYPES[kind]}|${value.toLowerCase()}`),
+      ...common,
+      name: value,
+      description: row.description || row.title,
+      indicator_types: ['malicious-activity'],
+      pattern: `[${OBSERVABLE_PATHS[kind]} = '${escapePatternValue(value)}']`,
+      pattern_type: 'stix',
+      valid_from: validFrom,
+      ...(row.last_seen ? { x_osint_last_seen: toTimestamp(row.last_seen, version) } : {}),
+    };
+    objects.push(indicator);
+
+    if (subject && subject.type !== 'campaign') {
+      objects.push({
+        type: 'relationship',
+        id: stixId('relationship', `${indicator.id}|indicates|${subject.id}`),
+        spec_version: '2.1',
+        created,
+        modified: version,
+        created_by_ref: identityId,
+        relationship_type: 'indicates',
+        source_ref: indicator.id,
+        target_ref: subject.id,
+      });
+    }
+  }
+
+  // Drop undefined optionals so clients with strict validators accept the output
+  return objects.map(obj => JSON.parse(JSON.stringify(obj)));
+}
+
+/* ============================================================================
+   DATA ACCESS
+============================================================================ */
+
+let client: ReturnType<typeof createClient> | null = null;
+
+function getSupabase() {
+  if (client) return client;
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const key =
+    process.env.SUPABASE_ANON_KEY ||
+    process.env.VITE_SUPABASE_PUBLISHABLE_KEY ||
+    process.env.VITE_SUPABASE_ANON_KEY;
+  if (!url || !key) {
+    throw new TaxiiError(503, 'TAXII server not configured', 'SUPABASE_URL and SUPABASE_ANON_KEY must be set');
+  }
+  client = createClient(url, key, { auth: { persistSession: false } });
+  return client;
+}
+
+async function listCollections(): Promise<TaxiiCollection[]> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.rpc('get_threat_counts_by_source');
+  if (error) throw new TaxiiError(502, 'Database error', error.message);
+
+  const collection = (title: string, description: string, filter: TaxiiCollection['filter']): TaxiiCollection => ({
+    // Collection ids survive redeploys
+    id: uuidV5(filter ? `${filter.column}:${filter.value}` : 'all', COLLECTION_NAMESPACE),
+    title,
+    description,
+    can_read: true,
+    can_write: false,
+    media_types: [STIX_MEDIA_TYPE],
+    filter,
+  });
+
+  const sources = ((data || []) as { source: string }[])
+    .map(row => row.source)
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b));
+
+  return [
+    collection('All threat intelligence', 'Every record in the OSINT Hub threat_intelligence table', null),
+    ...SEVERITY_LEVELS.map(level =>
+      collection(`Severity: ${level}`, `Records with severity_level = ${level}`, { column: 'severity_level', value: level })
+    ),
+    ...sources.map(source =>
+      collection(`Source: ${source}`, `Records ingested from ${source}`, { column: 'source_name', value: source })
+    ),
+  ];
+}
+
+async function fetchRows(collection: TaxiiCollection, from: PageCursor | null, addedAfter: string | undefined, size: number): Promise<ThreatRow[]> {
+  let query = getSupabase()
+    .from('threat_intelligence')
+    .select(ROW_COLUMNS)
+    .order('updated_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(size);
+
+  if (collection.filter) query = query.eq(collection.filter.column, collection.filter.value);
+  if (addedAfter) query = query.gt('updated_at', addedAfter);
+  if (from) {
+    query = query.or(`updated_at.gt."${from.t}",and(updated_at.eq."${from.t}",id.gte.${from.id})`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new TaxiiError(502, 'Database error', error.message);
+  return (data || []) as ThreatRow[];
+}
+
+/**
+ * Object versions sent on earlier pages that could repeat after the cursor.
+ * Duplicate versions only come from rows sharing an updated_at (a version is
+ * the row's updated_at), so re-reading the cursor row's timestamp group is
+ * enough to keep de-duplication consistent across pages.
+ */
+async function returnedBefore(collection: TaxiiCollection, cursor: PageCursor): Promise<Set<string>> {
+  let query = getSupabase()
+    .from('threat_intelligence')
+    .select(ROW_COLUMNS)
+    .eq('updated_at', cursor.t)
+    .lte('id', cursor.id)
+    .order('id', { ascending: true })
+    .limit(MAX_SCAN_ROWS);
+  if (collection.filter) query = query.eq(collection.filter.column, collection.filter.value);
+
+  const { data, error } = await query;
+  if (error) throw new TaxiiError(502, 'Database error', error.message);
+
+  const keys = new Set<string>();
+  for (const row of (data || []) as ThreatRow[]) {
+    const objects = rowToStix(row);
+    const sent = row.id === cursor.id ? objects.slice(0, cursor.skip) : objects;
+    sent.forEach(object => keys.add(`${object.id}|${object.modified}`));
+  }
+  return keys;
+}
+
+/**
+ * Walks the collection in (updated_at, id) order converting rows to STIX until
+ * the page is full. A row's objects may straddle two pages, so the cursor
+ * names the row to resume at (inclusive) plus how many of its objects were
+ * already returned. The producer identity, referenced by every object but not
+ * stored in the table, opens the first page.
+ */
+async function readPage(query: PageQuery): Promise<Page> {
+  const items: PagedObject[] = [];
+  let position: PageCursor | null = query.cursor?.t ? query.cursor : null;
+  const returned = position ? await returnedBefore(query.collection, position) : new Set<string>();
+  let scanned = 0;
+
+  if (!query.cursor && (!query.addedAfter || query.addedAfter < IDENTITY_CREATED)) {
+    const identity = identityObject();
+    if ((!query.types || query.types.has(identity.type)) && (!query.ids || query.ids.has(identity.id))) {
+      items.push({ object: identity, dateAdded: IDENTITY_CREATED });
+      if (items.length === query.limit) return { items, more: true, next: encodeCursor(AFTER_IDENTITY) };
+    }
+  }
+
+  while (scanned < MAX_SCAN_ROWS) {
+    const rows = await fetchRows(query.collection, position, query.addedAfter, ROW_BATCH_SIZE);
+    if (rows.length === 0) return { items, more: false };
+
+    for (const row of rows) {
+      // Each batch re-reads the resume row; its skip count covers what was already sent
+      const skip = position && position.id === row.id ? position.skip : 0;
+      const objects = rowToStix(row);
+      scanned++;
+
+      for (let i = skip; i < objects.length; i++) {
+        const object = objects[i];
+        if (query.types && !query.types.has(object.type)) continue;
+        if (query.ids && !query.ids.has(object.id)) continue;
+        // The same indicator reported by several rows of one source is one object version
+        const key = `${object.id}|${object.modified}`;
+        if (returned.has(key)) continue;
+        if (items.length === query.limit) {
+          return { items, more: true, next: encodeCursor({ t: row.updated_at, id: row.id, skip: i }) };
+        }
+        returned.add(key);
+        items.push({ object, dateAdded: rowVersion(row) });
+      }
+      position = { t: row.updated_at, id: row.id, skip: objects.length };
+    }
+
+    if (rows.length < ROW_BATCH_SIZE) return { items, more: false };
+  }
+
+  // Scan budget exhausted: hand back what we have and let the client continue
+  return position ? { items, more: true, next: encodeCursor(position) } : { items, more: false };
+}
+
+/* ============================================================================
+   HTTP
+============================================================================ */
+
+function sendTaxii(res: VercelResponse, status: number, body: unknown) {
+  res.setHeader('Content-Type', TAXII_MEDIA_TYPE);
+  res.status(status).send(JSON.stringify(body));
+}
+
+function sendError(res: VercelResponse, error: TaxiiError) {
+  sendTaxii(res, error.status, {
+    title: error.title,
+    description: error.message !== error.title ? error.message : undefined,
+    http_status: String(error.status),
+  });
+}
+
+// Compare digests so neither the key's content nor its length leaks through timing
+function keysMatch(supplied: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(supplied), digest(expected));
+}
+
+function checkAuth(req: VercelRequest) {
+  const expected = process.env.TAXII_API_KEY;
+  // Fail closed: without a configured key nothing is served
+  if (!expected) {
+    throw new TaxiiError(503, 'TAXII server not configured', 'TAXII_API_KEY must be set');
+  }
+
+  const header = String(req.headers.authorization || '');
+  const [scheme, credentials = ''] = header.split(' ');
+  let supplied = '';
+  if (/^bearer$/i.test(scheme)) {
+    supplied = credentials;
+  } else if (/^basic$/i.test(scheme)) {
+    const decoded = Buffer.from(credentials, 'base64').toString('utf8');
+    supplied = decoded.slice(decoded.indexOf(':') + 1);
+  }
+  if (!keysMatch(supplied, expected)) {
+    throw new TaxiiError(401, 'Unauthorized', 'A valid API key is required (Bearer token or Basic auth password)');
+  }
+}
+
+function checkAccept(req: VercelRequest) {
+  const accept = String(req.headers.accept || '').toLowerCase();
+  if (!accept || /application\/taxii\+json|application\/json|\*\/\*/.test(accept)) return;
+  throw new TaxiiError(406, 'Not Acceptable', `Supported media type: ${TAXII_MEDIA_TYPE}`);
+}
+
+function queryParam(req: VercelRequest, name: string): string | undefined {
+  const value = req.query[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function matchSet(req: VercelRequest, name: string): Set<string> | undefined {
+  const raw = queryParam(req, `match[${name}]`);
+  return raw ? new Set(raw.split(',').map(v => v.trim()).filter(Boolean)) : undefined;
+}
+
+function parsePageQuery(req: VercelRequest, collection: TaxiiCollection): PageQuery {
+  const addedAfter = queryParam(req, 'added_after');
+  if (addedAfter && isNaN(new Date(addedAfter).getTime())) {
+    throw new TaxiiError(400, 'Invalid added_after', 'added_after must be an RFC 3339 timestamp');
+  }
+  const limitParam = queryParam(req, 'limit');
+  const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_PAGE_SIZE;
+  if (!Number.isFinite(limit) || limit < 1) {
+    throw new TaxiiError(400, 'Invalid limit', 'limit must be a positive integer');
+  }
+  const next = queryParam(req, 'next');
+
+  return {
+    collection,
+    addedAfter: addedAfter ? new Date(addedAfter).toISOString() : undefined,
+    cursor: next ? decodeCursor(next) : undefined,
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+    ids: matchSet(req, 'id'),
+    types: matchSet(req, 'type'),
+  };
+}
+
+function setDateAddedHeaders(res: VercelResponse, items: PagedObject[]) {
+  if (items.length === 0) return;
+  const dates = items.map(i => i.dateAdded).sort();
+  res.setHeader('X-TAXII-Date-Added-First', dates[0]);
+  res.setHeader('X-TAXII-Date-Added-Last', dates[dates.length - 1]);
+}
+
+function envelope(page: Page, objects: unknown[]) {
+  return {
+    more: page.more,
+    ...(page.more && page.next ? { next: page.next } : {}),
+    ...(objects.length > 0 ? { objects } : {}),
+  };
+}
+
+function publicCollection({ filter: _filter, ...collection }: TaxiiCollection) {
+  return collection;
+}
+
+function baseUrl(req: VercelRequest): string {
+  const proto = String(req.headers['x-forwarded-proto'] || 'https').split(',')[0];
+  return `${proto}://${req.headers['x-forwarded-host'] || req.headers.host}`;
+}
+
+async function route(req: VercelRequest, res: VercelResponse, segments: string[]) {
+  // /api/taxii2/
+  if (segments.length === 0) {
+    return sendTaxii(res, 200, {
+      title: 'OSINT Hub TAXII Server',
+      description: 'Threat intelligence collected by OSINT Hub, served as STIX 2.1',
+      default: `${baseUrl(req)}/api/taxii2/${API_ROOT}/`,
+      api_roots: [`${baseUrl(req)}/api/taxii2/${API_ROOT}/`],
+    });
+  }
+
+  const [root, section, collectionId, resource, objectId, objectResource] = segments;
+  if (root !== API_ROOT) throw new TaxiiError(404, 'API root not found');
+
+  // /api/taxii2/osint/
+  if (!section) {
+    return sendTaxii(res, 200, {
+      title: 'OSINT Hub',
+      description: 'Read-only collections per source and severity level',
+      versions: [TAXII_MEDIA_TYPE],
+      max_content_length: 0,
+    });
+  }
+  if (section !== 'collections') throw new TaxiiError(404, 'Endpoint not found');
+
+  const collections = await listCollections();
+  if (!collectionId) {
+    return sendTaxii(res, 200, { collections: collections.map(publicCollection) });
+  }
+
+  const collection = collections.find(c => c.id === collectionId);
+  if (!collection) throw new TaxiiError(404, 'Collection not found');
+  if (!resource) return sendTaxii(res, 200, publicCollection(collection));
+
+  if (resource === 'manifest' && !objectId) {
+    const page = await readPage(parsePageQuery(req, collection));
+    setDateAddedHeaders(res, page.items);
+    return sendTaxii(res, 200, envelope(page, page.items.map(({ object, dateAdded }) => ({
+      id: object.id,
+      date_added: dateAdded,
+      version: object.modified,
+      media_type: STIX_MEDIA_TYPE,
+    }))));
+  }
+
+  if (resource !== 'objects') throw new TaxiiError(404, 'Endpoint not found');
+
+  if (!objectId) {
+    const page = await readPage(parsePageQuery(req, collection));
+    setDateAddedHeaders(res, page.items);
+    return sendTaxii(res, 200, envelope(page, page.items.map(i => i.object)));
+  }
+
+  // /objects/{id}/ and /objects/{id}/versions/ share the scan, narrowed to one id
+  const page = await readPage({ ...parsePageQuery(req, collection), ids: new Set([objectId]) });
+  if (page.items.length === 0 && !page.more) throw new TaxiiError(404, 'Object not found');
+  setDateAddedHeaders(res, page.items);
+
+  if (objectResource === 'versions') {
+    return sendTaxii(res, 200, {
+      more: page.more,
+      versions: [...new Set(page.items.map(i => i.object.modified))].sort(),
+    });
+  }
+  if (objectResource) throw new TaxiiError(404, 'Endpoint not found');
+  return sendTaxii(res, 200, envelope(page, page.items.map(i => i.object)));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Accept, Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    if (req.method !== 'GET') {
+      throw new TaxiiError(405, 'Method not allowed', 'This TAXII server is read-only');
+    }
+    checkAuth(req);
+    checkAccept(req);
+
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const segments = path.replace(/^\/api\/taxii2\/?/, '').split('/').filter(Boolean).map(decodeURIComponent);
+    console.log(`[Vercel/TAXII] GET ${path}`);
+    await route(req, res, segments);
+  } catch (error) {
+    if (error instanceof TaxiiError) return sendError(res, error);
+    console.error('[Vercel/TAXII] Error:', error);
+    sendError(res, new TaxiiError(500, 'Internal server error', error instanceof Error ? error.message : undefined));
+  }
+}
@@ -0,0 +1,35 @@
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Credentials', true);
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
+  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+  
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+  
+  // Only the manifest and event files of the feed may be proxied
+  const file = String(req.query.file || '');
+  if (!/^(manifest|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.json$/i.test(file)) {
+    res.status(400).json({ error: 'Invalid MISP feed file' });
+    return;
+  }
+  
+  try {
+    console.log(`[Vercel/MISP] Proxying ${file}...`);
+    const response = await fetch(`https://www.circl.lu/doc/misp/feed-osint/${file}`, {
+      headers: { 'User-Agent': 'Mozilla/5.0 OSINT-Hub/1.0' },
+    });
+    
+    if (!response.ok) throw new Error(`MISP feed status: ${response.status}`);
+    
+    const data = await response.json();
+    console.log('[Vercel/MISP] Successfully fetched data');
+    res.setHeader('Content-Type', 'application/json');
+    res.status(200).json(data);
+  } catch (error) {
+    console.error('[Vercel/MISP] Error:', error.message);
+    res.status(500).json({ error: 'Failed to fetch MISP feed', details: error.message });
+  }
+}
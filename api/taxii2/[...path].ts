@@ -0,0 +1,3 @@
+// TAXII 2.1 API root, collections, objects and manifest endpoints
+// Routing is done on the request path in ../_lib/taxii
+export { default } from '../_lib/taxii';
@@ -0,0 +1,3 @@
+// TAXII 2.1 discovery endpoint (/api/taxii2/)
+// Everything below the discovery URL is handled by [...path].ts
+export { default } from '../_lib/taxii';
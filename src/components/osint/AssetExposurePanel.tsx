@@ -0,0 +1,451 @@
+// src/components/osint/AssetExposurePanel.tsx
+// Software inventory import and the CVEs that affect it, by KEV status and CVSS
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Database, FileText, Loader2, RefreshCw, Server, Trash2, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { logActivity, saveDataset } from '@/lib/database';
+import { cn } from '@/lib/utils';
+import { getSeverityColor } from '@/services/cveService';
+import {
+  ASSET_CRITICALITIES,
+  deleteInventorySource,
+  getExposures,
+  getInventory,
+  groupExposuresByCVE,
+  importInventory,
+  parseInventory,
+  scanAssetExposure,
+  summarizeInventory,
+  type AssetCriticality,
+  type AssetExposure,
+  type ExposureScanProgress,
+  type InventoryDefaults,
+  type InventoryParseResult,
+  type SoftwareAsset,
+} from '@/services/assetExposureService';
+
+interface AssetExposurePanelProps {
+  onSelectCVE: (cveId: string) => void;
+  /** Called whenever the inventory changes so other views can match against it */
+  onInventoryChange?: (assets: SoftwareAsset[]) => void;
+}
+
+const FORMAT_NAMES: Record<InventoryParseResult['format'], string> = {
+  csv: 'CSV inventory',
+  cyclonedx: 'CycloneDX SBOM',
+  spdx: 'SPDX SBOM',
+};
+
+const PREVIEW_ROWS = 10;
+const ASSETS_SHOWN = 4;
+
+const MIN_CVSS_OPTIONS = [
+  { value: '0', label: 'Any CVSS' },
+  { value: '4', label: 'CVSS ≥ 4' },
+  { value: '7', label: 'CVSS ≥ 7' },
+  { value: '9', label: 'CVSS ≥ 9' },
+];
+
+export function AssetExposurePanel({ onSelectCVE, onInventoryChange }: AssetExposurePanelProps) {
+  const [assets, setAssets] = useState<SoftwareAsset[]>([]);
+  const [exposures, setExposures] = useState<AssetExposure[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [text, setText] = useState('');
+  const [defaults, setDefaults] = useState<InventoryDefaults>({ source: '', host: '', criticality: 'medium' });
+  const [importing, setImporting] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [progress, setProgress] = useState<ExposureScanProgress | null>(null);
+  const [kevOnly, setKevOnly] = useState(false);
+  const [minCvss, setMinCvss] = useState('0');
+  const [filter, setFilter] = useState('');
+
+  const refresh = useCallback(async () => {
+    const [inventory, stored] = await Promise.all([getInventory(), getExposures()]);
+    setAssets(inventory);
+    setExposures(stored);
+    onInventoryChange?.(inventory);
+  }, [onInventoryChange]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const parsed = useMemo((): { result?: InventoryParseResult; error?: string } => {
+    if (!file || !text) return {};
+    try {
+      return { result: parseInventory(text, file.name, defaults) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to parse file' };
+    }
+  }, [file, text, defaults]);
+
+  const sources = useMemo(() => summarizeInventory(assets), [assets]);
+
+  const exposed = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return groupExposuresByCVE(exposures, assets).filter(group =>
+      (!kevOnly || group.kev) &&
+      group.cvss >= parseFloat(minCvss) &&
+      (!needle ||
+        group.cveId.toLowerCase().includes(needle) ||
+        group.assets.some(({ asset }) =>
+          `${asset.name} ${asset.vendor || ''} ${asset.host || ''}`.toLowerCase().includes(needle)))
+    );
+  }, [exposures, assets, kevOnly, minCvss, filter]);
+
+  const exposedAssetCount = new Set(exposures.map(e => e.assetId)).size;
+  const kevCount = new Set(exposures.filter(e => e.kev).map(e => e.cveId)).size;
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    setText(await selected.text());
+  };
+
+  const reset = () => {
+    setFile(null);
+    setText('');
+  };
+
+  const handleImport = async () => {
+    const imported = parsed.result?.assets;
+    if (!file || !imported?.length) return;
+
+    setImporting(true);
+    try {
+      const saved = await importInventory(imported);
+      await saveDataset({
+        id: crypto.randomUUID(),
+        name: file.name,
+        type: 'software_inventory',
+        recordCount: saved,
+        importedAt: new Date(),
+        size: file.size,
+      });
+      await logActivity({
+        type: 'upload',
+        title: `Imported ${file.name}`,
+        description: `${saved} software assets from ${FORMAT_NAMES[parsed.result!.format]}`,
+      });
+      toast.success(`Imported ${saved} assets, run a scan to check them`);
+      reset();
+      await refresh();
+    } catch (error) {
+      console.error('[AssetExposure] Import failed:', error);
+      toast.error('Inventory import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDeleteSource = async (source: string) => {
+    if (!confirm(`Delete all assets from "${source}"?`)) return;
+    const removed = await deleteInventorySource(source);
+    toast.success(`Deleted ${removed} assets`);
+    await refresh();
+  };
+
+  const handleScan = async () => {
+    setScanning(true);
+    try {
+      const result = await scanAssetExposure(setProgress);
+      await refresh();
+      const cves = new Set(result.exposures.map(e => e.cveId)).size;
+      toast.success(
+        `${cves} CVEs affect ${new Set(result.exposures.map(e => e.assetId)).size} assets` +
+        (result.newExposures.length ? `, ${result.newExposures.length} new (${result.alertsCreated} alerts raised)` : '')
+      );
+      if (result.failedProducts.length) {
+        toast.warning(`NVD lookup failed for ${result.failedProducts.length} products, earlier results kept`);
+      }
+    } catch (error) {
+      console.error('[AssetExposure] Scan failed:', error);
+      toast.error('Exposure scan failed');
+    } finally {
+      setScanning(false);
+      setProgress(null);
+    }
+  };
+
+  const result = parsed.result;
+
+  return (
+    <div className="space-y-4">
+      {/* Inventory */}
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Server className="h-4 w-4" />
+            Software Inventory
+            <span className="text-xs text-muted-foreground font-normal">
+              {assets.length} assets from {sources.length} sources
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            CycloneDX or SPDX SBOMs (JSON, or SPDX tag-value), or a CSV with name, version and optionally
+            vendor, cpe, host, owner and criticality columns. CPEs give the most precise matches.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">Source</span>
+              <Input
+                value={defaults.source}
+                onChange={(e) => setDefaults(prev => ({ ...prev, source: e.target.value }))}
+                placeholder="File name"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">Host</span>
+              <Input
+                value={defaults.host}
+                onChange={(e) => setDefaults(prev => ({ ...prev, host: e.target.value }))}
+                placeholder="From the file"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">Criticality</span>
+              <Select
+                value={defaults.criticality}
+                onValueChange={(v) => setDefaults(prev => ({ ...prev, criticality: v as AssetCriticality }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASSET_CRITICALITIES.map(level => (
+                    <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </label>
+          </div>
+
+          {!file ? (
+            <label className="flex flex-col items-center gap-2 rounded-lg border-2 border-dashed border-border p-6 cursor-pointer hover:border-primary/50">
+              <Upload className="h-6 w-6 text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">Choose an inventory (.csv, .json, .spdx)</span>
+              <input
+                type="file"
+                accept=".csv,.json,.spdx,.txt"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <FileText className="h-5 w-5 text-primary" />
+                  <div>
+                    <p className="font-medium text-foreground text-sm">{file.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {result
+                        ? `${FORMAT_NAMES[result.format]} • ${result.assets.length} assets • ${result.skipped} skipped`
+                        : parsed.error || 'Reading...'}
+                    </p>
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={reset}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {result && result.assets.length > 0 && (
+                <div className="overflow-x-auto max-h-48 overflow-y-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-border bg-secondary/50">
+                        {['Name', 'Vendor', 'Version', 'Host', 'CPE'].map(col => (
+                          <th key={col} className="text-left p-2 font-semibold text-muted-foreground uppercase">{col}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.assets.slice(0, PREVIEW_ROWS).map(asset => (
+                        <tr key={asset.id} className="border-b border-border/50">
+                          <td className="p-2">{asset.name}</td>
+                          <td className="p-2">{asset.vendor || '-'}</td>
+                          <td className="p-2 font-mono">{asset.version}</td>
+                          <td className="p-2">{asset.host || '-'}</td>
+                          <td className="p-2 font-mono max-w-xs truncate">{asset.cpe || '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <Button
+                onClick={handleImport}
+                disabled={!result?.assets.length || importing}
+                variant="cyber"
+                className="w-full"
+              >
+                {importing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <Database className="h-4 w-4 mr-2" />
+                    Import {result?.assets.length || 0} Assets
+                  </>
+                )}
+              </Button>
+            </div>
+          )}
+
+          {sources.length > 0 && (
+            <div className="space-y-2">
+              {sources.map(source => (
+                <div key={source.source} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground text-sm truncate">{source.source}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {source.count.toLocaleString()} assets • {source.hosts} hosts • imported {source.importedAt.slice(0, 10)}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteSource(source.source)} title="Delete source">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Exposures */}
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-3 flex-wrap">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <AlertTriangle className="h-4 w-4" />
+              Exposed Assets
+              <Badge variant="outline">{new Set(exposures.map(e => e.cveId)).size} CVEs</Badge>
+              <Badge variant="outline">{exposedAssetCount} assets</Badge>
+              {kevCount > 0 && <Badge variant="destructive">{kevCount} KEV</Badge>}
+            </CardTitle>
+            <Button onClick={handleScan} disabled={scanning || assets.length === 0} size="sm">
+              {scanning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              {scanning && progress ? `Checking ${progress.done + 1}/${progress.total}` : 'Scan inventory'}
+            </Button>
+          </div>
+          {scanning && progress?.product && (
+            <p className="text-xs text-muted-foreground font-mono">
+              NVD lookup: {progress.product} (rate limited to 5 requests per 30s)
+            </p>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter by CVE, product or host"
+              className="h-8 max-w-xs"
+            />
+            <Select value={minCvss} onValueChange={setMinCvss}>
+              <SelectTrigger className="h-8 w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MIN_CVSS_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant={kevOnly ? 'default' : 'outline'} className="h-8" onClick={() => setKevOnly(!kevOnly)}>
+              KEV only
+            </Button>
+          </div>
+
+          {exposed.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground text-sm">
+              {assets.length === 0
+                ? 'Import an inventory to see which CVEs affect it'
+                : exposures.length === 0 ? 'No exposures found yet, run a scan' : 'No exposures match the filters'}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border bg-secondary/50">
+                    {['CVE', 'CVSS', 'KEV', 'Affected assets', 'First seen'].map(col => (
+                      <th key={col} className="text-left p-2 font-semibold text-muted-foreground uppercase">{col}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {exposed.map(group => (
+                    <tr key={group.cveId} className="border-b border-border/50 align-top">
+                      <td className="p-2">
+                        <button
+                          className="font-mono font-semibold text-primary hover:underline"
+                          onClick={() => onSelectCVE(group.cveId)}
+                        >
+                          {group.cveId}
+                        </button>
+                        <p className="text-muted-foreground line-clamp-2 max-w-md mt-1">{group.description}</p>
+                      </td>
+                      <td className={cn('p-2 font-mono font-bold', getSeverityColor(group.severity))}>
+                        {group.cvss.toFixed(1)}
+                      </td>
+                      <td className="p-2">
+                        {group.kev ? (
+                          <div className="flex flex-col gap-1">
+                            <Badge variant="destructive" className="text-[10px] w-fit">KEV</Badge>
+                            {group.knownRansomware && (
+                              <Badge variant="outline" className="text-[10px] w-fit border-red-500 text-red-500">Ransomware</Badge>
+                            )}
+                          </div>
+                        ) : '-'}
+                      </td>
+                      <td className="p-2 space-y-1">
+                        {group.assets.slice(0, ASSETS_SHOWN).map(({ asset, exposure }) => (
+                          <div key={asset.id} className="flex items-center gap-1 flex-wrap">
+                            <span className="font-medium">{asset.name}</span>
+                            <span className="font-mono">{asset.version}</span>
+                            {asset.host && <span className="text-muted-foreground">on {asset.host}</span>}
+                            {asset.criticality === 'critical' || asset.criticality === 'high' ? (
+                              <Badge variant="outline" className="text-[10px] capitalize">{asset.criticality}</Badge>
+                            ) : null}
+                            {exposure.matchType === 'product' && (
+                              <span className="text-muted-foreground" title="Matched on product name only, no vendor or CPE">(name match)</span>
+                            )}
+                          </div>
+                        ))}
+                        {group.assets.length > ASSETS_SHOWN && (
+                          <div className="text-muted-foreground">+{group.assets.length - ASSETS_SHOWN} more</div>
+                        )}
+                      </td>
+                      <td className="p-2 whitespace-nowrap">{group.firstSeen.slice(0, 10)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default AssetExposurePanel;
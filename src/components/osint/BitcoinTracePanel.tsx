@@ -0,0 +1,276 @@
+// src/components/osint/BitcoinTracePanel.tsx
+// Multi-hop Bitcoin fund tracing from an address entity, merged into the canvas
+
+import { useEffect, useRef, useState } from 'react';
+import { Bitcoin, Loader2, Play, Square, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import type { GraphData, GraphNode } from '@/services/graphService';
+import {
+  DEFAULT_TRACE_OPTIONS,
+  buildTraceGraph,
+  traceAddress,
+  type TraceDirection,
+  type TraceEvent,
+  type TraceOptions,
+  type TraceResult,
+} from '@/services/bitcoinTraceService';
+
+interface BitcoinTracePanelProps {
+  seed: GraphNode | null;
+  /** Merge the trace graph into the canvas */
+  onResult: (result: GraphData) => void;
+  onClose: () => void;
+}
+
+interface LogEntry {
+  text: string;
+  tone: 'info' | 'success' | 'error';
+}
+
+const DIRECTIONS: { value: TraceDirection; label: string }[] = [
+  { value: 'forward', label: 'Forward (where funds went)' },
+  { value: 'backward', label: 'Backward (where funds came from)' },
+  { value: 'both', label: 'Both directions' },
+];
+
+function describeEvent(event: TraceEvent): LogEntry {
+  switch (event.type) {
+    case 'hop':
+      return { text: `Hop ${event.hop}: ${event.pending} transactions queued`, tone: 'info' };
+    case 'transaction':
+      return event.error
+        ? { text: `${event.txid.slice(0, 12)}…: ${event.error}`, tone: 'error' }
+        : { text: `${event.direction === 'forward' ? '→' : '←'} ${event.txid.slice(0, 12)}… (hop ${event.hop})`, tone: 'info' };
+    case 'endpoint':
+      return {
+        text: `Reached ${event.endpoint.entityName || event.endpoint.entityType}: ${event.endpoint.amount} BTC at hop ${event.endpoint.hops}`,
+        tone: 'success',
+      };
+    case 'completed':
+      return {
+        text: `Completed: ${event.transactions} transactions, ${event.clusters} clusters${event.truncated ? ' (budget reached)' : ''}`,
+        tone: 'success',
+      };
+  }
+}
+
+export function BitcoinTracePanel({ seed, onResult, onClose }: BitcoinTracePanelProps) {
+  const [options, setOptions] = useState<TraceOptions>(DEFAULT_TRACE_OPTIONS);
+  const [running, setRunning] = useState(false);
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [result, setResult] = useState<TraceResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const update = (changes: Partial<TraceOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const toggleStop = (type: 'exchange' | 'mixer', enabled: boolean) =>
+    update({ stopAt: enabled ? [...options.stopAt, type] : options.stopAt.filter(t => t !== type) });
+
+  const handleRun = async () => {
+    if (!seed) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setResult(null);
+    setLog([{ text: `Tracing ${seed.value}`, tone: 'info' }]);
+
+    try {
+      const trace = await traceAddress(
+        seed.value,
+        options,
+        (event) => setLog(prev => [...prev, describeEvent(event)]),
+        controller.signal
+      );
+      setResult(trace);
+      if (trace.transactions.length === 0) {
+        toast.warning('No transactions matched the trace settings');
+        return;
+      }
+      onResult(buildTraceGraph(trace, seed.position));
+      toast.success(`Traced ${trace.transactions.length} transactions, ${trace.endpoints.length} endpoints`);
+    } catch (error) {
+      console.error('[BitcoinTrace] Trace failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Trace failed');
+    } finally {
+      setRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const applicable = seed?.type === 'crypto_address';
+
+  return (
+    <div className="absolute top-4 left-4 w-96 max-h-[calc(100%-2rem)] overflow-y-auto bg-card/95 backdrop-blur border border-border rounded-lg p-3 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="font-semibold flex items-center gap-2">
+          <Bitcoin className="h-4 w-4" />
+          Trace Funds
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} disabled={running}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground truncate">
+        {applicable ? seed.value : 'Select a Bitcoin address entity to trace'}
+      </p>
+
+      <Select value={options.direction} onValueChange={(v) => update({ direction: v as TraceDirection })} disabled={running}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DIRECTIONS.map(d => (
+            <SelectItem key={d.value} value={d.value}>{d.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="grid grid-cols-3 gap-2">
+        <label className="space-y-1">
+          <span className="text-xs text-muted-foreground">Hops</span>
+          <Input
+            type="number"
+            min={1}
+            max={8}
+            value={options.maxHops}
+            onChange={(e) => update({ maxHops: Math.min(8, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+            disabled={running}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-muted-foreground">Min BTC</span>
+          <Input
+            type="number"
+            min={0}
+            step="0.001"
+            value={options.minValue}
+            onChange={(e) => update({ minValue: Math.max(0, parseFloat(e.target.value) || 0) })}
+            disabled={running}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-muted-foreground">Max txs</span>
+          <Input
+            type="number"
+            min={1}
+            value={options.maxTransactions}
+            onChange={(e) => update({ maxTransactions: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            disabled={running}
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className="text-xs text-muted-foreground">From</span>
+          <Input
+            type="date"
+            value={options.since?.slice(0, 10) || ''}
+            onChange={(e) => update({ since: e.target.value || undefined })}
+            disabled={running}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-muted-foreground">Until</span>
+          <Input
+            type="date"
+            value={options.until?.slice(0, 10) || ''}
+            onChange={(e) => update({ until: e.target.value ? `${e.target.value}T23:59:59Z` : undefined })}
+            disabled={running}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        {(['exchange', 'mixer'] as const).map(type => (
+          <div key={type} className="flex items-center justify-between">
+            <span className="text-muted-foreground">Stop at known {type}s</span>
+            <Switch
+              checked={options.stopAt.includes(type)}
+              onCheckedChange={(checked) => toggleStop(type, checked)}
+              disabled={running}
+            />
+          </div>
+        ))}
+      </div>
+
+      {running ? (
+        <Button variant="destructive" size="sm" className="w-full" onClick={() => abortRef.current?.abort()}>
+          <Square className="h-4 w-4 mr-2" />
+          Stop
+        </Button>
+      ) : (
+        <Button size="sm" className="w-full" onClick={handleRun} disabled={!applicable}>
+          <Play className="h-4 w-4 mr-2" />
+          Trace {applicable ? seed.label : ''}
+        </Button>
+      )}
+
+      {result && (result.endpoints.length > 0 || result.clusters.length > 0) && (
+        <div className="border-t border-border pt-2 space-y-2">
+          {result.endpoints.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">Endpoints</div>
+              {result.endpoints.map(endpoint => (
+                <div key={`${endpoint.address}-${endpoint.txid}`} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate font-mono" title={endpoint.address}>{endpoint.address}</span>
+                  <Badge variant="outline" className="shrink-0 text-xs">
+                    {endpoint.entityName || endpoint.entityType} · {endpoint.amount} BTC
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+          {result.clusters.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">Clusters</div>
+              {result.clusters.map(cluster => (
+                <div key={cluster.clusterId} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate">{cluster.entityName || `${cluster.addresses.length} addresses`}</span>
+                  <Badge variant={cluster.riskLevel === 'critical' || cluster.riskLevel === 'high' ? 'destructive' : 'secondary'} className="text-xs">
+                    {cluster.riskLevel}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {log.length > 0 && (
+        <div className="border-t border-border pt-2 space-y-1 max-h-48 overflow-y-auto font-mono text-xs">
+          {log.map((entry, idx) => (
+            <div
+              key={idx}
+              className={cn(
+                entry.tone === 'error' && 'text-destructive',
+                entry.tone === 'success' && 'text-foreground',
+                entry.tone === 'info' && 'text-muted-foreground'
+              )}
+            >
+              {entry.text}
+            </div>
+          ))}
+          {running && <Loader2 className="h-3 w-3 animate-spin text-primary" />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BitcoinTracePanel;
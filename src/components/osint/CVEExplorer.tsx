@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { Shield, Search, Loader2, ExternalLink, AlertTriangle, Clock, Code, FileText } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Shield, Search, Loader2, ExternalLink, AlertTriangle, Clock, Code, FileText, Server } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -15,17 +15,88 @@ import {
   CVEData,
   ExploitData 
 } from '@/services/cveService';
+import { getInventory, type SoftwareAsset } from '@/services/assetExposureService';
+import {
+  PRIORITY_FACTORS,
+  PRIORITY_TIERS,
+  getPriorityWeights,
+  prioritizeCVEs,
+  type PrioritizedCVE,
+  type PriorityTier,
+} from '@/services/vulnPriorityService';
 import { saveSearchHistory } from '@/services/userDataService';
+import { AssetExposurePanel } from './AssetExposurePanel';
+import { CVEPriorityControls, type CVEListFilters, type CVESortKey } from './CVEPriorityControls';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
 export function CVEExplorer() {
   const [query, setQuery] = useState('');
   const [loading, setLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'search' | 'recent' | 'exploits'>('recent');
+  const [activeTab, setActiveTab] = useState<'search' | 'recent' | 'exploits' | 'exposure'>('recent');
   const [cveResults, setCveResults] = useState<CVEData[]>([]);
   const [exploitResults, setExploitResults] = useState<ExploitData[]>([]);
   const [selectedCVE, setSelectedCVE] = useState<CVEData | null>(null);
+  const [inventory, setInventory] = useState<SoftwareAsset[]>([]);
+
+  useEffect(() => {
+    getInventory().then(setInventory).catch(() => setInventory([]));
+  }, []);
+
+  const [weights, setWeights] = useState(getPriorityWeights);
+  const [epssVersion, setEpssVersion] = useState(0);
+  const [priorities, setPriorities] = useState<Map<string, PrioritizedCVE>>(new Map());
+  const [sortBy, setSortBy] = useState<CVESortKey>('priority');
+  const [filters, setFilters] = useState<CVEListFilters>({ kevOnly: false, exposedOnly: false, minTier: 'all' });
+
+  // Score the listed CVEs; inventory and EPSS changes feed into the score too
+  useEffect(() => {
+    let cancelled = false;
+    prioritizeCVEs(cveResults, weights)
+      .then(list => {
+        if (!cancelled) setPriorities(new Map(list.map(p => [p.cve.id, p])));
+      })
+      .catch(error => console.error('[Priority] Scoring failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [cveResults, weights, inventory, epssVersion]);
+
+  const visibleCVEs = useMemo(() => {
+    const tierRank = (tier: PriorityTier) => Object.keys(PRIORITY_TIERS).indexOf(tier);
+    const sortValue = (cve: CVEData): number => {
+      const p = priorities.get(cve.id);
+      if (sortBy === 'priority') return p?.priority.score ?? -1;
+      if (sortBy === 'epss') return p?.epss?.epss ?? -1;
+      if (sortBy === 'cvss') return cve.cvss.score;
+      return new Date(cve.published).getTime() || 0;
+    };
+    return cveResults
+      .filter(cve => {
+        const p = priorities.get(cve.id);
+        if (filters.kevOnly && !(p?.cve.kev || cve.kev)) return false;
+        if (filters.exposedOnly && !p?.exposure?.assets) return false;
+        if (filters.minTier !== 'all' && (!p || tierRank(p.priority.tier) > tierRank(filters.minTier))) return false;
+        return true;
+      })
+      .sort((a, b) => sortValue(b) - sortValue(a));
+  }, [cveResults, priorities, sortBy, filters]);
+
+  const noMatches = cveResults.length > 0 && visibleCVEs.length === 0 && (
+    <div className="text-center py-8 text-sm text-muted-foreground">No CVEs match the filters</div>
+  );
+
+  const priorityControls = cveResults.length > 0 && (
+    <CVEPriorityControls
+      sortBy={sortBy}
+      onSortChange={setSortBy}
+      filters={filters}
+      onFiltersChange={setFilters}
+      weights={weights}
+      onWeightsChange={setWeights}
+      onEPSSUpdated={() => setEpssVersion(v => v + 1)}
+    />
+  );
 
   useEffect(() => {
     if (activeTab === 'recent') {
@@ -114,6 +185,22 @@ export function CVEExplorer() {
     }
   };
 
+  const handleOpenExposedCVE = async (cveId: string) => {
+    setLoading(true);
+    try {
+      const cve = await getCVEDetails(cveId);
+      if (!cve) {
+        toast.error('CVE not found');
+        return;
+      }
+      setCveResults([cve]);
+      setSelectedCVE(cve);
+      setActiveTab('search');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSelectCVE = async (cve: CVEData) => {
     setSelectedCVE(cve);
     if (!cve.exploitAvailable) {
@@ -194,6 +281,10 @@ export function CVEExplorer() {
             <Code className="h-4 w-4" />
             Exploits
           </TabsTrigger>
+          <TabsTrigger value="exposure" className="flex items-center gap-2">
+            <Server className="h-4 w-4" />
+            Our Exposure
+          </TabsTrigger>
         </TabsList>
 
         {/* Recent CVEs */}
@@ -204,9 +295,11 @@ export function CVEExplorer() {
             </div>
           ) : (
             <div className="grid grid-cols-1 gap-4">
-              {cveResults.map((cve) => (
-                <CVECard key={cve.id} cve={cve} onSelect={handleSelectCVE} />
+              {priorityControls}
+              {visibleCVEs.map((cve) => (
+                <CVECard key={cve.id} cve={cve} prioritized={priorities.get(cve.id)} onSelect={handleSelectCVE} />
               ))}
+              {noMatches}
             </div>
           )}
         </TabsContent>
@@ -214,12 +307,14 @@ export function CVEExplorer() {
         {/* CVE Search */}
         <TabsContent value="search" className="mt-4">
           {selectedCVE ? (
-            <CVEDetails cve={selectedCVE} onBack={() => setSelectedCVE(null)} />
+            <CVEDetails cve={selectedCVE} prioritized={priorities.get(selectedCVE.id)} onBack={() => setSelectedCVE(null)} />
           ) : (
             <div className="grid grid-cols-1 gap-4">
-              {cveResults.map((cve) => (
-                <CVECard key={cve.id} cve={cve} onSelect={handleSelectCVE} />
+              {priorityControls}
+              {visibleCVEs.map((cve) => (
+                <CVECard key={cve.id} cve={cve} prioritized={priorities.get(cve.id)} onSelect={handleSelectCVE} />
               ))}
+              {noMatches}
               {cveResults.length === 0 && !loading && (
                 <div className="text-center py-12 text-muted-foreground">
                   <Shield className="h-12 w-12 mx-auto mb-4 opacity-30" />
@@ -244,12 +339,37 @@ export function CVEExplorer() {
             )}
           </div>
         </TabsContent>
+
+        {/* Exposure of our inventoried software */}
+        <TabsContent value="exposure" className="mt-4">
+          <AssetExposurePanel onSelectCVE={handleOpenExposedCVE} onInventoryChange={setInventory} />
+        </TabsContent>
       </Tabs>
     </div>
   );
 }
 
-function CVECard({ cve, onSelect }: { cve: CVEData; onSelect: (cve: CVEData) => void }) {
+const TIER_STYLES: Record<PriorityTier, string> = {
+  P1: 'bg-red-600 text-white border-red-600',
+  P2: 'bg-orange-500 text-white border-orange-500',
+  P3: 'border-yellow-500 text-yellow-500',
+  P4: 'text-muted-foreground',
+};
+
+function PriorityBadge({ prioritized }: { prioritized: PrioritizedCVE }) {
+  const { tier, score } = prioritized.priority;
+  return (
+    <Badge variant="outline" className={cn('text-xs font-mono', TIER_STYLES[tier])} title={PRIORITY_TIERS[tier].label}>
+      {tier} · {score}
+    </Badge>
+  );
+}
+
+function CVECard({ cve, prioritized, onSelect }: { cve: CVEData; prioritized?: PrioritizedCVE; onSelect: (cve: CVEData) => void }) {
+  const [showRationale, setShowRationale] = useState(false);
+  const affectedAssets = prioritized?.exposure?.assets;
+  const kev = prioritized?.cve.kev || cve.kev;
+
   return (
     <Card 
       className={cn(
@@ -265,17 +385,28 @@ function CVECard({ cve, onSelect }: { cve: CVEData; onSelect: (cve: CVEData) =>
               <Shield className={cn('h-5 w-5', getSeverityColor(cve.cvss.severity))} />
             </div>
             <div>
-              <div className="flex items-center gap-2 mb-1">
+              <div className="flex items-center gap-2 mb-1 flex-wrap">
                 <h3 className="font-mono font-bold text-foreground">{cve.id}</h3>
+                {prioritized && <PriorityBadge prioritized={prioritized} />}
+                {kev && <Badge variant="destructive" className="text-xs">KEV</Badge>}
                 {cve.exploitAvailable && (
                   <Badge variant="destructive" className="text-xs">
                     <AlertTriangle className="h-3 w-3 mr-1" />
                     Exploit Available
                   </Badge>
                 )}
+                {affectedAssets ? (
+                  <Badge variant="outline" className="text-xs border-orange-500 text-orange-500">
+                    <Server className="h-3 w-3 mr-1" />
+                    Affects {affectedAssets} of our assets
+                  </Badge>
+                ) : null}
               </div>
               <p className="text-xs text-muted-foreground">
                 Published: {new Date(cve.published).toLocaleDateString()}
+                {prioritized?.epss && (
+                  <> | EPSS: {(prioritized.epss.epss * 100).toFixed(1)}% ({Math.floor(prioritized.epss.percentile * 100)}th pct)</>
+                )}
               </p>
             </div>
           </div>
@@ -291,19 +422,37 @@ function CVECard({ cve, onSelect }: { cve: CVEData; onSelect: (cve: CVEData) =>
           {cve.description}
         </p>
 
-        <div className="flex flex-wrap gap-2">
+        <div className="flex flex-wrap items-center gap-2">
           {cve.cwe.slice(0, 3).map((cwe, i) => (
             <Badge key={i} variant="outline" className="text-xs">
               {cwe}
             </Badge>
           ))}
+          {prioritized && (
+            <button
+              className="ml-auto text-xs text-primary hover:underline"
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowRationale(!showRationale);
+              }}
+            >
+              {showRationale ? 'Hide rationale' : 'Why this priority?'}
+            </button>
+          )}
         </div>
+
+        {showRationale && prioritized && (
+          <ul className="mt-3 space-y-1 text-xs text-muted-foreground border-t border-border pt-3">
+            {prioritized.priority.rationale.map(line => <li key={line}>• {line}</li>)}
+            {prioritized.priority.rationale.length === 0 && <li>No factor contributes to the score</li>}
+          </ul>
+        )}
       </CardContent>
     </Card>
   );
 }
 
-function CVEDetails({ cve, onBack }: { cve: CVEData; onBack: () => void }) {
+function CVEDetails({ cve, prioritized, onBack }: { cve: CVEData; prioritized?: PrioritizedCVE; onBack: () => void }) {
   return (
     <div className="space-y-4">
       <Button variant="outline" onClick={onBack} size="sm">
@@ -340,6 +489,27 @@ function CVEDetails({ cve, onBack }: { cve: CVEData; onBack: () => void }) {
             <p className="text-sm text-foreground">{cve.description}</p>
           </div>
 
+          {prioritized && (
+            <div>
+              <h3 className="font-semibold text-foreground mb-2 flex items-center gap-2">
+                Priority
+                <PriorityBadge prioritized={prioritized} />
+                <span className="text-xs font-normal text-muted-foreground">{PRIORITY_TIERS[prioritized.priority.tier].label}</span>
+              </h3>
+              <table className="w-full text-xs">
+                <tbody>
+                  {prioritized.priority.factors.map(f => (
+                    <tr key={f.factor} className="border-b border-border/50">
+                      <td className="py-1 pr-2 font-medium whitespace-nowrap">{PRIORITY_FACTORS[f.factor].label}</td>
+                      <td className="py-1 pr-2 text-muted-foreground">{f.detail}</td>
+                      <td className="py-1 text-right font-mono whitespace-nowrap">+{f.points}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           <div>
             <h3 className="font-semibold text-foreground mb-2">CVSS Vector</h3>
             <code className="text-xs bg-secondary p-2 rounded block font-mono">
@@ -0,0 +1,226 @@
+// src/components/osint/CVEPriorityControls.tsx
+// Sorting, filtering and priority weights for CVE lists, plus the offline EPSS dataset
+
+import { useEffect, useRef, useState } from 'react';
+import { Download, Loader2, RotateCcw, SlidersHorizontal, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  downloadEPSS,
+  getEPSSDatasetInfo,
+  importEPSSFile,
+  isEPSSStale,
+  type EPSSDatasetInfo,
+} from '@/services/epssService';
+import {
+  PRIORITY_FACTORS,
+  PRIORITY_TIERS,
+  resetPriorityWeights,
+  savePriorityWeights,
+  type PriorityFactor,
+  type PriorityTier,
+  type PriorityWeights,
+} from '@/services/vulnPriorityService';
+
+export type CVESortKey = 'priority' | 'cvss' | 'epss' | 'published';
+
+export interface CVEListFilters {
+  kevOnly: boolean;
+  exposedOnly: boolean;
+  minTier: PriorityTier | 'all';
+}
+
+interface CVEPriorityControlsProps {
+  sortBy: CVESortKey;
+  onSortChange: (sortBy: CVESortKey) => void;
+  filters: CVEListFilters;
+  onFiltersChange: (filters: CVEListFilters) => void;
+  weights: PriorityWeights;
+  onWeightsChange: (weights: PriorityWeights) => void;
+  /** Called after a new EPSS dataset is loaded so scores can be recomputed */
+  onEPSSUpdated: () => void;
+}
+
+const SORT_OPTIONS: { value: CVESortKey; label: string }[] = [
+  { value: 'priority', label: 'Priority' },
+  { value: 'cvss', label: 'CVSS' },
+  { value: 'epss', label: 'EPSS' },
+  { value: 'published', label: 'Newest' },
+];
+
+export function CVEPriorityControls({
+  sortBy,
+  onSortChange,
+  filters,
+  onFiltersChange,
+  weights,
+  onWeightsChange,
+  onEPSSUpdated,
+}: CVEPriorityControlsProps) {
+  const [epssInfo, setEpssInfo] = useState<EPSSDatasetInfo | null>(null);
+  const [loadingEPSS, setLoadingEPSS] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getEPSSDatasetInfo().then(setEpssInfo);
+  }, []);
+
+  const loadEPSS = async (load: () => Promise<EPSSDatasetInfo>) => {
+    setLoadingEPSS(true);
+    try {
+      const info = await load();
+      setEpssInfo(info);
+      toast.success(`Loaded ${info.count.toLocaleString()} EPSS scores from ${info.scoreDate.slice(0, 10)}`);
+      onEPSSUpdated();
+    } catch (error) {
+      console.error('[EPSS] Load failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load EPSS scores');
+    } finally {
+      setLoadingEPSS(false);
+    }
+  };
+
+  const updateWeight = (factor: PriorityFactor, value: number) => {
+    const next = { ...weights, [factor]: value };
+    savePriorityWeights(next);
+    onWeightsChange(next);
+  };
+
+  const totalWeight = Object.values(weights).reduce((sum, w) => sum + w, 0) || 1;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={sortBy} onValueChange={(v) => onSortChange(v as CVESortKey)}>
+        <SelectTrigger className="h-8 w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value}>Sort: {option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.minTier}
+        onValueChange={(v) => onFiltersChange({ ...filters, minTier: v as CVEListFilters['minTier'] })}
+      >
+        <SelectTrigger className="h-8 w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All priorities</SelectItem>
+          {(Object.keys(PRIORITY_TIERS) as PriorityTier[]).slice(0, 3).map(tier => (
+            <SelectItem key={tier} value={tier}>{tier} or higher</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        size="sm"
+        variant={filters.kevOnly ? 'default' : 'outline'}
+        className="h-8"
+        onClick={() => onFiltersChange({ ...filters, kevOnly: !filters.kevOnly })}
+      >
+        KEV only
+      </Button>
+      <Button
+        size="sm"
+        variant={filters.exposedOnly ? 'default' : 'outline'}
+        className="h-8"
+        onClick={() => onFiltersChange({ ...filters, exposedOnly: !filters.exposedOnly })}
+      >
+        Affects us
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="outline" className="h-8">
+            <SlidersHorizontal className="h-4 w-4 mr-2" />
+            Weights
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Priority weights</p>
+            <Button size="sm" variant="ghost" className="h-7" onClick={() => onWeightsChange(resetPriorityWeights())}>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Reset
+            </Button>
+          </div>
+          {(Object.keys(PRIORITY_FACTORS) as PriorityFactor[]).map(factor => (
+            <div key={factor} className="space-y-1">
+              <div className="flex items-center justify-between text-xs">
+                <span title={PRIORITY_FACTORS[factor].description}>{PRIORITY_FACTORS[factor].label}</span>
+                <span className="text-muted-foreground">{Math.round((weights[factor] / totalWeight) * 100)}%</span>
+              </div>
+              <Slider
+                value={[weights[factor]]}
+                min={0}
+                max={50}
+                step={1}
+                onValueChange={([value]) => updateWeight(factor, value)}
+              />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Scores are the weighted share of each factor, 0-100. P1 ≥ {PRIORITY_TIERS.P1.min}, P2 ≥ {PRIORITY_TIERS.P2.min}, P3 ≥ {PRIORITY_TIERS.P3.min}.
+          </p>
+        </PopoverContent>
+      </Popover>
+
+      <div className="flex items-center gap-1 ml-auto">
+        <Badge
+          variant="outline"
+          className={isEPSSStale(epssInfo) ? 'border-yellow-500 text-yellow-500' : ''}
+          title={epssInfo ? `${epssInfo.count.toLocaleString()} scores, model ${epssInfo.modelVersion || 'unknown'}` : 'Scores are fetched online per CVE until a dataset is loaded'}
+        >
+          EPSS {epssInfo ? epssInfo.scoreDate.slice(0, 10) : 'online only'}
+        </Badge>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 w-8 p-0"
+          onClick={() => loadEPSS(downloadEPSS)}
+          disabled={loadingEPSS}
+          title="Download today's EPSS scores"
+        >
+          {loadingEPSS ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 w-8 p-0"
+          onClick={() => fileInput.current?.click()}
+          disabled={loadingEPSS}
+          title="Import a saved EPSS CSV (.csv or .csv.gz)"
+        >
+          <Upload className="h-4 w-4" />
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.gz"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) loadEPSS(() => importEPSSFile(file));
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default CVEPriorityControls;
@@ -9,6 +9,7 @@
 // ✔ Ransomware wallet tracking (Ransomwhere)
 // ✔ Crypto scam database (CryptoScamDB)
 // ✔ Transaction analysis & risk assessment
+// ✔ Fund flows & counterparties for BTC, LTC, ETH/ERC-20 and TRON/TRC-20
 // ============================================================================
 
 'use client';
@@ -79,6 +80,9 @@ import {
 
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import type { CryptoInvestigationResult } from '@/services/bitcoinInvestigationService';
+import { detectChain, investigateCryptoAddress, type CryptoChain } from '@/services/cryptoChainService';
+import { CryptoFlowView } from './CryptoFlowView';
 
 /* ============================================================================
    TYPES
@@ -97,7 +101,7 @@ interface CryptoAbuseReport {
 
 interface CryptoAbuseResult {
   address: string;
-  network: 'bitcoin' | 'ethereum' | 'tron' | 'unknown';
+  network: CryptoChain | 'unknown';
   isAbuse: boolean;
   abuseType: string;
   confidence: number;
@@ -113,6 +117,7 @@ interface CryptoAbuseResult {
     lastSeen?: string;
     labels?: string[];
   };
+  investigation?: CryptoInvestigationResult;
 }
 
 interface CryptoSearchOptions {
@@ -127,33 +132,10 @@ interface CryptoSearchOptions {
    UTILITY FUNCTIONS
 ============================================================================ */
 
-// Detect cryptocurrency wallet address and return its type
-function detectCryptoWallet(input: string): 'bitcoin' | 'ethereum' | 'tron' | null {
-  const trimmed = input.trim();
-  
-  // Bitcoin address patterns
-  if (/^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(trimmed) || // Legacy P2PKH/P2SH
-      /^bc1[a-z0-9]{39,59}$/.test(trimmed)) { // Bech32
-    return 'bitcoin';
-  }
-  
-  // Ethereum address pattern
-  if (/^0x[a-fA-F0-9]{40}$/.test(trimmed)) {
-    return 'ethereum';
-  }
-  
-  // Tron address pattern
-  if (/^T[A-Za-z1-9]{33}$/.test(trimmed)) {
-    return 'tron';
-  }
-  
-  return null;
-}
-
 // Check cryptocurrency address for abuse reports
 async function checkCryptoAbuse(
   address: string, 
-  network: 'bitcoin' | 'ethereum' | 'tron',
+  network: CryptoChain,
   options: CryptoSearchOptions
 ): Promise<CryptoAbuseResult> {
   console.log(`[CryptoAbuse] Checking ${network} address: ${address}`);
@@ -305,20 +287,22 @@ async function checkCryptoAbuse(
     promises.push(
       (async () => {
         try {
-          if (network === 'bitcoin') {
-            console.log('[Blockchain] Fetching Bitcoin address info...');
-            const response = await fetch(`https://blockchain.info/rawaddr/${address}`);
-            if (response.ok) {
-              const data = await response.json();
-              result.metadata = {
-                balance: data.final_balance / 100000000, // Convert satoshis to BTC
-                totalReceived: data.total_received / 100000000,
-                totalSent: data.total_sent / 100000000,
-                transactionCount: data.n_tx,
-              };
-              console.log('[Blockchain] ✅ Address metadata retrieved');
-            }
-          } else if (network === 'tron') {
+          console.log(`[Blockchain] Investigating ${network} address flows...`);
+          const investigation = await investigateCryptoAddress(address, network);
+          if (investigation) {
+            result.investigation = investigation;
+            result.metadata = {
+              ...result.metadata,
+              balance: investigation.address.balance,
+              totalReceived: investigation.address.totalReceived,
+              totalSent: investigation.address.totalSent,
+              transactionCount: investigation.address.txCount,
+              firstSeen: investigation.address.firstSeen,
+              lastSeen: investigation.address.lastSeen,
+            };
+            console.log('[Blockchain] ✅ Address metadata retrieved');
+          }
+          if (network === 'tron') {
             console.log('[Tronscan] Fetching TRON address info...');
             const response = await fetch(`https://apilist.tronscan.org/api/account?address=${address}`);
             if (response.ok) {
@@ -335,7 +319,7 @@ async function checkCryptoAbuse(
                 });
                 console.log('[Tronscan] ⚠️ Risk flagged address');
               }
-              result.metadata.labels = data.labels || [];
+              result.metadata = { ...result.metadata, labels: data.labels || [] };
             }
           }
         } catch (err) {
@@ -411,7 +395,7 @@ export function CryptoAbuseScanner() {
       return;
     }
     
-    const cryptoType = detectCryptoWallet(address);
+    const cryptoType = detectChain(address.trim());
     if (!cryptoType) {
       toast.error('Invalid cryptocurrency address format');
       return;
@@ -426,7 +410,7 @@ export function CryptoAbuseScanner() {
     console.log(`${'='.repeat(60)}\n`);
     
     try {
-      const abuseResult = await checkCryptoAbuse(address, cryptoType, options);
+      const abuseResult = await checkCryptoAbuse(address.trim(), cryptoType, options);
       setResult(abuseResult);
       
       const searchTime = Date.now() - startTime;
@@ -471,7 +455,7 @@ export function CryptoAbuseScanner() {
             </Badge>
           </h1>
           <p className="text-muted-foreground mt-2">
-            Check Bitcoin, Ethereum & TRON addresses for abuse reports, scams, and ransomware activity
+            Check Bitcoin, Litecoin, Ethereum & TRON addresses for abuse reports, scams, ransomware activity and fund flows
           </p>
         </div>
 
@@ -521,7 +505,7 @@ export function CryptoAbuseScanner() {
                 value={address}
                 onChange={e => setAddress(e.target.value)}
                 onKeyDown={e => e.key === 'Enter' && runCryptoCheck()}
-                placeholder="Enter cryptocurrency address: BTC, ETH, TRX..."
+                placeholder="Enter cryptocurrency address: BTC, LTC, ETH, TRX..."
                 className="pl-11 text-lg h-12"
               />
             </div>
@@ -670,6 +654,9 @@ export function CryptoAbuseScanner() {
             </Card>
           )}
 
+          {/* FUND FLOWS */}
+          {result.investigation && <CryptoFlowView investigation={result.investigation} />}
+
           {/* BLOCKCHAIN METADATA */}
           {result.metadata && Object.keys(result.metadata).length > 0 && (
             <Card>
@@ -684,13 +671,13 @@ export function CryptoAbuseScanner() {
                   {result.metadata.totalReceived && (
                     <div className="p-3 border rounded">
                       <div className="text-sm font-medium">Total Received</div>
-                      <div className="text-lg font-bold">{result.metadata.totalReceived.toFixed(6)} {result.network.toUpperCase()}</div>
+                      <div className="text-lg font-bold">{result.metadata.totalReceived.toFixed(6)} {result.investigation?.address.asset || result.network.toUpperCase()}</div>
                     </div>
                   )}
                   {result.metadata.totalSent && (
                     <div className="p-3 border rounded">
                       <div className="text-sm font-medium">Total Sent</div>
-                      <div className="text-lg font-bold">{result.metadata.totalSent.toFixed(6)} {result.network.toUpperCase()}</div>
+                      <div className="text-lg font-bold">{result.metadata.totalSent.toFixed(6)} {result.investigation?.address.asset || result.network.toUpperCase()}</div>
                     </div>
                   )}
                   {result.metadata.labels && result.metadata.labels.length > 0 && (
@@ -0,0 +1,241 @@
+// src/components/osint/CryptoFlowView.tsx
+// Chain-agnostic view of an address's counterparties and transfers, inbound on the left, outbound on the right
+
+import { useMemo, useState } from 'react';
+import { ArrowDownLeft, ArrowUpRight, ExternalLink, Network, Wallet } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import type { Counterparty, CryptoInvestigationResult } from '@/services/bitcoinInvestigationService';
+import { CHAIN_INFO, explorerUrl } from '@/services/cryptoChainService';
+
+interface CryptoFlowViewProps {
+  investigation: CryptoInvestigationResult;
+}
+
+const PARTY_LIMIT = 12;
+const FLOW_LIMIT = 50;
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString(undefined, { maximumFractionDigits: amount >= 1000 ? 0 : amount >= 1 ? 2 : 6 });
+}
+
+function shortAddress(address: string): string {
+  return address.length > 16 ? `${address.slice(0, 8)}…${address.slice(-6)}` : address;
+}
+
+function riskClass(risk: number): string {
+  return risk >= 80 ? 'border-red-500 text-red-500' :
+    risk >= 60 ? 'border-orange-500 text-orange-500' :
+    risk > 30 ? 'border-yellow-500 text-yellow-500' : '';
+}
+
+function volumeText(party: Counterparty, side: 'inbound' | 'outbound'): string {
+  return Object.entries(party.volume)
+    .filter(([, v]) => v[side] > 0)
+    .map(([asset, v]) => `${formatAmount(v[side])} ${asset}`)
+    .join(' · ');
+}
+
+function PartyColumn({
+  title,
+  parties,
+  side,
+  chain,
+}: {
+  title: string;
+  parties: Counterparty[];
+  side: 'inbound' | 'outbound';
+  chain: CryptoInvestigationResult['chain'];
+}) {
+  const maxTransfers = Math.max(1, ...parties.map(p => p.transfers));
+  return (
+    <div className="space-y-2 min-w-0">
+      <div className="text-xs text-muted-foreground uppercase flex items-center gap-1">
+        {side === 'inbound' ? <ArrowDownLeft className="h-3 w-3" /> : <ArrowUpRight className="h-3 w-3" />}
+        {title} ({parties.length})
+      </div>
+      {parties.length === 0 && <div className="text-xs text-muted-foreground">None in fetched history</div>}
+      {parties.slice(0, PARTY_LIMIT).map(party => (
+        <div key={party.address} className="rounded border border-border p-2 space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <a
+              href={explorerUrl(chain, 'address', party.address)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-mono text-xs truncate hover:underline"
+              title={party.address}
+            >
+              {shortAddress(party.address)}
+            </a>
+            {party.risk > 30 && (
+              <Badge variant="outline" className={cn('text-[10px] shrink-0', riskClass(party.risk))}>
+                risk {party.risk}
+              </Badge>
+            )}
+          </div>
+          <div className="text-xs">{volumeText(party, side)}</div>
+          {party.labels.length > 0 && (
+            <div className="text-[10px] text-muted-foreground truncate">{party.labels.join(', ')}</div>
+          )}
+          <div
+            className={cn('h-1 rounded', side === 'inbound' ? 'bg-green-500/60' : 'bg-orange-500/60')}
+            style={{ width: `${Math.max(8, (party.transfers / maxTransfers) * 100)}%` }}
+            title={`${party.transfers} transfers`}
+          />
+        </div>
+      ))}
+      {parties.length > PARTY_LIMIT && (
+        <div className="text-xs text-muted-foreground">+{parties.length - PARTY_LIMIT} more</div>
+      )}
+    </div>
+  );
+}
+
+export function CryptoFlowView({ investigation }: CryptoFlowViewProps) {
+  const [asset, setAsset] = useState<string | null>(null);
+  const { chain, address: info } = investigation;
+  const chainInfo = CHAIN_INFO[chain];
+
+  const assets = useMemo(() => {
+    const counts = new Map<string, number>();
+    investigation.flows.forEach(f => counts.set(f.asset, (counts.get(f.asset) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([name]) => name);
+  }, [investigation.flows]);
+
+  const flows = asset ? investigation.flows.filter(f => f.asset === asset) : investigation.flows;
+  const parties = asset
+    ? investigation.counterparties.filter(p => p.volume[asset])
+    : investigation.counterparties;
+  const inbound = parties.filter(p => (asset ? p.volume[asset].inbound > 0 : p.direction !== 'outbound'));
+  const outbound = parties.filter(p => (asset ? p.volume[asset].outbound > 0 : p.direction !== 'inbound'));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 flex-wrap">
+          <Network className="h-5 w-5" />
+          Fund Flows
+          <Badge variant="outline">{chainInfo.name}</Badge>
+          <span className="text-xs text-muted-foreground font-normal">
+            {investigation.flows.length} transfers, {investigation.counterparties.length} counterparties
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Balances */}
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary" className="gap-1">
+            <Wallet className="h-3 w-3" />
+            {formatAmount(info.balance)} {info.asset}
+          </Badge>
+          {info.tokenBalances?.map(token => (
+            <Badge key={token.contract || token.symbol} variant="secondary">
+              {formatAmount(token.balance)} {token.symbol}
+            </Badge>
+          ))}
+          {info.balanceUSD > 0 && (
+            <Badge variant="outline">≈ ${formatAmount(info.balanceUSD)}</Badge>
+          )}
+        </div>
+
+        {/* Asset filter */}
+        {assets.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant={asset === null ? 'default' : 'outline'} onClick={() => setAsset(null)}>
+              All assets
+            </Button>
+            {assets.map(name => (
+              <Button key={name} size="sm" variant={asset === name ? 'default' : 'outline'} onClick={() => setAsset(name)}>
+                {name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {/* Sources → address → destinations */}
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 items-start">
+          <PartyColumn title="Sources" parties={inbound} side="inbound" chain={chain} />
+          <div className="flex flex-col items-center justify-center gap-1 md:pt-8">
+            <div className="rounded-full border-2 border-primary p-3">
+              <Wallet className="h-5 w-5 text-primary" />
+            </div>
+            <div className="font-mono text-xs" title={info.address}>{shortAddress(info.address)}</div>
+            <Badge variant="outline" className={cn('text-[10px]', riskClass(info.riskScore))}>
+              risk {info.riskScore}
+            </Badge>
+          </div>
+          <PartyColumn title="Destinations" parties={outbound} side="outbound" chain={chain} />
+        </div>
+
+        {/* Transfer list */}
+        {flows.length > 0 && (
+          <ScrollArea className="h-64 rounded border border-border">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-border bg-secondary/50">
+                  {['Time', '', 'Counterparty', 'Amount', 'Tx'].map((col, i) => (
+                    <th key={i} className="text-left p-2 font-semibold text-muted-foreground">{col}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {flows.slice(0, FLOW_LIMIT).map((flow, i) => {
+                  const incoming = flow.targetAddress === info.address;
+                  const other = incoming ? flow.sourceAddress : flow.targetAddress;
+                  return (
+                    <tr key={`${flow.txid}-${i}`} className="border-b border-border/50">
+                      <td className="p-2 whitespace-nowrap">{flow.timestamp === 'Unknown' ? '—' : new Date(flow.timestamp).toLocaleString()}</td>
+                      <td className="p-2">
+                        {incoming
+                          ? <ArrowDownLeft className="h-3 w-3 text-green-500" />
+                          : <ArrowUpRight className="h-3 w-3 text-orange-500" />}
+                      </td>
+                      <td className={cn('p-2 font-mono', flow.pathRisk >= 60 && 'text-red-500')} title={other}>
+                        {shortAddress(other)}
+                      </td>
+                      <td className="p-2 whitespace-nowrap">{formatAmount(flow.amount)} {flow.asset}</td>
+                      <td className="p-2">
+                        <a
+                          href={explorerUrl(chain, 'tx', flow.txid)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-500 hover:underline inline-flex items-center gap-1"
+                        >
+                          {flow.txid.slice(0, 8)}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </ScrollArea>
+        )}
+
+        {/* Risk factors */}
+        {investigation.riskAssessment.factors.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs text-muted-foreground uppercase">Risk factors</div>
+            {investigation.riskAssessment.factors.map(factor => (
+              <div key={factor} className="text-sm">• {factor}</div>
+            ))}
+          </div>
+        )}
+        {investigation.riskAssessment.recommendations.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs text-muted-foreground uppercase">Recommendations</div>
+            {investigation.riskAssessment.recommendations.map(rec => (
+              <div key={rec} className="text-sm">• {rec}</div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default CryptoFlowView;
@@ -0,0 +1,163 @@
+// src/components/osint/CryptoLabelEditor.tsx
+// Attribution labels for a crypto address entity, with analyst labelling
+
+import { useEffect, useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ANALYST_SOURCE,
+  CATEGORY_CONFIG,
+  CRYPTO_LABEL_CATEGORIES,
+  addAnalystLabel,
+  deleteCryptoLabel,
+  getLabelsForAddress,
+  loadCryptoLabels,
+  type CryptoLabel,
+  type CryptoLabelCategory,
+} from '@/services/cryptoLabelService';
+
+interface CryptoLabelEditorProps {
+  address: string;
+  author: string;
+  readOnly?: boolean;
+  /** Called after labels change so the entity's risk can be recomputed */
+  onChange?: () => void;
+}
+
+export function CryptoLabelEditor({ address, author, readOnly, onChange }: CryptoLabelEditorProps) {
+  const [labels, setLabels] = useState<CryptoLabel[]>([]);
+  const [category, setCategory] = useState<CryptoLabelCategory>('scam');
+  const [entityName, setEntityName] = useState('');
+  const [confidence, setConfidence] = useState(70);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadCryptoLabels().then(() => setLabels(getLabelsForAddress(address)));
+  }, [address]);
+
+  const refresh = () => {
+    setLabels(getLabelsForAddress(address));
+    onChange?.();
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      const label = await addAnalystLabel({
+        address,
+        category,
+        entityName: entityName.trim() || undefined,
+        confidence,
+        notes: notes.trim() || undefined,
+        createdBy: author,
+      });
+      if (!label) {
+        toast.error('Not a recognisable address');
+        return;
+      }
+      setEntityName('');
+      setNotes('');
+      refresh();
+      toast.success(`Labeled as ${CATEGORY_CONFIG[category].label}`);
+    } catch (error) {
+      console.error('[CryptoLabels] Failed to add label:', error);
+      toast.error('Failed to save label');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (label: CryptoLabel) => {
+    await deleteCryptoLabel(label.id);
+    refresh();
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      {labels.length === 0 ? (
+        <div className="text-xs text-muted-foreground">No labels for this address</div>
+      ) : (
+        <div className="space-y-2">
+          {labels.map(label => (
+            <div key={label.id} className="rounded border border-border p-2 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <Badge
+                  variant="outline"
+                  className="text-xs"
+                  style={{ borderColor: CATEGORY_CONFIG[label.category].color, color: CATEGORY_CONFIG[label.category].color }}
+                >
+                  {CATEGORY_CONFIG[label.category].label}
+                </Badge>
+                {label.source === ANALYST_SOURCE && !readOnly && (
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleDelete(label)} title="Remove label">
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              {label.entityName && <div className="font-medium truncate">{label.entityName}</div>}
+              <div className="text-xs text-muted-foreground">
+                {label.source}{label.createdBy ? ` (${label.createdBy})` : ''} • {label.confidence}% • {label.date.slice(0, 10)}
+              </div>
+              {label.notes && <div className="text-xs text-muted-foreground break-words">{label.notes}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!readOnly && (
+        <div className="space-y-2 border-t border-border pt-3">
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={category} onValueChange={(v) => setCategory(v as CryptoLabelCategory)}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CRYPTO_LABEL_CATEGORIES.map(c => (
+                  <SelectItem key={c} value={c}>{CATEGORY_CONFIG[c].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              className="h-8"
+              value={confidence}
+              onChange={(e) => setConfidence(Math.max(0, Math.min(100, parseInt(e.target.value, 10) || 0)))}
+              title="Confidence (0-100)"
+            />
+          </div>
+          <Input
+            className="h-8"
+            placeholder="Entity name (optional)"
+            value={entityName}
+            onChange={(e) => setEntityName(e.target.value)}
+          />
+          <Input
+            className="h-8"
+            placeholder="Notes (optional)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+          <Button size="sm" variant="outline" className="w-full" onClick={handleAdd} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add label
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CryptoLabelEditor;
@@ -0,0 +1,290 @@
+// src/components/osint/CryptoLabelImporter.tsx
+// Import crypto attribution label packs (OFAC SDN, Ransomwhere, case lists) and manage label sources
+
+import { useEffect, useMemo, useState } from 'react';
+import { Database, FileText, Loader2, Tags, Trash2, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { logActivity, saveDataset } from '@/lib/database';
+import {
+  CATEGORY_CONFIG,
+  CRYPTO_LABEL_CATEGORIES,
+  deleteLabelSource,
+  getLabelSources,
+  importCryptoLabels,
+  loadCryptoLabels,
+  parseLabelPack,
+  type CryptoLabelCategory,
+  type LabelPackDefaults,
+  type LabelPackParseResult,
+  type LabelSourceSummary,
+} from '@/services/cryptoLabelService';
+
+interface CryptoLabelImporterProps {
+  onImported?: () => void;
+}
+
+const FORMAT_NAMES: Record<LabelPackParseResult['format'], string> = {
+  ofac_sdn: 'OFAC SDN list',
+  ransomwhere: 'Ransomwhere export',
+  json: 'JSON labels',
+  csv: 'CSV labels',
+  txt: 'Address list',
+};
+
+const PREVIEW_ROWS = 10;
+
+export function CryptoLabelImporter({ onImported }: CryptoLabelImporterProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [text, setText] = useState('');
+  const [defaults, setDefaults] = useState<LabelPackDefaults>({ source: '', category: 'ransomware', confidence: 80 });
+  const [importing, setImporting] = useState(false);
+  const [sources, setSources] = useState<LabelSourceSummary[]>([]);
+
+  const refreshSources = () => loadCryptoLabels().then(() => setSources(getLabelSources()));
+
+  useEffect(() => {
+    refreshSources();
+  }, []);
+
+  const parsed = useMemo((): { result?: LabelPackParseResult; error?: string } => {
+    if (!file || !text) return {};
+    try {
+      return { result: parseLabelPack(text, file.name, defaults) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to parse file' };
+    }
+  }, [file, text, defaults]);
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    setText(await selected.text());
+  };
+
+  const reset = () => {
+    setFile(null);
+    setText('');
+  };
+
+  const handleImport = async () => {
+    const labels = parsed.result?.labels;
+    if (!file || !labels?.length) return;
+
+    setImporting(true);
+    try {
+      const { saved, synced } = await importCryptoLabels(labels);
+      await saveDataset({
+        id: crypto.randomUUID(),
+        name: file.name,
+        type: 'crypto_labels',
+        recordCount: saved,
+        importedAt: new Date(),
+        size: file.size,
+      });
+      await logActivity({
+        type: 'upload',
+        title: `Imported ${file.name}`,
+        description: `${saved} crypto address labels from ${new Set(labels.map(l => l.source)).size} sources`,
+      });
+      toast.success(`Imported ${saved} labels${synced ? '' : ' (stored on this device only)'}`);
+      reset();
+      await refreshSources();
+      onImported?.();
+    } catch (error) {
+      console.error('[CryptoLabels] Import failed:', error);
+      toast.error('Label import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDeleteSource = async (source: string) => {
+    if (!confirm(`Delete all labels from "${source}"?`)) return;
+    const removed = await deleteLabelSource(source);
+    toast.success(`Deleted ${removed} labels`);
+    await refreshSources();
+  };
+
+  const result = parsed.result;
+
+  return (
+    <div className="space-y-6">
+      <div className="card-cyber p-4 space-y-4">
+        <div>
+          <p className="text-sm font-medium text-foreground">Label pack</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            OFAC SDN CSV, Ransomwhere JSON export, CSV/JSON with an address column, or one address per line.
+            The settings below apply to entries the pack doesn't describe itself.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Source</span>
+            <Input
+              value={defaults.source}
+              onChange={(e) => setDefaults(prev => ({ ...prev, source: e.target.value }))}
+              placeholder="Detected or file name"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Category</span>
+            <Select
+              value={defaults.category}
+              onValueChange={(v) => setDefaults(prev => ({ ...prev, category: v as CryptoLabelCategory }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CRYPTO_LABEL_CATEGORIES.map(category => (
+                  <SelectItem key={category} value={category}>{CATEGORY_CONFIG[category].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-muted-foreground">Confidence (0-100)</span>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={defaults.confidence}
+              onChange={(e) => setDefaults(prev => ({
+                ...prev,
+                confidence: Math.max(0, Math.min(100, parseInt(e.target.value, 10) || 0)),
+              }))}
+            />
+          </label>
+        </div>
+
+        {!file ? (
+          <label className="flex flex-col items-center gap-2 rounded-lg border-2 border-dashed border-border p-6 cursor-pointer hover:border-primary/50">
+            <Upload className="h-6 w-6 text-muted-foreground" />
+            <span className="text-sm text-muted-foreground">Choose a label pack (.csv, .json, .txt)</span>
+            <input
+              type="file"
+              accept=".csv,.json,.txt"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <FileText className="h-5 w-5 text-primary" />
+                <div>
+                  <p className="font-medium text-foreground text-sm">{file.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {result
+                      ? `${FORMAT_NAMES[result.format]} • ${result.labels.length} labels • ${result.skipped} skipped`
+                      : parsed.error || 'Reading...'}
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={reset}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {result && result.labels.length > 0 && (
+              <div className="overflow-x-auto max-h-48 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-border bg-secondary/50">
+                      {['Address', 'Category', 'Entity', 'Source', 'Confidence', 'Date'].map(col => (
+                        <th key={col} className="text-left p-2 font-semibold text-muted-foreground uppercase">{col}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.labels.slice(0, PREVIEW_ROWS).map(label => (
+                      <tr key={label.id} className="border-b border-border/50">
+                        <td className="p-2 font-mono max-w-xs truncate">{label.address}</td>
+                        <td className="p-2">{CATEGORY_CONFIG[label.category].label}</td>
+                        <td className="p-2 max-w-[10rem] truncate">{label.entityName || '-'}</td>
+                        <td className="p-2">{label.source}</td>
+                        <td className="p-2">{label.confidence}%</td>
+                        <td className="p-2">{label.date.slice(0, 10)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <Button
+              onClick={handleImport}
+              disabled={!result?.labels.length || importing}
+              variant="cyber"
+              className="w-full"
+            >
+              {importing ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <Database className="h-4 w-4 mr-2" />
+                  Import {result?.labels.length || 0} Labels
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="card-cyber p-4">
+        <h2 className="font-semibold text-foreground mb-4 flex items-center gap-2">
+          <Tags className="h-4 w-4" />
+          Label Sources
+        </h2>
+        <div className="space-y-2">
+          {sources.map(source => (
+            <div key={source.source} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+              <div className="min-w-0">
+                <p className="font-medium text-foreground text-sm truncate">{source.source}</p>
+                <div className="flex flex-wrap items-center gap-1 mt-1">
+                  <span className="text-xs text-muted-foreground mr-1">
+                    {source.count.toLocaleString()} labels • latest {source.latest.slice(0, 10)}
+                  </span>
+                  {source.categories.map(category => (
+                    <Badge
+                      key={category}
+                      variant="outline"
+                      className="text-[10px]"
+                      style={{ borderColor: CATEGORY_CONFIG[category].color, color: CATEGORY_CONFIG[category].color }}
+                    >
+                      {CATEGORY_CONFIG[category].label}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              {source.builtin ? (
+                <Badge variant="secondary" className="text-xs shrink-0">built-in</Badge>
+              ) : (
+                <Button variant="ghost" size="icon" onClick={() => handleDeleteSource(source.source)} title="Delete source">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CryptoLabelImporter;
@@ -1,5 +1,5 @@
 import { useState, useCallback } from "react";
-import { Upload, FileText, Database, AlertCircle, CheckCircle2, X, Loader2 } from "lucide-react";
+import { Upload, FileText, Database, AlertCircle, CheckCircle2, X, Loader2, Bitcoin } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { 
   parseCSVFile, 
@@ -16,8 +16,9 @@ import { importBreaches, saveDataset, getDatasets, logActivity } from "@/lib/dat
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { ImportedDataset } from "@/types/osint";
+import { CryptoLabelImporter } from "./CryptoLabelImporter";
 
-type ImportType = "breach" | "domains" | "ips" | "keywords";
+type ImportType = "breach" | "domains" | "ips" | "keywords" | "crypto_labels";
 
 export function DataImporter() {
   const [dragActive, setDragActive] = useState(false);
@@ -183,7 +184,7 @@ export function DataImporter() {
       <div>
         <h1 className="text-2xl font-bold text-foreground">Import Data</h1>
         <p className="text-muted-foreground text-sm mt-1">
-          Upload breach databases, domain lists, IP ranges, or keyword lists
+          Upload breach databases, domain lists, IP ranges, keyword lists, or crypto label packs
         </p>
       </div>
 
@@ -196,6 +197,7 @@ export function DataImporter() {
             { value: "domains", label: "Domain List", icon: FileText },
             { value: "ips", label: "IP Addresses", icon: FileText },
             { value: "keywords", label: "Keywords", icon: FileText },
+            { value: "crypto_labels", label: "Crypto Labels", icon: Bitcoin },
           ].map((type) => (
             <button
               key={type.value}
@@ -215,46 +217,50 @@ export function DataImporter() {
       </div>
 
       {/* Upload Zone */}
-      <div
-        onDragEnter={handleDrag}
-        onDragLeave={handleDrag}
-        onDragOver={handleDrag}
-        onDrop={handleDrop}
-        className={cn(
-          "card-cyber p-8 border-2 border-dashed transition-all cursor-pointer",
-          dragActive ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
-        )}
-      >
-        <input
-          type="file"
-          id="file-upload"
-          accept=".csv,.json,.txt"
-          onChange={handleFileInput}
-          className="hidden"
-        />
-        <label htmlFor="file-upload" className="cursor-pointer">
-          <div className="flex flex-col items-center text-center">
-            <div className={cn(
-              "p-4 rounded-full mb-4 transition-colors",
-              dragActive ? "bg-primary/20" : "bg-secondary"
-            )}>
-              <Upload className={cn(
-                "h-8 w-8 transition-colors",
-                dragActive ? "text-primary" : "text-muted-foreground"
-              )} />
+      {importType === "crypto_labels" && <CryptoLabelImporter onImported={loadDatasets} />}
+
+      {importType !== "crypto_labels" && (
+        <div
+          onDragEnter={handleDrag}
+          onDragLeave={handleDrag}
+          onDragOver={handleDrag}
+          onDrop={handleDrop}
+          className={cn(
+            "card-cyber p-8 border-2 border-dashed transition-all cursor-pointer",
+            dragActive ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+          )}
+        >
+          <input
+            type="file"
+            id="file-upload"
+            accept=".csv,.json,.txt"
+            onChange={handleFileInput}
+            className="hidden"
+          />
+          <label htmlFor="file-upload" className="cursor-pointer">
+            <div className="flex flex-col items-center text-center">
+              <div className={cn(
+                "p-4 rounded-full mb-4 transition-colors",
+                dragActive ? "bg-primary/20" : "bg-secondary"
+              )}>
+                <Upload className={cn(
+                  "h-8 w-8 transition-colors",
+                  dragActive ? "text-primary" : "text-muted-foreground"
+                )} />
+              </div>
+              <p className="text-foreground font-medium mb-1">
+                {dragActive ? "Drop file here" : "Drag & drop or click to upload"}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Supports CSV, JSON, and TXT files
+              </p>
             </div>
-            <p className="text-foreground font-medium mb-1">
-              {dragActive ? "Drop file here" : "Drag & drop or click to upload"}
-            </p>
-            <p className="text-sm text-muted-foreground">
-              Supports CSV, JSON, and TXT files
-            </p>
-          </div>
-        </label>
-      </div>
+          </label>
+        </div>
+      )}
 
       {/* Selected File */}
-      {selectedFile && (
+      {selectedFile && importType !== "crypto_labels" && (
         <div className="card-cyber p-4 space-y-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
@@ -0,0 +1,263 @@
+// Local test harness for generated detection content
+// Lints YARA/Sigma rules and replays them against uploaded samples and logs before export
+
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, CheckCircle2, FileCode, FlaskConical, Upload, X, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import type { RuleValidationResult, SigmaRule, YARARule } from '@/services/detectionEngineService';
+import { runYaraHarness, type YaraHarnessResult, type YaraSample } from '@/services/yaraRuleService';
+import { parseLogEvents, runSigmaHarness, type LogEvent, type SigmaTestResult } from '@/services/sigmaRuleService';
+
+interface DetectionTestHarnessProps {
+  yaraRules: YARARule[];
+  sigmaRules: SigmaRule[];
+}
+
+const MAX_SAMPLE_BYTES = 20 * 1024 * 1024;
+const HIT_PREVIEW_LIMIT = 5;
+
+const isYaraSource = (source: string) =>
+  /^\s*(import\s+"|include\s+"|((private|global)\s+)*rule\s+\w)/m.test(source);
+
+export function RuleValidationBadge({ validation }: { validation?: RuleValidationResult }) {
+  if (!validation) return null;
+  const errors = validation.issues.filter(i => i.severity === 'error').length;
+  const warnings = validation.issues.length - errors;
+
+  if (errors > 0) {
+    return (
+      <Badge variant="outline" className="border-red-500/50 text-red-400">
+        <XCircle className="h-3 w-3 mr-1" /> {errors} error{errors === 1 ? '' : 's'}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" className={warnings > 0 ? 'border-yellow-500/50 text-yellow-400' : 'border-green-500/50 text-green-400'}>
+      <CheckCircle2 className="h-3 w-3 mr-1" /> valid{warnings > 0 ? ` · ${warnings} warning${warnings === 1 ? '' : 's'}` : ''}
+    </Badge>
+  );
+}
+
+export function RuleIssueList({ validation }: { validation?: RuleValidationResult }) {
+  if (!validation || validation.issues.length === 0) return null;
+  return (
+    <ul className="space-y-1 mb-2">
+      {validation.issues.map((issue, idx) => (
+        <li key={idx} className={`text-xs flex items-start gap-1 ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+          <span>
+            {issue.line ? `L${issue.line}${issue.column ? `:${issue.column}` : ''} ` : ''}
+            {issue.rule ? `[${issue.rule}] ` : ''}
+            {issue.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function DetectionTestHarness({ yaraRules, sigmaRules }: DetectionTestHarnessProps) {
+  const [samples, setSamples] = useState<YaraSample[]>([]);
+  const [logEvents, setLogEvents] = useState<LogEvent[]>([]);
+  const [logFiles, setLogFiles] = useState<string[]>([]);
+  const [customRule, setCustomRule] = useState('');
+
+  const customIsYara = customRule.trim() !== '' && isYaraSource(customRule);
+  const customIsSigma = customRule.trim() !== '' && !customIsYara;
+
+  const yaraSources = useMemo(() => [
+    ...yaraRules.map(rule => ({ name: rule.name, source: rule.ruleContent })),
+    ...(customIsYara ? [{ name: 'Custom rule', source: customRule }] : []),
+  ], [yaraRules, customRule, customIsYara]);
+
+  const sigmaSources = useMemo(() => [
+    ...sigmaRules.map(rule => ({ name: rule.title, source: rule.ruleContent })),
+    ...(customIsSigma ? [{ name: 'Custom rule', source: customRule }] : []),
+  ], [sigmaRules, customRule, customIsSigma]);
+
+  const yaraResults = useMemo<{ name: string; result: YaraHarnessResult }[]>(
+    () => yaraSources.map(({ name, source }) => ({ name, result: runYaraHarness(source, samples) })),
+    [yaraSources, samples]
+  );
+
+  const sigmaResults = useMemo<{ name: string; results: SigmaTestResult[] }[]>(
+    () => sigmaSources.map(({ name, source }) => ({ name, results: runSigmaHarness(source, logEvents) })),
+    [sigmaSources, logEvents]
+  );
+
+  const handleSampleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const loaded: YaraSample[] = [];
+    for (const file of files) {
+      if (file.size > MAX_SAMPLE_BYTES) {
+        toast.error(`${file.name} exceeds the ${MAX_SAMPLE_BYTES / 1024 / 1024} MB sample limit`);
+        continue;
+      }
+      loaded.push({ name: file.name, data: new Uint8Array(await file.arrayBuffer()) });
+    }
+    if (loaded.length > 0) {
+      setSamples(prev => [...prev.filter(s => !loaded.some(l => l.name === s.name)), ...loaded]);
+      toast.success(`Loaded ${loaded.length} sample${loaded.length === 1 ? '' : 's'}`);
+    }
+  };
+
+  const handleLogUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const events: LogEvent[] = [];
+    for (const file of files) {
+      try {
+        events.push(...parseLogEvents(await file.text()));
+      } catch (err) {
+        toast.error(`Could not parse ${file.name}: ${err instanceof Error ? err.message : 'Invalid log file'}`);
+      }
+    }
+    if (events.length > 0) {
+      setLogEvents(prev => [...prev, ...events]);
+      setLogFiles(prev => [...prev, ...files.map(f => f.name)]);
+      toast.success(`Loaded ${events.length} log events`);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-800">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5 text-cyan-400" />
+              Rule Test Harness
+            </CardTitle>
+            <CardDescription>
+              Replay YARA rules against sample files and Sigma rules against JSON/EVTX-exported logs locally
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <label>
+              <Button variant="outline" size="sm" asChild>
+                <span>
+                  <Upload className="h-3 w-3 mr-1" /> Samples
+                </span>
+              </Button>
+              <input type="file" multiple className="hidden" onChange={handleSampleUpload} />
+            </label>
+            <label>
+              <Button variant="outline" size="sm" asChild>
+                <span>
+                  <Upload className="h-3 w-3 mr-1" /> Logs
+                </span>
+              </Button>
+              <input type="file" multiple accept=".json,.jsonl,.ndjson,.xml,.txt,.log" className="hidden" onChange={handleLogUpload} />
+            </label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+          {samples.map(sample => (
+            <Badge key={sample.name} variant="secondary" className="font-mono">
+              {sample.name} ({sample.data.length.toLocaleString()} B)
+              <X className="h-3 w-3 ml-1 cursor-pointer" onClick={() => setSamples(prev => prev.filter(s => s.name !== sample.name))} />
+            </Badge>
+          ))}
+          {logEvents.length > 0 && (
+            <Badge variant="secondary">
+              {logEvents.length} events from {logFiles.join(', ')}
+              <X className="h-3 w-3 ml-1 cursor-pointer" onClick={() => { setLogEvents([]); setLogFiles([]); }} />
+            </Badge>
+          )}
+          {samples.length === 0 && logEvents.length === 0 && (
+            <span>Upload samples or logs to see hits and misses. Rules are linted either way.</span>
+          )}
+        </div>
+
+        <div>
+          <p className="text-sm text-gray-300 mb-1 flex items-center gap-1">
+            <FileCode className="h-4 w-4" /> Custom rule
+            {customRule.trim() && <Badge variant="outline" className="ml-2">{customIsYara ? 'YARA' : 'Sigma'}</Badge>}
+          </p>
+          <Textarea
+            value={customRule}
+            onChange={e => setCustomRule(e.target.value)}
+            placeholder="Paste a YARA or Sigma rule to lint and test it alongside the generated rules"
+            className="font-mono text-xs h-28 bg-gray-800/50 border-gray-700"
+          />
+        </div>
+
+        <ScrollArea className="h-[420px] pr-2">
+          {yaraResults.length > 0 && <p className="text-sm font-semibold text-cyan-400 mb-2">YARA</p>}
+          {yaraResults.map(({ name, result }) => (
+            <div key={`yara-${name}`} className="p-3 mb-2 bg-gray-800/50 rounded-lg border border-gray-700">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-mono text-sm text-cyan-400">{name}</span>
+                <RuleValidationBadge validation={result.validation} />
+              </div>
+              <RuleIssueList validation={result.validation} />
+              {result.samples.map(sample => {
+                const matched = sample.matches.filter(m => m.matched);
+                const unsupported = [...new Set(sample.matches.flatMap(m => m.unsupported))];
+                return (
+                  <div key={sample.sample} className="flex items-start gap-2 text-xs py-1 border-t border-gray-700/50">
+                    <Badge variant="outline" className={matched.length > 0 ? 'border-red-500/50 text-red-400' : 'border-gray-600 text-gray-400'}>
+                      {matched.length > 0 ? 'HIT' : 'miss'}
+                    </Badge>
+                    <div className="flex-1 min-w-0">
+                      <span className="font-mono text-gray-300">{sample.sample}</span>
+                      {matched.map(m => (
+                        <p key={m.rule} className="text-gray-400 truncate">
+                          {m.rule}: {m.strings.map(s => `${s.id}@0x${s.offsets[0].toString(16)}${s.offsets.length > 1 ? ` (+${s.offsets.length - 1})` : ''}`).join(', ') || 'condition only'}
+                        </p>
+                      ))}
+                      {unsupported.length > 0 && <p className="text-yellow-500/80">Not evaluated: {unsupported.join('; ')}</p>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+
+          {sigmaResults.length > 0 && <p className="text-sm font-semibold text-purple-400 mb-2 mt-4">Sigma</p>}
+          {sigmaResults.map(({ name, results }) => results.map((result, idx) => (
+            <div key={`sigma-${name}-${idx}`} className="p-3 mb-2 bg-gray-800/50 rounded-lg border border-gray-700">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm text-purple-400">{result.title}</span>
+                <div className="flex items-center gap-2">
+                  {logEvents.length > 0 && result.validation.valid && (
+                    <Badge variant="outline" className={result.hits.length > 0 ? 'border-red-500/50 text-red-400' : 'border-gray-600 text-gray-400'}>
+                      {result.hits.length} hits / {result.misses} misses
+                    </Badge>
+                  )}
+                  <RuleValidationBadge validation={result.validation} />
+                </div>
+              </div>
+              <RuleIssueList validation={result.validation} />
+              {result.unsupported.length > 0 && (
+                <p className="text-xs text-yellow-500/80 mb-1">Not evaluated: {result.unsupported.join('; ')}</p>
+              )}
+              {result.hits.slice(0, HIT_PREVIEW_LIMIT).map(hit => (
+                <div key={hit.index} className="text-xs py-1 border-t border-gray-700/50">
+                  <span className="text-gray-300">Event #{hit.index + 1}</span>
+                  <span className="text-gray-500"> · {hit.selections.join(', ')}</span>
+                  <pre className="text-gray-400 whitespace-pre-wrap break-all max-h-24 overflow-hidden">
+                    {JSON.stringify(hit.event).slice(0, 400)}
+                  </pre>
+                </div>
+              ))}
+              {result.hits.length > HIT_PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500">…and {result.hits.length - HIT_PREVIEW_LIMIT} more</p>
+              )}
+            </div>
+          )))}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default DetectionTestHarness;
@@ -0,0 +1,290 @@
+// src/components/osint/GraphAnalyticsPanel.tsx
+// Graph analytics side panel: centrality, paths, communities and shared infrastructure
+
+import { useMemo, useRef, useState } from 'react';
+import { BarChart3, Eye, Filter, Route, Server, Users, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { GraphData } from '@/services/graphService';
+import {
+  computeCentrality,
+  detectCommunities,
+  findConnectedComponents,
+  findSharedInfrastructure,
+  findShortestPath,
+  withNeighbors,
+  type CentralityScore,
+  type CommunityResult,
+  type GraphFilter,
+} from '@/services/graphAnalyticsService';
+
+interface GraphAnalyticsPanelProps {
+  graph: GraphData;
+  selection: string[];
+  filter: GraphFilter | null;
+  onFilterChange: (filter: GraphFilter | null) => void;
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+const COMMUNITY_COLORS = [
+  '#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6',
+  '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#6366f1',
+];
+const TOP_N = 15;
+
+interface GraphAnalysis {
+  centrality: CentralityScore[];
+  components: string[][];
+  communities: CommunityResult;
+}
+
+function analyzeGraph(graph: GraphData): GraphAnalysis {
+  const started = performance.now();
+  const analysis = {
+    centrality: computeCentrality(graph),
+    components: findConnectedComponents(graph),
+    communities: detectCommunities(graph),
+  };
+  console.log(`[GraphAnalytics] Analyzed ${graph.nodes.length} entities in ${Math.round(performance.now() - started)}ms`);
+  return analysis;
+}
+
+export function GraphAnalyticsPanel({ graph, selection, filter, onFilterChange, onSelectNode, onClose }: GraphAnalyticsPanelProps) {
+  const [isolate, setIsolate] = useState(false);
+  const [minDomains, setMinDomains] = useState(2);
+
+  // Dragging nodes changes positions only; the expensive passes rerun when the structure changes
+  const structureKey = useMemo(
+    () => `${graph.nodes.map(n => n.id).join(',')}|${graph.edges.map(e => `${e.source}>${e.target}`).join(',')}`,
+    [graph]
+  );
+  const cacheRef = useRef<{ key: string; analysis: GraphAnalysis } | null>(null);
+  if (cacheRef.current?.key !== structureKey) {
+    cacheRef.current = { key: structureKey, analysis: analyzeGraph(graph) };
+  }
+  const analysis = cacheRef.current.analysis;
+
+  const shared = useMemo(() => findSharedInfrastructure(graph, minDomains), [graph, minDomains]);
+  const pathEnds = selection.length === 2 ? selection : null;
+  const path = pathEnds ? findShortestPath(graph, pathEnds[0], pathEnds[1]) : null;
+
+  const nodeById = useMemo(() => new Map(graph.nodes.map(n => [n.id, n])), [graph]);
+  const labelOf = (id: string) => nodeById.get(id)?.label || id;
+  const mode = isolate ? 'isolate' : 'highlight';
+
+  const applyFilter = (label: string, nodeIds: Iterable<string>, extra: Partial<GraphFilter> = {}) => {
+    onFilterChange({ label, nodeIds: new Set(nodeIds), mode, ...extra });
+  };
+
+  const handleIsolateChange = (checked: boolean) => {
+    setIsolate(checked);
+    if (filter && !filter.nodeColors) onFilterChange({ ...filter, mode: checked ? 'isolate' : 'highlight' });
+  };
+
+  const colorCommunities = () => {
+    const nodeColors = new Map<string, string>();
+    analysis.communities.communities.forEach((members, idx) =>
+      members.forEach(id => nodeColors.set(id, COMMUNITY_COLORS[idx % COMMUNITY_COLORS.length]))
+    );
+    applyFilter('Communities', graph.nodes.map(n => n.id), { nodeColors, mode: 'highlight' });
+  };
+
+  const topCentral = analysis.centrality.slice(0, TOP_N);
+  const maxBetweenness = topCentral[0]?.betweenness || 1;
+
+  return (
+    <div className="w-80 border-l border-border bg-card flex flex-col overflow-hidden">
+      <div className="p-4 border-b border-border space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold flex items-center gap-2">
+            <BarChart3 className="h-4 w-4" />
+            Analytics
+          </h3>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-1 text-xs">
+          <Badge variant="secondary">{graph.nodes.length} entities</Badge>
+          <Badge variant="secondary">{analysis.components.length} components</Badge>
+          <Badge variant="secondary">{analysis.communities.communities.length} communities</Badge>
+        </div>
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Hide non-matching entities</span>
+          <Switch checked={isolate} onCheckedChange={handleIsolateChange} />
+        </div>
+        {filter && (
+          <div className="flex items-center justify-between gap-2 rounded border border-border px-2 py-1 text-xs">
+            <span className="flex items-center gap-1 truncate">
+              <Filter className="h-3 w-3 shrink-0" />
+              {filter.label}
+            </span>
+            <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => onFilterChange(null)}>
+              Clear
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Tabs defaultValue="centrality" className="flex-1 flex flex-col overflow-hidden">
+        <TabsList className="mx-4 mt-3 grid grid-cols-4">
+          <TabsTrigger value="centrality" title="Centrality"><BarChart3 className="h-4 w-4" /></TabsTrigger>
+          <TabsTrigger value="path" title="Shortest path"><Route className="h-4 w-4" /></TabsTrigger>
+          <TabsTrigger value="groups" title="Communities"><Users className="h-4 w-4" /></TabsTrigger>
+          <TabsTrigger value="infra" title="Shared infrastructure"><Server className="h-4 w-4" /></TabsTrigger>
+        </TabsList>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          <TabsContent value="centrality" className="mt-0 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Entities that sit on the most shortest paths are the likely pivots between clusters.
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              disabled={topCentral.length === 0}
+              onClick={() => applyFilter(`Top ${topCentral.length} by betweenness`, topCentral.map(c => c.nodeId))}
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              Show top {topCentral.length}
+            </Button>
+            {topCentral.map(score => (
+              <button
+                key={score.nodeId}
+                className="w-full text-left px-2 py-1 rounded hover:bg-secondary space-y-1"
+                onClick={() => onSelectNode(score.nodeId)}
+              >
+                <div className="flex items-center justify-between text-sm">
+                  <span className="truncate">{labelOf(score.nodeId)}</span>
+                  <span className="text-xs text-muted-foreground shrink-0 ml-2">
+                    deg {score.degree} · {score.betweenness.toFixed(3)}
+                  </span>
+                </div>
+                <div className="h-1 rounded bg-secondary">
+                  <div className="h-1 rounded bg-primary" style={{ width: `${(score.betweenness / maxBetweenness) * 100}%` }} />
+                </div>
+              </button>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="path" className="mt-0 space-y-2">
+            {!pathEnds ? (
+              <p className="text-xs text-muted-foreground">Shift-click exactly two entities to find the shortest path between them.</p>
+            ) : !path ? (
+              <p className="text-sm text-muted-foreground">
+                {labelOf(pathEnds[0])} and {labelOf(pathEnds[1])} are not connected.
+              </p>
+            ) : (
+              <>
+                <div className="text-sm">
+                  {path.edgeIds.length} hop{path.edgeIds.length === 1 ? '' : 's'}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => applyFilter(`Path ${labelOf(pathEnds[0])} → ${labelOf(pathEnds[1])}`, path.nodeIds, { edgeIds: new Set(path.edgeIds) })}
+                >
+                  <Eye className="h-4 w-4 mr-2" />
+                  Show path
+                </Button>
+                <ol className="space-y-1">
+                  {path.nodeIds.map((id, idx) => (
+                    <li key={id}>
+                      <button className="w-full text-left px-2 py-1 rounded hover:bg-secondary text-sm truncate" onClick={() => onSelectNode(id)}>
+                        <span className="text-muted-foreground mr-2">{idx + 1}.</span>
+                        {labelOf(id)}
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="groups" className="mt-0 space-y-2">
+            <div className="text-xs text-muted-foreground">
+              Modularity {analysis.communities.modularity.toFixed(3)}
+            </div>
+            <Button variant="outline" size="sm" className="w-full" onClick={colorCommunities}>
+              <Users className="h-4 w-4 mr-2" />
+              Color by community
+            </Button>
+            {analysis.communities.communities.slice(0, TOP_N).map((members, idx) => (
+              <button
+                key={members[0]}
+                className="w-full text-left px-2 py-1 rounded hover:bg-secondary text-sm flex items-center gap-2"
+                onClick={() => applyFilter(`Community ${idx + 1}`, members)}
+              >
+                <span className="h-3 w-3 rounded-full shrink-0" style={{ backgroundColor: COMMUNITY_COLORS[idx % COMMUNITY_COLORS.length] }} />
+                <span className="truncate flex-1">Community {idx + 1}: {members.slice(0, 3).map(labelOf).join(', ')}</span>
+                <Badge variant="outline" className="text-xs">{members.length}</Badge>
+              </button>
+            ))}
+
+            <div className="text-sm font-semibold pt-2">Connected components</div>
+            {analysis.components.slice(0, TOP_N).map((members, idx) => (
+              <button
+                key={members[0]}
+                className="w-full text-left px-2 py-1 rounded hover:bg-secondary text-sm flex items-center gap-2"
+                onClick={() => applyFilter(`Component ${idx + 1}`, members)}
+              >
+                <span className="truncate flex-1">Component {idx + 1}: {labelOf(members[0])}</span>
+                <Badge variant="outline" className="text-xs">{members.length}</Badge>
+              </button>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="infra" className="mt-0 space-y-2">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>Linked to at least</span>
+              <Input
+                type="number"
+                min={2}
+                className="h-7 w-16 text-xs"
+                value={minDomains}
+                onChange={(e) => setMinDomains(Math.max(2, parseInt(e.target.value, 10) || 2))}
+              />
+              <span>domains</span>
+            </div>
+            {shared.length === 0 && (
+              <p className="text-sm text-muted-foreground">No shared IPs, certificates or ASNs found.</p>
+            )}
+            {shared.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => applyFilter('Shared infrastructure', [...shared.map(s => s.node.id), ...shared.flatMap(s => s.domainIds)])}
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                Show all
+              </Button>
+            )}
+            {shared.map(({ node, domainIds }) => (
+              <button
+                key={node.id}
+                className="w-full text-left px-2 py-1 rounded hover:bg-secondary text-sm flex items-center gap-2"
+                onClick={() => {
+                  onSelectNode(node.id);
+                  applyFilter(`${node.label} and its domains`, [...withNeighbors(graph, [node.id]), ...domainIds]);
+                }}
+              >
+                <span>{node.icon}</span>
+                <span className="truncate flex-1">{node.label}</span>
+                <Badge variant="outline" className="text-xs">{domainIds.length} domains</Badge>
+              </button>
+            ))}
+          </TabsContent>
+        </div>
+      </Tabs>
+    </div>
+  );
+}
+
+export default GraphAnalyticsPanel;
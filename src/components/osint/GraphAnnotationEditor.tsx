@@ -0,0 +1,170 @@
+// src/components/osint/GraphAnnotationEditor.tsx
+// TLP, confidence override, tags and notes for one entity or link
+
+import { useState } from 'react';
+import { MessageSquarePlus, Tag, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { TLP_LEVELS, type EntityAnnotations, type TlpLevel } from '@/services/graphService';
+import { TLP_CONFIG, createNote, normalizeTag } from '@/services/graphAnnotationService';
+
+interface GraphAnnotationEditorProps {
+  annotations?: EntityAnnotations;
+  onChange: (annotations: EntityAnnotations) => void;
+  author: string;
+  sourceConfidence?: number;
+  readOnly?: boolean;
+}
+
+const UNMARKED = 'none';
+
+export function TlpBadge({ tlp, className }: { tlp: TlpLevel; className?: string }) {
+  return (
+    <Badge
+      variant="outline"
+      className={className}
+      style={{ backgroundColor: '#000000', color: TLP_CONFIG[tlp].color, borderColor: TLP_CONFIG[tlp].color }}
+    >
+      {TLP_CONFIG[tlp].label}
+    </Badge>
+  );
+}
+
+export function GraphAnnotationEditor({
+  annotations = {},
+  onChange,
+  author,
+  sourceConfidence,
+  readOnly = false,
+}: GraphAnnotationEditorProps) {
+  const [tagInput, setTagInput] = useState('');
+  const [noteInput, setNoteInput] = useState('');
+
+  const update = (patch: Partial<EntityAnnotations>) => onChange({ ...annotations, ...patch });
+
+  const addTag = () => {
+    const tag = normalizeTag(tagInput);
+    if (tag && !annotations.tags?.includes(tag)) update({ tags: [...(annotations.tags || []), tag] });
+    setTagInput('');
+  };
+
+  const addNote = () => {
+    if (!noteInput.trim()) return;
+    update({ notes: [...(annotations.notes || []), createNote(noteInput, author)] });
+    setNoteInput('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">Classification</div>
+          <Select
+            value={annotations.tlp || UNMARKED}
+            onValueChange={(value) => update({ tlp: value === UNMARKED ? undefined : value as TlpLevel })}
+            disabled={readOnly}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNMARKED}>Unmarked</SelectItem>
+              {TLP_LEVELS.map(level => (
+                <SelectItem key={level} value={level} title={TLP_CONFIG[level].description}>
+                  {TLP_CONFIG[level].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">Analyst confidence</div>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            className="h-8 text-xs"
+            value={annotations.confidence ?? ''}
+            placeholder={sourceConfidence !== undefined ? `Source: ${sourceConfidence}` : '0-100'}
+            onChange={(e) => update({ confidence: e.target.value === '' ? undefined : Number(e.target.value) })}
+            disabled={readOnly}
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs text-muted-foreground mb-1">Tags</div>
+        <div className="flex flex-wrap gap-1 mb-1">
+          {annotations.tags?.map(tag => (
+            <Badge key={tag} variant="secondary" className="text-xs gap-1">
+              #{tag}
+              {!readOnly && (
+                <button onClick={() => update({ tags: annotations.tags!.filter(t => t !== tag) })}>
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </Badge>
+          ))}
+        </div>
+        {!readOnly && (
+          <div className="flex gap-1">
+            <Input
+              className="h-8 text-xs"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addTag()}
+              placeholder="Add tag"
+            />
+            <Button variant="outline" size="sm" className="h-8" onClick={addTag} disabled={!tagInput.trim()}>
+              <Tag className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="text-xs text-muted-foreground mb-1">Notes</div>
+        <div className="space-y-2">
+          {annotations.notes?.map(note => (
+            <div key={note.id} className="rounded border border-border p-2 text-xs space-y-1">
+              <div className="flex items-center justify-between text-muted-foreground">
+                <span className="truncate">{note.author} · {new Date(note.createdAt).toLocaleString()}</span>
+                {!readOnly && (
+                  <button onClick={() => update({ notes: annotations.notes!.filter(n => n.id !== note.id) })}>
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+              <p className="whitespace-pre-wrap break-words">{note.text}</p>
+            </div>
+          ))}
+          {!readOnly && (
+            <>
+              <Textarea
+                className="text-xs min-h-16"
+                value={noteInput}
+                onChange={(e) => setNoteInput(e.target.value)}
+                placeholder="Add an analyst note..."
+              />
+              <Button variant="outline" size="sm" className="w-full" onClick={addNote} disabled={!noteInput.trim()}>
+                <MessageSquarePlus className="h-4 w-4 mr-2" />
+                Add note
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default GraphAnnotationEditor;
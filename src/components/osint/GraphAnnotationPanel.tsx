@@ -0,0 +1,179 @@
+// src/components/osint/GraphAnnotationPanel.tsx
+// Search and filter the graph by TLP, tags and analyst notes
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, StickyNote, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { TLP_LEVELS, type GraphData, type TlpLevel } from '@/services/graphService';
+import type { GraphFilter } from '@/services/graphAnalyticsService';
+import {
+  TLP_CONFIG,
+  annotationFilter,
+  collectTags,
+  isEmptyQuery,
+  matchesAnnotationQuery,
+  type AnnotationQuery,
+} from '@/services/graphAnnotationService';
+import { TlpBadge } from './GraphAnnotationEditor';
+
+interface GraphAnnotationPanelProps {
+  graph: GraphData;
+  onFilterChange: (filter: GraphFilter | null) => void;
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+type TlpOption = TlpLevel | 'none';
+
+const RESULT_LIMIT = 50;
+
+export function GraphAnnotationPanel({ graph, onFilterChange, onSelectNode, onClose }: GraphAnnotationPanelProps) {
+  const [text, setText] = useState('');
+  const [tlp, setTlp] = useState<TlpOption[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [isolate, setIsolate] = useState(false);
+  // Only clear the canvas filter if this panel set it, not one from analytics
+  const applied = useRef(false);
+
+  const query: AnnotationQuery = useMemo(() => ({ text, tlp, tags }), [text, tlp, tags]);
+  const allTags = useMemo(() => collectTags(graph), [graph]);
+  const tlpCounts = useMemo(() => {
+    const counts: Record<TlpOption, number> = { clear: 0, green: 0, amber: 0, red: 0, none: 0 };
+    graph.nodes.forEach(n => counts[n.annotations?.tlp || 'none']++);
+    return counts;
+  }, [graph]);
+
+  const matches = useMemo(
+    () => (isEmptyQuery(query) ? [] : graph.nodes.filter(n => matchesAnnotationQuery(n, query))),
+    [graph, query]
+  );
+  const matchedLinks = useMemo(
+    () => (isEmptyQuery(query) ? 0 : graph.edges.filter(e => matchesAnnotationQuery(e, query)).length),
+    [graph, query]
+  );
+
+  useEffect(() => {
+    if (isEmptyQuery(query)) {
+      if (applied.current) onFilterChange(null);
+      applied.current = false;
+      return;
+    }
+    applied.current = true;
+    onFilterChange(annotationFilter(graph, query, isolate ? 'isolate' : 'highlight'));
+  }, [graph, query, isolate, onFilterChange]);
+
+  // Leaving the panel drops its filter
+  useEffect(() => () => {
+    if (applied.current) onFilterChange(null);
+  }, [onFilterChange]);
+
+  const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+  return (
+    <div className="w-80 border-l border-border bg-card flex flex-col overflow-hidden">
+      <div className="p-4 border-b border-border space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold flex items-center gap-2">
+            <StickyNote className="h-4 w-4" />
+            Annotations
+          </h3>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="pl-8"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Search notes, tags, entities..."
+          />
+        </div>
+
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">Classification</div>
+          <div className="flex flex-wrap gap-1">
+            {[...TLP_LEVELS, 'none' as const].map(level => (
+              <button
+                key={level}
+                onClick={() => setTlp(prev => toggle(prev, level))}
+                className={cn(
+                  'rounded border px-2 py-0.5 text-xs font-medium',
+                  tlp.includes(level) ? 'ring-2 ring-primary' : 'opacity-70'
+                )}
+                style={level === 'none'
+                  ? undefined
+                  : { backgroundColor: '#000000', color: TLP_CONFIG[level].color, borderColor: TLP_CONFIG[level].color }}
+              >
+                {level === 'none' ? 'Unmarked' : TLP_CONFIG[level].label.replace('TLP:', '')} ({tlpCounts[level]})
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {allTags.length > 0 && (
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">Tags</div>
+            <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+              {allTags.map(([tag, count]) => (
+                <Badge
+                  key={tag}
+                  variant={tags.includes(tag) ? 'default' : 'outline'}
+                  className="text-xs cursor-pointer"
+                  onClick={() => setTags(prev => toggle(prev, tag))}
+                >
+                  #{tag} ({count})
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Hide non-matching entities</span>
+          <Switch checked={isolate} onCheckedChange={setIsolate} />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {isEmptyQuery(query) ? (
+          <p className="text-sm text-muted-foreground">
+            Search or pick a classification or tag to filter the canvas.
+          </p>
+        ) : (
+          <>
+            <div className="text-xs text-muted-foreground">
+              {matches.length} entities, {matchedLinks} links match
+            </div>
+            {matches.slice(0, RESULT_LIMIT).map(node => (
+              <button
+                key={node.id}
+                className="w-full text-left rounded border border-border p-2 hover:bg-secondary space-y-1"
+                onClick={() => onSelectNode(node.id)}
+              >
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{node.icon} {node.label}</span>
+                  {node.annotations?.tlp && <TlpBadge tlp={node.annotations.tlp} className="text-[10px] shrink-0" />}
+                </div>
+                {(node.annotations?.tags?.length || node.annotations?.notes?.length) ? (
+                  <div className="text-xs text-muted-foreground truncate">
+                    {node.annotations.tags?.map(t => `#${t}`).join(' ')}
+                    {node.annotations.notes?.length ? ` · ${node.annotations.notes.length} notes` : ''}
+                  </div>
+                ) : null}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default GraphAnnotationPanel;
@@ -0,0 +1,336 @@
+// src/components/osint/GraphMachinePanel.tsx
+// Run, edit and save graph machines: automated multi-hop transform pipelines
+
+import { useEffect, useRef, useState } from 'react';
+import { ArrowRight, Bot, Loader2, Play, Plus, Save, Square, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import type { GraphData, GraphNode } from '@/services/graphService';
+import { getTransform, getTransforms } from '@/services/transformRegistry';
+import {
+  deleteMachine,
+  describeStopCondition,
+  getMachines,
+  runMachine,
+  saveMachine,
+  type GraphMachine,
+  type MachineEvent,
+  type MachineStopCondition,
+} from '@/services/graphMachineService';
+
+interface GraphMachinePanelProps {
+  seed: GraphNode | null;
+  graph: GraphData;
+  /** Merge a streamed transform result into the canvas */
+  onResult: (result: GraphData, parentId: string) => void;
+  onStopNode?: (node: GraphNode) => void;
+  onClose: () => void;
+}
+
+interface LogEntry {
+  text: string;
+  tone: 'info' | 'success' | 'error';
+}
+
+const RISK_STOP_OPTIONS = ['none', 'medium', 'high', 'critical'] as const;
+
+function transformName(id: string): string {
+  return getTransform(id)?.name || id;
+}
+
+function describeEvent(event: MachineEvent, graph: GraphData): LogEntry {
+  switch (event.type) {
+    case 'step':
+      return { text: `${transformName(event.transformId)}: ${event.pending} entities queued`, tone: 'info' };
+    case 'transform': {
+      const label = graph.nodes.find(n => n.id === event.nodeId)?.label || event.nodeId;
+      return event.error
+        ? { text: `${transformName(event.transformId)} on ${label}: ${event.error}`, tone: 'error' }
+        : { text: `${transformName(event.transformId)} on ${label}: +${event.added}`, tone: 'success' };
+    }
+    case 'stopped':
+      return { text: `Stopped: ${event.reason}`, tone: 'error' };
+    case 'completed':
+      return { text: `Completed: ${event.runs} transforms, ${event.added} new entities`, tone: 'success' };
+  }
+}
+
+export function GraphMachinePanel({ seed, graph, onResult, onStopNode, onClose }: GraphMachinePanelProps) {
+  const [machines, setMachines] = useState<GraphMachine[]>(getMachines());
+  const [draft, setDraft] = useState<GraphMachine>(machines[0]);
+  const [stepToAdd, setStepToAdd] = useState('');
+  const [running, setRunning] = useState(false);
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const graphRef = useRef(graph);
+  graphRef.current = graph;
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const riskStop = draft.stopConditions.find(
+    (c): c is Extract<MachineStopCondition, { type: 'risk_level' }> => c.type === 'risk_level'
+  );
+
+  const updateDraft = (changes: Partial<GraphMachine>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const selectMachine = (id: string) => {
+    const machine = machines.find(m => m.id === id);
+    if (machine) setDraft(machine);
+  };
+
+  const setRiskStop = (level: string) => {
+    const others = draft.stopConditions.filter(c => c.type !== 'risk_level');
+    updateDraft({
+      stopConditions: level === 'none'
+        ? others
+        : [...others, { type: 'risk_level', level: level as 'medium' | 'high' | 'critical' }],
+    });
+  };
+
+  const updateStep = (idx: number, maxRuns: string) => {
+    const steps = draft.steps.map((step, i) =>
+      i === idx ? { ...step, maxRuns: maxRuns ? Math.max(1, parseInt(maxRuns, 10) || 1) : undefined } : step
+    );
+    updateDraft({ steps });
+  };
+
+  const handleAddStep = () => {
+    if (!stepToAdd) return;
+    updateDraft({ steps: [...draft.steps, { transformId: stepToAdd }] });
+    setStepToAdd('');
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      toast.error('Machine name is required');
+      return;
+    }
+    const saved = saveMachine(draft);
+    const all = getMachines();
+    setMachines(all);
+    setDraft(saved);
+    toast.success(`Saved machine ${saved.name}`);
+  };
+
+  const handleDelete = () => {
+    deleteMachine(draft.id);
+    const all = getMachines();
+    setMachines(all);
+    setDraft(all[0]);
+    toast.success(`Deleted machine ${draft.name}`);
+  };
+
+  const handleRun = async () => {
+    if (!seed) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setLog([{ text: `Running ${draft.name} on ${seed.label}`, tone: 'info' }]);
+
+    try {
+      const summary = await runMachine(
+        draft,
+        graphRef.current,
+        seed.id,
+        {
+          onResult,
+          onEvent: (event) => setLog(prev => [...prev, describeEvent(event, graphRef.current)]),
+        },
+        controller.signal
+      );
+      if (summary.stopNode) onStopNode?.(summary.stopNode);
+      toast.success(`${draft.name}: ${summary.added} new entities from ${summary.runs} transforms`);
+    } catch (error) {
+      console.error('[Machine] Run failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Machine failed');
+    } finally {
+      setRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const applicable = !!seed && draft.steps.some(step => getTransform(step.transformId)?.inputTypes.includes(seed.type));
+
+  return (
+    <div className="absolute top-4 left-4 w-96 max-h-[calc(100%-2rem)] overflow-y-auto bg-card/95 backdrop-blur border border-border rounded-lg p-3 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="font-semibold flex items-center gap-2">
+          <Bot className="h-4 w-4" />
+          Machines
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} disabled={running}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Select value={machines.some(m => m.id === draft.id) ? draft.id : undefined} onValueChange={selectMachine} disabled={running}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select a machine" />
+        </SelectTrigger>
+        <SelectContent>
+          {machines.map(machine => (
+            <SelectItem key={machine.id} value={machine.id}>
+              {machine.name}{machine.builtin ? '' : ' (saved)'}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Input
+        value={draft.name}
+        onChange={(e) => updateDraft({ name: e.target.value })}
+        placeholder="Machine name"
+        disabled={running}
+      />
+      <p className="text-xs text-muted-foreground">{draft.description}</p>
+
+      <div className="space-y-1">
+        {draft.steps.map((step, idx) => (
+          <div key={`${step.transformId}-${idx}`} className="flex items-center gap-2">
+            <ArrowRight className="h-3 w-3 text-muted-foreground shrink-0" />
+            <span className={cn('flex-1 truncate', !getTransform(step.transformId) && 'text-destructive')}>
+              {transformName(step.transformId)}
+              {step.entityTypes?.length ? <span className="text-xs text-muted-foreground"> ({step.entityTypes.join(', ')})</span> : null}
+            </span>
+            <Input
+              className="h-7 w-20 text-xs"
+              type="number"
+              min={1}
+              value={step.maxRuns ?? ''}
+              onChange={(e) => updateStep(idx, e.target.value)}
+              placeholder="runs"
+              title="Maximum runs for this step"
+              disabled={running}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => updateDraft({ steps: draft.steps.filter((_, i) => i !== idx) })}
+              disabled={running}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Select value={stepToAdd} onValueChange={setStepToAdd} disabled={running}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Add transform step" />
+            </SelectTrigger>
+            <SelectContent>
+              {getTransforms().map(transform => (
+                <SelectItem key={transform.id} value={transform.id}>
+                  {transform.icon} {transform.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="h-8" onClick={handleAddStep} disabled={running || !stepToAdd}>
+            <Plus className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <label className="space-y-1">
+          <span className="text-xs text-muted-foreground">Max depth</span>
+          <Input
+            type="number"
+            min={1}
+            max={10}
+            value={draft.maxDepth}
+            onChange={(e) => updateDraft({ maxDepth: Math.min(10, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+            disabled={running}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-muted-foreground">Max nodes</span>
+          <Input
+            type="number"
+            min={1}
+            value={draft.maxNodes}
+            onChange={(e) => updateDraft({ maxNodes: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            disabled={running}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-muted-foreground">Stop at risk</span>
+          <Select value={riskStop?.level || 'none'} onValueChange={setRiskStop} disabled={running}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RISK_STOP_OPTIONS.map(level => (
+                <SelectItem key={level} value={level}>{level}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+      </div>
+
+      {draft.stopConditions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {draft.stopConditions.map((condition, idx) => (
+            <Badge key={idx} variant="outline" className="text-xs">Stop: {describeStopCondition(condition)}</Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {running ? (
+          <Button variant="destructive" size="sm" className="flex-1" onClick={() => abortRef.current?.abort()}>
+            <Square className="h-4 w-4 mr-2" />
+            Stop
+          </Button>
+        ) : (
+          <Button size="sm" className="flex-1" onClick={handleRun} disabled={!applicable || draft.steps.length === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            {seed ? `Run on ${seed.label}` : 'Select a seed entity'}
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={handleSave} disabled={running} title="Save machine">
+          <Save className="h-4 w-4" />
+        </Button>
+        {!draft.builtin && machines.some(m => m.id === draft.id) && (
+          <Button variant="outline" size="sm" onClick={handleDelete} disabled={running} title="Delete machine">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {seed && !applicable && draft.steps.length > 0 && (
+        <p className="text-xs text-muted-foreground">No step of this machine accepts {seed.type} entities.</p>
+      )}
+
+      {log.length > 0 && (
+        <div className="border-t border-border pt-2 space-y-1 max-h-48 overflow-y-auto font-mono text-xs">
+          {log.map((entry, idx) => (
+            <div
+              key={idx}
+              className={cn(
+                entry.tone === 'error' && 'text-destructive',
+                entry.tone === 'success' && 'text-foreground',
+                entry.tone === 'info' && 'text-muted-foreground'
+              )}
+            >
+              {entry.text}
+            </div>
+          ))}
+          {running && <Loader2 className="h-3 w-3 animate-spin text-primary" />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GraphMachinePanel;
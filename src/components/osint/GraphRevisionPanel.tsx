@@ -0,0 +1,282 @@
+// src/components/osint/GraphRevisionPanel.tsx
+// Revision history for a saved graph: compare any two revisions on the canvas and restore
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GitCompare, History, Loader2, RefreshCw, RotateCcw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { GraphData } from '@/services/graphService';
+import {
+  buildDiffGraph,
+  diffGraphs,
+  summarizeDiff,
+  DIFF_COLORS,
+  type GraphDiffView,
+} from '@/services/graphDiffService';
+import {
+  getGraphRevision,
+  getGraphRevisions,
+  restoreGraphRevision,
+  type SavedGraphRevision,
+} from '@/services/userDataService';
+
+interface GraphRevisionPanelProps {
+  graphId: string;
+  graphName: string;
+  currentGraph: GraphData;
+  diffView: GraphDiffView | null;
+  onDiffChange: (view: GraphDiffView | null) => void;
+  onRestore: (graph: GraphData, revision: number) => void;
+  onClose: () => void;
+  canRestore?: boolean;
+}
+
+// Pseudo-revision for the unsaved working graph
+const CANVAS = 'canvas';
+const LIST_LIMIT = 12;
+
+export function GraphRevisionPanel({
+  graphId,
+  graphName,
+  currentGraph,
+  diffView,
+  onDiffChange,
+  onRestore,
+  onClose,
+  canRestore = true,
+}: GraphRevisionPanelProps) {
+  const [revisions, setRevisions] = useState<SavedGraphRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [from, setFrom] = useState<string>('');
+  const [to, setTo] = useState<string>(CANVAS);
+  const [comparing, setComparing] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  // Snapshots are immutable, so fetched graph data can be cached for the panel's lifetime
+  const snapshotCache = useRef(new Map<number, GraphData>());
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    const list = await getGraphRevisions(graphId);
+    setRevisions(list);
+    setFrom(prev => prev || (list[0] ? String(list[0].revision) : ''));
+    setLoading(false);
+  }, [graphId]);
+
+  useEffect(() => {
+    snapshotCache.current.clear();
+    setFrom('');
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const loadSnapshot = async (key: string): Promise<GraphData | null> => {
+    if (key === CANVAS) return currentGraph;
+    const revision = Number(key);
+    const cached = snapshotCache.current.get(revision);
+    if (cached) return cached;
+
+    const snapshot = await getGraphRevision(graphId, revision);
+    if (!snapshot?.graph_data) return null;
+    const graph = snapshot.graph_data as unknown as GraphData;
+    snapshotCache.current.set(revision, graph);
+    return graph;
+  };
+
+  const labelOf = (key: string) => (key === CANVAS ? 'canvas' : `r${key}`);
+
+  const compare = async (fromKey: string, toKey: string) => {
+    setComparing(true);
+    try {
+      const [before, after] = await Promise.all([loadSnapshot(fromKey), loadSnapshot(toKey)]);
+      if (!before || !after) {
+        toast.error('Failed to load revision');
+        return;
+      }
+      const diff = diffGraphs(before, after);
+      onDiffChange({
+        label: `${labelOf(fromKey)} → ${labelOf(toKey)}`,
+        graph: buildDiffGraph(before, after, diff),
+        diff,
+      });
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const compareWithPrevious = (revision: number) => {
+    setFrom(String(revision - 1));
+    setTo(String(revision));
+    compare(String(revision - 1), String(revision));
+  };
+
+  const handleRestore = async (revision: number) => {
+    if (!confirm(`Restore revision ${revision} of "${graphName}"? Unsaved changes on the canvas will be replaced.`)) return;
+
+    setRestoring(revision);
+    try {
+      const restored = await restoreGraphRevision(graphId, revision);
+      if (!restored) {
+        toast.error('Failed to restore revision');
+        return;
+      }
+      onDiffChange(null);
+      onRestore(restored.graph_data as unknown as GraphData, revision);
+      await loadRevisions();
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const diff = diffView?.diff;
+
+  return (
+    <div className="w-80 border-l border-border bg-card flex flex-col overflow-hidden">
+      <div className="p-4 border-b border-border space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold flex items-center gap-2">
+            <History className="h-4 w-4" />
+            History
+          </h3>
+          <div className="flex items-center">
+            <Button variant="ghost" size="sm" onClick={loadRevisions} disabled={loading} title="Refresh">
+              <RefreshCw className={loading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground truncate">{graphName}</p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={from} onValueChange={setFrom}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="From" />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map(r => (
+                <SelectItem key={r.revision} value={String(r.revision)}>Revision {r.revision}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={to} onValueChange={setTo}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="To" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CANVAS}>Canvas (unsaved)</SelectItem>
+              {revisions.map(r => (
+                <SelectItem key={r.revision} value={String(r.revision)}>Revision {r.revision}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            disabled={!from || from === to || comparing}
+            onClick={() => compare(from, to)}
+          >
+            {comparing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitCompare className="h-4 w-4 mr-2" />}
+            Compare
+          </Button>
+          {diffView && (
+            <Button variant="ghost" size="sm" onClick={() => onDiffChange(null)}>
+              Exit diff
+            </Button>
+          )}
+        </div>
+
+        {diff && (
+          <div className="rounded border border-border p-2 space-y-2 text-xs">
+            <div className="font-medium">{diffView.label}: {summarizeDiff(diff)}</div>
+            <div className="flex flex-wrap gap-2 text-muted-foreground">
+              {(['added', 'removed', 'changed'] as const).map(status => (
+                <span key={status} className="flex items-center gap-1">
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: DIFF_COLORS[status] }} />
+                  {status}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {diff && (
+          <div className="space-y-1 text-sm">
+            {diff.addedNodes.slice(0, LIST_LIMIT).map(node => (
+              <div key={`a-${node.id}`} className="truncate" style={{ color: DIFF_COLORS.added }}>+ {node.label}</div>
+            ))}
+            {diff.removedNodes.slice(0, LIST_LIMIT).map(node => (
+              <div key={`r-${node.id}`} className="truncate" style={{ color: DIFF_COLORS.removed }}>- {node.label}</div>
+            ))}
+            {diff.changedNodes.slice(0, LIST_LIMIT).map(change => (
+              <div key={`c-${change.after.id}`} className="truncate" style={{ color: DIFF_COLORS.changed }} title={change.fields.join(', ')}>
+                ~ {change.after.label} <span className="text-xs text-muted-foreground">({change.fields.length} fields)</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {loading && revisions.length === 0 ? (
+          <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading history...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded for this graph yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {revisions.map((revision, idx) => (
+              <div key={revision.id} className="rounded border border-border p-2 space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">Revision {revision.revision}</span>
+                  {idx === 0 && <Badge variant="secondary" className="text-xs">latest</Badge>}
+                </div>
+                {revision.message && <p className="text-xs truncate">{revision.message}</p>}
+                <div className="text-xs text-muted-foreground">
+                  {new Date(revision.created_at).toLocaleString()} · {revision.nodes_count} entities · {revision.edges_count} links
+                </div>
+                <div className="flex gap-1 pt-1">
+                  {revision.revision > 1 && (
+                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => compareWithPrevious(revision.revision)}>
+                      <GitCompare className="h-3 w-3 mr-1" />
+                      Changes
+                    </Button>
+                  )}
+                  {canRestore && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      disabled={restoring !== null}
+                      onClick={() => handleRestore(revision.revision)}
+                    >
+                      {restoring === revision.revision
+                        ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        : <RotateCcw className="h-3 w-3 mr-1" />}
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default GraphRevisionPanel;
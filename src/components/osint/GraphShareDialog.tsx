@@ -0,0 +1,181 @@
+// src/components/osint/GraphShareDialog.tsx
+// Share a saved graph with other analysts and manage their roles
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Trash2, UserPlus, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Collaborator } from '@/services/graphCollabService';
+import {
+  addGraphMember,
+  getGraphMembers,
+  removeGraphMember,
+  updateGraphMemberRole,
+  type GraphRole,
+  type SavedGraphMember,
+} from '@/services/userDataService';
+
+interface GraphShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  graphId: string;
+  graphName: string;
+  role: GraphRole | null;
+  online: Collaborator[];
+}
+
+type MemberRole = SavedGraphMember['role'];
+
+export function GraphShareDialog({ open, onOpenChange, graphId, graphName, role, online }: GraphShareDialogProps) {
+  const [members, setMembers] = useState<SavedGraphMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [newRole, setNewRole] = useState<MemberRole>('editor');
+  const [adding, setAdding] = useState(false);
+  const isOwner = role === 'owner';
+
+  const loadMembers = useCallback(async () => {
+    setLoading(true);
+    setMembers(await getGraphMembers(graphId));
+    setLoading(false);
+  }, [graphId]);
+
+  useEffect(() => {
+    if (open) loadMembers();
+  }, [open, loadMembers]);
+
+  const onlineUsers = new Set(online.map(peer => peer.userId));
+
+  const handleAdd = async () => {
+    if (!email.trim()) return;
+    setAdding(true);
+    try {
+      const member = await addGraphMember(graphId, email.trim(), newRole);
+      setMembers(prev => [...prev.filter(m => m.user_id !== member.user_id), member]);
+      setEmail('');
+      toast.success(`Shared with ${member.email} as ${member.role}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to share graph');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (member: SavedGraphMember, nextRole: MemberRole) => {
+    if (await updateGraphMemberRole(graphId, member.user_id, nextRole)) {
+      setMembers(prev => prev.map(m => (m.user_id === member.user_id ? { ...m, role: nextRole } : m)));
+    } else {
+      toast.error('Failed to change role');
+    }
+  };
+
+  const handleRemove = async (member: SavedGraphMember) => {
+    if (!confirm(`Stop sharing "${graphName}" with ${member.email || 'this analyst'}?`)) return;
+    if (await removeGraphMember(graphId, member.user_id)) {
+      setMembers(prev => prev.filter(m => m.user_id !== member.user_id));
+    } else {
+      toast.error('Failed to remove member');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Share "{graphName}"
+          </DialogTitle>
+          <DialogDescription>
+            Editors see and make changes live; viewers follow along read-only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {isOwner && (
+            <div className="flex gap-2">
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder="analyst@example.com"
+              />
+              <Select value={newRole} onValueChange={(value) => setNewRole(value as MemberRole)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="editor">Editor</SelectItem>
+                  <SelectItem value="viewer">Viewer</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAdd} disabled={adding || !email.trim()}>
+                {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+              </Button>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Loading members...
+            </div>
+          ) : members.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isOwner ? 'Not shared with anyone yet.' : 'Only the owner has access.'}
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {members.map(member => (
+                <div key={member.user_id} className="flex items-center gap-2 rounded border border-border px-3 py-2">
+                  <span
+                    className={`h-2 w-2 rounded-full shrink-0 ${onlineUsers.has(member.user_id) ? 'bg-green-500' : 'bg-muted'}`}
+                    title={onlineUsers.has(member.user_id) ? 'Online' : 'Offline'}
+                  />
+                  <span className="flex-1 truncate text-sm">{member.email || member.user_id}</span>
+                  {isOwner ? (
+                    <>
+                      <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as MemberRole)}>
+                        <SelectTrigger className="h-8 w-24 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="editor">Editor</SelectItem>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge variant="outline" className="text-xs">{member.role}</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default GraphShareDialog;
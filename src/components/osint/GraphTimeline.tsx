@@ -0,0 +1,182 @@
+// src/components/osint/GraphTimeline.tsx
+// Timeline scrubber: filter the graph to a time window and play back discovery
+
+import { useEffect, useMemo, useState } from 'react';
+import { Clock, Pause, Play, SkipBack, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { GraphData } from '@/services/graphService';
+import {
+  getTimelineBounds,
+  sliceGraph,
+  type TimelineMode,
+  type TimelineSlice,
+} from '@/services/graphTimelineService';
+
+interface GraphTimelineProps {
+  graph: GraphData;
+  onSliceChange: (slice: TimelineSlice | null) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WINDOWS: Record<string, { label: string; ms: number | null }> = {
+  all: { label: 'Cumulative', ms: null },
+  hour: { label: '1 hour window', ms: DAY_MS / 24 },
+  day: { label: '1 day window', ms: DAY_MS },
+  week: { label: '7 day window', ms: 7 * DAY_MS },
+  month: { label: '30 day window', ms: 30 * DAY_MS },
+};
+const PLAYBACK_STEPS = 120;
+const PLAYBACK_INTERVAL_MS = 150;
+
+function formatTime(time: number, span: number): string {
+  const date = new Date(time);
+  return span < 2 * DAY_MS ? date.toLocaleString() : date.toLocaleDateString();
+}
+
+export function GraphTimeline({ graph, onSliceChange, onClose }: GraphTimelineProps) {
+  const [mode, setMode] = useState<TimelineMode>('investigation');
+  const [windowKey, setWindowKey] = useState('all');
+  const [range, setRange] = useState<[number, number] | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [includeUndated, setIncludeUndated] = useState(true);
+
+  const bounds = useMemo(() => getTimelineBounds(graph, mode), [graph, mode]);
+  const span = bounds ? Math.max(bounds.max - bounds.min, 1) : 1;
+  const windowMs = WINDOWS[windowKey].ms;
+
+  // Keep the window inside the bounds as entities are added or the clock changes
+  const [start, end] = useMemo<[number, number]>(() => {
+    if (!bounds) return [0, 0];
+    if (!range) return [bounds.min, bounds.max];
+    return [Math.max(bounds.min, Math.min(range[0], bounds.max)), Math.max(bounds.min, Math.min(range[1], bounds.max))];
+  }, [bounds, range]);
+
+  const slice = useMemo(
+    () => (bounds ? sliceGraph(graph, mode, start, end, includeUndated) : null),
+    [graph, mode, start, end, includeUndated, bounds]
+  );
+
+  useEffect(() => {
+    onSliceChange(slice);
+  }, [slice, onSliceChange]);
+
+  useEffect(() => () => onSliceChange(null), [onSliceChange]);
+
+  useEffect(() => {
+    if (!playing || !bounds) return;
+    const timer = setInterval(() => {
+      setRange(prev => {
+        const nextEnd = Math.min(bounds.max, (prev ? prev[1] : bounds.max) + span / PLAYBACK_STEPS);
+        return [windowMs ? Math.max(bounds.min, nextEnd - windowMs) : bounds.min, nextEnd];
+      });
+    }, PLAYBACK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [playing, bounds, span, windowMs]);
+
+  useEffect(() => {
+    if (playing && bounds && end >= bounds.max) setPlaying(false);
+  }, [playing, bounds, end]);
+
+  const handlePlay = () => {
+    if (!bounds) return;
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    // Restart from the beginning when the scrubber is already at the end
+    if (end >= bounds.max) setRange([bounds.min, bounds.min]);
+    setPlaying(true);
+  };
+
+  const handleWindowChange = (key: string) => {
+    setWindowKey(key);
+    const ms = WINDOWS[key].ms;
+    if (bounds) setRange([ms ? Math.max(bounds.min, end - ms) : bounds.min, end]);
+  };
+
+  const handleSliderChange = ([nextStart, nextEnd]: number[]) => {
+    setPlaying(false);
+    setRange([nextStart, nextEnd]);
+  };
+
+  return (
+    <div className="absolute bottom-4 left-[21rem] right-4 bg-card/95 backdrop-blur border border-border rounded-lg p-3 space-y-3 text-sm">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Clock className="h-4 w-4 text-primary" />
+        <span className="font-semibold">Timeline</span>
+        <Select value={mode} onValueChange={(value) => { setMode(value as TimelineMode); setRange(null); setPlaying(false); }}>
+          <SelectTrigger className="h-8 w-52 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="investigation">Added to investigation</SelectItem>
+            <SelectItem value="observed">First / last seen</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={windowKey} onValueChange={handleWindowChange}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(WINDOWS).map(([key, { label }]) => (
+              <SelectItem key={key} value={key}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Switch checked={includeUndated} onCheckedChange={setIncludeUndated} />
+          Show undated
+        </label>
+        <div className="flex-1" />
+        {slice && (
+          <Badge variant="secondary">
+            {slice.nodeIds.size}/{graph.nodes.length} entities
+            {slice.recentIds.size > 0 && ` · ${slice.recentIds.size} new`}
+          </Badge>
+        )}
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {!bounds ? (
+        <p className="text-xs text-muted-foreground">
+          {mode === 'observed'
+            ? 'No entities carry first-seen or last-seen dates yet.'
+            : 'No entities have a recorded discovery time yet.'}
+        </p>
+      ) : (
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" onClick={() => { setPlaying(false); setRange([bounds.min, bounds.min]); }}>
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button size="sm" onClick={handlePlay}>
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <span className="text-xs text-muted-foreground w-36 text-right shrink-0">{formatTime(start, span)}</span>
+          <Slider
+            min={bounds.min}
+            max={bounds.min + span}
+            step={Math.max(span / 1000, 1)}
+            value={[start, end]}
+            onValueChange={handleSliderChange}
+          />
+          <span className="text-xs text-muted-foreground w-36 shrink-0">{formatTime(end, span)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GraphTimeline;
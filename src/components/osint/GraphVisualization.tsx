@@ -21,11 +21,22 @@ import {
   Move,
   MousePointer,
   FolderOpen,
+  Puzzle,
+  Merge,
+  Bot,
+  BarChart3,
+  History,
+  Clock,
+  Users,
+  MousePointer2,
+  StickyNote,
+  Bitcoin,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -58,18 +69,83 @@ import {
   type GraphData,
   type EntityType,
   type TransformType,
+  type EntityAnnotations,
+  type TlpLevel,
   ENTITY_CONFIG,
-  AVAILABLE_TRANSFORMS,
+  TLP_LEVELS,
   createEntity,
+  deduplicateGraph,
+  entityKey,
   executeTransform,
+  mergeGraphData,
+  mergeNodes,
 } from '@/services/graphService';
+import { getMissingApiKeys, getTransform, getTransformsForEntity, subscribeTransforms } from '@/services/transformRegistry';
+import { loadRemotePacks } from '@/services/transformPackService';
+import { TransformPackManager } from './TransformPackManager';
+import { GraphMachinePanel } from './GraphMachinePanel';
+import { BitcoinTracePanel } from './BitcoinTracePanel';
+import { CryptoLabelEditor } from './CryptoLabelEditor';
+import { GraphAnalyticsPanel } from './GraphAnalyticsPanel';
+import { GraphTimeline } from './GraphTimeline';
+import { GraphRevisionPanel } from './GraphRevisionPanel';
+import { GraphShareDialog } from './GraphShareDialog';
+import { GraphAnnotationEditor, TlpBadge } from './GraphAnnotationEditor';
+import { GraphAnnotationPanel } from './GraphAnnotationPanel';
+import { applyLayout, computeLayoutAsync, placeNewNodes, type LayoutType } from '@/services/graphLayoutService';
+import type { GraphFilter } from '@/services/graphAnalyticsService';
+import type { TimelineSlice } from '@/services/graphTimelineService';
+import type { GraphDiffView } from '@/services/graphDiffService';
+import {
+  DEFAULT_RELEASE_TLP,
+  TLP_CONFIG,
+  applyTlpPolicy,
+  effectiveConfidence,
+  withAnnotations,
+} from '@/services/graphAnnotationService';
+import {
+  GraphCollabSession,
+  type Collaborator,
+  type CollabStatus,
+  type RemoteCursor,
+} from '@/services/graphCollabService';
+import {
+  GRAPH_EXPORT_FORMATS,
+  GRAPH_IMPORT_ACCEPT,
+  downloadGraphExport,
+  importGraphFiles,
+  type GraphExportFormat,
+} from '@/services/graphFormatService';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   saveGraph,
   getSavedGraphs,
   getGraph,
+  updateGraph,
   deleteGraph,
+  getCurrentUserId,
+  getCurrentUserName,
+  getGraphRole,
   type SavedGraph,
 } from '@/services/userDataService';
+import { buildStixBundle, downloadStixBundle, importStixBundle, isStixBundle } from '@/services/stixService';
+import { classifyAddress } from '@/services/bitcoinInvestigationService';
+
+const LAYOUT_LABELS: Record<LayoutType, string> = {
+  force: 'Force-directed',
+  hierarchical: 'Hierarchical',
+  radial: 'Radial',
+  grouped: 'Group by type',
+};
 
 export function GraphVisualization() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -81,6 +157,7 @@ export function GraphVisualization() {
   });
 
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
+  const [multiSelection, setMultiSelection] = useState<string[]>([]);
   const [hoveredNode, setHoveredNode] = useState<GraphNode | null>(null);
   const [draggingNode, setDraggingNode] = useState<GraphNode | null>(null);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
@@ -96,6 +173,21 @@ export function GraphVisualization() {
 
   const [showPropertiesPanel, setShowPropertiesPanel] = useState(false);
   const [transforming, setTransforming] = useState(false);
+  const [layoutRunning, setLayoutRunning] = useState(false);
+  const [showPackManager, setShowPackManager] = useState(false);
+  const [showMachines, setShowMachines] = useState(false);
+  const [showTrace, setShowTrace] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [canvasFilter, setCanvasFilter] = useState<GraphFilter | null>(null);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [timelineSlice, setTimelineSlice] = useState<TimelineSlice | null>(null);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [diffView, setDiffView] = useState<GraphDiffView | null>(null);
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [expandedEdgeId, setExpandedEdgeId] = useState<string | null>(null);
+  const [releaseTlp, setReleaseTlp] = useState<TlpLevel>(DEFAULT_RELEASE_TLP);
+  const [authorName, setAuthorName] = useState('Analyst');
+  const [, setTransformRevision] = useState(0);
 
   // Save/Load state
   const [showSaveDialog, setShowSaveDialog] = useState(false);
@@ -105,6 +197,27 @@ export function GraphVisualization() {
   const [savedGraphs, setSavedGraphs] = useState<SavedGraph[]>([]);
   const [loadingSaved, setLoadingSaved] = useState(false);
   const [savingGraph, setSavingGraph] = useState(false);
+  const [currentGraph, setCurrentGraph] = useState<{ id: string; name: string } | null>(null);
+  const [revisionMessage, setRevisionMessage] = useState('');
+  const [saveAsNew, setSaveAsNew] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+
+  // Live collaboration on the loaded saved graph
+  const [collabSession, setCollabSession] = useState<GraphCollabSession | null>(null);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus>('offline');
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [remoteCursors, setRemoteCursors] = useState<Record<string, RemoteCursor>>({});
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const graphDataRef = useRef(graphData);
+  graphDataRef.current = graphData;
+  const readOnly = !!collabSession && !collabSession.canEdit;
+
+  // The panel shows the latest annotations, including ones collaborators just made
+  const liveSelectedNode = selectedNode && (graphData.nodes.find(n => n.id === selectedNode.id) || selectedNode);
+  const selectedEdges = liveSelectedNode && !diffView
+    ? graphData.edges.filter(e => e.source === liveSelectedNode.id || e.target === liveSelectedNode.id)
+    : [];
+  const nodeLabels = new Map(graphData.nodes.map(n => [n.id, n.label]));
 
   const [contextMenuNode, setContextMenuNode] = useState<GraphNode | null>(null);
   const [contextMenuPos, setContextMenuPos] = useState({ x: 0, y:  0 });
@@ -113,6 +226,9 @@ export function GraphVisualization() {
      CANVAS RENDERING
   ============================================================================ */
 
+  // A revision diff replaces the working graph on the canvas until it is dismissed
+  const canvasGraph = diffView?.graph ?? graphData;
+
   const drawGraph = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -155,11 +271,22 @@ export function GraphVisualization() {
     ctx.scale(viewScale, viewScale);
 
     // Draw edges
-    graphData.edges.forEach(edge => {
-      const sourceNode = graphData.nodes.find(n => n.id === edge.source);
-      const targetNode = graphData.nodes.find(n => n.id === edge.target);
+    const nodeById = new Map(canvasGraph.nodes.map(n => [n.id, n]));
+    canvasGraph.edges.forEach(edge => {
+      const sourceNode = nodeById.get(edge.source);
+      const targetNode = nodeById.get(edge.target);
 
       if (! sourceNode || !targetNode) return;
+      if (timelineSlice && !timelineSlice.edgeIds.has(edge.id)) return;
+
+      // Analytics filter: edges outside the result are dimmed or hidden
+      if (canvasFilter) {
+        const inFilter = canvasFilter.edgeIds
+          ? canvasFilter.edgeIds.has(edge.id)
+          : canvasFilter.nodeIds.has(edge.source) && canvasFilter.nodeIds.has(edge.target);
+        if (!inFilter && canvasFilter.mode === 'isolate') return;
+        ctx.globalAlpha = inFilter ? 1 : 0.1;
+      }
 
       ctx.beginPath();
       ctx.moveTo(sourceNode.position.x, sourceNode.position.y);
@@ -201,24 +328,39 @@ export function GraphVisualization() {
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
       ctx.fillText(edge. label, midX, midY - 10);
+
+      if (edge.annotations?.tlp) {
+        ctx.fillStyle = TLP_CONFIG[edge.annotations.tlp].color;
+        ctx.strokeStyle = '#000000';
+        ctx.lineWidth = 1.5;
+        ctx.fillRect(midX - 4, midY - 4, 8, 8);
+        ctx.strokeRect(midX - 4, midY - 4, 8, 8);
+      }
+      ctx.globalAlpha = 1;
     });
 
     // Draw nodes
-    graphData.nodes.forEach(node => {
+    canvasGraph.nodes.forEach(node => {
       const size = node.size || 50;
       const isSelected = selectedNode?.id === node.id;
       const isHovered = hoveredNode?.id === node.id;
+      const isMultiSelected = multiSelection.includes(node.id);
+      if (timelineSlice && !timelineSlice.nodeIds.has(node.id)) return;
+      const isFilteredOut = !!canvasFilter && !canvasFilter.nodeIds.has(node.id);
+      if (isFilteredOut && canvasFilter!.mode === 'isolate') return;
+      ctx.globalAlpha = isFilteredOut ? 0.15 : 1;
+      const fillColor = canvasFilter?.nodeColors?.get(node.id) || node.color || '#3b82f6';
 
       // Node shadow/glow
       if (isSelected || isHovered) {
         ctx.shadowBlur = 20;
-        ctx.shadowColor = node.color || '#3b82f6';
+        ctx.shadowColor = fillColor;
       }
 
       // Node circle
       ctx.beginPath();
       ctx.arc(node.position.x, node.position.y, size / 2, 0, Math.PI * 2);
-      ctx.fillStyle = node.color || '#3b82f6';
+      ctx.fillStyle = fillColor;
       ctx.fill();
 
       if (isSelected) {
@@ -227,6 +369,25 @@ export function GraphVisualization() {
         ctx.stroke();
       }
 
+      if (isMultiSelected) {
+        ctx.beginPath();
+        ctx.arc(node.position.x, node.position.y, size / 2 + 6, 0, Math.PI * 2);
+        ctx.setLineDash([4, 4]);
+        ctx.strokeStyle = '#facc15';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      // Timeline: ring entities that appeared at the leading edge of the window
+      if (timelineSlice?.recentIds.has(node.id)) {
+        ctx.beginPath();
+        ctx.arc(node.position.x, node.position.y, size / 2 + 4, 0, Math.PI * 2);
+        ctx.strokeStyle = '#22c55e';
+        ctx.lineWidth = 3;
+        ctx.stroke();
+      }
+
       ctx.shadowBlur = 0;
 
       // Node icon
@@ -268,15 +429,83 @@ export function GraphVisualization() {
         ctx.lineWidth = 2;
         ctx.stroke();
       }
+
+      // TLP marking, opposite the risk indicator
+      if (node.annotations?.tlp) {
+        const x = node.position.x - size / 2 - 3;
+        const y = node.position.y - size / 2 - 3;
+        ctx.fillStyle = TLP_CONFIG[node.annotations.tlp].color;
+        ctx.fillRect(x, y, 10, 10);
+        ctx.strokeStyle = '#000000';
+        ctx.lineWidth = 1.5;
+        ctx.strokeRect(x, y, 10, 10);
+      }
+      ctx.globalAlpha = 1;
     });
 
     ctx.restore();
-  }, [graphData, selectedNode, hoveredNode, viewOffset, viewScale]);
+  }, [canvasGraph, selectedNode, multiSelection, hoveredNode, viewOffset, viewScale, canvasFilter, timelineSlice]);
 
   useEffect(() => {
     drawGraph();
   }, [drawGraph]);
 
+  // Notes are signed with the analyst's account name
+  useEffect(() => {
+    getCurrentUserName().then(name => name && setAuthorName(name));
+  }, []);
+
+  // Re-render transform menus when packs register or API keys change
+  useEffect(() => {
+    const unsubscribe = subscribeTransforms(() => setTransformRevision(r => r + 1));
+    loadRemotePacks();
+    return unsubscribe;
+  }, []);
+
+  /* ============================================================================
+     LIVE COLLABORATION
+  ============================================================================ */
+
+  const currentGraphId = currentGraph?.id;
+
+  // Join the live session of whichever saved graph is loaded
+  useEffect(() => {
+    if (!currentGraphId) return;
+    let cancelled = false;
+    let session: GraphCollabSession | null = null;
+
+    getGraphRole(currentGraphId).then(role => {
+      if (cancelled || !role) return;
+      session = new GraphCollabSession(currentGraphId, role, {
+        onRemoteChange: () => setGraphData(prev => session!.rebase(prev)),
+        onPresence: setCollaborators,
+        onCursor: cursor => setRemoteCursors(prev => ({ ...prev, [cursor.clientId]: cursor })),
+        onStatus: setCollabStatus,
+      });
+      setCollabSession(session);
+      session.start(() => graphDataRef.current);
+    });
+
+    return () => {
+      cancelled = true;
+      session?.stop();
+      setCollabSession(null);
+      setCollabStatus('offline');
+      setCollaborators([]);
+      setRemoteCursors({});
+    };
+  }, [currentGraphId]);
+
+  // Every local change, whatever made it, is diffed and broadcast; viewers are reverted
+  useEffect(() => {
+    if (!collabSession) return;
+    const revert = collabSession.commitLocal(graphData);
+    if (revert) {
+      setGraphData(revert);
+      toast.info('You have view-only access to this graph', { id: 'graph-read-only' });
+    }
+  }, [graphData, collabSession]);
+
   /* ============================================================================
      MOUSE INTERACTIONS
   ============================================================================ */
@@ -293,8 +522,10 @@ export function GraphVisualization() {
   };
 
   const getNodeAtPosition = (x: number, y: number): GraphNode | null => {
-    for (let i = graphData.nodes.length - 1; i >= 0; i--) {
-      const node = graphData.nodes[i];
+    for (let i = canvasGraph.nodes.length - 1; i >= 0; i--) {
+      const node = canvasGraph.nodes[i];
+      if (canvasFilter?.mode === 'isolate' && !canvasFilter.nodeIds.has(node.id)) continue;
+      if (timelineSlice && !timelineSlice.nodeIds.has(node.id)) continue;
       const size = node.size || 50;
       const distance = Math.sqrt(
         Math.pow(x - node.position.x, 2) + Math.pow(y - node.position.y, 2)
@@ -313,15 +544,27 @@ export function GraphVisualization() {
 
     if (e.button === 2) {
       // Right click
-      if (node) {
+      if (node && !diffView) {
         setContextMenuNode(node);
         setContextMenuPos({ x: e.clientX, y: e. clientY });
       }
       return;
     }
 
+    // Shift-click builds a multi-selection for merging
+    if (node && e.shiftKey) {
+      setMultiSelection(prev => {
+        const base = prev.length === 0 && selectedNode && selectedNode.id !== node.id ? [selectedNode.id] : prev;
+        return base.includes(node.id) ? base.filter(id => id !== node.id) : [...base, node.id];
+      });
+      setSelectedNode(node);
+      return;
+    }
+
     if (node) {
+      setMultiSelection([]);
       setSelectedNode(node);
+      if (diffView || readOnly) return;
       setDraggingNode(node);
       setDragOffset({
         x: pos.x - node.position.x,
@@ -329,6 +572,7 @@ export function GraphVisualization() {
       });
     } else {
       setSelectedNode(null);
+      setMultiSelection([]);
       setIsPanning(true);
       setPanStart({ x: e.clientX - viewOffset.x, y: e. clientY - viewOffset.y });
     }
@@ -336,6 +580,7 @@ export function GraphVisualization() {
 
   const handleMouseMove = (e:  React.MouseEvent<HTMLCanvasElement>) => {
     const pos = getMousePos(e);
+    collabSession?.sendCursor(pos.x, pos.y);
 
     if (draggingNode) {
       setGraphData(prev => ({
@@ -391,6 +636,18 @@ export function GraphVisualization() {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
+    const key = entityKey(newEntityType, newEntityValue);
+    const existing = graphData.nodes.find(n =>
+      entityKey(n.type, n.value) === key || n.metadata?.aliases?.includes(key)
+    );
+    if (existing) {
+      setSelectedNode(existing);
+      setNewEntityValue('');
+      setShowAddDialog(false);
+      toast.info(`${existing.label} is already on the graph`);
+      return;
+    }
+
     const newNode = createEntity(
       newEntityType,
       newEntityValue. trim(),
@@ -416,12 +673,81 @@ export function GraphVisualization() {
       edges: prev.edges.filter(e => e.source !== nodeId && e.target !== nodeId),
     }));
     setSelectedNode(null);
+    setMultiSelection(prev => prev.filter(id => id !== nodeId));
     toast.success('Entity deleted');
   };
 
+  const annotateNode = (nodeId: string, annotations: EntityAnnotations) => {
+    setGraphData(prev => ({
+      ...prev,
+      nodes: prev.nodes.map(n => (n.id === nodeId ? withAnnotations(n, annotations) : n)),
+    }));
+  };
+
+  const annotateEdge = (edgeId: string, annotations: EntityAnnotations) => {
+    setGraphData(prev => ({
+      ...prev,
+      edges: prev.edges.map(e => (e.id === edgeId ? withAnnotations(e, annotations) : e)),
+    }));
+  };
+
+  // Label edits change an address's attribution, so its risk metadata is recomputed from the label store
+  const relabelNode = (nodeId: string) => {
+    setGraphData(prev => ({
+      ...prev,
+      nodes: prev.nodes.map(n => {
+        if (n.id !== nodeId) return n;
+        const { entityType: _type, entityName: _name, ...properties } = n.properties;
+        const label = classifyAddress(n.value);
+        return {
+          ...n,
+          properties: {
+            ...properties,
+            ...(label.entityType !== 'unknown' ? { entityType: label.entityType } : {}),
+            ...(label.entityName ? { entityName: label.entityName } : {}),
+          },
+          metadata: { ...n.metadata, threatScore: label.risk, riskLevel: label.riskLevel },
+        };
+      }),
+    }));
+  };
+
+  const mergeSelectedNodes = (survivorId = multiSelection[0]) => {
+    const ids = [survivorId, ...multiSelection.filter(id => id !== survivorId)];
+    if (ids.length < 2) return;
+
+    const merged = mergeNodes(graphData, ids);
+    setGraphData(merged);
+    setSelectedNode(merged.nodes.find(n => n.id === survivorId) || null);
+    setMultiSelection([]);
+    toast.success(`Merged ${ids.length} entities`);
+  };
+
+  // Functional update so concurrent transforms and running machines don't clobber each other
+  const mergeTransformResult = useCallback((addition: GraphData, parentId: string) => {
+    setGraphData(prev => {
+      const result = mergeGraphData(prev, addition).graph;
+      // Only the new entities are laid out, next to the node the transform ran on
+      const existingIds = new Set(prev.nodes.map(n => n.id));
+      const addedIds = new Set(result.nodes.filter(n => !existingIds.has(n.id)).map(n => n.id));
+      return applyLayout(result, placeNewNodes(result, addedIds, parentId));
+    });
+  }, []);
+
+  // Trace graphs arrive already laid out around the seed, so positions are kept as-is
+  const mergeTraceResult = useCallback((addition: GraphData) => {
+    setGraphData(prev => mergeGraphData(prev, addition).graph);
+  }, []);
+
+  const openTrace = (node: GraphNode) => {
+    setSelectedNode(node);
+    setShowMachines(false);
+    setShowTrace(true);
+  };
+
   const runTransform = async (transformId: TransformType, node: GraphNode) => {
     setTransforming(true);
-    toast.info(`Running ${transformId}...`);
+    toast.info(`Running ${getTransform(transformId)?.name || transformId}...`);
 
     try {
       const { nodes:  newNodes, edges: newEdges } = await executeTransform(transformId, node);
@@ -431,15 +757,18 @@ export function GraphVisualization() {
         return;
       }
 
-      setGraphData(prev => ({
-        nodes: [...prev.nodes, ...newNodes],
-        edges: [...prev.edges, ...newEdges],
-      }));
+      // Computed up front for the toast; the merge itself happens in a functional update
+      const { added, merged } = mergeGraphData(graphData, { nodes: newNodes, edges: newEdges });
+      mergeTransformResult({ nodes: newNodes, edges: newEdges }, node.id);
 
-      toast.success(`Added ${newNodes.length} new entities`);
+      toast.success(
+        merged > 0
+          ? `Added ${added} new entities, linked ${merged} already on the graph`
+          : `Added ${added} new entities`
+      );
     } catch (error) {
       console.error('Transform error:', error);
-      toast.error('Transform failed');
+      toast.error(error instanceof Error ? error.message : 'Transform failed');
     } finally {
       setTransforming(false);
     }
@@ -449,31 +778,75 @@ export function GraphVisualization() {
     if (confirm('Clear entire graph?')) {
       setGraphData({ nodes: [], edges: [] });
       setSelectedNode(null);
+      setCanvasFilter(null);
+      // Clearing detaches from the saved graph rather than wiping it for collaborators
+      setCurrentGraph(null);
+      setShowRevisions(false);
+      setDiffView(null);
       toast.success('Graph cleared');
     }
   };
 
-  const exportGraph = () => {
-    const data = JSON.stringify(graphData, null, 2);
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL. createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `osint-graph-${Date.now()}.json`;
-    a.click();
-    toast.success('Graph exported');
+  // Exporters drop anything above the release level themselves; this only reports it
+  const withheldMessage = () => {
+    const { withheldNodes, withheldEdges } = applyTlpPolicy(graphData, releaseTlp);
+    return withheldNodes + withheldEdges > 0
+      ? ` (${withheldNodes} entities and ${withheldEdges} links above ${TLP_CONFIG[releaseTlp].label} withheld)`
+      : '';
+  };
+
+  const exportGraph = async (format: GraphExportFormat) => {
+    try {
+      await downloadGraphExport(graphData, format, releaseTlp);
+      toast.success(`Graph exported as ${GRAPH_EXPORT_FORMATS[format].label}${withheldMessage()}`);
+    } catch (error) {
+      console.error('[Graph] Export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    }
+  };
+
+  const exportStix = () => {
+    downloadStixBundle(buildStixBundle({ graph: graphData, releaseTlp }), `osint-graph-${Date.now()}.stix.json`);
+    toast.success(`STIX bundle exported${withheldMessage()}`);
   };
 
-  const importGraph = (e: React. ChangeEvent<HTMLInputElement>) => {
-    const file = e. target.files?.[0];
+  const importGraph = async (e: React. ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const file = files[0];
     if (!file) return;
 
+    // GraphML, GEXF, MTGX and CSV (a node/edge pair may be selected together)
+    if (!/\.json$/i.test(file.name)) {
+      try {
+        const { graph: imported, format } = await importGraphFiles(files);
+        const { graph, merged } = deduplicateGraph(imported);
+        setGraphData(graph);
+        fitToView(graph.nodes);
+        toast.success(
+          `${GRAPH_EXPORT_FORMATS[format].label} imported: ${graph.nodes.length} entities, ${graph.edges.length} links` +
+          (merged > 0 ? `, ${merged} duplicates merged` : '')
+        );
+      } catch (error) {
+        console.error('[Graph] Import failed:', error);
+        toast.error(error instanceof Error ? error.message : 'Invalid graph file');
+      }
+      return;
+    }
+
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
       try {
         const data = JSON.parse(event.target?.result as string);
-        setGraphData(data);
-        toast.success('Graph imported');
+        if (isStixBundle(data)) {
+          const result = await importStixBundle(data);
+          setGraphData(result.graph);
+          toast.success(`STIX bundle imported: ${result.stats.nodes} entities, ${result.stored} threat records stored`);
+          return;
+        }
+        const { graph, merged } = deduplicateGraph(data);
+        setGraphData(graph);
+        toast.success(merged > 0 ? `Graph imported, ${merged} duplicate entities merged` : 'Graph imported');
       } catch (error) {
         toast.error('Invalid graph file');
       }
@@ -495,12 +868,20 @@ export function GraphVisualization() {
 
     setSavingGraph(true);
     try {
-      const result = await saveGraph(graphName.trim(), graphData, graphDescription.trim() || undefined);
+      const message = revisionMessage.trim() || undefined;
+      const result = currentGraph && !saveAsNew && !readOnly
+        ? await updateGraph(
+            currentGraph.id,
+            { name: graphName.trim(), description: graphDescription.trim() || undefined, graph_data: graphData },
+            message
+          )
+        : await saveGraph(graphName.trim(), graphData, graphDescription.trim() || undefined, message);
       if (result) {
-        toast.success('Graph saved successfully!');
+        toast.success(result.revision_count ? `Graph saved (revision ${result.revision_count})` : 'Graph saved successfully!');
+        setCurrentGraph({ id: result.id, name: result.name });
         setShowSaveDialog(false);
-        setGraphName('');
-        setGraphDescription('');
+        setRevisionMessage('');
+        setSaveAsNew(false);
       } else {
         toast.error('Failed to save graph. Please sign in first.');
       }
@@ -516,8 +897,9 @@ export function GraphVisualization() {
   const loadSavedGraphsList = async () => {
     setLoadingSaved(true);
     try {
-      const graphs = await getSavedGraphs();
+      const [graphs, userId] = await Promise.all([getSavedGraphs(), getCurrentUserId()]);
       setSavedGraphs(graphs);
+      setCurrentUserId(userId);
     } catch (error) {
       console.error('Error loading saved graphs:', error);
       toast.error('Failed to load saved graphs');
@@ -531,7 +913,11 @@ export function GraphVisualization() {
     try {
       const graph = await getGraph(id);
       if (graph && graph.graph_data) {
-        setGraphData(graph.graph_data as unknown as GraphData);
+        setGraphData(deduplicateGraph(graph.graph_data as unknown as GraphData).graph);
+        setCurrentGraph({ id: graph.id, name: graph.name });
+        setGraphName(graph.name);
+        setGraphDescription(graph.description || '');
+        setDiffView(null);
         setShowLoadDialog(false);
         toast.success(`Loaded: ${graph.name}`);
       } else {
@@ -550,6 +936,11 @@ export function GraphVisualization() {
     const success = await deleteGraph(id);
     if (success) {
       setSavedGraphs(prev => prev.filter(g => g.id !== id));
+      if (currentGraph?.id === id) {
+        setCurrentGraph(null);
+        setShowRevisions(false);
+        setDiffView(null);
+      }
       toast.success('Graph deleted');
     } else {
       toast.error('Failed to delete graph');
@@ -575,32 +966,60 @@ export function GraphVisualization() {
      LAYOUT ALGORITHMS
   ============================================================================ */
 
-  const autoLayout = () => {
-    if (graphData.nodes.length === 0) return;
+  const fitToView = (nodes: GraphNode[]) => {
+    const canvas = canvasRef.current;
+    if (!canvas || nodes.length === 0) return;
 
+    const xs = nodes.map(n => n.position.x);
+    const ys = nodes.map(n => n.position.y);
+    const minX = Math.min(...xs) - 100;
+    const maxX = Math.max(...xs) + 100;
+    const minY = Math.min(...ys) - 100;
+    const maxY = Math.max(...ys) + 100;
+    const scale = Math.max(0.1, Math.min(1.5, canvas.width / (maxX - minX), canvas.height / (maxY - minY)));
+
+    setViewScale(scale);
+    setViewOffset({
+      x: canvas.width / 2 - ((minX + maxX) / 2) * scale,
+      y: canvas.height / 2 - ((minY + maxY) / 2) * scale,
+    });
+  };
+
+  const focusNode = (nodeId: string) => {
+    const node = graphData.nodes.find(n => n.id === nodeId);
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!node || !canvas) return;
 
-    // Simple circular layout
-    const centerX = canvas.width / 2 / viewScale;
-    const centerY = canvas.height / 2 / viewScale;
-    const radius = 200;
+    setSelectedNode(node);
+    setViewOffset({
+      x: canvas.width / 2 - node.position.x * viewScale,
+      y: canvas.height / 2 - node.position.y * viewScale,
+    });
+  };
 
-    setGraphData(prev => ({
-      ... prev,
-      nodes: prev. nodes.map((node, idx) => {
-        const angle = (idx / prev.nodes.length) * 2 * Math.PI;
-        return {
-          ...node,
-          position: {
-            x: centerX + radius * Math.cos(angle),
-            y: centerY + radius * Math.sin(angle),
-          },
-        };
-      }),
-    }));
+  const applyCanvasFilter = (filter: GraphFilter | null) => {
+    setCanvasFilter(filter);
+    // Community coloring covers the whole graph; other results are zoomed to
+    if (filter && !filter.nodeColors) fitToView(graphData.nodes.filter(n => filter.nodeIds.has(n.id)));
+  };
 
-    toast.success('Layout applied');
+  const applyGraphLayout = async (type: LayoutType) => {
+    if (graphData.nodes.length === 0 || layoutRunning) return;
+    if (type === 'radial' && !selectedNode) {
+      toast.error('Select the entity to use as the radial pivot');
+      return;
+    }
+
+    setLayoutRunning(true);
+    try {
+      const positions = await computeLayoutAsync(graphData, type, selectedNode?.id);
+      // Nodes added while the layout ran keep their own positions
+      setGraphData(current => applyLayout(current, positions));
+      fitToView(applyLayout(graphData, positions).nodes);
+      toast.success(`${LAYOUT_LABELS[type]} layout applied`);
+    } finally {
+      setLayoutRunning(false);
+    }
   };
 
   /* ============================================================================
@@ -615,6 +1034,30 @@ export function GraphVisualization() {
           <Network className="h-6 w-6 text-primary" />
           <h1 className="text-xl font-bold">Graph Intelligence</h1>
           <Badge variant="secondary">{graphData.nodes.length} entities</Badge>
+          {collabSession && (
+            <div className="flex items-center gap-2 ml-2">
+              <Badge
+                variant="outline"
+                className={cn(collabStatus === 'live' && 'border-green-500 text-green-500')}
+                title={currentGraph?.name}
+              >
+                {collabStatus === 'live' ? 'Live' : collabStatus === 'offline' ? 'Offline' : 'Connecting...'}
+                {readOnly && ' · view only'}
+              </Badge>
+              <div className="flex -space-x-2">
+                {collaborators.map(peer => (
+                  <div
+                    key={peer.clientId}
+                    className="h-7 w-7 rounded-full border-2 border-card flex items-center justify-center text-xs font-bold text-white"
+                    style={{ backgroundColor: peer.color }}
+                    title={`${peer.name}${peer.self ? ' (you)' : ''} · ${peer.role}`}
+                  >
+                    {peer.name.charAt(0).toUpperCase()}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
@@ -627,10 +1070,35 @@ export function GraphVisualization() {
             Add Entity
           </Button>
 
-          <Button variant="outline" size="sm" onClick={autoLayout}>
-            <Grid className="h-4 w-4 mr-2" />
-            Auto Layout
-          </Button>
+          {multiSelection.length >= 2 && (
+            <Button variant="outline" size="sm" onClick={() => mergeSelectedNodes()}>
+              <Merge className="h-4 w-4 mr-2" />
+              Merge ({multiSelection.length})
+            </Button>
+          )}
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={graphData.nodes.length === 0 || layoutRunning}>
+                {layoutRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Grid className="h-4 w-4 mr-2" />}
+                Layout
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {(Object.keys(LAYOUT_LABELS) as LayoutType[]).map(type => (
+                <DropdownMenuItem
+                  key={type}
+                  disabled={type === 'radial' && !selectedNode}
+                  onClick={() => applyGraphLayout(type)}
+                >
+                  {LAYOUT_LABELS[type]}
+                  {type === 'radial' && selectedNode && (
+                    <span className="ml-2 text-xs text-muted-foreground truncate max-w-32">around {selectedNode.label}</span>
+                  )}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
 
           <Button variant="outline" size="sm" onClick={centerGraph}>
             <Maximize2 className="h-4 w-4 mr-2" />
@@ -664,9 +1132,61 @@ export function GraphVisualization() {
             Load
           </Button>
 
-          <Button variant="outline" size="sm" onClick={exportGraph}>
+          <Button
+            variant={showRevisions ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowRevisions(!showRevisions)}
+            disabled={!currentGraph}
+            title={currentGraph ? `Revision history of ${currentGraph.name}` : 'Save or load a graph to track its history'}
+          >
+            <History className="h-4 w-4 mr-2" />
+            History
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowShareDialog(true)}
+            disabled={!collabSession}
+            title={collabSession ? 'Share this graph with other analysts' : 'Save or load a graph to share it'}
+          >
+            <Users className="h-4 w-4 mr-2" />
+            Share
+          </Button>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {(Object.keys(GRAPH_EXPORT_FORMATS) as GraphExportFormat[]).map(format => (
+                <DropdownMenuItem
+                  key={format}
+                  disabled={format !== 'json' && graphData.nodes.length === 0}
+                  onClick={() => exportGraph(format)}
+                >
+                  {GRAPH_EXPORT_FORMATS[format].label}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Release up to (all exports)</DropdownMenuLabel>
+              <DropdownMenuRadioGroup value={releaseTlp} onValueChange={(value) => setReleaseTlp(value as TlpLevel)}>
+                {TLP_LEVELS.map(level => (
+                  <DropdownMenuRadioItem key={level} value={level} onSelect={(e) => e.preventDefault()}>
+                    {TLP_CONFIG[level].label}
+                    {level === 'red' && <span className="ml-2 text-xs text-muted-foreground">internal only</span>}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button variant="outline" size="sm" onClick={exportStix} disabled={graphData.nodes.length === 0}>
             <Download className="h-4 w-4 mr-2" />
-            Export
+            STIX
           </Button>
 
           <label>
@@ -678,12 +1198,53 @@ export function GraphVisualization() {
             </Button>
             <input
               type="file"
-              accept=".json"
+              accept={GRAPH_IMPORT_ACCEPT}
+              multiple
               className="hidden"
               onChange={importGraph}
             />
           </label>
 
+          <Button
+            variant={showAnalytics ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowAnalytics(!showAnalytics)}
+            disabled={graphData.nodes.length === 0 && !showAnalytics}
+          >
+            <BarChart3 className="h-4 w-4 mr-2" />
+            Analytics
+          </Button>
+
+          <Button
+            variant={showTimeline ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowTimeline(!showTimeline)}
+            disabled={graphData.nodes.length === 0 && !showTimeline}
+          >
+            <Clock className="h-4 w-4 mr-2" />
+            Timeline
+          </Button>
+
+          <Button
+            variant={showAnnotations ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowAnnotations(!showAnnotations)}
+            disabled={graphData.nodes.length === 0 && !showAnnotations}
+          >
+            <StickyNote className="h-4 w-4 mr-2" />
+            Annotations
+          </Button>
+
+          <Button variant="outline" size="sm" onClick={() => { setShowTrace(false); setShowMachines(true); }}>
+            <Bot className="h-4 w-4 mr-2" />
+            Machines
+          </Button>
+
+          <Button variant="outline" size="sm" onClick={() => setShowPackManager(true)}>
+            <Puzzle className="h-4 w-4 mr-2" />
+            Transforms
+          </Button>
+
           <Button variant="destructive" size="sm" onClick={clearGraph}>
             <Trash2 className="h-4 w-4 mr-2" />
             Clear
@@ -722,6 +1283,49 @@ export function GraphVisualization() {
             </div>
           </div>
 
+          {/* Collaborator cursors */}
+          {collaborators.filter(peer => !peer.self && remoteCursors[peer.clientId]).map(peer => (
+            <div
+              key={peer.clientId}
+              className="absolute pointer-events-none flex items-start gap-1"
+              style={{
+                left: remoteCursors[peer.clientId].x * viewScale + viewOffset.x,
+                top: remoteCursors[peer.clientId].y * viewScale + viewOffset.y,
+              }}
+            >
+              <MousePointer2 className="h-4 w-4" style={{ color: peer.color, fill: peer.color }} />
+              <span className="rounded px-1 text-xs text-white" style={{ backgroundColor: peer.color }}>
+                {peer.name}
+              </span>
+            </div>
+          ))}
+
+          {showMachines && (
+            <GraphMachinePanel
+              seed={selectedNode}
+              graph={graphData}
+              onResult={mergeTransformResult}
+              onStopNode={setSelectedNode}
+              onClose={() => setShowMachines(false)}
+            />
+          )}
+
+          {showTrace && (
+            <BitcoinTracePanel
+              seed={selectedNode}
+              onResult={mergeTraceResult}
+              onClose={() => setShowTrace(false)}
+            />
+          )}
+
+          {showTimeline && (
+            <GraphTimeline
+              graph={graphData}
+              onSliceChange={setTimelineSlice}
+              onClose={() => setShowTimeline(false)}
+            />
+          )}
+
           {/* Loading Overlay */}
           {transforming && (
             <div className="absolute inset-0 bg-background/80 backdrop-blur flex items-center justify-center">
@@ -779,6 +1383,9 @@ export function GraphVisualization() {
                   {selectedNode.metadata.riskLevel. toUpperCase()} RISK
                 </Badge>
               )}
+              {liveSelectedNode?.annotations?.tlp && (
+                <TlpBadge tlp={liveSelectedNode.annotations.tlp} className="w-full justify-center mt-2" />
+              )}
             </div>
 
             {/* Properties */}
@@ -790,6 +1397,37 @@ export function GraphVisualization() {
                 </div>
               </div>
 
+              {(selectedNode.metadata?.sources?.length || selectedNode.metadata?.aliases?.length) ? (
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Provenance</div>
+                  <div className="flex flex-wrap gap-1">
+                    {selectedNode.metadata?.sources?.map(source => (
+                      <Badge key={source} variant="secondary" className="text-xs">{source}</Badge>
+                    ))}
+                    {selectedNode.metadata?.aliases?.map(alias => (
+                      <Badge key={alias} variant="outline" className="text-xs font-mono">{alias}</Badge>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+
+              {(selectedNode.metadata?.addedAt || selectedNode.metadata?.firstSeen || selectedNode.metadata?.lastSeen) && (
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Timeline</div>
+                  <div className="space-y-1 text-sm">
+                    {selectedNode.metadata.addedAt && (
+                      <div><span className="text-muted-foreground">Added:</span> {new Date(selectedNode.metadata.addedAt).toLocaleString()}</div>
+                    )}
+                    {selectedNode.metadata.firstSeen && (
+                      <div><span className="text-muted-foreground">First seen:</span> {new Date(selectedNode.metadata.firstSeen).toLocaleString()}</div>
+                    )}
+                    {selectedNode.metadata.lastSeen && (
+                      <div><span className="text-muted-foreground">Last seen:</span> {new Date(selectedNode.metadata.lastSeen).toLocaleString()}</div>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {Object.keys(selectedNode.properties).length > 0 && (
                 <div>
                   <div className="text-xs text-muted-foreground mb-2">Additional Properties</div>
@@ -805,25 +1443,109 @@ export function GraphVisualization() {
               )}
             </div>
 
+            {/* Analyst annotations */}
+            <div className="p-4 border-t border-border">
+              <div className="text-sm font-semibold mb-3">Analyst Annotations</div>
+              <GraphAnnotationEditor
+                key={liveSelectedNode!.id}
+                annotations={liveSelectedNode!.annotations}
+                onChange={(annotations) => annotateNode(liveSelectedNode!.id, annotations)}
+                author={authorName}
+                sourceConfidence={liveSelectedNode!.metadata?.confidence}
+                readOnly={readOnly || !!diffView}
+              />
+              {effectiveConfidence(liveSelectedNode!) !== undefined && (
+                <div className="text-xs text-muted-foreground mt-2">
+                  Effective confidence: {effectiveConfidence(liveSelectedNode!)}
+                </div>
+              )}
+            </div>
+
+            {liveSelectedNode!.type === 'crypto_address' && (
+              <div className="p-4 border-t border-border">
+                <div className="text-sm font-semibold mb-3">Attribution Labels</div>
+                <CryptoLabelEditor
+                  key={liveSelectedNode!.id}
+                  address={liveSelectedNode!.value}
+                  author={authorName}
+                  readOnly={readOnly || !!diffView}
+                  onChange={() => relabelNode(liveSelectedNode!.id)}
+                />
+              </div>
+            )}
+
+            {selectedEdges.length > 0 && (
+              <div className="p-4 border-t border-border">
+                <div className="text-sm font-semibold mb-3">Links ({selectedEdges.length})</div>
+                <div className="space-y-2">
+                  {selectedEdges.map(edge => {
+                    const outgoing = edge.source === liveSelectedNode!.id;
+                    const other = nodeLabels.get(outgoing ? edge.target : edge.source);
+                    return (
+                      <div key={edge.id} className="rounded border border-border">
+                        <button
+                          className="w-full flex items-center justify-between gap-2 p-2 text-left text-xs hover:bg-secondary"
+                          onClick={() => setExpandedEdgeId(expandedEdgeId === edge.id ? null : edge.id)}
+                        >
+                          <span className="truncate">
+                            {outgoing ? '→' : '←'} {edge.label || edge.type} {outgoing ? 'to' : 'from'} {other}
+                          </span>
+                          <span className="flex items-center gap-1 shrink-0">
+                            {edge.annotations?.notes?.length ? <StickyNote className="h-3 w-3" /> : null}
+                            {edge.annotations?.tlp && <TlpBadge tlp={edge.annotations.tlp} className="text-[10px]" />}
+                          </span>
+                        </button>
+                        {expandedEdgeId === edge.id && (
+                          <div className="p-2 border-t border-border">
+                            <GraphAnnotationEditor
+                              key={edge.id}
+                              annotations={edge.annotations}
+                              onChange={(annotations) => annotateEdge(edge.id, annotations)}
+                              author={authorName}
+                              readOnly={readOnly}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Available Transforms */}
             <div className="p-4 border-t border-border">
               <div className="text-sm font-semibold mb-3">Available Transforms</div>
               <div className="space-y-2">
-                {AVAILABLE_TRANSFORMS.filter(t =>
-                  t.supportedTypes.includes(selectedNode. type)
-                ).map(transform => (
+                {getTransformsForEntity(selectedNode.type).map(transform => {
+                  const missingKeys = getMissingApiKeys(transform);
+                  return (
+                    <Button
+                      key={transform.id}
+                      variant="outline"
+                      size="sm"
+                      className="w-full justify-start"
+                      onClick={() => runTransform(transform.id, selectedNode)}
+                      disabled={transforming || missingKeys.length > 0}
+                      title={missingKeys.length > 0 ? `Requires ${missingKeys.join(', ')}` : transform.description}
+                    >
+                      <span className="mr-2">{transform.icon}</span>
+                      {transform.name}
+                    </Button>
+                  );
+                })}
+                {selectedNode.type === 'crypto_address' && (
                   <Button
-                    key={transform.id}
                     variant="outline"
                     size="sm"
                     className="w-full justify-start"
-                    onClick={() => runTransform(transform.id, selectedNode)}
-                    disabled={transforming}
+                    onClick={() => openTrace(selectedNode)}
+                    title="Follow funds across transactions and cluster the wallets involved"
                   >
-                    <span className="mr-2">{transform.icon}</span>
-                    {transform.name}
+                    <Bitcoin className="h-4 w-4 mr-2" />
+                    Trace funds...
                   </Button>
-                ))}
+                )}
               </div>
             </div>
 
@@ -841,6 +1563,56 @@ export function GraphVisualization() {
             </div>
           </div>
         )}
+
+        {/* Revision History Panel */}
+        {showRevisions && currentGraph && (
+          <GraphRevisionPanel
+            graphId={currentGraph.id}
+            graphName={currentGraph.name}
+            currentGraph={graphData}
+            canRestore={!readOnly}
+            diffView={diffView}
+            onDiffChange={(view) => {
+              setDiffView(view);
+              setSelectedNode(null);
+              if (view) fitToView(view.graph.nodes);
+            }}
+            onRestore={(graph, revision) => {
+              setGraphData(deduplicateGraph(graph).graph);
+              setSelectedNode(null);
+              toast.success(`Restored revision ${revision}`);
+            }}
+            onClose={() => {
+              setShowRevisions(false);
+              setDiffView(null);
+            }}
+          />
+        )}
+
+        {/* Annotation search */}
+        {showAnnotations && (
+          <GraphAnnotationPanel
+            graph={graphData}
+            onFilterChange={setCanvasFilter}
+            onSelectNode={focusNode}
+            onClose={() => setShowAnnotations(false)}
+          />
+        )}
+
+        {/* Analytics Panel */}
+        {showAnalytics && (
+          <GraphAnalyticsPanel
+            graph={graphData}
+            selection={multiSelection}
+            filter={canvasFilter}
+            onFilterChange={applyCanvasFilter}
+            onSelectNode={focusNode}
+            onClose={() => {
+              setShowAnalytics(false);
+              setCanvasFilter(null);
+            }}
+          />
+        )}
       </div>
 
       {/* Add Entity Dialog */}
@@ -911,12 +1683,11 @@ export function GraphVisualization() {
                 {contextMenuNode.label}
               </div>
               <div className="space-y-1">
-                {AVAILABLE_TRANSFORMS.filter(t =>
-                  t.supportedTypes.includes(contextMenuNode. type)
-                ).map(transform => (
+                {getTransformsForEntity(contextMenuNode.type).map(transform => (
                   <button
                     key={transform.id}
-                    className="w-full text-left px-2 py-1 text-sm hover:bg-secondary rounded"
+                    className="w-full text-left px-2 py-1 text-sm hover:bg-secondary rounded disabled:opacity-50"
+                    disabled={getMissingApiKeys(transform).length > 0}
                     onClick={() => {
                       runTransform(transform.id, contextMenuNode);
                       setContextMenuNode(null);
@@ -927,6 +1698,42 @@ export function GraphVisualization() {
                   </button>
                 ))}
                 <div className="border-t border-border my-1" />
+                <button
+                  className="w-full text-left px-2 py-1 text-sm hover:bg-secondary rounded"
+                  onClick={() => {
+                    setSelectedNode(contextMenuNode);
+                    setShowTrace(false);
+                    setShowMachines(true);
+                    setContextMenuNode(null);
+                  }}
+                >
+                  <Bot className="h-3 w-3 inline mr-2" />
+                  Run machine...
+                </button>
+                {contextMenuNode.type === 'crypto_address' && (
+                  <button
+                    className="w-full text-left px-2 py-1 text-sm hover:bg-secondary rounded"
+                    onClick={() => {
+                      openTrace(contextMenuNode);
+                      setContextMenuNode(null);
+                    }}
+                  >
+                    <Bitcoin className="h-3 w-3 inline mr-2" />
+                    Trace funds...
+                  </button>
+                )}
+                {multiSelection.filter(id => id !== contextMenuNode.id).length > 0 && (
+                  <button
+                    className="w-full text-left px-2 py-1 text-sm hover:bg-secondary rounded"
+                    onClick={() => {
+                      mergeSelectedNodes(contextMenuNode.id);
+                      setContextMenuNode(null);
+                    }}
+                  >
+                    <Merge className="h-3 w-3 inline mr-2" />
+                    Merge selected into this
+                  </button>
+                )}
                 <button
                   className="w-full text-left px-2 py-1 text-sm hover:bg-secondary rounded text-destructive"
                   onClick={() => {
@@ -969,6 +1776,28 @@ export function GraphVisualization() {
                 placeholder="Investigation notes..."
               />
             </div>
+            {currentGraph && readOnly && (
+              <p className="text-sm text-muted-foreground">
+                You have view-only access to "{currentGraph.name}"; this saves a copy to your account.
+              </p>
+            )}
+            {currentGraph && !readOnly && (
+              <>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Revision note (optional)</label>
+                  <Input
+                    value={revisionMessage}
+                    onChange={(e) => setRevisionMessage(e.target.value)}
+                    placeholder="e.g. Expanded MX records"
+                    disabled={saveAsNew}
+                  />
+                </div>
+                <label className="flex items-center justify-between text-sm">
+                  <span>Save as a new graph instead of a new revision of "{currentGraph.name}"</span>
+                  <Switch checked={saveAsNew} onCheckedChange={setSaveAsNew} />
+                </label>
+              </>
+            )}
             <div className="text-sm text-muted-foreground">
               {graphData.nodes.length} entities, {graphData.edges.length} connections
             </div>
@@ -989,6 +1818,19 @@ export function GraphVisualization() {
         </DialogContent>
       </Dialog>
 
+      <TransformPackManager open={showPackManager} onOpenChange={setShowPackManager} />
+
+      {currentGraph && (
+        <GraphShareDialog
+          open={showShareDialog}
+          onOpenChange={setShowShareDialog}
+          graphId={currentGraph.id}
+          graphName={currentGraph.name}
+          role={collabSession?.role ?? null}
+          online={collaborators}
+        />
+      )}
+
       {/* Load Graph Dialog */}
       <Dialog open={showLoadDialog} onOpenChange={setShowLoadDialog}>
         <DialogContent className="max-w-2xl">
@@ -1016,7 +1858,12 @@ export function GraphVisualization() {
                   <Card key={graph.id} className="hover:bg-secondary/50 transition-colors">
                     <CardContent className="p-4 flex items-center justify-between">
                       <div className="flex-1">
-                        <h4 className="font-medium">{graph.name}</h4>
+                        <h4 className="font-medium flex items-center gap-2">
+                          {graph.name}
+                          {currentUserId && graph.user_id !== currentUserId && (
+                            <Badge variant="outline" className="text-xs">Shared with you</Badge>
+                          )}
+                        </h4>
                         {graph.description && (
                           <p className="text-sm text-muted-foreground">{graph.description}</p>
                         )}
@@ -1033,13 +1880,15 @@ export function GraphVisualization() {
                         >
                           Load
                         </Button>
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          onClick={() => handleDeleteSavedGraph(graph.id, graph.name)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {graph.user_id === currentUserId && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleDeleteSavedGraph(graph.id, graph.name)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -8,6 +8,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Activity,
   AlertTriangle,
@@ -52,7 +54,21 @@ import { correlateCampaigns, type Campaign, type CampaignCorrelation, type Corre
 // Exposure analysis service
 import { analyzeExposure, type ExposureAssessment, type ExposureSearchResult } from '@/services/victimExposureService';
 // Detection engine service
-import { generateDetectionPackage, type DetectionPackage, type IOCIndicator } from '@/services/detectionEngineService';
+import { generateDetectionPackage, generateNetworkBlocklists, type DetectionPackage, type IOCIndicator, type SigmaRule, type YARARule } from '@/services/detectionEngineService';
+// Sigma -> SIEM query conversion
+import {
+  convertSigmaRule,
+  downloadConvertedQuery,
+  FIELD_MAPPING_PROFILES,
+  SIGMA_BACKENDS,
+  type SigmaBackend,
+  type SigmaConversionResult,
+  type SigmaProfileId,
+} from '@/services/sigmaConversionService';
+// Network blocklist export
+import { downloadBlocklist } from '@/services/networkBlocklistService';
+// STIX 2.1 exchange
+import { buildStixBundle, downloadStixBundle, importStixBundle } from '@/services/stixService';
 // Dark web forum service
 import { searchDarkWebForums, getRansomwareVictims, type ForumSearchResult, type RansomwareVictim } from '@/services/darkWebForumService';
 // MISP Feed Service - Primary threat data source (uses vite proxy to avoid CORS)
@@ -63,10 +79,15 @@ import {
   fetchURLhausRecent, 
   fetchThreatFoxIOCs, 
   fetchMalwareBazaarRecent,
+  buildMispEvent,
+  buildMispEventFromCampaign,
+  downloadMispEvent,
+  parseMispEvent,
   type ThreatFeedSummary, 
   type MalwareIndicator,
   type C2Server,
 } from '@/services/mispFeedService';
+import { unifiedThreatPipeline } from '@/services/unifiedThreatPipelineService';
 // APT Map service
 import { searchAPTGroups, getAPTStats, type APTGroup } from '@/services/aptMapService';
 // LLM threat processor service
@@ -113,6 +134,7 @@ import { searchThreatsInDatabase } from '@/services/virusTotalService';
 // Visualization components
 import ThreatVisualization from './ThreatVisualization';
 import RealTimeCharts from './RealTimeCharts';
+import { DetectionTestHarness, RuleIssueList, RuleValidationBadge } from './DetectionTestHarness';
 // Toast notifications
 import { toast } from 'sonner';
 
@@ -164,6 +186,9 @@ export default function MalwarePipeline() {
   const [correlations, setCorrelations] = useState<CampaignCorrelation[]>([]);
   const [exposures, setExposures] = useState<ExposureAssessment[]>([]);
   const [detections, setDetections] = useState<DetectionPackage | null>(null);
+  const [siemBackend, setSiemBackend] = useState<SigmaBackend>('splunk');
+  const [sigmaProfile, setSigmaProfile] = useState<SigmaProfileId | 'auto'>('auto');
+  const [blocklistAllowlist, setBlocklistAllowlist] = useState<string>(() => localStorage.getItem('blocklist_allowlist') || '');
   const [forumIntel, setForumIntel] = useState<ForumSearchResult | null>(null);
   const [ransomwareVictims, setRansomwareVictims] = useState<RansomwareVictim[]>([]);
   
@@ -789,7 +814,8 @@ export default function MalwarePipeline() {
         const detectionPkg = generateDetectionPackage(
           searchQuery,
           allIndicators,
-          (correlationResults?.campaigns || []).flatMap(c => c.ttps || [])
+          (correlationResults?.campaigns || []).flatMap(c => c.ttps || []),
+          { allowlist: blocklistAllowlist.split('\n') }
         );
         setDetections(detectionPkg);
       } catch (detErr) {
@@ -903,6 +929,102 @@ export default function MalwarePipeline() {
     setStages(stages.map(s => ({ ...s, status: 'idle' as const, progress: 0 })));
   };
 
+  // Export detection IOCs, correlated campaigns and actors as one STIX 2.1 bundle
+  const exportStixBundle = () => {
+    const bundle = buildStixBundle({
+      family: searchQuery || undefined,
+      indicators: detections?.iocLists?.[0]?.indicators || [],
+      campaigns,
+      actors: threatActorResults?.actors || [],
+    });
+    downloadStixBundle(bundle, `${(searchQuery || 'osint').replace(/[^a-zA-Z0-9]/g, '_')}-${Date.now()}.stix.json`);
+    toast.success(`Exported STIX bundle with ${bundle.objects.length} objects`);
+  };
+
+  // Download a single YARA/Sigma rule; rules that fail validation never leave the browser
+  const exportDetectionRule = (kind: 'yara' | 'sigma', name: string, rule: YARARule | SigmaRule) => {
+    if (rule.validation && !rule.validation.valid) {
+      toast.error(`${name} has validation errors and cannot be exported`);
+      return;
+    }
+    const blob = new Blob([rule.ruleContent], { type: kind === 'yara' ? 'text/plain' : 'application/x-yaml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${name.replace(/[^a-zA-Z0-9_-]/g, '_')}.${kind === 'yara' ? 'yar' : 'yml'}`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success(`Exported ${name}`);
+  };
+
+  // Download a Sigma rule converted for the selected SIEM
+  const exportConvertedQuery = (rule: SigmaRule, result: SigmaConversionResult) => {
+    if (result.errors.length > 0) {
+      toast.error(`Cannot convert ${rule.title}: ${result.errors[0]}`);
+      return;
+    }
+    downloadConvertedQuery(rule, result);
+    toast.success(`Exported ${SIGMA_BACKENDS.find(b => b.id === result.backend)?.name} query for ${rule.title}`);
+  };
+
+  // Rebuild blocklists after the allowlist changes; it is kept in localStorage for the next run
+  const applyBlocklistAllowlist = () => {
+    localStorage.setItem('blocklist_allowlist', blocklistAllowlist);
+    if (!detections) return;
+    const networkBlocklists = generateNetworkBlocklists(
+      searchQuery,
+      detections.iocLists?.[0]?.indicators || [],
+      { allowlist: blocklistAllowlist.split('\n') }
+    );
+    setDetections({ ...detections, networkBlocklists });
+    toast.success(`Rebuilt ${networkBlocklists.length} blocklists`);
+  };
+
+  // Load a partner STIX bundle into the threat_intelligence table
+  const handleStixImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const result = await importStixBundle(await file.text());
+      toast.success(`Imported ${result.stats.indicators} indicators, stored ${result.stored} threat records`);
+    } catch (err) {
+      toast.error(`STIX import failed: ${err.message || 'Invalid bundle'}`);
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  // Export the family IOCs plus one event per correlated campaign as MISP JSON
+  const exportMispEvents = () => {
+    const events = [
+      ...(detections ? [buildMispEvent({
+        info: `${searchQuery || 'OSINT'} indicators`,
+        family: searchQuery || undefined,
+        indicators: detections.iocLists?.[0]?.indicators || [],
+        ttps: campaigns.flatMap(c => c.ttps || []),
+      })] : []),
+      ...campaigns.map(c => buildMispEventFromCampaign(c)),
+    ];
+    const slug = (searchQuery || 'osint').replace(/[^a-zA-Z0-9]/g, '_');
+    events.forEach((event, idx) => downloadMispEvent(event, `${slug}-misp-${idx + 1}.json`));
+    toast.success(`Exported ${events.length} MISP event(s)`);
+  };
+
+  // Ingest partner MISP event JSON into the threat_intelligence table
+  const handleMispImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const threats = parseMispEvent(JSON.parse(await file.text()));
+      const stored = await unifiedThreatPipeline.ingestThreats(threats);
+      toast.success(`Imported ${threats.length} MISP attributes, stored ${stored} threats`);
+    } catch (err) {
+      toast.error(`MISP import failed: ${err.message || 'Invalid event'}`);
+    } finally {
+      e.target.value = '';
+    }
+  };
+
   const updateStage = (stgs: PipelineStage[], idx: number, status: PipelineStage['status'], progress: number) => {
     stgs[idx].status = status;
     stgs[idx].progress = progress;
@@ -2120,10 +2242,36 @@ export default function MalwarePipeline() {
         <TabsContent value="detections" className="space-y-4">
           <Card className="bg-gray-900/50 border-gray-800">
             <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Shield className="h-5 w-5 text-green-400" />
-                Detection Package
-              </CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Shield className="h-5 w-5 text-green-400" />
+                  Detection Package
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={exportStixBundle} disabled={!detections && campaigns.length === 0}>
+                    <Download className="h-3 w-3 mr-1" /> Export STIX
+                  </Button>
+                  <label>
+                    <Button variant="outline" size="sm" asChild>
+                      <span>
+                        <Upload className="h-3 w-3 mr-1" /> Import STIX
+                      </span>
+                    </Button>
+                    <input type="file" accept=".json" className="hidden" onChange={handleStixImport} />
+                  </label>
+                  <Button variant="outline" size="sm" onClick={exportMispEvents} disabled={!detections && campaigns.length === 0}>
+                    <Download className="h-3 w-3 mr-1" /> Export MISP
+                  </Button>
+                  <label>
+                    <Button variant="outline" size="sm" asChild>
+                      <span>
+                        <Upload className="h-3 w-3 mr-1" /> Import MISP
+                      </span>
+                    </Button>
+                    <input type="file" accept=".json" className="hidden" onChange={handleMispImport} />
+                  </label>
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
               {detections ? (
@@ -2155,16 +2303,81 @@ export default function MalwarePipeline() {
                     </Card>
                   </div>
                   
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+                    <span>Convert Sigma to</span>
+                    <Select value={siemBackend} onValueChange={(v) => setSiemBackend(v as SigmaBackend)}>
+                      <SelectTrigger className="w-[220px] h-8 bg-gray-800/50 border-gray-700">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SIGMA_BACKENDS.map(b => (
+                          <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span>using</span>
+                    <Select value={sigmaProfile} onValueChange={setSigmaProfile}>
+                      <SelectTrigger className="w-[200px] h-8 bg-gray-800/50 border-gray-700">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Auto (from logsource)</SelectItem>
+                        {FIELD_MAPPING_PROFILES.map(p => (
+                          <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <ScrollArea className="h-[400px]">
-                    {detections.yaraRules?.map((rule: any, idx: number) => (
+                    {[
+                      ...(detections.yaraRules || []).map(rule => ({ kind: 'yara', name: rule.name, rule })),
+                      ...(detections.sigmaRules || []).map(rule => ({ kind: 'sigma', name: rule.title, rule })),
+                    ].map(({ kind, name, rule }, idx: number) => (
                       <div key={idx} className="p-3 mb-2 bg-gray-800/50 rounded-lg border border-gray-700">
                         <div className="flex items-center justify-between mb-2">
-                          <span className="font-mono text-sm text-cyan-400">{rule.name}</span>
-                          <Button variant="outline" size="sm">
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className="text-[10px]">{kind === 'yara' ? 'YARA' : 'Sigma'}</Badge>
+                            <span className={`font-mono text-sm ${kind === 'yara' ? 'text-cyan-400' : 'text-purple-400'}`}>{name}</span>
+                            <RuleValidationBadge validation={rule.validation} />
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={rule.validation && !rule.validation.valid}
+                            onClick={() => exportDetectionRule(kind, name, rule)}
+                          >
                             <Download className="h-3 w-3 mr-1" /> Export
                           </Button>
                         </div>
-                        <pre className="text-xs text-gray-400 overflow-x-auto whitespace-pre-wrap">{rule.content}</pre>
+                        <RuleIssueList validation={rule.validation} />
+                        <pre className="text-xs text-gray-400 overflow-x-auto whitespace-pre-wrap">{rule.ruleContent}</pre>
+                        {kind === 'sigma' && (() => {
+                          const converted = convertSigmaRule(rule, siemBackend, sigmaProfile === 'auto' ? undefined : sigmaProfile);
+                          return (
+                            <div className="mt-2 pt-2 border-t border-gray-700">
+                              <div className="flex items-center justify-between mb-1">
+                                <span className="text-xs text-gray-300">
+                                  {SIGMA_BACKENDS.find(b => b.id === converted.backend)?.name} · {FIELD_MAPPING_PROFILES.find(p => p.id === converted.profile)?.name}
+                                  {converted.source && <span className="text-gray-500 font-mono"> · {converted.source}</span>}
+                                </span>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={converted.errors.length > 0}
+                                  onClick={() => exportConvertedQuery(rule, converted)}
+                                >
+                                  <Download className="h-3 w-3 mr-1" /> Query
+                                </Button>
+                              </div>
+                              {converted.errors.map((e, i) => <p key={`e${i}`} className="text-xs text-red-400">{e}</p>)}
+                              {converted.warnings.map((w, i) => <p key={`w${i}`} className="text-xs text-yellow-400">{w}</p>)}
+                              {converted.query && (
+                                <pre className="text-xs text-purple-300 overflow-x-auto whitespace-pre-wrap max-h-48">{converted.query}</pre>
+                              )}
+                            </div>
+                          );
+                        })()}
                       </div>
                     ))}
                   </ScrollArea>
@@ -2174,6 +2387,62 @@ export default function MalwarePipeline() {
               )}
             </CardContent>
           </Card>
+
+          {detections && (
+            <Card className="bg-gray-900/50 border-gray-800">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Network className="h-5 w-5 text-orange-400" />
+                  Network Blocklists
+                </CardTitle>
+                <CardDescription>
+                  Push-ready lists for resolvers, IDS and firewalls. IPs are aggregated into CIDRs; private ranges and the allowlist are never blocked.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <p className="text-sm text-gray-300 mb-1">Allowlist (IPs, CIDRs, ranges or domains, one per line)</p>
+                  <Textarea
+                    value={blocklistAllowlist}
+                    onChange={(e) => setBlocklistAllowlist(e.target.value)}
+                    placeholder={'203.0.113.0/24\nexample.com'}
+                    className="font-mono text-xs h-24 bg-gray-800/50 border-gray-700"
+                  />
+                  <Button variant="outline" size="sm" className="mt-2" onClick={applyBlocklistAllowlist}>
+                    <RefreshCw className="h-3 w-3 mr-1" /> Apply allowlist
+                  </Button>
+                </div>
+                <ScrollArea className="h-[300px]">
+                  {(detections.networkBlocklists || []).map((blocklist) => (
+                    <div key={blocklist.id} className="flex items-center justify-between p-3 mb-2 bg-gray-800/50 rounded-lg border border-gray-700">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="text-[10px]">{blocklist.format}</Badge>
+                          <span className="text-sm text-white">{blocklist.name}</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {blocklist.description} • {blocklist.stats.ips} IP blocks, {blocklist.stats.domains} domains
+                          {blocklist.stats.allowlisted ? ` • ${blocklist.stats.allowlisted} allowlisted` : ''}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={blocklist.stats.total === 0}
+                        onClick={() => downloadBlocklist(blocklist)}
+                      >
+                        <Download className="h-3 w-3 mr-1" /> Download
+                      </Button>
+                    </div>
+                  ))}
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          )}
+
+          {detections && (
+            <DetectionTestHarness yaraRules={detections.yaraRules || []} sigmaRules={detections.sigmaRules || []} />
+          )}
         </TabsContent>
 
         {/* CVE Vulnerabilities Tab */}
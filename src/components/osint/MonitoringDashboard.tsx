@@ -28,6 +28,9 @@ import {
   RefreshCw,
   Loader2,
   Settings,
+  Radar,
+  MessageSquare,
+  Send,
 } from 'lucide-react';
 import {
   getMonitoringItems,
@@ -41,6 +44,37 @@ import {
   type MonitoringItem,
   type MonitoringAlert,
 } from '@/services/userDataService';
+import {
+  getRules,
+  installDefaultRules,
+  updateRule,
+  deleteRule,
+  getAlerts as getThreatAlerts,
+  updateAlertStatus,
+  addAlertNote,
+  onAlert,
+  onAlertUpdate,
+  runServerMonitoringCycle,
+  getIncidents,
+  updateIncidentStatus,
+  getSuppressions,
+  addSuppression,
+  removeSuppression,
+  type AlertAction,
+  type AlertSuppression,
+  type MonitoringIncident,
+  type MonitoringRule,
+  type ThreatAlert,
+} from '@/services/continuousMonitoringService';
+import {
+  ALERT_CHANNELS,
+  sendTestAlert,
+  getDeliveryFailures,
+  dismissDeliveryFailure,
+  type DeliveryChannel,
+  type DeliveryFailure,
+} from '@/services/alertActionService';
+import { useAuth } from '@/hooks/useAuth';
 import { cn } from '@/lib/utils';
 
 const MONITOR_TYPES = [
@@ -59,6 +93,74 @@ const ALERT_THRESHOLDS = [
   { value: 'critical', label: 'Critical only' },
 ];
 
+const ALERT_STATUSES: { value: ThreatAlert['status']; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'acknowledged', label: 'Acknowledged' },
+  { value: 'investigating', label: 'Investigating' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'false_positive', label: 'False positive' },
+];
+
+const INCIDENT_STATUSES: { value: MonitoringIncident['status']; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'investigating', label: 'Investigating' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'false_positive', label: 'False positive' },
+];
+
+const SEVERITY_RANK: Record<string, number> = { info: 0, low: 1, medium: 2, high: 3, critical: 4 };
+
+interface AlertGroup {
+  id: string;
+  incident?: MonitoringIncident;
+  title: string;
+  severity: ThreatAlert['severity'];
+  lastSeen: string;
+  alerts: ThreatAlert[];
+  unresolved: number;
+  repeats: number;
+}
+
+/**
+ * Group alerts under their incident; alerts raised before incident grouping
+ * existed fall into a single ungrouped bucket
+ */
+function groupAlertsByIncident(alerts: ThreatAlert[], incidents: MonitoringIncident[]): AlertGroup[] {
+  const incidentById = new Map(incidents.map(i => [i.id, i]));
+  const groups = new Map<string, AlertGroup>();
+
+  for (const alert of alerts) {
+    const incident = alert.incidentId ? incidentById.get(alert.incidentId) : undefined;
+    const id = incident?.id || 'ungrouped';
+    let group = groups.get(id);
+    if (!group) {
+      group = {
+        id,
+        incident,
+        title: incident?.title || 'Ungrouped alerts',
+        severity: incident?.severity || alert.severity,
+        lastSeen: incident?.lastSeen || alert.lastSeen,
+        alerts: [],
+        unresolved: 0,
+        repeats: 0,
+      };
+      groups.set(id, group);
+    }
+    group.alerts.push(alert);
+    if (alert.status === 'new' || alert.status === 'acknowledged' || alert.status === 'investigating') group.unresolved++;
+    group.repeats += alert.occurrenceCount - 1;
+    if ((SEVERITY_RANK[alert.severity] ?? 0) > (SEVERITY_RANK[group.severity] ?? 0)) group.severity = alert.severity;
+    if (alert.lastSeen > group.lastSeen) group.lastSeen = alert.lastSeen;
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
+
+const severityTextClass = (severity: string) =>
+  severity === 'critical' ? "text-red-400 border-red-500/30" :
+  severity === 'high' ? "text-orange-400 border-orange-500/30" :
+  severity === 'medium' ? "text-yellow-400 border-yellow-500/30" : "text-blue-400 border-blue-500/30";
+
 export function MonitoringDashboard() {
   const [items, setItems] = useState<MonitoringItem[]>([]);
   const [alerts, setAlerts] = useState<MonitoringAlert[]>([]);
@@ -72,19 +174,58 @@ export function MonitoringDashboard() {
   const [newThreshold, setNewThreshold] = useState('any');
   const [submitting, setSubmitting] = useState(false);
 
+  // Persistent threat monitoring rules/alerts
+  const { user } = useAuth(false);
+  const [rules, setRules] = useState<MonitoringRule[]>([]);
+  const [threatAlerts, setThreatAlerts] = useState<ThreatAlert[]>([]);
+  const [expandedAlertId, setExpandedAlertId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [runningCycle, setRunningCycle] = useState(false);
+  const [actionsRule, setActionsRule] = useState<MonitoringRule | null>(null);
+  const [incidents, setIncidents] = useState<MonitoringIncident[]>([]);
+  const [expandedIncidentId, setExpandedIncidentId] = useState<string | null>(null);
+  const [suppressions, setSuppressions] = useState<AlertSuppression[]>([]);
+  const [suppressionsOpen, setSuppressionsOpen] = useState(false);
+
   useEffect(() => {
     loadData();
   }, []);
 
+  // Alerts raised by the scheduled edge function arrive via realtime
+  useEffect(() => {
+    const unsubscribeInsert = onAlert((alert) => {
+      setThreatAlerts(prev => prev.some(a => a.id === alert.id) ? prev : [alert, ...prev]);
+      getIncidents().then(setIncidents);
+      if (alert.severity === 'critical' || alert.severity === 'high') {
+        toast.error(`${alert.ruleName}: ${alert.title}`);
+      }
+    });
+    const unsubscribeUpdate = onAlertUpdate((alert) => {
+      setThreatAlerts(prev => prev.map(a => a.id === alert.id ? { ...alert, notes: a.notes } : a));
+    });
+    return () => {
+      unsubscribeInsert();
+      unsubscribeUpdate();
+    };
+  }, []);
+
   const loadData = async () => {
     setLoading(true);
     try {
-      const [itemsData, alertsData] = await Promise.all([
+      const [itemsData, alertsData, rulesData, threatAlertsData, incidentsData, suppressionsData] = await Promise.all([
         getMonitoringItems(),
         getMonitoringAlerts(),
+        getRules(),
+        getThreatAlerts(),
+        getIncidents(),
+        getSuppressions(),
       ]);
       setItems(itemsData);
       setAlerts(alertsData);
+      setRules(rulesData);
+      setThreatAlerts(threatAlertsData);
+      setIncidents(incidentsData);
+      setSuppressions(suppressionsData);
     } catch (error) {
       console.error('Error loading monitoring data:', error);
       toast.error('Failed to load monitoring data');
@@ -153,14 +294,200 @@ export function MonitoringDashboard() {
     }
   };
 
+  const handleInstallDefaultRules = async () => {
+    const installed = await installDefaultRules();
+    if (installed.length > 0) {
+      setRules(prev => [...prev, ...installed]);
+      toast.success(`Installed ${installed.length} monitoring rules`);
+    } else {
+      toast.error('Failed to install default rules');
+    }
+  };
+
+  const handleToggleRule = async (rule: MonitoringRule) => {
+    const updated = await updateRule(rule.id, { enabled: !rule.enabled });
+    if (updated) {
+      setRules(prev => prev.map(r => r.id === rule.id ? updated : r));
+    } else {
+      toast.error('Failed to update rule');
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    if (await deleteRule(id)) {
+      setRules(prev => prev.filter(r => r.id !== id));
+      toast.success('Monitoring rule removed');
+    } else {
+      toast.error('Failed to remove rule');
+    }
+  };
+
+  const handleRunCycle = async () => {
+    setRunningCycle(true);
+    try {
+      const result = await runServerMonitoringCycle();
+      toast.success(`Checked ${result.rulesChecked} rules, ${result.alertsCreated} new alerts`);
+      setRules(await getRules());
+    } catch (error) {
+      toast.error('Monitoring cycle failed');
+    } finally {
+      setRunningCycle(false);
+    }
+  };
+
+  const handleAlertStatus = async (alert: ThreatAlert, status: ThreatAlert['status']) => {
+    const updated = await updateAlertStatus(alert.id, status);
+    if (updated) {
+      setThreatAlerts(prev => prev.map(a => a.id === alert.id ? updated : a));
+      // False positives feed the suppression list server-side
+      if (status === 'false_positive') {
+        setSuppressions(await getSuppressions());
+      }
+    } else {
+      toast.error('Failed to update alert');
+    }
+  };
+
+  const handleIncidentStatus = async (incident: MonitoringIncident, status: MonitoringIncident['status']) => {
+    const updated = await updateIncidentStatus(incident.id, status);
+    if (updated) {
+      setIncidents(prev => prev.map(i => i.id === incident.id ? updated : i));
+    } else {
+      toast.error('Failed to update incident');
+    }
+  };
+
+  const handleSuppress = async (indicator: string, ruleId?: string) => {
+    const suppression = await addSuppression(indicator, { ruleId, reason: 'Suppressed from alert' });
+    if (suppression) {
+      setSuppressions(prev => [suppression, ...prev.filter(s => s.id !== suppression.id)]);
+      toast.success(`Suppressed ${indicator}`);
+    } else {
+      toast.error('Failed to add suppression');
+    }
+  };
+
+  const handleRemoveSuppression = async (id: string) => {
+    if (await removeSuppression(id)) {
+      setSuppressions(prev => prev.filter(s => s.id !== id));
+    } else {
+      toast.error('Failed to remove suppression');
+    }
+  };
+
+  const handleAddNote = async (alert: ThreatAlert) => {
+    if (!noteDraft.trim()) return;
+    const note = await addAlertNote(alert.id, user?.email || 'analyst', noteDraft.trim());
+    if (note) {
+      setThreatAlerts(prev => prev.map(a => a.id === alert.id ? { ...a, notes: [...a.notes, note] } : a));
+      setNoteDraft('');
+    } else {
+      toast.error('Failed to add note');
+    }
+  };
+
   const unreadCount = alerts.filter(a => !a.is_read).length;
   const activeCount = items.filter(i => i.status === 'active').length;
+  const alertGroups = groupAlertsByIncident(threatAlerts, incidents);
+  const repeatCount = threatAlerts.reduce((sum, a) => sum + a.occurrenceCount - 1, 0);
 
   const getTypeIcon = (type: string) => {
     const typeConfig = MONITOR_TYPES.find(t => t.value === type);
     return typeConfig?.icon || Globe;
   };
 
+  const renderThreatAlert = (alert: ThreatAlert) => (
+    <div
+      key={alert.id}
+      className={cn(
+        "p-4 rounded-lg border",
+        alert.status === 'new'
+          ? "bg-red-500/5 border-red-500/20"
+          : "bg-slate-800/30 border-slate-700"
+      )}
+    >
+      <div className="flex items-start justify-between gap-3">
+        <button
+          className="flex-1 min-w-0 text-left"
+          onClick={() => setExpandedAlertId(expandedAlertId === alert.id ? null : alert.id)}
+        >
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className={cn("text-xs", severityTextClass(alert.severity))}>
+              {alert.severity}
+            </Badge>
+            <h4 className="font-medium truncate">{alert.title}</h4>
+            {alert.occurrenceCount > 1 && (
+              <Badge variant="secondary" className="text-xs shrink-0" title={`Last seen ${new Date(alert.lastSeen).toLocaleString()}`}>
+                ×{alert.occurrenceCount}
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">{alert.description}</p>
+          <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+            <Clock className="h-3 w-3" />
+            {new Date(alert.timestamp).toLocaleString()} · {alert.ruleName} · {alert.source}
+            {alert.notes.length > 0 && (
+              <span className="flex items-center gap-1">
+                <MessageSquare className="h-3 w-3" />
+                {alert.notes.length}
+              </span>
+            )}
+          </div>
+        </button>
+        <Select value={alert.status} onValueChange={(v) => handleAlertStatus(alert, v as ThreatAlert['status'])}>
+          <SelectTrigger className="w-[140px] h-8 bg-slate-800 border-slate-700 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {ALERT_STATUSES.map(s => (
+              <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {expandedAlertId === alert.id && (
+        <div className="mt-3 pt-3 border-t border-slate-700 space-y-2">
+          {alert.indicators.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {alert.indicators.map(indicator => (
+                <Badge key={indicator} variant="outline" className="text-xs font-mono gap-1 max-w-full">
+                  <span className="truncate">{indicator}</span>
+                  <button
+                    onClick={() => handleSuppress(indicator, alert.ruleId)}
+                    title="Suppress this indicator for this rule"
+                    className="text-muted-foreground hover:text-yellow-400"
+                  >
+                    <BellOff className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          {alert.notes.map(note => (
+            <div key={note.id} className="text-sm">
+              <span className="text-xs text-muted-foreground">
+                {note.author} · {new Date(note.timestamp).toLocaleString()}
+              </span>
+              <p>{note.content}</p>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              placeholder="Add a note..."
+              value={noteDraft}
+              onChange={(e) => setNoteDraft(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddNote(alert)}
+              className="h-8 bg-slate-800 border-slate-700"
+            />
+            <Button size="sm" variant="outline" onClick={() => handleAddNote(alert)}>
+              Add
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -484,6 +811,425 @@ export function MonitoringDashboard() {
           </CardContent>
         </Card>
       </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Threat Monitoring Rules */}
+        <Card className="bg-slate-900/50 border-slate-800">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Radar className="h-5 w-5 text-primary" />
+                  Threat Monitoring Rules
+                </CardTitle>
+                <CardDescription>Checked server-side every 15 minutes</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleRunCycle} disabled={runningCycle || rules.length === 0}>
+                {runningCycle ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+                Run Now
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-[400px]">
+              {rules.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <Radar className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>No monitoring rules yet</p>
+                  <Button variant="outline" size="sm" className="mt-4" onClick={handleInstallDefaultRules}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Install default rules
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {rules.map(rule => (
+                    <div
+                      key={rule.id}
+                      className={cn(
+                        "p-4 rounded-lg border transition-all",
+                        rule.enabled
+                          ? "bg-slate-800/50 border-slate-700"
+                          : "bg-slate-800/20 border-slate-800 opacity-60"
+                      )}
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <h4 className="font-medium">{rule.name}</h4>
+                          <p className="text-sm text-muted-foreground font-mono truncate">{rule.pattern}</p>
+                          <div className="flex flex-wrap items-center gap-2 mt-2">
+                            <Badge variant="outline" className={cn("text-xs", severityTextClass(rule.severity))}>
+                              {rule.severity}
+                            </Badge>
+                            {rule.sources.map(source => (
+                              <Badge
+                                key={source.id}
+                                variant="outline"
+                                className={cn("text-xs", source.status === 'error' && "text-red-400 border-red-500/30")}
+                                title={source.errorMessage}
+                              >
+                                {source.name}
+                              </Badge>
+                            ))}
+                            {rule.triggerCount > 0 && (
+                              <Badge variant="destructive" className="text-xs">
+                                {rule.triggerCount} triggers
+                              </Badge>
+                            )}
+                          </div>
+                          {rule.lastTriggered && (
+                            <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                              <Clock className="h-3 w-3" />
+                              Last triggered {new Date(rule.lastTriggered).toLocaleString()}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setActionsRule(rule)}
+                            title="Alert actions"
+                          >
+                            <Settings className="h-4 w-4" />
+                          </Button>
+                          <Switch checked={rule.enabled} onCheckedChange={() => handleToggleRule(rule)} />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteRule(rule.id)}
+                            className="text-red-400 hover:text-red-300"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </CardContent>
+        </Card>
+
+        {/* Threat Alerts */}
+        <Card className="bg-slate-900/50 border-slate-800">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-orange-400" />
+                  Threat Alerts
+                </CardTitle>
+                <CardDescription>
+                  {threatAlerts.filter(a => !['resolved', 'false_positive'].includes(a.status)).length} unresolved
+                  {' · '}{incidents.filter(i => i.status === 'open' || i.status === 'investigating').length} open incidents
+                  {repeatCount > 0 && ` · ${repeatCount} repeats folded`}
+                </CardDescription>
+              </div>
+              <Dialog open={suppressionsOpen} onOpenChange={setSuppressionsOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <BellOff className="h-4 w-4 mr-2" />
+                    Suppressions ({suppressions.length})
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="bg-slate-900 border-slate-800 max-w-lg">
+                  <DialogHeader>
+                    <DialogTitle>Alert Suppressions</DialogTitle>
+                    <DialogDescription>
+                      Matches on these indicators are dropped before an alert is raised. Entries are added
+                      from alerts or learned when alerts are marked as false positives.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <ScrollArea className="max-h-[400px]">
+                    {suppressions.length === 0 ? (
+                      <p className="text-sm text-muted-foreground text-center py-6">No suppressions</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {suppressions.map(s => (
+                          <div key={s.id} className="flex items-center justify-between gap-2 p-2 rounded border border-slate-700">
+                            <div className="min-w-0">
+                              <p className="text-sm font-mono truncate">{s.value}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {s.kind} · {s.ruleId ? rules.find(r => r.id === s.ruleId)?.name || 'rule' : 'all rules'}
+                                {s.origin === 'auto_false_positive' && ' · learned'}
+                                {s.hitCount > 0 && ` · ${s.hitCount} hits`}
+                                {s.expiresAt && ` · expires ${new Date(s.expiresAt).toLocaleDateString()}`}
+                              </p>
+                            </div>
+                            <Button variant="ghost" size="icon" onClick={() => handleRemoveSuppression(s.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </ScrollArea>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-[400px]">
+              {threatAlerts.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <CheckCircle2 className="h-12 w-12 mx-auto mb-4 opacity-50 text-green-400" />
+                  <p>No threat alerts</p>
+                  <p className="text-sm">Rule matches will appear here in real time</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {alertGroups.map(group => (
+                    <div key={group.id} className="space-y-2">
+                      <button
+                        className="w-full flex items-center justify-between gap-2 p-3 rounded-lg border bg-slate-800/50 border-slate-700 text-left"
+                        onClick={() => setExpandedIncidentId(expandedIncidentId === group.id ? null : group.id)}
+                      >
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className={cn("text-xs", severityTextClass(group.severity))}>
+                              {group.severity}
+                            </Badge>
+                            <h4 className="font-medium truncate">{group.title}</h4>
+                          </div>
+                          <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                            <Clock className="h-3 w-3" />
+                            {new Date(group.lastSeen).toLocaleString()}
+                            {group.incident && ` · ${group.incident.status}`}
+                          </div>
+                        </div>
+                        <Badge variant={group.unresolved > 0 ? 'destructive' : 'outline'} className="text-xs shrink-0">
+                          {group.alerts.length} alert{group.alerts.length === 1 ? '' : 's'}
+                          {group.repeats > 0 && ` · ${group.repeats} repeats`}
+                        </Badge>
+                      </button>
+                      {expandedIncidentId === group.id && (
+                        <div className="space-y-2 pl-3 border-l border-slate-700">
+                          {group.incident && (
+                            <div className="flex items-center gap-2">
+                              <Label className="text-xs text-muted-foreground">Incident status</Label>
+                              <Select
+                                value={group.incident.status}
+                                onValueChange={(v) => handleIncidentStatus(group.incident!, v as MonitoringIncident['status'])}
+                              >
+                                <SelectTrigger className="w-[140px] h-7 bg-slate-800 border-slate-700 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-slate-800 border-slate-700">
+                                  {INCIDENT_STATUSES.map(s => (
+                                    <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                          {group.alerts.map(renderThreatAlert)}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      </div>
+
+      <RuleActionsDialog
+        rule={actionsRule}
+        onClose={() => setActionsRule(null)}
+        onSaved={(updated) => {
+          setRules(prev => prev.map(r => r.id === updated.id ? updated : r));
+          setActionsRule(updated);
+        }}
+      />
     </div>
   );
 }
+
+interface RuleActionsDialogProps {
+  rule: MonitoringRule | null;
+  onClose: () => void;
+  onSaved: (rule: MonitoringRule) => void;
+}
+
+function RuleActionsDialog({ rule, onClose, onSaved }: RuleActionsDialogProps) {
+  const [channel, setChannel] = useState<DeliveryChannel>('webhook');
+  const [config, setConfig] = useState<Record<string, string>>({});
+  const [testing, setTesting] = useState<number | 'new' | null>(null);
+  const [failures, setFailures] = useState<DeliveryFailure[]>([]);
+
+  const ruleId = rule?.id;
+
+  useEffect(() => {
+    if (!ruleId) return;
+    setConfig({});
+    getDeliveryFailures().then(all => setFailures(all.filter(f => f.ruleId === ruleId)));
+  }, [ruleId]);
+
+  if (!rule) return null;
+
+  const deliverable = rule.actions
+    .map((action, index) => ({ action, index }))
+    .filter(({ action }) => action.type !== 'ui' && action.type !== 'log');
+
+  const saveActions = async (actions: AlertAction[]) => {
+    const updated = await updateRule(rule.id, { actions });
+    if (updated) {
+      onSaved(updated);
+    } else {
+      toast.error('Failed to save alert actions');
+    }
+  };
+
+  const handleTest = async (action: AlertAction, key: number | 'new') => {
+    setTesting(key);
+    try {
+      const result = await sendTestAlert(action);
+      if (result.success) {
+        toast.success(`Test ${ALERT_CHANNELS[action.type as DeliveryChannel].label} notification delivered`);
+      } else {
+        toast.error(`Test failed after ${result.attempts} attempt(s): ${result.error}`);
+      }
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const missingField = ALERT_CHANNELS[channel].fields.find(f => !f.optional && !config[f.key]?.trim());
+  const draftAction: AlertAction = { type: channel, config, enabled: true };
+
+  const handleAdd = async () => {
+    if (missingField) {
+      toast.error(`${missingField.label} is required`);
+      return;
+    }
+    await saveActions([...rule.actions, draftAction]);
+    setConfig({});
+    toast.success('Alert action added');
+  };
+
+  return (
+    <Dialog open={!!rule} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-slate-900 border-slate-800 max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Alert Actions: {rule.name}</DialogTitle>
+          <DialogDescription>
+            Where alerts from this rule are delivered. Failed deliveries are retried with backoff.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 mt-2">
+          {deliverable.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Alerts from this rule only appear on the dashboard.</p>
+          ) : (
+            <div className="space-y-2">
+              {deliverable.map(({ action, index }) => (
+                <div key={index} className="flex items-center justify-between p-3 rounded-lg border bg-slate-800/50 border-slate-700">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm">{ALERT_CHANNELS[action.type as DeliveryChannel]?.label || action.type}</p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {action.config.url || action.config.to || (action.config.webhookUrl || action.config.routingKey ? '••••••••' : '')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleTest(action, index)}
+                      disabled={testing !== null}
+                    >
+                      {testing === index ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Send className="h-4 w-4 mr-2" />}
+                      Send test
+                    </Button>
+                    <Switch
+                      checked={action.enabled}
+                      onCheckedChange={(enabled) => saveActions(rule.actions.map((a, i) => i === index ? { ...a, enabled } : a))}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => saveActions(rule.actions.filter((_, i) => i !== index))}
+                      className="text-red-400 hover:text-red-300"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3 p-3 rounded-lg border border-slate-700">
+            <div className="space-y-2">
+              <Label>Channel</Label>
+              <Select value={channel} onValueChange={(v) => { setChannel(v as DeliveryChannel); setConfig({}); }}>
+                <SelectTrigger className="bg-slate-800 border-slate-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {Object.entries(ALERT_CHANNELS).map(([value, def]) => (
+                    <SelectItem key={value} value={value}>{def.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {ALERT_CHANNELS[channel].fields.map(field => (
+              <div key={field.key} className="space-y-2">
+                <Label>{field.label}{field.optional && <span className="text-muted-foreground"> (optional)</span>}</Label>
+                <Input
+                  type={field.secret ? 'password' : 'text'}
+                  placeholder={field.placeholder}
+                  value={config[field.key] || ''}
+                  onChange={(e) => setConfig(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  className="bg-slate-800 border-slate-700"
+                />
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => handleTest(draftAction, 'new')}
+                disabled={!!missingField || testing !== null}
+              >
+                {testing === 'new' ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Send className="h-4 w-4 mr-2" />}
+                Send test
+              </Button>
+              <Button className="flex-1 bg-primary" onClick={handleAdd}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Action
+              </Button>
+            </div>
+          </div>
+
+          {failures.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-red-400">Failed deliveries</Label>
+              {failures.slice(0, 5).map(failure => (
+                <div key={failure.id} className="flex items-start justify-between gap-2 text-xs p-2 rounded border border-red-500/20 bg-red-500/5">
+                  <div className="min-w-0">
+                    <span className="font-medium">{failure.channel}</span>
+                    <span className="text-muted-foreground"> · {new Date(failure.createdAt).toLocaleString()} · {failure.attempts} attempts</span>
+                    <p className="text-muted-foreground truncate">{failure.error}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={async () => {
+                      if (await dismissDeliveryFailure(failure.id)) {
+                        setFailures(prev => prev.filter(f => f.id !== failure.id));
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
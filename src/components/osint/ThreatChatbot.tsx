@@ -92,6 +92,8 @@ const ENTITY_ICONS: Record<string, any> = {
   username: AtSign,
   bitcoin: Bitcoin,
   ethereum: Bitcoin,
+  tron: Bitcoin,
+  litecoin: Bitcoin,
   unknown: Search,
 };
 
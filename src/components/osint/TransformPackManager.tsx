@@ -0,0 +1,205 @@
+// src/components/osint/TransformPackManager.tsx
+// Manage graph transform packs: remote pack servers and transform API keys
+
+import { useEffect, useState } from 'react';
+import { Key, Loader2, Plus, Puzzle, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import {
+  BUILTIN_PACK_ID,
+  getTransformPacks,
+  getTransforms,
+  isRemotePack,
+  resolveTransformApiKey,
+  setTransformApiKey,
+  subscribeTransforms,
+} from '@/services/transformRegistry';
+import {
+  addRemotePack,
+  getRemotePackStatuses,
+  loadRemotePacks,
+  removeRemotePack,
+  setRemotePackEnabled,
+  type RemotePackStatus,
+} from '@/services/transformPackService';
+
+interface TransformPackManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TransformPackManager({ open, onOpenChange }: TransformPackManagerProps) {
+  const [remotePacks, setRemotePacks] = useState<RemotePackStatus[]>(getRemotePackStatuses());
+  const [, setRevision] = useState(0);
+  const [packUrl, setPackUrl] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [keyDrafts, setKeyDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => subscribeTransforms(() => setRevision(r => r + 1)), []);
+
+  const packs = getTransformPacks();
+  const localPacks = packs.filter(p => !isRemotePack(p.id));
+  // Keys are entered per pack; built-in keys are shared by the built-in transforms
+  const requiredKeys = Array.from(
+    new Map(getTransforms().flatMap(t => (t.requiredApiKeys || []).map(name => {
+      const packId = t.pack || BUILTIN_PACK_ID;
+      return [`${packId}::${name}`, { id: `${packId}::${name}`, name, packId }] as const;
+    }))).values()
+  ).sort((a, b) => a.packId.localeCompare(b.packId) || a.name.localeCompare(b.name));
+  const packName = (packId: string) => packs.find(p => p.id === packId)?.name || packId;
+
+  const handleAddPack = async () => {
+    if (!packUrl.trim()) return;
+    setBusy(true);
+    try {
+      const result = await addRemotePack(packUrl);
+      setRemotePacks(getRemotePackStatuses());
+      if (result.loaded) {
+        toast.success(`Loaded ${result.transformCount} transforms from ${result.name}`);
+        setPackUrl('');
+      } else {
+        toast.error(`Pack saved but could not be loaded: ${result.error}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add pack');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReload = async () => {
+    setBusy(true);
+    const results = await loadRemotePacks();
+    setRemotePacks(getRemotePackStatuses());
+    setBusy(false);
+    const failed = results.filter(r => r.enabled && !r.loaded).length;
+    if (failed > 0) toast.error(`${failed} pack${failed === 1 ? '' : 's'} failed to load`);
+    else toast.success('Transform packs reloaded');
+  };
+
+  const handleToggle = async (pack: RemotePackStatus, enabled: boolean) => {
+    await setRemotePackEnabled(pack.id, enabled);
+    setRemotePacks(getRemotePackStatuses());
+  };
+
+  const handleRemove = (pack: RemotePackStatus) => {
+    removeRemotePack(pack.id);
+    setRemotePacks(getRemotePackStatuses());
+    toast.success(`Removed ${pack.name}`);
+  };
+
+  const handleSaveKey = (key: typeof requiredKeys[number]) => {
+    setTransformApiKey(key.name, keyDrafts[key.id] || '', key.packId);
+    setKeyDrafts(prev => ({ ...prev, [key.id]: '' }));
+    toast.success(`${key.name} ${keyDrafts[key.id]?.trim() ? 'saved' : 'cleared'}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Puzzle className="h-5 w-5" />
+            Transform Packs
+          </DialogTitle>
+          <DialogDescription>
+            Register transforms served by a local or remote pack server and provide the API keys they need.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="space-y-2">
+            {localPacks.map(pack => (
+              <Card key={pack.id}>
+                <CardContent className="p-3 flex items-center justify-between">
+                  <div>
+                    <div className="font-medium text-sm">{pack.name}</div>
+                    <div className="text-xs text-muted-foreground">{pack.description}</div>
+                  </div>
+                  <Badge variant="secondary">
+                    {pack.transforms.length} transforms{pack.id === BUILTIN_PACK_ID ? '' : ' · local'}
+                  </Badge>
+                </CardContent>
+              </Card>
+            ))}
+
+            {remotePacks.map(pack => (
+              <Card key={pack.id}>
+                <CardContent className="p-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium text-sm truncate">{pack.name}</div>
+                    <div className="text-xs text-muted-foreground font-mono truncate">{pack.url}</div>
+                    {pack.error && <div className="text-xs text-destructive">{pack.error}</div>}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {pack.loaded && <Badge variant="secondary">{pack.transformCount} transforms</Badge>}
+                    <Switch checked={pack.enabled} onCheckedChange={(checked) => handleToggle(pack, checked)} />
+                    <Button size="sm" variant="ghost" onClick={() => handleRemove(pack)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              value={packUrl}
+              onChange={(e) => setPackUrl(e.target.value)}
+              placeholder="http://localhost:8787"
+              onKeyDown={(e) => e.key === 'Enter' && handleAddPack()}
+            />
+            <Button onClick={handleAddPack} disabled={busy || !packUrl.trim()}>
+              {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Pack
+            </Button>
+            <Button variant="outline" onClick={handleReload} disabled={busy || remotePacks.length === 0}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {requiredKeys.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-semibold flex items-center gap-2">
+                <Key className="h-4 w-4" /> API Keys
+              </div>
+              {requiredKeys.map(key => (
+                <div key={key.id} className="flex items-center gap-2">
+                  <div className="w-48 min-w-0">
+                    <div className="font-mono text-xs truncate">{key.name}</div>
+                    {key.packId !== BUILTIN_PACK_ID && (
+                      <div className="text-[10px] text-muted-foreground truncate">{packName(key.packId)}</div>
+                    )}
+                  </div>
+                  <Input
+                    type="password"
+                    value={keyDrafts[key.id] || ''}
+                    onChange={(e) => setKeyDrafts(prev => ({ ...prev, [key.id]: e.target.value }))}
+                    placeholder={resolveTransformApiKey(key.name, key.packId) ? '•••••••• (configured)' : 'Not configured'}
+                  />
+                  <Button size="sm" variant="outline" onClick={() => handleSaveKey(key)}>
+                    Save
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default TransformPackManager;
@@ -50,6 +50,105 @@ export type Database = {
         }
         Relationships: []
       }
+      alert_delivery_log: {
+        Row: {
+          alert_id: string | null
+          attempts: number
+          channel: string
+          created_at: string
+          error: string | null
+          id: string
+          payload: Json
+          rule_id: string | null
+          user_id: string
+        }
+        Insert: {
+          alert_id?: string | null
+          attempts?: number
+          channel: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          payload?: Json
+          rule_id?: string | null
+          user_id: string
+        }
+        Update: {
+          alert_id?: string | null
+          attempts?: number
+          channel?: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          payload?: Json
+          rule_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_delivery_log_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "threat_alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_delivery_log_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "monitoring_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crypto_labels: {
+        Row: {
+          address: string
+          category: string
+          chain: string
+          confidence: number
+          created_at: string
+          created_by: string | null
+          entity_name: string | null
+          id: string
+          notes: string | null
+          observed_at: string | null
+          source: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address: string
+          category: string
+          chain?: string
+          confidence?: number
+          created_at?: string
+          created_by?: string | null
+          entity_name?: string | null
+          id?: string
+          notes?: string | null
+          observed_at?: string | null
+          source: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string
+          category?: string
+          chain?: string
+          confidence?: number
+          created_at?: string
+          created_by?: string | null
+          entity_name?: string | null
+          id?: string
+          notes?: string | null
+          observed_at?: string | null
+          source?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       monitoring_alerts: {
         Row: {
           created_at: string
@@ -97,6 +196,62 @@ export type Database = {
           },
         ]
       }
+      monitoring_incidents: {
+        Row: {
+          alert_count: number
+          created_at: string
+          first_seen_at: string
+          id: string
+          indicators: Json
+          last_seen_at: string
+          rule_id: string | null
+          severity: string
+          source: string
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          alert_count?: number
+          created_at?: string
+          first_seen_at?: string
+          id?: string
+          indicators?: Json
+          last_seen_at?: string
+          rule_id?: string | null
+          severity?: string
+          source: string
+          status?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          alert_count?: number
+          created_at?: string
+          first_seen_at?: string
+          id?: string
+          indicators?: Json
+          last_seen_at?: string
+          rule_id?: string | null
+          severity?: string
+          source?: string
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "monitoring_incidents_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "monitoring_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       monitoring_items: {
         Row: {
           alert_threshold: string | null
@@ -145,6 +300,113 @@ export type Database = {
         }
         Relationships: []
       }
+      monitoring_rules: {
+        Row: {
+          actions: Json
+          cooldown_minutes: number
+          created_at: string
+          description: string | null
+          enabled: boolean
+          id: string
+          last_triggered: string | null
+          name: string
+          pattern: string
+          rule_type: string
+          severity: string
+          source_state: Json
+          sources: Json
+          trigger_count: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          actions?: Json
+          cooldown_minutes?: number
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          id?: string
+          last_triggered?: string | null
+          name: string
+          pattern: string
+          rule_type?: string
+          severity?: string
+          source_state?: Json
+          sources?: Json
+          trigger_count?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          actions?: Json
+          cooldown_minutes?: number
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          id?: string
+          last_triggered?: string | null
+          name?: string
+          pattern?: string
+          rule_type?: string
+          severity?: string
+          source_state?: Json
+          sources?: Json
+          trigger_count?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      monitoring_suppressions: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          hit_count: number
+          id: string
+          kind: string
+          last_hit_at: string | null
+          origin: string
+          reason: string | null
+          rule_id: string | null
+          user_id: string
+          value: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          hit_count?: number
+          id?: string
+          kind?: string
+          last_hit_at?: string | null
+          origin?: string
+          reason?: string | null
+          rule_id?: string | null
+          user_id: string
+          value: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          hit_count?: number
+          id?: string
+          kind?: string
+          last_hit_at?: string | null
+          origin?: string
+          reason?: string | null
+          rule_id?: string | null
+          user_id?: string
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "monitoring_suppressions_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "monitoring_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       panic_alerts: {
         Row: {
           created_at: string
@@ -208,6 +470,88 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_graph_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          graph_id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          graph_id: string
+          invited_by?: string | null
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          graph_id?: string
+          invited_by?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_graph_members_graph_id_fkey"
+            columns: ["graph_id"]
+            isOneToOne: false
+            referencedRelation: "saved_graphs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_graph_revisions: {
+        Row: {
+          author_id: string | null
+          created_at: string
+          edges_count: number | null
+          graph_data: Json
+          graph_id: string
+          id: string
+          message: string | null
+          nodes_count: number | null
+          revision: number
+          user_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          created_at?: string
+          edges_count?: number | null
+          graph_data?: Json
+          graph_id: string
+          id?: string
+          message?: string | null
+          nodes_count?: number | null
+          revision: number
+          user_id: string
+        }
+        Update: {
+          author_id?: string | null
+          created_at?: string
+          edges_count?: number | null
+          graph_data?: Json
+          graph_id?: string
+          id?: string
+          message?: string | null
+          nodes_count?: number | null
+          revision?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_graph_revisions_graph_id_fkey"
+            columns: ["graph_id"]
+            isOneToOne: false
+            referencedRelation: "saved_graphs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       saved_graphs: {
         Row: {
           created_at: string
@@ -217,6 +561,8 @@ export type Database = {
           id: string
           name: string
           nodes_count: number | null
+          revision_count: number
+          revision_message: string | null
           updated_at: string
           user_id: string
         }
@@ -228,6 +574,8 @@ export type Database = {
           id?: string
           name: string
           nodes_count?: number | null
+          revision_count?: number
+          revision_message?: string | null
           updated_at?: string
           user_id: string
         }
@@ -239,6 +587,8 @@ export type Database = {
           id?: string
           name?: string
           nodes_count?: number | null
+          revision_count?: number
+          revision_message?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -274,6 +624,119 @@ export type Database = {
         }
         Relationships: []
       }
+      threat_alert_notes: {
+        Row: {
+          alert_id: string
+          author: string
+          content: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          alert_id: string
+          author: string
+          content: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          alert_id?: string
+          author?: string
+          content?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "threat_alert_notes_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "threat_alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      threat_alerts: {
+        Row: {
+          assignee: string | null
+          context: Json
+          created_at: string
+          description: string | null
+          fingerprint: string | null
+          id: string
+          incident_id: string | null
+          indicators: Json
+          last_seen_at: string
+          occurrence_count: number
+          rule_id: string | null
+          rule_name: string
+          severity: string
+          source: string
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assignee?: string | null
+          context?: Json
+          created_at?: string
+          description?: string | null
+          fingerprint?: string | null
+          id?: string
+          incident_id?: string | null
+          indicators?: Json
+          last_seen_at?: string
+          occurrence_count?: number
+          rule_id?: string | null
+          rule_name: string
+          severity?: string
+          source: string
+          status?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          assignee?: string | null
+          context?: Json
+          created_at?: string
+          description?: string | null
+          fingerprint?: string | null
+          id?: string
+          incident_id?: string | null
+          indicators?: Json
+          last_seen_at?: string
+          occurrence_count?: number
+          rule_id?: string | null
+          rule_name?: string
+          severity?: string
+          source?: string
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "threat_alerts_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "monitoring_incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "threat_alerts_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "monitoring_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       threat_intelligence: {
         Row: {
           attribution: Json | null
@@ -402,6 +865,18 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_graph_member: {
+        Args: { _email: string; _graph_id: string; _role: string }
+        Returns: {
+          created_at: string
+          email: string | null
+          graph_id: string
+          invited_by: string | null
+          role: string
+          user_id: string
+        }
+      }
+      graph_role: { Args: { _graph_id: string }; Returns: string }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -410,6 +885,52 @@ export type Database = {
         Returns: boolean
       }
       is_admin: { Args: { _user_id: string }; Returns: boolean }
+      ingest_threat_alert: {
+        Args: {
+          _context: Json
+          _dedup_window_minutes?: number
+          _description: string
+          _incident_window_minutes?: number
+          _indicators: Json
+          _rule_id: string
+          _rule_name: string
+          _severity: string
+          _source: string
+          _title: string
+          _user_id: string
+        }
+        Returns: Json
+      }
+      merge_monitoring_source_state: {
+        Args: { _rule_id: string; _state: Json }
+        Returns: undefined
+      }
+      monitoring_normalize_indicators: {
+        Args: { _indicators: Json }
+        Returns: string[]
+      }
+      monitoring_severity_rank: { Args: { _severity: string }; Returns: number }
+      record_monitoring_trigger: {
+        Args: { _count: number; _rule_id: string }
+        Returns: {
+          actions: Json
+          cooldown_minutes: number
+          created_at: string
+          description: string | null
+          enabled: boolean
+          id: string
+          last_triggered: string | null
+          name: string
+          pattern: string
+          rule_type: string
+          severity: string
+          source_state: Json
+          sources: Json
+          trigger_count: number
+          updated_at: string
+          user_id: string
+        }
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
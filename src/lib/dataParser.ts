@@ -56,7 +56,7 @@ export async function parseCSVFile(file: File): Promise<any[]> {
   });
 }
 
-function parseCSVLine(line: string): string[] {
+export function parseCSVLine(line: string): string[] {
   const result: string[] = [];
   let current = '';
   let inQuotes = false;
@@ -1,9 +1,9 @@
 // IndexedDB Database for OSINT data storage
 
-import { IntelligenceRecord, Monitor, MonitoringAlert, ImportedDataset, BreachRecord } from '@/types/osint';
+import { IntelligenceRecord, Monitor, MonitoringAlert, ImportedDataset, BreachRecord, CryptoLabel, SoftwareAsset, AssetExposure, EPSSScore } from '@/types/osint';
 
 const DB_NAME = 'osint_platform';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
 
 let db: IDBDatabase | null = null;
 
@@ -104,6 +104,31 @@ export async function initDatabase(): Promise<IDBDatabase> {
         const activityStore = database.createObjectStore('activity', { keyPath: 'id' });
         activityStore.createIndex('timestamp', 'timestamp', { unique: false });
       }
+
+      // Crypto Attribution Labels
+      if (!database.objectStoreNames.contains('crypto_labels')) {
+        const labelStore = database.createObjectStore('crypto_labels', { keyPath: 'id' });
+        labelStore.createIndex('address', 'address', { unique: false });
+        labelStore.createIndex('source', 'source', { unique: false });
+      }
+
+      // Software Asset Inventory
+      if (!database.objectStoreNames.contains('assets')) {
+        const assetStore = database.createObjectStore('assets', { keyPath: 'id' });
+        assetStore.createIndex('source', 'source', { unique: false });
+      }
+
+      // CVE Exposures of Inventoried Assets
+      if (!database.objectStoreNames.contains('asset_exposures')) {
+        const exposureStore = database.createObjectStore('asset_exposures', { keyPath: 'id' });
+        exposureStore.createIndex('assetId', 'assetId', { unique: false });
+        exposureStore.createIndex('cveId', 'cveId', { unique: false });
+      }
+
+      // EPSS Scores (daily FIRST dataset)
+      if (!database.objectStoreNames.contains('epss')) {
+        database.createObjectStore('epss', { keyPath: 'cve' });
+      }
     };
   });
 }
@@ -328,6 +353,125 @@ export async function getDatasets(): Promise<ImportedDataset[]> {
   });
 }
 
+// Crypto Labels
+export async function saveCryptoLabels(labels: CryptoLabel[]): Promise<void> {
+  const store = await getStore('crypto_labels', 'readwrite');
+  return new Promise((resolve, reject) => {
+    store.transaction.oncomplete = () => resolve();
+    store.transaction.onerror = () => reject(store.transaction.error);
+    labels.forEach((label) => store.put(label));
+  });
+}
+
+export async function getCryptoLabels(): Promise<CryptoLabel[]> {
+  const store = await getStore('crypto_labels');
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function deleteCryptoLabels(ids: string[]): Promise<void> {
+  const store = await getStore('crypto_labels', 'readwrite');
+  return new Promise((resolve, reject) => {
+    store.transaction.oncomplete = () => resolve();
+    store.transaction.onerror = () => reject(store.transaction.error);
+    ids.forEach((id) => store.delete(id));
+  });
+}
+
+// Software Assets
+export async function saveAssets(assets: SoftwareAsset[]): Promise<void> {
+  const store = await getStore('assets', 'readwrite');
+  return new Promise((resolve, reject) => {
+    store.transaction.oncomplete = () => resolve();
+    store.transaction.onerror = () => reject(store.transaction.error);
+    assets.forEach((asset) => store.put(asset));
+  });
+}
+
+export async function getAssets(): Promise<SoftwareAsset[]> {
+  const store = await getStore('assets');
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function deleteAssets(ids: string[]): Promise<void> {
+  const store = await getStore('assets', 'readwrite');
+  return new Promise((resolve, reject) => {
+    store.transaction.oncomplete = () => resolve();
+    store.transaction.onerror = () => reject(store.transaction.error);
+    ids.forEach((id) => store.delete(id));
+  });
+}
+
+// Asset Exposures
+export async function saveAssetExposures(exposures: AssetExposure[]): Promise<void> {
+  const store = await getStore('asset_exposures', 'readwrite');
+  return new Promise((resolve, reject) => {
+    store.transaction.oncomplete = () => resolve();
+    store.transaction.onerror = () => reject(store.transaction.error);
+    exposures.forEach((exposure) => store.put(exposure));
+  });
+}
+
+export async function getAssetExposures(): Promise<AssetExposure[]> {
+  const store = await getStore('asset_exposures');
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function deleteAssetExposures(ids: string[]): Promise<void> {
+  const store = await getStore('asset_exposures', 'readwrite');
+  return new Promise((resolve, reject) => {
+    store.transaction.oncomplete = () => resolve();
+    store.transaction.onerror = () => reject(store.transaction.error);
+    ids.forEach((id) => store.delete(id));
+  });
+}
+
+// EPSS Scores
+export async function replaceEPSSScores(scores: EPSSScore[]): Promise<void> {
+  const store = await getStore('epss', 'readwrite');
+  return new Promise((resolve, reject) => {
+    store.transaction.oncomplete = () => resolve();
+    store.transaction.onerror = () => reject(store.transaction.error);
+    store.clear();
+    scores.forEach((score) => store.put(score));
+  });
+}
+
+export async function getEPSSScores(cves: string[]): Promise<EPSSScore[]> {
+  const store = await getStore('epss');
+  return new Promise((resolve, reject) => {
+    const results: EPSSScore[] = [];
+    store.transaction.oncomplete = () => resolve(results);
+    store.transaction.onerror = () => reject(store.transaction.error);
+    cves.forEach((cve) => {
+      const request = store.get(cve);
+      request.onsuccess = () => {
+        if (request.result) results.push(request.result);
+      };
+    });
+  });
+}
+
+export async function getEPSSCount(): Promise<number> {
+  const store = await getStore('epss');
+  return new Promise((resolve, reject) => {
+    const request = store.count();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
 // Cache
 export async function cacheAPIResponse(key: string, data: any, ttlMinutes: number): Promise<void> {
   const store = await getStore('cache', 'readwrite');
@@ -0,0 +1,106 @@
+// Deterministic identifiers shared by the exporters and the TAXII server, so
+// the same entity gets the same id whichever path produced it.
+// Dependency-free and synchronous: api/_lib imports this file directly.
+
+// STIX 2.1 namespace for deterministic cyber-observable (SCO) ids
+export const STIX_SCO_NAMESPACE = '00abedb4-aa42-466c-9c01-fed23315a9b7';
+
+// Our namespace for the ids of other objects (indicators, malware, ...)
+const OBJECT_NAMESPACE = '3b0e6f4c-8a2d-4f1e-b5c7-9d41a6e2f058';
+
+// 32-bit FNV-1a, for short non-UUID hashes (e.g. Suricata SIDs)
+export function fnv1a(input: string, seed = 0): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function sha1(message: Uint8Array): Uint8Array {
+  const length = message.length;
+  const padded = new Uint8Array(((length + 9 + 63) >> 6) << 6);
+  padded.set(message);
+  padded[length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(length / 0x20000000));
+  view.setUint32(padded.length - 4, (length << 3) >>> 0);
+
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const w = new Uint32Array(80);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+    let [a, b, c, d, e] = h;
+    for (let i = 0; i < 80; i++) {
+      const [f, k] = i < 20 ? [(b & c) | (~b & d), 0x5a827999]
+        : i < 40 ? [b ^ c ^ d, 0x6ed9eba1]
+        : i < 60 ? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+        : [b ^ c ^ d, 0xca62c1d6];
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) >>> 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+    h[0] = (h[0] + a) >>> 0;
+    h[1] = (h[1] + b) >>> 0;
+    h[2] = (h[2] + c) >>> 0;
+    h[3] = (h[3] + d) >>> 0;
+    h[4] = (h[4] + e) >>> 0;
+  }
+
+  const digest = new Uint8Array(20);
+  const out = new DataView(digest.buffer);
+  h.forEach((word, i) => out.setUint32(i * 4, word));
+  return digest;
+}
+
+/** RFC 4122 name-based (SHA-1, version 5) UUID */
+export function uuidV5(name: string, namespace: string): string {
+  const nsBytes = (namespace.replace(/-/g, '').match(/../g) || []).map(byte => parseInt(byte, 16));
+  const nameBytes = new TextEncoder().encode(name);
+  const input = new Uint8Array(nsBytes.length + nameBytes.length);
+  input.set(nsBytes);
+  input.set(nameBytes, nsBytes.length);
+
+  const hash = sha1(input);
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = Array.from(hash.subarray(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+// JSON with sorted keys and no whitespace (RFC 8785 for the values STIX ids use)
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * STIX 2.1 deterministic SCO id: UUIDv5 in the STIX namespace over the
+ * canonical JSON of the type's ID contributing properties, so other tools
+ * derive the same id for the same observable
+ */
+export function scoId(type: string, contributing: Record<string, unknown>): string {
+  return `${type}--${uuidV5(canonicalJson(contributing), STIX_SCO_NAMESPACE)}`;
+}
+
+/**
+ * Deterministic STIX identifier, so re-exporting the same entity yields
+ * the same id and partners can deduplicate on import
+ */
+export function stixId(type: string, key: string): string {
+  return `${type}--${uuidV5(`${type}|${key}`, OBJECT_NAMESPACE)}`;
+}
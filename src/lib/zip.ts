@@ -0,0 +1,122 @@
+// Minimal ZIP container support for archive-based interchange formats (e.g. Maltego MTGX)
+// Writes uncompressed (stored) archives; reads stored and deflated entries.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = entries.map(entry => ({
+    name: encoder.encode(entry.name),
+    data: typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data,
+  }));
+
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  const offsets: number[] = [];
+  const crcs = files.map(f => crc32(f.data));
+  let pos = 0;
+
+  files.forEach((file, i) => {
+    offsets.push(pos);
+    view.setUint32(pos, 0x04034b50, true);
+    view.setUint16(pos + 4, 20, true);          // Version needed
+    view.setUint16(pos + 6, 0x0800, true);      // UTF-8 names
+    view.setUint16(pos + 8, 0, true);           // Stored
+    view.setUint32(pos + 14, crcs[i], true);
+    view.setUint32(pos + 18, file.data.length, true);
+    view.setUint32(pos + 22, file.data.length, true);
+    view.setUint16(pos + 26, file.name.length, true);
+    out.set(file.name, pos + 30);
+    out.set(file.data, pos + 30 + file.name.length);
+    pos += 30 + file.name.length + file.data.length;
+  });
+
+  const centralStart = pos;
+  files.forEach((file, i) => {
+    view.setUint32(pos, 0x02014b50, true);
+    view.setUint16(pos + 4, 20, true);          // Version made by
+    view.setUint16(pos + 6, 20, true);
+    view.setUint16(pos + 8, 0x0800, true);
+    view.setUint16(pos + 10, 0, true);
+    view.setUint32(pos + 16, crcs[i], true);
+    view.setUint32(pos + 20, file.data.length, true);
+    view.setUint32(pos + 24, file.data.length, true);
+    view.setUint16(pos + 28, file.name.length, true);
+    view.setUint32(pos + 42, offsets[i], true);
+    out.set(file.name, pos + 46);
+    pos += 46 + file.name.length;
+  });
+
+  view.setUint32(pos, 0x06054b50, true);
+  view.setUint16(pos + 8, files.length, true);
+  view.setUint16(pos + 10, files.length, true);
+  view.setUint32(pos + 12, pos - centralStart, true);
+  view.setUint32(pos + 16, centralStart, true);
+  return out;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Reads every file entry of an archive, keyed by path */
+export async function readZip(data: Uint8Array): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive');
+
+  const decoder = new TextDecoder();
+  const count = view.getUint16(eocd + 10, true);
+  const files = new Map<string, Uint8Array>();
+  let pos = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== 0x02014b50) throw new Error('Corrupt ZIP central directory');
+    const method = view.getUint16(pos + 10, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(data.subarray(pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    // Local header name/extra lengths can differ from the central directory's
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = data.subarray(start, start + compressedSize);
+    if (method === 0) files.set(name, raw);
+    else if (method === 8) files.set(name, await inflateRaw(raw));
+    else throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+  }
+
+  return files;
+}
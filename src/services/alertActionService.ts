@@ -0,0 +1,178 @@
+// ============================================================================
+// ALERT ACTION SERVICE
+// ============================================================================
+// Client side of monitoring alert delivery. Webhook, Slack, Teams, PagerDuty
+// and email deliveries run in the alert-dispatch edge function (HMAC signing,
+// retry with backoff, dead-letter log); this module triggers them and reads
+// the dead-letter log.
+// ============================================================================
+
+import { supabase } from '@/integrations/supabase/client';
+import type { AlertAction, MonitoringRule, ThreatAlert } from './continuousMonitoringService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface DeliveryResult {
+  channel: AlertAction['type'];
+  alertId?: string;
+  success: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+export interface DeliveryFailure {
+  id: string;
+  ruleId: string | null;
+  alertId: string | null;
+  channel: AlertAction['type'];
+  payload: Record<string, any>;
+  error: string | null;
+  attempts: number;
+  createdAt: string;
+}
+
+export interface ChannelField {
+  key: string;
+  label: string;
+  placeholder: string;
+  secret?: boolean;
+  optional?: boolean;
+}
+
+/* ============================================================================
+   CHANNEL DEFINITIONS
+============================================================================ */
+
+const TEMPLATE_FIELD: ChannelField = {
+  key: 'template',
+  label: 'Message template',
+  placeholder: '[{{severity}}] {{ruleName}}: {{title}}',
+  optional: true,
+};
+
+export const ALERT_CHANNELS: Record<Exclude<AlertAction['type'], 'ui' | 'log'>, { label: string; fields: ChannelField[] }> = {
+  webhook: {
+    label: 'Webhook',
+    fields: [
+      { key: 'url', label: 'URL', placeholder: 'https://example.com/hooks/phoenix' },
+      { key: 'secret', label: 'Signing secret', placeholder: 'HMAC-SHA256 secret', secret: true, optional: true },
+      TEMPLATE_FIELD,
+    ],
+  },
+  slack: {
+    label: 'Slack',
+    fields: [
+      { key: 'webhookUrl', label: 'Incoming webhook URL', placeholder: 'https://hooks.slack.com/services/...', secret: true },
+      TEMPLATE_FIELD,
+    ],
+  },
+  teams: {
+    label: 'Microsoft Teams',
+    fields: [
+      { key: 'webhookUrl', label: 'Incoming webhook URL', placeholder: 'https://outlook.office.com/webhook/...', secret: true },
+      TEMPLATE_FIELD,
+    ],
+  },
+  pagerduty: {
+    label: 'PagerDuty',
+    fields: [
+      { key: 'routingKey', label: 'Events API v2 routing key', placeholder: 'Integration key', secret: true },
+      { ...TEMPLATE_FIELD, label: 'Summary template', placeholder: '[{{severity}}] {{title}}' },
+    ],
+  },
+  email: {
+    label: 'Email',
+    fields: [
+      { key: 'to', label: 'Recipient', placeholder: 'soc@example.com' },
+      TEMPLATE_FIELD,
+    ],
+  },
+};
+
+export type DeliveryChannel = keyof typeof ALERT_CHANNELS;
+
+/* ============================================================================
+   DISPATCH
+============================================================================ */
+
+/**
+ * Deliver a rule's enabled actions for newly raised alerts
+ */
+export async function dispatchAlertActions(rule: MonitoringRule, alerts: ThreatAlert[]): Promise<DeliveryResult[]> {
+  const hasDeliverable = rule.actions.some(a => a.enabled && a.type !== 'ui');
+  if (!hasDeliverable || alerts.length === 0) return [];
+
+  const { data, error } = await supabase.functions.invoke('alert-dispatch', {
+    body: { ruleId: rule.id, alertIds: alerts.map(a => a.id) },
+  });
+
+  if (error) {
+    console.error('[AlertActions] Dispatch failed:', error);
+    return [];
+  }
+
+  const results: DeliveryResult[] = data?.results || [];
+  const failed = results.filter(r => !r.success).length;
+  if (failed > 0) {
+    console.warn(`[AlertActions] ${failed}/${results.length} deliveries failed for rule ${rule.name}`);
+  }
+  return results;
+}
+
+/**
+ * Send a test notification through a single action
+ */
+export async function sendTestAlert(action: AlertAction): Promise<DeliveryResult> {
+  const { data, error } = await supabase.functions.invoke('alert-dispatch', {
+    body: { test: true, action },
+  });
+
+  if (error) {
+    return { channel: action.type, success: false, attempts: 0, error: error.message };
+  }
+  return data?.results?.[0] || { channel: action.type, success: false, attempts: 0, error: data?.error || 'No result' };
+}
+
+/* ============================================================================
+   DEAD-LETTER LOG
+============================================================================ */
+
+export async function getDeliveryFailures(limit = 50): Promise<DeliveryFailure[]> {
+  const { data, error } = await supabase
+    .from('alert_delivery_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('[AlertActions] Failed to load dead-letter log:', error);
+    return [];
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    ruleId: row.rule_id,
+    alertId: row.alert_id,
+    channel: row.channel as DeliveryFailure['channel'],
+    payload: (row.payload || {}) as DeliveryFailure['payload'],
+    error: row.error,
+    attempts: row.attempts,
+    createdAt: row.created_at,
+  }));
+}
+
+export async function dismissDeliveryFailure(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('alert_delivery_log')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('[AlertActions] Failed to dismiss dead-letter entry:', error);
+    return false;
+  }
+  return true;
+}
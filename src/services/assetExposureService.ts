@@ -0,0 +1,670 @@
+// ============================================================================
+// ASSET EXPOSURE
+// ============================================================================
+// Relates CVEs to the software we actually run. A software inventory is
+// imported from CSV or an SBOM (CycloneDX JSON, SPDX JSON or tag-value) and
+// kept in IndexedDB. Scans look up each inventoried product in NVD by CPE,
+// check the installed version against the vulnerable version ranges, mark
+// CISA KEV entries and raise a monitoring alert for every newly exposed CVE.
+// ============================================================================
+
+import {
+  deleteAssetExposures,
+  deleteAssets,
+  getAssetExposures,
+  getAssets,
+  saveAssetExposures,
+  saveAssets,
+} from '@/lib/database';
+import { parseCSVLine } from '@/lib/dataParser';
+import type { AssetCriticality, AssetExposure, SoftwareAsset } from '@/types/osint';
+import { getCISAKEV, isKnownExploited, searchNVDByCPE, type CPEMatch, type CVEData } from './cveService';
+import { ingestAlert, type ThreatAlert } from './continuousMonitoringService';
+
+export type { AssetCriticality, AssetExposure, SoftwareAsset };
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export type InventoryFormat = 'csv' | 'cyclonedx' | 'spdx';
+
+/** Applied to entries the inventory doesn't describe itself */
+export interface InventoryDefaults {
+  source: string;             // Empty: the file name
+  host?: string;              // Empty: the SBOM's subject, if any
+  criticality: AssetCriticality;
+}
+
+export interface InventoryParseResult {
+  format: InventoryFormat;
+  assets: SoftwareAsset[];
+  skipped: number;            // Entries without a product name and version
+}
+
+export interface InventorySourceSummary {
+  source: string;
+  count: number;
+  hosts: number;
+  importedAt: string;
+}
+
+export interface ParsedCPE {
+  part: string;
+  vendor: string;
+  product: string;
+  version: string;
+}
+
+export interface ParsedPurl {
+  type: string;
+  namespace?: string;
+  name: string;
+  version?: string;
+}
+
+export interface AssetMatch {
+  asset: SoftwareAsset;
+  cve: CVEData;
+  criteria: string;
+  matchType: AssetExposure['matchType'];
+}
+
+/** Exposures grouped by CVE, the unit patch teams work in */
+export interface ExposedCVE {
+  cveId: string;
+  description: string;
+  cvss: number;
+  severity: string;
+  kev: boolean;
+  knownRansomware: boolean;
+  published: string;
+  firstSeen: string;
+  assets: { asset: SoftwareAsset; exposure: AssetExposure }[];
+}
+
+export interface ExposureScanProgress {
+  done: number;
+  total: number;
+  product: string;
+}
+
+export interface ExposureScanResult {
+  assetsScanned: number;
+  exposures: AssetExposure[];
+  newExposures: AssetExposure[];
+  alertsCreated: number;
+  failedProducts: string[];
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+export const ASSET_CRITICALITIES: AssetCriticality[] = ['low', 'medium', 'high', 'critical'];
+
+const ALERT_SOURCE = 'Asset Inventory';
+const ALERT_RULE_NAME = 'Asset Exposure';
+
+// Legal-form suffixes SBOM suppliers carry and CPE vendor names don't
+const VENDOR_SUFFIX = /_(software_foundation|foundation|corporation|corp|incorporated|inc|llc|ltd|limited|gmbh|ag|co)$/;
+
+// Supplier names that don't reduce to the CPE vendor by dropping suffixes
+const VENDOR_ALIASES: Record<string, string> = {
+  apache_group: 'apache',
+  oracle_america: 'oracle',
+  red_hat: 'redhat',
+  vmware_by_broadcom: 'vmware',
+};
+
+// Release qualifiers that name the release itself: 2.0.RELEASE, 5.4.Final, 1.0-GA
+const RELEASE_QUALIFIERS = new Set(['final', 'release', 'ga']);
+
+/* ============================================================================
+   CPE & VERSIONS
+============================================================================ */
+
+/** Lowercase, underscore-separated form CPE uses for vendor and product names */
+export function normalizeCPEName(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+export function parseCPE(cpe: string): ParsedCPE | null {
+  if (!cpe.toLowerCase().startsWith('cpe:2.3:')) return null;
+  // Colons inside a field are escaped as "\:"
+  const fields = cpe.split(/(?<!\\):/).map(field => field.replace(/\\(.)/g, '$1').toLowerCase());
+  if (fields.length < 6 || !fields[4]) return null;
+  return { part: fields[2], vendor: fields[3], product: fields[4], version: fields[5] || '*' };
+}
+
+/** Supplier or publisher name as a CPE vendor: "The Apache Software Foundation" → apache */
+export function normalizeVendor(value: string): string {
+  let vendor = normalizeCPEName(value).replace(/[.,]/g, '').replace(/^the_/, '');
+  while (VENDOR_SUFFIX.test(vendor)) vendor = vendor.replace(VENDOR_SUFFIX, '');
+  return VENDOR_ALIASES[vendor] || vendor;
+}
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/** Package URL parts: pkg:maven/org.apache.logging.log4j/log4j-core@2.14.1 */
+export function parsePurl(purl: string): ParsedPurl | null {
+  const match = purl.trim().match(/^pkg:([^/]+)\/+([^@?#]+?)(?:@([^?#]+))?(?:[?#].*)?$/i);
+  if (!match) return null;
+  const segments = match[2].split('/').filter(Boolean).map(safeDecode);
+  const name = segments.pop();
+  if (!name) return null;
+  return {
+    type: match[1].toLowerCase(),
+    ...(segments.length ? { namespace: segments.join('/') } : {}),
+    name,
+    ...(match[3] ? { version: safeDecode(match[3]) } : {}),
+  };
+}
+
+/**
+ * Vendor implied by a package namespace, where the ecosystem makes that
+ * reliable: Maven groupIds are reverse DNS (org.apache.* → apache), npm
+ * scopes and forge owners name the publisher. Elsewhere there is none.
+ */
+function namespaceVendor(type: string, namespace: string | undefined): string | undefined {
+  if (!namespace) return undefined;
+  if (type === 'maven') {
+    const labels = namespace.toLowerCase().split('.');
+    return labels.length > 1 ? labels[1] : labels[0];
+  }
+  if (type === 'npm' && namespace.startsWith('@')) return namespace.slice(1).toLowerCase();
+  if (['github', 'gitlab', 'bitbucket'].includes(type)) return namespace.split('/')[0].toLowerCase();
+  return undefined;
+}
+
+const isAnyVersion = (version: string | undefined) => !version || version === '*' || version === '-';
+
+/**
+ * Compare dotted versions numerically, segment by segment. Missing trailing
+ * segments count as 0 (1.0 = 1.0.0), release qualifiers are the release
+ * (2.0.RELEASE = 2.0) and any other trailing tag is a pre-release that sorts
+ * before it (1.0.0-rc1 < 1.0.0 < 1.0.1).
+ */
+export function compareVersions(a: string, b: string): number {
+  const tokens = (v: string) => (v.trim().toLowerCase().replace(/^v(?=\d)/, '').match(/\d+|[a-z]+/g) || [])
+    .filter(token => !RELEASE_QUALIFIERS.has(token));
+  const ta = tokens(a);
+  const tb = tokens(b);
+
+  for (let i = 0; i < Math.max(ta.length, tb.length); i++) {
+    let x = ta[i];
+    let y = tb[i];
+    if (x === undefined) {
+      if (!/^\d/.test(y)) return 1;
+      x = '0';
+    }
+    if (y === undefined) {
+      if (!/^\d/.test(x)) return -1;
+      y = '0';
+    }
+    const xNum = /^\d/.test(x);
+    const yNum = /^\d/.test(y);
+    if (xNum && yNum) {
+      const diff = parseInt(x, 10) - parseInt(y, 10);
+      if (diff !== 0) return diff < 0 ? -1 : 1;
+    } else if (xNum !== yNum) {
+      return xNum ? 1 : -1;
+    } else if (x !== y) {
+      return x < y ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+export function versionMatches(version: string, match: CPEMatch): boolean {
+  const cpeVersion = parseCPE(match.criteria)?.version;
+  if (!isAnyVersion(cpeVersion)) return compareVersions(version, cpeVersion!) === 0;
+
+  if (match.versionStartIncluding && compareVersions(version, match.versionStartIncluding) < 0) return false;
+  if (match.versionStartExcluding && compareVersions(version, match.versionStartExcluding) <= 0) return false;
+  if (match.versionEndIncluding && compareVersions(version, match.versionEndIncluding) > 0) return false;
+  if (match.versionEndExcluding && compareVersions(version, match.versionEndExcluding) >= 0) return false;
+  return true;
+}
+
+/**
+ * Vendor and product names to match on: the asset's CPE if it has one, else
+ * its names, package URL and group. Module artifacts are also tried under
+ * the project they belong to, so log4j-core in org.apache.logging.log4j
+ * matches apache:log4j.
+ */
+export function assetIdentity(asset: SoftwareAsset): { vendor?: string; products: string[] } {
+  const cpe = asset.cpe ? parseCPE(asset.cpe) : null;
+  if (cpe) return { vendor: isAnyVersion(cpe.vendor) ? undefined : cpe.vendor, products: [cpe.product] };
+
+  const purl = asset.purl ? parsePurl(asset.purl) : null;
+  const namespace = asset.group || purl?.namespace;
+  const vendor = asset.vendor
+    ? normalizeVendor(asset.vendor)
+    : namespaceVendor(purl?.type || (asset.group?.startsWith('@') ? 'npm' : 'maven'), namespace);
+
+  const products = [normalizeCPEName(asset.name)];
+  if (purl) products.push(normalizeCPEName(purl.name));
+  const project = namespace?.split(/[./]/).pop()?.toLowerCase();
+  if (project && products.some(product => product.startsWith(`${project}-`))) products.push(project);
+  return { vendor: vendor || undefined, products: Array.from(new Set(products)) };
+}
+
+/**
+ * The first vulnerable criterion of a CVE covering the asset's installed
+ * version. Without a vendor the product name alone has to match, which is
+ * reported as a weaker 'product' match.
+ */
+export function matchAssetToCVE(asset: SoftwareAsset, cve: CVEData): Omit<AssetMatch, 'asset' | 'cve'> | null {
+  if (!asset.version || !cve.configurations?.length) return null;
+  const { vendor, products } = assetIdentity(asset);
+
+  for (const match of cve.configurations) {
+    const cpe = parseCPE(match.criteria);
+    if (!cpe) continue;
+    // Inventories often prefix the vendor: "apache http_server" vs apache:http_server
+    const productMatches = products.some(product =>
+      cpe.product === product || (!!vendor && `${cpe.vendor}_${cpe.product}` === product));
+    if (!productMatches || (vendor && cpe.vendor !== vendor)) continue;
+    if (!versionMatches(asset.version, match)) continue;
+    return { criteria: match.criteria, matchType: vendor ? 'cpe' : 'product' };
+  }
+  return null;
+}
+
+export function matchCVEsToAssets(cves: CVEData[], assets: SoftwareAsset[]): AssetMatch[] {
+  const matches: AssetMatch[] = [];
+  for (const cve of cves) {
+    for (const asset of assets) {
+      const match = matchAssetToCVE(asset, cve);
+      if (match) matches.push({ asset, cve, ...match });
+    }
+  }
+  return matches;
+}
+
+/* ============================================================================
+   INVENTORY PARSING
+============================================================================ */
+
+function normalizeCriticality(value: unknown, fallback: AssetCriticality): AssetCriticality {
+  const text = String(value ?? '').trim().toLowerCase();
+  if ((ASSET_CRITICALITIES as string[]).includes(text)) return text as AssetCriticality;
+  if (/crit|tier ?0|p0/.test(text)) return 'critical';
+  if (/high|tier ?1|p1/.test(text)) return 'high';
+  if (/med|tier ?2|p2/.test(text)) return 'medium';
+  if (/low|tier ?3|p3/.test(text)) return 'low';
+  return fallback;
+}
+
+/** SPDX suppliers look like "Organization: Apache Software Foundation" */
+function cleanSupplier(value: unknown): string | undefined {
+  const text = String(value ?? '').replace(/^(Organization|Person|Tool):\s*/i, '').trim();
+  return text && text !== 'NOASSERTION' ? text : undefined;
+}
+
+function makeAsset(
+  entry: {
+    name?: unknown;
+    vendor?: unknown;
+    version?: unknown;
+    cpe?: unknown;
+    purl?: unknown;
+    group?: unknown;
+    host?: unknown;
+    owner?: unknown;
+    criticality?: unknown;
+  },
+  defaults: InventoryDefaults
+): SoftwareAsset | null {
+  const cpeText = String(entry.cpe || '').trim();
+  const cpe = cpeText ? parseCPE(cpeText) : null;
+  const purl = String(entry.purl || '').trim();
+  const parsedPurl = purl ? parsePurl(purl) : null;
+  const name = String(entry.name || '').trim() || cpe?.product || parsedPurl?.name || '';
+  let version = String(entry.version || '').trim();
+  if (!version && cpe && !isAnyVersion(cpe.version)) version = cpe.version;
+  if (!version && parsedPurl?.version) version = parsedPurl.version;
+  if (!name || !version) return null;
+
+  const vendor = String(entry.vendor || '').trim() || (cpe && !isAnyVersion(cpe.vendor) ? cpe.vendor : '');
+  const group = String(entry.group || '').trim();
+  const host = String(entry.host || '').trim() || defaults.host || '';
+  const owner = String(entry.owner || '').trim();
+  return {
+    id: [defaults.source, host, vendor, name, version].join('|').toLowerCase(),
+    name,
+    ...(vendor ? { vendor } : {}),
+    version,
+    ...(cpe ? { cpe: cpeText } : {}),
+    ...(purl ? { purl } : {}),
+    ...(group ? { group } : {}),
+    ...(host ? { host } : {}),
+    ...(owner ? { owner } : {}),
+    criticality: normalizeCriticality(entry.criticality, defaults.criticality),
+    source: defaults.source,
+    importedAt: new Date().toISOString(),
+  };
+}
+
+const pick = (record: Record<string, unknown>, keys: string[]): unknown =>
+  keys.map(key => record[key]).find(value => value !== undefined && value !== null && value !== '');
+
+// CycloneDX nests components (e.g. a jar bundling libraries)
+function flattenComponents(components: any[]): any[] {
+  return (components || []).flatMap(c => [c, ...flattenComponents(c.components)]);
+}
+
+function parseCycloneDX(data: any, defaults: InventoryDefaults): (SoftwareAsset | null)[] {
+  const subject = data.metadata?.component?.name;
+  const sbomDefaults = { ...defaults, host: defaults.host || subject };
+  return flattenComponents(data.components).map(c => makeAsset({
+    name: c.name,
+    vendor: c.publisher || c.supplier?.name || c.manufacturer?.name,
+    version: c.version,
+    cpe: c.cpe,
+    purl: c.purl,
+    group: c.group,
+    criticality: c.properties?.find((p: any) => p.name === 'criticality')?.value,
+  }, sbomDefaults));
+}
+
+function parseSPDXJson(data: any, defaults: InventoryDefaults): (SoftwareAsset | null)[] {
+  const sbomDefaults = { ...defaults, host: defaults.host || data.name };
+  return (data.packages || []).map((p: any) => {
+    const refs: any[] = p.externalRefs || [];
+    return makeAsset({
+      name: p.name,
+      vendor: cleanSupplier(p.supplier) || cleanSupplier(p.originator),
+      version: p.versionInfo,
+      cpe: refs.find(r => /cpe23/i.test(r.referenceType))?.referenceLocator,
+      purl: refs.find(r => r.referenceType === 'purl')?.referenceLocator,
+    }, sbomDefaults);
+  });
+}
+
+function parseSPDXTagValue(text: string, defaults: InventoryDefaults): (SoftwareAsset | null)[] {
+  const packages: Record<string, string>[] = [];
+  let documentName = '';
+  for (const line of text.split(/\r?\n/)) {
+    const [, tag, value] = line.match(/^(\w+):\s*(.*)$/) || [];
+    if (!tag) continue;
+    if (tag === 'DocumentName') documentName = value.trim();
+    if (tag === 'PackageName') packages.push({ name: value.trim() });
+    const current = packages[packages.length - 1];
+    if (!current) continue;
+    if (tag === 'PackageVersion') current.version = value.trim();
+    if (tag === 'PackageSupplier') current.vendor = cleanSupplier(value) || '';
+    if (tag === 'ExternalRef') {
+      const [, type, locator] = value.trim().split(/\s+/);
+      if (/cpe23/i.test(type)) current.cpe = locator;
+      if (type === 'purl') current.purl = locator;
+    }
+  }
+  const sbomDefaults = { ...defaults, host: defaults.host || documentName };
+  return packages.map(p => makeAsset(p, sbomDefaults));
+}
+
+function parseInventoryCSV(text: string, defaults: InventoryDefaults): (SoftwareAsset | null)[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  const header = parseCSVLine(lines[0] || '').map(col => col.trim().toLowerCase().replace(/\s+/g, '_'));
+  if (!header.some(col => ['name', 'product', 'software', 'package', 'cpe'].includes(col))) {
+    throw new Error('CSV needs a name/product or cpe column');
+  }
+  return lines.slice(1).map(line => {
+    const values = parseCSVLine(line);
+    const record = Object.fromEntries(header.map((col, i) => [col, values[i]?.trim()]));
+    return makeAsset({
+      name: pick(record, ['name', 'product', 'software', 'package', 'product_name']),
+      vendor: pick(record, ['vendor', 'publisher', 'manufacturer', 'supplier']),
+      version: pick(record, ['version', 'installed_version', 'product_version']),
+      cpe: pick(record, ['cpe', 'cpe23', 'cpe_2.3']),
+      purl: pick(record, ['purl']),
+      host: pick(record, ['host', 'hostname', 'asset', 'device', 'server', 'system']),
+      owner: pick(record, ['owner', 'team', 'contact']),
+      criticality: pick(record, ['criticality', 'tier', 'priority']),
+    }, defaults);
+  });
+}
+
+/**
+ * Parse a software inventory: CycloneDX JSON, SPDX JSON or tag-value, or a CSV
+ * with a name/product (or cpe) column and a version column.
+ */
+export function parseInventory(text: string, fileName: string, inventoryDefaults: InventoryDefaults): InventoryParseResult {
+  // Without an explicit source, an inventory is named after its file
+  const defaults = { ...inventoryDefaults, source: inventoryDefaults.source || fileName.replace(/\.[^.]+$/, '') };
+
+  const collect = (format: InventoryFormat, entries: (SoftwareAsset | null)[]): InventoryParseResult => {
+    const assets = entries.filter((a): a is SoftwareAsset => !!a);
+    const unique = Array.from(new Map(assets.map(a => [a.id, a])).values());
+    return { format, assets: unique, skipped: entries.length - assets.length };
+  };
+
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed)) {
+    const data = JSON.parse(trimmed);
+    if (data?.bomFormat === 'CycloneDX' || Array.isArray(data?.components)) {
+      return collect('cyclonedx', parseCycloneDX(data, defaults));
+    }
+    if (data?.spdxVersion || Array.isArray(data?.packages)) {
+      return collect('spdx', parseSPDXJson(data, defaults));
+    }
+    throw new Error('JSON is neither a CycloneDX nor an SPDX document');
+  }
+  if (/^SPDXVersion:/m.test(trimmed)) {
+    return collect('spdx', parseSPDXTagValue(trimmed, defaults));
+  }
+  return collect('csv', parseInventoryCSV(trimmed, defaults));
+}
+
+/* ============================================================================
+   INVENTORY STORE
+============================================================================ */
+
+export async function importInventory(assets: SoftwareAsset[]): Promise<number> {
+  await saveAssets(assets);
+  console.log(`[AssetExposure] Imported ${assets.length} assets`);
+  return assets.length;
+}
+
+export async function getInventory(): Promise<SoftwareAsset[]> {
+  const assets = await getAssets();
+  return assets.sort((a, b) => a.name.localeCompare(b.name) || compareVersions(a.version, b.version));
+}
+
+export function summarizeInventory(assets: SoftwareAsset[]): InventorySourceSummary[] {
+  const bySource = new Map<string, SoftwareAsset[]>();
+  assets.forEach(asset => bySource.set(asset.source, [...(bySource.get(asset.source) || []), asset]));
+  return Array.from(bySource.entries()).map(([source, list]) => ({
+    source,
+    count: list.length,
+    hosts: new Set(list.map(a => a.host).filter(Boolean)).size,
+    importedAt: list.reduce((latest, a) => (a.importedAt > latest ? a.importedAt : latest), ''),
+  })).sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+}
+
+/** Remove an inventory source along with the exposures found for its assets */
+export async function deleteInventorySource(source: string): Promise<number> {
+  const ids = new Set((await getAssets()).filter(a => a.source === source).map(a => a.id));
+  const exposures = (await getAssetExposures()).filter(e => ids.has(e.assetId));
+  await deleteAssets(Array.from(ids));
+  await deleteAssetExposures(exposures.map(e => e.id));
+  return ids.size;
+}
+
+export async function getExposures(): Promise<AssetExposure[]> {
+  return getAssetExposures();
+}
+
+/** Group exposures by CVE, KEV first, then by CVSS */
+export function groupExposuresByCVE(exposures: AssetExposure[], assets: SoftwareAsset[]): ExposedCVE[] {
+  const assetById = new Map(assets.map(a => [a.id, a]));
+  const byCVE = new Map<string, ExposedCVE>();
+
+  for (const exposure of exposures) {
+    const asset = assetById.get(exposure.assetId);
+    if (!asset) continue;
+    const group = byCVE.get(exposure.cveId) || {
+      cveId: exposure.cveId,
+      description: exposure.description,
+      cvss: exposure.cvss,
+      severity: exposure.severity,
+      kev: exposure.kev,
+      knownRansomware: exposure.knownRansomware,
+      published: exposure.published,
+      firstSeen: exposure.firstSeen,
+      assets: [],
+    };
+    if (exposure.firstSeen < group.firstSeen) group.firstSeen = exposure.firstSeen;
+    group.assets.push({ asset, exposure });
+    byCVE.set(exposure.cveId, group);
+  }
+
+  return Array.from(byCVE.values()).sort((a, b) =>
+    Number(b.kev) - Number(a.kev) || b.cvss - a.cvss || b.assets.length - a.assets.length
+  );
+}
+
+/* ============================================================================
+   SCANNING
+============================================================================ */
+
+function alertSeverity(exposure: AssetExposure): ThreatAlert['severity'] {
+  if (exposure.kev || exposure.cvss >= 9) return 'critical';
+  if (exposure.cvss >= 7) return 'high';
+  if (exposure.cvss >= 4) return 'medium';
+  return 'low';
+}
+
+const assetLabel = (asset: SoftwareAsset) =>
+  `${asset.name} ${asset.version}${asset.host ? ` on ${asset.host}` : ''}`;
+
+/** One alert per newly exposed CVE, listing the affected assets */
+async function alertNewExposures(exposures: AssetExposure[], assets: SoftwareAsset[]): Promise<number> {
+  let created = 0;
+  for (const group of groupExposuresByCVE(exposures, assets)) {
+    const first = group.assets[0].exposure;
+    const result = await ingestAlert({
+      ruleId: '',
+      ruleName: ALERT_RULE_NAME,
+      timestamp: new Date().toISOString(),
+      severity: alertSeverity(first),
+      title: `${group.cveId} affects ${group.assets.length} inventoried asset${group.assets.length === 1 ? '' : 's'}`,
+      description: [
+        `CVSS ${group.cvss.toFixed(1)}${group.kev ? ', in CISA KEV' : ''}${group.knownRansomware ? ', used in ransomware campaigns' : ''}.`,
+        `Affected: ${group.assets.map(a => assetLabel(a.asset)).join('; ')}.`,
+        group.description,
+      ].join(' '),
+      source: ALERT_SOURCE,
+      indicators: [group.cveId, ...group.assets.map(a => a.asset.cpe || `${a.asset.name}@${a.asset.version}`)],
+      context: {
+        cveId: group.cveId,
+        cvss: group.cvss,
+        kev: group.kev,
+        assets: group.assets.map(a => ({
+          id: a.asset.id,
+          name: a.asset.name,
+          version: a.asset.version,
+          host: a.asset.host,
+          criteria: a.exposure.matchedCriteria,
+        })),
+      },
+    });
+    if (result?.outcome === 'created') created++;
+  }
+  return created;
+}
+
+/**
+ * Check every inventoried asset against NVD. Each distinct vendor/product is
+ * looked up once (rate limited, cached for hours), exposures that no longer
+ * match are dropped, and new ones raise monitoring alerts.
+ */
+export async function scanAssetExposure(
+  onProgress?: (progress: ExposureScanProgress) => void
+): Promise<ExposureScanResult> {
+  const assets = await getAssets();
+  const previous = new Map((await getAssetExposures()).map(e => [e.id, e]));
+  await getCISAKEV(); // Warm the KEV lookup once
+
+  const groups = new Map<string, { vendor?: string; products: string[]; assets: SoftwareAsset[] }>();
+  for (const asset of assets) {
+    const identity = assetIdentity(asset);
+    const key = `${identity.vendor || '*'}:${identity.products.join('|')}`;
+    const group = groups.get(key) || { ...identity, assets: [] };
+    group.assets.push(asset);
+    groups.set(key, group);
+  }
+
+  const now = new Date().toISOString();
+  const exposures: AssetExposure[] = [];
+  const failedProducts: string[] = [];
+  const keep = new Set<string>();
+  let done = 0;
+
+  for (const [key, group] of groups) {
+    onProgress?.({ done, total: groups.size, product: key });
+    const cves = new Map<string, CVEData>();
+    try {
+      for (const product of group.products) {
+        (await searchNVDByCPE(group.vendor || '*', product)).forEach(cve => cves.set(cve.id, cve));
+      }
+    } catch (error) {
+      console.warn(`[AssetExposure] NVD lookup failed for ${key}:`, error);
+      failedProducts.push(key);
+      // Keep what earlier scans found for these assets rather than clearing it
+      const ids = new Set(group.assets.map(a => a.id));
+      previous.forEach(e => {
+        if (ids.has(e.assetId)) keep.add(e.id);
+      });
+      done++;
+      continue;
+    }
+
+    for (const match of matchCVEsToAssets(Array.from(cves.values()), group.assets)) {
+      const id = `${match.asset.id}|${match.cve.id}`;
+      const kev = await isKnownExploited(match.cve.id);
+      exposures.push({
+        id,
+        assetId: match.asset.id,
+        cveId: match.cve.id,
+        description: match.cve.description,
+        cvss: match.cve.cvss.score,
+        severity: match.cve.cvss.severity,
+        kev: !!kev,
+        knownRansomware: kev?.knownRansomwareCampaignUse === 'Known',
+        matchedCriteria: match.criteria,
+        matchType: match.matchType,
+        published: match.cve.published,
+        firstSeen: previous.get(id)?.firstSeen || now,
+        lastSeen: now,
+      });
+    }
+    done++;
+  }
+  onProgress?.({ done, total: groups.size, product: '' });
+
+  const current = new Set(exposures.map(e => e.id));
+  const stale = Array.from(previous.keys()).filter(id => !current.has(id) && !keep.has(id));
+  await saveAssetExposures(exposures);
+  await deleteAssetExposures(stale);
+
+  const newExposures = exposures.filter(e => !previous.has(e.id));
+  const alertsCreated = newExposures.length > 0 ? await alertNewExposures(newExposures, assets) : 0;
+
+  console.log(`[AssetExposure] ${exposures.length} exposures (${newExposures.length} new, ${stale.length} resolved) across ${assets.length} assets`);
+  return {
+    assetsScanned: assets.length,
+    exposures: [...exposures, ...Array.from(keep).map(id => previous.get(id)!)],
+    newExposures,
+    alertsCreated,
+    failedProducts,
+  };
+}
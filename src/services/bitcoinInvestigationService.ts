@@ -9,9 +9,19 @@
 // - Risk scoring and threat intelligence
 // - Exchange identification
 // - Mixer/Tumbler detection
+// - Chain-agnostic result model shared with the Ethereum, TRON and Litecoin
+//   adapters in cryptoChainService
 // ============================================================================
 
 import { cacheAPIResponse, getCachedData } from '@/lib/database';
+import {
+  CATEGORY_CONFIG,
+  getAddressRisk,
+  getLabelsForAddress,
+  hasLabelCategory,
+  loadCryptoLabels,
+  type CryptoLabel,
+} from './cryptoLabelService';
 
 const CACHE_TTL = 15; // minutes
 
@@ -19,11 +29,24 @@ const CACHE_TTL = 15; // minutes
 // TYPES
 // ============================================================================
 
+export type CryptoChain = 'bitcoin' | 'litecoin' | 'ethereum' | 'tron';
+
+export interface TokenBalance {
+  symbol: string;
+  contract: string;
+  balance: number;
+  balanceUSD?: number;        // Only for stablecoins, whose price is known without a lookup
+}
+
+/** Address summary for any supported chain; amounts are in the chain's native asset */
 export interface BitcoinAddress {
   address: string;
-  format: 'legacy' | 'segwit' | 'bech32';
+  chain: CryptoChain;
+  asset: string;              // Native asset symbol, e.g. BTC, ETH, TRX
+  format: 'legacy' | 'segwit' | 'bech32' | 'account';
   balance: number;
-  balanceUSD: number;
+  balanceUSD: number;         // Native balance plus priced token balances
+  tokenBalances?: TokenBalance[];
   totalReceived: number;
   totalSent: number;
   txCount: number;
@@ -73,7 +96,7 @@ export interface AddressCluster {
   addresses: string[];
   totalBalance: number;
   totalTxCount: number;
-  entityType: 'exchange' | 'mixer' | 'ransomware' | 'darknet' | 'gambling' | 'unknown';
+  entityType: 'exchange' | 'mixer' | 'ransomware' | 'darknet' | 'gambling' | 'sanctioned' | 'scam' | 'unknown';
   entityName?: string;
   riskLevel: 'critical' | 'high' | 'medium' | 'low';
   firstActivity: string;
@@ -84,16 +107,44 @@ export interface TransactionFlow {
   sourceAddress: string;
   targetAddress: string;
   amount: number;
+  asset: string;              // BTC, ETH, USDT...
+  tokenContract?: string;     // Set for token transfers (ERC-20, TRC-20)
   txid: string;
   timestamp: string;
   hops: number;
   pathRisk: number;
 }
 
+export interface AddressClassification {
+  entityType: AddressCluster['entityType'];
+  entityName?: string;
+  risk: number;
+  riskLevel: AddressCluster['riskLevel'];
+}
+
+export interface ChangeOutput {
+  index: number;
+  address: string;
+  reason: 'address_reuse' | 'script_type' | 'round_amount';
+}
+
+export interface Counterparty {
+  address: string;
+  direction: 'inbound' | 'outbound' | 'both';
+  transfers: number;
+  volume: Record<string, { inbound: number; outbound: number }>;   // Keyed by asset
+  firstSeen: string;
+  lastSeen: string;
+  labels: string[];
+  risk: number;
+}
+
 export interface CryptoInvestigationResult {
+  chain: CryptoChain;
   address: BitcoinAddress;
-  recentTransactions: BitcoinTransaction[];
+  recentTransactions: BitcoinTransaction[];   // UTXO chains only; account chains report flows
   connectedAddresses: string[];
+  counterparties: Counterparty[];
   cluster?: AddressCluster;
   flows: TransactionFlow[];
   riskAssessment: {
@@ -112,39 +163,6 @@ export interface CryptoInvestigationResult {
   };
 }
 
-// ============================================================================
-// KNOWN ENTITIES DATABASE
-// ============================================================================
-
-const KNOWN_EXCHANGES: Record<string, string> = {
-  'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh': 'Binance',
-  '1NDyJtNTjmwk5xPNhjgAMu4HDHigtobu1s': 'Binance',
-  '3M219KR5vEneNb47ewrPfWyb5jQ2DjxRP6': 'Binance',
-  'bc1qgdjqv0av3q56jvd82tkdjpy7gdp9ut8tlqmgrpmv24sq90ecnvqqjwvw97': 'Bitfinex',
-  '1Kr6QSydW9bFQG1mXiPNNu6WpJGmUa9i1g': 'Bitfinex',
-  '3JZq4atUahhuA9rLhXLMhhTo133J9rF97j': 'Coinbase',
-  'bc1q4c8n5t00jmj8temxdgcc3t32nkg2wjwz24lywv': 'Coinbase',
-  '1P5ZEDWTKTFGxQjZphgWPQUpe554WKDfHQ': 'Coinbase',
-  '16ftSEQ4ctQFDtVZiUBusQUjRrGhM3JYwe': 'Kraken',
-  '3FHNBLobJnbCTFTVakh5TXmEneyf5PT61B': 'Kraken',
-  '1FH6ehAd5ZFXCM1cLGzHxK1s4dGdq1JusM': 'Huobi',
-};
-
-const KNOWN_RANSOMWARE: Set<string> = new Set([
-  '1Mz7153HMuxXTuR2R1t78mGSdzaAtNbBWX', // WannaCry
-  '13AM4VW2dhxYgXeQepoHkHSQuy6NgaEb94', // WannaCry
-  '12t9YDPgwueZ9NyMgw519p7AA8isjr6SMw', // WannaCry
-  'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq', // Example ransomware
-]);
-
-const KNOWN_DARKNET: Set<string> = new Set([
-  '1HQ3Go3ggs8pFnXuHVHRytPCq5fGG8Hbhx', // Silk Road
-]);
-
-const KNOWN_MIXERS: Set<string> = new Set([
-  'bc1qns9f7yfx3ry9lj6yzrkwlmjr8gfpmkhpnew08m', // Example mixer
-]);
-
 // ============================================================================
 // API FUNCTIONS
 // ============================================================================
@@ -159,6 +177,7 @@ export async function getAddressInfo(address: string): Promise<BitcoinAddress |
 
   try {
     console.log(`[Bitcoin] Fetching address info for ${address}`);
+    await loadCryptoLabels();
     
     // Use blockchain.info API (free, no auth required)
     const response = await fetch(
@@ -187,10 +206,13 @@ export async function getAddressInfo(address: string): Promise<BitcoinAddress |
                    address.startsWith('3') ? 'segwit' : 'legacy';
     
     // Check if known exchange
-    const exchangeName = KNOWN_EXCHANGES[address];
+    const exchange = getLabelsForAddress(address).find(l => l.category === 'exchange');
+    const exchangeName = exchange ? exchange.entityName || 'Unknown exchange' : undefined;
     
     const addressInfo: BitcoinAddress = {
       address,
+      chain: 'bitcoin',
+      asset: 'BTC',
       format,
       balance: data.final_balance / 100000000, // Convert satoshis to BTC
       balanceUSD: (data.final_balance / 100000000) * btcPrice,
@@ -203,7 +225,7 @@ export async function getAddressInfo(address: string): Promise<BitcoinAddress |
       lastSeen: data.txs?.length > 0 
         ? new Date(data.txs[0].time * 1000).toISOString()
         : 'Unknown',
-      isExchange: !!exchangeName,
+      isExchange: !!exchange,
       exchangeName,
       riskScore,
       riskFactors,
@@ -228,6 +250,7 @@ export async function getTransaction(txid: string): Promise<BitcoinTransaction |
 
   try {
     console.log(`[Bitcoin] Fetching transaction: ${txid}`);
+    await loadCryptoLabels();
     
     const response = await fetch(
       `https://blockchain.info/rawtx/${txid}`,
@@ -289,6 +312,7 @@ export async function getAddressTransactions(
   limit: number = 10
 ): Promise<BitcoinTransaction[]> {
   try {
+    await loadCryptoLabels();
     const response = await fetch(
       `https://blockchain.info/rawaddr/${address}?limit=${limit}`,
       { headers: { 'Accept': 'application/json' } }
@@ -358,102 +382,344 @@ export async function investigateAddress(address: string): Promise<CryptoInvesti
       return null;
     }
 
-    // Extract connected addresses from transactions
-    const connectedAddresses = new Set<string>();
-    const flows: TransactionFlow[] = [];
-
-    for (const tx of transactions) {
-      // Input addresses (senders)
-      for (const input of tx.inputs) {
-        if (input.address !== address && input.address !== 'Unknown') {
-          connectedAddresses.add(input.address);
-          flows.push({
-            sourceAddress: input.address,
-            targetAddress: address,
-            amount: input.value,
-            txid: tx.txid,
-            timestamp: tx.timestamp,
-            hops: 1,
-            pathRisk: calculateAddressRisk(input.address),
-          });
-        }
+    return assembleInvestigation(addressInfo, transactions, flowsFromTransactions(address, transactions, 'BTC'));
+  } catch (error) {
+    console.error('[Bitcoin] Investigation error:', error);
+    return null;
+  }
+}
+
+// ============================================================================
+// SHARED INVESTIGATION MODEL
+// ============================================================================
+
+/**
+ * One-hop flows between an address and every other party in its UTXO
+ * transactions: inputs flow in, outputs flow out
+ */
+export function flowsFromTransactions(
+  address: string,
+  transactions: BitcoinTransaction[],
+  asset: string
+): TransactionFlow[] {
+  const flows: TransactionFlow[] = [];
+
+  for (const tx of transactions) {
+    // Input addresses (senders)
+    for (const input of tx.inputs) {
+      if (input.address !== address && input.address !== 'Unknown') {
+        flows.push({
+          sourceAddress: input.address,
+          targetAddress: address,
+          amount: input.value,
+          asset,
+          txid: tx.txid,
+          timestamp: tx.timestamp,
+          hops: 1,
+          pathRisk: getAddressRisk(input.address),
+        });
       }
+    }
 
-      // Output addresses (receivers)
-      for (const output of tx.outputs) {
-        if (output.address !== address && output.address !== 'Unknown') {
-          connectedAddresses.add(output.address);
-          flows.push({
-            sourceAddress: address,
-            targetAddress: output.address,
-            amount: output.value,
-            txid: tx.txid,
-            timestamp: tx.timestamp,
-            hops: 1,
-            pathRisk: calculateAddressRisk(output.address),
-          });
-        }
+    // Output addresses (receivers)
+    for (const output of tx.outputs) {
+      if (output.address !== address && output.address !== 'Unknown') {
+        flows.push({
+          sourceAddress: address,
+          targetAddress: output.address,
+          amount: output.value,
+          asset,
+          txid: tx.txid,
+          timestamp: tx.timestamp,
+          hops: 1,
+          pathRisk: getAddressRisk(output.address),
+        });
       }
     }
+  }
 
-    // Check for threat connections
-    const relatedThreats = {
-      ransomwareConnection: KNOWN_RANSOMWARE.has(address) || 
-        flows.some(f => KNOWN_RANSOMWARE.has(f.sourceAddress) || KNOWN_RANSOMWARE.has(f.targetAddress)),
-      darknetConnection: KNOWN_DARKNET.has(address) ||
-        flows.some(f => KNOWN_DARKNET.has(f.sourceAddress) || KNOWN_DARKNET.has(f.targetAddress)),
-      sanctionedEntity: false, // Would need OFAC list
-      mixerUsage: KNOWN_MIXERS.has(address) ||
-        flows.some(f => KNOWN_MIXERS.has(f.sourceAddress) || KNOWN_MIXERS.has(f.targetAddress)),
-      knownScam: false, // Would need scam database
-      details: [] as string[],
-    };
+  return flows;
+}
 
-    if (relatedThreats.ransomwareConnection) {
-      relatedThreats.details.push('Connected to known ransomware address');
-    }
-    if (relatedThreats.darknetConnection) {
-      relatedThreats.details.push('Connected to known darknet marketplace');
-    }
-    if (relatedThreats.mixerUsage) {
-      relatedThreats.details.push('Mixer/tumbler usage detected');
+/** Per-party totals for the flows touching an address, riskiest first */
+export function summarizeCounterparties(address: string, flows: TransactionFlow[]): Counterparty[] {
+  const parties = new Map<string, Counterparty>();
+
+  for (const flow of flows) {
+    const inbound = flow.targetAddress === address;
+    const other = inbound ? flow.sourceAddress : flow.targetAddress;
+    if (other === address) continue;
+
+    let party = parties.get(other);
+    if (!party) {
+      party = {
+        address: other,
+        direction: inbound ? 'inbound' : 'outbound',
+        transfers: 0,
+        volume: {},
+        firstSeen: flow.timestamp,
+        lastSeen: flow.timestamp,
+        labels: getAddressLabels(other),
+        risk: getAddressRisk(other),
+      };
+      parties.set(other, party);
     }
 
-    // Calculate overall risk assessment
-    const riskLevel = addressInfo.riskScore >= 80 ? 'critical' :
-                      addressInfo.riskScore >= 60 ? 'high' :
-                      addressInfo.riskScore >= 40 ? 'medium' : 'low';
+    if (party.direction !== (inbound ? 'inbound' : 'outbound')) party.direction = 'both';
+    party.transfers++;
+    const volume = party.volume[flow.asset] || { inbound: 0, outbound: 0 };
+    volume[inbound ? 'inbound' : 'outbound'] += flow.amount;
+    party.volume[flow.asset] = volume;
+    if (flow.timestamp < party.firstSeen) party.firstSeen = flow.timestamp;
+    if (flow.timestamp > party.lastSeen) party.lastSeen = flow.timestamp;
+  }
+
+  return Array.from(parties.values()).sort((a, b) => b.risk - a.risk || b.transfers - a.transfers);
+}
 
-    const recommendations: string[] = [];
-    if (riskLevel === 'critical' || riskLevel === 'high') {
-      recommendations.push('Flag this address for immediate review');
-      recommendations.push('Do not process transactions from this address');
-      recommendations.push('Report to relevant authorities if linked to criminal activity');
-    }
-    if (relatedThreats.mixerUsage) {
-      recommendations.push('Enhanced due diligence required - mixer usage detected');
-    }
-    if (addressInfo.txCount > 1000) {
-      recommendations.push('High-volume address - may be service or exchange');
+/**
+ * Threat connections, risk level and recommendations for an address on any
+ * chain. UTXO chains pass their transactions so co-spent addresses can be
+ * clustered; account chains pass flows only.
+ */
+export function assembleInvestigation(
+  addressInfo: BitcoinAddress,
+  transactions: BitcoinTransaction[],
+  flows: TransactionFlow[]
+): CryptoInvestigationResult {
+  const address = addressInfo.address;
+  const connectedAddresses = new Set<string>();
+  flows.forEach(f => connectedAddresses.add(f.sourceAddress === address ? f.targetAddress : f.sourceAddress));
+
+  // Addresses co-spent with this one (or receiving its change) in the fetched history
+  const cluster = clusterAddresses(transactions).find(c => c.addresses.includes(address) && c.addresses.length > 1);
+
+  // Check for threat connections
+  const touches = (category: CryptoLabel['category']) => hasLabelCategory(address, category) ||
+    flows.some(f => hasLabelCategory(f.sourceAddress, category) || hasLabelCategory(f.targetAddress, category));
+  const relatedThreats = {
+    ransomwareConnection: touches('ransomware'),
+    darknetConnection: touches('darknet'),
+    sanctionedEntity: hasLabelCategory(address, 'sanctioned'),
+    mixerUsage: touches('mixer'),
+    knownScam: hasLabelCategory(address, 'scam'),
+    details: [] as string[],
+  };
+
+  if (relatedThreats.ransomwareConnection) {
+    relatedThreats.details.push('Connected to known ransomware address');
+  }
+  if (relatedThreats.darknetConnection) {
+    relatedThreats.details.push('Connected to known darknet marketplace');
+  }
+  if (relatedThreats.mixerUsage) {
+    relatedThreats.details.push('Mixer/tumbler usage detected');
+  }
+  if (relatedThreats.sanctionedEntity) {
+    relatedThreats.details.push('Address is on a sanctions list');
+  }
+  if (touches('sanctioned') && !relatedThreats.sanctionedEntity) {
+    relatedThreats.details.push('Transacted with a sanctioned address');
+  }
+  if (relatedThreats.knownScam) {
+    relatedThreats.details.push('Address is labeled as a scam');
+  }
+  if (touches('scam') && !relatedThreats.knownScam) {
+    relatedThreats.details.push('Transacted with a labeled scam address');
+  }
+
+  // Calculate overall risk assessment
+  const riskLevel = addressInfo.riskScore >= 80 ? 'critical' :
+                    addressInfo.riskScore >= 60 ? 'high' :
+                    addressInfo.riskScore >= 40 ? 'medium' : 'low';
+
+  const recommendations: string[] = [];
+  if (riskLevel === 'critical' || riskLevel === 'high') {
+    recommendations.push('Flag this address for immediate review');
+    recommendations.push('Do not process transactions from this address');
+    recommendations.push('Report to relevant authorities if linked to criminal activity');
+  }
+  if (relatedThreats.mixerUsage) {
+    recommendations.push('Enhanced due diligence required - mixer usage detected');
+  }
+  if (touches('sanctioned')) {
+    recommendations.push('Sanctions exposure - escalate to compliance before any further processing');
+  }
+  if (addressInfo.txCount > 1000) {
+    recommendations.push('High-volume address - may be service or exchange');
+  }
+
+  return {
+    chain: addressInfo.chain,
+    address: addressInfo,
+    recentTransactions: transactions,
+    connectedAddresses: Array.from(connectedAddresses),
+    counterparties: summarizeCounterparties(address, flows),
+    cluster,
+    flows,
+    riskAssessment: {
+      score: addressInfo.riskScore,
+      level: riskLevel,
+      factors: addressInfo.riskFactors,
+      recommendations,
+    },
+    relatedThreats,
+  };
+}
+
+// ============================================================================
+// CLUSTERING HEURISTICS
+// ============================================================================
+
+const SATS_PER_BTC = 100000000;
+// Payments tend to be round amounts; change almost never is
+const ROUND_SATS = 100000;
+
+function toSats(value: number): number {
+  return Math.round(value * SATS_PER_BTC);
+}
+
+function scriptType(address: string): string {
+  if (address.startsWith('bc1q')) return address.length > 50 ? 'p2wsh' : 'p2wpkh';
+  if (address.startsWith('bc1p')) return 'p2tr';
+  if (address.startsWith('3')) return 'p2sh';
+  if (address.startsWith('1')) return 'p2pkh';
+  return 'unknown';
+}
+
+function knownAddresses(list: { address: string }[]): string[] {
+  return list.map(item => item.address).filter(a => a && a !== 'Unknown');
+}
+
+/**
+ * Strongest attribution label for an address, from the label store
+ */
+export function classifyAddress(address: string): AddressClassification {
+  const risk = getAddressRisk(address);
+  const riskLevel = risk >= 90 ? 'critical' : risk >= 80 ? 'high' : risk >= 30 ? 'medium' : 'low';
+  const [label] = getLabelsForAddress(address);
+  if (!label) return { entityType: 'unknown', risk, riskLevel };
+  return {
+    entityType: label.category === 'other' ? 'unknown' : label.category,
+    entityName: label.entityName,
+    risk,
+    riskLevel,
+  };
+}
+
+/**
+ * Equal-value outputs shared by many inputs: a CoinJoin breaks the
+ * common-input-ownership assumption, so its inputs must not be merged
+ */
+export function isLikelyCoinJoin(tx: BitcoinTransaction): boolean {
+  if (tx.inputs.length < 3 || tx.outputs.length < 3) return false;
+  const counts = new Map<number, number>();
+  tx.outputs.forEach(o => counts.set(toSats(o.value), (counts.get(toSats(o.value)) || 0) + 1));
+  return Math.max(...counts.values()) >= 3;
+}
+
+/**
+ * Guess which output returns change to the sender. Returns null unless
+ * exactly one output stands out, since a wrong guess merges two owners.
+ */
+export function detectChangeOutput(tx: BitcoinTransaction): ChangeOutput | null {
+  if (tx.isCoinbase || tx.outputs.length < 2 || isLikelyCoinJoin(tx)) return null;
+  const inputAddresses = new Set(knownAddresses(tx.inputs));
+  if (inputAddresses.size === 0) return null;
+
+  const single = (reason: ChangeOutput['reason'], matches: TxOutput[]): ChangeOutput | null =>
+    matches.length === 1 && matches[0].address !== 'Unknown'
+      ? { index: matches[0].index, address: matches[0].address, reason }
+      : null;
+
+  // Sender reused one of its own input addresses
+  const reused = tx.outputs.filter(o => inputAddresses.has(o.address));
+  if (reused.length > 0) return single('address_reuse', reused);
+
+  // Wallets send change to their own script type
+  const inputTypes = new Set([...inputAddresses].map(scriptType));
+  if (inputTypes.size === 1) {
+    const [type] = inputTypes;
+    const sameType = tx.outputs.filter(o => scriptType(o.address) === type);
+    if (sameType.length < tx.outputs.length) {
+      const change = single('script_type', sameType);
+      if (change) return change;
     }
+  }
+
+  return single('round_amount', tx.outputs.filter(o => toSats(o.value) % ROUND_SATS !== 0));
+}
+
+/**
+ * Build address clusters from observed transactions using the
+ * common-input-ownership heuristic (all inputs of a transaction share an
+ * owner) and, optionally, detected change outputs. Balances and counts only
+ * cover the transactions passed in.
+ */
+export function clusterAddresses(
+  transactions: BitcoinTransaction[],
+  options: { useChange?: boolean } = {}
+): AddressCluster[] {
+  const { useChange = true } = options;
+  const parent = new Map<string, string>();
+
+  const find = (address: string): string => {
+    if (!parent.has(address)) parent.set(address, address);
+    let root = address;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(address, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const [ra, rb] = [find(a), find(b)];
+    if (ra !== rb) parent.set(rb, ra);
+  };
+
+  for (const tx of transactions) {
+    if (tx.isCoinbase || isLikelyCoinJoin(tx)) continue;
+    const inputs = knownAddresses(tx.inputs);
+    if (inputs.length === 0) continue;
+    inputs.forEach(address => union(inputs[0], address));
+    const change = useChange ? detectChangeOutput(tx) : null;
+    if (change) union(inputs[0], change.address);
+  }
+
+  const members = new Map<string, Set<string>>();
+  parent.forEach((_, address) => {
+    const root = find(address);
+    if (!members.has(root)) members.set(root, new Set());
+    members.get(root)!.add(address);
+  });
+
+  const typeOrder: AddressCluster['entityType'][] = [
+    'ransomware', 'sanctioned', 'darknet', 'mixer', 'scam', 'gambling', 'exchange', 'unknown',
+  ];
+
+  return Array.from(members.values()).map(set => {
+    const addresses = Array.from(set).sort();
+    const touching = transactions.filter(tx =>
+      tx.inputs.some(i => set.has(i.address)) || tx.outputs.some(o => set.has(o.address))
+    );
+    const times = touching.map(tx => tx.timestamp).sort();
+    const labels = addresses.map(classifyAddress);
+    const label = labels.sort((a, b) => typeOrder.indexOf(a.entityType) - typeOrder.indexOf(b.entityType))[0];
+    const riskiest = labels.reduce((max, l) => (l.risk > max.risk ? l : max));
 
     return {
-      address: addressInfo,
-      recentTransactions: transactions,
-      connectedAddresses: Array.from(connectedAddresses),
-      flows,
-      riskAssessment: {
-        score: addressInfo.riskScore,
-        level: riskLevel,
-        factors: addressInfo.riskFactors,
-        recommendations,
-      },
-      relatedThreats,
+      clusterId: `cluster-${addresses[0]}`,
+      addresses,
+      totalBalance: touching
+        .flatMap(tx => tx.outputs)
+        .filter(o => set.has(o.address) && !o.spent)
+        .reduce((sum, o) => sum + o.value, 0),
+      totalTxCount: touching.length,
+      entityType: label.entityType,
+      entityName: label.entityName,
+      riskLevel: riskiest.riskLevel,
+      firstActivity: times[0] || 'Unknown',
+      lastActivity: times[times.length - 1] || 'Unknown',
     };
-  } catch (error) {
-    console.error('[Bitcoin] Investigation error:', error);
-    return null;
-  }
+  });
 }
 
 // ============================================================================
@@ -482,24 +748,30 @@ async function getBlockHeight(): Promise<number> {
   }
 }
 
-function calculateRiskScore(address: string, data: any): { riskScore: number; riskFactors: string[] } {
+/** Risk contributed by attribution labels, weighted by how confident their source is */
+export function scoreLabels(address: string): { score: number; factors: string[] } {
   const factors: string[] = [];
   let score = 0;
 
-  // Check known bad addresses
-  if (KNOWN_RANSOMWARE.has(address)) {
-    score += 50;
-    factors.push('Known ransomware address');
-  }
-  if (KNOWN_DARKNET.has(address)) {
-    score += 40;
-    factors.push('Known darknet marketplace');
-  }
-  if (KNOWN_MIXERS.has(address)) {
-    score += 30;
-    factors.push('Known mixer/tumbler');
+  const seen = new Set<string>();
+  for (const label of getLabelsForAddress(address)) {
+    const weight = CATEGORY_CONFIG[label.category].scoreWeight;
+    if (weight === 0 || seen.has(label.category)) continue;
+    seen.add(label.category);
+    score += Math.round(weight * label.confidence / 100);
+    factors.push(
+      `Labeled ${CATEGORY_CONFIG[label.category].label.toLowerCase()}${label.entityName ? ` (${label.entityName})` : ''}` +
+      ` by ${label.source}, ${label.confidence}% confidence`
+    );
   }
 
+  return { score, factors };
+}
+
+function calculateRiskScore(address: string, data: any): { riskScore: number; riskFactors: string[] } {
+  const { score: labelScore, factors } = scoreLabels(address);
+  let score = labelScore;
+
   // Transaction pattern analysis
   if (data.n_tx > 1000) {
     score += 10;
@@ -535,14 +807,6 @@ function calculateRiskScore(address: string, data: any): { riskScore: number; ri
   return { riskScore: Math.min(score, 100), riskFactors: factors };
 }
 
-function calculateAddressRisk(address: string): number {
-  if (KNOWN_RANSOMWARE.has(address)) return 100;
-  if (KNOWN_DARKNET.has(address)) return 90;
-  if (KNOWN_MIXERS.has(address)) return 80;
-  if (KNOWN_EXCHANGES[address]) return 10;
-  return 30; // Unknown = medium risk
-}
-
 function analyzeTransaction(tx: any): { isSuspicious: boolean; suspiciousReasons: string[] } {
   const reasons: string[] = [];
   let suspicious = false;
@@ -567,47 +831,45 @@ function analyzeTransaction(tx: any): { isSuspicious: boolean; suspiciousReasons
 
   // Check for known bad addresses
   for (const input of tx.inputs || []) {
-    if (KNOWN_RANSOMWARE.has(input.prev_out?.addr)) {
+    const addr = input.prev_out?.addr;
+    if (!addr) continue;
+    if (hasLabelCategory(addr, 'ransomware')) {
       reasons.push('Input from ransomware address');
       suspicious = true;
     }
-    if (KNOWN_MIXERS.has(input.prev_out?.addr)) {
+    if (hasLabelCategory(addr, 'mixer')) {
       reasons.push('Input from mixer');
       suspicious = true;
     }
+    if (hasLabelCategory(addr, 'sanctioned')) {
+      reasons.push('Input from sanctioned address');
+      suspicious = true;
+    }
   }
 
   for (const output of tx.out || []) {
-    if (KNOWN_RANSOMWARE.has(output.addr)) {
+    if (!output.addr) continue;
+    if (hasLabelCategory(output.addr, 'ransomware')) {
       reasons.push('Output to ransomware address');
       suspicious = true;
     }
-    if (KNOWN_MIXERS.has(output.addr)) {
+    if (hasLabelCategory(output.addr, 'mixer')) {
       reasons.push('Output to mixer');
       suspicious = true;
     }
+    if (hasLabelCategory(output.addr, 'sanctioned')) {
+      reasons.push('Output to sanctioned address');
+      suspicious = true;
+    }
   }
 
   return { isSuspicious: suspicious, suspiciousReasons: reasons };
 }
 
-function getAddressLabels(address: string): string[] {
-  const labels: string[] = [];
-  
-  if (KNOWN_EXCHANGES[address]) {
-    labels.push(`Exchange: ${KNOWN_EXCHANGES[address]}`);
-  }
-  if (KNOWN_RANSOMWARE.has(address)) {
-    labels.push('Ransomware');
-  }
-  if (KNOWN_DARKNET.has(address)) {
-    labels.push('Darknet');
-  }
-  if (KNOWN_MIXERS.has(address)) {
-    labels.push('Mixer');
-  }
-
-  return labels;
+export function getAddressLabels(address: string): string[] {
+  return getLabelsForAddress(address).map(label =>
+    `${CATEGORY_CONFIG[label.category].label}${label.entityName ? `: ${label.entityName}` : ''} (${label.source})`
+  );
 }
 
 // ============================================================================
@@ -620,4 +882,7 @@ export const bitcoinService = {
   getAddressTransactions,
   investigateAddress,
   getBTCPrice,
+  classifyAddress,
+  clusterAddresses,
+  detectChangeOutput,
 };
@@ -0,0 +1,452 @@
+// ============================================================================
+// BITCOIN FUND TRACING
+// ============================================================================
+// Follows funds from a seed address across several transaction hops: forward
+// through the transactions that spend its outputs, backward through the
+// transactions that funded it. Small amounts and transactions outside the
+// time window are not followed, and a path ends at known exchanges and
+// mixers, the usual cash-out points in ransomware payment chains. Traced
+// transactions are clustered with the common-input-ownership and change
+// heuristics, and the whole trace renders as a graph for the investigation
+// canvas.
+// ============================================================================
+
+import {
+  classifyAddress,
+  clusterAddresses,
+  detectChangeOutput,
+  getAddressTransactions,
+  getTransaction,
+  isLikelyCoinJoin,
+  type AddressCluster,
+  type BitcoinTransaction,
+  type ChangeOutput,
+  type TransactionFlow,
+} from './bitcoinInvestigationService';
+import {
+  ENTITY_CONFIG,
+  canonicalEntityId,
+  type GraphData,
+  type GraphEdge,
+  type GraphNode,
+} from './graphService';
+import { applyLayout, hierarchicalLayout } from './graphLayoutService';
+import { stampDiscovery } from './graphTimelineService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export type TraceDirection = 'forward' | 'backward' | 'both';
+type HopDirection = Exclude<TraceDirection, 'both'>;
+
+export interface TraceOptions {
+  direction: TraceDirection;
+  maxHops: number;                              // Transactions away from the seed
+  minValue: number;                             // BTC; smaller amounts are not followed
+  since?: string;                               // ISO; earlier transactions are not followed
+  until?: string;
+  maxTransactions: number;                      // Fetch budget for the whole trace
+  stopAt: AddressCluster['entityType'][];       // Labels that end a path
+}
+
+export interface TracedTransaction {
+  tx: BitcoinTransaction;
+  hop: number;
+  direction: HopDirection;
+  via: string;                                  // Address the trace entered this transaction through
+  change: ChangeOutput | null;
+  coinJoin: boolean;
+}
+
+/** Where a path ended: a labeled service, or a CoinJoin that breaks the trail */
+export interface TraceEndpoint {
+  address: string;
+  entityType: AddressCluster['entityType'];
+  entityName?: string;
+  amount: number;
+  txid: string;
+  hops: number;
+  direction: HopDirection;
+}
+
+export interface TraceResult {
+  seed: string;
+  options: TraceOptions;
+  transactions: TracedTransaction[];
+  flows: TransactionFlow[];
+  clusters: AddressCluster[];                   // Only clusters of two or more addresses
+  endpoints: TraceEndpoint[];
+  truncated: boolean;                           // Budget or abort cut the trace short
+  graph: GraphData;
+}
+
+export type TraceEvent =
+  | { type: 'hop'; hop: number; pending: number }
+  | { type: 'transaction'; txid: string; hop: number; direction: HopDirection; error?: string }
+  | { type: 'endpoint'; endpoint: TraceEndpoint }
+  | { type: 'completed'; transactions: number; clusters: number; truncated: boolean };
+
+interface QueuedTransaction {
+  ref: string;                                  // Hash or blockchain.info tx_index
+  direction: HopDirection;
+  via: string;
+  pathRisk: number;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+export const DEFAULT_TRACE_OPTIONS: TraceOptions = {
+  direction: 'forward',
+  maxHops: 3,
+  minValue: 0.001,
+  maxTransactions: 60,
+  stopAt: ['exchange', 'mixer'],
+};
+
+const SEED_HISTORY_LIMIT = 50;
+const TRACE_SOURCE = 'Bitcoin Trace';
+const TRACE_EDGE_TYPE = 'btc_trace';
+
+/* ============================================================================
+   TRACING
+============================================================================ */
+
+function inWindow(tx: BitcoinTransaction, options: TraceOptions): boolean {
+  if (options.since && tx.timestamp < new Date(options.since).toISOString()) return false;
+  if (options.until && tx.timestamp > new Date(options.until).toISOString()) return false;
+  return true;
+}
+
+/**
+ * Breadth-first trace from a seed address, one hop per transaction. Hop 1 is
+ * the seed's own history; each further hop fetches the transactions that
+ * spent (forward) or funded (backward) the addresses reached so far.
+ */
+export async function traceAddress(
+  seed: string,
+  options: Partial<TraceOptions> = {},
+  onEvent?: (event: TraceEvent) => void,
+  signal?: AbortSignal
+): Promise<TraceResult> {
+  const opts: TraceOptions = { ...DEFAULT_TRACE_OPTIONS, ...options };
+  const traced = new Map<string, TracedTransaction>();
+  const requested = new Set<string>();
+  const flows: TransactionFlow[] = [];
+  const endpoints: TraceEndpoint[] = [];
+  let fetched = 0;
+  let truncated = false;
+
+  const follows = (direction: HopDirection) => opts.direction === 'both' || opts.direction === direction;
+
+  const endPath = (endpoint: TraceEndpoint) => {
+    if (endpoints.some(e => e.address === endpoint.address && e.txid === endpoint.txid)) return;
+    endpoints.push(endpoint);
+    onEvent?.({ type: 'endpoint', endpoint });
+  };
+
+  // Records the transaction and returns the next hop's queue entries
+  const expand = (tx: BitcoinTransaction, hop: number, item: QueuedTransaction): QueuedTransaction[] => {
+    const entry: TracedTransaction = {
+      tx,
+      hop,
+      direction: item.direction,
+      via: item.via,
+      change: detectChangeOutput(tx),
+      coinJoin: isLikelyCoinJoin(tx),
+    };
+    traced.set(tx.txid, entry);
+
+    const next: QueuedTransaction[] = [];
+    const legs = item.direction === 'forward'
+      ? tx.outputs.map(o => ({ address: o.address, value: o.value, ref: o.spent ? o.spentTxid : undefined }))
+      : tx.inputs.map(i => ({ address: i.address, value: i.value, ref: i.prevTxid || undefined }));
+
+    for (const leg of legs) {
+      if (leg.address === 'Unknown' || leg.address === item.via || leg.value < opts.minValue) continue;
+      const label = classifyAddress(leg.address);
+      const pathRisk = Math.max(item.pathRisk, label.risk);
+      flows.push({
+        sourceAddress: item.direction === 'forward' ? item.via : leg.address,
+        targetAddress: item.direction === 'forward' ? leg.address : item.via,
+        amount: leg.value,
+        asset: 'BTC',
+        txid: tx.txid,
+        timestamp: tx.timestamp,
+        hops: hop,
+        pathRisk,
+      });
+
+      if (opts.stopAt.includes(label.entityType)) {
+        endPath({
+          address: leg.address,
+          entityType: label.entityType,
+          entityName: label.entityName,
+          amount: leg.value,
+          txid: tx.txid,
+          hops: hop,
+          direction: item.direction,
+        });
+        continue;
+      }
+      if (entry.coinJoin) continue;
+      if (leg.ref && hop < opts.maxHops) {
+        next.push({ ref: leg.ref, direction: item.direction, via: leg.address, pathRisk });
+      }
+    }
+
+    // Funds entering a CoinJoin can't be followed out of it with these heuristics
+    if (entry.coinJoin && item.direction === 'forward') {
+      endPath({
+        address: item.via,
+        entityType: 'mixer',
+        entityName: 'CoinJoin',
+        amount: tx.inputs.filter(i => i.address === item.via).reduce((sum, i) => sum + i.value, 0),
+        txid: tx.txid,
+        hops: hop,
+        direction: 'forward',
+      });
+    }
+    return next;
+  };
+
+  // Hop 1: the seed's own history
+  const history = await getAddressTransactions(seed, SEED_HISTORY_LIMIT);
+  let queue: QueuedTransaction[] = [];
+  onEvent?.({ type: 'hop', hop: 1, pending: history.length });
+
+  for (const tx of history) {
+    if (!inWindow(tx, opts)) continue;
+    const spends = tx.inputs.some(i => i.address === seed);
+    const direction: HopDirection | null = spends
+      ? (follows('forward') ? 'forward' : null)
+      : tx.outputs.some(o => o.address === seed) && follows('backward') ? 'backward' : null;
+    if (!direction) continue;
+
+    requested.add(tx.txid);
+    queue.push(...expand(tx, 1, { ref: tx.txid, direction, via: seed, pathRisk: classifyAddress(seed).risk }));
+    onEvent?.({ type: 'transaction', txid: tx.txid, hop: 1, direction });
+  }
+
+  for (let hop = 2; hop <= opts.maxHops && queue.length > 0 && !truncated; hop++) {
+    onEvent?.({ type: 'hop', hop, pending: queue.length });
+    const nextQueue: QueuedTransaction[] = [];
+
+    for (const item of queue) {
+      if (requested.has(item.ref)) continue;
+      if (signal?.aborted || fetched >= opts.maxTransactions) {
+        truncated = true;
+        break;
+      }
+      requested.add(item.ref);
+      fetched++;
+
+      const tx = await getTransaction(item.ref);
+      if (!tx) {
+        onEvent?.({ type: 'transaction', txid: item.ref, hop, direction: item.direction, error: 'lookup failed' });
+        continue;
+      }
+      // Reached again under its hash after being queued by tx_index
+      if (traced.has(tx.txid) || !inWindow(tx, opts)) continue;
+
+      nextQueue.push(...expand(tx, hop, item));
+      onEvent?.({ type: 'transaction', txid: tx.txid, hop, direction: item.direction });
+    }
+    queue = nextQueue;
+  }
+
+  const transactions = Array.from(traced.values());
+  const clusters = clusterAddresses(transactions.map(t => t.tx)).filter(c => c.addresses.length > 1);
+  const result: TraceResult = {
+    seed,
+    options: opts,
+    transactions,
+    flows,
+    clusters,
+    endpoints,
+    truncated,
+    graph: { nodes: [], edges: [] },
+  };
+  result.graph = buildTraceGraph(result);
+
+  console.log(`[BitcoinTrace] ${seed}: ${transactions.length} transactions, ${clusters.length} clusters, ${endpoints.length} endpoints`);
+  onEvent?.({ type: 'completed', transactions: transactions.length, clusters: clusters.length, truncated });
+  return result;
+}
+
+/* ============================================================================
+   GRAPH
+============================================================================ */
+
+function shortAddress(address: string): string {
+  return address.length > 16 ? `${address.slice(0, 8)}…${address.slice(-6)}` : address;
+}
+
+function formatBtc(value: number): string {
+  return `${Number(value.toFixed(8))} BTC`;
+}
+
+/**
+ * Addresses and transactions as entities, with value-labelled edges from
+ * input addresses into each transaction and out to its outputs. Clusters
+ * become organization entities their member addresses link to. The seed is
+ * placed at `anchor`, so the trace can be dropped next to an existing node.
+ */
+export function buildTraceGraph(result: TraceResult, anchor = { x: 0, y: 0 }): GraphData {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  const clusterOf = new Map<string, AddressCluster>();
+  result.clusters.forEach(c => c.addresses.forEach(a => clusterOf.set(a, c)));
+  const endpointOf = new Map(result.endpoints.map(e => [e.address, e]));
+
+  const addAddress = (address: string, seenAt: string) => {
+    const id = canonicalEntityId('crypto_address', address);
+    const existing = nodes.get(id);
+    if (existing) {
+      if (seenAt < existing.metadata!.firstSeen!) existing.metadata!.firstSeen = seenAt;
+      if (seenAt > existing.metadata!.lastSeen!) existing.metadata!.lastSeen = seenAt;
+      return id;
+    }
+    const label = classifyAddress(address);
+    const cluster = clusterOf.get(address);
+    nodes.set(id, {
+      id,
+      type: 'crypto_address',
+      label: label.entityName ? `${label.entityName} ${shortAddress(address)}` : shortAddress(address),
+      value: address,
+      properties: {
+        chain: 'bitcoin',
+        ...(label.entityType !== 'unknown' ? { entityType: label.entityType } : {}),
+        ...(label.entityName ? { entityName: label.entityName } : {}),
+        ...(cluster ? { clusterId: cluster.clusterId } : {}),
+        ...(address === result.seed ? { traceSeed: true } : {}),
+        ...(endpointOf.has(address) ? { traceEndpoint: true } : {}),
+      },
+      position: { x: 0, y: 0 },
+      color: ENTITY_CONFIG.crypto_address.color,
+      icon: ENTITY_CONFIG.crypto_address.icon,
+      size: address === result.seed ? 60 : 50,
+      metadata: {
+        source: TRACE_SOURCE,
+        threatScore: label.risk,
+        riskLevel: label.riskLevel,
+        firstSeen: seenAt,
+        lastSeen: seenAt,
+      },
+    });
+    return id;
+  };
+
+  const addEdge = (source: string, target: string, amount: number, change = false) => {
+    const id = `edge-${source}-${target}-${TRACE_EDGE_TYPE}`;
+    const existing = edges.get(id);
+    const total = (existing?.metadata?.amount || 0) + amount;
+    edges.set(id, {
+      id,
+      source,
+      target,
+      label: `${formatBtc(total)}${change ? ' (change)' : ''}`,
+      type: TRACE_EDGE_TYPE,
+      weight: total,
+      metadata: { amount: total, ...(change ? { change: true } : {}) },
+    });
+  };
+
+  addAddress(result.seed, result.transactions[0]?.tx.timestamp || new Date().toISOString());
+
+  for (const { tx, hop, direction, change, coinJoin } of result.transactions) {
+    const txId = canonicalEntityId('crypto_transaction', tx.txid);
+    nodes.set(txId, {
+      id: txId,
+      type: 'crypto_transaction',
+      label: `${tx.txid.slice(0, 10)}…`,
+      value: tx.txid,
+      properties: {
+        txid: tx.txid,
+        timestamp: tx.timestamp,
+        blockHeight: tx.blockHeight,
+        fee: tx.fee,
+        totalInput: tx.totalInput,
+        totalOutput: tx.totalOutput,
+        hop,
+        direction,
+        ...(coinJoin ? { coinJoin: true } : {}),
+        ...(tx.suspiciousReasons.length ? { suspiciousReasons: tx.suspiciousReasons } : {}),
+      },
+      position: { x: 0, y: 0 },
+      color: ENTITY_CONFIG.crypto_transaction.color,
+      icon: ENTITY_CONFIG.crypto_transaction.icon,
+      size: 40,
+      metadata: {
+        source: TRACE_SOURCE,
+        riskLevel: tx.isSuspicious ? 'medium' : 'low',
+        firstSeen: tx.timestamp,
+        lastSeen: tx.timestamp,
+      },
+    });
+
+    // Dust is left out of the picture just as it is left out of the trace
+    tx.inputs
+      .filter(i => i.address !== 'Unknown' && (i.value >= result.options.minValue || i.address === result.seed))
+      .forEach(i => addEdge(addAddress(i.address, tx.timestamp), txId, i.value));
+    tx.outputs
+      .filter(o => o.address !== 'Unknown' && (o.value >= result.options.minValue || o.index === change?.index))
+      .forEach(o => addEdge(txId, addAddress(o.address, tx.timestamp), o.value, o.index === change?.index));
+  }
+
+  for (const cluster of result.clusters) {
+    const members = cluster.addresses.filter(a => nodes.has(canonicalEntityId('crypto_address', a)));
+    if (members.length < 2) continue;
+    const value = cluster.entityName || `BTC cluster ${cluster.addresses[0]}`;
+    const id = canonicalEntityId('organization', value);
+    nodes.set(id, {
+      id,
+      type: 'organization',
+      label: cluster.entityName || `Cluster of ${cluster.addresses.length} addresses`,
+      value,
+      properties: {
+        clusterId: cluster.clusterId,
+        addresses: cluster.addresses.length,
+        entityType: cluster.entityType,
+        observedTransactions: cluster.totalTxCount,
+        unspentBalance: cluster.totalBalance,
+      },
+      position: { x: 0, y: 0 },
+      color: ENTITY_CONFIG.organization.color,
+      icon: ENTITY_CONFIG.organization.icon,
+      size: 50,
+      metadata: {
+        source: TRACE_SOURCE,
+        riskLevel: cluster.riskLevel,
+        firstSeen: cluster.firstActivity,
+        lastSeen: cluster.lastActivity,
+      },
+    });
+    members.forEach(address => {
+      const source = canonicalEntityId('crypto_address', address);
+      edges.set(`edge-${source}-${id}-member_of`, {
+        id: `edge-${source}-${id}-member_of`,
+        source,
+        target: id,
+        label: 'member of',
+        type: 'member_of',
+      });
+    });
+  }
+
+  const addedAt = new Date().toISOString();
+  const graph: GraphData = {
+    nodes: Array.from(nodes.values()).map(node => stampDiscovery(node, addedAt)),
+    edges: Array.from(edges.values()),
+  };
+
+  // Left to right in the direction funds moved, shifted so the seed lands on the anchor
+  const positions = hierarchicalLayout(graph);
+  const seedPosition = positions.get(canonicalEntityId('crypto_address', result.seed)) || { x: 0, y: 0 };
+  positions.forEach((position, id) =>
+    positions.set(id, { x: position.x - seedPosition.x + anchor.x, y: position.y - seedPosition.y + anchor.y })
+  );
+  return applyLayout(graph, positions);
+}
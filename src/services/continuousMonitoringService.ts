@@ -3,10 +3,15 @@
 // ============================================================================
 // Real-time threat monitoring and alerting for the intelligence pipeline
 // Aggregates multiple feed sources and provides unified alerting
+// Rules, alerts and notes are persisted in Supabase; the monitoring-cycle
+// edge function runs the same cycle on a schedule
 // ============================================================================
 
-import { searchDarkWebForums, getRansomwareVictims, type ForumSearchResult, type RansomwareVictim } from './darkWebForumService';
 import { correlateCampaigns, type Campaign } from './campaignCorrelationService';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { dispatchAlertActions } from './alertActionService';
+import { checkSourceForPattern, validateRulePattern, type SourceCursor } from './monitoringSourceAdapters';
 
 /* ============================================================================
    TYPES
@@ -38,17 +43,22 @@ export interface MonitoringSource {
   lastChecked?: string;
   status: 'active' | 'error' | 'paused';
   errorMessage?: string;
+  config?: Record<string, any>; // Adapter settings, e.g. { url } for custom feeds
+  cursor?: SourceCursor; // Position of the last cycle, only newer items can alert
 }
 
+/** What a cycle records per source, stored apart from the rule's configuration */
+export type MonitoringSourceState = Pick<MonitoringSource, 'cursor' | 'lastChecked' | 'status' | 'errorMessage'>;
+
 export interface AlertAction {
   type: 'webhook' | 'email' | 'slack' | 'teams' | 'pagerduty' | 'log' | 'ui';
-  config: Record<string, any>;
+  config: Record<string, any>; // Channel settings, see ALERT_CHANNELS in alertActionService
   enabled: boolean;
 }
 
 export interface ThreatAlert {
   id: string;
-  ruleId: string;
+  ruleId: string; // Empty for alerts raised outside a rule, e.g. asset exposure matches
   ruleName: string;
   timestamp: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -60,8 +70,40 @@ export interface ThreatAlert {
   status: 'new' | 'acknowledged' | 'investigating' | 'resolved' | 'false_positive';
   assignee?: string;
   notes: AlertNote[];
+  fingerprint?: string; // Hash of source + normalized indicators, used for dedup
+  occurrenceCount: number; // Times the same match was seen
+  lastSeen: string;
+  incidentId?: string;
+}
+
+export interface MonitoringIncident {
+  id: string;
+  ruleId?: string;
+  title: string;
+  source: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  status: 'open' | 'investigating' | 'resolved' | 'false_positive';
+  indicators: string[];
+  alertCount: number;
+  firstSeen: string;
+  lastSeen: string;
 }
 
+export interface AlertSuppression {
+  id: string;
+  ruleId?: string; // Undefined = applies to every rule
+  kind: 'indicator' | 'fingerprint';
+  value: string;
+  reason: string;
+  origin: 'manual' | 'auto_false_positive';
+  expiresAt?: string;
+  hitCount: number;
+  lastHit?: string;
+  createdAt: string;
+}
+
+export type AlertIngestOutcome = 'created' | 'duplicate' | 'suppressed';
+
 export interface AlertNote {
   id: string;
   author: string;
@@ -78,6 +120,9 @@ export interface MonitoringDashboard {
   sourcesTotal: number;
   lastUpdate: string;
   recentAlerts: ThreatAlert[];
+  openIncidents: number;
+  duplicateOccurrences: number;
+  incidents: MonitoringIncident[];
   rulePerformance: RulePerformance[];
   threatTrends: ThreatTrend[];
 }
@@ -177,117 +222,461 @@ const DEFAULT_MONITORING_RULES: Omit<MonitoringRule, 'id' | 'createdAt' | 'updat
 ];
 
 /* ============================================================================
-   MONITORING STATE
+   PERSISTENT MONITORING STORE
 ============================================================================ */
 
-class MonitoringState {
-  private rules: MonitoringRule[] = [];
-  private alerts: ThreatAlert[] = [];
-  private sources: MonitoringSource[] = [];
-  private intervalIds: Map<string, ReturnType<typeof setTimeout>> = new Map();
-  private listeners: Set<(alert: ThreatAlert) => void> = new Set();
+// Rules, alerts, notes and trigger counters live in Supabase (RLS per user) so
+// they survive reloads and can be driven by the monitoring-cycle edge function.
+const RULES_TABLE = 'monitoring_rules';
+const ALERTS_TABLE = 'threat_alerts';
+const NOTES_TABLE = 'threat_alert_notes';
+const INCIDENTS_TABLE = 'monitoring_incidents';
+const SUPPRESSIONS_TABLE = 'monitoring_suppressions';
+
+function ruleFromRow(row: Tables<'monitoring_rules'>): MonitoringRule {
+  const sources = (row.sources || []) as unknown as MonitoringSource[];
+  const sourceState = (row.source_state || {}) as unknown as Record<string, MonitoringSourceState>;
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    type: row.rule_type as MonitoringRule['type'],
+    pattern: row.pattern,
+    enabled: row.enabled,
+    severity: row.severity as MonitoringRule['severity'],
+    sources: sources.map(source => ({ ...source, ...sourceState[source.id] })),
+    actions: (row.actions || []) as unknown as AlertAction[],
+    cooldownMinutes: row.cooldown_minutes,
+    lastTriggered: row.last_triggered || undefined,
+    triggerCount: row.trigger_count || 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Cursor and health are written through merge_monitoring_source_state only
+function sourceConfig(source: MonitoringSource): MonitoringSource {
+  const config = { ...source };
+  delete config.cursor;
+  delete config.lastChecked;
+  delete config.errorMessage;
+  return config;
+}
+
+function ruleToRow(rule: Partial<MonitoringRule>): TablesUpdate<'monitoring_rules'> {
+  const row: TablesUpdate<'monitoring_rules'> = {};
+  if (rule.name !== undefined) row.name = rule.name;
+  if (rule.description !== undefined) row.description = rule.description;
+  if (rule.type !== undefined) row.rule_type = rule.type;
+  if (rule.pattern !== undefined) row.pattern = rule.pattern;
+  if (rule.enabled !== undefined) row.enabled = rule.enabled;
+  if (rule.severity !== undefined) row.severity = rule.severity;
+  if (rule.sources !== undefined) row.sources = rule.sources.map(sourceConfig) as unknown as Json;
+  if (rule.actions !== undefined) row.actions = rule.actions as unknown as Json;
+  if (rule.cooldownMinutes !== undefined) row.cooldown_minutes = rule.cooldownMinutes;
+  if (rule.lastTriggered !== undefined) row.last_triggered = rule.lastTriggered;
+  if (rule.triggerCount !== undefined) row.trigger_count = rule.triggerCount;
+  return row;
+}
+
+function noteFromRow(row: Tables<'threat_alert_notes'>): AlertNote {
+  return {
+    id: row.id,
+    author: row.author,
+    content: row.content,
+    timestamp: row.created_at,
+  };
+}
+
+function alertFromRow(row: Tables<'threat_alerts'> & { threat_alert_notes?: Tables<'threat_alert_notes'>[] }): ThreatAlert {
+  const notes = (row.threat_alert_notes || [])
+    .map(noteFromRow)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    ruleName: row.rule_name,
+    timestamp: row.created_at,
+    severity: row.severity as ThreatAlert['severity'],
+    title: row.title,
+    description: row.description || '',
+    source: row.source,
+    indicators: (row.indicators || []) as string[],
+    context: (row.context || {}) as ThreatAlert['context'],
+    status: row.status as ThreatAlert['status'],
+    assignee: row.assignee || undefined,
+    notes,
+    fingerprint: row.fingerprint || undefined,
+    occurrenceCount: row.occurrence_count || 1,
+    lastSeen: row.last_seen_at || row.created_at,
+    incidentId: row.incident_id || undefined,
+  };
+}
+
+function incidentFromRow(row: Tables<'monitoring_incidents'>): MonitoringIncident {
+  return {
+    id: row.id,
+    ruleId: row.rule_id || undefined,
+    title: row.title,
+    source: row.source,
+    severity: row.severity as MonitoringIncident['severity'],
+    status: row.status as MonitoringIncident['status'],
+    indicators: (row.indicators || []) as string[],
+    alertCount: row.alert_count || 0,
+    firstSeen: row.first_seen_at,
+    lastSeen: row.last_seen_at,
+  };
+}
+
+function suppressionFromRow(row: Tables<'monitoring_suppressions'>): AlertSuppression {
+  return {
+    id: row.id,
+    ruleId: row.rule_id || undefined,
+    kind: row.kind as AlertSuppression['kind'],
+    value: row.value,
+    reason: row.reason || '',
+    origin: row.origin as AlertSuppression['origin'],
+    expiresAt: row.expires_at || undefined,
+    hitCount: row.hit_count || 0,
+    lastHit: row.last_hit_at || undefined,
+    createdAt: row.created_at,
+  };
+}
 
-  constructor() {
-    this.initializeDefaultRules();
+class MonitoringStore {
+  private channelCounter = 0;
+
+  private async getUserId(): Promise<string | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id || null;
   }
 
-  private initializeDefaultRules() {
-    this.rules = DEFAULT_MONITORING_RULES.map((rule, i) => ({
-      ...rule,
-      id: `rule-${i + 1}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    }));
+  async getRules(): Promise<MonitoringRule[]> {
+    const userId = await this.getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+      .from(RULES_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('[Monitoring] Failed to load rules:', error);
+      return [];
+    }
+    return (data || []).map(ruleFromRow);
   }
 
-  getRules(): MonitoringRule[] {
-    return [...this.rules];
+  async getRule(id: string): Promise<MonitoringRule | undefined> {
+    const { data, error } = await supabase
+      .from(RULES_TABLE)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) return undefined;
+    return ruleFromRow(data);
   }
 
-  getRule(id: string): MonitoringRule | undefined {
-    return this.rules.find(r => r.id === id);
+  async addRule(rule: Omit<MonitoringRule, 'id' | 'createdAt' | 'updatedAt' | 'triggerCount'>): Promise<MonitoringRule | undefined> {
+    const userId = await this.getUserId();
+    if (!userId) return undefined;
+
+    const problem = validateRulePattern(rule.type, rule.pattern);
+    if (problem) {
+      console.error(`[Monitoring] Rejected rule "${rule.name}": ${problem}`);
+      return undefined;
+    }
+
+    const { data, error } = await supabase
+      .from(RULES_TABLE)
+      .insert({ ...ruleToRow(rule), user_id: userId, trigger_count: 0 } as TablesInsert<'monitoring_rules'>)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Monitoring] Failed to add rule:', error);
+      return undefined;
+    }
+    return ruleFromRow(data);
   }
 
-  addRule(rule: Omit<MonitoringRule, 'id' | 'createdAt' | 'updatedAt' | 'triggerCount'>): MonitoringRule {
-    const newRule: MonitoringRule = {
-      ...rule,
-      id: `rule-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      triggerCount: 0,
-    };
-    this.rules.push(newRule);
-    return newRule;
+  async installDefaultRules(): Promise<MonitoringRule[]> {
+    const userId = await this.getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+      .from(RULES_TABLE)
+      .insert(DEFAULT_MONITORING_RULES.map(rule => ({ ...ruleToRow(rule), user_id: userId }) as TablesInsert<'monitoring_rules'>))
+      .select();
+
+    if (error) {
+      console.error('[Monitoring] Failed to install default rules:', error);
+      return [];
+    }
+    return (data || []).map(ruleFromRow);
   }
 
-  updateRule(id: string, updates: Partial<MonitoringRule>): MonitoringRule | undefined {
-    const index = this.rules.findIndex(r => r.id === id);
-    if (index === -1) return undefined;
-    
-    this.rules[index] = {
-      ...this.rules[index],
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
-    return this.rules[index];
+  async updateRule(id: string, updates: Partial<MonitoringRule>): Promise<MonitoringRule | undefined> {
+    if (updates.pattern !== undefined || updates.type !== undefined) {
+      const current = await this.getRule(id);
+      const problem = validateRulePattern(updates.type ?? current?.type ?? 'keyword', updates.pattern ?? current?.pattern ?? '');
+      if (problem) {
+        console.error(`[Monitoring] Rejected update to rule ${id}: ${problem}`);
+        return undefined;
+      }
+    }
+
+    const { data, error } = await supabase
+      .from(RULES_TABLE)
+      .update(ruleToRow(updates))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Monitoring] Failed to update rule:', error);
+      return undefined;
+    }
+    return ruleFromRow(data);
   }
 
-  deleteRule(id: string): boolean {
-    const index = this.rules.findIndex(r => r.id === id);
-    if (index === -1) return false;
-    this.rules.splice(index, 1);
+  async deleteRule(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from(RULES_TABLE)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('[Monitoring] Failed to delete rule:', error);
+      return false;
+    }
     return true;
   }
 
-  getAlerts(): ThreatAlert[] {
-    return [...this.alerts];
+  /**
+   * Record the sources a cycle checked without touching the rule's
+   * configuration, which the user may have edited meanwhile
+   */
+  async mergeSourceState(ruleId: string, state: Record<string, MonitoringSourceState>): Promise<void> {
+    const { error } = await supabase
+      .rpc('merge_monitoring_source_state', { _rule_id: ruleId, _state: state as unknown as Json });
+
+    if (error) console.error('[Monitoring] Failed to record source state:', error);
   }
 
-  addAlert(alert: Omit<ThreatAlert, 'id' | 'status' | 'notes'>): ThreatAlert {
-    const newAlert: ThreatAlert = {
-      ...alert,
-      id: `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      status: 'new',
-      notes: [],
-    };
-    this.alerts.unshift(newAlert);
-    
-    // Notify listeners
-    this.listeners.forEach(listener => listener(newAlert));
-    
-    return newAlert;
+  /**
+   * Atomically bump a rule's trigger counter and last-triggered timestamp
+   */
+  async recordTrigger(ruleId: string, count: number): Promise<MonitoringRule | undefined> {
+    const { data, error } = await supabase
+      .rpc('record_monitoring_trigger', { _rule_id: ruleId, _count: count });
+
+    if (error) {
+      console.error('[Monitoring] Failed to record rule trigger:', error);
+      return undefined;
+    }
+    const row = Array.isArray(data) ? data[0] : data;
+    return row ? ruleFromRow(row) : undefined;
   }
 
-  updateAlertStatus(id: string, status: ThreatAlert['status']): ThreatAlert | undefined {
-    const alert = this.alerts.find(a => a.id === id);
-    if (alert) {
-      alert.status = status;
+  async getAlerts(limit = 200): Promise<ThreatAlert[]> {
+    const userId = await this.getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+      .from(ALERTS_TABLE)
+      .select(`*, ${NOTES_TABLE}(*)`)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[Monitoring] Failed to load alerts:', error);
+      return [];
     }
-    return alert;
+    return (data || []).map(alertFromRow);
   }
 
-  addAlertNote(alertId: string, author: string, content: string): AlertNote | undefined {
-    const alert = this.alerts.find(a => a.id === alertId);
-    if (!alert) return undefined;
-    
-    const note: AlertNote = {
-      id: `note-${Date.now()}`,
-      author,
-      content,
-      timestamp: new Date().toISOString(),
+  /**
+   * Ingest a rule match. Suppression, fingerprint dedup and incident grouping
+   * run in the ingest_threat_alert database function, shared with the
+   * monitoring-cycle edge function.
+   */
+  async addAlert(
+    alert: Omit<ThreatAlert, 'id' | 'status' | 'notes' | 'occurrenceCount' | 'lastSeen'>
+  ): Promise<{ outcome: AlertIngestOutcome; alert?: ThreatAlert } | undefined> {
+    const userId = await this.getUserId();
+    if (!userId) return undefined;
+
+    const { data, error } = await supabase.rpc('ingest_threat_alert', {
+      _user_id: userId,
+      _rule_id: alert.ruleId || null,
+      _rule_name: alert.ruleName,
+      _severity: alert.severity,
+      _title: alert.title,
+      _description: alert.description,
+      _source: alert.source,
+      _indicators: alert.indicators,
+      _context: alert.context,
+    });
+
+    if (error) {
+      console.error('[Monitoring] Failed to store alert:', error);
+      return undefined;
+    }
+    const result = data as unknown as { outcome: AlertIngestOutcome; alert: Tables<'threat_alerts'> | null };
+    return {
+      outcome: result.outcome,
+      alert: result.alert ? alertFromRow(result.alert) : undefined,
     };
-    alert.notes.push(note);
-    return note;
   }
 
-  onAlert(callback: (alert: ThreatAlert) => void): () => void {
-    this.listeners.add(callback);
-    return () => this.listeners.delete(callback);
+  async updateAlertStatus(id: string, status: ThreatAlert['status']): Promise<ThreatAlert | undefined> {
+    const { data, error } = await supabase
+      .from(ALERTS_TABLE)
+      .update({ status })
+      .eq('id', id)
+      .select(`*, ${NOTES_TABLE}(*)`)
+      .single();
+
+    if (error) {
+      console.error('[Monitoring] Failed to update alert status:', error);
+      return undefined;
+    }
+    return alertFromRow(data);
+  }
+
+  async addAlertNote(alertId: string, author: string, content: string): Promise<AlertNote | undefined> {
+    const userId = await this.getUserId();
+    if (!userId) return undefined;
+
+    const { data, error } = await supabase
+      .from(NOTES_TABLE)
+      .insert({ user_id: userId, alert_id: alertId, author, content })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Monitoring] Failed to add alert note:', error);
+      return undefined;
+    }
+    return noteFromRow(data);
+  }
+
+  async getIncidents(limit = 100): Promise<MonitoringIncident[]> {
+    const userId = await this.getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+      .from(INCIDENTS_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_seen_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[Monitoring] Failed to load incidents:', error);
+      return [];
+    }
+    return (data || []).map(incidentFromRow);
+  }
+
+  async updateIncidentStatus(id: string, status: MonitoringIncident['status']): Promise<MonitoringIncident | undefined> {
+    const { data, error } = await supabase
+      .from(INCIDENTS_TABLE)
+      .update({ status })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Monitoring] Failed to update incident:', error);
+      return undefined;
+    }
+    return incidentFromRow(data);
+  }
+
+  async getSuppressions(): Promise<AlertSuppression[]> {
+    const userId = await this.getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+      .from(SUPPRESSIONS_TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('[Monitoring] Failed to load suppressions:', error);
+      return [];
+    }
+    return (data || []).map(suppressionFromRow);
+  }
+
+  async addSuppression(
+    indicator: string,
+    options: { ruleId?: string; reason?: string; expiresAt?: string } = {}
+  ): Promise<AlertSuppression | undefined> {
+    const userId = await this.getUserId();
+    if (!userId) return undefined;
+
+    const { data, error } = await supabase
+      .from(SUPPRESSIONS_TABLE)
+      .insert({
+        user_id: userId,
+        rule_id: options.ruleId || null,
+        kind: 'indicator',
+        value: indicator.trim().toLowerCase(), // Matches monitoring_normalize_indicators
+        reason: options.reason || '',
+        origin: 'manual',
+        expires_at: options.expiresAt || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Monitoring] Failed to add suppression:', error);
+      return undefined;
+    }
+    return suppressionFromRow(data);
+  }
+
+  async removeSuppression(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from(SUPPRESSIONS_TABLE)
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('[Monitoring] Failed to remove suppression:', error);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Subscribe to alert inserts/updates via Supabase realtime. RLS limits the
+   * stream to the signed-in user's rows, including alerts raised server-side.
+   */
+  onAlert(callback: (alert: ThreatAlert) => void, event: 'INSERT' | 'UPDATE' = 'INSERT'): () => void {
+    const channel = supabase
+      .channel(`threat-alerts-${event.toLowerCase()}-${++this.channelCounter}`)
+      .on<Tables<'threat_alerts'>>('postgres_changes', { event: '*', schema: 'public', table: ALERTS_TABLE }, (payload) => {
+        if (payload.eventType === event) callback(alertFromRow(payload.new));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }
 }
 
 // Singleton instance
-const monitoringState = new MonitoringState();
+const monitoringStore = new MonitoringStore();
 
 /* ============================================================================
    MAIN MONITORING FUNCTIONS
@@ -307,20 +696,21 @@ export async function startMonitoring(options: {
   // Perform initial check
   await runMonitoringCycle();
   
+  const rules = await monitoringStore.getRules();
   return {
     success: true,
-    message: `Monitoring started with ${monitoringState.getRules().filter(r => r.enabled).length} active rules`,
+    message: `Monitoring started with ${rules.filter(r => r.enabled).length} active rules`,
   };
 }
 
 /**
- * Run a single monitoring cycle across all enabled rules
+ * Run a single monitoring cycle across all enabled rules of the signed-in user
  */
 export async function runMonitoringCycle(): Promise<ThreatAlert[]> {
   console.log('[Monitoring] Running monitoring cycle...');
   const newAlerts: ThreatAlert[] = [];
   
-  const enabledRules = monitoringState.getRules().filter(r => r.enabled);
+  const enabledRules = (await monitoringStore.getRules()).filter(r => r.enabled);
   
   for (const rule of enabledRules) {
     try {
@@ -335,6 +725,26 @@ export async function runMonitoringCycle(): Promise<ThreatAlert[]> {
   return newAlerts;
 }
 
+/**
+ * Run the monitoring cycle server-side via the monitoring-cycle edge function.
+ * The same function is scheduled with pg_cron so rules keep running overnight.
+ */
+export async function runServerMonitoringCycle(): Promise<{ rulesChecked: number; alertsCreated: number }> {
+  const { data, error } = await supabase.functions.invoke('monitoring-cycle', {
+    body: {},
+  });
+
+  if (error) {
+    console.error('[Monitoring] Server monitoring cycle failed:', error);
+    throw new Error(error.message || 'Server monitoring cycle failed');
+  }
+
+  return {
+    rulesChecked: data?.stats?.rulesChecked || 0,
+    alertsCreated: data?.stats?.alertsCreated || 0,
+  };
+}
+
 /**
  * Check a single monitoring rule against sources
  */
@@ -350,12 +760,16 @@ async function checkRule(rule: MonitoringRule): Promise<ThreatAlert[]> {
     }
   }
   
-  for (const source of rule.sources.filter(s => s.enabled)) {
+  const sourceState: Record<string, MonitoringSourceState> = {};
+  
+  for (const source of rule.sources) {
+    if (!source.enabled) continue;
+    
     try {
-      const matches = await checkSourceForPattern(source, rule);
+      const { matches, cursor } = await checkSourceForPattern(source, rule);
       
       for (const match of matches) {
-        const alert = monitoringState.addAlert({
+        const result = await monitoringStore.addAlert({
           ruleId: rule.id,
           ruleName: rule.name,
           timestamp: new Date().toISOString(),
@@ -366,98 +780,31 @@ async function checkRule(rule: MonitoringRule): Promise<ThreatAlert[]> {
           indicators: match.indicators,
           context: match.context,
         });
-        alerts.push(alert);
+        // Duplicates only bump the existing alert; suppressed matches are dropped
+        if (result?.outcome === 'created' && result.alert) alerts.push(result.alert);
       }
+      sourceState[source.id] = { cursor, lastChecked: new Date().toISOString(), status: 'active' };
     } catch (err) {
       console.error(`[Monitoring] Error checking source ${source.name}:`, err);
+      sourceState[source.id] = {
+        cursor: source.cursor,
+        lastChecked: new Date().toISOString(),
+        status: 'error',
+        errorMessage: err instanceof Error ? err.message : String(err),
+      };
     }
   }
   
-  // Update rule trigger info
+  // Persist source health and update rule trigger info
+  await monitoringStore.mergeSourceState(rule.id, sourceState);
   if (alerts.length > 0) {
-    monitoringState.updateRule(rule.id, {
-      lastTriggered: new Date().toISOString(),
-      triggerCount: rule.triggerCount + alerts.length,
-    });
+    await monitoringStore.recordTrigger(rule.id, alerts.length);
+    await dispatchAlertActions(rule, alerts);
   }
   
   return alerts;
 }
 
-interface PatternMatch {
-  title: string;
-  description: string;
-  indicators: string[];
-  context: Record<string, any>;
-}
-
-async function checkSourceForPattern(
-  source: MonitoringSource,
-  rule: MonitoringRule
-): Promise<PatternMatch[]> {
-  const matches: PatternMatch[] = [];
-  
-  switch (source.type) {
-    case 'ransomwatch': {
-      const victims = await getRansomwareVictims({ days: 1 });
-      const regex = rule.type === 'regex' 
-        ? new RegExp(rule.pattern, 'i')
-        : new RegExp(rule.pattern.split('|').map(p => p.trim()).join('|'), 'i');
-      
-      for (const victim of victims) {
-        if (regex.test(victim.group) || regex.test(victim.victimName)) {
-          matches.push({
-            title: `Ransomware Victim: ${victim.victimName}`,
-            description: `New victim announced by ${victim.group}`,
-            indicators: [victim.victimName, victim.group, victim.victimDomain].filter(Boolean) as string[],
-            context: { victim },
-          });
-        }
-      }
-      break;
-    }
-    
-    case 'forums': {
-      const result = await searchDarkWebForums(rule.pattern.split('|')[0]);
-      const regex = rule.type === 'regex'
-        ? new RegExp(rule.pattern, 'i')
-        : new RegExp(rule.pattern.split('|').map(p => p.trim()).join('|'), 'i');
-      
-      for (const post of result.posts) {
-        if (regex.test(post.thread) || regex.test(post.content)) {
-          matches.push({
-            title: `Forum Activity: ${post.thread.slice(0, 60)}`,
-            description: `Suspicious post on ${post.forum}`,
-            indicators: [post.thread, post.author, post.forum],
-            context: { post },
-          });
-        }
-      }
-      break;
-    }
-    
-    case 'threatfox': {
-      // ThreatFox check would go here
-      // For demo, we'll generate simulated matches
-      if (Math.random() > 0.8) {
-        matches.push({
-          title: `ThreatFox IOC Match: ${rule.pattern.split('|')[0]}`,
-          description: `New IOC matching pattern found in ThreatFox`,
-          indicators: [`sample-${Date.now()}`],
-          context: { source: 'ThreatFox', pattern: rule.pattern },
-        });
-      }
-      break;
-    }
-    
-    default:
-      // Other sources
-      break;
-  }
-  
-  return matches;
-}
-
 /* ============================================================================
    DASHBOARD FUNCTIONS
 ============================================================================ */
@@ -465,9 +812,12 @@ async function checkSourceForPattern(
 /**
  * Get monitoring dashboard data
  */
-export function getMonitoringDashboard(): MonitoringDashboard {
-  const rules = monitoringState.getRules();
-  const alerts = monitoringState.getAlerts();
+export async function getMonitoringDashboard(): Promise<MonitoringDashboard> {
+  const [rules, alerts, incidents] = await Promise.all([
+    monitoringStore.getRules(),
+    monitoringStore.getAlerts(),
+    monitoringStore.getIncidents(),
+  ]);
   
   const activeRules = rules.filter(r => r.enabled).length;
   const criticalAlerts = alerts.filter(a => a.severity === 'critical').length;
@@ -528,6 +878,9 @@ export function getMonitoringDashboard(): MonitoringDashboard {
     sourcesTotal: sources.length,
     lastUpdate: new Date().toISOString(),
     recentAlerts: alerts,
+    openIncidents: incidents.filter(i => i.status === 'open' || i.status === 'investigating').length,
+    duplicateOccurrences: alerts.reduce((sum, a) => sum + a.occurrenceCount - 1, 0),
+    incidents,
     rulePerformance,
     threatTrends,
   };
@@ -582,12 +935,20 @@ export async function getFeedStatuses(): Promise<FeedStatus[]> {
    RULE MANAGEMENT EXPORTS
 ============================================================================ */
 
-export const getRules = () => monitoringState.getRules();
-export const getRule = (id: string) => monitoringState.getRule(id);
-export const addRule = (rule: Parameters<typeof monitoringState.addRule>[0]) => monitoringState.addRule(rule);
-export const updateRule = (id: string, updates: Partial<MonitoringRule>) => monitoringState.updateRule(id, updates);
-export const deleteRule = (id: string) => monitoringState.deleteRule(id);
-export const getAlerts = () => monitoringState.getAlerts();
-export const updateAlertStatus = (id: string, status: ThreatAlert['status']) => monitoringState.updateAlertStatus(id, status);
-export const addAlertNote = (alertId: string, author: string, content: string) => monitoringState.addAlertNote(alertId, author, content);
-export const onAlert = (callback: (alert: ThreatAlert) => void) => monitoringState.onAlert(callback);
+export const getRules = () => monitoringStore.getRules();
+export const getRule = (id: string) => monitoringStore.getRule(id);
+export const addRule = (rule: Parameters<typeof monitoringStore.addRule>[0]) => monitoringStore.addRule(rule);
+export const installDefaultRules = () => monitoringStore.installDefaultRules();
+export const updateRule = (id: string, updates: Partial<MonitoringRule>) => monitoringStore.updateRule(id, updates);
+export const deleteRule = (id: string) => monitoringStore.deleteRule(id);
+export const getAlerts = (limit?: number) => monitoringStore.getAlerts(limit);
+export const ingestAlert = (alert: Parameters<typeof monitoringStore.addAlert>[0]) => monitoringStore.addAlert(alert);
+export const updateAlertStatus = (id: string, status: ThreatAlert['status']) => monitoringStore.updateAlertStatus(id, status);
+export const addAlertNote = (alertId: string, author: string, content: string) => monitoringStore.addAlertNote(alertId, author, content);
+export const getIncidents = (limit?: number) => monitoringStore.getIncidents(limit);
+export const updateIncidentStatus = (id: string, status: MonitoringIncident['status']) => monitoringStore.updateIncidentStatus(id, status);
+export const getSuppressions = () => monitoringStore.getSuppressions();
+export const addSuppression = (indicator: string, options?: Parameters<typeof monitoringStore.addSuppression>[1]) => monitoringStore.addSuppression(indicator, options);
+export const removeSuppression = (id: string) => monitoringStore.removeSuppression(id);
+export const onAlert = (callback: (alert: ThreatAlert) => void) => monitoringStore.onAlert(callback, 'INSERT');
+export const onAlertUpdate = (callback: (alert: ThreatAlert) => void) => monitoringStore.onAlert(callback, 'UPDATE');
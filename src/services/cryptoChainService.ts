@@ -0,0 +1,590 @@
+// ============================================================================
+// MULTI-CHAIN CRYPTO INVESTIGATION
+// ============================================================================
+// Chain adapters that bring Litecoin, Ethereum (including ERC-20 token
+// transfers) and TRON (including USDT-TRC20) into the same investigation model
+// as Bitcoin: every chain yields a CryptoInvestigationResult with balance,
+// transfers as flows, counterparties and risk factors. Bitcoin keeps its own
+// blockchain.info path in bitcoinInvestigationService; the others use keyless
+// public explorers (BlockCypher, Blockscout, Tronscan).
+// ============================================================================
+
+import { cacheAPIResponse, getCachedData } from '@/lib/database';
+import {
+  assembleInvestigation,
+  flowsFromTransactions,
+  getAddressLabels,
+  investigateAddress,
+  scoreLabels,
+  type BitcoinAddress,
+  type BitcoinTransaction,
+  type CryptoChain,
+  type CryptoInvestigationResult,
+  type TokenBalance,
+  type TransactionFlow,
+} from './bitcoinInvestigationService';
+import { getAddressRisk, getLabelsForAddress, hasLabelCategory, loadCryptoLabels } from './cryptoLabelService';
+import { detectEntityType } from './entityDetectionService';
+
+export type { CryptoChain };
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface ChainInfo {
+  name: string;
+  asset: string;
+  addressUrl: string;         // Explorer prefixes; append the address or txid
+  txUrl: string;
+}
+
+/** What an adapter fetches for one address */
+interface ChainSnapshot {
+  info: BitcoinAddress;
+  transactions: BitcoinTransaction[];
+  flows: TransactionFlow[];
+}
+
+interface ChainAdapter {
+  chain: Exclude<CryptoChain, 'bitcoin'>;
+  fetchSnapshot(address: string, limit: number): Promise<ChainSnapshot | null>;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+export const CHAIN_INFO: Record<CryptoChain, ChainInfo> = {
+  bitcoin: {
+    name: 'Bitcoin',
+    asset: 'BTC',
+    addressUrl: 'https://www.blockchain.com/explorer/addresses/btc/',
+    txUrl: 'https://www.blockchain.com/explorer/transactions/btc/',
+  },
+  litecoin: {
+    name: 'Litecoin',
+    asset: 'LTC',
+    addressUrl: 'https://blockchair.com/litecoin/address/',
+    txUrl: 'https://blockchair.com/litecoin/transaction/',
+  },
+  ethereum: {
+    name: 'Ethereum',
+    asset: 'ETH',
+    addressUrl: 'https://etherscan.io/address/',
+    txUrl: 'https://etherscan.io/tx/',
+  },
+  tron: {
+    name: 'TRON',
+    asset: 'TRX',
+    addressUrl: 'https://tronscan.org/#/address/',
+    txUrl: 'https://tronscan.org/#/transaction/',
+  },
+};
+
+const CACHE_TTL = 15; // minutes
+const HISTORY_LIMIT = 50;
+
+const COINGECKO_IDS: Record<CryptoChain, string> = {
+  bitcoin: 'bitcoin',
+  litecoin: 'litecoin',
+  ethereum: 'ethereum',
+  tron: 'tron',
+};
+
+// Priced at $1 without a lookup. Keyed by contract (see contractKey): anyone
+// can deploy a token with the symbol USDT, so symbols prove nothing.
+const STABLECOINS: Record<string, string> = {
+  '0xdac17f958d2ee523a2206206994597c13d831ec7': 'USDT',
+  '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': 'USDC',
+  '0x6b175474e89094c44da98b954eedeac495271d0f': 'DAI',
+  '0x0000000000085d4780b73119b644ae5ecd22b376': 'TUSD',
+  '0x4fabb145d64652a948d72533023f6e7a623c7c53': 'BUSD',
+  '0xc5f0f7b66764f6ec8c8dff7ba683102295e16409': 'FDUSD',
+  '0x6c3ea9036406852006290770bedfcaba0e23a0e8': 'PYUSD',
+  TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t: 'USDT',
+  TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8: 'USDC',
+  TUpMhErZL2fhh4sVNULAbNKLokS4GjC1F4: 'TUSD',
+  TPYmHEhy5n8TCEfYGqW2rPxsghSfzghPDn: 'USDD',
+};
+
+// Issuers that can freeze their token at an address on request, by contract
+const FREEZABLE_TOKENS: Record<string, string> = {
+  '0xdac17f958d2ee523a2206206994597c13d831ec7': 'Tether',
+  TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t: 'Tether',
+  '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': 'Circle',
+  TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8: 'Circle',
+};
+
+const BLOCKCYPHER_LTC = 'https://api.blockcypher.com/v1/ltc/main';
+const BLOCKSCOUT_ETH = 'https://eth.blockscout.com/api/v2';
+const TRONSCAN = 'https://apilist.tronscan.org/api';
+
+/* ============================================================================
+   HELPERS
+============================================================================ */
+
+async function fetchJSON(url: string): Promise<any | null> {
+  const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`${new URL(url).hostname} error: ${response.status}`);
+  return response.json();
+}
+
+/** Secondary lookups (token lists, counters) degrade to nothing instead of failing the investigation */
+async function fetchOptional(url: string, tag: string): Promise<any | null> {
+  try {
+    return await fetchJSON(url);
+  } catch (error) {
+    console.warn(`[${tag}] ${url} failed:`, error);
+    return null;
+  }
+}
+
+function toUnits(raw: string | number | undefined, decimals: number): number {
+  const value = Number(raw ?? 0);
+  return isFinite(value) ? value / Math.pow(10, decimals) : 0;
+}
+
+function isoFromMillis(ms: number | undefined): string {
+  return ms ? new Date(ms).toISOString() : 'Unknown';
+}
+
+async function getNativePrice(chain: CryptoChain): Promise<number> {
+  const id = COINGECKO_IDS[chain];
+  const cacheKey = `price:${id}`;
+  const cached = await getCachedData(cacheKey);
+  if (cached !== null) return cached;
+
+  try {
+    const data = await fetchJSON(`https://api.coingecko.com/api/v3/simple/price?ids=${id}&vs_currencies=usd`);
+    const price = data?.[id]?.usd || 0;
+    await cacheAPIResponse(cacheKey, price, CACHE_TTL);
+    return price;
+  } catch {
+    return 0;
+  }
+}
+
+/** Hex contracts are case-insensitive; TRON's base58 ones are not */
+function contractKey(contract: string | undefined): string {
+  const trimmed = (contract || '').trim();
+  return trimmed.startsWith('0x') ? trimmed.toLowerCase() : trimmed;
+}
+
+function isStablecoin(contract: string | undefined): boolean {
+  return !!STABLECOINS[contractKey(contract)];
+}
+
+function stablecoinUSD(contract: string | undefined, balance: number): number | undefined {
+  return isStablecoin(contract) ? balance : undefined;
+}
+
+function suspiciousReasonsFor(addresses: string[]): string[] {
+  const reasons: string[] = [];
+  for (const address of addresses) {
+    if (hasLabelCategory(address, 'ransomware')) reasons.push('Ransomware address involved');
+    if (hasLabelCategory(address, 'mixer')) reasons.push('Mixer involved');
+    if (hasLabelCategory(address, 'sanctioned')) reasons.push('Sanctioned address involved');
+  }
+  return Array.from(new Set(reasons));
+}
+
+/** History-wide totals; account-chain explorers don't report lifetime sums cheaply */
+function flowTotals(address: string, flows: TransactionFlow[], asset: string) {
+  const native = flows.filter(f => f.asset === asset && !f.tokenContract);
+  return {
+    totalReceived: native.filter(f => f.targetAddress === address).reduce((sum, f) => sum + f.amount, 0),
+    totalSent: native.filter(f => f.sourceAddress === address).reduce((sum, f) => sum + f.amount, 0),
+  };
+}
+
+function activitySpan(flows: TransactionFlow[]): { firstSeen: string; lastSeen: string } {
+  if (flows.length === 0) return { firstSeen: 'Unknown', lastSeen: 'Unknown' };
+  const times = flows.map(f => f.timestamp).sort();
+  return { firstSeen: times[0], lastSeen: times[times.length - 1] };
+}
+
+/**
+ * Label risk plus behaviour visible in the fetched history. Collection wallets
+ * in payment scams take many stablecoin payments from unrelated victims and
+ * forward them on quickly, leaving little behind.
+ */
+function scoreActivity(info: BitcoinAddress, flows: TransactionFlow[]): { riskScore: number; riskFactors: string[] } {
+  const { score: labelScore, factors } = scoreLabels(info.address);
+  let score = labelScore;
+
+  if (info.txCount > 1000) {
+    score += 10;
+    factors.push('High transaction volume');
+  }
+
+  const stableIn = flows.filter(f => f.targetAddress === info.address && isStablecoin(f.tokenContract));
+  const senders = new Set(stableIn.map(f => f.sourceAddress));
+  if (senders.size >= 10) {
+    score += 20;
+    factors.push(`Stablecoin payments from ${senders.size} distinct senders (collection wallet pattern)`);
+  }
+
+  // Pass-through: the asset moved most often leaves about as fast as it arrives.
+  // Tokens are told apart by contract, native coins have none.
+  const assetKey = (f: TransactionFlow) => f.tokenContract ? contractKey(f.tokenContract) : f.asset;
+  const counts = new Map<string, number>();
+  flows.forEach(f => counts.set(assetKey(f), (counts.get(assetKey(f)) || 0) + 1));
+  const [mainAsset] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] || [];
+  if (mainAsset) {
+    const moved = flows.filter(f => assetKey(f) === mainAsset);
+    const inbound = moved.filter(f => f.targetAddress === info.address);
+    const received = inbound.reduce((sum, f) => sum + f.amount, 0);
+    const sent = moved.filter(f => f.sourceAddress === info.address).reduce((sum, f) => sum + f.amount, 0);
+    const held = mainAsset === info.asset
+      ? info.balance
+      : info.tokenBalances?.find(t => contractKey(t.contract) === mainAsset)?.balance || 0;
+    if (inbound.length >= 5 && received > 0 && sent >= received * 0.9 && held < received * 0.05) {
+      score += 15;
+      factors.push(`${moved[0].asset} forwarded shortly after receipt (pass-through wallet)`);
+    }
+  }
+
+  if (info.firstSeen !== 'Unknown') {
+    const daysSinceFirst = (Date.now() - new Date(info.firstSeen).getTime()) / (1000 * 60 * 60 * 24);
+    if (daysSinceFirst < 7 && info.balanceUSD > 100000) {
+      score += 15;
+      factors.push('New address with large balance');
+    }
+  }
+
+  return { riskScore: Math.min(score, 100), riskFactors: factors };
+}
+
+/* ============================================================================
+   LITECOIN ADAPTER (BlockCypher)
+============================================================================ */
+
+const litecoinAdapter: ChainAdapter = {
+  chain: 'litecoin',
+
+  async fetchSnapshot(address, limit) {
+    const data = await fetchJSON(`${BLOCKCYPHER_LTC}/addrs/${address}/full?limit=${Math.min(limit, 50)}`);
+    if (!data) return null;
+
+    const transactions: BitcoinTransaction[] = (data.txs || []).map((tx: any): BitcoinTransaction => {
+      const inputs = (tx.inputs || []).map((inp: any) => ({
+        address: inp.addresses?.[0] || 'Unknown',
+        value: toUnits(inp.output_value, 8),
+        prevTxid: inp.prev_hash || '',
+        prevIndex: inp.output_index || 0,
+      }));
+      const outputs = (tx.outputs || []).map((out: any, idx: number) => ({
+        address: out.addresses?.[0] || 'Unknown',
+        value: toUnits(out.value, 8),
+        index: idx,
+        spent: !!out.spent_by,
+        spentTxid: out.spent_by,
+      }));
+      const suspiciousReasons = suspiciousReasonsFor([...inputs, ...outputs].map(leg => leg.address));
+      return {
+        txid: tx.hash,
+        blockHeight: tx.block_height > 0 ? tx.block_height : 0,
+        timestamp: tx.confirmed || tx.received,
+        confirmations: tx.confirmations || 0,
+        fee: tx.fees || 0,
+        feeRate: tx.fees && (tx.vsize || tx.size) ? Math.round(tx.fees / (tx.vsize || tx.size)) : 0,
+        size: tx.size || 0,
+        inputs,
+        outputs,
+        totalInput: inputs.reduce((sum: number, inp: any) => sum + inp.value, 0),
+        totalOutput: outputs.reduce((sum: number, out: any) => sum + out.value, 0),
+        isCoinbase: (tx.inputs || []).some((inp: any) => !inp.prev_hash),
+        isSuspicious: suspiciousReasons.length > 0,
+        suspiciousReasons,
+      };
+    });
+
+    const flows = flowsFromTransactions(address, transactions, 'LTC');
+    const balance = toUnits(data.final_balance ?? data.balance, 8);
+    const info: BitcoinAddress = {
+      address,
+      chain: 'litecoin',
+      asset: 'LTC',
+      format: address.startsWith('ltc1') ? 'bech32' : address.startsWith('M') ? 'segwit' : 'legacy',
+      balance,
+      balanceUSD: balance * await getNativePrice('litecoin'),
+      totalReceived: toUnits(data.total_received, 8),
+      totalSent: toUnits(data.total_sent, 8),
+      txCount: data.final_n_tx ?? data.n_tx ?? transactions.length,
+      firstSeen: transactions.length > 0 ? transactions[transactions.length - 1].timestamp : 'Unknown',
+      lastSeen: transactions.length > 0 ? transactions[0].timestamp : 'Unknown',
+      isExchange: false,
+      riskScore: 0,
+      riskFactors: [],
+      labels: [],
+    };
+    return { info, transactions, flows };
+  },
+};
+
+/* ============================================================================
+   ETHEREUM ADAPTER (Blockscout)
+============================================================================ */
+
+const ethereumAdapter: ChainAdapter = {
+  chain: 'ethereum',
+
+  async fetchSnapshot(rawAddress, limit) {
+    const address = rawAddress.toLowerCase();
+    const account = await fetchJSON(`${BLOCKSCOUT_ETH}/addresses/${address}`);
+    if (!account) return null;
+
+    const [counters, txPage, transferPage, tokenPage] = await Promise.all([
+      fetchOptional(`${BLOCKSCOUT_ETH}/addresses/${address}/counters`, 'Ethereum'),
+      fetchOptional(`${BLOCKSCOUT_ETH}/addresses/${address}/transactions`, 'Ethereum'),
+      fetchOptional(`${BLOCKSCOUT_ETH}/addresses/${address}/token-transfers?type=ERC-20`, 'Ethereum'),
+      fetchOptional(`${BLOCKSCOUT_ETH}/addresses/${address}/tokens?type=ERC-20`, 'Ethereum'),
+    ]);
+
+    const flows: TransactionFlow[] = [];
+
+    // Native ETH; zero-value contract calls carry no funds
+    for (const tx of (txPage?.items || []).slice(0, limit)) {
+      const value = toUnits(tx.value, 18);
+      const from = tx.from?.hash?.toLowerCase();
+      const to = tx.to?.hash?.toLowerCase();
+      if (!value || !from || !to || tx.status === 'error') continue;
+      flows.push({
+        sourceAddress: from,
+        targetAddress: to,
+        amount: value,
+        asset: 'ETH',
+        txid: tx.hash,
+        timestamp: tx.timestamp,
+        hops: 1,
+        pathRisk: 0,
+      });
+    }
+
+    // ERC-20 transfers; zero-amount ones are address-poisoning spam
+    for (const transfer of (transferPage?.items || []).slice(0, limit)) {
+      const from = transfer.from?.hash?.toLowerCase();
+      const to = transfer.to?.hash?.toLowerCase();
+      const amount = toUnits(transfer.total?.value, Number(transfer.total?.decimals ?? transfer.token?.decimals ?? 18));
+      if (!from || !to || !amount) continue;
+      flows.push({
+        sourceAddress: from,
+        targetAddress: to,
+        amount,
+        asset: transfer.token?.symbol || 'ERC20',
+        tokenContract: (transfer.token?.address_hash || transfer.token?.address)?.toLowerCase(),
+        txid: transfer.transaction_hash || transfer.tx_hash,
+        timestamp: transfer.timestamp,
+        hops: 1,
+        pathRisk: 0,
+      });
+    }
+
+    const tokenBalances: TokenBalance[] = (tokenPage?.items || [])
+      .map((item: any): TokenBalance => {
+        const contract = (item.token?.address_hash || item.token?.address || '').toLowerCase();
+        const balance = toUnits(item.value, Number(item.token?.decimals ?? 18));
+        const rate = Number(item.token?.exchange_rate);
+        return {
+          symbol: item.token?.symbol || 'ERC20',
+          contract,
+          balance,
+          balanceUSD: stablecoinUSD(contract, balance) ?? (rate ? balance * rate : undefined),
+        };
+      })
+      .filter((token: TokenBalance) => token.balance > 0);
+
+    const balance = toUnits(account.coin_balance, 18);
+    const info: BitcoinAddress = {
+      address,
+      chain: 'ethereum',
+      asset: 'ETH',
+      format: 'account',
+      balance,
+      balanceUSD: balance * await getNativePrice('ethereum') +
+        tokenBalances.reduce((sum, t) => sum + (t.balanceUSD || 0), 0),
+      tokenBalances,
+      ...flowTotals(address, flows, 'ETH'),
+      txCount: Number(counters?.transactions_count) || flows.length,
+      ...activitySpan(flows),
+      isExchange: false,
+      riskScore: 0,
+      riskFactors: [],
+      labels: account.name ? [account.name] : [],
+    };
+    return { info, transactions: [], flows };
+  },
+};
+
+/* ============================================================================
+   TRON ADAPTER (Tronscan)
+============================================================================ */
+
+const tronAdapter: ChainAdapter = {
+  chain: 'tron',
+
+  async fetchSnapshot(address, limit) {
+    const account = await fetchJSON(`${TRONSCAN}/account?address=${address}`);
+    if (!account || (account.balance === undefined && !account.totalTransactionCount)) return null;
+
+    const [trxPage, trc20Page] = await Promise.all([
+      fetchOptional(`${TRONSCAN}/transfer?address=${address}&limit=${limit}&start=0&sort=-timestamp`, 'Tron'),
+      fetchOptional(`${TRONSCAN}/token_trc20/transfers?relatedAddress=${address}&limit=${limit}&start=0`, 'Tron'),
+    ]);
+
+    const flows: TransactionFlow[] = [];
+
+    // Native TRX; Tronscan lists TRC-10 tokens here too, under their own names
+    for (const transfer of trxPage?.data || []) {
+      if (transfer.tokenName && transfer.tokenName !== '_') continue;
+      const amount = toUnits(transfer.amount, 6);
+      if (!transfer.transferFromAddress || !transfer.transferToAddress || !amount) continue;
+      flows.push({
+        sourceAddress: transfer.transferFromAddress,
+        targetAddress: transfer.transferToAddress,
+        amount,
+        asset: 'TRX',
+        txid: transfer.transactionHash,
+        timestamp: isoFromMillis(transfer.timestamp),
+        hops: 1,
+        pathRisk: 0,
+      });
+    }
+
+    // TRC-20 transfers (USDT-TRC20 and friends), without zero-amount spam
+    for (const transfer of trc20Page?.token_transfers || []) {
+      const amount = toUnits(transfer.quant, Number(transfer.tokenInfo?.tokenDecimal ?? 6));
+      if (!transfer.from_address || !transfer.to_address || !amount) continue;
+      flows.push({
+        sourceAddress: transfer.from_address,
+        targetAddress: transfer.to_address,
+        amount,
+        asset: transfer.tokenInfo?.tokenAbbr?.toUpperCase() || 'TRC20',
+        tokenContract: transfer.tokenInfo?.tokenId || transfer.contract_address,
+        txid: transfer.transaction_id,
+        timestamp: isoFromMillis(transfer.block_ts),
+        hops: 1,
+        pathRisk: 0,
+      });
+    }
+
+    const tokenBalances: TokenBalance[] = (account.trc20token_balances || [])
+      .map((token: any): TokenBalance => {
+        const balance = toUnits(token.balance, Number(token.tokenDecimal ?? 6));
+        const price = Number(token.tokenPriceInUsd);
+        return {
+          symbol: (token.tokenAbbr || 'TRC20').toUpperCase(),
+          contract: token.tokenId,
+          balance,
+          balanceUSD: stablecoinUSD(token.tokenId, balance) ?? (price ? balance * price : undefined),
+        };
+      })
+      .filter((token: TokenBalance) => token.balance > 0);
+
+    const balance = toUnits(account.balance, 6);
+    const span = activitySpan(flows);
+    const info: BitcoinAddress = {
+      address,
+      chain: 'tron',
+      asset: 'TRX',
+      format: 'account',
+      balance,
+      balanceUSD: balance * await getNativePrice('tron') +
+        tokenBalances.reduce((sum, t) => sum + (t.balanceUSD || 0), 0),
+      tokenBalances,
+      ...flowTotals(address, flows, 'TRX'),
+      txCount: account.totalTransactionCount ?? flows.length,
+      firstSeen: account.date_created ? isoFromMillis(account.date_created) : span.firstSeen,
+      lastSeen: span.lastSeen,
+      isExchange: false,
+      riskScore: 0,
+      riskFactors: [],
+      labels: [],
+    };
+    return { info, transactions: [], flows };
+  },
+};
+
+const ADAPTERS: Record<Exclude<CryptoChain, 'bitcoin'>, ChainAdapter> = {
+  litecoin: litecoinAdapter,
+  ethereum: ethereumAdapter,
+  tron: tronAdapter,
+};
+
+/* ============================================================================
+   PUBLIC API
+============================================================================ */
+
+export function detectChain(address: string): CryptoChain | null {
+  const type = detectEntityType(address).type;
+  return type === 'bitcoin' || type === 'ethereum' || type === 'tron' || type === 'litecoin' ? type : null;
+}
+
+export function explorerUrl(chain: CryptoChain, kind: 'address' | 'tx', id: string): string {
+  return `${kind === 'address' ? CHAIN_INFO[chain].addressUrl : CHAIN_INFO[chain].txUrl}${id}`;
+}
+
+/**
+ * Full investigation for an address on any supported chain, detected from
+ * the address format unless given
+ */
+export async function investigateCryptoAddress(
+  address: string,
+  chain: CryptoChain | null = detectChain(address)
+): Promise<CryptoInvestigationResult | null> {
+  if (!chain) return null;
+  if (chain === 'bitcoin') return investigateAddress(address);
+
+  const cacheKey = `crypto:${chain}:${address}`;
+  const cached = await getCachedData(cacheKey);
+  if (cached) return cached;
+
+  try {
+    console.log(`[CryptoChain] Investigating ${CHAIN_INFO[chain].name} address ${address}`);
+    await loadCryptoLabels();
+
+    const snapshot = await ADAPTERS[chain].fetchSnapshot(address, HISTORY_LIMIT);
+    if (!snapshot) {
+      console.log(`[CryptoChain] Address not found: ${address}`);
+      return null;
+    }
+
+    const { info, transactions } = snapshot;
+    const flows = snapshot.flows
+      .map(flow => ({ ...flow, pathRisk: getAddressRisk(flow.sourceAddress === info.address ? flow.targetAddress : flow.sourceAddress) }))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    const exchange = getLabelsForAddress(info.address).find(l => l.category === 'exchange');
+    const investigation = assembleInvestigation(
+      {
+        ...info,
+        ...scoreActivity(info, flows),
+        isExchange: !!exchange,
+        exchangeName: exchange ? exchange.entityName || 'Unknown exchange' : undefined,
+        labels: [...getAddressLabels(info.address), ...info.labels],
+      },
+      transactions,
+      flows
+    );
+
+    // Stablecoin issuers can freeze funds still sitting at the address
+    const atRisk = investigation.riskAssessment.level === 'critical' || investigation.riskAssessment.level === 'high' ||
+      investigation.relatedThreats.knownScam;
+    for (const token of info.tokenBalances || []) {
+      const issuer = FREEZABLE_TOKENS[contractKey(token.contract)];
+      if (atRisk && issuer) {
+        investigation.riskAssessment.recommendations.push(
+          `${token.balance.toLocaleString()} ${STABLECOINS[contractKey(token.contract)]} still held - request a freeze from ${issuer}`
+        );
+      }
+    }
+
+    await cacheAPIResponse(cacheKey, investigation, CACHE_TTL);
+    return investigation;
+  } catch (error) {
+    console.error(`[CryptoChain] ${CHAIN_INFO[chain].name} investigation error:`, error);
+    return null;
+  }
+}
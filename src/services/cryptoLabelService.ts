@@ -0,0 +1,576 @@
+// ============================================================================
+// CRYPTO ATTRIBUTION LABELS
+// ============================================================================
+// Address labels behind crypto risk scoring. Labels come from importable
+// packs (OFAC SDN digital currency addresses, Ransomwhere exports, internal
+// case lists as CSV, JSON or plain text) and from analysts labeling addresses
+// by hand, each with a source, a confidence and a date. The full set lives in
+// IndexedDB so lookups work offline and stay synchronous once loaded; signed-in
+// users also keep their labels in Supabase so they follow them across devices.
+// ============================================================================
+
+import { supabase } from '@/integrations/supabase/client';
+import { deleteCryptoLabels, getCryptoLabels, saveCryptoLabels } from '@/lib/database';
+import { parseCSVLine } from '@/lib/dataParser';
+import type { CryptoLabel, CryptoLabelCategory } from '@/types/osint';
+import { detectEntityType } from './entityDetectionService';
+
+export type { CryptoLabel, CryptoLabelCategory };
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export type LabelPackFormat = 'ofac_sdn' | 'ransomwhere' | 'json' | 'csv' | 'txt';
+
+/** Applied to entries the pack doesn't describe itself, e.g. a bare address list */
+export interface LabelPackDefaults {
+  source: string;             // Empty: OFAC, Ransomwhere or the file name
+  category: CryptoLabelCategory;
+  confidence: number;
+  date?: string;
+  entityName?: string;
+}
+
+export interface LabelPackParseResult {
+  format: LabelPackFormat;
+  labels: CryptoLabel[];
+  skipped: number;            // Entries without a recognisable address
+}
+
+export interface LabelSourceSummary {
+  source: string;
+  count: number;
+  categories: CryptoLabelCategory[];
+  latest: string;
+  builtin: boolean;
+}
+
+export interface AnalystLabelInput {
+  address: string;
+  category: CryptoLabelCategory;
+  entityName?: string;
+  confidence: number;
+  notes?: string;
+  createdBy?: string;
+}
+
+interface CryptoLabelRow {
+  address: string;
+  chain: string;
+  category: CryptoLabelCategory;
+  entity_name: string | null;
+  source: string;
+  confidence: number;
+  observed_at: string | null;
+  notes: string | null;
+  created_by: string | null;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+export const CRYPTO_LABEL_CATEGORIES: CryptoLabelCategory[] = [
+  'ransomware', 'sanctioned', 'darknet', 'mixer', 'scam', 'gambling', 'exchange', 'other',
+];
+
+/**
+ * `risk` is the 0-100 address risk a fully confident label implies;
+ * `scoreWeight` is what the label adds to an address's overall risk score
+ */
+export const CATEGORY_CONFIG: Record<CryptoLabelCategory, { label: string; risk: number; scoreWeight: number; color: string }> = {
+  ransomware: { label: 'Ransomware', risk: 100, scoreWeight: 50, color: '#dc2626' },
+  sanctioned: { label: 'Sanctioned', risk: 100, scoreWeight: 60, color: '#7f1d1d' },
+  darknet: { label: 'Darknet market', risk: 90, scoreWeight: 40, color: '#9333ea' },
+  mixer: { label: 'Mixer', risk: 80, scoreWeight: 30, color: '#f97316' },
+  scam: { label: 'Scam', risk: 80, scoreWeight: 30, color: '#e11d48' },
+  gambling: { label: 'Gambling', risk: 40, scoreWeight: 10, color: '#eab308' },
+  exchange: { label: 'Exchange', risk: 10, scoreWeight: 0, color: '#10b981' },
+  other: { label: 'Other', risk: 30, scoreWeight: 0, color: '#6b7280' },
+};
+
+/** Risk of an address nobody has labeled */
+export const UNLABELED_RISK = 30;
+
+export const BUILTIN_SOURCE = 'Built-in';
+export const ANALYST_SOURCE = 'Analyst';
+
+const OFAC_SOURCE = 'OFAC SDN';
+const RANSOMWHERE_SOURCE = 'Ransomwhere';
+const SYNC_BATCH_SIZE = 500;
+const SYNC_PAGE_SIZE = 1000;
+
+// OFAC currency codes → chain names used elsewhere in the app
+const OFAC_CHAINS: Record<string, string> = {
+  XBT: 'bitcoin',
+  BCH: 'bitcoin-cash',
+  BSV: 'bitcoin-sv',
+  BTG: 'bitcoin-gold',
+  ETH: 'ethereum',
+  ETC: 'ethereum-classic',
+  LTC: 'litecoin',
+  XMR: 'monero',
+  ZEC: 'zcash',
+  DASH: 'dash',
+  TRX: 'tron',
+  USDT: 'tether',
+  USDC: 'usd-coin',
+  XRP: 'ripple',
+  ARB: 'arbitrum',
+  BSC: 'bsc',
+};
+
+// Long-published attributions that ship with the app, kept deliberately small
+const BUILTIN_LABELS: Omit<CryptoLabel, 'id' | 'source' | 'chain'>[] = [
+  { address: 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh', category: 'exchange', entityName: 'Binance', confidence: 70, date: '2023-01-01' },
+  { address: '1NDyJtNTjmwk5xPNhjgAMu4HDHigtobu1s', category: 'exchange', entityName: 'Binance', confidence: 70, date: '2023-01-01' },
+  { address: '3M219KR5vEneNb47ewrPfWyb5jQ2DjxRP6', category: 'exchange', entityName: 'Binance', confidence: 70, date: '2023-01-01' },
+  { address: 'bc1qgdjqv0av3q56jvd82tkdjpy7gdp9ut8tlqmgrpmv24sq90ecnvqqjwvw97', category: 'exchange', entityName: 'Bitfinex', confidence: 70, date: '2023-01-01' },
+  { address: '1Kr6QSydW9bFQG1mXiPNNu6WpJGmUa9i1g', category: 'exchange', entityName: 'Bitfinex', confidence: 70, date: '2023-01-01' },
+  { address: '3JZq4atUahhuA9rLhXLMhhTo133J9rF97j', category: 'exchange', entityName: 'Coinbase', confidence: 70, date: '2023-01-01' },
+  { address: 'bc1q4c8n5t00jmj8temxdgcc3t32nkg2wjwz24lywv', category: 'exchange', entityName: 'Coinbase', confidence: 70, date: '2023-01-01' },
+  { address: '1P5ZEDWTKTFGxQjZphgWPQUpe554WKDfHQ', category: 'exchange', entityName: 'Coinbase', confidence: 70, date: '2023-01-01' },
+  { address: '16ftSEQ4ctQFDtVZiUBusQUjRrGhM3JYwe', category: 'exchange', entityName: 'Kraken', confidence: 70, date: '2023-01-01' },
+  { address: '3FHNBLobJnbCTFTVakh5TXmEneyf5PT61B', category: 'exchange', entityName: 'Kraken', confidence: 70, date: '2023-01-01' },
+  { address: '1FH6ehAd5ZFXCM1cLGzHxK1s4dGdq1JusM', category: 'exchange', entityName: 'Huobi', confidence: 70, date: '2023-01-01' },
+  { address: '1Mz7153HMuxXTuR2R1t78mGSdzaAtNbBWX', category: 'ransomware', entityName: 'WannaCry', confidence: 95, date: '2017-05-12' },
+  { address: '13AM4VW2dhxYgXeQepoHkHSQuy6NgaEb94', category: 'ransomware', entityName: 'WannaCry', confidence: 95, date: '2017-05-12' },
+  { address: '12t9YDPgwueZ9NyMgw519p7AA8isjr6SMw', category: 'ransomware', entityName: 'WannaCry', confidence: 95, date: '2017-05-12' },
+  { address: '1HQ3Go3ggs8pFnXuHVHRytPCq5fGG8Hbhx', category: 'darknet', entityName: 'Silk Road', confidence: 90, date: '2013-10-02' },
+];
+
+/* ============================================================================
+   LABEL INDEX
+============================================================================ */
+
+const labelsById = new Map<string, CryptoLabel>();
+const labelsByAddress = new Map<string, CryptoLabel[]>();
+let loading: Promise<void> | null = null;
+
+/** Bech32 and hex addresses are case-insensitive; base58 is not */
+export function normalizeAddress(address: string): string {
+  const trimmed = address.trim();
+  return /^(bc1|tb1|ltc1|0x)/i.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+}
+
+export function labelId(source: string, category: CryptoLabelCategory, address: string): string {
+  return `${source}|${category}|${normalizeAddress(address)}`;
+}
+
+function builtinLabels(): CryptoLabel[] {
+  return BUILTIN_LABELS.map(label => ({
+    ...label,
+    id: labelId(BUILTIN_SOURCE, label.category, label.address),
+    chain: 'bitcoin',
+    source: BUILTIN_SOURCE,
+  }));
+}
+
+function indexLabels(labels: CryptoLabel[]): void {
+  labels.forEach(label => labelsById.set(label.id, label));
+  labelsByAddress.clear();
+  labelsById.forEach(label => {
+    const key = normalizeAddress(label.address);
+    if (!labelsByAddress.has(key)) labelsByAddress.set(key, []);
+    labelsByAddress.get(key)!.push(label);
+  });
+}
+
+function unindexLabels(ids: string[]): void {
+  ids.forEach(id => labelsById.delete(id));
+  indexLabels([]);
+}
+
+/**
+ * Loads stored labels into memory once per session, then merges the user's
+ * Supabase labels in the background. Call before any synchronous lookup.
+ */
+export function loadCryptoLabels(): Promise<void> {
+  if (!loading) {
+    loading = (async () => {
+      let stored: CryptoLabel[] = [];
+      try {
+        stored = await getCryptoLabels();
+      } catch (error) {
+        console.warn('[CryptoLabels] IndexedDB unavailable, using built-in labels only:', error);
+      }
+      indexLabels([...builtinLabels(), ...stored]);
+      console.log(`[CryptoLabels] Loaded ${labelsById.size} labels`);
+      syncCryptoLabels().catch(error => console.error('[CryptoLabels] Sync failed:', error));
+    })();
+  }
+  return loading;
+}
+
+/* ============================================================================
+   LOOKUP
+============================================================================ */
+
+function labelRiskOf(label: CryptoLabel): number {
+  // A low-confidence label moves the risk only part of the way from the unlabeled baseline
+  return UNLABELED_RISK + (CATEGORY_CONFIG[label.category].risk - UNLABELED_RISK) * (label.confidence / 100);
+}
+
+/** Labels for an address, strongest risk signal first */
+export function getLabelsForAddress(address: string): CryptoLabel[] {
+  return [...(labelsByAddress.get(normalizeAddress(address)) || [])]
+    .sort((a, b) => labelRiskOf(b) - labelRiskOf(a) || b.confidence - a.confidence);
+}
+
+/** 0-100; unlabeled addresses sit at UNLABELED_RISK and exchange labels pull below it */
+export function getAddressRisk(address: string): number {
+  const labels = getLabelsForAddress(address);
+  if (labels.length === 0) return UNLABELED_RISK;
+  const risky = labels.filter(l => CATEGORY_CONFIG[l.category].risk >= UNLABELED_RISK);
+  return Math.round(risky.length > 0 ? labelRiskOf(risky[0]) : Math.min(...labels.map(labelRiskOf)));
+}
+
+export function hasLabelCategory(address: string, category: CryptoLabelCategory): boolean {
+  return getLabelsForAddress(address).some(l => l.category === category);
+}
+
+export function getLabelSources(): LabelSourceSummary[] {
+  const sources = new Map<string, LabelSourceSummary>();
+  labelsById.forEach(label => {
+    const summary = sources.get(label.source) || {
+      source: label.source,
+      count: 0,
+      categories: [],
+      latest: label.date,
+      builtin: label.source === BUILTIN_SOURCE,
+    };
+    summary.count++;
+    if (!summary.categories.includes(label.category)) summary.categories.push(label.category);
+    if (label.date > summary.latest) summary.latest = label.date;
+    sources.set(label.source, summary);
+  });
+  return Array.from(sources.values()).sort((a, b) => Number(a.builtin) - Number(b.builtin) || b.count - a.count);
+}
+
+/* ============================================================================
+   LABEL PACK PARSING
+============================================================================ */
+
+function normalizeCategory(value: unknown, fallback: CryptoLabelCategory): CryptoLabelCategory {
+  const text = String(value ?? '').toLowerCase();
+  if (!text) return fallback;
+  if ((CRYPTO_LABEL_CATEGORIES as string[]).includes(text)) return text as CryptoLabelCategory;
+  if (/ransom/.test(text)) return 'ransomware';
+  if (/sanction|ofac|sdn/.test(text)) return 'sanctioned';
+  if (/dark ?net|darknet|market/.test(text)) return 'darknet';
+  if (/mix|tumbl|coinjoin/.test(text)) return 'mixer';
+  if (/scam|fraud|phish|ponzi|theft|hack/.test(text)) return 'scam';
+  if (/gambl|casino|betting/.test(text)) return 'gambling';
+  if (/exchange|cex|custod|otc/.test(text)) return 'exchange';
+  return 'other';
+}
+
+function normalizeConfidence(value: unknown, fallback: number): number {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (!Number.isFinite(number)) return fallback;
+  // Packs that score 0-1 rather than 0-100
+  return Math.max(0, Math.min(100, Math.round(number <= 1 ? number * 100 : number)));
+}
+
+function normalizeDate(value: unknown, fallback: string): string {
+  if (value === undefined || value === null || value === '') return fallback;
+  const date = typeof value === 'number'
+    ? new Date(value < 1e12 ? value * 1000 : value)
+    : new Date(String(value));
+  return isNaN(date.getTime()) ? fallback : date.toISOString();
+}
+
+/** Chain from the address itself; other chains need the pack to say so */
+function detectChain(address: string, declared?: string): string | null {
+  const detected = detectEntityType(address).type;
+  if (detected === 'bitcoin' || detected === 'tron' || detected === 'litecoin') return detected;
+  if (detected === 'ethereum') return declared?.toLowerCase() || 'ethereum';
+  return declared && /^[A-Za-z0-9:_-]{20,}$/.test(address) ? declared.toLowerCase() : null;
+}
+
+function makeLabel(
+  entry: {
+    address: string;
+    chain?: string;
+    category?: unknown;
+    entityName?: unknown;
+    source?: unknown;
+    confidence?: unknown;
+    date?: unknown;
+    notes?: unknown;
+  },
+  defaults: LabelPackDefaults
+): CryptoLabel | null {
+  const address = normalizeAddress(entry.address || '');
+  const chain = detectChain(address, entry.chain);
+  if (!address || !chain) return null;
+
+  const category = normalizeCategory(entry.category, defaults.category);
+  const source = String(entry.source || '').trim() || defaults.source;
+  const entityName = String(entry.entityName || '').trim() || defaults.entityName;
+  const notes = String(entry.notes || '').trim();
+  return {
+    id: labelId(source, category, address),
+    address,
+    chain,
+    category,
+    ...(entityName ? { entityName } : {}),
+    source,
+    confidence: normalizeConfidence(entry.confidence, defaults.confidence),
+    date: normalizeDate(entry.date, defaults.date || new Date().toISOString()),
+    ...(notes ? { notes } : {}),
+  };
+}
+
+const pick = (record: Record<string, unknown>, keys: string[]): unknown =>
+  keys.map(key => record[key]).find(value => value !== undefined && value !== null && value !== '');
+
+function fromRecord(record: Record<string, unknown>, defaults: LabelPackDefaults): CryptoLabel | null {
+  return makeLabel({
+    address: String(pick(record, ['address', 'addr', 'wallet', 'wallet_address']) ?? ''),
+    chain: pick(record, ['chain', 'blockchain', 'network', 'currency']) as string | undefined,
+    category: pick(record, ['category', 'type', 'tag']),
+    entityName: pick(record, ['entity_name', 'entityName', 'entity', 'name', 'owner', 'family', 'label']),
+    source: pick(record, ['source']),
+    confidence: pick(record, ['confidence', 'score']),
+    date: pick(record, ['date', 'observed_at', 'first_seen', 'firstSeen', 'created_at', 'createdAt']),
+    notes: pick(record, ['notes', 'note', 'description', 'comment']),
+  }, defaults);
+}
+
+// SDN CSV remarks carry entries like "Digital Currency Address - XBT 1ABC...;"
+const OFAC_ADDRESS_PATTERN = /Digital Currency Address - ([A-Z0-9]+)\s+([A-Za-z0-9:_-]+)/g;
+
+function parseOfacSdn(text: string, defaults: LabelPackDefaults): LabelPackParseResult {
+  // One address is often listed under several currencies (ETH and USDT, say)
+  // and label ids ignore the chain, so fold repeats into the first label
+  const labels = new Map<string, CryptoLabel>();
+  const otherChains = new Map<string, Set<string>>();
+  let skipped = 0;
+  for (const line of text.split('\n')) {
+    const matches = [...line.matchAll(OFAC_ADDRESS_PATTERN)];
+    if (matches.length === 0) continue;
+    const name = parseCSVLine(line)[1]?.trim();
+    for (const [, currency, address] of matches) {
+      const label = makeLabel({
+        address,
+        chain: OFAC_CHAINS[currency] || currency.toLowerCase(),
+        category: 'sanctioned',
+        entityName: name,
+      }, { ...defaults, confidence: 100 });
+      if (!label) {
+        skipped++;
+        continue;
+      }
+      const first = labels.get(label.id);
+      if (!first) {
+        labels.set(label.id, label);
+      } else if (label.chain !== first.chain) {
+        if (!otherChains.has(label.id)) otherChains.set(label.id, new Set());
+        otherChains.get(label.id)!.add(label.chain);
+      }
+    }
+  }
+  otherChains.forEach((chains, id) => {
+    const label = labels.get(id)!;
+    label.notes = `Also listed on: ${[...chains].join(', ')}`;
+  });
+  return { format: 'ofac_sdn', labels: [...labels.values()], skipped };
+}
+
+/**
+ * Parse a label pack. Recognises OFAC's SDN CSV, Ransomwhere's JSON export,
+ * generic JSON or CSV with an address column, and bare address lists.
+ */
+export function parseLabelPack(text: string, fileName: string, packDefaults: LabelPackDefaults): LabelPackParseResult {
+  if (text.includes('Digital Currency Address - ')) {
+    return parseOfacSdn(text, { ...packDefaults, source: packDefaults.source || OFAC_SOURCE });
+  }
+  // Without an explicit source, a pack is named after its file
+  const defaults = { ...packDefaults, source: packDefaults.source || fileName.replace(/\.[^.]+$/, '') };
+
+  const collect = (format: LabelPackFormat, entries: (CryptoLabel | null)[]): LabelPackParseResult => {
+    const labels = entries.filter((l): l is CryptoLabel => !!l);
+    // Last entry wins when a pack lists the same label twice
+    const unique = Array.from(new Map(labels.map(l => [l.id, l])).values());
+    return { format, labels: unique, skipped: entries.length - labels.length };
+  };
+
+  const trimmed = text.trim();
+  if (/\.json$/i.test(fileName) || /^[[{]/.test(trimmed)) {
+    const data = JSON.parse(trimmed);
+    // Ransomwhere: { result: [{ address, blockchain, family, createdAt, ... }] }
+    if (Array.isArray(data?.result) && data.result.some((r: Record<string, unknown>) => 'family' in r)) {
+      return collect('ransomwhere', data.result.map((record: Record<string, unknown>) => fromRecord(
+        { ...record, category: 'ransomware' },
+        { ...defaults, source: packDefaults.source || RANSOMWHERE_SOURCE }
+      )));
+    }
+    const records: unknown[] = Array.isArray(data) ? data : data?.labels || data?.data || data?.addresses || [];
+    return collect('json', records.map(record => typeof record === 'string'
+      ? makeLabel({ address: record }, defaults)
+      : fromRecord((record || {}) as Record<string, unknown>, defaults)));
+  }
+
+  const lines = trimmed.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  const header = parseCSVLine(lines[0] || '').map(col => col.trim().toLowerCase().replace(/\s+/g, '_'));
+  if (lines.length > 1 && header.some(col => ['address', 'addr', 'wallet', 'wallet_address'].includes(col))) {
+    return collect('csv', lines.slice(1).map(line => {
+      const values = parseCSVLine(line);
+      return fromRecord(Object.fromEntries(header.map((col, i) => [col, values[i]?.trim()])), defaults);
+    }));
+  }
+
+  // One address per line, optionally followed by a comma and a name
+  return collect('txt', lines.map(line => {
+    const [address, entityName] = line.split(/[,\t]/).map(part => part.trim());
+    return makeLabel({ address, entityName }, defaults);
+  }));
+}
+
+/* ============================================================================
+   PERSISTENCE
+============================================================================ */
+
+function toRow(label: CryptoLabel, userId: string): CryptoLabelRow & { user_id: string } {
+  return {
+    user_id: userId,
+    address: label.address,
+    chain: label.chain,
+    category: label.category,
+    entity_name: label.entityName || null,
+    source: label.source,
+    confidence: label.confidence,
+    observed_at: label.date,
+    notes: label.notes || null,
+    created_by: label.createdBy || null,
+  };
+}
+
+function fromRow(row: CryptoLabelRow): CryptoLabel {
+  return {
+    id: labelId(row.source, row.category, row.address),
+    address: row.address,
+    chain: row.chain,
+    category: row.category,
+    ...(row.entity_name ? { entityName: row.entity_name } : {}),
+    source: row.source,
+    confidence: row.confidence,
+    date: row.observed_at || new Date().toISOString(),
+    ...(row.notes ? { notes: row.notes } : {}),
+    ...(row.created_by ? { createdBy: row.created_by } : {}),
+  };
+}
+
+async function pushLabels(labels: CryptoLabel[]): Promise<boolean> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return false;
+
+  for (let i = 0; i < labels.length; i += SYNC_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('crypto_labels')
+      .upsert(labels.slice(i, i + SYNC_BATCH_SIZE).map(label => toRow(label, user.id)), {
+        onConflict: 'user_id,address,source,category',
+      });
+    if (error) {
+      console.error('[CryptoLabels] Upload failed:', error);
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Merges the signed-in user's labels from Supabase into the local store.
+ * Local labels are kept, so packs imported while signed out survive a sync.
+ */
+export async function syncCryptoLabels(): Promise<number> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return 0;
+
+  const remote: CryptoLabel[] = [];
+  for (let from = 0; ; from += SYNC_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('crypto_labels')
+      .select('address, chain, category, entity_name, source, confidence, observed_at, notes, created_by')
+      .eq('user_id', user.id)
+      .range(from, from + SYNC_PAGE_SIZE - 1);
+    if (error) {
+      console.error('[CryptoLabels] Fetch failed:', error);
+      break;
+    }
+    remote.push(...(data as CryptoLabelRow[]).map(fromRow));
+    if (data.length < SYNC_PAGE_SIZE) break;
+  }
+
+  if (remote.length > 0) {
+    await saveCryptoLabels(remote);
+    indexLabels(remote);
+  }
+  return remote.length;
+}
+
+/** Stores labels locally and, when signed in, in Supabase */
+export async function importCryptoLabels(labels: CryptoLabel[]): Promise<{ saved: number; synced: boolean }> {
+  await loadCryptoLabels();
+  await saveCryptoLabels(labels);
+  indexLabels(labels);
+  const synced = await pushLabels(labels).catch(error => {
+    console.error('[CryptoLabels] Upload failed:', error);
+    return false;
+  });
+  console.log(`[CryptoLabels] Imported ${labels.length} labels${synced ? ' and synced' : ''}`);
+  return { saved: labels.length, synced };
+}
+
+export async function addAnalystLabel(input: AnalystLabelInput): Promise<CryptoLabel | null> {
+  const label = makeLabel(
+    { address: input.address, category: input.category, entityName: input.entityName, notes: input.notes },
+    { source: ANALYST_SOURCE, category: input.category, confidence: input.confidence }
+  );
+  if (!label) return null;
+  const stamped = { ...label, ...(input.createdBy ? { createdBy: input.createdBy } : {}) };
+  await importCryptoLabels([stamped]);
+  return stamped;
+}
+
+async function removeLabels(labels: CryptoLabel[]): Promise<void> {
+  const ids = labels.filter(l => l.source !== BUILTIN_SOURCE).map(l => l.id);
+  if (ids.length === 0) return;
+  await deleteCryptoLabels(ids);
+  unindexLabels(ids);
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+  // Grouped by source and category to keep the delete filters simple
+  const groups = new Map<string, CryptoLabel[]>();
+  labels.forEach(l => {
+    const key = `${l.source}|${l.category}`;
+    groups.set(key, [...(groups.get(key) || []), l]);
+  });
+  for (const group of groups.values()) {
+    for (let i = 0; i < group.length; i += SYNC_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('crypto_labels')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('source', group[0].source)
+        .eq('category', group[0].category)
+        .in('address', group.slice(i, i + SYNC_BATCH_SIZE).map(l => l.address));
+      if (error) console.error('[CryptoLabels] Delete failed:', error);
+    }
+  }
+}
+
+export async function deleteCryptoLabel(id: string): Promise<void> {
+  const label = labelsById.get(id);
+  if (label) await removeLabels([label]);
+}
+
+/** Drops every label from one source, e.g. before importing a replacement pack */
+export async function deleteLabelSource(source: string): Promise<number> {
+  const labels = Array.from(labelsById.values()).filter(l => l.source === source);
+  await removeLabels(labels);
+  return source === BUILTIN_SOURCE ? 0 : labels.length;
+}
@@ -2,6 +2,7 @@
 // Multi-source: NVD, CIRCL, CISA KEV, MITRE GitHub, Exploit-DB, Packet Storm, GitHub PoC
 
 import { cacheAPIResponse, getCachedData } from '@/lib/database';
+import { getEPSS, type EPSSScore } from './epssService';
 
 export interface CVEData {
   id: string;
@@ -19,10 +20,23 @@ export interface CVEData {
   exploitDetails?: ExploitData;
   kev?: KEVData; // CISA Known Exploited Vulnerabilities
   pocRepos?: GitHubPoC[];
+  configurations?: CPEMatch[]; // Vulnerable CPE match criteria, used for asset exposure matching
+  epss?: EPSSScore;
   source: 'nvd' | 'circl' | 'mitre' | 'combined';
 }
 
+// One vulnerable CPE match criterion. NVD supplies these directly; CVE 5.0
+// "affected" entries are converted into the same shape.
+export interface CPEMatch {
+  criteria: string; // cpe:2.3:part:vendor:product:version:...
+  versionStartIncluding?: string;
+  versionStartExcluding?: string;
+  versionEndIncluding?: string;
+  versionEndExcluding?: string;
+}
+
 export interface KEVData {
+  cveID: string;
   vendorProject: string;
   product: string;
   vulnerabilityName: string;
@@ -254,6 +268,70 @@ async function searchNVD(query: string, limit: number): Promise<CVEData[]> {
   }
 }
 
+// NVD allows 5 requests per rolling 30 seconds without an API key
+const NVD_REQUEST_INTERVAL = 6000;
+const NVD_PAGE_SIZE = 2000;       // The API maximum
+let lastNVDRequest = 0;
+
+async function waitForNVDSlot(): Promise<void> {
+  const wait = lastNVDRequest + NVD_REQUEST_INTERVAL - Date.now();
+  if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+  lastNVDRequest = Date.now();
+}
+
+// CVEs whose configurations cover a vendor/product, e.g. cpe:2.3:*:apache:log4j.
+// Version filtering is left to the caller so one lookup serves every installed version.
+// Popular products have thousands of CVEs, so every page is fetched, each in its own rate-limit slot.
+export async function searchNVDByCPE(vendor: string, product: string, pageSize = NVD_PAGE_SIZE): Promise<CVEData[]> {
+  const matchString = `cpe:2.3:*:${vendor}:${product}`;
+  const cacheKey = `cve:nvd:cpe:${matchString}`;
+  const cached = await getCachedData(cacheKey);
+  if (cached) return cached;
+
+  const cves: CVEData[] = [];
+  let startIndex = 0;
+  let totalResults = 0;
+  do {
+    await waitForNVDSlot();
+    const response = await fetch(
+      `https://services.nvd.nist.gov/rest/json/cves/2.0?virtualMatchString=${encodeURIComponent(matchString)}&noRejected&resultsPerPage=${pageSize}&startIndex=${startIndex}`
+    );
+    if (!response.ok) throw new Error(`NVD API error: ${response.status} ${response.statusText}`);
+
+    const data = await response.json();
+    const fetched = (data.vulnerabilities || []).length;
+    cves.push(...parseNVDResponse(data));
+    totalResults = data.totalResults || 0;
+    startIndex += fetched;
+    if (fetched === 0) break;
+  } while (startIndex < totalResults);
+
+  await cacheAPIResponse(cacheKey, cves, CVE_CACHE_TTL);
+  return cves;
+}
+
+// Flatten NVD configuration nodes into their vulnerable match criteria.
+// Platform-only criteria ("running on") are not vulnerable themselves and are skipped.
+function parseNVDConfigurations(cve: any): CPEMatch[] {
+  const matches: CPEMatch[] = [];
+  for (const config of cve.configurations || []) {
+    for (const node of config.nodes || []) {
+      if (node.negate) continue;
+      for (const m of node.cpeMatch || []) {
+        if (!m.vulnerable || !m.criteria) continue;
+        matches.push({
+          criteria: m.criteria,
+          versionStartIncluding: m.versionStartIncluding,
+          versionStartExcluding: m.versionStartExcluding,
+          versionEndIncluding: m.versionEndIncluding,
+          versionEndExcluding: m.versionEndExcluding,
+        });
+      }
+    }
+  }
+  return matches;
+}
+
 function parseNVDResponse(data: any): CVEData[] {
   const cves: CVEData[] = [];
   
@@ -276,6 +354,7 @@ function parseNVDResponse(data: any): CVEData[] {
         w.description?.map((d: any) => d.value) || []
       ),
       exploitAvailable: false,
+      configurations: parseNVDConfigurations(cve),
       source: 'nvd',
     });
   }
@@ -317,6 +396,47 @@ async function getCVEFromCIRCL(cveId: string): Promise<CVEData | null> {
   }
 }
 
+// Convert CVE 5.0 "affected" entries into CPE match criteria. Entries that list
+// CPEs are used as-is; otherwise vendor/product plus the affected version ranges
+// are turned into application CPEs.
+function parseCVE5Affected(cna: any): CPEMatch[] {
+  const matches: CPEMatch[] = [];
+  const cpePart = (value: string) => value.trim().toLowerCase().replace(/\s+/g, '_').replace(/:/g, '\\:');
+
+  for (const affected of Array.isArray(cna?.affected) ? cna.affected : []) {
+    const versions = (Array.isArray(affected.versions) ? affected.versions : [])
+      .filter((v: any) => (v.status || affected.defaultStatus) === 'affected');
+    const bases: string[] = Array.isArray(affected.cpes) && affected.cpes.length > 0
+      ? affected.cpes.filter((c: any) => typeof c === 'string' && c.startsWith('cpe:2.3:'))
+      : affected.vendor && affected.product && affected.vendor !== 'n/a' && affected.product !== 'n/a'
+        ? [`cpe:2.3:a:${cpePart(affected.vendor)}:${cpePart(affected.product)}:*:*:*:*:*:*:*:*`]
+        : [];
+
+    for (const base of bases) {
+      const fields = base.split(':');
+      if (versions.length === 0) {
+        if (affected.defaultStatus === 'affected') matches.push({ criteria: base });
+        continue;
+      }
+      for (const v of versions) {
+        if (v.versionType === 'git') continue; // Commit hashes can't be compared to installed versions
+        const version = String(v.version || '').trim();
+        const open = !version || version === '*' || version === '0' || version === 'n/a';
+        if (v.lessThan || v.lessThanOrEqual) {
+          const match: CPEMatch = { criteria: base };
+          if (!open) match.versionStartIncluding = version;
+          if (v.lessThan && v.lessThan !== '*') match.versionEndExcluding = String(v.lessThan);
+          else if (v.lessThanOrEqual && v.lessThanOrEqual !== '*') match.versionEndIncluding = String(v.lessThanOrEqual);
+          matches.push(match);
+        } else if (!open) {
+          matches.push({ criteria: [...fields.slice(0, 5), cpePart(version), ...fields.slice(6)].join(':') });
+        }
+      }
+    }
+  }
+  return matches;
+}
+
 // Parse CVE JSON 5.0 format (used by CIRCL and MITRE)
 function parseCVE5Format(data: any): CVEData | null {
   if (!data || !data.cveMetadata) return null;
@@ -398,6 +518,7 @@ function parseCVE5Format(data: any): CVEData | null {
     references,
     cwe: cweIds,
     exploitAvailable: false,
+    configurations: parseCVE5Affected(cna),
     source: 'circl',
   };
 }
@@ -487,8 +608,15 @@ const KEV_CACHE_DURATION = 3600000; // 1 hour
 
 export async function getCISAKEV(): Promise<KEVData[]> {
   const cacheKey = 'cve:cisa:kev';
-  const cached = await getCachedData(cacheKey);
-  if (cached) return cached;
+  const cached: KEVData[] | null = await getCachedData(cacheKey);
+  // Entries cached before cveID was kept can't rebuild the lookup, so refetch those
+  if (cached?.[0]?.cveID) {
+    if (!kevCache || Date.now() - kevCacheTime > KEV_CACHE_DURATION) {
+      kevCache = new Map(cached.map(kev => [kev.cveID, kev]));
+      kevCacheTime = Date.now();
+    }
+    return cached;
+  }
   
   try {
     console.log('[CVE] Fetching CISA KEV catalog...');
@@ -504,6 +632,7 @@ export async function getCISAKEV(): Promise<KEVData[]> {
     
     const kevData: KEVData[] = vulnerabilities.map((v: any) => {
       const kev: KEVData = {
+        cveID: v.cveID,
         vendorProject: v.vendorProject,
         product: v.product,
         vulnerabilityName: v.vulnerabilityName,
@@ -572,6 +701,7 @@ export async function getCVEFromMITRE(cveId: string): Promise<CVEData | null> {
       references: (cna.references || []).map((r: any) => r.url).slice(0, 10),
       cwe: (cna.problemTypes?.[0]?.descriptions || []).map((d: any) => d.cweId).filter(Boolean),
       exploitAvailable: false,
+      configurations: parseCVE5Affected(cna),
       source: 'mitre',
     };
   } catch (error) {
@@ -673,6 +803,7 @@ export async function getCVEDetails(cveId: string): Promise<CVEData | null> {
               w.description?.map((d: any) => d.value) || []
             ),
             exploitAvailable: false,
+            configurations: parseNVDConfigurations(cve),
             source: 'nvd',
           };
         }
@@ -717,12 +848,10 @@ export async function getCVEDetails(cveId: string): Promise<CVEData | null> {
       cveData.exploitDetails = exploits[0];
     }
     
-    // Search for GitHub PoCs
+    // Search for GitHub PoCs; an empty list records that the search was made
     const pocs = await searchGitHubPoC(cveId);
-    if (pocs.length > 0) {
-      cveData.exploitAvailable = true;
-      cveData.pocRepos = pocs;
-    }
+    cveData.pocRepos = pocs;
+    if (pocs.length > 0) cveData.exploitAvailable = true;
 
     await cacheAPIResponse(cacheKey, cveData, CVE_CACHE_TTL);
     return cveData;
@@ -778,6 +907,7 @@ export async function getRecentCVEs(days = 7, limit = 50): Promise<CVEData[]> {
           w.description?.map((d: any) => d.value) || []
         ).slice(0, 2),
         exploitAvailable: false,
+        configurations: parseNVDConfigurations(cve),
         source: 'nvd',
       });
     }
@@ -941,11 +1071,12 @@ export async function getComprehensiveCVEIntel(cveId: string): Promise<Comprehen
     console.log(`[CVE Intel] Getting comprehensive data for: ${cveId}`);
     
     // Fetch all data in parallel
-    const [cveDetails, kev, exploits, pocs] = await Promise.all([
+    const [cveDetails, kev, exploits, pocs, epss] = await Promise.all([
       getCVEDetails(cveId),
       isKnownExploited(cveId),
       searchExploitDB(cveId, 5),
       searchGitHubPoC(cveId),
+      getEPSS([cveId]),
     ]);
     
     if (!cveDetails) {
@@ -964,6 +1095,7 @@ export async function getComprehensiveCVEIntel(cveId: string): Promise<Comprehen
       exploits,
       githubPoCs: pocs,
       packetStormRefs: psRefs,
+      epss: epss.get(cveId.toUpperCase()),
       exploitAvailable: exploits.length > 0 || pocs.length > 0 || !!kev,
     };
   } catch (error) {
@@ -5,6 +5,13 @@
 // Creates risk scores and priority assessments
 // ============================================================================
 
+import { buildStixBundle } from '@/services/stixService';
+import { buildMispEvent } from '@/services/mispFeedService';
+import { validateYara } from '@/services/yaraRuleService';
+import { validateSigma } from '@/services/sigmaRuleService';
+import { buildNetworkBlocklists, type BlocklistOptions } from '@/services/networkBlocklistService';
+import { uuidV5 } from '@/lib/stableId';
+
 /* ============================================================================
    TYPES
 ============================================================================ */
@@ -21,6 +28,7 @@ export interface YARARule {
   condition: string;
   ruleContent: string;
   confidence: number;
+  validation?: RuleValidationResult;
 }
 
 export interface YARAString {
@@ -47,6 +55,20 @@ export interface SigmaRule {
   tags: string[];
   falsepositives: string[];
   ruleContent: string;
+  validation?: RuleValidationResult;
+}
+
+export interface RuleIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number;
+  column?: number;
+  rule?: string;
+}
+
+export interface RuleValidationResult {
+  valid: boolean; // No errors; warnings are allowed
+  issues: RuleIssue[];
 }
 
 export interface IOCList {
@@ -58,6 +80,7 @@ export interface IOCList {
   expiry?: string;
   format: 'stix' | 'csv' | 'json' | 'misp' | 'openioc';
   indicators: IOCIndicator[];
+  content?: string; // Serialized document for exchange formats (STIX bundle, etc.)
   stats: {
     total: number;
     byType: Record<string, number>;
@@ -80,13 +103,17 @@ export interface NetworkBlocklist {
   id: string;
   name: string;
   description: string;
-  format: 'plain' | 'hosts' | 'dnsmasq' | 'bind' | 'unbound' | 'pfsense';
+  format:
+    | 'plain' | 'hosts' | 'dnsmasq' | 'bind' | 'unbound' | 'pfsense'
+    | 'suricata' | 'suricata_iprep' | 'snort' | 'nftables' | 'iptables' | 'paloalto_edl';
   entries: string[];
+  content?: string; // Push-ready file (zone, rules, config) when it differs from the entry list
   generated: string;
   stats: {
     ips: number;
     domains: number;
     total: number;
+    allowlisted?: number; // Addresses and domains removed by the allowlist or reserved ranges
   };
 }
 
@@ -118,6 +145,7 @@ export interface DetectionPackage {
     totalRules: number;
     totalIOCs: number;
     criticalFindings: number;
+    invalidRules: number; // Rules that fail YARA/Sigma validation
     generatedAt: string;
   };
 }
@@ -126,37 +154,48 @@ export interface DetectionPackage {
    CONSTANTS
 ============================================================================ */
 
+// Namespace for generated Sigma rule ids (UUIDv5 over the rule's seed)
+const SIGMA_RULE_NAMESPACE = '9e7c2b1d-5a43-4f8e-a06b-3c5d8f1e2a74';
+
 // MITRE ATT&CK mapping for detection
-const MITRE_DETECTIONS: Record<string, { logsource: string; detection_patterns: string[] }> = {
+const MITRE_DETECTIONS: Record<string, { name: string; logsource: string; detection_patterns: string[] }> = {
   'T1059.001': { // PowerShell
+    name: 'PowerShell',
     logsource: 'windows/powershell',
     detection_patterns: ['ScriptBlockText', 'CommandInvocation', '-enc', '-nop', 'IEX'],
   },
   'T1059.003': { // Windows Command Shell
+    name: 'Windows Command Shell',
     logsource: 'windows/process_creation',
     detection_patterns: ['cmd.exe', '/c', '/k', 'whoami', 'net user'],
   },
   'T1555': { // Credentials from Password Stores
+    name: 'Credentials from Password Stores',
     logsource: 'windows/file_access',
     detection_patterns: ['Login Data', 'logins.json', 'key3.db', 'key4.db', 'cookies.sqlite'],
   },
   'T1539': { // Steal Web Session Cookie
+    name: 'Steal Web Session Cookie',
     logsource: 'windows/file_access',
     detection_patterns: ['Cookies', 'cookies.sqlite', 'Local State'],
   },
   'T1552': { // Unsecured Credentials
+    name: 'Unsecured Credentials',
     logsource: 'windows/file_access',
     detection_patterns: ['.env', 'credentials', 'config.json', 'secrets'],
   },
   'T1486': { // Data Encrypted for Impact
+    name: 'Data Encrypted for Impact',
     logsource: 'windows/file_event',
     detection_patterns: ['ransomware', '.encrypted', '.locked', 'ransom'],
   },
   'T1071.001': { // Application Layer Protocol: Web
+    name: 'Web Protocols',
     logsource: 'network/proxy',
     detection_patterns: ['POST', 'User-Agent', 'Content-Type'],
   },
   'T1105': { // Ingress Tool Transfer
+    name: 'Ingress Tool Transfer',
     logsource: 'windows/process_creation',
     detection_patterns: ['certutil', 'bitsadmin', 'curl', 'wget', 'powershell downloadstring'],
   },
@@ -200,14 +239,22 @@ const MALWARE_SIGNATURES: Record<string, { strings: string[]; hex: string[] }> =
 export function generateDetectionPackage(
   malwareFamily: string,
   indicators: IOCIndicator[],
-  ttps: string[] = []
+  ttps: string[] = [],
+  blocklistOptions: BlocklistOptions = {}
 ): DetectionPackage {
   console.log(`[DetectionEngine] Generating package for ${malwareFamily}`);
   
-  const yaraRules = generateYARARules(malwareFamily, indicators);
-  const sigmaRules = generateSigmaRules(malwareFamily, indicators, ttps);
-  const iocLists = generateIOCLists(malwareFamily, indicators);
-  const networkBlocklists = generateNetworkBlocklists(malwareFamily, indicators);
+  const yaraRules = generateYARARules(malwareFamily, indicators)
+    .map(rule => ({ ...rule, validation: validateYara(rule.ruleContent) }));
+  const sigmaRules = generateSigmaRules(malwareFamily, indicators, ttps)
+    .map(rule => ({ ...rule, validation: validateSigma(rule.ruleContent) }));
+  const invalidRules = [...yaraRules, ...sigmaRules].filter(r => !r.validation.valid);
+  if (invalidRules.length > 0) {
+    console.warn(`[DetectionEngine] ${invalidRules.length} generated rules failed validation:`,
+      invalidRules.map(r => ('name' in r ? r.name : r.title)));
+  }
+  const iocLists = generateIOCLists(malwareFamily, indicators, ttps);
+  const networkBlocklists = generateNetworkBlocklists(malwareFamily, indicators, blocklistOptions);
   const riskAssessments = generateRiskAssessments(malwareFamily, indicators, ttps);
   
   return {
@@ -220,6 +267,7 @@ export function generateDetectionPackage(
       totalRules: yaraRules.length + sigmaRules.length,
       totalIOCs: indicators.length,
       criticalFindings: riskAssessments.filter(r => r.priority === 'critical').length,
+      invalidRules: invalidRules.length,
       generatedAt: new Date().toISOString(),
     },
   };
@@ -256,30 +304,33 @@ export function generateYARARules(family: string, indicators: IOCIndicator[]): Y
       });
     });
     
-    // Add hash indicators
-    const hashIndicators = indicators.filter(i => i.type.startsWith('hash_'));
-    hashIndicators.slice(0, 5).forEach((ind, i) => {
-      if (ind.type === 'hash_sha256') {
-        yaraStrings.push({
-          id: `$hash${i + 1}`,
-          type: 'hex',
-          value: ind.value,
-        });
-      }
-    });
+    // File hashes are matched with the hash module, not as byte patterns
+    const sha256Hashes = indicators
+      .filter(i => i.type === 'hash_sha256' && /^[a-f0-9]{64}$/i.test(i.value))
+      .slice(0, 5)
+      .map(i => i.value.toLowerCase());
     
-    const condition = yaraStrings.length > 3 
-      ? `2 of ($s*) or any of ($h*)`
-      : `any of them`;
+    const textCount = signatures.strings.length;
+    const stringCondition = yaraStrings.length > 3
+      ? [
+          textCount >= 2 ? '2 of ($s*)' : textCount === 1 ? '$s1' : null,
+          signatures.hex.length > 0 ? 'any of ($h*)' : null,
+        ].filter(Boolean).join(' or ')
+      : 'any of them';
+    const condition = [
+      yaraStrings.length > 0 ? stringCondition : null,
+      ...sha256Hashes.map(h => `hash.sha256(0, filesize) == "${h}"`),
+    ].filter(Boolean).join(' or ') || 'false';
     
     const ruleContent = formatYARARule({
-      name: `${family.replace(/[^a-zA-Z0-9]/g, '_')}_Detector`,
+      name: `${yaraIdentifier(family)}_Detector`,
       description: `Detects ${family} malware family`,
       author: 'OSINT Hub Detection Engine',
       date: new Date().toISOString().split('T')[0],
       tags: [`malware.${family.toLowerCase()}`, 'auto_generated'],
       strings: yaraStrings,
       condition,
+      imports: sha256Hashes.length > 0 ? ['hash'] : [],
     });
     
     rules.push({
@@ -308,7 +359,7 @@ export function generateYARARules(family: string, indicators: IOCIndicator[]): Y
     }));
     
     const ruleContent = formatYARARule({
-      name: `${family.replace(/[^a-zA-Z0-9]/g, '_')}_Network_IOCs`,
+      name: `${yaraIdentifier(family)}_Network_IOCs`,
       description: `Network indicators for ${family}`,
       author: 'OSINT Hub Detection Engine',
       date: new Date().toISOString().split('T')[0],
@@ -335,6 +386,23 @@ export function generateYARARules(family: string, indicators: IOCIndicator[]): Y
   return rules;
 }
 
+// Rule identifiers are [A-Za-z_][A-Za-z0-9_]* and at most 128 characters
+function yaraIdentifier(name: string): string {
+  const id = name.replace(/[^a-zA-Z0-9_]/g, '_');
+  return (/^[0-9]/.test(id) ? `_${id}` : id).slice(0, 100);
+}
+
+function escapeYaraString(value: string): string {
+  return value.replace(/[\\"]|[^\x20-\x7e]/g, ch => {
+    if (ch === '\\' || ch === '"') return `\\${ch}`;
+    if (ch === '\n') return '\\n';
+    if (ch === '\t') return '\\t';
+    if (ch === '\r') return '\\r';
+    // Non-ASCII characters become their UTF-8 bytes
+    return Array.from(new TextEncoder().encode(ch), b => `\\x${b.toString(16).padStart(2, '0')}`).join('');
+  });
+}
+
 function formatYARARule(config: {
   name: string;
   description: string;
@@ -343,14 +411,13 @@ function formatYARARule(config: {
   tags: string[];
   strings: YARAString[];
   condition: string;
+  imports?: string[];
 }): string {
-  const tagsStr = config.tags.map(t => `"${t}"`).join(' ');
-  
   let stringsSection = '';
   for (const s of config.strings) {
     if (s.type === 'text') {
       const mods = s.modifiers?.join(' ') || '';
-      stringsSection += `        ${s.id} = "${s.value}" ${mods}\n`;
+      stringsSection += `        ${s.id} = "${escapeYaraString(s.value)}" ${mods}`.trimEnd() + '\n';
     } else if (s.type === 'hex') {
       stringsSection += `        ${s.id} = { ${s.value} }\n`;
     } else if (s.type === 'regex') {
@@ -358,15 +425,18 @@ function formatYARARule(config: {
     }
   }
   
-  return `rule ${config.name} {
+  const importsSection = (config.imports || []).map(m => `import "${m}"\n`).join('') + (config.imports?.length ? '\n' : '');
+  const strings = stringsSection ? `
+    strings:
+${stringsSection}` : '';
+  
+  return `${importsSection}rule ${config.name} {
     meta:
-        description = "${config.description}"
-        author = "${config.author}"
+        description = "${escapeYaraString(config.description)}"
+        author = "${escapeYaraString(config.author)}"
         date = "${config.date}"
-        tags = ${tagsStr}
-    
-    strings:
-${stringsSection}
+        tags = "${escapeYaraString(config.tags.join(' '))}"
+    ${strings}
     condition:
         ${config.condition}
 }`;
@@ -399,8 +469,15 @@ export function generateSigmaRules(
   
   if (networkIndicators.length > 0) {
     const detectionValues = networkIndicators.slice(0, 50).map(i => i.value);
+    const hostnames = detectionValues.filter(v => !v.match(/^\d+\.\d+\.\d+\.\d+$/));
+    const ips = detectionValues.filter(v => v.match(/^\d+\.\d+\.\d+\.\d+$/));
     
-    rules.push({
+    // One selection per non-empty field so an IP-only list doesn't emit an empty DestinationHostname
+    const selections: Record<string, Record<string, string[]>> = {};
+    if (hostnames.length > 0) selections.selection_host = { DestinationHostname: hostnames };
+    if (ips.length > 0) selections.selection_ip = { DestinationIp: ips };
+    
+    rules.push(withSigmaContent({
       id: `sigma-${family.toLowerCase()}-network`,
       title: `${family} Network IOC Detection`,
       description: `Detects network connections to known ${family} infrastructure`,
@@ -412,30 +489,17 @@ export function generateSigmaRules(
         product: 'any',
       },
       detection: {
-        selection: {
-          DestinationHostname: detectionValues.filter(v => !v.match(/^\d+\.\d+\.\d+\.\d+$/)),
-          DestinationIp: detectionValues.filter(v => v.match(/^\d+\.\d+\.\d+\.\d+$/)),
-        },
-        condition: 'selection',
+        ...selections,
+        condition: '1 of selection_*',
       },
       level: 'high',
-      tags: [`attack.${family.toLowerCase()}`, 'attack.command_and_control'],
+      tags: [`attack.${sigmaTag(family)}`, 'attack.command_and_control'],
       falsepositives: ['Legitimate traffic to shared hosting'],
-      ruleContent: formatSigmaRule({
-        title: `${family} Network IOC Detection`,
-        status: 'experimental',
-        logsource: { category: 'network_connection', product: 'any' },
-        detection: {
-          selection: { DestinationHostname: detectionValues.slice(0, 10) },
-          condition: 'selection',
-        },
-        level: 'high',
-      }),
-    });
+    }));
   }
   
   // Process creation rule (generic malware behavior)
-  rules.push({
+  rules.push(withSigmaContent({
     id: `sigma-${family.toLowerCase()}-process`,
     title: `${family} Suspicious Process Execution`,
     description: `Detects suspicious process patterns associated with ${family}`,
@@ -458,19 +522,9 @@ export function generateSigmaRules(
       condition: 'selection',
     },
     level: 'medium',
-    tags: [`attack.${family.toLowerCase()}`, 'attack.execution'],
+    tags: [`attack.${sigmaTag(family)}`, 'attack.execution'],
     falsepositives: ['Legitimate administrative tools'],
-    ruleContent: formatSigmaRule({
-      title: `${family} Suspicious Process Execution`,
-      status: 'experimental',
-      logsource: { category: 'process_creation', product: 'windows' },
-      detection: {
-        selection: { CommandLine: [`*${family.toLowerCase()}*`] },
-        condition: 'selection',
-      },
-      level: 'medium',
-    }),
-  });
+  }));
   
   return rules;
 }
@@ -478,11 +532,12 @@ export function generateSigmaRules(
 function generateSigmaFromTTP(
   family: string,
   ttp: string,
-  detection: { logsource: string; detection_patterns: string[] }
+  detection: { name: string; logsource: string; detection_patterns: string[] }
 ): SigmaRule | null {
-  const [category, product] = detection.logsource.split('/');
+  // MITRE_DETECTIONS logsources are "product/category"; "network" is not a Sigma product
+  const [product, category] = detection.logsource.split('/');
   
-  return {
+  return withSigmaContent({
     id: `sigma-${family.toLowerCase()}-${ttp.toLowerCase()}`,
     title: `${family} - ${ttp} Detection`,
     description: `Detects ${ttp} technique used by ${family}`,
@@ -491,7 +546,7 @@ function generateSigmaFromTTP(
     date: new Date().toISOString().split('T')[0],
     logsource: {
       category,
-      product: product || 'any',
+      product: product === 'network' ? undefined : product,
     },
     detection: {
       selection: {
@@ -500,47 +555,81 @@ function generateSigmaFromTTP(
       condition: 'selection',
     },
     level: 'high',
-    tags: [`attack.${ttp.toLowerCase()}`, `attack.${family.toLowerCase()}`],
+    tags: [`attack.${ttp.toLowerCase()}`, `attack.${sigmaTag(family)}`],
     falsepositives: ['Legitimate administrative activity'],
-    ruleContent: formatSigmaRule({
-      title: `${family} - ${ttp} Detection`,
-      status: 'experimental',
-      logsource: { category, product: product || 'any' },
-      detection: {
-        selection: { CommandLine: detection.detection_patterns.map(p => `*${p}*`) },
-        condition: 'selection',
-      },
-      level: 'high',
-    }),
-  };
+  });
 }
 
-function formatSigmaRule(config: {
-  title: string;
-  status: string;
-  logsource: Record<string, string>;
-  detection: Record<string, any>;
-  level: string;
-}): string {
-  return `title: ${config.title}
-status: ${config.status}
-logsource:
-    category: ${config.logsource.category || 'any'}
-    product: ${config.logsource.product || 'any'}
-detection:
-    selection:
-${Object.entries(config.detection.selection || {}).map(([k, v]) => 
-  `        ${k}:\n${Array.isArray(v) ? v.map(val => `            - '${val}'`).join('\n') : `            - '${v}'`}`
-).join('\n')}
-    condition: selection
-level: ${config.level}`;
+// Sigma tags are lowercase namespace.value without spaces
+function sigmaTag(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9._-]+/g, '_');
+}
+
+function withSigmaContent(rule: Omit<SigmaRule, 'ruleContent'>): SigmaRule {
+  return { ...rule, ruleContent: formatSigmaRule(rule) };
+}
+
+// Stable UUID for a generated rule id, so re-generated rules update in the SIEM instead of duplicating
+function sigmaRuleUuid(seed: string): string {
+  return uuidV5(seed, SIGMA_RULE_NAMESPACE);
+}
+
+// Quote anything YAML could read as another type, an alias/anchor/tag or a mapping
+function yamlScalar(value: unknown, alwaysQuote = false): string {
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (value === null || value === undefined) return 'null';
+  const text = String(value);
+  const plainSafe = /^[A-Za-z_][\w .()/\\-]*$/.test(text)
+    && !/^(true|false|yes|no|on|off|null)$/i.test(text)
+    && !/\s$/.test(text);
+  return !alwaysQuote && plainSafe ? text : `'${text.replace(/'/g, "''")}'`;
+}
+
+function formatSigmaRule(rule: Omit<SigmaRule, 'ruleContent'>): string {
+  const lines: string[] = [
+    `title: ${yamlScalar(rule.title)}`,
+    `id: ${sigmaRuleUuid(rule.id)}`,
+    `status: ${rule.status}`,
+    `description: ${yamlScalar(rule.description)}`,
+    `author: ${yamlScalar(rule.author)}`,
+    `date: ${rule.date}`,
+    'logsource:',
+    ...Object.entries(rule.logsource)
+      .filter(([, v]) => v)
+      .map(([k, v]) => `    ${k}: ${yamlScalar(v)}`),
+    'detection:',
+  ];
+  
+  for (const [name, selection] of Object.entries(rule.detection)) {
+    if (name === 'condition') continue;
+    lines.push(`    ${name}:`);
+    for (const [field, value] of Object.entries(selection as Record<string, unknown>)) {
+      if (Array.isArray(value)) {
+        lines.push(`        ${field}:`);
+        value.forEach(v => lines.push(`            - ${yamlScalar(v, true)}`));
+      } else {
+        lines.push(`        ${field}: ${yamlScalar(value, true)}`);
+      }
+    }
+  }
+  lines.push(`    condition: ${rule.detection.condition}`);
+  
+  if (rule.falsepositives.length > 0) {
+    lines.push('falsepositives:', ...rule.falsepositives.map(f => `    - ${yamlScalar(f)}`));
+  }
+  lines.push(`level: ${rule.level}`);
+  if (rule.tags.length > 0) {
+    lines.push('tags:', ...rule.tags.map(t => `    - ${t}`));
+  }
+  
+  return lines.join('\n');
 }
 
 /* ============================================================================
    IOC LIST GENERATION
 ============================================================================ */
 
-export function generateIOCLists(family: string, indicators: IOCIndicator[]): IOCList[] {
+export function generateIOCLists(family: string, indicators: IOCIndicator[], ttps: string[] = []): IOCList[] {
   const lists: IOCList[] = [];
   
   // Group by type
@@ -587,6 +676,40 @@ export function generateIOCLists(family: string, indicators: IOCIndicator[]): IO
     },
   });
   
+  // STIX 2.1 bundle for sharing with partner SOCs
+  lists.push({
+    id: `ioc-${family.toLowerCase()}-stix`,
+    name: `${family} STIX 2.1 Bundle`,
+    description: 'STIX 2.1 indicators linked to the malware family',
+    family,
+    generated: new Date().toISOString(),
+    format: 'stix',
+    indicators,
+    content: JSON.stringify(buildStixBundle({ family, indicators }), null, 2),
+    stats: {
+      total: indicators.length,
+      byType: Object.fromEntries([...byType.entries()].map(([k, v]) => [k, v.length])),
+      bySeverity: {},
+    },
+  });
+  
+  // MISP event for the partner sharing community
+  lists.push({
+    id: `ioc-${family.toLowerCase()}-misp`,
+    name: `${family} MISP Event`,
+    description: 'MISP event with typed attributes, TLP and ATT&CK galaxy tags',
+    family,
+    generated: new Date().toISOString(),
+    format: 'misp',
+    indicators,
+    content: JSON.stringify(buildMispEvent({ info: `${family} indicators`, family, indicators, ttps }), null, 2),
+    stats: {
+      total: indicators.length,
+      byType: Object.fromEntries([...byType.entries()].map(([k, v]) => [k, v.length])),
+      bySeverity: {},
+    },
+  });
+  
   return lists;
 }
 
@@ -594,46 +717,12 @@ export function generateIOCLists(family: string, indicators: IOCIndicator[]): IO
    NETWORK BLOCKLIST GENERATION
 ============================================================================ */
 
-export function generateNetworkBlocklists(family: string, indicators: IOCIndicator[]): NetworkBlocklist[] {
-  const blocklists: NetworkBlocklist[] = [];
-  
-  const ips = indicators.filter(i => i.type === 'ip').map(i => i.value);
-  const domains = indicators.filter(i => i.type === 'domain').map(i => i.value);
-  
-  // Plain text format
-  blocklists.push({
-    id: `blocklist-${family.toLowerCase()}-plain`,
-    name: `${family} Network Blocklist (Plain)`,
-    description: 'One entry per line, suitable for most firewalls',
-    format: 'plain',
-    entries: [...ips, ...domains],
-    generated: new Date().toISOString(),
-    stats: { ips: ips.length, domains: domains.length, total: ips.length + domains.length },
-  });
-  
-  // Hosts file format
-  blocklists.push({
-    id: `blocklist-${family.toLowerCase()}-hosts`,
-    name: `${family} Hosts File Blocklist`,
-    description: 'Hosts file format (0.0.0.0 domain)',
-    format: 'hosts',
-    entries: domains.map(d => `0.0.0.0 ${d}`),
-    generated: new Date().toISOString(),
-    stats: { ips: 0, domains: domains.length, total: domains.length },
-  });
-  
-  // pfSense format
-  blocklists.push({
-    id: `blocklist-${family.toLowerCase()}-pfsense`,
-    name: `${family} pfSense Alias`,
-    description: 'pfSense firewall alias format',
-    format: 'pfsense',
-    entries: ips,
-    generated: new Date().toISOString(),
-    stats: { ips: ips.length, domains: 0, total: ips.length },
-  });
-  
-  return blocklists;
+export function generateNetworkBlocklists(
+  family: string,
+  indicators: IOCIndicator[],
+  options: BlocklistOptions = {}
+): NetworkBlocklist[] {
+  return buildNetworkBlocklists(family, indicators, options);
 }
 
 /* ============================================================================
@@ -3,7 +3,7 @@
 // AUTOMATIC ENTITY TYPE DETECTION FOR OSINT QUERIES
 // ============================================================================
 // Detects: IP, Domain, Hash (MD5/SHA1/SHA256), Email, Username, CVE, URL,
-// Bitcoin/Crypto addresses, Phone numbers, and more
+// Bitcoin/Ethereum/TRON/Litecoin addresses, Phone numbers, and more
 // ============================================================================
 
 export type EntityType = 
@@ -20,6 +20,8 @@ export type EntityType =
   | 'username'
   | 'bitcoin'
   | 'ethereum'
+  | 'tron'
+  | 'litecoin'
   | 'phone'
   | 'mac_address'
   | 'asn'
@@ -72,6 +74,12 @@ const PATTERNS = {
   // Ethereum address
   ethereum: /^0x[a-fA-F0-9]{40}$/,
   
+  // TRON address (base58, always starts with T)
+  tron: /^T[1-9A-HJ-NP-Za-km-z]{33}$/,
+  
+  // Litecoin address (Legacy L, P2SH M, Bech32 ltc1)
+  litecoin: /^(ltc1[ac-hj-np-z02-9]{11,71}|[LM][a-km-zA-HJ-NP-Z1-9]{26,33})$/,
+  
   // Phone number (international format)
   phone: /^\+?[1-9]\d{6,14}$/,
   
@@ -180,6 +188,24 @@ export function detectEntityType(input: string): DetectedEntity {
     };
   }
   
+  // Check TRON address
+  if (PATTERNS.tron.test(value)) {
+    return { type: 'tron', value, confidence: 90, normalized: value };
+  }
+  
+  // Check Litecoin address
+  if (PATTERNS.litecoin.test(value)) {
+    return {
+      type: 'litecoin',
+      value,
+      confidence: 90,
+      normalized: value.startsWith('ltc1') ? value.toLowerCase() : value,
+      metadata: {
+        format: value.startsWith('ltc1') ? 'bech32' : value.startsWith('M') ? 'segwit' : 'legacy'
+      }
+    };
+  }
+  
   // Check IP addresses
   if (PATTERNS.cidr.test(value)) {
     return {
@@ -297,6 +323,8 @@ export function getEntityLabel(type: EntityType): string {
     username: 'Username',
     bitcoin: 'Bitcoin Address',
     ethereum: 'Ethereum Address',
+    tron: 'TRON Address',
+    litecoin: 'Litecoin Address',
     phone: 'Phone Number',
     mac_address: 'MAC Address',
     asn: 'ASN',
@@ -324,6 +352,8 @@ export function getEntityIcon(type: EntityType): string {
     username: 'user',
     bitcoin: 'bitcoin',
     ethereum: 'ethereum',
+    tron: 'wallet',
+    litecoin: 'wallet',
     phone: 'phone',
     mac_address: 'network',
     asn: 'network',
@@ -351,6 +381,8 @@ export function getRecommendedModules(type: EntityType): string[] {
     username: ['username-enum', 'social-search', 'dark-web'],
     bitcoin: ['blockchain-explorer', 'crypto-trace', 'threat-intel'],
     ethereum: ['blockchain-explorer', 'crypto-trace', 'threat-intel'],
+    tron: ['blockchain-explorer', 'crypto-trace', 'threat-intel'],
+    litecoin: ['blockchain-explorer', 'crypto-trace', 'threat-intel'],
     phone: ['phone-lookup', 'social-search'],
     mac_address: ['vendor-lookup', 'device-id'],
     asn: ['asn-lookup', 'ip-range'],
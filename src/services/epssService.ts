@@ -0,0 +1,174 @@
+// ============================================================================
+// EPSS (EXPLOIT PREDICTION SCORING SYSTEM)
+// ============================================================================
+// FIRST publishes a daily CSV with the probability that each CVE is exploited
+// in the next 30 days, plus its percentile among all scored CVEs. The whole
+// file is ingested into IndexedDB so scoring works offline; it can be
+// downloaded directly or imported from a saved copy (.csv or .csv.gz). CVEs
+// missing from the local set fall back to the FIRST API when online.
+// ============================================================================
+
+import { cacheAPIResponse, getCachedData, getEPSSCount, getEPSSScores, replaceEPSSScores } from '@/lib/database';
+import type { EPSSScore } from '@/types/osint';
+
+export type { EPSSScore };
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface EPSSDatasetInfo {
+  modelVersion: string;
+  scoreDate: string;          // Date the scores were computed, from the CSV header
+  count: number;
+  importedAt: string;
+  origin: 'download' | 'file';
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+export const EPSS_CSV_URL = 'https://epss.empiricalsecurity.com/epss_scores-current.csv.gz';
+const EPSS_API_URL = 'https://api.first.org/data/v1/epss';
+const EPSS_API_BATCH = 100;
+const EPSS_API_CACHE_TTL = 1440; // Scores change daily
+const STORAGE_KEY = 'epss_dataset';
+
+/* ============================================================================
+   CSV INGESTION
+============================================================================ */
+
+/**
+ * Parse the EPSS CSV. The first line is a comment like
+ * "#model_version:v2025.03.14,score_date:2026-10-18T12:55:00Z", then a
+ * "cve,epss,percentile" header.
+ */
+export function parseEPSSCSV(text: string): { scores: EPSSScore[]; modelVersion: string; scoreDate: string } {
+  const scores: EPSSScore[] = [];
+  let modelVersion = '';
+  let scoreDate = '';
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith('#')) {
+      modelVersion = line.match(/model_version:([^,]+)/)?.[1] || modelVersion;
+      scoreDate = line.match(/score_date:([^,]+)/)?.[1] || scoreDate;
+      continue;
+    }
+    const [cve, epss, percentile] = line.split(',');
+    if (!/^CVE-\d{4}-\d+$/i.test(cve)) continue; // Header row
+    const probability = parseFloat(epss);
+    if (!Number.isFinite(probability)) continue;
+    scores.push({ cve: cve.toUpperCase(), epss: probability, percentile: parseFloat(percentile) || 0 });
+  }
+
+  if (scores.length === 0) throw new Error('No EPSS scores found, expected cve,epss,percentile rows');
+  return { scores, modelVersion, scoreDate };
+}
+
+/** Read a plain or gzipped EPSS file */
+export async function readEPSSData(data: Blob): Promise<string> {
+  const head = new Uint8Array(await data.slice(0, 2).arrayBuffer());
+  if (head[0] !== 0x1f || head[1] !== 0x8b) return data.text();
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot decompress .gz files, import the extracted CSV instead');
+  }
+  return new Response(data.stream().pipeThrough(new DecompressionStream('gzip'))).text();
+}
+
+export async function importEPSSCSV(text: string, origin: EPSSDatasetInfo['origin']): Promise<EPSSDatasetInfo> {
+  const { scores, modelVersion, scoreDate } = parseEPSSCSV(text);
+  await replaceEPSSScores(scores);
+
+  const info: EPSSDatasetInfo = {
+    modelVersion,
+    scoreDate: scoreDate || new Date().toISOString(),
+    count: scores.length,
+    importedAt: new Date().toISOString(),
+    origin,
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(info));
+  console.log(`[EPSS] ✅ Loaded ${scores.length} scores (${modelVersion || 'unknown model'}, ${info.scoreDate.slice(0, 10)})`);
+  return info;
+}
+
+/** Download today's CSV from FIRST and replace the local set */
+export async function downloadEPSS(): Promise<EPSSDatasetInfo> {
+  console.log('[EPSS] Downloading daily scores...');
+  const response = await fetch(EPSS_CSV_URL);
+  if (!response.ok) throw new Error(`EPSS download failed: ${response.status} ${response.statusText}`);
+  return importEPSSCSV(await readEPSSData(await response.blob()), 'download');
+}
+
+export async function importEPSSFile(file: File): Promise<EPSSDatasetInfo> {
+  return importEPSSCSV(await readEPSSData(file), 'file');
+}
+
+/** The loaded dataset, or null if none was ingested (or IndexedDB was cleared) */
+export async function getEPSSDatasetInfo(): Promise<EPSSDatasetInfo | null> {
+  try {
+    const info: EPSSDatasetInfo | null = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!info) return null;
+    return (await getEPSSCount()) > 0 ? info : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isEPSSStale(info: EPSSDatasetInfo | null, maxAgeDays = 2): boolean {
+  if (!info) return true;
+  return Date.now() - new Date(info.scoreDate).getTime() > maxAgeDays * 86400000;
+}
+
+/* ============================================================================
+   LOOKUP
+============================================================================ */
+
+async function fetchEPSSFromAPI(cves: string[]): Promise<EPSSScore[]> {
+  const scores: EPSSScore[] = [];
+  for (let i = 0; i < cves.length; i += EPSS_API_BATCH) {
+    const batch = cves.slice(i, i + EPSS_API_BATCH);
+    try {
+      const response = await fetch(`${EPSS_API_URL}?cve=${batch.join(',')}`);
+      if (!response.ok) throw new Error(`EPSS API error: ${response.status}`);
+      const data = await response.json();
+      for (const row of data.data || []) {
+        const score: EPSSScore = { cve: row.cve, epss: parseFloat(row.epss) || 0, percentile: parseFloat(row.percentile) || 0 };
+        scores.push(score);
+        await cacheAPIResponse(`epss:api:${score.cve}`, score, EPSS_API_CACHE_TTL);
+      }
+    } catch (error) {
+      console.warn('[EPSS] API lookup failed:', error);
+    }
+  }
+  return scores;
+}
+
+/**
+ * EPSS scores by CVE ID. Served from the local dataset; CVEs it doesn't have
+ * (newer than the file, or no file loaded) are looked up online and cached.
+ */
+export async function getEPSS(cveIds: string[]): Promise<Map<string, EPSSScore>> {
+  const ids = Array.from(new Set(cveIds.map(id => id.toUpperCase())));
+  const result = new Map<string, EPSSScore>();
+  if (ids.length === 0) return result;
+
+  try {
+    (await getEPSSScores(ids)).forEach(score => result.set(score.cve, score));
+  } catch (error) {
+    console.warn('[EPSS] Local lookup failed:', error);
+  }
+
+  const missing: string[] = [];
+  for (const id of ids.filter(id => !result.has(id))) {
+    const cached: EPSSScore | null = await getCachedData(`epss:api:${id}`);
+    if (cached) result.set(id, cached);
+    else missing.push(id);
+  }
+  if (missing.length > 0) {
+    (await fetchEPSSFromAPI(missing)).forEach(score => result.set(score.cve, score));
+  }
+  return result;
+}
@@ -0,0 +1,380 @@
+// ============================================================================
+// GRAPH ANALYTICS
+// ============================================================================
+// Structural analysis over GraphData for finding pivot points in large
+// investigation graphs: degree and betweenness centrality, shortest paths,
+// connected components, Louvain communities and shared infrastructure.
+// Edges are treated as undirected; transforms draw edges from the entity they
+// ran on, which says nothing about how the entities relate.
+// ============================================================================
+
+import type { EntityType, GraphData, GraphNode } from './graphService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface CentralityScore {
+  nodeId: string;
+  degree: number;
+  betweenness: number;        // Normalized to 0..1
+}
+
+export interface GraphPath {
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+export interface CommunityResult {
+  communities: string[][];    // Largest first
+  modularity: number;
+}
+
+export interface SharedInfrastructure {
+  node: GraphNode;
+  domainIds: string[];
+}
+
+/** Canvas filter produced from an analytics result */
+export interface GraphFilter {
+  label: string;
+  nodeIds: Set<string>;
+  edgeIds?: Set<string>;      // Restrict visible edges, e.g. to a path
+  mode: 'highlight' | 'isolate';
+  nodeColors?: Map<string, string>;
+}
+
+interface Adjacency {
+  ids: string[];
+  index: Map<string, number>;
+  neighbors: number[][];
+  edgeByPair: Map<string, string>;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+const INFRASTRUCTURE_TYPES: EntityType[] = ['ip', 'certificate', 'asn', 'netblock'];
+// ASNs and netblocks usually reach domains through the IPs they contain
+const INDIRECT_INFRASTRUCTURE_TYPES: EntityType[] = ['asn', 'netblock'];
+
+// Exact betweenness is O(V·E); above this size it is estimated from sampled sources
+const EXACT_BETWEENNESS_LIMIT = 1500;
+const BETWEENNESS_SAMPLES = 300;
+
+/* ============================================================================
+   ADJACENCY
+============================================================================ */
+
+const pairKey = (a: number, b: number) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+function buildAdjacency(graph: GraphData): Adjacency {
+  const ids = graph.nodes.map(n => n.id);
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const neighbors: number[][] = ids.map(() => []);
+  const edgeByPair = new Map<string, string>();
+
+  for (const edge of graph.edges) {
+    const a = index.get(edge.source);
+    const b = index.get(edge.target);
+    if (a === undefined || b === undefined || a === b) continue;
+    const key = pairKey(a, b);
+    if (edgeByPair.has(key)) continue;
+    edgeByPair.set(key, edge.id);
+    neighbors[a].push(b);
+    neighbors[b].push(a);
+  }
+
+  return { ids, index, neighbors, edgeByPair };
+}
+
+/* ============================================================================
+   CENTRALITY
+============================================================================ */
+
+/**
+ * Brandes' algorithm. Sources are sampled evenly on large graphs and the
+ * result scaled up, which keeps the ranking stable at a fraction of the cost.
+ */
+function betweenness(adj: Adjacency): number[] {
+  const n = adj.ids.length;
+  const scores = new Array<number>(n).fill(0);
+  if (n < 3) return scores;
+
+  const step = n > EXACT_BETWEENNESS_LIMIT ? Math.ceil(n / BETWEENNESS_SAMPLES) : 1;
+  const sigma = new Array<number>(n);
+  const dist = new Array<number>(n);
+  const delta = new Array<number>(n);
+  const preds: number[][] = adj.ids.map(() => []);
+  let sampled = 0;
+
+  for (let s = 0; s < n; s += step) {
+    sampled++;
+    sigma.fill(0);
+    dist.fill(-1);
+    delta.fill(0);
+    preds.forEach(p => (p.length = 0));
+    sigma[s] = 1;
+    dist[s] = 0;
+
+    const order: number[] = [];
+    const queue = [s];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      order.push(v);
+      for (const w of adj.neighbors[v]) {
+        if (dist[w] < 0) {
+          dist[w] = dist[v] + 1;
+          queue.push(w);
+        }
+        if (dist[w] === dist[v] + 1) {
+          sigma[w] += sigma[v];
+          preds[w].push(v);
+        }
+      }
+    }
+
+    for (let i = order.length - 1; i > 0; i--) {
+      const w = order[i];
+      for (const v of preds[w]) delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+      scores[w] += delta[w];
+    }
+  }
+
+  // Undirected: every pair was counted from both ends
+  const scale = (n / sampled) / 2;
+  const norm = ((n - 1) * (n - 2)) / 2;
+  return scores.map(score => (score * scale) / norm);
+}
+
+/** Degree and betweenness for every node, most central first */
+export function computeCentrality(graph: GraphData): CentralityScore[] {
+  const adj = buildAdjacency(graph);
+  const between = betweenness(adj);
+  return adj.ids
+    .map((nodeId, i) => ({ nodeId, degree: adj.neighbors[i].length, betweenness: between[i] }))
+    .sort((a, b) => b.betweenness - a.betweenness || b.degree - a.degree);
+}
+
+/* ============================================================================
+   PATHS & COMPONENTS
+============================================================================ */
+
+/** Fewest-hops path between two entities, or null when they are not connected */
+export function findShortestPath(graph: GraphData, fromId: string, toId: string): GraphPath | null {
+  const adj = buildAdjacency(graph);
+  const from = adj.index.get(fromId);
+  const to = adj.index.get(toId);
+  if (from === undefined || to === undefined) return null;
+
+  const prev = new Array<number>(adj.ids.length).fill(-1);
+  prev[from] = from;
+  const queue = [from];
+  for (let head = 0; head < queue.length && prev[to] < 0; head++) {
+    const v = queue[head];
+    for (const w of adj.neighbors[v]) {
+      if (prev[w] >= 0) continue;
+      prev[w] = v;
+      queue.push(w);
+    }
+  }
+  if (prev[to] < 0) return null;
+
+  const path = [to];
+  while (path[0] !== from) path.unshift(prev[path[0]]);
+  return {
+    nodeIds: path.map(i => adj.ids[i]),
+    edgeIds: path.slice(1).map((v, i) => adj.edgeByPair.get(pairKey(path[i], v))!),
+  };
+}
+
+/** Connected components, largest first */
+export function findConnectedComponents(graph: GraphData): string[][] {
+  const adj = buildAdjacency(graph);
+  const seen = new Array<boolean>(adj.ids.length).fill(false);
+  const components: string[][] = [];
+
+  for (let start = 0; start < adj.ids.length; start++) {
+    if (seen[start]) continue;
+    seen[start] = true;
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      for (const w of adj.neighbors[queue[head]]) {
+        if (!seen[w]) {
+          seen[w] = true;
+          queue.push(w);
+        }
+      }
+    }
+    components.push(queue.map(i => adj.ids[i]));
+  }
+
+  return components.sort((a, b) => b.length - a.length);
+}
+
+/* ============================================================================
+   COMMUNITIES
+============================================================================ */
+
+interface WeightedGraph {
+  neighbors: Map<number, number>[];   // Excludes self-loops
+  selfLoops: number[];
+}
+
+/** One Louvain level: greedy local moves, returns the community of each node */
+function louvainLevel(graph: WeightedGraph, m2: number): number[] {
+  const n = graph.neighbors.length;
+  const k = graph.neighbors.map((nbrs, i) => {
+    let sum = 2 * graph.selfLoops[i];
+    nbrs.forEach(w => (sum += w));
+    return sum;
+  });
+  const community = Array.from({ length: n }, (_, i) => i);
+  const total = [...k];
+
+  for (let pass = 0, moved = true; moved && pass < 20; pass++) {
+    moved = false;
+    for (let i = 0; i < n; i++) {
+      const own = community[i];
+      total[own] -= k[i];
+
+      const links = new Map<number, number>([[own, 0]]);
+      graph.neighbors[i].forEach((w, j) => links.set(community[j], (links.get(community[j]) || 0) + w));
+
+      let best = own;
+      let bestGain = links.get(own)! - (total[own] * k[i]) / m2;
+      for (const [c, w] of links) {
+        const gain = w - (total[c] * k[i]) / m2;
+        if (gain > bestGain + 1e-12) {
+          best = c;
+          bestGain = gain;
+        }
+      }
+
+      total[best] += k[i];
+      if (best !== own) {
+        community[i] = best;
+        moved = true;
+      }
+    }
+  }
+
+  return community;
+}
+
+function modularity(graph: WeightedGraph, community: number[], m2: number): number {
+  const inside = new Map<number, number>();
+  const total = new Map<number, number>();
+  graph.neighbors.forEach((nbrs, i) => {
+    const c = community[i];
+    let degree = 2 * graph.selfLoops[i];
+    inside.set(c, (inside.get(c) || 0) + 2 * graph.selfLoops[i]);
+    nbrs.forEach((w, j) => {
+      degree += w;
+      if (community[j] === c) inside.set(c, inside.get(c)! + w);
+    });
+    total.set(c, (total.get(c) || 0) + degree);
+  });
+
+  let q = 0;
+  for (const [c, tot] of total) q += (inside.get(c) || 0) / m2 - (tot / m2) ** 2;
+  return q;
+}
+
+/** Louvain community detection; isolated entities form their own communities */
+export function detectCommunities(graph: GraphData): CommunityResult {
+  const adj = buildAdjacency(graph);
+  const n = adj.ids.length;
+  const m2 = adj.neighbors.reduce((sum, nbrs) => sum + nbrs.length, 0);
+  if (m2 === 0) return { communities: adj.ids.map(id => [id]), modularity: 0 };
+
+  let level: WeightedGraph = {
+    neighbors: adj.neighbors.map(nbrs => new Map(nbrs.map(j => [j, 1]))),
+    selfLoops: new Array(n).fill(0),
+  };
+  let membership = Array.from({ length: n }, (_, i) => i);
+
+  for (;;) {
+    const community = louvainLevel(level, m2);
+    const relabel = new Map<number, number>();
+    community.forEach(c => relabel.has(c) || relabel.set(c, relabel.size));
+    if (relabel.size === level.neighbors.length) break;
+
+    // Collapse each community into a single node for the next level
+    const next: WeightedGraph = {
+      neighbors: Array.from({ length: relabel.size }, () => new Map<number, number>()),
+      selfLoops: new Array(relabel.size).fill(0),
+    };
+    level.neighbors.forEach((nbrs, i) => {
+      const ci = relabel.get(community[i])!;
+      next.selfLoops[ci] += level.selfLoops[i];
+      nbrs.forEach((w, j) => {
+        const cj = relabel.get(community[j])!;
+        // Each internal edge is seen from both ends
+        if (ci === cj) next.selfLoops[ci] += w / 2;
+        else next.neighbors[ci].set(cj, (next.neighbors[ci].get(cj) || 0) + w);
+      });
+    });
+
+    membership = membership.map(c => relabel.get(community[c])!);
+    level = next;
+  }
+
+  const groups = new Map<number, string[]>();
+  membership.forEach((c, i) => groups.set(c, [...(groups.get(c) || []), adj.ids[i]]));
+  const base: WeightedGraph = {
+    neighbors: adj.neighbors.map(nbrs => new Map(nbrs.map(j => [j, 1]))),
+    selfLoops: new Array(n).fill(0),
+  };
+
+  return {
+    communities: Array.from(groups.values()).sort((a, b) => b.length - a.length),
+    modularity: modularity(base, membership, m2),
+  };
+}
+
+/* ============================================================================
+   SHARED INFRASTRUCTURE
+============================================================================ */
+
+/**
+ * IPs, certificates, ASNs and netblocks linked to at least `minDomains`
+ * domains. ASNs and netblocks also count domains reached through their IPs.
+ */
+export function findSharedInfrastructure(graph: GraphData, minDomains = 2): SharedInfrastructure[] {
+  const adj = buildAdjacency(graph);
+  const nodeAt = (i: number) => graph.nodes[i];
+  const domainNeighbors = (i: number) => adj.neighbors[i].filter(j => nodeAt(j).type === 'domain');
+
+  const results: SharedInfrastructure[] = [];
+  graph.nodes.forEach((node, i) => {
+    if (!INFRASTRUCTURE_TYPES.includes(node.type)) return;
+
+    const domains = new Set(domainNeighbors(i));
+    if (INDIRECT_INFRASTRUCTURE_TYPES.includes(node.type)) {
+      adj.neighbors[i]
+        .filter(j => nodeAt(j).type === 'ip')
+        .forEach(j => domainNeighbors(j).forEach(d => domains.add(d)));
+    }
+
+    if (domains.size >= minDomains) {
+      results.push({ node, domainIds: Array.from(domains, d => adj.ids[d]) });
+    }
+  });
+
+  return results.sort((a, b) => b.domainIds.length - a.domainIds.length);
+}
+
+/** Node ids within one hop of `nodeIds`, for showing a result in context */
+export function withNeighbors(graph: GraphData, nodeIds: Iterable<string>): Set<string> {
+  const core = new Set(nodeIds);
+  const result = new Set(core);
+  for (const edge of graph.edges) {
+    if (core.has(edge.source) || core.has(edge.target)) {
+      result.add(edge.source);
+      result.add(edge.target);
+    }
+  }
+  return result;
+}
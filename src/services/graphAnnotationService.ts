@@ -0,0 +1,213 @@
+// ============================================================================
+// GRAPH ANNOTATIONS
+// ============================================================================
+// Analyst markings on entities and links: TLP classification, a confidence
+// override, free tags and timestamped notes. Annotations travel with the
+// saved graph and every export format; applyTlpPolicy is what exporters use
+// to withhold anything marked above the release level (TLP:RED by default).
+// ============================================================================
+
+import type { GraphFilter } from './graphAnalyticsService';
+import {
+  TLP_LEVELS,
+  type AnalystNote,
+  type EntityAnnotations,
+  type GraphData,
+  type GraphEdge,
+  type GraphNode,
+  type TlpLevel,
+} from './graphService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface AnnotationQuery {
+  text?: string;              // Matches label, value, tags and note text
+  tlp?: (TlpLevel | 'none')[];
+  tags?: string[];            // All must be present
+}
+
+export interface TlpPolicyResult {
+  graph: GraphData;
+  withheldNodes: number;
+  withheldEdges: number;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+// Colors from the FIRST TLP 2.0 specification
+export const TLP_CONFIG: Record<TlpLevel, { label: string; color: string; description: string }> = {
+  clear: { label: 'TLP:CLEAR', color: '#ffffff', description: 'No restriction on disclosure' },
+  green: { label: 'TLP:GREEN', color: '#33ff00', description: 'Community-wide, not public' },
+  amber: { label: 'TLP:AMBER', color: '#ffc000', description: 'Own organization and clients, need to know' },
+  red: { label: 'TLP:RED', color: '#ff2b2b', description: 'Named recipients only' },
+};
+
+/** Shared exports stop below TLP:RED unless the analyst widens the release */
+export const DEFAULT_RELEASE_TLP: TlpLevel = 'amber';
+
+/* ============================================================================
+   EDITING
+============================================================================ */
+
+export function isTlpLevel(value: unknown): value is TlpLevel {
+  return typeof value === 'string' && (TLP_LEVELS as readonly string[]).includes(value);
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export function createNote(text: string, author: string): AnalystNote {
+  return { id: crypto.randomUUID(), author, text: text.trim(), createdAt: new Date().toISOString() };
+}
+
+/** Drops empty fields so unannotated entities carry no `annotations` key at all */
+export function cleanAnnotations(annotations: EntityAnnotations | undefined): EntityAnnotations | undefined {
+  if (!annotations) return undefined;
+  const tags = [...new Set((annotations.tags || []).map(normalizeTag).filter(Boolean))];
+  const notes = (annotations.notes || []).filter(n => n.text);
+  const cleaned: EntityAnnotations = {
+    ...(isTlpLevel(annotations.tlp) ? { tlp: annotations.tlp } : {}),
+    ...(Number.isFinite(annotations.confidence)
+      ? { confidence: Math.max(0, Math.min(100, Math.round(annotations.confidence!))) }
+      : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(notes.length > 0 ? { notes } : {}),
+  };
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+}
+
+/** Returns a copy of the entity with its annotations replaced */
+export function withAnnotations<T extends GraphNode | GraphEdge>(entity: T, annotations: EntityAnnotations | undefined): T {
+  const { annotations: _previous, ...rest } = entity;
+  const cleaned = cleanAnnotations(annotations);
+  return (cleaned ? { ...rest, annotations: cleaned } : rest) as T;
+}
+
+/** Lenient parse of annotations found in an imported file */
+export function parseAnnotations(value: unknown): EntityAnnotations | undefined {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined;
+  const data = raw as Record<string, unknown>;
+  const notes = Array.isArray(data.notes)
+    ? (data.notes as Partial<AnalystNote>[])
+        .filter(n => n && typeof n.text === 'string')
+        .map(n => ({
+          id: typeof n.id === 'string' ? n.id : crypto.randomUUID(),
+          author: typeof n.author === 'string' ? n.author : 'Unknown',
+          text: n.text!,
+          createdAt: typeof n.createdAt === 'string' ? n.createdAt : new Date().toISOString(),
+        }))
+    : undefined;
+
+  return cleanAnnotations({
+    tlp: isTlpLevel(data.tlp) ? data.tlp : undefined,
+    confidence: typeof data.confidence === 'number' ? data.confidence : undefined,
+    tags: Array.isArray(data.tags) ? data.tags.filter((t): t is string => typeof t === 'string') : undefined,
+    notes,
+  });
+}
+
+/* ============================================================================
+   QUERIES
+============================================================================ */
+
+/** Analyst override first, then whatever the source reported */
+export function effectiveConfidence(node: GraphNode): number | undefined {
+  return node.annotations?.confidence ?? node.metadata?.confidence;
+}
+
+/** Tags across the graph with usage counts, most used first */
+export function collectTags(graph: GraphData): [string, number][] {
+  const counts = new Map<string, number>();
+  [...graph.nodes, ...graph.edges].forEach(entity =>
+    entity.annotations?.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1))
+  );
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+export function isEmptyQuery(query: AnnotationQuery): boolean {
+  return !query.text?.trim() && !query.tlp?.length && !query.tags?.length;
+}
+
+export function matchesAnnotationQuery(entity: GraphNode | GraphEdge, query: AnnotationQuery): boolean {
+  const annotations = entity.annotations;
+  if (query.tlp?.length && !query.tlp.includes(annotations?.tlp || 'none')) return false;
+  if (query.tags?.length && !query.tags.every(tag => annotations?.tags?.includes(tag))) return false;
+
+  const text = query.text?.trim().toLowerCase();
+  if (!text) return true;
+  const haystack = [
+    entity.label,
+    'value' in entity ? entity.value : '',
+    ...(annotations?.tags || []),
+    ...(annotations?.notes || []).flatMap(n => [n.text, n.author]),
+  ];
+  return haystack.some(s => s?.toLowerCase().includes(text));
+}
+
+/** Canvas filter for the matches; a matching link brings its endpoints along */
+export function annotationFilter(graph: GraphData, query: AnnotationQuery, mode: GraphFilter['mode']): GraphFilter {
+  const nodeIds = new Set(graph.nodes.filter(n => matchesAnnotationQuery(n, query)).map(n => n.id));
+  const matchedEdges = graph.edges.filter(e => matchesAnnotationQuery(e, query));
+  matchedEdges.forEach(e => {
+    nodeIds.add(e.source);
+    nodeIds.add(e.target);
+  });
+  const edgeIds = new Set([
+    ...matchedEdges.map(e => e.id),
+    ...graph.edges.filter(e => nodeIds.has(e.source) && nodeIds.has(e.target)).map(e => e.id),
+  ]);
+
+  const parts = [
+    query.text?.trim() && `"${query.text.trim()}"`,
+    query.tlp?.length && query.tlp.map(t => (t === 'none' ? 'unmarked' : TLP_CONFIG[t].label)).join(' or '),
+    query.tags?.length && query.tags.map(t => `#${t}`).join(' '),
+  ].filter(Boolean);
+
+  return { label: `Annotations: ${parts.join(', ')}`, nodeIds, edgeIds, mode };
+}
+
+/* ============================================================================
+   RELEASE POLICY
+============================================================================ */
+
+function exceeds(tlp: TlpLevel | undefined, ceiling: TlpLevel): boolean {
+  return !!tlp && TLP_LEVELS.indexOf(tlp) > TLP_LEVELS.indexOf(ceiling);
+}
+
+/**
+ * Withholds entities and links marked above the release ceiling, plus any
+ * link left dangling by a withheld entity. Unmarked data is always released.
+ */
+export function applyTlpPolicy(graph: GraphData, ceiling: TlpLevel = DEFAULT_RELEASE_TLP): TlpPolicyResult {
+  const nodes = graph.nodes.filter(n => !exceeds(n.annotations?.tlp, ceiling));
+  const kept = new Set(nodes.map(n => n.id));
+  const edges = graph.edges.filter(e => kept.has(e.source) && kept.has(e.target) && !exceeds(e.annotations?.tlp, ceiling));
+
+  return {
+    graph: { nodes, edges },
+    withheldNodes: graph.nodes.length - nodes.length,
+    withheldEdges: graph.edges.length - edges.length,
+  };
+}
+
+/** Strictest marking present, i.e. the one an exported file as a whole carries */
+export function highestTlp(graph: GraphData): TlpLevel | undefined {
+  let highest = -1;
+  [...graph.nodes, ...graph.edges].forEach(entity => {
+    if (entity.annotations?.tlp) highest = Math.max(highest, TLP_LEVELS.indexOf(entity.annotations.tlp));
+  });
+  return highest >= 0 ? TLP_LEVELS[highest] : undefined;
+}
@@ -0,0 +1,512 @@
+// ============================================================================
+// GRAPH COLLABORATION
+// ============================================================================
+// Live co-editing of a shared saved graph over Supabase Realtime.
+//
+// Every entity and link is a last-writer-wins map: each field (label,
+// position, properties.x, metadata.y, ...) carries a Lamport stamp, and a
+// write only lands if its stamp is newer. Deletion is a `$exists` field like
+// any other. Merging is therefore commutative and idempotent, so analysts can
+// edit concurrently and converge without a server-side arbiter.
+//
+// GraphVisualization keeps its ordinary React state. The session diffs each
+// local state against the document and broadcasts only the fields that
+// changed, so every existing mutation (transforms, machines, layouts, drags,
+// merges, imports) is shared without being rewritten.
+// ============================================================================
+
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { AnalystNote, EntityAnnotations, GraphData, GraphEdge, GraphNode } from './graphService';
+import type { GraphRole } from './userDataService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+type Stamp = [number, string];             // Lamport clock, client id
+
+interface Field {
+  v: unknown;                              // null = deleted
+  s: Stamp;
+}
+
+type RecordKind = 'node' | 'edge';
+
+interface RecordDelta {
+  k: RecordKind;
+  id: string;
+  f: Record<string, Field>;
+}
+
+export type CollabStatus = 'connecting' | 'syncing' | 'live' | 'offline';
+
+export interface Collaborator {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  role: GraphRole;
+  self: boolean;
+}
+
+export interface RemoteCursor {
+  clientId: string;
+  x: number;                               // Graph coordinates
+  y: number;
+}
+
+export interface CollabCallbacks {
+  /** Remote changes arrived; call session.rebase() on the current local graph */
+  onRemoteChange: () => void;
+  onPresence: (peers: Collaborator[]) => void;
+  onCursor: (cursor: RemoteCursor) => void;
+  onStatus: (status: CollabStatus) => void;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+const BASELINE: Stamp = [0, ''];
+const FLUSH_INTERVAL_MS = 50;
+const CURSOR_INTERVAL_MS = 50;
+const SYNC_TIMEOUT_MS = 2000;
+const RECORDS_PER_MESSAGE = 150;           // Keeps broadcasts well under the payload limit
+
+const PEER_COLORS = ['#f43f5e', '#8b5cf6', '#0ea5e9', '#10b981', '#f59e0b', '#ec4899', '#14b8a6', '#6366f1'];
+
+/* ============================================================================
+   DOCUMENT
+============================================================================ */
+
+function compareStamps(a: Stamp, b: Stamp): number {
+  return a[0] !== b[0] ? a[0] - b[0] : a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// properties, metadata and annotations are split per key so concurrent edits to different keys both survive
+const NESTED_FIELDS = ['properties', 'metadata', 'annotations'];
+// Analyst notes are split once more, per note, so notes written at the same time are all kept
+const NOTES_PREFIX = 'annotations.notes.';
+
+function flatten(entity: GraphNode | GraphEdge): Record<string, unknown> {
+  const fields: Record<string, unknown> = { $exists: true };
+  for (const [key, value] of Object.entries(entity)) {
+    if (key === 'id' || value === undefined) continue;
+    if (NESTED_FIELDS.includes(key) && value && typeof value === 'object') {
+      for (const [sub, subValue] of Object.entries(value)) {
+        if (key === 'annotations' && sub === 'notes' && Array.isArray(subValue)) {
+          (subValue as AnalystNote[]).forEach(note => (fields[`${NOTES_PREFIX}${note.id}`] = note));
+        } else if (subValue !== undefined) {
+          fields[`${key}.${sub}`] = subValue;
+        }
+      }
+    } else {
+      fields[key] = value;
+    }
+  }
+  return fields;
+}
+
+function unflatten(kind: RecordKind, id: string, fields: Map<string, Field>): GraphNode | GraphEdge {
+  const entity: Record<string, unknown> = { id };
+  for (const [key, { v }] of fields) {
+    if (key === '$exists' || v === null || v === undefined) continue;
+    if (key.startsWith(NOTES_PREFIX)) {
+      const annotations = (entity.annotations || {}) as EntityAnnotations;
+      entity.annotations = { ...annotations, notes: [...(annotations.notes || []), v as AnalystNote] };
+      continue;
+    }
+    const dot = key.indexOf('.');
+    const parent = dot > 0 ? key.slice(0, dot) : '';
+    if (NESTED_FIELDS.includes(parent)) {
+      entity[parent] = { ...(entity[parent] as Record<string, unknown>), [key.slice(dot + 1)]: v };
+    } else {
+      entity[key] = v;
+    }
+  }
+  if (kind === 'node') entity.properties = entity.properties || {};
+  (entity.annotations as EntityAnnotations | undefined)?.notes?.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return entity as unknown as GraphNode | GraphEdge;
+}
+
+class GraphDocument {
+  private records = new Map<string, { kind: RecordKind; id: string; fields: Map<string, Field> }>();
+  // Last materialized/committed object per live record; keeps references stable for React
+  private known = new Map<string, GraphNode | GraphEdge>();
+  private dirty = new Set<string>();
+  private clock = 0;
+
+  constructor(private clientId: string) {}
+
+  private tick(): Stamp {
+    return [++this.clock, this.clientId];
+  }
+
+  private isAlive(key: string): boolean {
+    return this.records.get(key)?.fields.get('$exists')?.v === true;
+  }
+
+  /** Field-wise merge; returns true if anything visible changed */
+  apply(deltas: RecordDelta[]): boolean {
+    let changed = false;
+    for (const delta of deltas) {
+      const key = `${delta.k}:${delta.id}`;
+      let record = this.records.get(key);
+      if (!record) {
+        record = { kind: delta.k, id: delta.id, fields: new Map() };
+        this.records.set(key, record);
+      }
+      for (const [name, field] of Object.entries(delta.f)) {
+        this.clock = Math.max(this.clock, field.s[0]);
+        const current = record.fields.get(name);
+        if (current && compareStamps(field.s, current.s) <= 0) continue;
+        record.fields.set(name, field);
+        this.dirty.add(key);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  /** Seeds the document from a saved graph; any live edit outranks these values */
+  load(graph: GraphData): void {
+    const toDelta = (k: RecordKind, entity: GraphNode | GraphEdge): RecordDelta => ({
+      k,
+      id: entity.id,
+      f: Object.fromEntries(Object.entries(flatten(entity)).map(([name, v]) => [name, { v, s: BASELINE }])),
+    });
+    this.apply([...graph.nodes.map(n => toDelta('node', n)), ...graph.edges.map(e => toDelta('edge', e))]);
+  }
+
+  /** Stamps whatever differs between `graph` and the document; returns the deltas to broadcast */
+  commit(graph: GraphData): RecordDelta[] {
+    const deltas: RecordDelta[] = [];
+    const seen = new Set<string>();
+
+    const visit = (kind: RecordKind, entity: GraphNode | GraphEdge) => {
+      const key = `${kind}:${entity.id}`;
+      seen.add(key);
+      const previous = this.known.get(key);
+      if (previous === entity) return;
+
+      // Diff against the version this edit started from, not the document: a
+      // remote write to another field that the local state has not picked up
+      // yet must not be reverted
+      const record = this.records.get(key);
+      const base: Record<string, unknown> = previous
+        ? flatten(previous)
+        : Object.fromEntries([...(record?.fields ?? [])].map(([name, field]) => [name, field.v]));
+      const next = flatten(entity);
+      const changes: Record<string, unknown> = {};
+      for (const [name, value] of Object.entries(next)) {
+        if (!sameValue(base[name], value)) changes[name] = value;
+      }
+      for (const [name, value] of Object.entries(base)) {
+        if (!(name in next) && value !== null) changes[name] = null;
+      }
+
+      this.known.set(key, entity);
+      if (Object.keys(changes).length === 0) return;
+      const stamp = this.tick();
+      const delta: RecordDelta = {
+        k: kind,
+        id: entity.id,
+        f: Object.fromEntries(Object.entries(changes).map(([name, v]) => [name, { v, s: stamp }])),
+      };
+      const hadRemoteChanges = this.dirty.has(key);
+      this.apply([delta]);
+      // The local object already reflects this write; rebuild only for pending remote fields
+      if (!hadRemoteChanges) this.dirty.delete(key);
+      deltas.push(delta);
+    };
+
+    graph.nodes.forEach(node => visit('node', node));
+    graph.edges.forEach(edge => visit('edge', edge));
+
+    for (const key of [...this.known.keys()]) {
+      if (seen.has(key)) continue;
+      this.known.delete(key);
+      const record = this.records.get(key);
+      if (!record || !this.isAlive(key)) continue;
+      const delta: RecordDelta = { k: record.kind, id: record.id, f: { $exists: { v: false, s: this.tick() } } };
+      this.apply([delta]);
+      deltas.push(delta);
+    }
+
+    return deltas;
+  }
+
+  /** True if `graph` has changes the document does not (without stamping them) */
+  differs(graph: GraphData): boolean {
+    const current = this.materialize();
+    if (current.nodes.length !== graph.nodes.length || current.edges.length !== graph.edges.length) return true;
+    return graph.nodes.some((n, i) => n !== current.nodes[i]) || graph.edges.some((e, i) => e !== current.edges[i]);
+  }
+
+  materialize(): GraphData {
+    const nodes: GraphNode[] = [];
+    const edges: GraphEdge[] = [];
+    const aliveNodes = new Set<string>();
+
+    const resolve = (key: string, kind: RecordKind, id: string, fields: Map<string, Field>) => {
+      let entity = this.known.get(key);
+      if (!entity || this.dirty.has(key)) {
+        entity = unflatten(kind, id, fields);
+        this.known.set(key, entity);
+        this.dirty.delete(key);
+      }
+      return entity;
+    };
+
+    for (const [key, record] of this.records) {
+      if (record.kind !== 'node') continue;
+      if (!this.isAlive(key)) {
+        this.known.delete(key);
+        continue;
+      }
+      nodes.push(resolve(key, 'node', record.id, record.fields) as GraphNode);
+      aliveNodes.add(record.id);
+    }
+    for (const [key, record] of this.records) {
+      if (record.kind !== 'edge') continue;
+      const edge = this.isAlive(key) ? resolve(key, 'edge', record.id, record.fields) as GraphEdge : null;
+      // Links to a removed entity stay in the document and reappear if it is re-added
+      if (edge && aliveNodes.has(edge.source) && aliveNodes.has(edge.target)) edges.push(edge);
+      else this.known.delete(key);
+    }
+
+    return { nodes, edges };
+  }
+
+  snapshot(): RecordDelta[] {
+    return [...this.records.values()].map(record => ({
+      k: record.kind,
+      id: record.id,
+      f: Object.fromEntries(record.fields),
+    }));
+  }
+}
+
+/* ============================================================================
+   SESSION
+============================================================================ */
+
+function peerColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks.length > 0 ? chunks : [[]];
+}
+
+export class GraphCollabSession {
+  readonly clientId = crypto.randomUUID().slice(0, 8);
+  private doc = new GraphDocument(this.clientId);
+  private opsChannel: RealtimeChannel | null = null;
+  private presenceChannel: RealtimeChannel | null = null;
+  private outbox = new Map<string, RecordDelta>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private channelsJoined = 0;
+  private lastCursorAt = 0;
+  private synced = false;
+  private discardLocal = false;
+  private lastRebase: { input: GraphData; output: GraphData } | null = null;
+  private stopped = false;
+
+  constructor(
+    private graphId: string,
+    readonly role: GraphRole,
+    private callbacks: CollabCallbacks
+  ) {}
+
+  get canEdit(): boolean {
+    return this.role !== 'viewer';
+  }
+
+  get isSynced(): boolean {
+    return this.synced;
+  }
+
+  /**
+   * Joins the graph's channels. Peers already editing send their live state;
+   * if nobody answers, the session starts from the local graph as it is then.
+   * The request goes over the presence channel, which viewers may send on;
+   * the answer comes back on the ops channel, so both must be joined first.
+   */
+  async start(getLocal: () => GraphData): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || this.stopped) {
+      this.callbacks.onStatus('offline');
+      return;
+    }
+
+    this.callbacks.onStatus('connecting');
+    const identity = {
+      userId: user.id,
+      name: user.user_metadata?.display_name || user.email || 'Analyst',
+      color: peerColor(user.id),
+      role: this.role,
+    };
+
+    this.opsChannel = supabase
+      .channel(`graph:${this.graphId}`, { config: { private: true, broadcast: { self: false } } })
+      .on('broadcast', { event: 'ops' }, ({ payload }) => this.receive(payload.records))
+      .on('broadcast', { event: 'sync_state' }, ({ payload }) => {
+        if (payload.to !== this.clientId) return;
+        this.receive(payload.records);
+        if (payload.done) this.finishSync();
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          this.callbacks.onStatus('syncing');
+          this.channelJoined(getLocal);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error(`[GraphCollab] Live channel unavailable: ${status}`);
+          this.callbacks.onStatus('offline');
+        }
+      });
+
+    this.presenceChannel = supabase
+      .channel(`graph-presence:${this.graphId}`, { config: { private: true, presence: { key: this.clientId } } })
+      .on('presence', { event: 'sync' }, () => this.publishPresence())
+      .on('broadcast', { event: 'cursor' }, ({ payload }) => this.callbacks.onCursor(payload as RemoteCursor))
+      .on('broadcast', { event: 'sync_request' }, ({ payload }) => this.answerSync(payload.from))
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED') return;
+        this.channelJoined(getLocal);
+        await this.presenceChannel?.track(identity);
+      });
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.flush();
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    if (this.opsChannel) supabase.removeChannel(this.opsChannel);
+    if (this.presenceChannel) supabase.removeChannel(this.presenceChannel);
+    this.opsChannel = null;
+    this.presenceChannel = null;
+  }
+
+  /**
+   * Records local edits and queues them for broadcast. Returns the graph to
+   * revert to when the edit is not allowed (viewers, or before the initial
+   * sync), otherwise null.
+   */
+  commitLocal(graph: GraphData): GraphData | null {
+    if (this.stopped || !this.synced || this.discardLocal || graph === this.lastRebase?.output) return null;
+    if (!this.canEdit) return this.doc.differs(graph) ? this.doc.materialize() : null;
+    this.queue(this.doc.commit(graph));
+    return null;
+  }
+
+  /**
+   * Folds pending local edits into the document, then returns the merged
+   * graph. Safe to call from a state updater: repeated calls with the same
+   * input return the same output.
+   */
+  rebase(local: GraphData): GraphData {
+    if (this.lastRebase?.input === local) return this.lastRebase.output;
+    if (this.discardLocal) {
+      // First rebase after joining: the live state replaces the loaded copy wholesale
+      this.discardLocal = false;
+    } else if (this.synced && this.canEdit) {
+      this.queue(this.doc.commit(local));
+    }
+    const output = this.doc.materialize();
+    this.lastRebase = { input: local, output };
+    return output;
+  }
+
+  sendCursor(x: number, y: number): void {
+    const now = Date.now();
+    if (!this.presenceChannel || now - this.lastCursorAt < CURSOR_INTERVAL_MS) return;
+    this.lastCursorAt = now;
+    this.presenceChannel.send({ type: 'broadcast', event: 'cursor', payload: { clientId: this.clientId, x, y } });
+  }
+
+  private receive(records: RecordDelta[] | undefined): void {
+    if (!records?.length) return;
+    if (this.doc.apply(records) && this.synced) this.callbacks.onRemoteChange();
+  }
+
+  private channelJoined(getLocal: () => GraphData): void {
+    this.channelsJoined++;
+    if (this.channelsJoined !== 2 || this.synced) return;
+    this.presenceChannel?.send({ type: 'broadcast', event: 'sync_request', payload: { from: this.clientId } });
+    this.syncTimer = setTimeout(() => {
+      console.log('[GraphCollab] No live peers answered, starting from the local graph');
+      this.doc.load(getLocal());
+      this.finishSync();
+    }, SYNC_TIMEOUT_MS);
+  }
+
+  private finishSync(): void {
+    if (this.synced) return;
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    this.synced = true;
+    this.discardLocal = true;
+    this.callbacks.onStatus('live');
+    this.callbacks.onRemoteChange();
+  }
+
+  private answerSync(requester: string): void {
+    // Only editors can broadcast on the ops channel, and only a synced peer has state worth sending
+    if (!this.synced || !this.canEdit) return;
+    const batches = chunk(this.doc.snapshot(), RECORDS_PER_MESSAGE);
+    batches.forEach((records, idx) =>
+      this.send('sync_state', { to: requester, records, done: idx === batches.length - 1 })
+    );
+  }
+
+  private queue(deltas: RecordDelta[]): void {
+    for (const delta of deltas) {
+      const key = `${delta.k}:${delta.id}`;
+      const pending = this.outbox.get(key);
+      // Coalesce per record: a drag becomes one position write per flush
+      this.outbox.set(key, pending ? { ...delta, f: { ...pending.f, ...delta.f } } : delta);
+    }
+    if (this.outbox.size > 0 && !this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  private flush(): void {
+    this.flushTimer = null;
+    if (this.outbox.size === 0) return;
+    const records = [...this.outbox.values()];
+    this.outbox.clear();
+    chunk(records, RECORDS_PER_MESSAGE).forEach(batch => this.send('ops', { records: batch }));
+  }
+
+  private send(event: string, payload: Record<string, unknown>): void {
+    this.opsChannel?.send({ type: 'broadcast', event, payload });
+  }
+
+  private publishPresence(): void {
+    if (!this.presenceChannel) return;
+    const state = this.presenceChannel.presenceState<Omit<Collaborator, 'clientId' | 'self'>>();
+    const peers = Object.entries(state).flatMap(([clientId, metas]) =>
+      metas.slice(0, 1).map(meta => ({
+        clientId,
+        userId: meta.userId,
+        name: meta.name,
+        color: meta.color,
+        role: meta.role,
+        self: clientId === this.clientId,
+      }))
+    );
+    this.callbacks.onPresence(peers);
+  }
+}
@@ -0,0 +1,143 @@
+// ============================================================================
+// GRAPH DIFF
+// ============================================================================
+// Compares two graph revisions. Entities match on their canonical id and
+// links on (source, target, label), so layout changes alone never count as a
+// difference. buildDiffGraph returns a display-only union of both revisions
+// colored by change, for rendering on the canvas.
+// ============================================================================
+
+import type { GraphData, GraphEdge, GraphNode } from './graphService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface NodeChange {
+  before: GraphNode;
+  after: GraphNode;
+  fields: string[];           // e.g. ['label', 'riskLevel', 'properties.registrar']
+}
+
+export interface GraphDiff {
+  addedNodes: GraphNode[];
+  removedNodes: GraphNode[];
+  changedNodes: NodeChange[];
+  addedEdges: GraphEdge[];
+  removedEdges: GraphEdge[];
+  unchangedNodes: number;
+}
+
+/** A diff rendered on the canvas in place of the working graph */
+export interface GraphDiffView {
+  label: string;
+  graph: GraphData;
+  diff: GraphDiff;
+}
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export const DIFF_COLORS: Record<DiffStatus, string> = {
+  added: '#22c55e',
+  removed: '#ef4444',
+  changed: '#f59e0b',
+  unchanged: '#475569',
+};
+
+/* ============================================================================
+   DIFFING
+============================================================================ */
+
+function edgeKey(edge: GraphEdge): string {
+  return `${edge.source}>${edge.target}>${edge.label}`;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function changedFields(before: GraphNode, after: GraphNode): string[] {
+  const fields: string[] = [];
+  if (before.label !== after.label) fields.push('label');
+  if (before.value !== after.value) fields.push('value');
+  if (before.metadata?.riskLevel !== after.metadata?.riskLevel) fields.push('riskLevel');
+  if (before.metadata?.threatScore !== after.metadata?.threatScore) fields.push('threatScore');
+  if (!sameValue(before.annotations, after.annotations)) fields.push('annotations');
+
+  const keys = new Set([...Object.keys(before.properties || {}), ...Object.keys(after.properties || {})]);
+  for (const key of keys) {
+    if (!sameValue(before.properties?.[key], after.properties?.[key])) fields.push(`properties.${key}`);
+  }
+  return fields;
+}
+
+export function diffGraphs(before: GraphData, after: GraphData): GraphDiff {
+  const beforeNodes = new Map(before.nodes.map(n => [n.id, n]));
+  const afterNodes = new Map(after.nodes.map(n => [n.id, n]));
+  const beforeEdges = new Map(before.edges.map(e => [edgeKey(e), e]));
+  const afterEdges = new Map(after.edges.map(e => [edgeKey(e), e]));
+
+  const diff: GraphDiff = {
+    addedNodes: after.nodes.filter(n => !beforeNodes.has(n.id)),
+    removedNodes: before.nodes.filter(n => !afterNodes.has(n.id)),
+    changedNodes: [],
+    addedEdges: after.edges.filter(e => !beforeEdges.has(edgeKey(e))),
+    removedEdges: before.edges.filter(e => !afterEdges.has(edgeKey(e))),
+    unchangedNodes: 0,
+  };
+
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) continue;
+    const fields = changedFields(previous, node);
+    if (fields.length > 0) diff.changedNodes.push({ before: previous, after: node, fields });
+    else diff.unchangedNodes++;
+  }
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: GraphDiff): boolean {
+  return diff.addedNodes.length + diff.removedNodes.length + diff.changedNodes.length +
+    diff.addedEdges.length + diff.removedEdges.length === 0;
+}
+
+export function summarizeDiff(diff: GraphDiff): string {
+  const parts = [
+    diff.addedNodes.length && `+${diff.addedNodes.length} entities`,
+    diff.removedNodes.length && `-${diff.removedNodes.length} entities`,
+    diff.changedNodes.length && `~${diff.changedNodes.length} changed`,
+    diff.addedEdges.length && `+${diff.addedEdges.length} links`,
+    diff.removedEdges.length && `-${diff.removedEdges.length} links`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
+
+/* ============================================================================
+   DISPLAY
+============================================================================ */
+
+/** Union of both revisions, recolored by status; positions come from `after` where both exist */
+export function buildDiffGraph(before: GraphData, after: GraphData, diff: GraphDiff): GraphData {
+  const changedIds = new Set(diff.changedNodes.map(c => c.after.id));
+  const addedIds = new Set(diff.addedNodes.map(n => n.id));
+  const addedEdgeKeys = new Set(diff.addedEdges.map(edgeKey));
+
+  const statusOf = (id: string): DiffStatus =>
+    addedIds.has(id) ? 'added' : changedIds.has(id) ? 'changed' : 'unchanged';
+
+  const nodes: GraphNode[] = [
+    ...after.nodes.map(node => ({ ...node, color: DIFF_COLORS[statusOf(node.id)] })),
+    ...diff.removedNodes.map(node => ({ ...node, color: DIFF_COLORS.removed })),
+  ];
+  const edges: GraphEdge[] = [
+    ...after.edges.map(edge => ({
+      ...edge,
+      color: addedEdgeKeys.has(edgeKey(edge)) ? DIFF_COLORS.added : DIFF_COLORS.unchanged,
+    })),
+    // Removed links keep their ids unique even if the same id was reused in `after`
+    ...diff.removedEdges.map(edge => ({ ...edge, id: `removed-${edge.id}`, color: DIFF_COLORS.removed })),
+  ];
+
+  return { nodes, edges };
+}
@@ -0,0 +1,999 @@
+// ============================================================================
+// GRAPH INTERCHANGE FORMATS
+// ============================================================================
+// Moves graphs between this app, Gephi and Maltego:
+//   - GraphML (generic, round-trips every field)
+//   - GEXF 1.3 with viz colors/positions (Gephi)
+//   - MTGX, Maltego's zipped GraphML with MaltegoEntity payloads
+//   - Paired node/edge CSV, or a bare source,target edge list
+// plus SVG/PNG snapshots of the whole graph for reports.
+// Foreign files without our entity types get them inferred from the value.
+// Exports apply the TLP release policy first and carry analyst annotations.
+// ============================================================================
+
+import { createZip, readZip } from '@/lib/zip';
+import { detectEntityType, type EntityType as DetectedEntityType } from './entityDetectionService';
+import { applyLayout, forceDirectedLayoutAsync } from './graphLayoutService';
+import { DEFAULT_RELEASE_TLP, TLP_CONFIG, applyTlpPolicy, highestTlp, parseAnnotations } from './graphAnnotationService';
+import {
+  ENTITY_CONFIG,
+  canonicalEntityId,
+  type EntityAnnotations,
+  type EntityType,
+  type GraphData,
+  type GraphEdge,
+  type GraphNode,
+  type TlpLevel,
+} from './graphService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export type GraphExportFormat = 'json' | 'graphml' | 'gexf' | 'mtgx' | 'csv' | 'svg' | 'png';
+
+export interface ExportedFile {
+  filename: string;
+  blob: Blob;
+}
+
+export interface GraphImportResult {
+  graph: GraphData;
+  format: Exclude<GraphExportFormat, 'json' | 'svg' | 'png'>;
+}
+
+/** Intermediate form every importer produces before ids and positions are settled */
+interface RawNode {
+  id: string;
+  type?: string;
+  label?: string;
+  value?: string;
+  x?: number;
+  y?: number;
+  color?: string;
+  size?: number;
+  riskLevel?: string;
+  threatScore?: number;
+  source?: string;
+  addedAt?: string;
+  firstSeen?: string;
+  lastSeen?: string;
+  properties?: Record<string, unknown>;
+  annotations?: EntityAnnotations;
+}
+
+interface RawEdge {
+  source: string;
+  target: string;
+  label?: string;
+  type?: string;
+  weight?: number;
+  annotations?: EntityAnnotations;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+export const GRAPH_EXPORT_FORMATS: Record<GraphExportFormat, { label: string; extension: string }> = {
+  json: { label: 'JSON (native)', extension: 'json' },
+  graphml: { label: 'GraphML', extension: 'graphml' },
+  gexf: { label: 'GEXF (Gephi)', extension: 'gexf' },
+  mtgx: { label: 'Maltego MTGX', extension: 'mtgx' },
+  csv: { label: 'CSV (nodes + edges)', extension: 'csv' },
+  svg: { label: 'SVG snapshot', extension: 'svg' },
+  png: { label: 'PNG snapshot', extension: 'png' },
+};
+
+export const GRAPH_IMPORT_ACCEPT = '.json,.graphml,.xml,.gexf,.mtgx,.csv';
+
+const MTG_NS = 'http://maltego.paterva.com/xml/mtgx';
+const RISK_LEVELS = ['low', 'medium', 'high', 'critical'];
+
+/** EntityType ↔ Maltego standard entities; `property` holds the entity's main value */
+const MALTEGO_ENTITIES: Record<EntityType, { type: string; property: string; displayName: string }> = {
+  domain: { type: 'maltego.Domain', property: 'fqdn', displayName: 'Domain Name' },
+  ip: { type: 'maltego.IPv4Address', property: 'ipv4-address', displayName: 'IP Address' },
+  email: { type: 'maltego.EmailAddress', property: 'email', displayName: 'Email Address' },
+  person: { type: 'maltego.Person', property: 'person.fullname', displayName: 'Full Name' },
+  organization: { type: 'maltego.Organization', property: 'title', displayName: 'Name' },
+  phone: { type: 'maltego.PhoneNumber', property: 'phonenumber', displayName: 'Phone Number' },
+  url: { type: 'maltego.URL', property: 'url', displayName: 'URL' },
+  hash: { type: 'maltego.Hash', property: 'properties.hash', displayName: 'Hash' },
+  netblock: { type: 'maltego.Netblock', property: 'ipv4-range', displayName: 'IP Range' },
+  asn: { type: 'maltego.AS', property: 'as.number', displayName: 'AS Number' },
+  geolocation: { type: 'maltego.Location', property: 'location.name', displayName: 'Name' },
+  social_profile: { type: 'maltego.Alias', property: 'alias', displayName: 'Alias' },
+  crypto_address: { type: 'maltego.CryptocurrencyAddress', property: 'cryptocurrency.address', displayName: 'Address' },
+  crypto_transaction: { type: 'maltego.CryptocurrencyTransaction', property: 'cryptocurrency.transaction', displayName: 'Transaction' },
+  // No standard entity; exported as phrases tagged with osint.entityType so they round-trip
+  malware: { type: 'maltego.Phrase', property: 'text', displayName: 'Text' },
+  vulnerability: { type: 'maltego.Phrase', property: 'text', displayName: 'Text' },
+  certificate: { type: 'maltego.Phrase', property: 'text', displayName: 'Text' },
+  breach: { type: 'maltego.Phrase', property: 'text', displayName: 'Text' },
+  paste: { type: 'maltego.Phrase', property: 'text', displayName: 'Text' },
+};
+
+/** Other common Maltego entity types that map onto ours on import */
+const MALTEGO_IMPORT_ALIASES: Record<string, EntityType> = {
+  'maltego.DNSName': 'domain',
+  'maltego.Website': 'domain',
+  'maltego.MXRecord': 'domain',
+  'maltego.NSRecord': 'domain',
+  'maltego.IPv6Address': 'ip',
+  'maltego.Company': 'organization',
+  'maltego.Twitter': 'social_profile',
+  'maltego.Facebook': 'social_profile',
+  'maltego.Alias': 'social_profile',
+  'maltego.CVE': 'vulnerability',
+  'maltego.BitcoinAddress': 'crypto_address',
+  'maltego.BitcoinTransaction': 'crypto_transaction',
+};
+
+const DETECTED_TYPE_MAP: Partial<Record<DetectedEntityType, EntityType>> = {
+  ip: 'ip',
+  ipv6: 'ip',
+  domain: 'domain',
+  url: 'url',
+  email: 'email',
+  md5: 'hash',
+  sha1: 'hash',
+  sha256: 'hash',
+  sha512: 'hash',
+  cve: 'vulnerability',
+  username: 'social_profile',
+  phone: 'phone',
+  asn: 'asn',
+  cidr: 'netblock',
+  bitcoin: 'crypto_address',
+  ethereum: 'crypto_address',
+  tron: 'crypto_address',
+  litecoin: 'crypto_address',
+};
+
+/* ============================================================================
+   HELPERS
+============================================================================ */
+
+function isEntityType(type: unknown): type is EntityType {
+  return typeof type === 'string' && type in ENTITY_CONFIG;
+}
+
+/** Foreign entities without a known type are classified by value; anything unrecognised becomes an organization */
+function inferEntityType(value: string): EntityType {
+  return DETECTED_TYPE_MAP[detectEntityType(value).type] || 'organization';
+}
+
+function escapeXml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('File is not valid XML');
+  return doc;
+}
+
+/** Prefix-agnostic descendant lookup; files in the wild differ in namespaces and prefixes */
+function childrenByName(parent: Element | Document, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagName('*')).filter(el => el.nodeName.split(':').pop() === localName);
+}
+
+function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const value = parseInt(hex.replace('#', '').slice(0, 6).padEnd(6, '0'), 16) || 0;
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+}
+
+function rgbToHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map(c => Math.max(0, Math.min(255, Math.round(c))).toString(16).padStart(2, '0')).join('')}`;
+}
+
+const num = (value: string | null | undefined): number | undefined => {
+  const parsed = value == null || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+function parseJsonObject(value: string | undefined): Record<string, unknown> | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Full annotations as a JSON cell; the TLP label is written alongside so other tools can filter on it */
+function annotationsJson(annotations: EntityAnnotations | undefined): string | undefined {
+  return annotations ? JSON.stringify(annotations) : undefined;
+}
+
+/** Annotations from a JSON cell, or just the TLP when only that column survived editing elsewhere */
+function readAnnotations(json: string | undefined, tlp: string | undefined): EntityAnnotations | undefined {
+  return parseAnnotations(json) || parseAnnotations({ tlp: tlp?.replace(/^tlp:/i, '').toLowerCase() });
+}
+
+/**
+ * Turns importer output into GraphData: canonical ids (so re-imports merge
+ * with what is already on the canvas), entity styling, and a force layout
+ * when the file carried no positions.
+ */
+function buildGraph(rawNodes: RawNode[], rawEdges: RawEdge[], source: string): GraphData {
+  const idMap = new Map<string, string>();
+  const now = new Date().toISOString();
+
+  const nodes: GraphNode[] = rawNodes.map(raw => {
+    const value = raw.value || raw.label || raw.id;
+    const type = isEntityType(raw.type) ? raw.type : inferEntityType(value);
+    const config = ENTITY_CONFIG[type];
+    const id = canonicalEntityId(type, value);
+    idMap.set(raw.id, id);
+    const risk = RISK_LEVELS.includes(raw.riskLevel || '') ? (raw.riskLevel as GraphNode['metadata']['riskLevel']) : undefined;
+
+    return {
+      id,
+      type,
+      label: raw.label || value,
+      value,
+      properties: raw.properties || {},
+      position: { x: raw.x ?? NaN, y: raw.y ?? NaN },
+      color: raw.color || config.color,
+      icon: config.icon,
+      size: raw.size || 50,
+      metadata: {
+        source: raw.source || source,
+        lastUpdated: now,
+        ...(risk ? { riskLevel: risk } : {}),
+        ...(raw.threatScore !== undefined ? { threatScore: raw.threatScore } : {}),
+        ...(raw.addedAt ? { addedAt: raw.addedAt } : {}),
+        ...(raw.firstSeen ? { firstSeen: raw.firstSeen } : {}),
+        ...(raw.lastSeen ? { lastSeen: raw.lastSeen } : {}),
+      },
+      ...(raw.annotations ? { annotations: raw.annotations } : {}),
+    };
+  });
+
+  const edges: GraphEdge[] = rawEdges
+    .filter(raw => idMap.has(raw.source) && idMap.has(raw.target))
+    .map(raw => {
+      const sourceId = idMap.get(raw.source)!;
+      const targetId = idMap.get(raw.target)!;
+      const type = raw.type || 'imported';
+      return {
+        id: `edge-${sourceId}-${targetId}-${type}`,
+        source: sourceId,
+        target: targetId,
+        label: raw.label || '',
+        type,
+        weight: raw.weight ?? 1,
+        ...(raw.annotations ? { annotations: raw.annotations } : {}),
+      };
+    });
+
+  const graph = { nodes, edges };
+  const unplaced = nodes.filter(n => !Number.isFinite(n.position.x) || !Number.isFinite(n.position.y));
+  if (unplaced.length === 0) return graph;
+
+  // Seed on a sunflower spiral; a straight row would keep the force layout one-dimensional
+  unplaced.forEach((node, i) => {
+    const angle = i * 2.39996;
+    const radius = 60 * Math.sqrt(i + 1);
+    node.position = { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  });
+  pendingLayout.set(graph, new Set(unplaced.map(n => n.id)));
+  return graph;
+}
+
+// Nodes a parser placed on the seed spiral; importGraphFiles settles them with the
+// force layout off the critical path so big imports do not freeze the UI
+const pendingLayout = new WeakMap<GraphData, Set<string>>();
+
+async function settleLayout(graph: GraphData): Promise<GraphData> {
+  const unplaced = pendingLayout.get(graph);
+  if (!unplaced) return graph;
+  const pinned = new Set(graph.nodes.filter(n => !unplaced.has(n.id)).map(n => n.id));
+  return applyLayout(graph, await forceDirectedLayoutAsync(graph, { pinned }));
+}
+
+/* ============================================================================
+   GRAPHML
+============================================================================ */
+
+const GRAPHML_NODE_KEYS = ['type', 'label', 'value', 'color', 'icon', 'size', 'x', 'y', 'riskLevel', 'threatScore', 'source', 'addedAt', 'firstSeen', 'lastSeen', 'properties', 'tlp', 'annotations'] as const;
+const GRAPHML_EDGE_KEYS = ['label', 'type', 'weight', 'tlp', 'annotations'] as const;
+const GRAPHML_NUMERIC_KEYS = new Set(['size', 'x', 'y', 'threatScore', 'weight']);
+
+export function buildGraphML(graph: GraphData): string {
+  const key = (scope: 'node' | 'edge', name: string) =>
+    `  <key id="${scope[0]}_${name}" for="${scope}" attr.name="${name}" attr.type="${GRAPHML_NUMERIC_KEYS.has(name) ? 'double' : 'string'}"/>`;
+  const data = (scope: 'node' | 'edge', name: string, value: unknown) =>
+    value === undefined || value === null || value === '' ? '' : `<data key="${scope[0]}_${name}">${escapeXml(value)}</data>`;
+
+  const nodes = graph.nodes.map(n => {
+    const values: Record<(typeof GRAPHML_NODE_KEYS)[number], unknown> = {
+      type: n.type,
+      label: n.label,
+      value: n.value,
+      color: n.color,
+      icon: n.icon,
+      size: n.size,
+      x: Math.round(n.position.x),
+      y: Math.round(n.position.y),
+      riskLevel: n.metadata?.riskLevel,
+      threatScore: n.metadata?.threatScore,
+      source: n.metadata?.source,
+      addedAt: n.metadata?.addedAt,
+      firstSeen: n.metadata?.firstSeen,
+      lastSeen: n.metadata?.lastSeen,
+      properties: Object.keys(n.properties || {}).length ? JSON.stringify(n.properties) : undefined,
+      tlp: n.annotations?.tlp,
+      annotations: annotationsJson(n.annotations),
+    };
+    return `    <node id="${escapeXml(n.id)}">${GRAPHML_NODE_KEYS.map(k => data('node', k, values[k])).join('')}</node>`;
+  });
+
+  const edges = graph.edges.map(e =>
+    `    <edge id="${escapeXml(e.id)}" source="${escapeXml(e.source)}" target="${escapeXml(e.target)}">` +
+    `${data('edge', 'label', e.label)}${data('edge', 'type', e.type)}${data('edge', 'weight', e.weight)}` +
+    `${data('edge', 'tlp', e.annotations?.tlp)}${data('edge', 'annotations', annotationsJson(e.annotations))}</edge>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...GRAPHML_NODE_KEYS.map(k => key('node', k)),
+    ...GRAPHML_EDGE_KEYS.map(k => key('edge', k)),
+    '  <graph id="G" edgedefault="directed">',
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+  ].join('\n');
+}
+
+/** Key id -> attr.name; falls back to the id for files that omit attr.name */
+function graphMLKeyNames(doc: Document): Map<string, string> {
+  return new Map(childrenByName(doc, 'key').map(k => [k.getAttribute('id') || '', k.getAttribute('attr.name') || k.getAttribute('id') || '']));
+}
+
+function graphMLData(el: Element, keyNames: Map<string, string>): Record<string, string> {
+  const values: Record<string, string> = {};
+  Array.from(el.children)
+    .filter(child => child.localName === 'data')
+    .forEach(child => {
+      const name = keyNames.get(child.getAttribute('key') || '') || child.getAttribute('key') || '';
+      values[name] = child.textContent?.trim() || '';
+    });
+  return values;
+}
+
+export function parseGraphML(text: string): GraphData {
+  const doc = parseXml(text);
+  const keyNames = graphMLKeyNames(doc);
+
+  const nodes: RawNode[] = childrenByName(doc, 'node').map(el => {
+    const d = graphMLData(el, keyNames);
+    const id = el.getAttribute('id') || '';
+    return {
+      id,
+      type: d.type,
+      label: d.label || d.name || d.Label,
+      value: d.value,
+      color: d.color,
+      size: num(d.size),
+      x: num(d.x),
+      y: num(d.y),
+      riskLevel: d.riskLevel,
+      threatScore: num(d.threatScore),
+      source: d.source,
+      addedAt: d.addedAt,
+      firstSeen: d.firstSeen,
+      lastSeen: d.lastSeen,
+      properties: parseJsonObject(d.properties),
+      annotations: readAnnotations(d.annotations, d.tlp),
+    };
+  });
+
+  const edges: RawEdge[] = childrenByName(doc, 'edge').map(el => {
+    const d = graphMLData(el, keyNames);
+    return {
+      source: el.getAttribute('source') || '',
+      target: el.getAttribute('target') || '',
+      label: d.label || d.Label,
+      type: d.type,
+      weight: num(d.weight),
+      annotations: readAnnotations(d.annotations, d.tlp),
+    };
+  });
+
+  return buildGraph(nodes, edges, 'GraphML import');
+}
+
+/* ============================================================================
+   GEXF
+============================================================================ */
+
+const GEXF_NODE_ATTRIBUTES = [
+  { id: 'type', type: 'string' },
+  { id: 'value', type: 'string' },
+  { id: 'riskLevel', type: 'string' },
+  { id: 'threatScore', type: 'double' },
+  { id: 'source', type: 'string' },
+  { id: 'properties', type: 'string' },
+  { id: 'tlp', type: 'string' },
+  { id: 'annotations', type: 'string' },
+] as const;
+
+export function buildGexf(graph: GraphData): string {
+  const attvalues = (values: Record<string, unknown>) => {
+    const entries = Object.entries(values).filter(([, v]) => v !== undefined && v !== null && v !== '');
+    return entries.length
+      ? `<attvalues>${entries.map(([k, v]) => `<attvalue for="${k}" value="${escapeXml(v)}"/>`).join('')}</attvalues>`
+      : '';
+  };
+
+  const nodes = graph.nodes.map(n => {
+    const { r, g, b } = hexToRgb(n.color || ENTITY_CONFIG[n.type].color);
+    return `      <node id="${escapeXml(n.id)}" label="${escapeXml(n.label)}">` +
+      attvalues({
+        type: n.type,
+        value: n.value,
+        riskLevel: n.metadata?.riskLevel,
+        threatScore: n.metadata?.threatScore,
+        source: n.metadata?.source,
+        properties: Object.keys(n.properties || {}).length ? JSON.stringify(n.properties) : undefined,
+        tlp: n.annotations?.tlp,
+        annotations: annotationsJson(n.annotations),
+      }) +
+      `<viz:color r="${r}" g="${g}" b="${b}"/>` +
+      // Gephi's y axis points up
+      `<viz:position x="${Math.round(n.position.x)}" y="${Math.round(-n.position.y)}" z="0"/>` +
+      `<viz:size value="${(n.size || 50) / 5}"/></node>`;
+  });
+
+  const edges = graph.edges.map(e =>
+    `      <edge id="${escapeXml(e.id)}" source="${escapeXml(e.source)}" target="${escapeXml(e.target)}" label="${escapeXml(e.label)}" weight="${e.weight ?? 1}">` +
+    `${attvalues({ type: e.type, tlp: e.annotations?.tlp, annotations: annotationsJson(e.annotations) })}</edge>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}"><creator>Phoenix OSINT Platform</creator></meta>`,
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    ...GEXF_NODE_ATTRIBUTES.map(a => `      <attribute id="${a.id}" title="${a.id}" type="${a.type}"/>`),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="type" title="type" type="string"/>',
+    '      <attribute id="tlp" title="tlp" type="string"/>',
+    '      <attribute id="annotations" title="annotations" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+    ...nodes,
+    '    </nodes>',
+    '    <edges>',
+    ...edges,
+    '    </edges>',
+    '  </graph>',
+    '</gexf>',
+  ].join('\n');
+}
+
+function gexfAttValues(el: Element, titles: Map<string, string>): Record<string, string> {
+  const values: Record<string, string> = {};
+  childrenByName(el, 'attvalue').forEach(av => {
+    const key = av.getAttribute('for') || av.getAttribute('id') || '';
+    values[titles.get(key) || key] = av.getAttribute('value') || '';
+  });
+  return values;
+}
+
+export function parseGexf(text: string): GraphData {
+  const doc = parseXml(text);
+  // Gephi writes numeric attribute ids; match on titles
+  const titles = new Map(childrenByName(doc, 'attribute').map(a => [a.getAttribute('id') || '', a.getAttribute('title') || a.getAttribute('id') || '']));
+
+  const nodes: RawNode[] = childrenByName(doc, 'node').map(el => {
+    const attrs = gexfAttValues(el, titles);
+    const color = childrenByName(el, 'color')[0];
+    const position = childrenByName(el, 'position')[0];
+    const size = childrenByName(el, 'size')[0];
+    const y = num(position?.getAttribute('y'));
+    return {
+      id: el.getAttribute('id') || '',
+      type: attrs.type,
+      label: el.getAttribute('label') || undefined,
+      value: attrs.value,
+      color: color ? rgbToHex(Number(color.getAttribute('r')), Number(color.getAttribute('g')), Number(color.getAttribute('b'))) : undefined,
+      x: num(position?.getAttribute('x')),
+      y: y === undefined ? undefined : -y,
+      size: size ? Math.max(20, Math.min(120, (num(size.getAttribute('value')) || 10) * 5)) : undefined,
+      riskLevel: attrs.riskLevel,
+      threatScore: num(attrs.threatScore),
+      source: attrs.source,
+      properties: parseJsonObject(attrs.properties),
+      annotations: readAnnotations(attrs.annotations, attrs.tlp),
+    };
+  });
+
+  const edges: RawEdge[] = childrenByName(doc, 'edge').map(el => {
+    const attrs = gexfAttValues(el, titles);
+    return {
+      source: el.getAttribute('source') || '',
+      target: el.getAttribute('target') || '',
+      label: el.getAttribute('label') || undefined,
+      type: attrs.type,
+      weight: num(el.getAttribute('weight')),
+      annotations: readAnnotations(attrs.annotations, attrs.tlp),
+    };
+  });
+
+  return buildGraph(nodes, edges, 'GEXF import');
+}
+
+/* ============================================================================
+   MALTEGO MTGX
+============================================================================ */
+
+function maltegoProperty(name: string, displayName: string, value: unknown): string {
+  return `<mtg:Property name="${escapeXml(name)}" displayName="${escapeXml(displayName)}" type="string" nullable="true" hidden="false" readonly="false">` +
+    `<mtg:Value>${escapeXml(value)}</mtg:Value></mtg:Property>`;
+}
+
+export function buildMaltegoGraphML(graph: GraphData): string {
+  const indexById = new Map(graph.nodes.map((n, i) => [n.id, i]));
+
+  const nodes = graph.nodes.map((n, i) => {
+    const entity = MALTEGO_ENTITIES[n.type];
+    const extra: [string, unknown][] = [
+      ['osint.entityType', n.type],
+      ['osint.riskLevel', n.metadata?.riskLevel],
+      ['osint.threatScore', n.metadata?.threatScore],
+      ['osint.source', n.metadata?.source],
+      ['osint.tlp', n.annotations?.tlp && TLP_CONFIG[n.annotations.tlp].label],
+      ['osint.annotations', annotationsJson(n.annotations)],
+      ...Object.entries(n.properties || {})
+        .filter(([, v]) => v !== null && v !== undefined && typeof v !== 'object')
+        .map(([k, v]): [string, unknown] => [`properties.${k}`, v]),
+    ];
+    const properties = [
+      maltegoProperty(entity.property, entity.displayName, n.value),
+      ...extra.filter(([, v]) => v !== undefined && v !== '').map(([k, v]) => maltegoProperty(k, k, v)),
+    ].join('');
+
+    return `    <node id="n${i}"><data key="d0"><mtg:MaltegoEntity xmlns:mtg="${MTG_NS}" type="${entity.type}">` +
+      `<mtg:Properties>${properties}</mtg:Properties></mtg:MaltegoEntity></data>` +
+      `<data key="d1"><mtg:EntityRenderer xmlns:mtg="${MTG_NS}"><mtg:Position x="${Math.round(n.position.x)}" y="${Math.round(n.position.y)}"/></mtg:EntityRenderer></data></node>`;
+  });
+
+  const edges = graph.edges
+    .filter(e => indexById.has(e.source) && indexById.has(e.target))
+    .map((e, i) =>
+      `    <edge id="e${i}" source="n${indexById.get(e.source)}" target="n${indexById.get(e.target)}"><data key="d2">` +
+      `<mtg:MaltegoLink xmlns:mtg="${MTG_NS}" type="maltego.link.manual-link"><mtg:Properties>` +
+      maltegoProperty('maltego.link.manual.type', 'Label', e.label) +
+      maltegoProperty('osint.transform', 'Transform', e.type) +
+      (e.annotations ? maltegoProperty('osint.annotations', 'Annotations', annotationsJson(e.annotations)) : '') +
+      `</mtg:Properties></mtg:MaltegoLink></data></edge>`
+    );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:mtg="${MTG_NS}">`,
+    '  <key id="d0" for="node" attr.name="MaltegoEntity"/>',
+    '  <key id="d1" for="node" yfiles.type="nodegraphics"/>',
+    '  <key id="d2" for="edge" attr.name="MaltegoLink"/>',
+    '  <graph id="G" edgedefault="directed">',
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+  ].join('\n');
+}
+
+export function buildMtgx(graph: GraphData): Uint8Array {
+  return createZip([
+    { name: 'Version.properties', data: 'maltego.client.version=4.3.0\nmaltego.graph.version=1.2\n' },
+    { name: 'Graphs/Graph1.properties', data: `graph.name=Phoenix OSINT export ${new Date().toISOString()}\n` },
+    { name: 'Graphs/Graph1.graphml', data: buildMaltegoGraphML(graph) },
+  ]);
+}
+
+function maltegoProperties(el: Element): Map<string, string> {
+  return new Map(childrenByName(el, 'Property').map(p => [
+    p.getAttribute('name') || '',
+    childrenByName(p, 'Value')[0]?.textContent?.trim() || '',
+  ]));
+}
+
+export function parseMaltegoGraphML(text: string): GraphData {
+  const doc = parseXml(text);
+  const nodes: RawNode[] = [];
+
+  for (const el of childrenByName(doc, 'node')) {
+    const entity = childrenByName(el, 'MaltegoEntity')[0];
+    if (!entity) continue;
+    const maltegoType = entity.getAttribute('type') || '';
+    const props = maltegoProperties(entity);
+    const tagged = props.get('osint.entityType');
+    const type = isEntityType(tagged)
+      ? tagged
+      : (Object.keys(MALTEGO_ENTITIES) as EntityType[]).find(t => MALTEGO_ENTITIES[t].type === maltegoType && maltegoType !== 'maltego.Phrase')
+        || MALTEGO_IMPORT_ALIASES[maltegoType];
+    const mainProperty = type ? MALTEGO_ENTITIES[type].property : undefined;
+    const value = (mainProperty && props.get(mainProperty)) || Array.from(props.values()).find(Boolean) || '';
+    if (!value) continue;
+
+    const properties: Record<string, unknown> = {};
+    props.forEach((v, k) => {
+      if (k.startsWith('properties.') && k !== 'properties.hash') properties[k.slice('properties.'.length)] = v;
+    });
+    if (!type) properties.maltegoType = maltegoType;
+
+    const position = childrenByName(el, 'Position')[0];
+    nodes.push({
+      id: el.getAttribute('id') || '',
+      type,
+      value,
+      x: num(position?.getAttribute('x')),
+      y: num(position?.getAttribute('y')),
+      riskLevel: props.get('osint.riskLevel'),
+      threatScore: num(props.get('osint.threatScore')),
+      source: props.get('osint.source') || 'Maltego import',
+      properties,
+      annotations: readAnnotations(props.get('osint.annotations'), props.get('osint.tlp')),
+    });
+  }
+
+  const edges: RawEdge[] = childrenByName(doc, 'edge').map(el => {
+    const link = childrenByName(el, 'MaltegoLink')[0];
+    const props = link ? maltegoProperties(link) : new Map<string, string>();
+    return {
+      source: el.getAttribute('source') || '',
+      target: el.getAttribute('target') || '',
+      label: props.get('maltego.link.manual.type') || props.get('maltego.link.label') || '',
+      type: props.get('osint.transform') || 'maltego_link',
+      annotations: readAnnotations(props.get('osint.annotations'), undefined),
+    };
+  });
+
+  return buildGraph(nodes, edges, 'Maltego import');
+}
+
+export async function parseMtgx(data: Uint8Array): Promise<GraphData> {
+  const files = await readZip(data);
+  const graphFile = Array.from(files.keys()).find(name => /^Graphs\/.+\.graphml$/i.test(name));
+  if (!graphFile) throw new Error('MTGX archive contains no graph');
+  return parseMaltegoGraphML(new TextDecoder().decode(files.get(graphFile)));
+}
+
+/* ============================================================================
+   CSV
+============================================================================ */
+
+const CSV_NODE_COLUMNS = ['id', 'type', 'label', 'value', 'riskLevel', 'threatScore', 'source', 'x', 'y', 'properties', 'tlp', 'annotations'];
+const CSV_EDGE_COLUMNS = ['source', 'target', 'label', 'type', 'weight', 'tlp', 'annotations'];
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 parsing, including quoted fields that span lines */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(cell => cell.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim())) rows.push(row);
+  return rows;
+}
+
+function csvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const columns = header.map(h => h.trim());
+  return rows.map(row => Object.fromEntries(columns.map((c, i) => [c, (row[i] ?? '').trim()])));
+}
+
+export function buildCsv(graph: GraphData): { nodes: string; edges: string } {
+  const nodes = [
+    CSV_NODE_COLUMNS.join(','),
+    ...graph.nodes.map(n => [
+      n.id,
+      n.type,
+      n.label,
+      n.value,
+      n.metadata?.riskLevel,
+      n.metadata?.threatScore,
+      n.metadata?.source,
+      Math.round(n.position.x),
+      Math.round(n.position.y),
+      Object.keys(n.properties || {}).length ? JSON.stringify(n.properties) : '',
+      n.annotations?.tlp,
+      annotationsJson(n.annotations),
+    ].map(csvCell).join(',')),
+  ];
+  const edges = [
+    CSV_EDGE_COLUMNS.join(','),
+    ...graph.edges.map(e =>
+      [e.source, e.target, e.label, e.type, e.weight, e.annotations?.tlp, annotationsJson(e.annotations)].map(csvCell).join(',')
+    ),
+  ];
+  return { nodes: nodes.join('\n') + '\n', edges: edges.join('\n') + '\n' };
+}
+
+/**
+ * Type and value behind one of our own node ids: canonical "<type>-<value>",
+ * or the older "<type>-<value>-<timestamp>-<index>" transform ids
+ */
+function parseNodeId(id: string): Pick<RawNode, 'type' | 'value'> | null {
+  const separator = id.indexOf('-');
+  const type = id.slice(0, separator);
+  if (separator <= 0 || !isEntityType(type)) return null;
+  const value = id.slice(separator + 1).replace(/-\d{13}-\d+$/, '');
+  return value ? { type, value } : null;
+}
+
+/**
+ * Accepts a nodes file, an edges file, or both. Edge endpoints missing from
+ * the nodes file become entities in their own right, so a bare edge list
+ * works; endpoints that are our own exported ids get their type back.
+ */
+export function parseCsvFiles(texts: string[]): GraphData {
+  const nodes = new Map<string, RawNode>();
+  const edges: RawEdge[] = [];
+
+  for (const text of texts) {
+    const records = csvRecords(text);
+    const columns = Object.keys(records[0] || {}).map(c => c.toLowerCase());
+    if (columns.includes('source') && columns.includes('target')) {
+      records.forEach(r => edges.push({
+        source: r.source ?? r.Source,
+        target: r.target ?? r.Target,
+        label: r.label ?? r.Label,
+        type: r.type ?? r.Type,
+        weight: num(r.weight ?? r.Weight),
+        annotations: readAnnotations(r.annotations, r.tlp ?? r.TLP),
+      }));
+    } else if (columns.includes('id')) {
+      records.forEach(r => nodes.set(r.id ?? r.Id, {
+        id: r.id ?? r.Id,
+        type: r.type,
+        label: r.label ?? r.Label,
+        value: r.value,
+        riskLevel: r.riskLevel,
+        threatScore: num(r.threatScore),
+        source: r.source,
+        x: num(r.x),
+        y: num(r.y),
+        properties: parseJsonObject(r.properties),
+        annotations: readAnnotations(r.annotations, r.tlp ?? r.TLP),
+      }));
+    } else {
+      throw new Error('CSV needs an id column (nodes) or source and target columns (edges)');
+    }
+  }
+
+  edges.forEach(e => [e.source, e.target].forEach(id => {
+    if (id && !nodes.has(id)) nodes.set(id, { id, ...parseNodeId(id) });
+  }));
+
+  return buildGraph(Array.from(nodes.values()), edges, 'CSV import');
+}
+
+/* ============================================================================
+   SNAPSHOTS
+============================================================================ */
+
+const SNAPSHOT_PADDING = 80;
+const RISK_COLORS: Record<string, string> = {
+  low: '#10b981',
+  medium: '#f59e0b',
+  high: '#f97316',
+  critical: '#ef4444',
+};
+
+/** Renders the whole graph (not just the viewport) in the canvas' visual style */
+export function buildGraphSvg(graph: GraphData): string {
+  const xs = graph.nodes.flatMap(n => [n.position.x - (n.size || 50), n.position.x + (n.size || 50)]);
+  const ys = graph.nodes.flatMap(n => [n.position.y - (n.size || 50), n.position.y + (n.size || 50) + 20]);
+  const minX = (xs.length ? Math.min(...xs) : 0) - SNAPSHOT_PADDING;
+  const minY = (ys.length ? Math.min(...ys) : 0) - SNAPSHOT_PADDING;
+  const width = (xs.length ? Math.max(...xs) : 0) + SNAPSHOT_PADDING - minX;
+  const height = (ys.length ? Math.max(...ys) : 0) + SNAPSHOT_PADDING - minY;
+  const nodeById = new Map(graph.nodes.map(n => [n.id, n]));
+  const marking = highestTlp(graph);
+
+  const edges = graph.edges.map(e => {
+    const s = nodeById.get(e.source);
+    const t = nodeById.get(e.target);
+    if (!s || !t) return '';
+    const angle = Math.atan2(t.position.y - s.position.y, t.position.x - s.position.x);
+    const endX = t.position.x - Math.cos(angle) * (t.size || 50) / 2;
+    const endY = t.position.y - Math.sin(angle) * (t.size || 50) / 2;
+    const color = escapeXml(e.color || '#64748b');
+    return `<line x1="${s.position.x}" y1="${s.position.y}" x2="${endX}" y2="${endY}" stroke="${color}" stroke-width="2" marker-end="url(#arrow)"/>` +
+      (e.label
+        ? `<text x="${(s.position.x + t.position.x) / 2}" y="${(s.position.y + t.position.y) / 2 - 10}" fill="#94a3b8" font-size="10" text-anchor="middle">${escapeXml(e.label)}</text>`
+        : '');
+  });
+
+  const nodes = graph.nodes.map(n => {
+    const size = n.size || 50;
+    const label = n.label.length > 20 ? `${n.label.substring(0, 20)}...` : n.label;
+    const risk = n.metadata?.riskLevel;
+    const tlp = n.annotations?.tlp;
+    return `<g><circle cx="${n.position.x}" cy="${n.position.y}" r="${size / 2}" fill="${escapeXml(n.color || '#3b82f6')}"/>` +
+      `<text x="${n.position.x}" y="${n.position.y}" font-size="${size / 2}" text-anchor="middle" dominant-baseline="central">${escapeXml(n.icon || '⚫')}</text>` +
+      `<text x="${n.position.x}" y="${n.position.y + size / 2 + 5}" fill="#ffffff" font-size="12" font-weight="bold" text-anchor="middle" dominant-baseline="hanging">${escapeXml(label)}</text>` +
+      (risk
+        ? `<circle cx="${n.position.x + size / 2 - 5}" cy="${n.position.y - size / 2 + 5}" r="8" fill="${RISK_COLORS[risk]}" stroke="#ffffff" stroke-width="2"/>`
+        : '') +
+      (tlp
+        ? `<rect x="${n.position.x - size / 2 - 3}" y="${n.position.y - size / 2 - 3}" width="10" height="10" rx="2" fill="${TLP_CONFIG[tlp].color}" stroke="#000000" stroke-width="1.5"/>`
+        : '') +
+      '</g>';
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(width)}" height="${Math.ceil(height)}" viewBox="${minX} ${minY} ${width} ${height}" font-family="Inter, sans-serif">`,
+    '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="10" markerHeight="10" markerUnits="userSpaceOnUse" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="#64748b"/></marker></defs>',
+    `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="#0a0e27"/>`,
+    ...edges,
+    ...nodes,
+    // TLP 2.0 asks for the label in its color on a black background
+    ...(marking
+      ? [`<rect x="${minX + width - 130}" y="${minY + 10}" width="120" height="24" fill="#000000"/>` +
+        `<text x="${minX + width - 70}" y="${minY + 22}" fill="${TLP_CONFIG[marking].color}" font-size="14" font-weight="bold" text-anchor="middle" dominant-baseline="central">${TLP_CONFIG[marking].label}</text>`]
+      : []),
+    '</svg>',
+  ].join('\n');
+}
+
+const MAX_PNG_PIXELS = 32_000_000;
+
+/** Rasterizes the SVG snapshot; scale is reduced for very large graphs to stay within canvas limits */
+export async function buildGraphPng(graph: GraphData, scale = 2): Promise<Blob> {
+  const svg = buildGraphSvg(graph);
+  const [, w, h] = svg.match(/width="(\d+)" height="(\d+)"/) || [];
+  const width = Number(w);
+  const height = Number(h);
+  const fit = Math.min(scale, Math.sqrt(MAX_PNG_PIXELS / (width * height)));
+
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to render graph snapshot'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * fit);
+    canvas.height = Math.ceil(height * fit);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/* ============================================================================
+   PUBLIC API
+============================================================================ */
+
+/** Everything marked above `releaseTlp` is withheld before any format is built */
+export async function exportGraphFiles(
+  source: GraphData,
+  format: GraphExportFormat,
+  releaseTlp: TlpLevel = DEFAULT_RELEASE_TLP
+): Promise<ExportedFile[]> {
+  const { graph } = applyTlpPolicy(source, releaseTlp);
+  const base = `osint-graph-${Date.now()}`;
+  const file = (content: BlobPart, type: string, suffix = ''): ExportedFile => ({
+    filename: `${base}${suffix}.${GRAPH_EXPORT_FORMATS[format].extension}`,
+    blob: content instanceof Blob ? content : new Blob([content], { type }),
+  });
+
+  switch (format) {
+    case 'json':
+      return [file(JSON.stringify(graph, null, 2), 'application/json')];
+    case 'graphml':
+      return [file(buildGraphML(graph), 'application/graphml+xml')];
+    case 'gexf':
+      return [file(buildGexf(graph), 'application/xml')];
+    case 'mtgx':
+      return [file(buildMtgx(graph), 'application/zip')];
+    case 'csv': {
+      const { nodes, edges } = buildCsv(graph);
+      return [file(nodes, 'text/csv', '-nodes'), file(edges, 'text/csv', '-edges')];
+    }
+    case 'svg':
+      return [file(buildGraphSvg(graph), 'image/svg+xml')];
+    case 'png':
+      return [file(await buildGraphPng(graph), 'image/png')];
+  }
+}
+
+export async function downloadGraphExport(
+  graph: GraphData,
+  format: GraphExportFormat,
+  releaseTlp: TlpLevel = DEFAULT_RELEASE_TLP
+): Promise<void> {
+  for (const { filename, blob } of await exportGraphFiles(graph, format, releaseTlp)) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Imports GraphML, GEXF, MTGX or CSV files, detected by extension and then
+ * content. Native JSON and STIX are handled by the caller.
+ */
+export async function importGraphFiles(files: File[]): Promise<GraphImportResult> {
+  const { graph, format } = await parseGraphFiles(files);
+  return { graph: await settleLayout(graph), format };
+}
+
+async function parseGraphFiles(files: File[]): Promise<GraphImportResult> {
+  const csv = files.filter(f => /\.csv$/i.test(f.name));
+  if (csv.length > 0) {
+    return { graph: parseCsvFiles(await Promise.all(csv.map(f => f.text()))), format: 'csv' };
+  }
+
+  const file = files[0];
+  if (/\.mtgx$/i.test(file.name)) {
+    return { graph: await parseMtgx(new Uint8Array(await file.arrayBuffer())), format: 'mtgx' };
+  }
+
+  const text = await file.text();
+  if (/<gexf[\s>]/.test(text)) return { graph: parseGexf(text), format: 'gexf' };
+  if (text.includes(MTG_NS)) return { graph: parseMaltegoGraphML(text), format: 'mtgx' };
+  if (/<graphml[\s>]/.test(text)) return { graph: parseGraphML(text), format: 'graphml' };
+  throw new Error(`Unrecognised graph file: ${file.name}`);
+}
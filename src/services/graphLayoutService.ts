@@ -0,0 +1,542 @@
+// ============================================================================
+// GRAPH LAYOUT ENGINES
+// ============================================================================
+// Layouts for the investigation graph: force-directed with collision
+// avoidance, hierarchical by transform depth, radial around a pivot and
+// grouped by entity type. placeNewNodes() lays out only fresh transform
+// results next to their parent so the rest of the graph stays where it is.
+// ============================================================================
+
+import type { EntityType, GraphData, GraphNode } from './graphService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export type LayoutType = 'force' | 'hierarchical' | 'radial' | 'grouped';
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export type LayoutPositions = Map<string, Position>;
+
+export interface ForceLayoutOptions {
+  pinned?: Set<string>;       // Nodes that exert forces but never move
+  iterations?: number;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+const EDGE_LENGTH = 140;
+const LABEL_PADDING = 28;       // Room for the label drawn under each node
+const LAYER_GAP = 260;
+const SIBLING_GAP = 90;
+const MAX_COLUMN_NODES = 40;    // Larger hierarchical layers wrap into extra columns
+const COLUMN_GAP = 170;
+const RING_GAP = 180;
+const GROUP_CELL = 100;
+const GROUP_GAP = 160;
+const GRAVITY = 0.05;
+const FRAME_BUDGET_MS = 12;     // Async layouts yield to the UI after this much work
+
+/* ============================================================================
+   HELPERS
+============================================================================ */
+
+const radius = (node: GraphNode) => (node.size || 50) / 2;
+
+function buildAdjacency(graph: GraphData): Map<string, Set<string>> {
+  const adjacency = new Map<string, Set<string>>(graph.nodes.map(n => [n.id, new Set<string>()]));
+  for (const edge of graph.edges) {
+    if (!adjacency.has(edge.source) || !adjacency.has(edge.target) || edge.source === edge.target) continue;
+    adjacency.get(edge.source)!.add(edge.target);
+    adjacency.get(edge.target)!.add(edge.source);
+  }
+  return adjacency;
+}
+
+function centroid(nodes: GraphNode[]): Position {
+  if (nodes.length === 0) return { x: 0, y: 0 };
+  return {
+    x: nodes.reduce((sum, n) => sum + n.position.x, 0) / nodes.length,
+    y: nodes.reduce((sum, n) => sum + n.position.y, 0) / nodes.length,
+  };
+}
+
+/** Cell index for neighbour lookups, so repulsion and collisions stay near-linear on large graphs */
+class SpatialGrid {
+  private cells = new Map<string, string[]>();
+
+  constructor(private size: number, positions: LayoutPositions) {
+    for (const [id, p] of positions) {
+      const key = this.key(p);
+      if (!this.cells.has(key)) this.cells.set(key, []);
+      this.cells.get(key)!.push(id);
+    }
+  }
+
+  private key(p: Position): string {
+    return `${Math.floor(p.x / this.size)},${Math.floor(p.y / this.size)}`;
+  }
+
+  near(p: Position): string[] {
+    const cx = Math.floor(p.x / this.size);
+    const cy = Math.floor(p.y / this.size);
+    const result: string[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const cell = this.cells.get(`${cx + dx},${cy + dy}`);
+        if (cell) result.push(...cell);
+      }
+    }
+    return result;
+  }
+}
+
+/** Pushes overlapping nodes apart; pinned nodes stay put and only push others */
+function resolveCollisions(nodes: GraphNode[], positions: LayoutPositions, pinned: Set<string>, passes = 8): void {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const maxRadius = Math.max(...nodes.map(radius), 25);
+  const cellSize = 2 * maxRadius + LABEL_PADDING;
+
+  for (let pass = 0; pass < passes; pass++) {
+    const grid = new SpatialGrid(cellSize, positions);
+    let moved = false;
+
+    for (const node of nodes) {
+      if (pinned.has(node.id)) continue;
+      const p = positions.get(node.id)!;
+      for (const otherId of grid.near(p)) {
+        if (otherId === node.id) continue;
+        const q = positions.get(otherId)!;
+        const minDistance = radius(node) + radius(byId.get(otherId)!) + LABEL_PADDING;
+        let dx = p.x - q.x;
+        let dy = p.y - q.y;
+        let distance = Math.hypot(dx, dy);
+        if (distance >= minDistance) continue;
+        if (distance < 0.01) {
+          // Coincident nodes: separate along a deterministic direction
+          const angle = (node.id.length * 2.399) % (2 * Math.PI);
+          dx = Math.cos(angle);
+          dy = Math.sin(angle);
+          distance = 1;
+        }
+        const overlap = minDistance - distance;
+        const share = pinned.has(otherId) ? 1 : 0.5;
+        p.x += (dx / distance) * overlap * share;
+        p.y += (dy / distance) * overlap * share;
+        if (!pinned.has(otherId)) {
+          q.x -= (dx / distance) * overlap * 0.5;
+          q.y -= (dy / distance) * overlap * 0.5;
+        }
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+}
+
+/* ============================================================================
+   FORCE-DIRECTED
+============================================================================ */
+
+/**
+ * Fruchterman-Reingold style layout seeded from the current positions, with
+ * a grid cutoff for repulsion and a final collision pass. Yields after every
+ * iteration so callers can run it in one go or spread it over frames.
+ */
+function* forceSimulation(graph: GraphData, options: ForceLayoutOptions): Generator<void, LayoutPositions> {
+  const { nodes, edges } = graph;
+  const pinned = options.pinned || new Set<string>();
+  const positions: LayoutPositions = new Map(nodes.map(n => [n.id, { ...n.position }]));
+  if (nodes.length === 0) return positions;
+
+  // Nodes stacked on one spot (e.g. fresh imports) get a golden-angle spiral to start from
+  const seen = new Set<string>();
+  nodes.forEach((node, idx) => {
+    const p = positions.get(node.id)!;
+    const key = `${Math.round(p.x)},${Math.round(p.y)}`;
+    if (seen.has(key) && !pinned.has(node.id)) {
+      p.x += Math.cos(idx * 2.399) * Math.sqrt(idx) * 40;
+      p.y += Math.sin(idx * 2.399) * Math.sqrt(idx) * 40;
+    }
+    seen.add(key);
+  });
+
+  const k = EDGE_LENGTH;
+  const cutoff = 3 * k;
+  const iterations = options.iterations ?? Math.min(300, Math.max(80, Math.round(4000 / Math.sqrt(nodes.length))));
+  const center = centroid(nodes);
+  let temperature = k * 2;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const displacement = new Map<string, Position>(nodes.map(n => [n.id, { x: 0, y: 0 }]));
+    const grid = new SpatialGrid(cutoff, positions);
+
+    for (const node of nodes) {
+      if (pinned.has(node.id)) continue;
+      const p = positions.get(node.id)!;
+      const d = displacement.get(node.id)!;
+      for (const otherId of grid.near(p)) {
+        if (otherId === node.id) continue;
+        const q = positions.get(otherId)!;
+        const dx = p.x - q.x;
+        const dy = p.y - q.y;
+        const distance = Math.max(Math.hypot(dx, dy), 1);
+        if (distance > cutoff) continue;
+        const force = (k * k) / distance;
+        d.x += (dx / distance) * force;
+        d.y += (dy / distance) * force;
+      }
+      // Weak gravity keeps disconnected components from drifting away
+      d.x += (center.x - p.x) * GRAVITY;
+      d.y += (center.y - p.y) * GRAVITY;
+    }
+
+    for (const edge of edges) {
+      const p = positions.get(edge.source);
+      const q = positions.get(edge.target);
+      if (!p || !q || edge.source === edge.target) continue;
+      const dx = p.x - q.x;
+      const dy = p.y - q.y;
+      const distance = Math.max(Math.hypot(dx, dy), 1);
+      const force = (distance * distance) / k;
+      const fx = (dx / distance) * force;
+      const fy = (dy / distance) * force;
+      if (!pinned.has(edge.source)) {
+        displacement.get(edge.source)!.x -= fx;
+        displacement.get(edge.source)!.y -= fy;
+      }
+      if (!pinned.has(edge.target)) {
+        displacement.get(edge.target)!.x += fx;
+        displacement.get(edge.target)!.y += fy;
+      }
+    }
+
+    for (const node of nodes) {
+      if (pinned.has(node.id)) continue;
+      const d = displacement.get(node.id)!;
+      const length = Math.hypot(d.x, d.y);
+      if (length === 0) continue;
+      const step = Math.min(length, temperature);
+      const p = positions.get(node.id)!;
+      p.x += (d.x / length) * step;
+      p.y += (d.y / length) * step;
+    }
+
+    temperature = Math.max(temperature - cooling, 1);
+    yield;
+  }
+
+  resolveCollisions(nodes, positions, pinned);
+  return positions;
+}
+
+/** Runs the whole simulation synchronously; fine for small graphs and short settling passes */
+export function forceDirectedLayout(graph: GraphData, options: ForceLayoutOptions = {}): LayoutPositions {
+  const simulation = forceSimulation(graph, options);
+  for (;;) {
+    const { done, value } = simulation.next();
+    if (done) return value;
+  }
+}
+
+/**
+ * Same layout, run in slices of FRAME_BUDGET_MS with a yield to the event
+ * loop in between so large graphs do not freeze the UI
+ */
+export async function forceDirectedLayoutAsync(graph: GraphData, options: ForceLayoutOptions = {}): Promise<LayoutPositions> {
+  const simulation = forceSimulation(graph, options);
+  for (;;) {
+    const sliceEnd = performance.now() + FRAME_BUDGET_MS;
+    while (performance.now() < sliceEnd) {
+      const { done, value } = simulation.next();
+      if (done) return value;
+    }
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
+
+/* ============================================================================
+   HIERARCHICAL
+============================================================================ */
+
+/**
+ * Left-to-right layers by transform depth: seed entities (no incoming edges)
+ * form layer 0 and each transform hop adds a layer. Nodes within a layer are
+ * ordered by the average position of their parents to limit edge crossings.
+ */
+export function hierarchicalLayout(graph: GraphData, origin: Position = { x: 0, y: 0 }): LayoutPositions {
+  const adjacency = buildAdjacency(graph);
+  const incoming = new Map<string, number>(graph.nodes.map(n => [n.id, 0]));
+  graph.edges.forEach(e => {
+    if (incoming.has(e.target) && e.source !== e.target) incoming.set(e.target, incoming.get(e.target)! + 1);
+  });
+
+  const depth = new Map<string, number>();
+  const parents = new Map<string, string[]>();
+  const queue: string[] = [];
+  const visit = (roots: string[]) => {
+    roots.forEach(id => {
+      depth.set(id, 0);
+      queue.push(id);
+    });
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const next of adjacency.get(id) || []) {
+        if (!depth.has(next)) {
+          depth.set(next, depth.get(id)! + 1);
+          parents.set(next, [id]);
+          queue.push(next);
+        } else if (depth.get(next) === depth.get(id)! + 1) {
+          parents.get(next)!.push(id);
+        }
+      }
+    }
+  };
+
+  visit(graph.nodes.filter(n => incoming.get(n.id) === 0).map(n => n.id));
+  // Components that are pure cycles have no seed; start them from their best-connected node
+  for (const node of [...graph.nodes].sort((a, b) => adjacency.get(b.id)!.size - adjacency.get(a.id)!.size)) {
+    if (!depth.has(node.id)) visit([node.id]);
+  }
+
+  const layers: string[][] = [];
+  graph.nodes.forEach(n => {
+    const d = depth.get(n.id)!;
+    (layers[d] ||= []).push(n.id);
+  });
+
+  const positions: LayoutPositions = new Map();
+  const order = new Map<string, number>();
+  let x = origin.x;
+  layers.forEach((layer, d) => {
+    if (d > 0) {
+      const barycenter = (id: string) => {
+        const ps = parents.get(id) || [];
+        return ps.length ? ps.reduce((sum, p) => sum + (order.get(p) ?? 0), 0) / ps.length : 0;
+      };
+      layer.sort((a, b) => barycenter(a) - barycenter(b));
+    }
+    // Siblings stay adjacent when a wide layer wraps, since wrapping follows the sorted order
+    const columns = Math.ceil(layer.length / MAX_COLUMN_NODES);
+    const perColumn = Math.ceil(layer.length / columns);
+    const height = (perColumn - 1) * SIBLING_GAP;
+    layer.forEach((id, idx) => {
+      const column = Math.floor(idx / perColumn);
+      order.set(id, idx / layer.length);
+      positions.set(id, {
+        x: x + column * COLUMN_GAP,
+        y: origin.y - height / 2 + (idx % perColumn) * SIBLING_GAP,
+      });
+    });
+    x += (columns - 1) * COLUMN_GAP + LAYER_GAP;
+  });
+
+  return positions;
+}
+
+/* ============================================================================
+   RADIAL
+============================================================================ */
+
+/**
+ * Rings by hop distance from the pivot. Each node gets an angular wedge of
+ * its parent's wedge proportional to the number of leaves below it, so
+ * branches stay together. Unreachable nodes go on an outer ring. Wedges of
+ * busy branches can still be narrower than a node, so a collision pass
+ * spaces them out at the end.
+ */
+export function radialLayout(graph: GraphData, pivotId: string): LayoutPositions {
+  const adjacency = buildAdjacency(graph);
+  const pivot = graph.nodes.find(n => n.id === pivotId);
+  const positions: LayoutPositions = new Map();
+  if (!pivot) return positions;
+
+  const children = new Map<string, string[]>();
+  const depth = new Map<string, number>([[pivotId, 0]]);
+  const queue = [pivotId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    children.set(id, []);
+    for (const next of adjacency.get(id) || []) {
+      if (depth.has(next)) continue;
+      depth.set(next, depth.get(id)! + 1);
+      children.get(id)!.push(next);
+      queue.push(next);
+    }
+  }
+
+  const leaves = new Map<string, number>();
+  const countLeaves = (id: string): number => {
+    const kids = children.get(id) || [];
+    const count = kids.length === 0 ? 1 : kids.reduce((sum, kid) => sum + countLeaves(kid), 0);
+    leaves.set(id, count);
+    return count;
+  };
+  countLeaves(pivotId);
+
+  // Ring radius grows with the number of nodes on it so neighbours do not
+  // overlap; crowded rings alternate nodes between two lanes to halve that
+  const perDepth = new Map<number, number>();
+  depth.forEach(d => perDepth.set(d, (perDepth.get(d) || 0) + 1));
+  const ringRadius: number[] = [0];
+  const staggered = new Set<number>();
+  for (let d = 1; d <= Math.max(...perDepth.keys()); d++) {
+    const minimum = ringRadius[d - 1] + RING_GAP;
+    let needed = ((perDepth.get(d) || 0) * SIBLING_GAP) / (2 * Math.PI);
+    if (needed > minimum) {
+      staggered.add(d);
+      needed /= 2;
+    }
+    ringRadius[d] = Math.max(minimum, needed);
+  }
+
+  const placedAtDepth = new Map<number, number>();
+  const place = (id: string, start: number, end: number) => {
+    const d = depth.get(id)!;
+    const angle = (start + end) / 2;
+    const index = placedAtDepth.get(d) || 0;
+    placedAtDepth.set(d, index + 1);
+    const r = ringRadius[d] + (staggered.has(d) && index % 2 === 1 ? RING_GAP / 2 : 0);
+    positions.set(id, {
+      x: pivot.position.x + r * Math.cos(angle),
+      y: pivot.position.y + r * Math.sin(angle),
+    });
+    let cursor = start;
+    for (const kid of children.get(id) || []) {
+      const span = ((end - start) * leaves.get(kid)!) / leaves.get(id)!;
+      place(kid, cursor, cursor + span);
+      cursor += span;
+    }
+  };
+  place(pivotId, 0, 2 * Math.PI);
+
+  const unreachable = graph.nodes.filter(n => !depth.has(n.id));
+  if (unreachable.length > 0) {
+    const outer = Math.max(ringRadius[ringRadius.length - 1] + RING_GAP * 1.5, (unreachable.length * SIBLING_GAP) / (2 * Math.PI));
+    unreachable.forEach((node, idx) => {
+      const angle = (idx / unreachable.length) * 2 * Math.PI;
+      positions.set(node.id, {
+        x: pivot.position.x + outer * Math.cos(angle),
+        y: pivot.position.y + outer * Math.sin(angle),
+      });
+    });
+  }
+
+  resolveCollisions(graph.nodes, positions, new Set([pivotId]), 16);
+  return positions;
+}
+
+/* ============================================================================
+   GROUPED BY ENTITY TYPE
+============================================================================ */
+
+/** One compact grid per entity type, largest groups first, wrapped into rows */
+export function groupedLayout(graph: GraphData, origin: Position = { x: 0, y: 0 }): LayoutPositions {
+  const groups = new Map<EntityType, GraphNode[]>();
+  graph.nodes.forEach(node => {
+    if (!groups.has(node.type)) groups.set(node.type, []);
+    groups.get(node.type)!.push(node);
+  });
+
+  const sorted = [...groups.values()].sort((a, b) => b.length - a.length);
+  const rowWidth = Math.max(1200, Math.sqrt(graph.nodes.length) * GROUP_CELL * 1.5);
+  const positions: LayoutPositions = new Map();
+  let x = origin.x;
+  let y = origin.y;
+  let rowHeight = 0;
+
+  for (const group of sorted) {
+    group.sort((a, b) => a.label.localeCompare(b.label));
+    const cols = Math.ceil(Math.sqrt(group.length));
+    const width = cols * GROUP_CELL;
+    const height = Math.ceil(group.length / cols) * GROUP_CELL;
+    if (x > origin.x && x + width > origin.x + rowWidth) {
+      x = origin.x;
+      y += rowHeight + GROUP_GAP;
+      rowHeight = 0;
+    }
+    group.forEach((node, idx) => {
+      positions.set(node.id, { x: x + (idx % cols) * GROUP_CELL, y: y + Math.floor(idx / cols) * GROUP_CELL });
+    });
+    x += width + GROUP_GAP;
+    rowHeight = Math.max(rowHeight, height);
+  }
+
+  return positions;
+}
+
+/* ============================================================================
+   INCREMENTAL PLACEMENT
+============================================================================ */
+
+/**
+ * Positions only `newIds`: they fan out from their parent on the side facing
+ * away from the rest of the graph, then a short force pass with every other
+ * node pinned settles them without moving existing nodes.
+ */
+export function placeNewNodes(graph: GraphData, newIds: Set<string>, parentId: string): LayoutPositions {
+  const parent = graph.nodes.find(n => n.id === parentId);
+  const fresh = graph.nodes.filter(n => newIds.has(n.id));
+  if (!parent || fresh.length === 0) return new Map();
+
+  const others = graph.nodes.filter(n => !newIds.has(n.id) && n.id !== parentId);
+  const center = others.length > 0 ? centroid(others) : { x: parent.position.x - 1, y: parent.position.y };
+  const baseAngle = Math.atan2(parent.position.y - center.y, parent.position.x - center.x) || 0;
+
+  // Fan width and radius scale with the number of results; large batches use several arcs
+  const perArc = 14;
+  const positions: LayoutPositions = new Map(graph.nodes.map(n => [n.id, { ...n.position }]));
+  fresh.forEach((node, idx) => {
+    const arc = Math.floor(idx / perArc);
+    const inArc = Math.min(perArc, fresh.length - arc * perArc);
+    const spread = Math.min(Math.PI * 1.5, inArc * 0.3);
+    const r = EDGE_LENGTH * 1.4 + arc * SIBLING_GAP;
+    const angle = inArc === 1 ? baseAngle : baseAngle - spread / 2 + (spread * (idx % perArc)) / (inArc - 1);
+    positions.set(node.id, { x: parent.position.x + r * Math.cos(angle), y: parent.position.y + r * Math.sin(angle) });
+  });
+
+  const seeded = applyLayout(graph, positions);
+  const pinned = new Set(graph.nodes.filter(n => !newIds.has(n.id)).map(n => n.id));
+  const settled = forceDirectedLayout(seeded, { pinned, iterations: 40 });
+  return new Map([...settled].filter(([id]) => newIds.has(id)));
+}
+
+/* ============================================================================
+   APPLY
+============================================================================ */
+
+export function applyLayout(graph: GraphData, positions: LayoutPositions): GraphData {
+  return {
+    ...graph,
+    nodes: graph.nodes.map(node => {
+      const p = positions.get(node.id);
+      return p ? { ...node, position: { x: p.x, y: p.y } } : node;
+    }),
+  };
+}
+
+export function computeLayout(graph: GraphData, type: LayoutType, pivotId?: string): LayoutPositions {
+  const origin = centroid(graph.nodes);
+  switch (type) {
+    case 'force':
+      return forceDirectedLayout(graph);
+    case 'hierarchical':
+      return hierarchicalLayout(graph, origin);
+    case 'radial':
+      return radialLayout(graph, pivotId || graph.nodes[0]?.id);
+    case 'grouped':
+      return groupedLayout(graph, origin);
+  }
+}
+
+/** computeLayout for the UI: the force layout runs time-sliced, the others are fast enough to run directly */
+export async function computeLayoutAsync(graph: GraphData, type: LayoutType, pivotId?: string): Promise<LayoutPositions> {
+  return type === 'force' ? forceDirectedLayoutAsync(graph) : computeLayout(graph, type, pivotId);
+}
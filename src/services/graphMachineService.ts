@@ -0,0 +1,290 @@
+// ============================================================================
+// GRAPH MACHINES
+// ============================================================================
+// Maltego-style machines: named pipelines of transforms that expand a seed
+// entity automatically. Each step runs its transform on every eligible entity
+// found so far, within depth, node and per-step run budgets, and the machine
+// stops early when a stop condition matches. Results are streamed to the
+// caller as they arrive so the canvas fills in while the machine runs.
+// ============================================================================
+
+import {
+  executeTransform,
+  mergeGraphData,
+  type EntityType,
+  type GraphData,
+  type GraphEdge,
+  type GraphNode,
+  type TransformType,
+} from './graphService';
+import { getTransform } from './transformRegistry';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface MachineStep {
+  transformId: TransformType;
+  entityTypes?: EntityType[];   // Narrow the transform's input types for this step
+  maxRuns?: number;             // Run budget for this step
+}
+
+export type MachineStopCondition =
+  | { type: 'risk_level'; level: 'medium' | 'high' | 'critical' }
+  | { type: 'entity_type'; entityType: EntityType }
+  | { type: 'threat_score'; min: number };
+
+export interface GraphMachine {
+  id: string;
+  name: string;
+  description: string;
+  steps: MachineStep[];
+  maxDepth: number;             // Transform hops from the seed
+  maxNodes: number;             // New entities the machine may add
+  stopConditions: MachineStopCondition[];
+  builtin?: boolean;
+}
+
+export type MachineEvent =
+  | { type: 'step'; step: number; transformId: TransformType; pending: number }
+  | { type: 'transform'; transformId: TransformType; nodeId: string; added: number; error?: string }
+  | { type: 'stopped'; reason: string; nodeId?: string }
+  | { type: 'completed'; added: number; runs: number };
+
+export interface MachineCallbacks {
+  /** Raw transform output; merge it into the displayed graph with mergeGraphData */
+  onResult: (result: GraphData, parentId: string) => void;
+  onEvent?: (event: MachineEvent) => void;
+}
+
+export interface MachineRunSummary {
+  added: number;
+  runs: number;
+  stopReason?: string;
+  stopNode?: GraphNode;   // Entity that matched a stop condition
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+const STORAGE_KEY = 'graph_machines';
+const RISK_ORDER = ['low', 'medium', 'high', 'critical'];
+
+export const BUILTIN_MACHINES: GraphMachine[] = [
+  {
+    id: 'phishing-domain-triage',
+    name: 'Phishing Domain Triage',
+    description: 'Resolve, locate and reputation-check a suspicious domain and its hosting',
+    steps: [
+      { transformId: 'dns_resolve' },
+      { transformId: 'whois', entityTypes: ['domain'] },
+      { transformId: 'ssl_cert' },
+      { transformId: 'geolocation' },
+      { transformId: 'threat_intel' },
+      { transformId: 'port_scan', maxRuns: 5 },
+    ],
+    maxDepth: 2,
+    maxNodes: 60,
+    stopConditions: [{ type: 'risk_level', level: 'critical' }],
+    builtin: true,
+  },
+  {
+    id: 'domain-footprint',
+    name: 'Domain Footprint',
+    description: 'Subdomains, their addresses and co-hosted domains',
+    steps: [
+      { transformId: 'subdomain_enum' },
+      { transformId: 'dns_resolve', maxRuns: 25 },
+      { transformId: 'reverse_ip', maxRuns: 10 },
+    ],
+    maxDepth: 3,
+    maxNodes: 150,
+    stopConditions: [],
+    builtin: true,
+  },
+  {
+    id: 'email-exposure',
+    name: 'Email Exposure',
+    description: 'Breaches, pastes, social profiles and dark web mentions for an email or person',
+    steps: [
+      { transformId: 'breach_check' },
+      { transformId: 'paste_search' },
+      { transformId: 'social_search' },
+      { transformId: 'darkweb_scan' },
+      { transformId: 'telegram_scan' },
+    ],
+    maxDepth: 1,
+    maxNodes: 80,
+    stopConditions: [],
+    builtin: true,
+  },
+];
+
+/* ============================================================================
+   PERSISTENCE
+============================================================================ */
+
+function loadCustomMachines(): GraphMachine[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function getMachines(): GraphMachine[] {
+  return [...BUILTIN_MACHINES, ...loadCustomMachines()];
+}
+
+export function saveMachine(machine: GraphMachine): GraphMachine {
+  const saved = { ...machine, id: machine.builtin || !machine.id ? `machine-${Date.now()}` : machine.id, builtin: false };
+  const machines = loadCustomMachines().filter(m => m.id !== saved.id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...machines, saved]));
+  return saved;
+}
+
+export function deleteMachine(id: string): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(loadCustomMachines().filter(m => m.id !== id)));
+}
+
+/* ============================================================================
+   STOP CONDITIONS
+============================================================================ */
+
+function matchStopCondition(node: GraphNode, conditions: MachineStopCondition[]): string | null {
+  for (const condition of conditions) {
+    switch (condition.type) {
+      case 'risk_level': {
+        const risk = node.metadata?.riskLevel;
+        if (risk && RISK_ORDER.indexOf(risk) >= RISK_ORDER.indexOf(condition.level)) {
+          return `${node.label} has ${risk} risk`;
+        }
+        break;
+      }
+      case 'entity_type':
+        if (node.type === condition.entityType) return `Found ${condition.entityType} ${node.label}`;
+        break;
+      case 'threat_score':
+        if ((node.metadata?.threatScore ?? -1) >= condition.min) {
+          return `${node.label} scored ${node.metadata!.threatScore}`;
+        }
+        break;
+    }
+  }
+  return null;
+}
+
+export function describeStopCondition(condition: MachineStopCondition): string {
+  switch (condition.type) {
+    case 'risk_level':
+      return `risk ≥ ${condition.level}`;
+    case 'entity_type':
+      return `${condition.entityType} found`;
+    case 'threat_score':
+      return `threat score ≥ ${condition.min}`;
+  }
+}
+
+/* ============================================================================
+   EXECUTION
+============================================================================ */
+
+/**
+ * Runs a machine from `seedId`. The machine tracks its own copy of the graph,
+ * merged with the same rules as the canvas, so node ids it hands to later
+ * steps match the ids the caller ends up with.
+ */
+export async function runMachine(
+  machine: GraphMachine,
+  graph: GraphData,
+  seedId: string,
+  callbacks: MachineCallbacks,
+  signal?: AbortSignal
+): Promise<MachineRunSummary> {
+  let working = graph;
+  const depth = new Map<string, number>([[seedId, 0]]);
+  const done = new Set<string>();   // `${transformId}|${nodeId}` pairs already run
+  let added = 0;
+  let runs = 0;
+
+  const emit = (event: MachineEvent) => callbacks.onEvent?.(event);
+  const stop = (reason: string, node?: GraphNode): MachineRunSummary => {
+    emit({ type: 'stopped', reason, nodeId: node?.id });
+    console.log(`[Machine] ${machine.name} stopped: ${reason}`);
+    return { added, runs, stopReason: reason, stopNode: node };
+  };
+
+  console.log(`[Machine] Running ${machine.name} from ${seedId}`);
+
+  for (let stepIdx = 0; stepIdx < machine.steps.length; stepIdx++) {
+    const step = machine.steps[stepIdx];
+    const transform = getTransform(step.transformId);
+    if (!transform) {
+      emit({ type: 'transform', transformId: step.transformId, nodeId: seedId, added: 0, error: 'Transform not registered' });
+      continue;
+    }
+    const accepted = step.entityTypes?.length
+      ? transform.inputTypes.filter(t => step.entityTypes!.includes(t))
+      : transform.inputTypes;
+
+    const eligible = working.nodes.filter(n =>
+      depth.has(n.id) &&
+      depth.get(n.id)! < machine.maxDepth &&
+      accepted.includes(n.type) &&
+      !done.has(`${step.transformId}|${n.id}`)
+    );
+    const queue = eligible.slice(0, step.maxRuns ?? eligible.length);
+    emit({ type: 'step', step: stepIdx, transformId: step.transformId, pending: queue.length });
+
+    for (const node of queue) {
+      if (signal?.aborted) return stop('Cancelled');
+      if (added >= machine.maxNodes) return stop(`Node budget of ${machine.maxNodes} reached`);
+      done.add(`${step.transformId}|${node.id}`);
+      runs++;
+
+      let result: { nodes: GraphNode[]; edges: GraphEdge[] };
+      try {
+        result = await executeTransform(step.transformId, node);
+      } catch (error) {
+        // No results is routine during expansion; the machine moves on
+        emit({ type: 'transform', transformId: step.transformId, nodeId: node.id, added: 0, error: error instanceof Error ? error.message : 'Transform failed' });
+        continue;
+      }
+      if (signal?.aborted) return stop('Cancelled');
+
+      // Respect the node budget before anything reaches the canvas
+      const existingIds = new Set(working.nodes.map(n => n.id));
+      const merged = mergeGraphData(working, result);
+      const fresh = merged.graph.nodes.filter(n => !existingIds.has(n.id));
+      if (added + fresh.length > machine.maxNodes) {
+        const allowed = new Set(fresh.slice(0, machine.maxNodes - added).map(n => n.id));
+        const dropped = new Set(fresh.filter(n => !allowed.has(n.id)).map(n => n.id));
+        result = {
+          nodes: result.nodes.filter(n => !dropped.has(n.id)),
+          edges: result.edges.filter(e => !dropped.has(e.target)),
+        };
+        working = mergeGraphData(working, result).graph;
+      } else {
+        working = merged.graph;
+      }
+
+      const newNodes = working.nodes.filter(n => !existingIds.has(n.id));
+      newNodes.forEach(n => depth.set(n.id, depth.get(node.id)! + 1));
+      added += newNodes.length;
+      callbacks.onResult(result, node.id);
+      emit({ type: 'transform', transformId: step.transformId, nodeId: node.id, added: newNodes.length });
+
+      // Stop conditions are checked on new and updated entities, e.g. a merged node that just became critical
+      const touched = new Set([...newNodes.map(n => n.id), ...result.edges.map(e => e.target)]);
+      for (const candidate of working.nodes.filter(n => touched.has(n.id))) {
+        const reason = matchStopCondition(candidate, machine.stopConditions);
+        if (reason) return stop(reason, candidate);
+      }
+    }
+  }
+
+  emit({ type: 'completed', added, runs });
+  console.log(`[Machine] ${machine.name} completed: ${runs} transforms, ${added} entities`);
+  return { added, runs };
+}
@@ -10,6 +10,8 @@ import { getSubdomainsFromCerts, searchCertificates } from '@/services/certServi
 import { getIPGeolocation } from '@/services/ipService';
 import { API_ENDPOINTS, getProxyUrl } from '@/data/publicApiEndpoints';
 import { extractEntities, analyzeLeakIntelligence, mapEntityRelationships, type LeakAnalysis, type ExtractedEntity } from '@/services/llmAnalysisService';
+import { BUILTIN_PACK_ID, getTransform, registerTransformPack, runRegisteredTransform, type TransformDefinition } from '@/services/transformRegistry';
+import { stampDiscovery } from '@/services/graphTimelineService';
 
 /* ============================================================================
    TYPES - MALTEGO-STYLE ENTITIES
@@ -32,9 +34,11 @@ export type EntityType =
   | 'geolocation'
   | 'social_profile'
   | 'breach'
-  | 'paste';
+  | 'paste'
+  | 'crypto_address'
+  | 'crypto_transaction';
 
-export type TransformType =
+export type BuiltinTransformType =
   | 'dns_resolve'
   | 'whois'
   | 'subdomain_enum'
@@ -51,6 +55,9 @@ export type TransformType =
   | 'darkweb_scan'
   | 'telegram_scan';
 
+// Packs registered at runtime add their own ids, so any string is accepted
+export type TransformType = BuiltinTransformType | (string & {});
+
 export interface GraphNode {
   id: string;
   type: EntityType;
@@ -66,8 +73,14 @@ export interface GraphNode {
     riskLevel?: 'low' | 'medium' | 'high' | 'critical';
     lastUpdated?: string;
     source?: string;
+    sources?: string[];       // Provenance union after merges
+    aliases?: string[];       // Entity keys of nodes manually merged into this one
     confidence?: number;
+    addedAt?: string;         // When the entity entered this investigation
+    firstSeen?: string;       // Observed in the wild, from source data
+    lastSeen?: string;
   };
+  annotations?: EntityAnnotations;
 }
 
 export interface GraphEdge {
@@ -79,6 +92,26 @@ export interface GraphEdge {
   weight?:  number;
   color?: string;
   metadata?: Record<string, any>;
+  annotations?: EntityAnnotations;
+}
+
+/** Traffic Light Protocol 2.0 labels, least to most restrictive */
+export const TLP_LEVELS = ['clear', 'green', 'amber', 'red'] as const;
+export type TlpLevel = (typeof TLP_LEVELS)[number];
+
+export interface AnalystNote {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string;
+}
+
+/** Analyst judgement, kept apart from the source data in properties and metadata */
+export interface EntityAnnotations {
+  tlp?: TlpLevel;
+  confidence?: number;        // Analyst override of metadata.confidence, 0-100
+  tags?: string[];
+  notes?: AnalystNote[];
 }
 
 export interface GraphData {
@@ -86,14 +119,6 @@ export interface GraphData {
   edges: GraphEdge[];
 }
 
-export interface Transform {
-  id: TransformType;
-  name: string;
-  description: string;
-  supportedTypes: EntityType[];
-  icon: string;
-}
-
 /* ============================================================================
    ENTITY COLORS & ICONS (MALTEGO STYLE)
 ============================================================================ */
@@ -116,103 +141,134 @@ export const ENTITY_CONFIG:  Record<EntityType, { color: string; icon: string }>
   social_profile: { color: '#d946ef', icon: '👥' },
   breach: { color:  '#b91c1c', icon: '💥' },
   paste: { color: '#ea580c', icon: '📄' },
+  crypto_address: { color: '#eab308', icon: '₿' },
+  crypto_transaction: { color: '#a16207', icon: '🔁' },
 };
 
 /* ============================================================================
-   AVAILABLE TRANSFORMS - MAPPED TO ENTITY TYPES
+   BUILT-IN TRANSFORMS - MAPPED TO ENTITY TYPES
 ============================================================================ */
 
-export const AVAILABLE_TRANSFORMS:  Transform[] = [
+export const BUILTIN_TRANSFORMS: TransformDefinition[] = [
   {
     id: 'dns_resolve',
     name: 'DNS Resolve',
     description: 'Resolve domain to IP addresses',
-    supportedTypes: ['domain'],
-    icon:  '🔍',
+    inputTypes: ['domain'],
+    outputTypes: ['ip'],
+    icon: '🔍',
+    run: transformDnsResolve,
   },
   {
     id: 'whois',
     name:  'WHOIS Lookup',
     description: 'Get registration info',
-    supportedTypes: ['domain', 'ip'],
+    inputTypes: ['domain', 'ip'],
+    outputTypes: ['organization', 'domain', 'certificate'],
     icon: '📋',
+    run: transformWhois,
   },
   {
     id: 'subdomain_enum',
     name: 'Find Subdomains',
     description: 'Enumerate subdomains',
-    supportedTypes: ['domain'],
+    inputTypes: ['domain'],
+    outputTypes: ['domain'],
     icon: '🌳',
+    run: transformSubdomainEnum,
   },
   {
     id: 'reverse_ip',
     name: 'Reverse IP Lookup',
     description: 'Find domains on same IP',
-    supportedTypes:  ['ip'],
+    inputTypes: ['ip'],
+    outputTypes: ['domain'],
     icon: '🔄',
+    run: transformReverseIp,
   },
   {
     id: 'ssl_cert',
     name:  'SSL Certificate',
     description: 'Get SSL certificate info',
-    supportedTypes: ['domain'],
+    inputTypes: ['domain'],
+    outputTypes: ['certificate', 'organization'],
     icon: '🔒',
+    run: transformSslCert,
   },
   {
     id: 'breach_check',
     name: 'Breach Check',
     description: 'Check for data breaches',
-    supportedTypes: ['email', 'domain'],
+    inputTypes: ['email', 'domain'],
+    outputTypes: ['breach', 'paste'],
     icon: '💥',
+    run: transformBreachCheck,
   },
   {
     id: 'geolocation',
     name: 'Geolocation',
     description: 'Get geographic location',
-    supportedTypes:  ['ip'],
+    inputTypes: ['ip'],
+    outputTypes: ['geolocation', 'organization'],
+    rateLimit: { requests: 45, windowMs: 60_000 },
     icon: '📍',
+    run: transformGeolocation,
   },
   {
     id: 'port_scan',
     name: 'Port Scan',
     description: 'Scan open ports',
-    supportedTypes:  ['ip'],
+    inputTypes: ['ip'],
+    outputTypes: ['netblock'],
     icon: '🔌',
+    run: transformPortScan,
   },
   {
     id: 'threat_intel',
     name: 'Threat Intelligence',
     description: 'Check threat databases',
-    supportedTypes: ['domain', 'ip', 'hash', 'url'],
+    inputTypes: ['domain', 'ip', 'hash', 'url'],
+    outputTypes: ['malware'],
     icon: '🛡️',
+    run: transformThreatIntel,
   },
   {
     id: 'paste_search',
     name: 'Paste Search',
     description: 'Search in pastes/leaks',
-    supportedTypes: ['email', 'domain'],
+    inputTypes: ['email', 'domain'],
+    outputTypes: ['paste'],
     icon: '📄',
+    run: transformPasteSearch,
   },
   {
     id: 'social_search',
     name: 'Social Profile Search',
     description: 'Find social media profiles',
-    supportedTypes: ['email', 'person'],
+    inputTypes: ['email', 'person'],
+    outputTypes: ['social_profile'],
     icon: '👥',
+    run: transformSocialSearch,
   },
   {
     id: 'darkweb_scan',
     name: 'Dark Web Scan',
     description: 'Search dark web sources for leaks',
-    supportedTypes: ['email', 'domain', 'person'],
+    inputTypes: ['email', 'domain', 'person'],
+    outputTypes: ['breach', 'url'],
+    rateLimit: { requests: 10, windowMs: 60_000 },
     icon: '🕸️',
+    run: transformDarkwebScan,
   },
   {
     id: 'telegram_scan',
     name: 'Telegram Intel',
     description: 'Search Telegram leak channels',
-    supportedTypes: ['email', 'domain', 'person', 'phone'],
+    inputTypes: ['email', 'domain', 'person', 'phone'],
+    outputTypes: ['breach', 'paste'],
+    rateLimit: { requests: 10, windowMs: 60_000 },
     icon: '📱',
+    run: transformTelegramScan,
   },
 ];
 
@@ -2142,10 +2198,234 @@ async function transformTelegramScan(node: GraphNode): Promise<GraphNode[]> {
   }
 }
 
+/* ============================================================================
+   ENTITY IDENTITY & MERGING
+============================================================================ */
+
+const RISK_ORDER = ['low', 'medium', 'high', 'critical'] as const;
+
+/** Normalized form of an entity value; two nodes with the same type and normalized value are the same entity */
+export function normalizeEntityValue(type: EntityType, value: string): string {
+  const trimmed = value.trim();
+  switch (type) {
+    case 'domain':
+      return trimmed.toLowerCase().replace(/\.+$/, '');
+    case 'ip':
+      // Drop leading zeros in IPv4 octets; IPv6 is compared case-insensitively
+      return /^\d{1,3}(\.\d{1,3}){3}$/.test(trimmed)
+        ? trimmed.split('.').map(octet => String(parseInt(octet, 10))).join('.')
+        : trimmed.toLowerCase();
+    case 'url':
+      try {
+        const url = new URL(trimmed);
+        url.hash = '';
+        return url.toString().replace(/\/$/, '');
+      } catch {
+        return trimmed;
+      }
+    case 'phone':
+      return trimmed.replace(/[^\d+]/g, '');
+    case 'hash':
+    case 'email':
+    case 'certificate':
+    case 'asn':
+    case 'crypto_transaction':
+      return trimmed.toLowerCase();
+    case 'crypto_address':
+      // Base58 addresses are case-sensitive; bech32 and hex (EVM) addresses are not
+      return /^(bc1|tb1|ltc1|0x)/i.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+    default:
+      return trimmed.replace(/\s+/g, ' ').toLowerCase();
+  }
+}
+
+export function entityKey(type: EntityType, value: string): string {
+  return `${type}:${normalizeEntityValue(type, value)}`;
+}
+
+/** Stable node id, so re-running a transform yields the same id for the same entity */
+export function canonicalEntityId(type: EntityType, value: string): string {
+  return `${type}-${normalizeEntityValue(type, value)}`;
+}
+
+function nodeSources(node: GraphNode): string[] {
+  return [...(node.metadata?.sources || []), ...(node.metadata?.source ? [node.metadata.source] : [])];
+}
+
+function mergeProperty(existing: unknown, incoming: unknown): unknown {
+  if (existing === undefined || existing === null || existing === '') return incoming;
+  if (incoming === undefined || incoming === null || incoming === '') return existing;
+  if (JSON.stringify(existing) === JSON.stringify(incoming)) return existing;
+  // Conflicting scalar values are kept side by side rather than overwritten
+  const values = [...(Array.isArray(existing) ? existing : [existing]), ...(Array.isArray(incoming) ? incoming : [incoming])];
+  return values.filter((v, i) => values.findIndex(o => JSON.stringify(o) === JSON.stringify(v)) === i);
+}
+
+/** Strictest TLP, the target's confidence override, tag and note union */
+export function mergeAnnotations(a?: EntityAnnotations, b?: EntityAnnotations): EntityAnnotations | undefined {
+  if (!a || !b) return a || b;
+  const tlp = [a.tlp, b.tlp].filter(Boolean).sort((x, y) => TLP_LEVELS.indexOf(y!) - TLP_LEVELS.indexOf(x!))[0];
+  const confidence = a.confidence ?? b.confidence;
+  const tags = [...new Set([...(a.tags || []), ...(b.tags || [])])];
+  const notes = [...(a.notes || []), ...(b.notes || []).filter(n => !a.notes?.some(o => o.id === n.id))]
+    .sort((x, y) => x.createdAt.localeCompare(y.createdAt));
+
+  return {
+    ...(tlp ? { tlp } : {}),
+    ...(confidence !== undefined ? { confidence } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(notes.length > 0 ? { notes } : {}),
+  };
+}
+
+/** Folds `incoming` into `target`: property union, provenance union, strongest risk and confidence, annotation union */
+export function mergeEntity(target: GraphNode, incoming: GraphNode): GraphNode {
+  const properties = { ...target.properties };
+  for (const [key, value] of Object.entries(incoming.properties || {})) {
+    properties[key] = mergeProperty(properties[key], value);
+  }
+
+  const a = target.metadata || {};
+  const b = incoming.metadata || {};
+  const sources = [...new Set([...nodeSources(target), ...nodeSources(incoming)])];
+  const aliases = [...new Set([
+    ...(a.aliases || []),
+    ...(b.aliases || []),
+    ...(entityKey(incoming.type, incoming.value) !== entityKey(target.type, target.value) ? [entityKey(incoming.type, incoming.value)] : []),
+  ])];
+  const risk = [a.riskLevel, b.riskLevel]
+    .filter(Boolean)
+    .sort((x, y) => RISK_ORDER.indexOf(y!) - RISK_ORDER.indexOf(x!))[0];
+  const threatScore = Math.max(a.threatScore ?? -Infinity, b.threatScore ?? -Infinity);
+  const confidence = Math.max(a.confidence ?? -Infinity, b.confidence ?? -Infinity);
+  const lastUpdated = [a.lastUpdated, b.lastUpdated].filter(Boolean).sort().pop();
+  const addedAt = [a.addedAt, b.addedAt].filter(Boolean).sort()[0];
+  const firstSeen = [a.firstSeen, b.firstSeen].filter(Boolean).sort()[0];
+  const lastSeen = [a.lastSeen, b.lastSeen].filter(Boolean).sort().pop();
+  const annotations = mergeAnnotations(target.annotations, incoming.annotations);
+
+  return {
+    ...target,
+    properties,
+    ...(annotations ? { annotations } : {}),
+    metadata: {
+      ...b,
+      ...a,
+      ...(sources.length > 0 ? { sources } : {}),
+      ...(aliases.length > 0 ? { aliases } : {}),
+      ...(risk ? { riskLevel: risk } : {}),
+      ...(isFinite(threatScore) ? { threatScore } : {}),
+      ...(isFinite(confidence) ? { confidence } : {}),
+      ...(lastUpdated ? { lastUpdated } : {}),
+      ...(addedAt ? { addedAt } : {}),
+      ...(firstSeen ? { firstSeen } : {}),
+      ...(lastSeen ? { lastSeen } : {}),
+    },
+  };
+}
+
+function edgeKey(edge: GraphEdge): string {
+  return `${edge.source}|${edge.target}|${edge.type}`;
+}
+
+/**
+ * Adds nodes and edges to a graph, merging nodes that are already present
+ * (by canonical entity key or a manual-merge alias) and dropping duplicate
+ * edges. Edges are re-pointed at the surviving node ids.
+ */
+export function mergeGraphData(graph: GraphData, addition: GraphData): { graph: GraphData; added: number; merged: number } {
+  const nodes = [...graph.nodes];
+  const indexByKey = new Map<string, number>();
+  const indexNode = (node: GraphNode, idx: number) => {
+    indexByKey.set(entityKey(node.type, node.value), idx);
+    node.metadata?.aliases?.forEach(alias => indexByKey.set(alias, idx));
+  };
+  nodes.forEach(indexNode);
+
+  const idMap = new Map<string, string>();
+  let added = 0;
+  let merged = 0;
+
+  for (const node of addition.nodes) {
+    const existingIdx = indexByKey.get(entityKey(node.type, node.value));
+    if (existingIdx !== undefined) {
+      nodes[existingIdx] = mergeEntity(nodes[existingIdx], node);
+      idMap.set(node.id, nodes[existingIdx].id);
+      merged++;
+    } else {
+      nodes.push(node);
+      indexNode(node, nodes.length - 1);
+      idMap.set(node.id, node.id);
+      added++;
+    }
+  }
+
+  const edges = [...graph.edges];
+  const seen = new Set(edges.map(edgeKey));
+  for (const edge of addition.edges) {
+    const source = idMap.get(edge.source) || edge.source;
+    const target = idMap.get(edge.target) || edge.target;
+    if (source === target) continue;
+    const remapped = { ...edge, id: `edge-${source}-${target}-${edge.type}`, source, target };
+    if (seen.has(edgeKey(remapped))) continue;
+    seen.add(edgeKey(remapped));
+    edges.push(remapped);
+  }
+
+  return { graph: { nodes, edges }, added, merged };
+}
+
+/** Collapses duplicate entities in a graph, e.g. one built before canonical ids existed */
+export function deduplicateGraph(graph: GraphData): { graph: GraphData; merged: number } {
+  const { graph: result, merged } = mergeGraphData({ nodes: [], edges: [] }, graph);
+  return { graph: result, merged };
+}
+
+/**
+ * Manually merges nodes into the first id. The others are removed, their edges
+ * re-pointed at the survivor and their entity keys kept as aliases so later
+ * transforms returning them land on the survivor.
+ */
+export function mergeNodes(graph: GraphData, nodeIds: string[]): GraphData {
+  const [survivorId, ...others] = nodeIds;
+  const survivor = graph.nodes.find(n => n.id === survivorId);
+  if (!survivor || others.length === 0) return graph;
+
+  const absorbed = graph.nodes.filter(n => others.includes(n.id));
+  const mergedNode = absorbed.reduce(mergeEntity, survivor);
+  const absorbedIds = new Set(absorbed.map(n => n.id));
+
+  const edges: GraphEdge[] = [];
+  const seen = new Set<string>();
+  for (const edge of graph.edges) {
+    const source = absorbedIds.has(edge.source) ? survivorId : edge.source;
+    const target = absorbedIds.has(edge.target) ? survivorId : edge.target;
+    if (source === target) continue;
+    const remapped = source === edge.source && target === edge.target
+      ? edge
+      : { ...edge, id: `edge-${source}-${target}-${edge.type}`, source, target };
+    if (seen.has(edgeKey(remapped))) continue;
+    seen.add(edgeKey(remapped));
+    edges.push(remapped);
+  }
+
+  return {
+    nodes: graph.nodes.filter(n => !absorbedIds.has(n.id)).map(n => (n.id === survivorId ? mergedNode : n)),
+    edges,
+  };
+}
+
 /* ============================================================================
    MAIN TRANSFORM EXECUTOR
 ============================================================================ */
 
+registerTransformPack({
+  id: BUILTIN_PACK_ID,
+  name: 'Built-in',
+  description: 'Transforms shipped with OSINT Hub',
+  transforms: BUILTIN_TRANSFORMS,
+});
+
 export async function executeTransform(
   transformId: TransformType,
   node: GraphNode
@@ -2155,49 +2435,7 @@ export async function executeTransform(
   console.log(`[Transform] Executing ${transformId} on node:`, node.label);
 
   try {
-    switch (transformId) {
-      case 'dns_resolve':
-        newNodes = await transformDnsResolve(node);
-        break;
-      case 'whois':
-        newNodes = await transformWhois(node);
-        break;
-      case 'subdomain_enum':
-        newNodes = await transformSubdomainEnum(node);
-        break;
-      case 'geolocation': 
-        newNodes = await transformGeolocation(node);
-        break;
-      case 'port_scan':
-        newNodes = await transformPortScan(node);
-        break;
-      case 'ssl_cert':
-        newNodes = await transformSslCert(node);
-        break;
-      case 'breach_check':
-        newNodes = await transformBreachCheck(node);
-        break;
-      case 'reverse_ip': 
-        newNodes = await transformReverseIp(node);
-        break;
-      case 'threat_intel':
-        newNodes = await transformThreatIntel(node);
-        break;
-      case 'paste_search':
-        newNodes = await transformPasteSearch(node);
-        break;
-      case 'social_search':
-        newNodes = await transformSocialSearch(node);
-        break;
-      case 'darkweb_scan':
-        newNodes = await transformDarkwebScan(node);
-        break;
-      case 'telegram_scan':
-        newNodes = await transformTelegramScan(node);
-        break;
-      default: 
-        throw new Error(`Transform ${transformId} not implemented`);
-    }
+    newNodes = await runRegisteredTransform(transformId, node);
   } catch (error) {
     console.error(`[Transform] ${transformId} error:`, error);
     throw new Error(`Transform ${transformId} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -2210,15 +2448,34 @@ export async function executeTransform(
 
   console.log(`[Transform] ${transformId} succeeded: ${newNodes.length} nodes found`);
 
+  // Canonical ids and provenance, so results merge with entities already on the graph
+  const transformName = getTransform(transformId)?.name || transformId;
+  const discoveredAt = new Date().toISOString();
+  const byId = new Map<string, GraphNode>();
+  for (const result of newNodes) {
+    const id = canonicalEntityId(result.type, result.value);
+    const stamped: GraphNode = stampDiscovery({
+      ...result,
+      id,
+      metadata: {
+        ...result.metadata,
+        sources: [...new Set([...nodeSources(result), transformName])],
+      },
+    }, discoveredAt);
+    byId.set(id, byId.has(id) ? mergeEntity(byId.get(id)!, stamped) : stamped);
+  }
+  newNodes = [...byId.values()].filter(result => result.id !== node.id);
+
   // Create edges
   const newEdges: GraphEdge[] = newNodes.map(newNode => ({
-    id: `edge-${node.id}-${newNode.id}`,
+    id: `edge-${node.id}-${newNode.id}-${transformId}`,
     source: node.id,
     target: newNode.id,
-    label: AVAILABLE_TRANSFORMS.find(t => t.id === transformId)?.name || transformId,
+    label: transformName,
     type: transformId,
     color: '#64748b',
     weight: 1,
+    metadata: { addedAt: discoveredAt },
   }));
 
   return { nodes: newNodes, edges: newEdges };
@@ -2234,7 +2491,7 @@ export function createEntity(
   position: { x: number; y: number }
 ): GraphNode {
   return {
-    id: `${type}-${value}-${Date. now()}`,
+    id: canonicalEntityId(type, value),
     type,
     label: value,
     value,
@@ -2243,5 +2500,6 @@ export function createEntity(
     color:  ENTITY_CONFIG[type].color,
     icon: ENTITY_CONFIG[type].icon,
     size: 50,
+    metadata: { addedAt: new Date().toISOString() },
   };
 }
@@ -0,0 +1,173 @@
+// ============================================================================
+// GRAPH TIMELINE
+// ============================================================================
+// Time-slices a graph for the timeline scrubber. Two clocks are available:
+//   - investigation: when each entity was added to this graph (metadata.addedAt)
+//   - observed: when the entity was seen in the wild (metadata.firstSeen /
+//     lastSeen, falling back to date properties transforms already return,
+//     such as first_seen, registered or notBefore)
+// ============================================================================
+
+import type { GraphData, GraphEdge, GraphNode } from './graphService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export type TimelineMode = 'investigation' | 'observed';
+
+export interface EntityTimes {
+  addedAt?: number;
+  firstSeen?: number;
+  lastSeen?: number;
+}
+
+export interface TimelineBounds {
+  min: number;
+  max: number;
+  dated: number;              // Entities with a time on this clock
+}
+
+export interface TimelineSlice {
+  nodeIds: Set<string>;
+  edgeIds: Set<string>;
+  recentIds: Set<string>;     // Appeared in the last tenth of the window
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+const FIRST_SEEN_PROPERTIES = [
+  'first_seen', 'firstSeen', 'firstseen', 'registered', 'notBefore', 'not_before',
+  'dateAdded', 'date_added', 'created', 'created_at', 'published', 'date',
+];
+const LAST_SEEN_PROPERTIES = ['last_seen', 'lastSeen', 'lastseen', 'last_online'];
+
+// Rejects epoch-zero and similar placeholders some APIs return for unknown dates
+const MIN_VALID_TIME = Date.UTC(1990, 0, 1);
+
+/* ============================================================================
+   TIMES
+============================================================================ */
+
+function parseTime(value: unknown): number | undefined {
+  let time: number;
+  if (typeof value === 'number') {
+    time = value < 1e12 ? value * 1000 : value;   // Unix seconds or milliseconds
+  } else if (typeof value === 'string' && value.trim()) {
+    time = /^\d+$/.test(value.trim()) ? parseTime(Number(value)) ?? NaN : Date.parse(value);
+  } else {
+    return undefined;
+  }
+  return Number.isFinite(time) && time >= MIN_VALID_TIME ? time : undefined;
+}
+
+function propertyTimes(properties: Record<string, unknown> | undefined, keys: string[]): number[] {
+  return keys.map(key => parseTime(properties?.[key])).filter((t): t is number => t !== undefined);
+}
+
+export function getEntityTimes(node: GraphNode): EntityTimes {
+  const meta = node.metadata || {};
+  const firstCandidates = [parseTime(meta.firstSeen), ...propertyTimes(node.properties, FIRST_SEEN_PROPERTIES)]
+    .filter((t): t is number => t !== undefined);
+  const lastCandidates = [parseTime(meta.lastSeen), ...propertyTimes(node.properties, LAST_SEEN_PROPERTIES)]
+    .filter((t): t is number => t !== undefined);
+
+  return {
+    // Graphs saved before addedAt existed fall back to the last update
+    addedAt: parseTime(meta.addedAt) ?? parseTime(meta.lastUpdated),
+    firstSeen: firstCandidates.length ? Math.min(...firstCandidates) : undefined,
+    lastSeen: lastCandidates.length ? Math.max(...lastCandidates) : undefined,
+  };
+}
+
+/** Records when an entity joined the investigation and lifts observation dates out of its properties */
+export function stampDiscovery(node: GraphNode, addedAt = new Date().toISOString()): GraphNode {
+  const { firstSeen, lastSeen } = getEntityTimes(node);
+  return {
+    ...node,
+    metadata: {
+      ...node.metadata,
+      addedAt: node.metadata?.addedAt || addedAt,
+      ...(firstSeen !== undefined ? { firstSeen: new Date(firstSeen).toISOString() } : {}),
+      ...(lastSeen !== undefined ? { lastSeen: new Date(lastSeen).toISOString() } : {}),
+    },
+  };
+}
+
+/** Observation interval; a single sighting is treated as a point in time */
+function observedInterval(times: EntityTimes): [number, number] | null {
+  const start = times.firstSeen ?? times.lastSeen;
+  const end = times.lastSeen ?? times.firstSeen;
+  return start === undefined || end === undefined ? null : [start, end];
+}
+
+function edgeAddedAt(edge: GraphEdge): number | undefined {
+  return parseTime(edge.metadata?.addedAt);
+}
+
+/* ============================================================================
+   SLICING
+============================================================================ */
+
+export function getTimelineBounds(graph: GraphData, mode: TimelineMode): TimelineBounds | null {
+  let min = Infinity;
+  let max = -Infinity;
+  let dated = 0;
+
+  for (const node of graph.nodes) {
+    const times = getEntityTimes(node);
+    const interval = mode === 'investigation'
+      ? (times.addedAt !== undefined ? [times.addedAt, times.addedAt] : null)
+      : observedInterval(times);
+    if (!interval) continue;
+    dated++;
+    min = Math.min(min, interval[0]);
+    max = Math.max(max, interval[1]);
+  }
+
+  return dated > 0 ? { min, max, dated } : null;
+}
+
+/**
+ * Entities and links visible in [start, end]. Undated entities are either
+ * always shown or always hidden; edges need both ends visible and, on the
+ * investigation clock, must themselves exist by `end`.
+ */
+export function sliceGraph(
+  graph: GraphData,
+  mode: TimelineMode,
+  start: number,
+  end: number,
+  includeUndated = true
+): TimelineSlice {
+  const nodeIds = new Set<string>();
+  const recentIds = new Set<string>();
+  const recentFrom = end - Math.max((end - start) / 10, 1);
+
+  for (const node of graph.nodes) {
+    const times = getEntityTimes(node);
+    const interval = mode === 'investigation'
+      ? (times.addedAt !== undefined ? [times.addedAt, times.addedAt] : null)
+      : observedInterval(times);
+
+    if (!interval) {
+      if (includeUndated) nodeIds.add(node.id);
+      continue;
+    }
+    if (interval[0] <= end && interval[1] >= start) {
+      nodeIds.add(node.id);
+      if (interval[0] >= recentFrom) recentIds.add(node.id);
+    }
+  }
+
+  const edgeIds = new Set(
+    graph.edges
+      .filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+      .filter(edge => mode !== 'investigation' || (edgeAddedAt(edge) ?? -Infinity) <= end)
+      .map(edge => edge.id)
+  );
+
+  return { nodeIds, edgeIds, recentIds };
+}
@@ -345,47 +345,80 @@ function determineSeverity(text: string, category: MalwareCategory): ThreatSever
    SOURCE 1: ThreatFox IOC Database (FREE API)
 ============================================================================ */
 
-async function searchThreatFox(query: string): Promise<MalwareIndicator[]> {
-  const indicators: MalwareIndicator[] = [];
-  
-  try {
-    console.log(`[ThreatFox] Searching for: "${query}"`);
-    
-    // ThreatFox API endpoint
-    const res = await fetch('https://threatfox-api.abuse.ch/api/v1/', {
+const THREATFOX_API = 'https://threatfox-api.abuse.ch/api/v1/';
+
+/** POST a ThreatFox query; HTTP failures throw, "no result" style statuses return [] */
+async function queryThreatFox(body: Record<string, unknown>): Promise<any[]> {
+  const res = await fetch(THREATFOX_API, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(`ThreatFox returned ${res.status}`);
+
+  const data = await res.json();
+  return data.query_status === 'ok' && Array.isArray(data.data) ? data.data : [];
+}
+
+function toThreatFoxIndicator(ioc: any): MalwareIndicator {
+  const detection = detectMalwareFamily(ioc.malware || ioc.tags?.join(' ') || '');
+  return {
+    id: makeId('tf'),
+    type: ioc.ioc_type?.includes('ip') ? 'ip' :
+          ioc.ioc_type?.includes('domain') ? 'domain' :
+          ioc.ioc_type?.includes('url') ? 'url' : 'hash',
+    value: ioc.ioc,
+    malwareFamily: ioc.malware_printable || ioc.malware || detection.family,
+    category: detection.category,
+    severity: determineSeverity(ioc.malware || '', detection.category),
+    firstSeen: ioc.first_seen || nowISO(),
+    lastSeen: ioc.last_seen || nowISO(),
+    source: 'ThreatFox',
+    sourceUrl: `https://threatfox.abuse.ch/ioc/${ioc.id}`,
+    confidence: ioc.confidence_level || 75,
+    tags: ioc.tags || [],
+    mitreAttack: MITRE_TECHNIQUES[detection.category] || [],
+    description: ioc.reporter || 'ThreatFox IOC',
+  };
+}
+
+// Malpedia name -> printable name and aliases, fetched once per session
+let threatFoxMalwareList: Promise<Record<string, { malware_printable?: string; malware_alias?: string | null }>> | null = null;
+
+async function resolveThreatFoxMalware(name: string): Promise<string[]> {
+  if (/^[a-z]+\.[a-z0-9_]+$/.test(name)) return [name];
+
+  if (!threatFoxMalwareList) {
+    threatFoxMalwareList = fetch(THREATFOX_API, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ query: 'search_ioc', search_term: query }),
-    });
-    
-    if (!res.ok) return [];
-    
-    const data = await res.json();
-    const iocs = data.data || [];
-    
-    iocs.forEach((ioc: any) => {
-      const detection = detectMalwareFamily(ioc.malware || ioc.tags?.join(' ') || '');
-      
-      indicators.push({
-        id: makeId('tf'),
-        type: ioc.ioc_type?.includes('ip') ? 'ip' : 
-              ioc.ioc_type?.includes('domain') ? 'domain' :
-              ioc.ioc_type?.includes('url') ? 'url' : 'hash',
-        value: ioc.ioc,
-        malwareFamily: ioc.malware || detection.family,
-        category: detection.category,
-        severity: determineSeverity(ioc.malware || '', detection.category),
-        firstSeen: ioc.first_seen || nowISO(),
-        lastSeen: ioc.last_seen || nowISO(),
-        source: 'ThreatFox',
-        sourceUrl: `https://threatfox.abuse.ch/ioc/${ioc.id}`,
-        confidence: ioc.confidence_level || 75,
-        tags: ioc.tags || [],
-        mitreAttack: MITRE_TECHNIQUES[detection.category] || [],
-        description: ioc.reporter || 'ThreatFox IOC',
+      body: JSON.stringify({ query: 'malware_list' }),
+    })
+      .then(res => {
+        if (!res.ok) throw new Error(`ThreatFox returned ${res.status}`);
+        return res.json();
+      })
+      .then(data => (data.query_status === 'ok' ? data.data || {} : {}))
+      .catch(err => {
+        threatFoxMalwareList = null;
+        throw err;
       });
-    });
-    
+  }
+
+  const wanted = name.toLowerCase();
+  return Object.entries(await threatFoxMalwareList)
+    .filter(([, info]) => [info.malware_printable, ...(info.malware_alias || '').split(',')]
+      .some(alias => alias?.trim().toLowerCase() === wanted))
+    .map(([malpedia]) => malpedia);
+}
+
+/**
+ * IOC search by value (search_ioc matches indicator values, not family names)
+ */
+async function searchThreatFox(query: string): Promise<MalwareIndicator[]> {
+  try {
+    console.log(`[ThreatFox] Searching for: "${query}"`);
+    const indicators = (await queryThreatFox({ query: 'search_ioc', search_term: query })).map(toThreatFoxIndicator);
     console.log(`[ThreatFox] ✅ Found ${indicators.length} IOCs`);
     return indicators;
   } catch (err) {
@@ -394,6 +427,31 @@ async function searchThreatFox(query: string): Promise<MalwareIndicator[]> {
   }
 }
 
+/**
+ * Recent IOCs for a keyword: matching tags, matching malware families and,
+ * for indicator-like terms, matching IOC values. Unlike searchThreatFox this
+ * throws when ThreatFox cannot be reached, so callers can report the failure.
+ */
+async function searchThreatFoxByKeyword(term: string, days = 7): Promise<MalwareIndicator[]> {
+  const families = await resolveThreatFoxMalware(term);
+  const looksLikeIOC = /[.:/]/.test(term) || /^[a-f0-9]{32,128}$/i.test(term);
+
+  const batches = await Promise.all([
+    queryThreatFox({ query: 'taginfo', tag: term, limit: 1000 }),
+    ...families.map(malware => queryThreatFox({ query: 'malwareinfo', malware, limit: 1000 })),
+    ...(looksLikeIOC ? [queryThreatFox({ query: 'search_ioc', search_term: term })] : []),
+  ]);
+
+  const since = Date.now() - days * 24 * 60 * 60 * 1000;
+  const byId = new Map<string, any>();
+  for (const ioc of batches.flat()) {
+    const seen = ioc.first_seen ? new Date(String(ioc.first_seen).replace(' UTC', 'Z').replace(' ', 'T')).getTime() : NaN;
+    if (!isNaN(seen) && seen < since) continue;
+    byId.set(String(ioc.id ?? ioc.ioc), ioc);
+  }
+  return Array.from(byId.values()).map(toThreatFoxIndicator);
+}
+
 /* ============================================================================
    SOURCE 2: URLhaus Malware URLs (FREE)
 ============================================================================ */
@@ -1071,6 +1129,7 @@ export async function searchMalwareActivity(query: string): Promise<MalwareSearc
 
 export {
   searchThreatFox,
+  searchThreatFoxByKeyword,
   searchURLhaus,
   searchMalwareBazaar,
   searchFeodoTracker,
@@ -6,9 +6,14 @@
 // ✔ Integrates abuse.ch feeds (Feodo, URLhaus, ThreatFox, MalwareBazaar)
 // ✔ Aggregates threat indicators from multiple sources
 // ✔ Provides unified threat intelligence interface
+// ✔ Builds and parses MISP event JSON for community sharing
 // ============================================================================
 
 import { cacheAPIResponse, getCachedData } from '@/lib/database';
+import { MITRE_DETECTIONS, type IOCIndicator } from '@/services/detectionEngineService';
+import { getTTPDetails } from '@/services/threatActorService';
+import type { Campaign } from '@/services/campaignCorrelationService';
+import type { UnifiedThreat } from '@/services/unifiedThreatPipelineService';
 
 /* ============================================================================
    TYPES
@@ -693,6 +698,397 @@ export async function getMalwareThreatMapData(): Promise<MalwareThreatPoint[]> {
   return points;
 }
 
+/* ============================================================================
+   MISP EVENT FORMAT
+============================================================================ */
+
+export type MispTLP = 'tlp:clear' | 'tlp:green' | 'tlp:amber' | 'tlp:red';
+
+export interface MispTag {
+  name: string;
+  colour?: string;
+}
+
+export interface MispAttribute {
+  uuid: string;
+  type: string;
+  category: string;
+  value: string;
+  to_ids: boolean;
+  comment?: string;
+  timestamp: string;
+  first_seen?: string;
+  last_seen?: string;
+  distribution?: string;
+  Tag?: MispTag[];
+}
+
+export interface MispObject {
+  uuid: string;
+  name: string;
+  Attribute: MispAttribute[];
+}
+
+export interface MispEvent {
+  uuid: string;
+  info: string;
+  date: string;
+  threat_level_id: '1' | '2' | '3' | '4';
+  analysis: '0' | '1' | '2';
+  distribution: string;
+  published: boolean;
+  timestamp: string;
+  Orgc: { name: string; uuid?: string };
+  Tag: MispTag[];
+  Attribute: MispAttribute[];
+  Object?: MispObject[];
+}
+
+export interface MispManifestEntry {
+  uuid: string;
+  info: string;
+  date: string;
+  threatLevel: string;
+  timestamp: string;
+  org: string;
+  tags: string[];
+}
+
+export interface MispEventInput {
+  info: string;
+  family?: string;
+  actor?: string;
+  indicators: IOCIndicator[];
+  ttps?: string[];
+  tlp?: MispTLP;
+  analysis?: MispEvent['analysis'];
+}
+
+const MISP_ORG_NAME = 'OSINT Hub';
+
+// Public CIRCL OSINT feed, proxied through /api/misp-feed
+const MISP_FEED_BASE = '/api/misp-feed';
+
+// IOC type -> MISP attribute type, category and default IDS flag
+const MISP_ATTRIBUTE_TYPES: Record<IOCIndicator['type'], { type: string; category: string; toIds: boolean }> = {
+  ip: { type: 'ip-dst', category: 'Network activity', toIds: true },
+  domain: { type: 'domain', category: 'Network activity', toIds: true },
+  url: { type: 'url', category: 'Network activity', toIds: true },
+  hash_md5: { type: 'md5', category: 'Payload delivery', toIds: true },
+  hash_sha1: { type: 'sha1', category: 'Payload delivery', toIds: true },
+  hash_sha256: { type: 'sha256', category: 'Payload delivery', toIds: true },
+  email: { type: 'email-src', category: 'Payload delivery', toIds: true },
+  mutex: { type: 'mutex', category: 'Artifacts dropped', toIds: true },
+  registry: { type: 'regkey', category: 'Persistence mechanism', toIds: true },
+  file_path: { type: 'filename', category: 'Artifacts dropped', toIds: false },
+};
+
+// MISP attribute type -> UnifiedThreat type (composite types use their first half)
+const MISP_THREAT_TYPES: Record<string, UnifiedThreat['type']> = {
+  'ip-dst': 'ip',
+  'ip-src': 'ip',
+  'domain': 'domain',
+  'hostname': 'domain',
+  'url': 'url',
+  'uri': 'url',
+  'link': 'url',
+  'md5': 'hash',
+  'sha1': 'hash',
+  'sha256': 'hash',
+  'sha512': 'hash',
+  'imphash': 'hash',
+  'ssdeep': 'hash',
+  'vulnerability': 'cve',
+  'threat-actor': 'actor',
+  'campaign-name': 'campaign',
+};
+
+const THREAT_LEVEL_SEVERITY: Record<string, UnifiedThreat['severity']> = {
+  '1': 'critical',
+  '2': 'high',
+  '3': 'medium',
+  '4': 'low',
+};
+
+// Inverse of THREAT_LEVEL_SEVERITY so exported events import at the same severity
+const SEVERITY_THREAT_LEVEL: Record<string, MispEvent['threat_level_id']> = {
+  critical: '1',
+  high: '2',
+  medium: '3',
+  low: '4',
+  info: '4',
+};
+
+function mispUuid(): string {
+  return crypto.randomUUID();
+}
+
+function unixTimestamp(value?: string): string {
+  const time = value ? new Date(value).getTime() : Date.now();
+  return String(Math.floor((isNaN(time) ? Date.now() : time) / 1000));
+}
+
+/** ISO timestamp, or undefined when the value does not parse */
+function isoDate(value?: string): string | undefined {
+  const time = value ? new Date(value).getTime() : NaN;
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function galaxyTag(galaxy: string, value: string): MispTag {
+  return { name: `misp-galaxy:${galaxy}="${value.replace(/"/g, '')}"` };
+}
+
+/* ============================================================================
+   MISP EVENT BUILDER
+============================================================================ */
+
+/**
+ * Package IOCs, TLP marking and MITRE ATT&CK galaxy clusters into a MISP event
+ */
+export function buildMispEvent(input: MispEventInput): { Event: MispEvent } {
+  const ttps = input.ttps || [];
+
+  const tags: MispTag[] = [{ name: input.tlp || 'tlp:amber' }];
+  if (input.family) tags.push(galaxyTag('malpedia', input.family));
+  if (input.actor) tags.push(galaxyTag('threat-actor', input.actor));
+  for (const ttp of ttps) {
+    const name = MITRE_DETECTIONS[ttp]?.name || getTTPDetails(ttp)?.name;
+    tags.push(galaxyTag('mitre-attack-pattern', name ? `${name} - ${ttp}` : ttp));
+  }
+
+  const seen = new Set<string>();
+  const attributes: MispAttribute[] = [];
+  // Event level follows the most severe exported indicator
+  let threatLevel: MispEvent['threat_level_id'] = '4';
+  for (const ioc of input.indicators) {
+    const mapping = MISP_ATTRIBUTE_TYPES[ioc.type];
+    if (!ioc.value || !mapping) continue;
+    const key = `${mapping.type}|${ioc.value.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const firstSeen = isoDate(ioc.firstSeen);
+    const lastSeen = isoDate(ioc.lastSeen);
+    const level = SEVERITY_THREAT_LEVEL[ioc.severity] || '4';
+    if (level < threatLevel) threatLevel = level;
+
+    attributes.push({
+      uuid: mispUuid(),
+      type: mapping.type,
+      category: mapping.category,
+      value: ioc.value,
+      // Low-confidence indicators are shared for context only, not for detection
+      to_ids: mapping.toIds && ioc.confidence >= 50,
+      comment: ioc.context || `confidence ${ioc.confidence}, severity ${ioc.severity}`,
+      timestamp: unixTimestamp(ioc.lastSeen),
+      ...(firstSeen ? { first_seen: firstSeen } : {}),
+      ...(lastSeen ? { last_seen: lastSeen } : {}),
+      distribution: '5', // inherit event distribution
+      Tag: ioc.tags.filter(Boolean).map(name => ({ name })),
+    });
+  }
+
+  return {
+    Event: {
+      uuid: mispUuid(),
+      info: input.info,
+      date: new Date().toISOString().split('T')[0],
+      threat_level_id: threatLevel,
+      analysis: input.analysis || '1',
+      distribution: '1', // this community only
+      published: false,
+      timestamp: unixTimestamp(),
+      Orgc: { name: MISP_ORG_NAME },
+      Tag: tags,
+      Attribute: attributes,
+    },
+  };
+}
+
+/**
+ * Build a MISP event for a correlated campaign: infrastructure, samples,
+ * families, TTPs and actor attribution
+ */
+export function buildMispEventFromCampaign(campaign: Campaign, tlp: MispTLP = 'tlp:amber'): { Event: MispEvent } {
+  const indicators: IOCIndicator[] = [
+    ...campaign.infrastructure.map(infra => ({
+      type: (/^\d{1,3}(\.\d{1,3}){3}$/.test(infra.value) ? 'ip' : 'domain') as IOCIndicator['type'],
+      value: infra.value,
+      confidence: campaign.confidence,
+      severity: (infra.status === 'active' ? 'high' : 'medium') as IOCIndicator['severity'],
+      firstSeen: infra.firstSeen,
+      lastSeen: infra.lastSeen,
+      tags: [infra.type, infra.status],
+    })),
+    ...campaign.samples.map(sample => ({
+      type: `hash_${sample.hashType}` as IOCIndicator['type'],
+      value: sample.hash,
+      confidence: sample.confidence,
+      severity: 'high' as const,
+      firstSeen: sample.firstSeen,
+      lastSeen: sample.lastSeen,
+      tags: [sample.family, ...sample.tags],
+    })),
+  ];
+
+  const { Event } = buildMispEvent({
+    info: `Campaign: ${campaign.name}${campaign.codename ? ` (${campaign.codename})` : ''}`,
+    family: campaign.families[0],
+    actor: campaign.actor,
+    indicators,
+    ttps: campaign.ttps,
+    tlp,
+    analysis: campaign.status === 'concluded' ? '2' : '1',
+  });
+
+  // Additional families beyond the primary one
+  campaign.families.slice(1).forEach(family => Event.Tag.push(galaxyTag('malpedia', family)));
+  return { Event };
+}
+
+/* ============================================================================
+   MISP EVENT PARSER
+============================================================================ */
+
+function unwrapMispEvents(data: any): MispEvent[] {
+  if (!data) return [];
+  if (Array.isArray(data)) return data.flatMap(unwrapMispEvents);
+  if (Array.isArray(data.response)) return data.response.flatMap(unwrapMispEvents);
+  if (data.Event) return [data.Event];
+  if (data.info && (data.Attribute || data.Object)) return [data];
+  return [];
+}
+
+function tagNames(tags?: MispTag[]): string[] {
+  return (tags || []).map(t => t.name).filter(Boolean);
+}
+
+function galaxyValue(tags: string[], galaxies: string[]): string | undefined {
+  for (const tag of tags) {
+    const match = tag.match(/^misp-galaxy:([\w-]+)="(.+)"$/);
+    if (match && galaxies.includes(match[1])) return match[2];
+  }
+  return undefined;
+}
+
+/**
+ * Convert MISP event JSON (single event, event list or REST search response)
+ * into UnifiedThreat records
+ */
+export function parseMispEvent(data: unknown): UnifiedThreat[] {
+  const events = unwrapMispEvents(data);
+  if (events.length === 0) {
+    throw new Error('No MISP events found: expected {"Event": {...}}');
+  }
+
+  const threats: UnifiedThreat[] = [];
+  for (const event of events) {
+    const eventTags = tagNames(event.Tag);
+    const family = galaxyValue(eventTags, ['malpedia', 'ransomware', 'banker', 'stealer', 'rat', 'tool']);
+    const severity = THREAT_LEVEL_SEVERITY[event.threat_level_id] || 'medium';
+    const eventDate = isoDate(event.date) || new Date().toISOString();
+    const attributes = [
+      ...(event.Attribute || []),
+      ...(event.Object || []).flatMap(obj => obj.Attribute || []),
+    ];
+
+    for (const attr of attributes) {
+      // Composite types such as ip-dst|port or filename|sha256
+      const [primaryType] = attr.type.split('|');
+      const compositeHash = attr.type.startsWith('filename|') ? attr.value.split('|')[1] : null;
+      const type = compositeHash ? 'hash' : MISP_THREAT_TYPES[primaryType];
+      if (!type) continue;
+
+      const value = compositeHash || attr.value.split('|')[0];
+      const seconds = Number(attr.timestamp);
+      const timestamp = attr.timestamp && Number.isFinite(seconds) ? new Date(seconds * 1000).toISOString() : eventDate;
+
+      threats.push({
+        id: attr.uuid || `misp-${event.uuid}-${threats.length}`,
+        source: 'MISP',
+        type,
+        value,
+        malwareFamily: family,
+        severity: attr.to_ids ? severity : 'low',
+        confidence: attr.to_ids ? 80 : 50,
+        firstSeen: attr.first_seen || eventDate,
+        lastSeen: attr.last_seen || timestamp,
+        tags: [...new Set([...eventTags, ...tagNames(attr.Tag)])],
+        metadata: {
+          eventUuid: event.uuid,
+          eventInfo: event.info,
+          org: event.Orgc?.name,
+          mispType: attr.type,
+          category: attr.category,
+          toIds: attr.to_ids,
+          comment: attr.comment,
+        },
+      });
+    }
+  }
+
+  return threats;
+}
+
+/**
+ * Parse a MISP feed manifest.json (event uuid -> event summary)
+ */
+export function parseMispManifest(data: unknown): MispManifestEntry[] {
+  if (!data || typeof data !== 'object') return [];
+
+  return Object.entries(data as Record<string, any>).map(([uuid, entry]) => ({
+    uuid,
+    info: entry.info || '',
+    date: entry.date || '',
+    threatLevel: String(entry.threat_level_id || '4'),
+    timestamp: String(entry.timestamp || ''),
+    org: entry.Orgc?.name || '',
+    tags: tagNames(entry.Tag),
+  }))
+  .sort((a, b) => Number(b.timestamp) - Number(a.timestamp));
+}
+
+/**
+ * Pull the most recent events of a MISP feed (manifest + per-event JSON)
+ */
+export async function fetchMispFeed(maxEvents: number = 10, baseUrl: string = MISP_FEED_BASE): Promise<UnifiedThreat[]> {
+  const cacheKey = `misp_feed:${baseUrl}:${maxEvents}`;
+  const cached = await getCachedData(cacheKey) as UnifiedThreat[] | null;
+  if (cached && Array.isArray(cached)) return cached;
+
+  try {
+    console.log('[MISP] Fetching feed manifest...');
+    const response = await fetch(`${baseUrl}/manifest.json`);
+    if (!response.ok) throw new Error(`MISP manifest fetch failed: ${response.status}`);
+
+    const manifest = parseMispManifest(await response.json()).slice(0, maxEvents);
+    const results = await Promise.allSettled(
+      manifest.map(async entry => {
+        const eventResponse = await fetch(`${baseUrl}/${entry.uuid}.json`);
+        if (!eventResponse.ok) throw new Error(`MISP event ${entry.uuid}: ${eventResponse.status}`);
+        return parseMispEvent(await eventResponse.json());
+      })
+    );
+
+    const threats = results.flatMap(r => (r.status === 'fulfilled' ? r.value : []));
+    console.log(`[MISP] Parsed ${threats.length} attributes from ${manifest.length} events`);
+    await cacheAPIResponse(cacheKey, threats, 30);
+    return threats;
+  } catch (error) {
+    console.error('[MISP] Feed error:', error);
+    return [];
+  }
+}
+
+export function downloadMispEvent(event: { Event: MispEvent }, filename: string): void {
+  const blob = new Blob([JSON.stringify(event, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 /* ============================================================================
    EXPORTS
 ============================================================================ */
@@ -707,4 +1103,9 @@ export default {
   getMalwareByFamily,
   getRecentC2Activity,
   getMalwareThreatMapData,
+  buildMispEvent,
+  buildMispEventFromCampaign,
+  parseMispEvent,
+  parseMispManifest,
+  fetchMispFeed,
 };
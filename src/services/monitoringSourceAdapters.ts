@@ -0,0 +1,432 @@
+// ============================================================================
+// MONITORING SOURCE ADAPTERS
+// ============================================================================
+// Pluggable feed adapters for continuous monitoring rules. Each adapter turns
+// a source into normalized items; per-source cursors (persisted with the rule)
+// make sure only items not seen in earlier cycles can raise alerts.
+// ============================================================================
+
+import { searchDarkWebForums, getRansomwareVictims } from './darkWebForumService';
+import { searchThreatFoxByKeyword } from './malwareTrackingService';
+import { urlhausService } from './urlhausService';
+import { searchTelegramLeaks, type ScanTargetType } from './telegramService';
+import { scanPasteSites } from './torService';
+import { gitHubMalwareService } from './gitHubMalwareService';
+import type { MonitoringRule, MonitoringSource } from './continuousMonitoringService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface SourceItem {
+  id: string;                 // Stable key used by the cursor
+  timestamp?: string;         // Publication time, when the source provides one
+  text: string[];             // Fields the rule pattern is matched against
+  title: string;
+  description: string;
+  indicators: string[];
+  context: Record<string, any>;
+}
+
+export interface SourceCursor {
+  since?: string;             // Newest item timestamp seen so far
+  seenIds: string[];          // Recently seen item keys (bounded)
+}
+
+export interface PatternMatch {
+  title: string;
+  description: string;
+  indicators: string[];
+  context: Record<string, any>;
+}
+
+export interface MonitoringSourceAdapter {
+  type: MonitoringSource['type'];
+  name: string;
+  /** Fetch current items; search-based sources receive terms derived from the rule */
+  fetchItems(rule: MonitoringRule, source: MonitoringSource, terms: string[]): Promise<SourceItem[]>;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+const MAX_SEEN_IDS = 2000;
+const SEARCH_BATCH_SIZE = 3;         // Concurrent searches per source
+const INITIAL_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+// Feeds publish late (an item's timestamp can predate the newest one already
+// seen), so each cycle re-reads this far behind the cursor; seenIds dedupe
+const CURSOR_OVERLAP_MS = 6 * 60 * 60 * 1000;
+export const MAX_PATTERN_LENGTH = 500;
+// Only the start of long item texts is matched, bounding each regex test
+const MAX_MATCH_TEXT = 2000;
+
+/* ============================================================================
+   HELPERS
+============================================================================ */
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * True when a quantified group itself contains a quantifier, e.g. (a+)+ or
+ * (\w*\s?)*, the shape behind catastrophic backtracking
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = [];     // Whether each open group contains a quantifier
+  let closedQuantified = false;     // The group just closed contained one
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      i++;
+      closedQuantified = false;
+      continue;
+    }
+    if (inClass) {
+      if (ch === ']') inClass = false;
+      continue;
+    }
+    if (ch === '[') {
+      inClass = true;
+      closedQuantified = false;
+      continue;
+    }
+    if (ch === '(') {
+      groups.push(false);
+      closedQuantified = false;
+      continue;
+    }
+    if (ch === ')') {
+      closedQuantified = groups.pop() || false;
+      if (closedQuantified && groups.length) groups[groups.length - 1] = true;
+      continue;
+    }
+    const quantifier = ch === '*' || ch === '+' || (ch === '?' && pattern[i - 1] !== '(') ||
+      (ch === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)));
+    if (quantifier) {
+      // Bounded repeats like (\d+\.){3} stay polynomial
+      const unbounded = ch === '*' || ch === '+' || /^\{\d+,\}/.test(pattern.slice(i));
+      if (closedQuantified && unbounded) return true;
+      if (groups.length) groups[groups.length - 1] = true;
+    }
+    closedQuantified = false;
+  }
+  return false;
+}
+
+/**
+ * Why a rule pattern can't be saved or run, or null when it is fine. Regex
+ * rules from every user run in one scheduled cycle, so patterns that can
+ * backtrack catastrophically are refused outright. The monitoring-cycle edge
+ * function applies the same checks.
+ */
+export function validateRulePattern(type: MonitoringRule['type'], pattern: string): string | null {
+  if (!pattern.trim()) return 'Pattern is empty';
+  if (pattern.length > MAX_PATTERN_LENGTH) return `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  if (type !== 'regex') return null;
+  if (hasNestedQuantifier(pattern)) return 'Nested quantifiers such as (a+)+ can take exponential time';
+  if (/\\[1-9]/.test(pattern)) return 'Backreferences are not supported';
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error) {
+    return `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return null;
+}
+
+export function compileRulePattern(rule: MonitoringRule): RegExp {
+  const problem = validateRulePattern(rule.type, rule.pattern);
+  if (problem) throw new Error(problem);
+  return rule.type === 'regex'
+    ? new RegExp(rule.pattern, 'i')
+    : new RegExp(rule.pattern.split('|').map(p => p.trim()).filter(Boolean).map(escapeRegex).join('|'), 'i');
+}
+
+/**
+ * Search terms for query-based sources. Regex rules contribute their longest
+ * literal fragment (e.g. "CVE-202" for CVE-202[3-5]-\d{4,5}).
+ */
+export function searchTermsForRule(rule: MonitoringRule): string[] {
+  if (rule.type !== 'regex') {
+    return Array.from(new Set(rule.pattern.split('|').map(p => p.trim()).filter(Boolean)));
+  }
+
+  const literals = rule.pattern
+    .replace(/\\[dDwWsSbB]/g, ' ')
+    .replace(/\[[^\]]*\]|\{[^}]*\}/g, ' ')
+    .split(/[^A-Za-z0-9 _.@-]+/)
+    .map(p => p.trim().replace(/^[^A-Za-z0-9]+|[^A-Za-z0-9]+$/g, ''))
+    .filter(p => p.length >= 3)
+    .sort((a, b) => b.length - a.length);
+
+  return literals.slice(0, 1);
+}
+
+function telegramScanType(rule: MonitoringRule): ScanTargetType {
+  if (rule.type === 'email') return 'email';
+  if (rule.type === 'domain') return 'domain';
+  return 'keyword';
+}
+
+/** Search every term, a few at a time; fails only if every search failed */
+async function searchEachTerm<T>(terms: string[], search: (term: string) => Promise<T[]>): Promise<T[]> {
+  const results: PromiseSettledResult<T[]>[] = [];
+  for (let i = 0; i < terms.length; i += SEARCH_BATCH_SIZE) {
+    results.push(...await Promise.allSettled(terms.slice(i, i + SEARCH_BATCH_SIZE).map(search)));
+  }
+  const rejected = results.filter(r => r.status === 'rejected') as PromiseRejectedResult[];
+  if (rejected.length === results.length && rejected.length > 0) {
+    throw rejected[0].reason instanceof Error ? rejected[0].reason : new Error(String(rejected[0].reason));
+  }
+  return results.flatMap(r => (r.status === 'fulfilled' ? r.value : []));
+}
+
+/* ============================================================================
+   ADAPTERS
+============================================================================ */
+
+const ransomwatchAdapter: MonitoringSourceAdapter = {
+  type: 'ransomwatch',
+  name: 'Ransomwatch',
+  async fetchItems() {
+    const victims = await getRansomwareVictims({ days: 1 });
+    return victims.map(victim => ({
+      id: `${victim.group}:${victim.victimName}`,
+      timestamp: victim.announcementDate,
+      text: [victim.group, victim.victimName, victim.victimDomain || ''],
+      title: `Ransomware Victim: ${victim.victimName}`,
+      description: `New victim announced by ${victim.group}`,
+      indicators: [victim.victimName, victim.group, victim.victimDomain].filter(Boolean) as string[],
+      context: { victim },
+    }));
+  },
+};
+
+const forumsAdapter: MonitoringSourceAdapter = {
+  type: 'forums',
+  name: 'Forums',
+  async fetchItems(_rule, _source, terms) {
+    const posts = await searchEachTerm(terms, async term => (await searchDarkWebForums(term)).posts);
+    return posts.map(post => ({
+      id: `${post.forum}:${post.threadUrl || post.thread}`,
+      timestamp: post.timestamp,
+      text: [post.thread, post.content],
+      title: `Forum Activity: ${post.thread.slice(0, 60)}`,
+      description: `Suspicious post on ${post.forum}`,
+      indicators: [post.thread, post.author, post.forum],
+      context: { post },
+    }));
+  },
+};
+
+const threatFoxAdapter: MonitoringSourceAdapter = {
+  type: 'threatfox',
+  name: 'ThreatFox',
+  async fetchItems(_rule, _source, terms) {
+    const iocs = await searchEachTerm(terms, term => searchThreatFoxByKeyword(term, 1));
+    return iocs.map(ioc => ({
+      id: `${ioc.type}:${ioc.value}`,
+      timestamp: ioc.firstSeen,
+      text: [ioc.value, ioc.malwareFamily, ioc.tags.join(' ')],
+      title: `ThreatFox IOC Match: ${ioc.malwareFamily || ioc.value}`,
+      description: `${ioc.type.toUpperCase()} ${ioc.value} reported to ThreatFox`,
+      indicators: [ioc.value],
+      context: { ioc },
+    }));
+  },
+};
+
+const urlhausAdapter: MonitoringSourceAdapter = {
+  type: 'urlhaus',
+  name: 'URLhaus',
+  async fetchItems() {
+    const { urls } = await urlhausService.fetchRecentUrls(500);
+    return urls.map(entry => ({
+      id: entry.id || entry.url,
+      timestamp: entry.date_added ? new Date(entry.date_added.replace(' UTC', 'Z').replace(' ', 'T')).toISOString() : undefined,
+      text: [entry.url, entry.threat, (entry.tags || []).join(' ')],
+      title: `URLhaus Match: ${entry.url.slice(0, 80)}`,
+      description: `Malicious URL (${entry.threat || 'malware_download'}) reported to URLhaus`,
+      indicators: [entry.url, entry.host].filter(Boolean),
+      context: { url: entry },
+    }));
+  },
+};
+
+const telegramAdapter: MonitoringSourceAdapter = {
+  type: 'telegram',
+  name: 'Telegram',
+  async fetchItems(rule, _source, terms) {
+    const leaks = await searchEachTerm(terms, term => searchTelegramLeaks(term, telegramScanType(rule)));
+    return leaks.map(leak => ({
+      id: leak.url || `${leak.channel}:${leak.context.slice(0, 100)}`,
+      timestamp: leak.timestamp,
+      text: [leak.title, leak.context, leak.identifier],
+      title: `Telegram Leak: ${leak.title.slice(0, 60)}`,
+      description: `Exposure in ${leak.channel} (${leak.source})`,
+      indicators: [leak.identifier, leak.channel, ...leak.exposedData].filter(Boolean),
+      context: { leak },
+    }));
+  },
+};
+
+const pastebinAdapter: MonitoringSourceAdapter = {
+  type: 'pastebin',
+  name: 'Paste Sites',
+  async fetchItems(_rule, _source, terms) {
+    const signals = await searchEachTerm(terms, term => scanPasteSites(term));
+    return signals.map(signal => ({
+      id: signal.url || signal.id,
+      timestamp: signal.timestamp,
+      text: [signal.title, signal.context, signal.indicator],
+      title: `Paste Match: ${signal.title.slice(0, 60)}`,
+      description: `Matching paste found on ${signal.source}`,
+      indicators: [signal.indicator, signal.url].filter(Boolean),
+      context: { signal },
+    }));
+  },
+};
+
+const githubAdapter: MonitoringSourceAdapter = {
+  type: 'github',
+  name: 'GitHub',
+  async fetchItems(_rule, _source, terms) {
+    const repos = await searchEachTerm(terms, term => gitHubMalwareService.searchMalwareRepositories(term, 30));
+    return repos.map(repo => ({
+      id: repo.full_name,
+      timestamp: repo.created_at,
+      text: [repo.full_name, repo.description || ''],
+      title: `GitHub Repository: ${repo.full_name}`,
+      description: repo.description || 'New repository matching monitoring pattern',
+      indicators: [repo.html_url],
+      context: { repository: repo },
+    }));
+  },
+};
+
+/**
+ * Custom sources poll a user-supplied URL (source.config.url) returning either
+ * a JSON array or newline-separated text
+ */
+const customAdapter: MonitoringSourceAdapter = {
+  type: 'custom',
+  name: 'Custom Feed',
+  async fetchItems(_rule, source) {
+    const url = source.config?.url;
+    if (!url) throw new Error('Custom source has no URL configured');
+
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`${source.name} returned ${res.status}`);
+    const body = await res.text();
+
+    let entries: any[];
+    try {
+      const parsed = JSON.parse(body);
+      entries = Array.isArray(parsed) ? parsed : parsed.data || parsed.items || [];
+    } catch {
+      entries = body.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    }
+
+    return entries.map(entry => {
+      const text = typeof entry === 'string' ? entry : JSON.stringify(entry);
+      return {
+        id: typeof entry === 'object' && entry?.id ? String(entry.id) : text.slice(0, 200),
+        timestamp: typeof entry === 'object' ? entry?.timestamp || entry?.date_added || entry?.first_seen : undefined,
+        text: [text],
+        title: `${source.name}: ${text.slice(0, 60)}`,
+        description: `New entry in custom feed ${source.name}`,
+        indicators: typeof entry === 'string' ? [entry] : [entry?.value || entry?.indicator || entry?.ioc].filter(Boolean),
+        context: { entry },
+      };
+    });
+  },
+};
+
+/* ============================================================================
+   REGISTRY
+============================================================================ */
+
+const adapters = new Map<string, MonitoringSourceAdapter>();
+
+export function registerSourceAdapter(adapter: MonitoringSourceAdapter): void {
+  adapters.set(adapter.type, adapter);
+}
+
+export function getSourceAdapter(type: string): MonitoringSourceAdapter | undefined {
+  return adapters.get(type);
+}
+
+export function getSourceAdapters(): MonitoringSourceAdapter[] {
+  return Array.from(adapters.values());
+}
+
+[
+  ransomwatchAdapter,
+  forumsAdapter,
+  threatFoxAdapter,
+  urlhausAdapter,
+  telegramAdapter,
+  pastebinAdapter,
+  githubAdapter,
+  customAdapter,
+].forEach(registerSourceAdapter);
+
+/* ============================================================================
+   CURSORS
+============================================================================ */
+
+/**
+ * Items not seen by earlier cycles. Without a cursor, only the last 24h count
+ * as new so a fresh rule does not alert on a feed's whole history.
+ */
+export function filterNewItems(items: SourceItem[], cursor?: SourceCursor): SourceItem[] {
+  const seen = new Set(cursor?.seenIds || []);
+  const since = cursor?.since
+    ? new Date(cursor.since).getTime() - CURSOR_OVERLAP_MS
+    : cursor ? 0 : Date.now() - INITIAL_LOOKBACK_MS;
+
+  // Adding to `seen` also drops repeats within one fetch (several search terms can return one item)
+  return items.filter(item => {
+    if (seen.has(item.id)) return false;
+    seen.add(item.id);
+    if (!item.timestamp) return true;
+    const time = new Date(item.timestamp).getTime();
+    return isNaN(time) || time >= since;
+  });
+}
+
+export function advanceCursor(items: SourceItem[], cursor?: SourceCursor): SourceCursor {
+  const timeOf = (item: SourceItem) => (item.timestamp ? new Date(item.timestamp).getTime() : NaN);
+  // Newest first so the bounded seen-list keeps the most recent keys
+  const ordered = [...items].sort((a, b) => (timeOf(b) || 0) - (timeOf(a) || 0));
+  const previous = cursor?.since ? new Date(cursor.since).getTime() : 0;
+  const newest = ordered.reduce((max, item) => Math.max(max, timeOf(item) || 0), previous);
+
+  return {
+    since: newest > 0 ? new Date(newest).toISOString() : cursor?.since,
+    seenIds: Array.from(new Set([...ordered.map(i => i.id), ...(cursor?.seenIds || [])])).slice(0, MAX_SEEN_IDS),
+  };
+}
+
+/**
+ * Fetch a source through its adapter and match new items against the rule
+ */
+export async function checkSourceForPattern(
+  source: MonitoringSource,
+  rule: MonitoringRule
+): Promise<{ matches: PatternMatch[]; cursor: SourceCursor }> {
+  const adapter = getSourceAdapter(source.type);
+  if (!adapter) {
+    throw new Error(`No monitoring adapter registered for source type "${source.type}"`);
+  }
+
+  const items = await adapter.fetchItems(rule, source, searchTermsForRule(rule));
+  const regex = compileRulePattern(rule);
+  const matches = filterNewItems(items, source.cursor)
+    .filter(item => item.text.some(t => t && regex.test(t.slice(0, MAX_MATCH_TEXT))))
+    .map(({ title, description, indicators, context }) => ({ title, description, indicators, context }));
+
+  return { matches, cursor: advanceCursor(items, source.cursor) };
+}
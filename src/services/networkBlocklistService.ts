@@ -0,0 +1,599 @@
+// ============================================================================
+// NETWORK BLOCKLIST SERVICE
+// ============================================================================
+// Builds push-ready network blocklists (DNS resolvers, IDS, firewalls, EDLs)
+// from IOC indicators, with CIDR aggregation and allowlist subtraction
+// ============================================================================
+
+import type { IOCIndicator, NetworkBlocklist } from '@/services/detectionEngineService';
+import { fnv1a } from '@/lib/stableId';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface BlocklistOptions {
+  allowlist?: string[]; // IPs, CIDRs, ranges (a-b) or domains that must never be blocked
+  excludeReserved?: boolean; // Drop private/loopback/documentation ranges (default true)
+  serial?: number; // RPZ SOA serial; defaults to the current unix time
+  sinkhole?: string; // Address returned by hosts/dnsmasq entries
+}
+
+export interface PreparedBlocklist {
+  ipv4: string[]; // Aggregated CIDRs
+  ipv6: string[];
+  domains: string[];
+  urls: string[];
+  passthrough: string[]; // Allowlisted subdomains of blocked domains
+  allowlisted: { ips: number; domains: number };
+  rejected: string[]; // Values that are neither a valid address nor a hostname
+}
+
+interface IpRange {
+  version: 4 | 6;
+  start: bigint;
+  end: bigint;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+const RESERVED_RANGES = [
+  '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12',
+  '192.0.0.0/24', '192.0.2.0/24', '192.168.0.0/16', '198.18.0.0/15', '198.51.100.0/24',
+  '203.0.113.0/24', '224.0.0.0/4', '240.0.0.0/4',
+  '::/128', '::1/128', 'fc00::/7', 'fe80::/10', 'ff00::/8', '2001:db8::/32',
+];
+
+const BITS = { 4: 32, 6: 128 } as const;
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)(?!-)[a-z0-9_-]{1,63}(?<!-)(\.(?!-)[a-z0-9_-]{1,63}(?<!-))*\.[a-z][a-z0-9-]{0,62}$/;
+
+// Snort/Suricata local rules live at sid >= 1,000,000
+const SID_BASE = 9_000_000;
+const SID_SPAN = 900_000;
+const IPS_PER_RULE = 100;
+
+const FILE_EXTENSIONS: Record<NetworkBlocklist['format'], string> = {
+  plain: 'txt',
+  hosts: 'hosts',
+  dnsmasq: 'conf',
+  bind: 'rpz.zone',
+  unbound: 'conf',
+  pfsense: 'txt',
+  suricata: 'rules',
+  suricata_iprep: 'list',
+  snort: 'rules',
+  nftables: 'nft',
+  iptables: 'ipset',
+  paloalto_edl: 'txt',
+};
+
+/* ============================================================================
+   ADDRESS PARSING
+============================================================================ */
+
+function parseIpv4(text: string): bigint | null {
+  const parts = text.split('.');
+  if (parts.length !== 4 || !parts.every(p => /^\d{1,3}$/.test(p) && Number(p) <= 255)) return null;
+  return parts.reduce((acc, p) => (acc << 8n) | BigInt(Number(p)), 0n);
+}
+
+function parseIpv6(text: string): bigint | null {
+  let head = text;
+  const embedded = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const v4 = parseIpv4(embedded[2]);
+    if (v4 === null) return null;
+    head = embedded[1] + ((v4 >> 16n).toString(16)) + ':' + ((v4 & 0xffffn).toString(16));
+  }
+  const halves = head.split('::');
+  if (halves.length > 2) return null;
+  const left = halves[0] ? halves[0].split(':') : [];
+  const right = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  let groups = left;
+  if (halves.length === 2) {
+    const missing = 8 - left.length - right.length;
+    if (missing < 1) return null;
+    groups = [...left, ...Array<string>(missing).fill('0'), ...right];
+  }
+  if (groups.length !== 8 || !groups.every(g => /^[0-9a-f]{1,4}$/i.test(g))) return null;
+  return groups.reduce((acc, g) => (acc << 16n) | BigInt(parseInt(g, 16)), 0n);
+}
+
+function parseAddress(text: string): { version: 4 | 6; value: bigint } | null {
+  const v4 = parseIpv4(text);
+  if (v4 !== null) return { version: 4, value: v4 };
+  const v6 = text.includes(':') ? parseIpv6(text) : null;
+  return v6 === null ? null : { version: 6, value: v6 };
+}
+
+function formatAddress(version: 4 | 6, value: bigint): string {
+  if (version === 4) {
+    return [24n, 16n, 8n, 0n].map(shift => ((value >> shift) & 0xffn).toString()).join('.');
+  }
+  const groups = Array.from({ length: 8 }, (_, i) => ((value >> BigInt(112 - i * 16)) & 0xffffn).toString(16));
+  // Compress the longest run of zero groups (RFC 5952)
+  let best = { start: -1, length: 0 };
+  for (let i = 0; i < 8; i++) {
+    let j = i;
+    while (j < 8 && groups[j] === '0') j++;
+    if (j - i > best.length && j - i > 1) best = { start: i, length: j - i };
+    i = j;
+  }
+  if (best.start === -1) return groups.join(':');
+  return `${groups.slice(0, best.start).join(':')}::${groups.slice(best.start + best.length).join(':')}`;
+}
+
+/**
+ * Parse an IP, CIDR or "start-end" range into an address range
+ */
+function parseRange(text: string): IpRange | null {
+  const value = text.trim().replace(/^\[(.+)\](:\d+)?$/, '$1').replace(/^(\d+\.\d+\.\d+\.\d+):\d+$/, '$1').toLowerCase();
+
+  const dash = value.indexOf('-');
+  if (dash > 0) {
+    const start = parseAddress(value.slice(0, dash).trim());
+    const end = parseAddress(value.slice(dash + 1).trim());
+    if (!start || !end || start.version !== end.version || start.value > end.value) return null;
+    return { version: start.version, start: start.value, end: end.value };
+  }
+
+  const [address, prefix] = value.split('/');
+  const parsed = parseAddress(address);
+  if (!parsed) return null;
+  const width = BITS[parsed.version];
+  const bits = prefix === undefined ? width : Number(prefix);
+  if (!Number.isInteger(bits) || bits < 0 || bits > width || (prefix !== undefined && !/^\d+$/.test(prefix))) return null;
+  const hostBits = BigInt(width - bits);
+  const start = (parsed.value >> hostBits) << hostBits;
+  return { version: parsed.version, start, end: start + (1n << hostBits) - 1n };
+}
+
+/* ============================================================================
+   CIDR AGGREGATION
+============================================================================ */
+
+function mergeRanges(ranges: IpRange[]): IpRange[] {
+  const sorted = [...ranges].sort((a, b) => a.version - b.version || (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  const merged: IpRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.version === range.version && range.start <= last.end + 1n) {
+      if (range.end > last.end) last.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+function subtractRanges(ranges: IpRange[], remove: IpRange[]): IpRange[] {
+  let result = mergeRanges(ranges);
+  for (const cut of mergeRanges(remove)) {
+    result = result.flatMap(range => {
+      if (range.version !== cut.version || cut.end < range.start || cut.start > range.end) return [range];
+      const pieces: IpRange[] = [];
+      if (cut.start > range.start) pieces.push({ version: range.version, start: range.start, end: cut.start - 1n });
+      if (cut.end < range.end) pieces.push({ version: range.version, start: cut.end + 1n, end: range.end });
+      return pieces;
+    });
+  }
+  return result;
+}
+
+// Largest aligned blocks that exactly cover the range
+function rangeToCidrs(range: IpRange): string[] {
+  const width = BITS[range.version];
+  const cidrs: string[] = [];
+  let start = range.start;
+  while (start <= range.end) {
+    let hostBits = 0;
+    while (
+      hostBits < width
+      && (start & ((1n << BigInt(hostBits + 1)) - 1n)) === 0n
+      && start + (1n << BigInt(hostBits + 1)) - 1n <= range.end
+    ) {
+      hostBits++;
+    }
+    const prefix = width - hostBits;
+    cidrs.push(prefix === width ? formatAddress(range.version, start) : `${formatAddress(range.version, start)}/${prefix}`);
+    start += 1n << BigInt(hostBits);
+  }
+  return cidrs;
+}
+
+function countAddresses(ranges: IpRange[]): bigint {
+  return ranges.reduce((sum, r) => sum + (r.end - r.start + 1n), 0n);
+}
+
+/**
+ * Collapse IPs, CIDRs and ranges into the smallest equivalent CIDR list
+ */
+export function aggregateCidrs(entries: string[]): string[] {
+  const ranges = entries.map(parseRange).filter((r): r is IpRange => r !== null);
+  return mergeRanges(ranges).flatMap(rangeToCidrs);
+}
+
+/**
+ * Remove allowlisted addresses from a list of IPs/CIDRs, splitting blocks as needed
+ */
+export function subtractCidrs(entries: string[], allowlist: string[]): string[] {
+  const ranges = entries.map(parseRange).filter((r): r is IpRange => r !== null);
+  const remove = allowlist.map(parseRange).filter((r): r is IpRange => r !== null);
+  return subtractRanges(ranges, remove).flatMap(rangeToCidrs);
+}
+
+/* ============================================================================
+   DOMAINS
+============================================================================ */
+
+function normalizeDomain(value: string): string | null {
+  let text = value.trim().toLowerCase();
+  text = text.replace(/^[a-z][a-z0-9+.-]*:\/\//, '').replace(/[/?#].*$/, '').replace(/:\d+$/, '');
+  text = text.replace(/^\*\./, '').replace(/\.$/, '').replace(/\[\.\]/g, '.');
+  return HOSTNAME_PATTERN.test(text) ? text : null;
+}
+
+function isSubdomainOf(domain: string, parent: string): boolean {
+  return domain === parent || domain.endsWith(`.${parent}`);
+}
+
+// Suffix-matching resolvers block subdomains already; keep only the topmost blocked names
+function collapseSubdomains(domains: string[]): string[] {
+  const sorted = [...domains].sort((a, b) => a.split('.').length - b.split('.').length);
+  const kept: string[] = [];
+  for (const domain of sorted) {
+    if (!kept.some(parent => isSubdomainOf(domain, parent))) kept.push(domain);
+  }
+  return kept.sort();
+}
+
+/* ============================================================================
+   PREPARATION
+============================================================================ */
+
+/**
+ * Split indicators into aggregated address blocks, domains and URLs,
+ * after removing anything covered by the allowlist
+ */
+export function prepareBlocklist(indicators: IOCIndicator[], options: BlocklistOptions = {}): PreparedBlocklist {
+  const rejected: string[] = [];
+  const ranges: IpRange[] = [];
+  const domains = new Set<string>();
+  const urls = new Set<string>();
+
+  for (const indicator of indicators) {
+    const value = indicator.value?.trim();
+    if (!value) continue;
+
+    if (indicator.type === 'url') {
+      urls.add(value.replace(/^[a-z][a-z0-9+.-]*:\/\//i, ''));
+      continue;
+    }
+    if (indicator.type !== 'ip' && indicator.type !== 'domain') continue;
+
+    // Feeds mislabel addresses as domains and vice versa; classify by value
+    const range = parseRange(value);
+    if (range) {
+      ranges.push(range);
+      continue;
+    }
+    const domain = normalizeDomain(value);
+    if (domain) domains.add(domain);
+    else rejected.push(value);
+  }
+
+  const allowRanges: IpRange[] = [];
+  const allowDomains: string[] = [];
+  for (const entry of options.allowlist || []) {
+    const text = entry.replace(/#.*$/, '').trim();
+    if (!text) continue;
+    const range = parseRange(text);
+    if (range) allowRanges.push(range);
+    else {
+      const domain = normalizeDomain(text);
+      if (domain) allowDomains.push(domain);
+    }
+  }
+  if (options.excludeReserved !== false) {
+    allowRanges.push(...RESERVED_RANGES.map(parseRange).filter((r): r is IpRange => r !== null));
+  }
+
+  const merged = mergeRanges(ranges);
+  const kept = subtractRanges(merged, allowRanges);
+  const removedAddresses = countAddresses(merged) - countAddresses(kept);
+
+  const blockedDomains = [...domains].filter(d => !allowDomains.some(a => isSubdomainOf(d, a)));
+  const passthrough = allowDomains.filter(a => blockedDomains.some(d => a !== d && isSubdomainOf(a, d)));
+
+  const allowedUrls = [...urls].filter(u => {
+    const host = normalizeDomain(u);
+    return !host || !allowDomains.some(a => isSubdomainOf(host, a));
+  });
+
+  return {
+    ipv4: kept.filter(r => r.version === 4).flatMap(rangeToCidrs),
+    ipv6: kept.filter(r => r.version === 6).flatMap(rangeToCidrs),
+    domains: blockedDomains.sort(),
+    urls: allowedUrls.sort(),
+    passthrough: [...new Set(passthrough)].sort(),
+    allowlisted: {
+      ips: Number(removedAddresses > BigInt(Number.MAX_SAFE_INTEGER) ? BigInt(Number.MAX_SAFE_INTEGER) : removedAddresses),
+      domains: domains.size - blockedDomains.length + (urls.size - allowedUrls.length),
+    },
+    rejected,
+  };
+}
+
+/* ============================================================================
+   FORMATTERS
+============================================================================ */
+
+const identifier = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'osint';
+
+const ruleText = (text: string) => text.replace(/[;"\\]/g, '');
+
+function header(comment: string, family: string, date: string): string[] {
+  return [`${comment} ${family.replace(/\s+/g, ' ')} blocklist generated by OSINT Hub on ${date}`];
+}
+
+function sidFor(seed: string, used: Set<number>): number {
+  let sid = SID_BASE + (fnv1a(seed) % SID_SPAN);
+  while (used.has(sid)) sid++;
+  used.add(sid);
+  return sid;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+// RPZ IP triggers are the prefix length followed by the address in reverse order
+function rpzIpTrigger(cidr: string): string {
+  const range = parseRange(cidr)!;
+  const prefix = cidr.includes('/') ? cidr.split('/')[1] : String(BITS[range.version]);
+  if (range.version === 4) return `${prefix}.${formatAddress(4, range.start).split('.').reverse().join('.')}.rpz-ip`;
+  const groups = Array.from({ length: 8 }, (_, i) => ((range.start >> BigInt(112 - i * 16)) & 0xffffn).toString(16));
+  return `${prefix}.${groups.reverse().join('.')}.rpz-ip`;
+}
+
+// DNS wire format for Snort content matches: |len|label...|00|
+function dnsWireContent(domain: string): string {
+  return domain.split('.').map(label => `|${label.length.toString(16).padStart(2, '0')}|${label}`).join('') + '|00|';
+}
+
+export function formatDnsmasq(family: string, list: PreparedBlocklist, sinkhole = '0.0.0.0'): string {
+  const date = new Date().toISOString();
+  return [
+    ...header('#', family, date),
+    ...collapseSubdomains(list.domains).flatMap(d => [`address=/${d}/${sinkhole}`, `address=/${d}/::`]),
+    ...list.passthrough.map(d => `server=/${d}/#`),
+  ].join('\n') + '\n';
+}
+
+export function formatBindRpz(family: string, list: PreparedBlocklist, serial = Math.floor(Date.now() / 1000)): string {
+  const date = new Date().toISOString();
+  return [
+    ...header(';', family, date),
+    '$TTL 300',
+    `@ IN SOA localhost. hostmaster.localhost. ( ${serial} 3600 600 604800 300 )`,
+    '  IN NS localhost.',
+    '',
+    '; Domains (NXDOMAIN, including subdomains)',
+    ...collapseSubdomains(list.domains).flatMap(d => [`${d} CNAME .`, `*.${d} CNAME .`]),
+    ...(list.passthrough.length > 0 ? ['', '; Allowlisted subdomains', ...list.passthrough.flatMap(d => [`${d} CNAME rpz-passthru.`, `*.${d} CNAME rpz-passthru.`])] : []),
+    '',
+    '; Answers resolving into these networks',
+    ...[...list.ipv4, ...list.ipv6].map(cidr => `${rpzIpTrigger(cidr)} CNAME .`),
+  ].join('\n') + '\n';
+}
+
+export function formatUnbound(family: string, list: PreparedBlocklist): string {
+  const date = new Date().toISOString();
+  return [
+    ...header('#', family, date),
+    'server:',
+    ...collapseSubdomains(list.domains).map(d => `    local-zone: "${d}." always_nxdomain`),
+    ...list.passthrough.map(d => `    local-zone: "${d}." transparent`),
+  ].join('\n') + '\n';
+}
+
+export function formatSuricata(family: string, list: PreparedBlocklist): string {
+  const date = new Date().toISOString();
+  const used = new Set<number>();
+  const name = ruleText(family);
+  const created = date.slice(0, 10).replace(/-/g, '_');
+  return [
+    ...header('#', family, date),
+    ...chunk([...list.ipv4, ...list.ipv6], IPS_PER_RULE).map((group, i) =>
+      `alert ip $HOME_NET any -> [${group.join(',')}] any (msg:"OSINT ${name} known infrastructure group ${i + 1}"; classtype:trojan-activity; sid:${sidFor(`suricata-ip-${family}-${i}`, used)}; rev:1; metadata:created_at ${created};)`),
+    ...collapseSubdomains(list.domains).map(d =>
+      `alert dns $HOME_NET any -> any any (msg:"OSINT ${name} DNS lookup ${d}"; dns.query; dotprefix; content:".${d}"; nocase; endswith; classtype:trojan-activity; sid:${sidFor(`suricata-dns-${d}`, used)}; rev:1; metadata:created_at ${created};)`),
+  ].join('\n') + '\n';
+}
+
+export function formatSuricataIprep(family: string, list: PreparedBlocklist): string {
+  const date = new Date().toISOString();
+  const category = `OSINT_${identifier(family)}`.slice(0, 32);
+  return [
+    ...header('#', family, date),
+    `# categories.txt: 1,${category},${ruleText(family)} infrastructure`,
+    `# rule: alert ip $HOME_NET any -> any any (msg:"OSINT ${ruleText(family)} reputation"; iprep:dst,${category},>,50; sid:${SID_BASE - 1}; rev:1;)`,
+    ...[...list.ipv4, ...list.ipv6].map(cidr => `${cidr},1,100`),
+  ].join('\n') + '\n';
+}
+
+export function formatSnort(family: string, list: PreparedBlocklist): string {
+  const date = new Date().toISOString();
+  const used = new Set<number>();
+  const name = ruleText(family);
+  return [
+    ...header('#', family, date),
+    ...chunk([...list.ipv4, ...list.ipv6], IPS_PER_RULE).map((group, i) =>
+      `alert ip $HOME_NET any -> [${group.join(',')}] any (msg:"OSINT ${name} known infrastructure group ${i + 1}"; classtype:trojan-activity; sid:${sidFor(`snort-ip-${family}-${i}`, used)}; rev:1;)`),
+    ...collapseSubdomains(list.domains).map(d =>
+      `alert udp $HOME_NET any -> any 53 (msg:"OSINT ${name} DNS lookup ${d}"; content:"${dnsWireContent(d)}"; nocase; fast_pattern; classtype:trojan-activity; sid:${sidFor(`snort-dns-${d}`, used)}; rev:1;)`),
+  ].join('\n') + '\n';
+}
+
+export function formatNftables(family: string, list: PreparedBlocklist): string {
+  const date = new Date().toISOString();
+  const table = `osint_${identifier(family)}`;
+  const set = (name: string, type: string, elements: string[]) => [
+    `\tset ${name} {`,
+    `\t\ttype ${type}`,
+    '\t\tflags interval',
+    '\t\tauto-merge',
+    ...(elements.length > 0 ? [`\t\telements = { ${elements.join(', ')} }`] : []),
+    '\t}',
+  ];
+  const drops = ['\t\tip daddr @blocked_v4 counter drop', '\t\tip6 daddr @blocked_v6 counter drop'];
+  return [
+    ...header('#', family, date),
+    `# Load with: nft -f ${table}.nft (replaces the table atomically)`,
+    `table inet ${table}`,
+    `delete table inet ${table}`,
+    `table inet ${table} {`,
+    ...set('blocked_v4', 'ipv4_addr', list.ipv4),
+    ...set('blocked_v6', 'ipv6_addr', list.ipv6),
+    '\tchain forward {',
+    '\t\ttype filter hook forward priority filter; policy accept;',
+    ...drops,
+    '\t}',
+    '\tchain output {',
+    '\t\ttype filter hook output priority filter; policy accept;',
+    ...drops,
+    '\t}',
+    '}',
+  ].join('\n') + '\n';
+}
+
+export function formatIpset(family: string, list: PreparedBlocklist): string {
+  const date = new Date().toISOString();
+  const name = `osint_${identifier(family)}`.slice(0, 28);
+  const sets = [
+    { set: `${name}_v4`, family: 'inet', entries: list.ipv4 },
+    { set: `${name}_v6`, family: 'inet6', entries: list.ipv6 },
+  ].filter(s => s.entries.length > 0);
+  return [
+    ...header('#', family, date),
+    '# Load with: ipset restore -exist < file, then for each set:',
+    ...sets.map(s => `#   ${s.family === 'inet' ? 'iptables' : 'ip6tables'} -I FORWARD -m set --match-set ${s.set} dst -j DROP`),
+    ...sets.flatMap(s => [
+      `create ${s.set} hash:net family ${s.family} -exist`,
+      `flush ${s.set}`,
+      ...s.entries.map(e => `add ${s.set} ${e} -exist`),
+    ]),
+  ].join('\n') + '\n';
+}
+
+/* ============================================================================
+   BLOCKLIST GENERATION
+============================================================================ */
+
+/**
+ * Build every blocklist format for a family. Plain, hosts and pfSense lists
+ * are always present; the rest only when they would have entries.
+ */
+export function buildNetworkBlocklists(
+  family: string,
+  indicators: IOCIndicator[],
+  options: BlocklistOptions = {}
+): NetworkBlocklist[] {
+  const list = prepareBlocklist(indicators, options);
+  const slug = family.toLowerCase();
+  const generated = new Date().toISOString();
+  const ips = [...list.ipv4, ...list.ipv6];
+  const dnsDomains = collapseSubdomains(list.domains);
+  const allowlisted = list.allowlisted.ips + list.allowlisted.domains;
+  if (list.rejected.length > 0) {
+    console.warn(`[Blocklist] Skipped ${list.rejected.length} invalid network indicators:`, list.rejected.slice(0, 10));
+  }
+
+  const make = (
+    suffix: string,
+    name: string,
+    description: string,
+    format: NetworkBlocklist['format'],
+    entries: string[],
+    counts: { ips: number; domains: number },
+    content?: string
+  ): NetworkBlocklist => ({
+    id: `blocklist-${slug}-${suffix}`,
+    name: `${family} ${name}`,
+    description,
+    format,
+    entries,
+    content: content ?? entries.join('\n') + '\n',
+    generated,
+    stats: { ...counts, total: counts.ips + counts.domains, allowlisted },
+  });
+
+  const blocklists: NetworkBlocklist[] = [
+    make('plain', 'Network Blocklist (Plain)', 'One entry per line, suitable for most firewalls', 'plain',
+      [...ips, ...list.domains], { ips: ips.length, domains: list.domains.length }),
+    make('hosts', 'Hosts File Blocklist', 'Hosts file format (0.0.0.0 domain)', 'hosts',
+      list.domains.map(d => `${options.sinkhole || '0.0.0.0'} ${d}`), { ips: 0, domains: list.domains.length }),
+    make('pfsense', 'pfSense Alias', 'pfSense firewall alias format (aggregated CIDRs)', 'pfsense',
+      ips, { ips: ips.length, domains: 0 }),
+  ];
+
+  if (dnsDomains.length > 0) {
+    blocklists.push(
+      make('dnsmasq', 'dnsmasq Blocklist', 'dnsmasq address= sinkhole entries (covers subdomains)', 'dnsmasq',
+        dnsDomains, { ips: 0, domains: dnsDomains.length }, formatDnsmasq(family, list, options.sinkhole)),
+      make('unbound', 'Unbound Local Zones', 'Unbound local-zone always_nxdomain entries', 'unbound',
+        dnsDomains, { ips: 0, domains: dnsDomains.length }, formatUnbound(family, list)),
+    );
+  }
+  if (dnsDomains.length > 0 || ips.length > 0) {
+    blocklists.push(
+      make('rpz', 'BIND Response Policy Zone', 'RPZ zone file with SOA serial, QNAME and rpz-ip triggers', 'bind',
+        [...dnsDomains, ...ips], { ips: ips.length, domains: dnsDomains.length }, formatBindRpz(family, list, options.serial)),
+      make('suricata', 'Suricata Rules', 'Suricata IP and dns.query rules', 'suricata',
+        [...ips, ...dnsDomains], { ips: ips.length, domains: dnsDomains.length }, formatSuricata(family, list)),
+      make('snort', 'Snort Rules', 'Snort IP and DNS query rules', 'snort',
+        [...ips, ...dnsDomains], { ips: ips.length, domains: dnsDomains.length }, formatSnort(family, list)),
+    );
+  }
+  if (ips.length > 0) {
+    blocklists.push(
+      make('iprep', 'Suricata IP Reputation', 'Suricata iprep list with category and rule template', 'suricata_iprep',
+        ips, { ips: ips.length, domains: 0 }, formatSuricataIprep(family, list)),
+      make('nftables', 'nftables Sets', 'nftables table with interval sets and drop chains', 'nftables',
+        ips, { ips: ips.length, domains: 0 }, formatNftables(family, list)),
+      make('ipset', 'iptables ipset', 'ipset restore file for iptables/ip6tables match-set rules', 'iptables',
+        ips, { ips: ips.length, domains: 0 }, formatIpset(family, list)),
+      make('edl-ip', 'Palo Alto EDL (IP)', 'PAN-OS external dynamic list of IP addresses', 'paloalto_edl',
+        ips, { ips: ips.length, domains: 0 }),
+    );
+  }
+  if (list.domains.length > 0) {
+    const entries = collapseSubdomains(list.domains).flatMap(d => [d, `*.${d}`]);
+    blocklists.push(make('edl-domain', 'Palo Alto EDL (Domain)', 'PAN-OS external dynamic list of domains', 'paloalto_edl',
+      entries, { ips: 0, domains: dnsDomains.length }));
+  }
+  if (list.urls.length > 0) {
+    blocklists.push(make('edl-url', 'Palo Alto EDL (URL)', 'PAN-OS external dynamic list of URLs', 'paloalto_edl',
+      list.urls, { ips: 0, domains: list.urls.length }));
+  }
+
+  return blocklists;
+}
+
+/**
+ * Download a blocklist's push-ready content
+ */
+export function downloadBlocklist(blocklist: NetworkBlocklist): void {
+  const blob = new Blob([blocklist.content ?? blocklist.entries.join('\n') + '\n'], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${blocklist.id}.${FILE_EXTENSIONS[blocklist.format]}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -3,7 +3,7 @@
 // UNIFIED OSINT INTEGRATION SERVICE FOR PHOENIX CHATBOT
 // ============================================================================
 // Routes queries to appropriate OSINT modules based on entity type
-// Integrates: IP, Domain, Hash, CVE, Email, Username, Bitcoin, and more
+// Integrates: IP, Domain, Hash, CVE, Email, Username, Bitcoin, Ethereum, TRON, Litecoin, and more
 // ============================================================================
 
 import { detectEntityType, EntityType, DetectedEntity, getEntityLabel } from './entityDetectionService';
@@ -13,6 +13,7 @@ import { searchCertificates, getSubdomainsFromCerts } from './certService';
 import { searchCVE, getCISAKEV } from './cveService';
 import { malwareBazaarService } from './malwareBazaarService';
 import { investigateAddress, getAddressInfo, BitcoinAddress, CryptoInvestigationResult } from './bitcoinInvestigationService';
+import { CHAIN_INFO, explorerUrl, investigateCryptoAddress, type CryptoChain } from './cryptoChainService';
 import { supabase } from '@/integrations/supabase/client';
 
 // ============================================================================
@@ -114,7 +115,9 @@ export async function processOSINTQuery(query: PhoenixQuery): Promise<OSINTResul
         break;
         
       case 'ethereum':
-        await handleEthereumQuery(entity.normalized, result);
+      case 'tron':
+      case 'litecoin':
+        await handleCryptoQuery(entity.normalized, entity.type, result);
         break;
         
       default:
@@ -440,22 +443,47 @@ async function handleBitcoinQuery(
   }
 }
 
-async function handleEthereumQuery(address: string, result: OSINTResult): Promise<void> {
-  result.modulesUsed.push('Ethereum Analysis');
+async function handleCryptoQuery(
+  address: string,
+  chain: Exclude<CryptoChain, 'bitcoin'>,
+  result: OSINTResult
+): Promise<void> {
+  const { name, asset } = CHAIN_INFO[chain];
+  result.modulesUsed.push(`${name} Investigation`, 'Blockchain Analysis', 'Threat Intel');
   
-  // Placeholder for Ethereum investigation
-  // Would use Etherscan API or similar
-  result.results.primary = {
-    address,
-    network: 'Ethereum',
-    note: 'Ethereum investigation module - use Etherscan for detailed analysis',
-  };
+  const investigation = await investigateCryptoAddress(address, chain);
   
-  result.summary = `Ethereum address ${address} detected. Use Etherscan for detailed analysis.`;
-  result.recommendations.push('Check Etherscan for transaction history');
-  result.recommendations.push('Verify contract interactions if applicable');
+  if (!investigation) {
+    result.summary = `${name} address ${address} not found or has no on-chain activity.`;
+    result.recommendations.push(`Check ${explorerUrl(chain, 'address', address)} manually`);
+    result.riskLevel = 'info';
+    return;
+  }
   
-  result.riskLevel = 'info';
+  result.results.primary = investigation;
+  
+  const addr = investigation.address;
+  result.summary = `${name} address ${address}: `;
+  result.summary += `Balance: ${addr.balance.toFixed(4)} ${asset}`;
+  if (addr.tokenBalances?.length) {
+    result.summary += ` + ${addr.tokenBalances.slice(0, 3).map(t => `${t.balance.toFixed(2)} ${t.symbol}`).join(', ')}`;
+  }
+  result.summary += ` ($${addr.balanceUSD.toFixed(2)}). `;
+  result.summary += `Transactions: ${addr.txCount}. Counterparties: ${investigation.counterparties.length}. `;
+  result.summary += `Risk Score: ${addr.riskScore}/100. `;
+  
+  if (investigation.relatedThreats.sanctionedEntity) {
+    result.summary += '⚠️ SANCTIONED ADDRESS. ';
+  }
+  if (investigation.relatedThreats.knownScam) {
+    result.summary += '⚠️ KNOWN SCAM ADDRESS. ';
+  }
+  if (investigation.relatedThreats.ransomwareConnection) {
+    result.summary += '⚠️ RANSOMWARE CONNECTION DETECTED. ';
+  }
+  
+  result.riskLevel = investigation.riskAssessment.level;
+  result.recommendations = investigation.riskAssessment.recommendations;
 }
 
 async function handleGeneralQuery(query: string, result: OSINTResult): Promise<void> {
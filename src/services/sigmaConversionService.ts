@@ -0,0 +1,1005 @@
+// ============================================================================
+// SIGMA CONVERSION SERVICE
+// ============================================================================
+// Translates Sigma detection logic into SIEM queries: Splunk SPL, Elastic
+// KQL / EQL / Query DSL and Microsoft Sentinel KQL, using field-mapping
+// profiles for Sysmon, Windows Security, Zeek and proxy logs
+// ============================================================================
+
+import type { SigmaRule } from '@/services/detectionEngineService';
+import {
+  expandConditionTarget,
+  parseSigmaCondition,
+  sigmaValuePatterns,
+  splitSigmaAggregation,
+  type SigmaConditionNode,
+} from '@/services/sigmaRuleService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export type SigmaBackend = 'splunk' | 'elastic_kql' | 'elastic_eql' | 'elastic_dsl' | 'sentinel';
+
+export type SigmaProfileId = 'sysmon' | 'windows_security' | 'zeek' | 'proxy';
+
+type MappingTarget = 'splunk' | 'elastic' | 'sentinel';
+
+type FilterValue = string | number | (string | number)[];
+
+export interface ProfileSource {
+  splunk: string; // Base search
+  elastic: string; // Index pattern
+  eqlCategory: string;
+  sentinel: string; // Table or ASIM parser
+  filter?: Record<string, FilterValue>; // Native field names, ANDed with the rule
+  aliases?: Record<string, string>; // Generic Sigma field -> native field for this source
+}
+
+export interface FieldMappingProfile {
+  id: SigmaProfileId;
+  name: string;
+  description: string;
+  sources: Record<string, ProfileSource>; // Keyed by logsource category or service; '*' is the fallback
+  fields: Record<MappingTarget, Record<string, string>>;
+  // Prefix for fields the profile does not list; without one they pass through with a warning
+  fallbackPrefix: Partial<Record<MappingTarget, string>>;
+}
+
+export interface SigmaConvertible {
+  title?: string;
+  id?: string;
+  logsource?: SigmaRule['logsource'] | Record<string, string | undefined>;
+  detection?: Record<string, unknown>;
+}
+
+export interface SigmaConversionResult {
+  backend: SigmaBackend;
+  profile: SigmaProfileId;
+  source: string; // Splunk base search, Elastic index pattern or Sentinel table
+  query: string; // Empty when the rule cannot be expressed in the backend
+  warnings: string[];
+  errors: string[];
+}
+
+type QueryNode =
+  | { type: 'and' | 'or'; items: QueryNode[] }
+  | { type: 'not'; arg: QueryNode }
+  | { type: 'match'; field: string; pattern: string; caseSensitive: boolean; numeric: boolean }
+  | { type: 're'; field: string; regex: string; flags: string }
+  | { type: 'cidr'; field: string; cidr: string }
+  | { type: 'compare'; field: string; op: 'lt' | 'lte' | 'gt' | 'gte'; value: number }
+  | { type: 'exists'; field: string; exists: boolean }
+  | { type: 'null'; field: string }
+  | { type: 'keyword'; pattern: string };
+
+// A Sigma wildcard pattern split into literal text and wildcards
+type PatternToken = { text: string } | '*' | '?';
+
+type PatternShape =
+  | { kind: 'exact' | 'contains' | 'startswith' | 'endswith'; text: string }
+  | { kind: 'any' }
+  | { kind: 'wildcard' };
+
+interface ConversionContext {
+  warnings: Set<string>;
+  errors: Set<string>;
+}
+
+/* ============================================================================
+   BACKENDS AND PROFILES
+============================================================================ */
+
+export const SIGMA_BACKENDS: { id: SigmaBackend; name: string; extension: string }[] = [
+  { id: 'splunk', name: 'Splunk SPL', extension: 'spl' },
+  { id: 'elastic_kql', name: 'Elastic KQL', extension: 'kql' },
+  { id: 'elastic_eql', name: 'Elastic EQL', extension: 'eql' },
+  { id: 'elastic_dsl', name: 'Elasticsearch Query DSL', extension: 'json' },
+  { id: 'sentinel', name: 'Microsoft Sentinel KQL', extension: 'kql' },
+];
+
+const SYSMON_SPLUNK = 'index=windows source="XmlWinEventLog:Microsoft-Windows-Sysmon/Operational"';
+const SYSMON_ELASTIC = 'logs-windows.sysmon_operational-*';
+
+const sysmonSource = (eventIds: number | number[], eqlCategory: string): ProfileSource => ({
+  splunk: SYSMON_SPLUNK,
+  elastic: SYSMON_ELASTIC,
+  eqlCategory,
+  sentinel: 'Sysmon',
+  filter: { EventID: eventIds },
+});
+
+const zeekSource = (log: string, eqlCategory: string, sentinel: string, aliases: Record<string, string>): ProfileSource => ({
+  splunk: `index=zeek sourcetype="bro:${log}:json"`,
+  elastic: `logs-zeek.${log}-*`,
+  eqlCategory,
+  sentinel,
+  aliases,
+});
+
+// Proxy and web server logs share one web-session source
+const WEB_SESSION_SOURCE: ProfileSource = {
+  splunk: 'tag=web',
+  elastic: 'logs-*',
+  eqlCategory: 'network',
+  sentinel: '_Im_WebSession',
+  aliases: { DestinationHostname: 'cs-host', DestinationIp: 'dst-ip' },
+};
+
+export const FIELD_MAPPING_PROFILES: FieldMappingProfile[] = [
+  {
+    id: 'sysmon',
+    name: 'Sysmon',
+    description: 'Microsoft Sysmon events (Splunk TA XML, Elastic Windows integration, Sentinel Sysmon parser)',
+    sources: {
+      process_creation: sysmonSource(1, 'process'),
+      network_connection: sysmonSource(3, 'network'),
+      driver_load: sysmonSource(6, 'driver'),
+      image_load: sysmonSource(7, 'library'),
+      create_remote_thread: sysmonSource(8, 'process'),
+      process_access: sysmonSource(10, 'process'),
+      file_event: sysmonSource(11, 'file'),
+      registry_add: sysmonSource(12, 'registry'),
+      registry_delete: sysmonSource(12, 'registry'),
+      registry_set: sysmonSource(13, 'registry'),
+      registry_event: sysmonSource([12, 13, 14], 'registry'),
+      pipe_created: sysmonSource([17, 18], 'file'),
+      dns_query: sysmonSource(22, 'network'),
+      file_delete: sysmonSource([23, 26], 'file'),
+      '*': { splunk: SYSMON_SPLUNK, elastic: SYSMON_ELASTIC, eqlCategory: 'any', sentinel: 'Sysmon' },
+    },
+    fields: {
+      splunk: { EventID: 'EventCode' },
+      elastic: {
+        EventID: 'event.code',
+        Image: 'process.executable',
+        CommandLine: 'process.command_line',
+        ParentImage: 'process.parent.executable',
+        ParentCommandLine: 'process.parent.command_line',
+        OriginalFileName: 'process.pe.original_file_name',
+        CurrentDirectory: 'process.working_directory',
+        ProcessId: 'process.pid',
+        ParentProcessId: 'process.parent.pid',
+        User: 'user.name',
+        Company: 'process.pe.company',
+        Description: 'process.pe.description',
+        Product: 'process.pe.product',
+        Computer: 'host.name',
+        DestinationIp: 'destination.ip',
+        DestinationPort: 'destination.port',
+        DestinationHostname: 'destination.domain',
+        SourceIp: 'source.ip',
+        SourcePort: 'source.port',
+        QueryName: 'dns.question.name',
+        TargetFilename: 'file.path',
+        TargetObject: 'registry.path',
+        Details: 'registry.data.strings',
+        ImageLoaded: 'dll.path',
+        SourceImage: 'process.executable',
+        PipeName: 'file.name',
+      },
+      sentinel: {},
+    },
+    fallbackPrefix: { splunk: '', elastic: 'winlog.event_data.', sentinel: '' },
+  },
+  {
+    id: 'windows_security',
+    name: 'Windows Security',
+    description: 'Windows Security event log (4688 process creation, logons, services)',
+    sources: {
+      process_creation: {
+        splunk: 'index=windows source="XmlWinEventLog:Security"',
+        elastic: 'logs-system.security-*',
+        eqlCategory: 'process',
+        sentinel: 'SecurityEvent',
+        filter: { EventID: 4688 },
+        aliases: { Image: 'NewProcessName', ParentImage: 'ParentProcessName', User: 'SubjectUserName' },
+      },
+      '*': {
+        splunk: 'index=windows source="XmlWinEventLog:Security"',
+        elastic: 'logs-system.security-*',
+        eqlCategory: 'any',
+        sentinel: 'SecurityEvent',
+      },
+    },
+    fields: {
+      splunk: { EventID: 'EventCode' },
+      elastic: {
+        EventID: 'event.code',
+        NewProcessName: 'process.executable',
+        CommandLine: 'process.command_line',
+        ParentProcessName: 'process.parent.executable',
+        SubjectUserName: 'user.name',
+        TargetUserName: 'winlog.event_data.TargetUserName',
+        IpAddress: 'source.ip',
+        IpPort: 'source.port',
+        WorkstationName: 'source.domain',
+        LogonType: 'winlog.logon.type',
+        Computer: 'host.name',
+      },
+      sentinel: { SubjectUserName: 'SubjectUserName', Computer: 'Computer' },
+    },
+    fallbackPrefix: { splunk: '', elastic: 'winlog.event_data.', sentinel: '' },
+  },
+  {
+    id: 'zeek',
+    name: 'Zeek',
+    description: 'Zeek conn/dns/http/ssl logs (Corelight TA, Elastic Zeek integration, Sentinel ASIM)',
+    sources: {
+      conn: zeekSource('conn', 'network', '_Im_NetworkSession', {}),
+      network_connection: zeekSource('conn', 'network', '_Im_NetworkSession', {
+        DestinationIp: 'id.resp_h', DestinationPort: 'id.resp_p', SourceIp: 'id.orig_h', SourcePort: 'id.orig_p',
+      }),
+      dns: zeekSource('dns', 'network', '_Im_Dns', { QueryName: 'query', DestinationHostname: 'query' }),
+      dns_query: zeekSource('dns', 'network', '_Im_Dns', { QueryName: 'query', DestinationHostname: 'query' }),
+      http: zeekSource('http', 'network', '_Im_WebSession', {}),
+      proxy: zeekSource('http', 'network', '_Im_WebSession', {
+        'c-uri': 'uri', 'c-useragent': 'user_agent', 'cs-host': 'host', 'cs-method': 'method',
+        'cs-referrer': 'referrer', 'sc-status': 'status_code', 'c-ip': 'id.orig_h', DestinationHostname: 'host',
+      }),
+      ssl: zeekSource('ssl', 'network', '_Im_NetworkSession', { DestinationHostname: 'server_name' }),
+      '*': zeekSource('conn', 'network', '_Im_NetworkSession', {}),
+    },
+    fields: {
+      splunk: {},
+      elastic: {
+        'id.orig_h': 'source.ip',
+        'id.orig_p': 'source.port',
+        'id.resp_h': 'destination.ip',
+        'id.resp_p': 'destination.port',
+        proto: 'network.transport',
+        query: 'dns.question.name',
+        qtype_name: 'dns.question.type',
+        host: 'url.domain',
+        uri: 'url.original',
+        user_agent: 'user_agent.original',
+        method: 'http.request.method',
+        referrer: 'http.request.referrer',
+        status_code: 'http.response.status_code',
+        server_name: 'tls.client.server_name',
+      },
+      sentinel: {
+        'id.orig_h': 'SrcIpAddr',
+        'id.orig_p': 'SrcPortNumber',
+        'id.resp_h': 'DstIpAddr',
+        'id.resp_p': 'DstPortNumber',
+        proto: 'NetworkProtocol',
+        query: 'DnsQuery',
+        qtype_name: 'DnsQueryTypeName',
+        host: 'DstHostname',
+        uri: 'Url',
+        user_agent: 'HttpUserAgent',
+        method: 'HttpRequestMethod',
+        referrer: 'HttpReferrer',
+        status_code: 'HttpStatusCode',
+        server_name: 'DstHostname',
+      },
+    },
+    fallbackPrefix: { splunk: '' },
+  },
+  {
+    id: 'proxy',
+    name: 'Web proxy',
+    description: 'Proxy logs in W3C/Sigma proxy fields (Splunk CIM Web, Elastic ECS, Sentinel ASIM WebSession)',
+    sources: {
+      proxy: WEB_SESSION_SOURCE,
+      webserver: WEB_SESSION_SOURCE,
+      '*': WEB_SESSION_SOURCE,
+    },
+    fields: {
+      splunk: {
+        'c-uri': 'url',
+        'c-uri-query': 'uri_query',
+        'c-uri-extension': 'url',
+        'c-useragent': 'http_user_agent',
+        'cs-host': 'dest',
+        'cs-method': 'http_method',
+        'cs-referrer': 'http_referrer',
+        'cs-cookie': 'cookie',
+        'r-dns': 'dest',
+        'sc-status': 'status',
+        'c-ip': 'src',
+        'dst-ip': 'dest_ip',
+      },
+      elastic: {
+        'c-uri': 'url.original',
+        'c-uri-query': 'url.query',
+        'c-uri-extension': 'url.extension',
+        'c-useragent': 'user_agent.original',
+        'cs-host': 'url.domain',
+        'cs-method': 'http.request.method',
+        'cs-referrer': 'http.request.referrer',
+        'r-dns': 'destination.domain',
+        'sc-status': 'http.response.status_code',
+        'c-ip': 'source.ip',
+        'dst-ip': 'destination.ip',
+      },
+      sentinel: {
+        'c-uri': 'Url',
+        'c-uri-query': 'Url',
+        'c-uri-extension': 'Url',
+        'c-useragent': 'HttpUserAgent',
+        'cs-host': 'DstHostname',
+        'cs-method': 'HttpRequestMethod',
+        'cs-referrer': 'HttpReferrer',
+        'r-dns': 'DstHostname',
+        'sc-status': 'HttpStatusCode',
+        'c-ip': 'SrcIpAddr',
+        'dst-ip': 'DstIpAddr',
+      },
+    },
+    fallbackPrefix: {},
+  },
+];
+
+const MAX_OF_COMBINATIONS = 64;
+
+/* ============================================================================
+   PROFILE RESOLUTION
+============================================================================ */
+
+/**
+ * Pick the field-mapping profile that fits a rule's logsource
+ */
+export function resolveSigmaProfile(logsource: SigmaConvertible['logsource'] = {}): FieldMappingProfile {
+  const { product, category, service } = logsource as Record<string, string | undefined>;
+  const byId = (id: SigmaProfileId) => FIELD_MAPPING_PROFILES.find(p => p.id === id)!;
+
+  if (product === 'zeek') return byId('zeek');
+  if (category === 'proxy' || category === 'webserver') return byId('proxy');
+  if (service === 'security') return byId('windows_security');
+  return byId('sysmon');
+}
+
+function resolveSource(profile: FieldMappingProfile, logsource: SigmaConvertible['logsource'], ctx: ConversionContext): ProfileSource {
+  const { category, service } = (logsource || {}) as Record<string, string | undefined>;
+  const source = (category && profile.sources[category]) || (service && profile.sources[service]);
+  if (source) return source;
+  if (category || service) {
+    ctx.warnings.add(`${profile.name} profile has no source for logsource '${category || service}'; searching all ${profile.name} events`);
+  }
+  return profile.sources['*'];
+}
+
+function mappingTarget(backend: SigmaBackend): MappingTarget {
+  return backend === 'splunk' ? 'splunk' : backend === 'sentinel' ? 'sentinel' : 'elastic';
+}
+
+function mapField(
+  field: string,
+  profile: FieldMappingProfile,
+  source: ProfileSource,
+  target: MappingTarget,
+  ctx: ConversionContext
+): string {
+  const native = source.aliases?.[field] ?? field;
+  const mapped = profile.fields[target][native];
+  if (mapped) return mapped;
+  const prefix = profile.fallbackPrefix[target];
+  if (prefix !== undefined) return prefix + native;
+  ctx.warnings.add(`Field '${native}' has no ${target} mapping in the ${profile.name} profile and was kept as-is`);
+  return native;
+}
+
+/* ============================================================================
+   SIGMA -> QUERY TREE
+============================================================================ */
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function combine(type: 'and' | 'or', items: QueryNode[]): QueryNode {
+  const flat = items.flatMap(item => (item.type === type ? item.items : [item]));
+  return flat.length === 1 ? flat[0] : { type, items: flat };
+}
+
+function buildFieldValue(
+  field: string,
+  value: unknown,
+  modifiers: string[],
+  ctx: ConversionContext
+): QueryNode {
+  if (value === null) return { type: 'null', field };
+  if (modifiers.includes('exists')) return { type: 'exists', field, exists: value === true || value === 'true' };
+  if (modifiers.includes('fieldref')) {
+    ctx.errors.add(`'fieldref' modifier on ${field} cannot be expressed as a field filter`);
+    return { type: 'exists', field, exists: true };
+  }
+  if (modifiers.includes('expand')) {
+    ctx.errors.add(`'%placeholder%' expansion on ${field} needs site-specific values`);
+  }
+
+  const compare = (['lt', 'lte', 'gt', 'gte'] as const).find(op => modifiers.includes(op));
+  if (compare) return { type: 'compare', field, op: compare, value: Number(value) };
+
+  if (modifiers.includes('re')) {
+    const flags = ['i', 'm', 's'].filter(f => modifiers.includes(f)).join('');
+    return { type: 're', field, regex: String(value), flags };
+  }
+  if (modifiers.includes('cidr')) return { type: 'cidr', field, cidr: String(value) };
+
+  if (typeof value === 'number' && modifiers.length === 0) {
+    return { type: 'match', field, pattern: String(value), caseSensitive: false, numeric: true };
+  }
+
+  const { patterns, caseSensitive } = sigmaValuePatterns(String(value), modifiers);
+  return combine('or', patterns.map(pattern => ({ type: 'match', field, pattern, caseSensitive, numeric: false })));
+}
+
+function buildFieldMap(map: Record<string, unknown>, fieldFor: (field: string) => string, ctx: ConversionContext): QueryNode {
+  return combine('and', Object.entries(map).map(([key, value]) => {
+    const [field, ...modifiers] = key.split('|');
+    const values = Array.isArray(value) ? value : [value];
+
+    if (!field) {
+      // "|modifier" without a field is a keyword search
+      return combine(modifiers.includes('all') ? 'and' : 'or', values.map(v => ({
+        type: 'keyword',
+        pattern: sigmaValuePatterns(String(v), modifiers.includes('contains') ? modifiers : [...modifiers, 'contains']).patterns[0],
+      }) as QueryNode));
+    }
+
+    const target = fieldFor(field);
+    const nodes = values.map(v => buildFieldValue(target, v, modifiers, ctx));
+    return combine(modifiers.includes('all') ? 'and' : 'or', nodes);
+  }));
+}
+
+function buildSelection(value: unknown, fieldFor: (field: string) => string, ctx: ConversionContext): QueryNode {
+  if (isPlainObject(value)) return buildFieldMap(value, fieldFor, ctx);
+  const items = Array.isArray(value) ? value : [value];
+  if (items.length > 0 && items.every(isPlainObject)) {
+    return combine('or', items.map(item => buildFieldMap(item as Record<string, unknown>, fieldFor, ctx)));
+  }
+  // Keyword lists match anywhere in the event
+  return combine('or', items.map(k => ({ type: 'keyword', pattern: `*${String(k)}*` }) as QueryNode));
+}
+
+function kSubsets<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]];
+  if (items.length < k) return [];
+  const [head, ...rest] = items;
+  return [...kSubsets(rest, k - 1).map(s => [head, ...s]), ...kSubsets(rest, k)];
+}
+
+function buildCondition(
+  node: SigmaConditionNode,
+  selections: Map<string, QueryNode>,
+  ctx: ConversionContext
+): QueryNode {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return combine(node.type, [buildCondition(node.left, selections, ctx), buildCondition(node.right, selections, ctx)]);
+    case 'not':
+      return { type: 'not', arg: buildCondition(node.arg, selections, ctx) };
+    case 'ident': {
+      const selection = selections.get(node.name);
+      if (!selection) ctx.errors.add(`Condition references undefined selection '${node.name}'`);
+      return selection || { type: 'or', items: [] };
+    }
+    case 'of': {
+      const targets = expandConditionTarget(node.target, [...selections.keys()]).map(t => selections.get(t)!);
+      if (targets.length === 0) {
+        ctx.errors.add(`'${node.target}' does not match any selection`);
+        return { type: 'or', items: [] };
+      }
+      if (node.quantifier === 'all') return combine('and', targets);
+      if (node.quantifier === 'any' || node.quantifier <= 1) return combine('or', targets);
+      const subsets = kSubsets(targets, node.quantifier);
+      if (subsets.length > MAX_OF_COMBINATIONS) {
+        ctx.errors.add(`'${node.quantifier} of ${node.target}' expands to too many combinations`);
+      }
+      return combine('or', subsets.slice(0, MAX_OF_COMBINATIONS).map(s => combine('and', s)));
+    }
+  }
+}
+
+function buildQueryTree(
+  rule: SigmaConvertible,
+  profile: FieldMappingProfile,
+  source: ProfileSource,
+  backend: SigmaBackend,
+  ctx: ConversionContext
+): QueryNode {
+  const detection = rule.detection || {};
+  const target = mappingTarget(backend);
+  const fieldFor = (field: string) => mapField(field, profile, source, target, ctx);
+
+  const selections = new Map<string, QueryNode>();
+  for (const [name, value] of Object.entries(detection)) {
+    if (name === 'condition' || name === 'timeframe') continue;
+    selections.set(name, buildSelection(value, fieldFor, ctx));
+  }
+
+  if (detection.timeframe) ctx.warnings.add(`Run the query over the rule timeframe (${detection.timeframe})`);
+
+  const conditions = (Array.isArray(detection.condition) ? detection.condition : [detection.condition])
+    .filter((c: unknown) => c !== undefined && c !== null)
+    .map((c: unknown) => {
+      const [expression, aggregation] = splitSigmaAggregation(String(c));
+      if (aggregation) ctx.errors.add(`Aggregation '${aggregation}' is not converted`);
+      try {
+        return buildCondition(parseSigmaCondition(expression), selections, ctx);
+      } catch (err) {
+        ctx.errors.add(err instanceof Error ? err.message : String(err));
+        return { type: 'or', items: [] } as QueryNode;
+      }
+    });
+  if (conditions.length === 0) ctx.errors.add('Rule has no detection condition');
+
+  const filters = Object.entries(source.filter || {}).map(([field, value]) => {
+    const values = Array.isArray(value) ? value : [value];
+    return combine('or', values.map(v => buildFieldValue(fieldFor(field), v, [], ctx)));
+  });
+
+  return combine('and', [...filters, combine('or', conditions)]);
+}
+
+/* ============================================================================
+   PATTERN HELPERS
+============================================================================ */
+
+function tokenizePattern(pattern: string): PatternToken[] {
+  const tokens: PatternToken[] = [];
+  let text = '';
+  const flush = () => {
+    if (text) tokens.push({ text });
+    text = '';
+  };
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\' && ['*', '?', '\\'].includes(pattern[i + 1])) {
+      text += pattern[++i];
+    } else if (ch === '*' || ch === '?') {
+      flush();
+      tokens.push(ch);
+    } else {
+      text += ch;
+    }
+  }
+  flush();
+  return tokens;
+}
+
+function patternShape(tokens: PatternToken[]): PatternShape {
+  const literal = (t: PatternToken | undefined): t is { text: string } => typeof t === 'object';
+  if (tokens.length === 0) return { kind: 'exact', text: '' };
+  if (tokens.every(t => t === '*')) return { kind: 'any' };
+  if (tokens.length === 1 && literal(tokens[0])) return { kind: 'exact', text: tokens[0].text };
+  if (tokens.length === 2 && literal(tokens[0]) && tokens[1] === '*') return { kind: 'startswith', text: tokens[0].text };
+  if (tokens.length === 2 && tokens[0] === '*' && literal(tokens[1])) return { kind: 'endswith', text: tokens[1].text };
+  if (tokens.length === 3 && tokens[0] === '*' && literal(tokens[1]) && tokens[2] === '*') return { kind: 'contains', text: tokens[1].text };
+  return { kind: 'wildcard' };
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function patternToRegex(tokens: PatternToken[]): string {
+  return tokens.map(t => (t === '*' ? '.*' : t === '?' ? '.' : escapeRegex(t.text))).join('');
+}
+
+// Wildcards stay as-is, escaped literals lose their escapes
+function patternText(tokens: PatternToken[]): string {
+  return tokens.map(t => (typeof t === 'string' ? t : t.text)).join('');
+}
+
+function hasTokenLiteral(tokens: PatternToken[], chars: string): boolean {
+  return tokens.some(t => typeof t === 'object' && [...chars].some(c => t.text.includes(c)));
+}
+
+// Lucene regular expressions (EQL, Query DSL) are anchored and lack PCRE shorthand classes
+function toLuceneRegex(regex: string, ctx: ConversionContext): string {
+  if (/\(\?[=!<]|\\[1-9]/.test(regex)) {
+    ctx.errors.add(`Regex '${regex}' uses lookaround or backreferences, which Lucene regex does not support`);
+  }
+  let body = regex
+    .replace(/\\d/g, '[0-9]')
+    .replace(/\\w/g, '[A-Za-z0-9_]')
+    .replace(/\\s/g, '[ \\t\\r\\n]')
+    .replace(/(^|[^\\])([@&~<>#"])/g, '$1\\$2');
+  body = body.startsWith('^') ? body.slice(1) : `.*${body}`;
+  body = body.endsWith('$') && !body.endsWith('\\$') ? body.slice(0, -1) : `${body}.*`;
+  return body;
+}
+
+function isIpv6Cidr(cidr: string): boolean {
+  return cidr.includes(':');
+}
+
+/* ============================================================================
+   SPLUNK SPL
+============================================================================ */
+
+const splQuote = (text: string) => `"${text.replace(/[\\"]/g, '\\$&')}"`;
+
+function splNeedsEval(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.items.some(splNeedsEval);
+    case 'not':
+      return splNeedsEval(node.arg);
+    case 're':
+      return true;
+    case 'match':
+    case 'keyword': {
+      const tokens = tokenizePattern(node.pattern);
+      return tokens.includes('?') || hasTokenLiteral(tokens, '*') || (node.type === 'match' && node.caseSensitive);
+    }
+    default:
+      return false;
+  }
+}
+
+function splSearch(node: QueryNode): string {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      if (node.items.length === 0) return node.type === 'and' ? '*' : 'NOT *';
+      return `(${node.items.map(splSearch).join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+    case 'not':
+      return `NOT ${splSearch(node.arg)}`;
+    case 'match':
+      return node.numeric ? `${node.field}=${node.pattern}` : `${node.field}=${splQuote(patternText(tokenizePattern(node.pattern)))}`;
+    case 'keyword':
+      return splQuote(patternText(tokenizePattern(node.pattern)));
+    case 'cidr':
+      return `${node.field}=${splQuote(node.cidr)}`;
+    case 'compare':
+      return `${node.field}${{ lt: '<', lte: '<=', gt: '>', gte: '>=' }[node.op]}${node.value}`;
+    case 'exists':
+      return node.exists ? `${node.field}=*` : `NOT ${node.field}=*`;
+    case 'null':
+      return `(NOT ${node.field}=* OR ${node.field}="")`;
+    case 're':
+      return '';
+  }
+}
+
+function splEval(node: QueryNode): string {
+  const field = (name: string) => (/^[A-Za-z_][\w]*$/.test(name) ? name : `'${name}'`);
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      if (node.items.length === 0) return node.type === 'and' ? 'true()' : 'false()';
+      return `(${node.items.map(splEval).join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+    case 'not':
+      return `NOT (${splEval(node.arg)})`;
+    case 'match': {
+      if (node.numeric) return `${field(node.field)}==${node.pattern}`;
+      const tokens = tokenizePattern(node.pattern);
+      const shape = patternShape(tokens);
+      if (shape.kind === 'exact') {
+        return node.caseSensitive
+          ? `${field(node.field)}==${splQuote(shape.text)}`
+          : `lower(${field(node.field)})==${splQuote(shape.text.toLowerCase())}`;
+      }
+      return `match(${field(node.field)}, ${splQuote(`${node.caseSensitive ? '' : '(?i)'}^${patternToRegex(tokens)}$`)})`;
+    }
+    case 'keyword':
+      return `match(_raw, ${splQuote(`(?is)^${patternToRegex(tokenizePattern(node.pattern))}$`)})`;
+    case 're': {
+      const flags = node.flags ? `(?${node.flags})` : '';
+      return `match(${field(node.field)}, ${splQuote(flags + node.regex)})`;
+    }
+    case 'cidr':
+      return `cidrmatch(${splQuote(node.cidr)}, ${field(node.field)})`;
+    case 'compare':
+      return `tonumber(${field(node.field)})${{ lt: '<', lte: '<=', gt: '>', gte: '>=' }[node.op]}${node.value}`;
+    case 'exists':
+      return node.exists ? `isnotnull(${field(node.field)})` : `isnull(${field(node.field)})`;
+    case 'null':
+      return `(isnull(${field(node.field)}) OR ${field(node.field)}=="")`;
+  }
+}
+
+function toSplunk(tree: QueryNode, source: ProfileSource): string {
+  // Regexes, case-sensitive matches and '?' wildcards need eval syntax; everything else stays a plain search
+  if (splNeedsEval(tree)) return `${source.splunk}\n| where ${splEval(tree)}`;
+  return `${source.splunk} ${splSearch(tree)}`;
+}
+
+/* ============================================================================
+   ELASTIC KQL
+============================================================================ */
+
+const kqlQuote = (text: string) => `"${text.replace(/[\\"]/g, '\\$&')}"`;
+
+function kqlValue(pattern: string, ctx: ConversionContext): string {
+  const tokens = tokenizePattern(pattern);
+  const shape = patternShape(tokens);
+  if (shape.kind === 'exact') return kqlQuote(shape.text);
+  if (shape.kind === 'any') return '*';
+  if (tokens.includes('?')) ctx.warnings.add("KQL has no single-character wildcard; '?' was widened to '*'");
+  return tokens
+    .map(t => (t === '*' || t === '?' ? '*' : t.text.replace(/[\\():<>"*{}\s]/g, '\\$&')))
+    .join('');
+}
+
+function toKql(node: QueryNode, ctx: ConversionContext): string {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      if (node.items.length === 0) return node.type === 'and' ? '*' : 'not *';
+      return `(${node.items.map(n => toKql(n, ctx)).join(` ${node.type} `)})`;
+    case 'not':
+      return `not ${toKql(node.arg, ctx)}`;
+    case 'match':
+      if (node.caseSensitive) ctx.warnings.add('KQL matching follows the field mapping; cased modifiers are not enforced');
+      return `${node.field}:${node.numeric ? node.pattern : kqlValue(node.pattern, ctx)}`;
+    case 'keyword':
+      return kqlValue(node.pattern, ctx);
+    case 're':
+      ctx.errors.add('KQL does not support regular expressions; use the EQL or Query DSL conversion');
+      return '';
+    case 'cidr':
+      return `${node.field}:${kqlQuote(node.cidr)}`;
+    case 'compare':
+      return `${node.field} ${{ lt: '<', lte: '<=', gt: '>', gte: '>=' }[node.op]} ${node.value}`;
+    case 'exists':
+      return node.exists ? `${node.field}:*` : `not ${node.field}:*`;
+    case 'null':
+      return `not ${node.field}:*`;
+  }
+}
+
+/* ============================================================================
+   ELASTIC EQL
+============================================================================ */
+
+const eqlQuote = (text: string) => `"${text.replace(/[\\"]/g, '\\$&')}"`;
+
+function toEql(node: QueryNode, ctx: ConversionContext): string {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      if (node.items.length === 0) return node.type === 'and' ? 'true' : 'false';
+      return `(${node.items.map(n => toEql(n, ctx)).join(` ${node.type} `)})`;
+    case 'not':
+      return `not ${toEql(node.arg, ctx)}`;
+    case 'match': {
+      if (node.numeric) return `${node.field} == ${node.pattern}`;
+      const tokens = tokenizePattern(node.pattern);
+      if (hasTokenLiteral(tokens, '*?')) ctx.warnings.add("EQL cannot match a literal '*' or '?'; they are treated as wildcards");
+      const value = eqlQuote(patternText(tokens));
+      const shape = patternShape(tokens);
+      if (node.caseSensitive) return shape.kind === 'exact' ? `${node.field} == ${value}` : `${node.field} like ${value}`;
+      return `${node.field} : ${value}`;
+    }
+    case 'keyword':
+      ctx.errors.add('EQL requires a field for every comparison; keyword searches are not supported');
+      return '';
+    case 're':
+      return `${node.field} ${node.flags.includes('i') ? 'regex~' : 'regex'} ${eqlQuote(toLuceneRegex(node.regex, ctx))}`;
+    case 'cidr':
+      return `cidrMatch(${node.field}, ${eqlQuote(node.cidr)})`;
+    case 'compare':
+      return `${node.field} ${{ lt: '<', lte: '<=', gt: '>', gte: '>=' }[node.op]} ${node.value}`;
+    case 'exists':
+      return node.exists ? `${node.field} != null` : `${node.field} == null`;
+    case 'null':
+      return `${node.field} == null`;
+  }
+}
+
+/* ============================================================================
+   ELASTICSEARCH QUERY DSL
+============================================================================ */
+
+function dslWildcard(tokens: PatternToken[]): string {
+  return tokens.map(t => (typeof t === 'string' ? t : t.text.replace(/[*?\\]/g, '\\$&'))).join('');
+}
+
+function dslKeyword(tokens: PatternToken[]): string {
+  return tokens
+    .map(t => (typeof t === 'string' ? t : t.text.replace(/[+\-=&|><!(){}[\]^"~*?:\\/\s]/g, '\\$&')))
+    .join('');
+}
+
+function toDsl(node: QueryNode, ctx: ConversionContext): Record<string, unknown> {
+  switch (node.type) {
+    case 'and':
+      return { bool: { filter: node.items.map(n => toDsl(n, ctx)) } };
+    case 'or':
+      return { bool: { should: node.items.map(n => toDsl(n, ctx)), minimum_should_match: 1 } };
+    case 'not':
+      return { bool: { must_not: [toDsl(node.arg, ctx)] } };
+    case 'match': {
+      if (node.numeric) return { term: { [node.field]: { value: Number(node.pattern) } } };
+      const tokens = tokenizePattern(node.pattern);
+      const shape = patternShape(tokens);
+      if (shape.kind === 'any') return { exists: { field: node.field } };
+      if (shape.kind === 'exact') {
+        return { term: { [node.field]: { value: shape.text, ...(node.caseSensitive ? {} : { case_insensitive: true }) } } };
+      }
+      return { wildcard: { [node.field]: { value: dslWildcard(tokens), ...(node.caseSensitive ? {} : { case_insensitive: true }) } } };
+    }
+    case 'keyword':
+      return { query_string: { query: dslKeyword(tokenizePattern(node.pattern)) } };
+    case 're': {
+      if (/[ms]/.test(node.flags)) ctx.warnings.add('Lucene regex has no multiline/dotall flags; they were dropped');
+      return {
+        regexp: {
+          [node.field]: { value: toLuceneRegex(node.regex, ctx), ...(node.flags.includes('i') ? { case_insensitive: true } : {}) },
+        },
+      };
+    }
+    case 'cidr':
+      return { term: { [node.field]: node.cidr } };
+    case 'compare':
+      return { range: { [node.field]: { [node.op]: node.value } } };
+    case 'exists':
+      return node.exists ? { exists: { field: node.field } } : { bool: { must_not: [{ exists: { field: node.field } }] } };
+    case 'null':
+      return {
+        bool: {
+          should: [{ bool: { must_not: [{ exists: { field: node.field } }] } }, { term: { [node.field]: '' } }],
+          minimum_should_match: 1,
+        },
+      };
+  }
+}
+
+/* ============================================================================
+   MICROSOFT SENTINEL KQL
+============================================================================ */
+
+// Verbatim string literals avoid double-escaping Windows paths and regexes
+const kustoString = (text: string) => `@"${text.replace(/"/g, '""')}"`;
+
+function toSentinel(node: QueryNode, ctx: ConversionContext): string {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      if (node.items.length === 0) return node.type === 'and' ? 'true' : 'false';
+      return `(${node.items.map(n => toSentinel(n, ctx)).join(` ${node.type} `)})`;
+    case 'not':
+      return `not(${toSentinel(node.arg, ctx)})`;
+    case 'match': {
+      if (node.numeric) return `${node.field} == ${node.pattern}`;
+      const tokens = tokenizePattern(node.pattern);
+      const shape = patternShape(tokens);
+      const cs = node.caseSensitive ? '_cs' : '';
+      switch (shape.kind) {
+        case 'any':
+          return `isnotempty(${node.field})`;
+        case 'exact':
+          return `${node.field} ${node.caseSensitive ? '==' : '=~'} ${kustoString(shape.text)}`;
+        case 'contains':
+        case 'startswith':
+        case 'endswith':
+          return `${node.field} ${shape.kind}${cs} ${kustoString(shape.text)}`;
+        default:
+          return `${node.field} matches regex ${kustoString(`${node.caseSensitive ? '' : '(?i)'}^${patternToRegex(tokens)}$`)}`;
+      }
+    }
+    case 'keyword': {
+      const shape = patternShape(tokenizePattern(node.pattern));
+      if (shape.kind === 'contains' || shape.kind === 'exact') return `* contains ${kustoString(shape.text)}`;
+      ctx.errors.add(`Keyword '${node.pattern}' needs wildcard matching across all columns, which Sentinel KQL cannot express`);
+      return '';
+    }
+    case 're': {
+      if (/\(\?[=!<]|\\[1-9]/.test(node.regex)) {
+        ctx.errors.add(`Regex '${node.regex}' uses lookaround or backreferences, which RE2 does not support`);
+      }
+      const flags = node.flags ? `(?${node.flags})` : '';
+      return `${node.field} matches regex ${kustoString(flags + node.regex)}`;
+    }
+    case 'cidr':
+      return `${isIpv6Cidr(node.cidr) ? 'ipv6_is_in_range' : 'ipv4_is_in_range'}(${node.field}, ${kustoString(node.cidr)})`;
+    case 'compare':
+      return `${node.field} ${{ lt: '<', lte: '<=', gt: '>', gte: '>=' }[node.op]} ${node.value}`;
+    case 'exists':
+      return node.exists ? `isnotempty(${node.field})` : `isempty(${node.field})`;
+    case 'null':
+      return `isempty(${node.field})`;
+  }
+}
+
+/* ============================================================================
+   CONVERSION
+============================================================================ */
+
+/**
+ * Convert a Sigma rule to a SIEM query. The profile defaults to the one
+ * matching the rule's logsource.
+ */
+export function convertSigmaRule(
+  rule: SigmaConvertible,
+  backend: SigmaBackend,
+  profileId?: SigmaProfileId
+): SigmaConversionResult {
+  const ctx: ConversionContext = { warnings: new Set(), errors: new Set() };
+  const profile = (profileId && FIELD_MAPPING_PROFILES.find(p => p.id === profileId)) || resolveSigmaProfile(rule.logsource);
+  const source = resolveSource(profile, rule.logsource, ctx);
+  const tree = buildQueryTree(rule, profile, source, backend, ctx);
+
+  let query = '';
+  let target = '';
+  switch (backend) {
+    case 'splunk':
+      target = source.splunk;
+      query = toSplunk(tree, source);
+      break;
+    case 'elastic_kql':
+      target = source.elastic;
+      query = toKql(tree, ctx);
+      break;
+    case 'elastic_eql':
+      target = source.elastic;
+      query = `${source.eqlCategory} where ${toEql(tree, ctx)}`;
+      break;
+    case 'elastic_dsl':
+      target = source.elastic;
+      query = JSON.stringify({ query: toDsl(tree, ctx) }, null, 2);
+      break;
+    case 'sentinel':
+      target = source.sentinel;
+      query = `${source.sentinel}\n| where ${toSentinel(tree, ctx)}`;
+      break;
+  }
+
+  const errors = [...ctx.errors];
+  return {
+    backend,
+    profile: profile.id,
+    source: target,
+    query: errors.length > 0 ? '' : query,
+    warnings: [...ctx.warnings],
+    errors,
+  };
+}
+
+/**
+ * Convert a rule for every supported backend
+ */
+export function convertSigmaRuleToAll(
+  rule: SigmaConvertible,
+  profileId?: SigmaProfileId
+): Record<SigmaBackend, SigmaConversionResult> {
+  return Object.fromEntries(
+    SIGMA_BACKENDS.map(b => [b.id, convertSigmaRule(rule, b.id, profileId)])
+  ) as Record<SigmaBackend, SigmaConversionResult>;
+}
+
+/**
+ * Render a converted query as a file, with a header where the language has comments
+ */
+export function formatConvertedQuery(rule: SigmaConvertible, result: SigmaConversionResult): string {
+  const header = [
+    `${rule.title || 'Untitled rule'}${rule.id ? ` (${rule.id})` : ''}`,
+    `Field mapping: ${FIELD_MAPPING_PROFILES.find(p => p.id === result.profile)?.name}`,
+    ...(result.backend.startsWith('elastic') ? [`Index: ${result.source}`] : []),
+    ...result.warnings.map(w => `Note: ${w}`),
+  ];
+  switch (result.backend) {
+    case 'splunk':
+      return `${header.map(h => `\`\`\` ${h.replace(/`/g, "'")} \`\`\``).join('\n')}\n${result.query}\n`;
+    case 'elastic_eql':
+    case 'sentinel':
+      return `${header.map(h => `// ${h}`).join('\n')}\n${result.query}\n`;
+    default:
+      return `${result.query}\n`;
+  }
+}
+
+/**
+ * Download a converted query as a file named after the rule
+ */
+export function downloadConvertedQuery(rule: SigmaConvertible, result: SigmaConversionResult): void {
+  const backend = SIGMA_BACKENDS.find(b => b.id === result.backend)!;
+  const blob = new Blob([formatConvertedQuery(rule, result)], {
+    type: backend.extension === 'json' ? 'application/json' : 'text/plain',
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${(rule.title || 'sigma_rule').replace(/[^a-zA-Z0-9_-]/g, '_')}.${result.backend}.${backend.extension}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
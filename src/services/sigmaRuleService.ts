@@ -0,0 +1,1223 @@
+// ============================================================================
+// SIGMA RULE SERVICE
+// ============================================================================
+// Parses Sigma rule YAML, validates it against the Sigma specification and
+// evaluates detections against log events (JSON, NDJSON or EVTX exported as
+// JSON/XML) for local testing before rules are shipped to a SIEM
+// ============================================================================
+
+import type { RuleIssue, RuleValidationResult } from '@/services/detectionEngineService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+export interface SigmaDocument {
+  title?: string;
+  id?: string;
+  status?: string;
+  description?: string;
+  author?: string;
+  date?: string;
+  modified?: string;
+  logsource?: Record<string, string>;
+  detection?: Record<string, YamlValue>;
+  level?: string;
+  tags?: string[];
+  falsepositives?: string[];
+  [key: string]: YamlValue | undefined;
+}
+
+export interface SigmaParseResult {
+  documents: SigmaDocument[];
+  issues: RuleIssue[];
+}
+
+export type LogEvent = Record<string, unknown>;
+
+export interface SigmaEventHit {
+  index: number;
+  event: LogEvent;
+  selections: string[]; // Search identifiers that matched the event
+}
+
+export interface SigmaTestResult {
+  title: string;
+  validation: RuleValidationResult;
+  totalEvents: number;
+  hits: SigmaEventHit[];
+  misses: number;
+  unsupported: string[]; // Features the local evaluator skipped
+}
+
+export type SigmaConditionNode =
+  | { type: 'and' | 'or'; left: SigmaConditionNode; right: SigmaConditionNode }
+  | { type: 'not'; arg: SigmaConditionNode }
+  | { type: 'ident'; name: string }
+  | { type: 'of'; quantifier: 'all' | 'any' | number; target: string };
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+const TOP_LEVEL_FIELDS = new Set([
+  'title', 'id', 'related', 'name', 'taxonomy', 'status', 'description', 'license', 'author', 'references',
+  'date', 'modified', 'logsource', 'detection', 'fields', 'falsepositives', 'level', 'tags', 'scope',
+]);
+
+const STATUSES = ['stable', 'test', 'experimental', 'deprecated', 'unsupported'];
+const LEVELS = ['informational', 'low', 'medium', 'high', 'critical'];
+
+export const SIGMA_MODIFIERS = [
+  'contains', 'startswith', 'endswith', 'all', 'base64', 'base64offset', 'utf16le', 'utf16be', 'utf16',
+  'wide', 'windash', 're', 'i', 'm', 's', 'cidr', 'lt', 'lte', 'gt', 'gte', 'exists', 'cased', 'expand', 'fieldref',
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TAG_PATTERN = /^[a-z0-9_-]+\.[a-z0-9._-]+$/;
+const MAX_TITLE_LENGTH = 256;
+
+/* ============================================================================
+   YAML SUBSET PARSER
+============================================================================ */
+// Sigma rules use block mappings, block sequences, flow sequences, quoted and
+// plain scalars and literal/folded block scalars. Anything beyond that
+// (anchors, tags, complex keys) is reported rather than guessed at.
+
+class YamlError extends Error {
+  constructor(message: string, public line: number) {
+    super(message);
+    this.name = 'YamlError';
+  }
+}
+
+interface YamlLine {
+  indent: number;
+  text: string; // Content without indentation or trailing comment
+  line: number;
+}
+
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) {
+        if (quote === "'" && text[i + 1] === "'") i++;
+        else quote = null;
+      } else if (quote === '"' && ch === '\\') {
+        i++;
+      }
+    } else if (ch === "'" || ch === '"') {
+      // Quotes only open a quoted scalar at the start of a token
+      if (i === 0 || /[\s:[{,-]/.test(text[i - 1])) quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+class YamlParser {
+  private index = 0;
+  private lines: YamlLine[] = [];
+
+  constructor(private raw: string[], private firstLine: number) {
+    raw.forEach((rawLine, i) => {
+      if (/^\s*\t/.test(rawLine)) throw new YamlError('tabs are not allowed for indentation', firstLine + i);
+    });
+  }
+
+  private significant(from: number): number {
+    let i = from;
+    while (i < this.raw.length) {
+      const text = stripComment(this.raw[i]);
+      if (text.trim()) return i;
+      i++;
+    }
+    return i;
+  }
+
+  private current(): YamlLine | null {
+    if (this.lines[this.index]) return this.lines[this.index];
+    const i = this.significant(this.index);
+    this.index = i;
+    if (i >= this.raw.length) return null;
+    const rawLine = this.raw[i];
+    const indent = rawLine.length - rawLine.trimStart().length;
+    this.lines[i] = { indent, text: stripComment(rawLine).trim(), line: this.firstLine + i };
+    return this.lines[i];
+  }
+
+  private next(): void {
+    this.index++;
+  }
+
+  parse(): YamlValue {
+    const first = this.current();
+    if (!first) return null;
+    const value = this.parseNode(first.indent);
+    const rest = this.current();
+    if (rest) throw new YamlError(`unexpected content at indentation ${rest.indent}`, rest.line);
+    return value;
+  }
+
+  private parseNode(indent: number): YamlValue {
+    const line = this.current();
+    if (!line || line.indent < indent) return null;
+    if (line.text === '-' || line.text.startsWith('- ')) return this.parseSequence(line.indent);
+    if (splitKey(line.text)) return this.parseMapping(line.indent);
+    this.next();
+    return this.parseScalarWithContinuation(line.text, line.indent, line.line);
+  }
+
+  private parseMapping(indent: number): Record<string, YamlValue> {
+    const result: Record<string, YamlValue> = {};
+    for (;;) {
+      const line = this.current();
+      if (!line || line.indent < indent) break;
+      if (line.indent > indent) throw new YamlError('bad indentation of a mapping entry', line.line);
+      const split = splitKey(line.text);
+      if (!split) {
+        if (line.text.startsWith('- ') || line.text === '-') throw new YamlError('sequence entry where a mapping key was expected', line.line);
+        throw new YamlError(`expected 'key: value', found '${line.text}'`, line.line);
+      }
+      const [key, rest] = split;
+      if (Object.prototype.hasOwnProperty.call(result, key)) throw new YamlError(`duplicated mapping key '${key}'`, line.line);
+      this.next();
+      result[key] = this.parseValue(rest, indent, line.line, true);
+    }
+    return result;
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const result: YamlValue[] = [];
+    for (;;) {
+      const line = this.current();
+      if (!line || line.indent < indent) break;
+      if (line.indent > indent) throw new YamlError('bad indentation of a sequence entry', line.line);
+      if (!(line.text === '-' || line.text.startsWith('- '))) break;
+      const content = line.text.slice(1).trimStart();
+      if (!content) {
+        this.next();
+        result.push(this.parseNode(indent + 1));
+        continue;
+      }
+      if (splitKey(content) && !/^["'[{]/.test(content)) {
+        // "- key: value" opens a mapping whose column is the content's column
+        const column = indent + (line.text.length - content.length);
+        this.lines[this.index] = { indent: column, text: content, line: line.line };
+        result.push(this.parseMapping(column));
+        continue;
+      }
+      this.next();
+      result.push(this.parseValue(content, indent, line.line, false));
+    }
+    return result;
+  }
+
+  private parseValue(rest: string, indent: number, lineNo: number, inMapping: boolean): YamlValue {
+    if (!rest) {
+      const next = this.current();
+      if (!next) return null;
+      // Block sequences may sit at the same column as their mapping key
+      if (inMapping && next.indent === indent && (next.text === '-' || next.text.startsWith('- '))) {
+        return this.parseSequence(indent);
+      }
+      if (next.indent <= indent) return null;
+      return this.parseNode(next.indent);
+    }
+
+    if (/^[|>][+-]?$/.test(rest)) return this.parseBlockScalar(rest, indent);
+
+    const next = this.current();
+    const value = this.parseScalarWithContinuation(rest, indent, lineNo);
+    if (next && next.indent > indent && this.current() === next && splitKey(next.text)) {
+      throw new YamlError('mapping values are not allowed here (value and nested mapping on the same key)', next.line);
+    }
+    return value;
+  }
+
+  private parseScalarWithContinuation(text: string, indent: number, lineNo: number): YamlValue {
+    let full = text;
+    // Plain multi-line scalars continue on more-indented lines
+    if (!/^["'[{]/.test(text)) {
+      for (;;) {
+        const line = this.current();
+        if (!line || line.indent <= indent || splitKey(line.text) || line.text.startsWith('- ')) break;
+        full += ' ' + line.text;
+        this.next();
+      }
+    }
+    return parseInlineValue(full, lineNo);
+  }
+
+  private parseBlockScalar(header: string, indent: number): string {
+    const folded = header.startsWith('>');
+    const chomp = header.slice(1);
+    const collected: string[] = [];
+    let blockIndent = -1;
+    while (this.index < this.raw.length) {
+      const rawLine = this.raw[this.index];
+      if (!rawLine.trim()) {
+        collected.push('');
+        this.index++;
+        continue;
+      }
+      const lineIndent = rawLine.length - rawLine.trimStart().length;
+      if (lineIndent <= indent) break;
+      if (blockIndent < 0) blockIndent = lineIndent;
+      if (lineIndent < blockIndent) break;
+      collected.push(rawLine.slice(blockIndent));
+      this.index++;
+    }
+    while (collected.length && collected[collected.length - 1] === '' && chomp !== '+') collected.pop();
+    let text = folded
+      ? collected.reduce((acc, l, i) => acc + (i === 0 ? '' : l === '' || collected[i - 1] === '' ? '\n' : ' ') + l, '')
+      : collected.join('\n');
+    if (chomp !== '-') text += '\n';
+    return text;
+  }
+}
+
+/**
+ * Split "key: rest" where key is plain or quoted; null when the line is not a
+ * mapping entry
+ */
+function splitKey(text: string): [string, string] | null {
+  let key: string;
+  let rest: string;
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const quote = text[0];
+    let i = 1;
+    while (i < text.length) {
+      if (text[i] === quote && !(quote === "'" && text[i + 1] === "'")) break;
+      i += text[i] === quote || (quote === '"' && text[i] === '\\') ? 2 : 1;
+    }
+    if (text[i + 1] !== ':' || (text.length > i + 2 && text[i + 2] !== ' ')) return null;
+    key = String(parseInlineValue(text.slice(0, i + 1), 0));
+    rest = text.slice(i + 2).trim();
+  } else {
+    const match = text.match(/^([^\s#'"[\]{},][^:#]*?|[^\s#'"[\]{},]):(?:\s+(.*))?$/);
+    if (!match || match[1].startsWith('- ')) return null;
+    key = match[1].trim();
+    rest = (match[2] || '').trim();
+  }
+  return [key, rest];
+}
+
+function parseInlineValue(text: string, lineNo: number): YamlValue {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parser = new FlowParser(trimmed, lineNo);
+    const value = parser.parseValue();
+    parser.expectEnd();
+    return value;
+  }
+  if (trimmed.startsWith("'") || trimmed.startsWith('"')) {
+    const [value, end] = parseQuoted(trimmed, 0, lineNo);
+    if (trimmed.slice(end).trim()) throw new YamlError('unexpected characters after quoted scalar', lineNo);
+    return value;
+  }
+  return plainScalar(trimmed, lineNo);
+}
+
+function parseQuoted(text: string, start: number, lineNo: number): [string, number] {
+  const quote = text[start];
+  let value = '';
+  let i = start + 1;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        value += "'";
+        i += 2;
+        continue;
+      }
+      return [value, i + 1];
+    }
+    if (quote === '"' && ch === '\\') {
+      const esc = text[i + 1];
+      const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\', '/': '/', '0': '\0', ' ': ' ' };
+      if (esc in simple) {
+        value += simple[esc];
+        i += 2;
+      } else if (esc === 'x' && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 2, i + 4))) {
+        value += String.fromCharCode(parseInt(text.slice(i + 2, i + 4), 16));
+        i += 4;
+      } else if (esc === 'u' && /^[0-9A-Fa-f]{4}$/.test(text.slice(i + 2, i + 6))) {
+        value += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+        i += 6;
+      } else {
+        throw new YamlError(`unknown escape sequence \\${esc ?? ''} in double-quoted scalar (use single quotes for backslashes)`, lineNo);
+      }
+      continue;
+    }
+    value += ch;
+    i++;
+  }
+  throw new YamlError('unterminated quoted scalar', lineNo);
+}
+
+function plainScalar(text: string, lineNo: number): YamlValue {
+  if (text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL') return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?(0|[1-9][0-9]*)$/.test(text)) return Number(text);
+  if (/^[-+]?(\d+\.\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+
+  const indicator = text[0];
+  if (indicator === '*') throw new YamlError(`'${text}' is parsed as a YAML alias; quote values that start with '*'`, lineNo);
+  if (indicator === '&') throw new YamlError(`'${text}' is parsed as a YAML anchor; quote values that start with '&'`, lineNo);
+  if (indicator === '!') throw new YamlError(`'${text}' is parsed as a YAML tag; quote values that start with '!'`, lineNo);
+  if ('@`%|>'.includes(indicator)) throw new YamlError(`plain scalars cannot start with '${indicator}'; quote the value`, lineNo);
+  if (/:\s/.test(text) || text.endsWith(':')) throw new YamlError(`mapping values are not allowed here; quote '${text}'`, lineNo);
+  return text;
+}
+
+class FlowParser {
+  private pos = 0;
+
+  constructor(private text: string, private lineNo: number) {}
+
+  private skip(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  expectEnd(): void {
+    this.skip();
+    if (this.pos < this.text.length) throw new YamlError('unexpected characters after flow collection', this.lineNo);
+  }
+
+  parseValue(): YamlValue {
+    this.skip();
+    const ch = this.text[this.pos];
+    if (ch === '[') {
+      this.pos++;
+      const items: YamlValue[] = [];
+      this.skip();
+      if (this.text[this.pos] === ']') {
+        this.pos++;
+        return items;
+      }
+      for (;;) {
+        items.push(this.parseValue());
+        this.skip();
+        const sep = this.text[this.pos++];
+        if (sep === ']') return items;
+        if (sep !== ',') throw new YamlError('expected , or ] in flow sequence', this.lineNo);
+        this.skip();
+        if (this.text[this.pos] === ']') {
+          this.pos++;
+          return items;
+        }
+      }
+    }
+    if (ch === '{') {
+      this.pos++;
+      const map: Record<string, YamlValue> = {};
+      this.skip();
+      if (this.text[this.pos] === '}') {
+        this.pos++;
+        return map;
+      }
+      for (;;) {
+        const key = this.parseValue();
+        this.skip();
+        if (this.text[this.pos++] !== ':') throw new YamlError('expected : in flow mapping', this.lineNo);
+        map[String(key)] = this.parseValue();
+        this.skip();
+        const sep = this.text[this.pos++];
+        if (sep === '}') return map;
+        if (sep !== ',') throw new YamlError('expected , or } in flow mapping', this.lineNo);
+      }
+    }
+    if (ch === '"' || ch === "'") {
+      const [value, end] = parseQuoted(this.text, this.pos, this.lineNo);
+      this.pos = end;
+      return value;
+    }
+    const start = this.pos;
+    while (this.pos < this.text.length && !/[,\]}]/.test(this.text[this.pos]) && !(this.text[this.pos] === ':' && /\s/.test(this.text[this.pos + 1] ?? ' '))) {
+      this.pos++;
+    }
+    return plainScalar(this.text.slice(start, this.pos).trim(), this.lineNo);
+  }
+}
+
+/**
+ * Parse a YAML stream into its documents (Sigma rule collections use "---")
+ */
+export function parseYamlDocuments(source: string): { documents: YamlValue[]; error?: RuleIssue } {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const documents: YamlValue[] = [];
+  let start = 0;
+
+  const flush = (end: number) => {
+    const chunk = lines.slice(start, end);
+    if (chunk.some(l => stripComment(l).trim())) {
+      documents.push(new YamlParser(chunk, start + 1).parse());
+    }
+  };
+
+  try {
+    lines.forEach((line, i) => {
+      if (/^---\s*$/.test(line) || /^\.\.\.\s*$/.test(line)) {
+        flush(i);
+        start = i + 1;
+      }
+    });
+    flush(lines.length);
+    return { documents };
+  } catch (err) {
+    if (err instanceof YamlError) {
+      return { documents, error: { severity: 'error', message: `YAML: ${err.message}`, line: err.line } };
+    }
+    throw err;
+  }
+}
+
+/* ============================================================================
+   CONDITION PARSER
+============================================================================ */
+
+/**
+ * Parse a Sigma condition expression (without any '|' aggregation) into a tree
+ */
+export function parseSigmaCondition(condition: string): SigmaConditionNode {
+  const tokens = condition.match(/\(|\)|[^\s()]+/g) || [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const fail = (message: string): never => {
+    throw new Error(`${message} in condition '${condition}'`);
+  };
+
+  const parseOr = (): SigmaConditionNode => {
+    let left = parseAnd();
+    while (peek() === 'or') {
+      pos++;
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): SigmaConditionNode => {
+    let left = parseNot();
+    while (peek() === 'and') {
+      pos++;
+      left = { type: 'and', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): SigmaConditionNode => {
+    if (peek() === 'not') {
+      pos++;
+      return { type: 'not', arg: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): SigmaConditionNode => {
+    const token = tokens[pos++];
+    if (token === undefined) return fail('unexpected end');
+    if (token === '(') {
+      const inner = parseOr();
+      if (tokens[pos++] !== ')') fail("missing ')'");
+      return inner;
+    }
+    if (tokens[pos] === 'of') {
+      pos++;
+      const target = tokens[pos++];
+      if (!target || ['and', 'or', 'not', '(', ')'].includes(target)) fail(`expected search identifier after '${token} of'`);
+      let quantifier: 'all' | 'any' | number;
+      if (token === 'all' || token === 'any') quantifier = token;
+      else if (/^\d+$/.test(token)) quantifier = Number(token);
+      else return fail(`invalid quantifier '${token}'`);
+      return { type: 'of', quantifier, target };
+    }
+    if (['and', 'or', 'not', ')', '|'].includes(token)) fail(`unexpected '${token}'`);
+    return { type: 'ident', name: token };
+  };
+
+  const node = parseOr();
+  if (pos < tokens.length) fail(`unexpected '${tokens[pos]}'`);
+  return node;
+}
+
+function conditionIdentifiers(node: SigmaConditionNode, out: Set<string> = new Set()): Set<string> {
+  if (node.type === 'ident') out.add(node.name);
+  else if (node.type === 'of') out.add(node.target);
+  else if (node.type === 'not') conditionIdentifiers(node.arg, out);
+  else {
+    conditionIdentifiers(node.left, out);
+    conditionIdentifiers(node.right, out);
+  }
+  return out;
+}
+
+/**
+ * Resolve an 'of' target ('them', 'selection_*' or a name) to search identifiers
+ */
+export function expandConditionTarget(target: string, identifiers: string[]): string[] {
+  if (target === 'them') return identifiers.filter(id => !id.startsWith('_'));
+  if (target.includes('*')) {
+    const regex = new RegExp('^' + target.split('*').map(escapeRegex).join('.*') + '$');
+    return identifiers.filter(id => regex.test(id));
+  }
+  return identifiers.includes(target) ? [target] : [];
+}
+
+/* ============================================================================
+   VALIDATOR
+============================================================================ */
+
+function isScalar(value: YamlValue): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, YamlValue> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateFieldSelection(
+  key: string,
+  value: YamlValue,
+  where: string,
+  add: (severity: RuleIssue['severity'], message: string) => void
+): void {
+  const [field, ...modifiers] = key.split('|');
+  if (!field && modifiers.length === 0) add('error', `${where}: empty field name`);
+  for (const modifier of modifiers) {
+    if (!SIGMA_MODIFIERS.includes(modifier)) add('error', `${where}: unknown modifier '${modifier}' on '${key}'`);
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  if (Array.isArray(value) && value.length === 0) add('error', `${where}: '${key}' has an empty value list`);
+  for (const v of values) {
+    if (!isScalar(v)) add('error', `${where}: '${key}' values must be scalars`);
+  }
+
+  if (modifiers.includes('re')) {
+    for (const v of values) {
+      try {
+        new RegExp(String(v));
+      } catch (err) {
+        add('error', `${where}: invalid regular expression '${v}'`);
+      }
+    }
+  } else if (modifiers.some(m => ['i', 'm', 's'].includes(m))) {
+    add('error', `${where}: regex flags on '${key}' require the 're' modifier`);
+  }
+  if (modifiers.includes('cidr')) {
+    for (const v of values) {
+      if (!parseCidr(String(v))) add('error', `${where}: invalid CIDR '${v}'`);
+    }
+  }
+  if (modifiers.some(m => ['lt', 'lte', 'gt', 'gte'].includes(m))) {
+    for (const v of values) {
+      if (typeof v !== 'number') add('error', `${where}: numeric modifier on '${key}' needs numeric values`);
+    }
+  }
+  if (modifiers.includes('exists') && !values.every(v => typeof v === 'boolean')) {
+    add('error', `${where}: 'exists' expects true or false`);
+  }
+  if (modifiers.includes('all') && values.length < 2) add('warning', `${where}: 'all' on a single value has no effect`);
+  if (['utf16le', 'utf16be', 'utf16', 'wide'].some(m => modifiers.includes(m)) && !modifiers.some(m => m.startsWith('base64'))) {
+    add('error', `${where}: '${modifiers.find(m => m.startsWith('utf16') || m === 'wide')}' must be followed by a base64 modifier`);
+  }
+  if (modifiers.includes('expand')) add('warning', `${where}: '%placeholder%' expansion depends on the backend configuration`);
+}
+
+/**
+ * Validate a parsed Sigma document against the rule specification
+ */
+export function validateSigmaDocument(doc: YamlValue): RuleIssue[] {
+  const issues: RuleIssue[] = [];
+  const title = isPlainObject(doc) && typeof doc.title === 'string' ? doc.title : undefined;
+  const add = (severity: RuleIssue['severity'], message: string) => issues.push({ severity, message, rule: title });
+
+  if (!isPlainObject(doc)) {
+    add('error', 'rule must be a YAML mapping');
+    return issues;
+  }
+
+  // Correlation and filter documents share collections with detection rules
+  if ('correlation' in doc || 'filter' in doc) {
+    add('warning', 'correlation/filter documents are not validated');
+    return issues;
+  }
+
+  if (typeof doc.title !== 'string' || !doc.title.trim()) add('error', "missing required field 'title'");
+  else if (doc.title.length > MAX_TITLE_LENGTH) add('error', `title exceeds ${MAX_TITLE_LENGTH} characters`);
+
+  if (doc.id === undefined) add('warning', "missing 'id' (SIEM imports use it to track rule versions)");
+  else if (typeof doc.id !== 'string' || !UUID_PATTERN.test(doc.id)) add('error', "'id' must be a UUID");
+
+  if (doc.status === undefined) add('warning', "missing 'status'");
+  else if (!STATUSES.includes(String(doc.status))) add('error', `invalid status '${doc.status}' (${STATUSES.join(', ')})`);
+
+  if (doc.level === undefined) add('warning', "missing 'level'");
+  else if (!LEVELS.includes(String(doc.level))) add('error', `invalid level '${doc.level}' (${LEVELS.join(', ')})`);
+
+  if (doc.description === undefined) add('warning', "missing 'description'");
+
+  for (const field of ['date', 'modified']) {
+    const value = doc[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || !/^\d{4}[-/]\d{2}[-/]\d{2}$/.test(value)) add('error', `'${field}' must be YYYY-MM-DD`);
+    else if (value.includes('/')) add('warning', `'${field}' uses the deprecated YYYY/MM/DD format`);
+  }
+
+  if (doc.tags !== undefined) {
+    if (!Array.isArray(doc.tags)) add('error', "'tags' must be a list");
+    else {
+      for (const tag of doc.tags) {
+        if (typeof tag !== 'string' || !TAG_PATTERN.test(tag)) add('warning', `tag '${tag}' is not lowercase namespace.value`);
+      }
+    }
+  }
+
+  for (const field of ['falsepositives', 'references', 'fields']) {
+    const value = doc[field];
+    if (value !== undefined && !Array.isArray(value) && typeof value !== 'string') add('error', `'${field}' must be a list of strings`);
+  }
+
+  for (const key of Object.keys(doc)) {
+    if (!TOP_LEVEL_FIELDS.has(key)) add('warning', `unknown top-level field '${key}'`);
+  }
+
+  // Log source
+  const logsource = doc.logsource;
+  if (!isPlainObject(logsource)) {
+    add('error', "missing required mapping 'logsource'");
+  } else {
+    if (!['category', 'product', 'service'].some(k => typeof logsource[k] === 'string' && logsource[k])) {
+      add('error', "logsource needs at least one of 'category', 'product' or 'service'");
+    }
+    for (const [key, value] of Object.entries(logsource)) {
+      if (typeof value !== 'string') add('error', `logsource.${key} must be a string`);
+    }
+  }
+
+  // Detection
+  const detection = doc.detection;
+  if (!isPlainObject(detection)) {
+    add('error', "missing required mapping 'detection'");
+    return issues;
+  }
+
+  const identifiers = Object.keys(detection).filter(k => k !== 'condition' && k !== 'timeframe');
+  if (identifiers.length === 0) add('error', 'detection has no search identifiers');
+
+  for (const id of identifiers) {
+    const value = detection[id];
+    const where = `detection.${id}`;
+    if (isPlainObject(value)) {
+      if (Object.keys(value).length === 0) add('error', `${where}: empty selection`);
+      for (const [key, v] of Object.entries(value)) validateFieldSelection(key, v, where, add);
+    } else if (Array.isArray(value)) {
+      if (value.length === 0) add('error', `${where}: empty list`);
+      const maps = value.filter(isPlainObject);
+      if (maps.length > 0 && maps.length !== value.length) add('error', `${where}: cannot mix field maps and keywords in one list`);
+      maps.forEach((map, i) => Object.entries(map).forEach(([key, v]) => validateFieldSelection(key, v, `${where}[${i}]`, add)));
+      if (maps.length === 0 && !value.every(isScalar)) add('error', `${where}: keyword lists must contain scalars`);
+    } else if (typeof value !== 'string' && typeof value !== 'number') {
+      add('error', `${where}: must be a field map, list of field maps or keyword list`);
+    }
+  }
+
+  const conditions = detection.condition;
+  if (conditions === undefined || conditions === null) {
+    add('error', "detection is missing 'condition'");
+    return issues;
+  }
+  const conditionList = Array.isArray(conditions) ? conditions : [conditions];
+  if (Array.isArray(conditions)) add('warning', 'condition lists are deprecated; combine them with or');
+
+  const used = new Set<string>();
+  for (const condition of conditionList) {
+    if (typeof condition !== 'string') {
+      add('error', 'condition must be a string');
+      continue;
+    }
+    const [expression, aggregation] = splitSigmaAggregation(condition);
+    if (aggregation) add('warning', `aggregation '| ${aggregation}' is deprecated in favour of correlation rules`);
+    try {
+      const node = parseSigmaCondition(expression);
+      for (const target of conditionIdentifiers(node)) {
+        const matched = expandConditionTarget(target, identifiers);
+        if (matched.length === 0) add('error', `condition references undefined search identifier '${target}'`);
+        matched.forEach(m => used.add(m));
+      }
+    } catch (err) {
+      add('error', err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  for (const id of identifiers) {
+    if (!used.has(id)) add('warning', `search identifier '${id}' is not used in the condition`);
+  }
+
+  return issues;
+}
+
+/**
+ * Split a condition into its boolean expression and optional aggregation
+ */
+export function splitSigmaAggregation(condition: string): [string, string | undefined] {
+  const index = condition.indexOf('|');
+  if (index === -1) return [condition, undefined];
+  return [condition.slice(0, index).trim(), condition.slice(index + 1).trim()];
+}
+
+/**
+ * Parse Sigma YAML (one rule or a "---" separated collection)
+ */
+export function parseSigma(source: string): SigmaParseResult {
+  const { documents, error } = parseYamlDocuments(source);
+  const issues: RuleIssue[] = error ? [error] : [];
+  if (!error && documents.length === 0) issues.push({ severity: 'error', message: 'no YAML documents found' });
+  return { documents: documents.filter(isPlainObject) as SigmaDocument[], issues };
+}
+
+/**
+ * Parse and validate Sigma YAML source
+ */
+export function validateSigma(source: string): RuleValidationResult {
+  const { documents, error } = parseYamlDocuments(source);
+  const issues: RuleIssue[] = [];
+  if (error) issues.push(error);
+  else if (documents.length === 0) issues.push({ severity: 'error', message: 'no YAML documents found' });
+  else documents.forEach(doc => issues.push(...validateSigmaDocument(doc)));
+  return { valid: !issues.some(i => i.severity === 'error'), issues };
+}
+
+/* ============================================================================
+   LOG EVENT PARSING
+============================================================================ */
+
+function flattenEvent(value: unknown, prefix: string, out: LogEvent): void {
+  if (isPlainObject(value)) {
+    // evtx_dump style {"#text": 4688, "#attributes": {...}}
+    if ('#text' in value) out[prefix] = value['#text'];
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '#text') continue;
+      const name = key === '#attributes' ? prefix : prefix ? `${prefix}.${key}` : key;
+      flattenEvent(child, name, out);
+    }
+    return;
+  }
+  // EventData.Data as [{ "@Name": "X", "#text": "v" }] or [{ Name, Value }]
+  if (Array.isArray(value) && value.length > 0 && value.every(v => isPlainObject(v) && ('@Name' in v || 'Name' in v))) {
+    for (const entry of value as Record<string, unknown>[]) {
+      const name = String(entry['@Name'] ?? entry.Name);
+      flattenEvent(entry['#text'] ?? entry.Value ?? entry['$'] ?? null, prefix ? `${prefix}.${name}` : name, out);
+    }
+    return;
+  }
+  out[prefix] = value;
+}
+
+/**
+ * Flatten nested events so both full paths (Event.EventData.CommandLine) and
+ * leaf names (CommandLine) resolve, as Sigma field names expect
+ */
+export function normalizeLogEvent(raw: unknown): LogEvent {
+  const flat: LogEvent = {};
+  flattenEvent(raw, '', flat);
+  const event: LogEvent = { ...flat };
+  for (const [path, value] of Object.entries(flat)) {
+    const leaf = path.split('.').pop()!;
+    if (!(leaf in event)) event[leaf] = value;
+  }
+  return event;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCharCode(parseInt(n, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function parseXmlEvent(xml: string): LogEvent {
+  const event: LogEvent = {};
+  const system = xml.match(/<System>([\s\S]*?)<\/System>/)?.[1] || '';
+  for (const m of system.matchAll(/<(\w+)((?:\s+[\w:]+="[^"]*")*)\s*(?:\/>|>([^<]*)<\/\1>)/g)) {
+    const [, tag, attrs, text] = m;
+    if (text !== undefined && text.trim()) event[tag] = decodeXml(text.trim());
+    for (const a of (attrs || '').matchAll(/([\w:]+)="([^"]*)"/g)) {
+      event[`${tag}${a[1]}`] = decodeXml(a[2]);
+      if (!(a[1] in event)) event[a[1]] = decodeXml(a[2]);
+    }
+  }
+  for (const m of xml.matchAll(/<Data Name="([^"]+)"\s*(?:\/>|>([\s\S]*?)<\/Data>)/g)) {
+    event[m[1]] = decodeXml(m[2] ?? '');
+  }
+  if (typeof event.EventID === 'string' && /^\d+$/.test(event.EventID)) event.EventID = Number(event.EventID);
+  return event;
+}
+
+/**
+ * Parse uploaded log content into events. Accepts a JSON array, NDJSON,
+ * Windows event XML (wevtutil / Event Viewer export) or plain text lines.
+ */
+export function parseLogEvents(content: string): LogEvent[] {
+  const text = content.replace(/^\uFEFF/, '').trim();
+  if (!text) return [];
+
+  if (text.startsWith('[') || text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text);
+      const records = Array.isArray(parsed) ? parsed : Array.isArray(parsed.records) ? parsed.records : [parsed];
+      return records.map(normalizeLogEvent);
+    } catch {
+      // Fall through to NDJSON
+    }
+    const lines = text.split(/\r?\n/).filter(l => l.trim());
+    if (lines.every(l => l.trim().startsWith('{'))) {
+      return lines.map(l => {
+        try {
+          return normalizeLogEvent(JSON.parse(l));
+        } catch {
+          return { message: l };
+        }
+      });
+    }
+  }
+
+  if (/<Event[\s>]/.test(text)) {
+    return (text.match(/<Event[\s>][\s\S]*?<\/Event>/g) || []).map(parseXmlEvent);
+  }
+
+  return text.split(/\r?\n/).filter(l => l.trim()).map(line => ({ message: line }));
+}
+
+/* ============================================================================
+   EVALUATOR
+============================================================================ */
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Sigma wildcards: * and ? unless escaped with a backslash
+function wildcardToRegex(pattern: string, caseSensitive: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\' && (pattern[i + 1] === '*' || pattern[i + 1] === '?' || pattern[i + 1] === '\\')) {
+      source += escapeRegex(pattern[i + 1]);
+      i++;
+    } else if (ch === '*') {
+      source += '[\\s\\S]*';
+    } else if (ch === '?') {
+      source += '[\\s\\S]';
+    } else {
+      source += escapeRegex(ch);
+    }
+  }
+  return new RegExp(`^${source}$`, caseSensitive ? '' : 'i');
+}
+
+function parseIpv4(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || !parts.every(p => /^\d{1,3}$/.test(p) && Number(p) <= 255)) return null;
+  return parts.reduce((acc, p) => acc * 256 + Number(p), 0);
+}
+
+function parseCidr(cidr: string): { base: number; bits: number } | null {
+  const [ip, bitsText] = cidr.split('/');
+  const base = parseIpv4(ip);
+  const bits = bitsText === undefined ? 32 : Number(bitsText);
+  if (base === null || !Number.isInteger(bits) || bits < 0 || bits > 32) {
+    // IPv6 ranges are syntactically accepted; evaluation only covers IPv4
+    return cidr.includes(':') && /^[0-9a-f:]+\/\d{1,3}$/i.test(cidr) ? { base: -1, bits: Number(bitsText) } : null;
+  }
+  return { base, bits };
+}
+
+function cidrContains(cidr: string, ip: string): boolean {
+  const range = parseCidr(cidr);
+  const addr = parseIpv4(ip);
+  if (!range || range.base < 0 || addr === null) return false;
+  const size = 2 ** (32 - range.bits);
+  const start = Math.floor(range.base / size) * size;
+  return addr >= start && addr < start + size;
+}
+
+function encodeUtf16(text: string, bigEndian: boolean): string {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const lo = String.fromCharCode(code & 0xff);
+    const hi = String.fromCharCode(code >> 8);
+    out += bigEndian ? hi + lo : lo + hi;
+  }
+  return out;
+}
+
+function toBinary(text: string): string {
+  return Array.from(new TextEncoder().encode(text), b => String.fromCharCode(b)).join('');
+}
+
+// Offsets 0-2 of the value inside a longer base64 blob, trimmed of the
+// characters that depend on neighbouring bytes
+function base64OffsetVariants(binary: string): string[] {
+  const variants: string[] = [];
+  for (let shift = 0; shift < 3; shift++) {
+    const encoded = btoa('\x00'.repeat(shift) + binary).replace(/=+$/, '');
+    const start = [0, 2, 3][shift];
+    const end = (shift + binary.length) % 3 === 0 ? encoded.length : encoded.length - 1;
+    variants.push(encoded.slice(start, end));
+  }
+  return variants;
+}
+
+function windashVariants(value: string): string[] {
+  const dashes = ['-', '/', '–', '—', '―'];
+  const variants = new Set<string>([value]);
+  for (const dash of dashes) {
+    variants.add(value.replace(/(^|\s)[-/–—―]/g, `$1${dash}`));
+  }
+  return [...variants];
+}
+
+/**
+ * Expand a string value and its modifiers (windash, base64, utf16, contains...)
+ * into Sigma wildcard patterns, where '*' and '?' are wildcards and '\\' escapes
+ */
+export function sigmaValuePatterns(value: string, modifiers: string[]): { patterns: string[]; caseSensitive: boolean } {
+  let candidates = [value];
+  if (modifiers.includes('windash')) candidates = candidates.flatMap(windashVariants);
+
+  const encoding = modifiers.find(m => ['utf16le', 'utf16be', 'utf16', 'wide'].includes(m));
+  if (modifiers.includes('base64') || modifiers.includes('base64offset')) {
+    candidates = candidates.flatMap(c => {
+      const binary = encoding === 'utf16be' ? encodeUtf16(c, true)
+        : encoding === 'utf16' ? '\xff\xfe' + encodeUtf16(c, false)
+        : encoding ? encodeUtf16(c, false)
+        : toBinary(c);
+      return modifiers.includes('base64offset') ? base64OffsetVariants(binary) : [btoa(binary)];
+    });
+  }
+
+  const wildcard = (c: string) => c.replace(/[*?\\]/g, '\\$&');
+  const encoded = modifiers.includes('base64') || modifiers.includes('base64offset');
+  if (modifiers.includes('contains') || modifiers.includes('base64offset')) {
+    candidates = candidates.map(c => `*${encoded ? wildcard(c) : c}*`);
+  } else if (modifiers.includes('startswith')) {
+    candidates = candidates.map(c => `${encoded ? wildcard(c) : c}*`);
+  } else if (modifiers.includes('endswith')) {
+    candidates = candidates.map(c => `*${encoded ? wildcard(c) : c}`);
+  } else if (encoded) {
+    candidates = candidates.map(wildcard);
+  }
+
+  // Base64 output is case-sensitive by nature
+  return { patterns: candidates, caseSensitive: modifiers.includes('cased') || encoded };
+}
+
+interface CompiledValue {
+  test: (fieldValue: unknown, event: LogEvent) => boolean;
+}
+
+function compileFieldValue(value: YamlValue, modifiers: string[], unsupported: Set<string>): CompiledValue {
+  if (value === null) {
+    return { test: v => v === undefined || v === null || v === '' };
+  }
+
+  if (modifiers.includes('exists')) {
+    return { test: v => (v !== undefined) === value };
+  }
+
+  if (modifiers.includes('fieldref')) {
+    return {
+      test: (v, event) => {
+        const other = lookupField(event, String(value));
+        return other !== undefined && v !== undefined && String(v).toLowerCase() === String(other).toLowerCase();
+      },
+    };
+  }
+
+  for (const op of ['lt', 'lte', 'gt', 'gte']) {
+    if (modifiers.includes(op)) {
+      const limit = Number(value);
+      return {
+        test: v => {
+          const n = Number(v);
+          if (v === undefined || v === null || v === '' || Number.isNaN(n)) return false;
+          return op === 'lt' ? n < limit : op === 'lte' ? n <= limit : op === 'gt' ? n > limit : n >= limit;
+        },
+      };
+    }
+  }
+
+  if (modifiers.includes('re')) {
+    const flags = (modifiers.includes('i') ? 'i' : '') + (modifiers.includes('m') ? 'm' : '') + (modifiers.includes('s') ? 's' : '');
+    const regex = new RegExp(String(value), flags);
+    return { test: v => v !== undefined && v !== null && regex.test(String(v)) };
+  }
+
+  if (modifiers.includes('cidr')) {
+    if (String(value).includes(':')) unsupported.add('IPv6 cidr ranges');
+    return { test: v => v !== undefined && v !== null && cidrContains(String(value), String(v)) };
+  }
+
+  if (modifiers.includes('expand')) unsupported.add('%placeholder% expansion');
+
+  const { patterns: candidates, caseSensitive } = sigmaValuePatterns(String(value), modifiers);
+  const patterns = candidates.map(c => wildcardToRegex(c, caseSensitive));
+  return {
+    test: v => {
+      if (v === undefined || v === null) return false;
+      const values = Array.isArray(v) ? v : [v];
+      return values.some(item => patterns.some(p => p.test(String(item))));
+    },
+  };
+}
+
+function lookupField(event: LogEvent, field: string): unknown {
+  if (field in event) return event[field];
+  const lower = field.toLowerCase();
+  const key = Object.keys(event).find(k => k.toLowerCase() === lower);
+  return key === undefined ? undefined : event[key];
+}
+
+type SelectionMatcher = (event: LogEvent) => boolean;
+
+function compileFieldMap(map: Record<string, YamlValue>, unsupported: Set<string>): SelectionMatcher {
+  const checks = Object.entries(map).map(([key, value]) => {
+    const [field, ...modifiers] = key.split('|');
+    const values = Array.isArray(value) ? value : [value];
+    const compiled = values.map(v => compileFieldValue(v, modifiers, unsupported));
+    const requireAll = modifiers.includes('all');
+
+    // A bare "|modifier" key without a field name searches every value
+    if (!field) {
+      return (event: LogEvent) => {
+        const all = Object.values(event);
+        const hit = (c: CompiledValue) => all.some(v => c.test(v, event));
+        return requireAll ? compiled.every(hit) : compiled.some(hit);
+      };
+    }
+    return (event: LogEvent) => {
+      const fieldValue = lookupField(event, field);
+      const hit = (c: CompiledValue) => c.test(fieldValue, event);
+      return requireAll ? compiled.every(hit) : compiled.some(hit);
+    };
+  });
+  return event => checks.every(check => check(event));
+}
+
+function compileSelection(value: YamlValue, unsupported: Set<string>): SelectionMatcher {
+  if (isPlainObject(value)) return compileFieldMap(value, unsupported);
+
+  const items = Array.isArray(value) ? value : [value];
+  if (items.length > 0 && items.every(isPlainObject)) {
+    const maps = (items as Record<string, YamlValue>[]).map(m => compileFieldMap(m, unsupported));
+    return event => maps.some(m => m(event));
+  }
+
+  // Keywords match anywhere in any field value
+  const keywords = items.map(k => wildcardToRegex(`*${k}*`, false));
+  return event => Object.values(event).some(v => v !== null && v !== undefined && keywords.some(k => k.test(String(v))));
+}
+
+function evaluateCondition(node: SigmaConditionNode, results: Map<string, boolean>, identifiers: string[]): boolean {
+  switch (node.type) {
+    case 'and':
+      return evaluateCondition(node.left, results, identifiers) && evaluateCondition(node.right, results, identifiers);
+    case 'or':
+      return evaluateCondition(node.left, results, identifiers) || evaluateCondition(node.right, results, identifiers);
+    case 'not':
+      return !evaluateCondition(node.arg, results, identifiers);
+    case 'ident':
+      return results.get(node.name) === true;
+    case 'of': {
+      const targets = expandConditionTarget(node.target, identifiers);
+      const matched = targets.filter(t => results.get(t)).length;
+      if (node.quantifier === 'all') return targets.length > 0 && matched === targets.length;
+      if (node.quantifier === 'any') return matched >= 1;
+      return matched >= node.quantifier;
+    }
+  }
+}
+
+/**
+ * Compile a validated Sigma document into an event matcher
+ */
+export function compileSigmaDetection(doc: SigmaDocument): {
+  match: (event: LogEvent) => { matched: boolean; selections: string[] };
+  unsupported: string[];
+} {
+  const detection = doc.detection || {};
+  const identifiers = Object.keys(detection).filter(k => k !== 'condition' && k !== 'timeframe');
+  const unsupported = new Set<string>();
+  const matchers = new Map(identifiers.map(id => [id, compileSelection(detection[id], unsupported)]));
+
+  const conditions = (Array.isArray(detection.condition) ? detection.condition : [detection.condition]).map(c => {
+    const [expression, aggregation] = splitSigmaAggregation(String(c));
+    if (aggregation) unsupported.add(`aggregation '${aggregation}' (evaluated without it)`);
+    return parseSigmaCondition(expression);
+  });
+  if (detection.timeframe !== undefined) unsupported.add('timeframe');
+
+  return {
+    unsupported: [...unsupported],
+    match: event => {
+      const results = new Map<string, boolean>();
+      for (const [id, matcher] of matchers) results.set(id, matcher(event));
+      const matched = conditions.some(node => evaluateCondition(node, results, identifiers));
+      return { matched, selections: identifiers.filter(id => results.get(id)) };
+    },
+  };
+}
+
+/* ============================================================================
+   TEST HARNESS
+============================================================================ */
+
+/**
+ * Validate Sigma YAML and run every rule in it against the given events
+ */
+export function runSigmaHarness(source: string, events: LogEvent[]): SigmaTestResult[] {
+  const validation = validateSigma(source);
+  const { documents } = parseSigma(source);
+
+  if (!validation.valid || documents.length === 0) {
+    return [{
+      title: documents[0]?.title || 'Invalid rule',
+      validation,
+      totalEvents: events.length,
+      hits: [],
+      misses: events.length,
+      unsupported: [],
+    }];
+  }
+
+  return documents.map(doc => {
+    const { match, unsupported } = compileSigmaDetection(doc);
+    const hits: SigmaEventHit[] = [];
+    events.forEach((event, index) => {
+      const result = match(event);
+      if (result.matched) hits.push({ index, event, selections: result.selections });
+    });
+    return {
+      title: doc.title || 'Untitled rule',
+      validation,
+      totalEvents: events.length,
+      hits,
+      misses: events.length - hits.length,
+      unsupported,
+    };
+  });
+}
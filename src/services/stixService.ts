@@ -0,0 +1,812 @@
+// ============================================================================
+// STIX 2.1 SERVICE
+// ============================================================================
+// Serializes IOCs, threat actors, campaigns and graph data to STIX 2.1 bundles
+// Parses partner bundles back into IOC lists, graph data and threat records
+// ============================================================================
+
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import { ENTITY_CONFIG, TLP_LEVELS, canonicalEntityId, entityKey, mergeAnnotations, type EntityAnnotations, type EntityType, type GraphData, type GraphEdge, type GraphNode, type TlpLevel, type TransformType } from '@/services/graphService';
+import { DEFAULT_RELEASE_TLP, TLP_CONFIG, applyTlpPolicy, parseAnnotations } from '@/services/graphAnnotationService';
+import { getTTPDetails, type ThreatActor } from '@/services/threatActorService';
+import type { Campaign } from '@/services/campaignCorrelationService';
+import type { IOCIndicator } from '@/services/detectionEngineService';
+import { scoId, stixId } from '@/lib/stableId';
+
+export { stixId };
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface StixObject {
+  type: string;
+  id: string;
+  spec_version?: string;
+  created?: string;
+  modified?: string;
+  [key: string]: unknown;
+}
+
+export interface StixBundle {
+  type: 'bundle';
+  id: string;
+  objects: StixObject[];
+}
+
+export interface StixExportInput {
+  family?: string;
+  indicators?: IOCIndicator[];
+  actors?: ThreatActor[];
+  campaigns?: Campaign[];
+  graph?: GraphData;
+  releaseTlp?: TlpLevel;      // Graph entities marked above this are left out
+}
+
+export interface StixThreatRecord {
+  source_id: string;
+  source_name: string;
+  threat_type: 'malware' | 'campaign' | 'ioc' | 'actor' | 'vulnerability';
+  severity_level: 'critical' | 'high' | 'medium' | 'low' | 'info';
+  confidence_level: number;
+  title: string;
+  description: string;
+  indicators: { type: string; value: string }[];
+  ttps: string[];
+  targets: string[];
+  attribution: string | null;
+  timeline: null;
+  metadata: Record<string, unknown>;
+  tags: string[];
+  status: 'active';
+  first_seen: string;
+  last_seen: string;
+  raw_data: StixObject;
+}
+
+export interface StixImportResult {
+  indicators: IOCIndicator[];
+  graph: GraphData;
+  records: StixThreatRecord[];
+  stats: {
+    objects: number;
+    indicators: number;
+    nodes: number;
+    edges: number;
+    skipped: number;
+  };
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+const SPEC_VERSION = '2.1';
+const PRODUCER_NAME = 'OSINT Hub';
+
+// IOC type -> STIX pattern object path
+const IOC_PATTERN_PATHS: Record<IOCIndicator['type'], string> = {
+  ip: 'ipv4-addr:value',
+  domain: 'domain-name:value',
+  url: 'url:value',
+  hash_md5: "file:hashes.'MD5'",
+  hash_sha1: "file:hashes.'SHA-1'",
+  hash_sha256: "file:hashes.'SHA-256'",
+  email: 'email-addr:value',
+  mutex: 'mutex:name',
+  registry: 'windows-registry-key:key',
+  file_path: 'file:name',
+};
+
+// Transform -> STIX relationship type
+const TRANSFORM_RELATIONSHIPS: Partial<Record<TransformType, string>> = {
+  dns_resolve: 'resolves-to',
+  geolocation: 'located-at',
+  threat_intel: 'indicates',
+};
+
+// TLP 2.0 marking definitions published with the STIX 2.1 TLP extension
+const TLP_EXTENSION_ID = 'extension-definition--60a3c5c5-0d10-413e-aab3-9e08dde9e88d';
+const TLP_MARKING_IDS: Record<TlpLevel, string> = {
+  clear: 'marking-definition--94868c89-83c2-464b-929b-a1a8aa3c8487',
+  green: 'marking-definition--bab4a63c-aed9-4cf5-a766-dfca5abac2bb',
+  amber: 'marking-definition--55d920b0-5e8b-4f79-9ee9-91f868d9b421',
+  red: 'marking-definition--e828b379-4e03-4974-9ac4-e53a884c97c1',
+};
+// TLP 1.0 ids still common in partner feeds
+const LEGACY_TLP_MARKING_IDS: Record<string, TlpLevel> = {
+  'marking-definition--613f2e26-407d-48c7-9eca-b8e91df99dc9': 'clear',
+  'marking-definition--34098fce-860f-48ae-8e50-ebd3cc5e41da': 'green',
+  'marking-definition--f88d31f6-486f-44da-b317-01333bde0b82': 'amber',
+  'marking-definition--5e57c739-391a-4eb3-b6be-7d15ca92d5ed': 'red',
+};
+
+const ACTOR_TYPES: Record<ThreatActor['type'], string> = {
+  apt: 'nation-state',
+  nation_state: 'nation-state',
+  cybercrime: 'crime-syndicate',
+  hacktivist: 'activist',
+  iab: 'criminal',
+  unknown: 'unknown',
+};
+
+const ACTOR_MOTIVATIONS: Record<ThreatActor['motivation'], string> = {
+  espionage: 'organizational-gain',
+  financial: 'personal-gain',
+  disruption: 'dominance',
+  ideology: 'ideology',
+  unknown: 'unpredictable',
+};
+
+/* ============================================================================
+   IDENTIFIERS
+============================================================================ */
+
+function escapePatternValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+function toTimestamp(value?: string): string {
+  const date = value ? new Date(value) : new Date();
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+/* ============================================================================
+   EXPORT - BUNDLE BUILDER
+============================================================================ */
+
+class BundleBuilder {
+  private objects = new Map<string, StixObject>();
+  private now = new Date().toISOString();
+  readonly identityId = stixId('identity', PRODUCER_NAME);
+
+  constructor() {
+    this.add({
+      type: 'identity',
+      id: this.identityId,
+      name: PRODUCER_NAME,
+      identity_class: 'system',
+    });
+  }
+
+  add(object: StixObject): string {
+    const existing = this.objects.get(object.id);
+    const isSco = object.type.endsWith('-addr') || ['domain-name', 'url', 'file', 'mutex', 'windows-registry-key', 'autonomous-system', 'x509-certificate', 'user-account'].includes(object.type);
+    this.objects.set(object.id, {
+      spec_version: SPEC_VERSION,
+      ...(isSco ? {} : { created: this.now, modified: this.now, created_by_ref: this.identityId }),
+      ...existing,
+      ...object,
+    });
+    return object.id;
+  }
+
+  relate(sourceRef: string, relationshipType: string, targetRef: string, extra: Record<string, unknown> = {}): string {
+    return this.add({
+      type: 'relationship',
+      id: stixId('relationship', `${sourceRef}|${relationshipType}|${targetRef}`),
+      relationship_type: relationshipType,
+      source_ref: sourceRef,
+      target_ref: targetRef,
+      ...extra,
+    });
+  }
+
+  // Reference objects are only created once; a full definition added
+  // later (e.g. a profiled threat actor) still replaces the placeholder
+  private ensure(object: StixObject): string {
+    return this.objects.has(object.id) ? object.id : this.add(object);
+  }
+
+  malware(family: string, type?: string): string {
+    return this.ensure({
+      type: 'malware',
+      id: stixId('malware', family.toLowerCase()),
+      name: family,
+      is_family: true,
+      malware_types: type ? [type] : ['unknown'],
+    });
+  }
+
+  attackPattern(ttp: string): string {
+    const details = getTTPDetails(ttp);
+    return this.ensure({
+      type: 'attack-pattern',
+      id: stixId('attack-pattern', ttp.toUpperCase()),
+      name: details?.name || ttp,
+      external_references: [{
+        source_name: 'mitre-attack',
+        external_id: ttp.toUpperCase(),
+        url: `https://attack.mitre.org/techniques/${ttp.toUpperCase().replace('.', '/')}/`,
+      }],
+      ...(details?.tactic ? { kill_chain_phases: [{ kill_chain_name: 'mitre-attack', phase_name: details.tactic.toLowerCase().replace(/\s+/g, '-') }] } : {}),
+    });
+  }
+
+  /** Marking definitions are fixed objects; they are added verbatim, without producer fields */
+  tlpMarking(tlp: TlpLevel): string {
+    const id = TLP_MARKING_IDS[tlp];
+    if (!this.objects.has(id)) {
+      this.objects.set(id, {
+        type: 'marking-definition',
+        spec_version: SPEC_VERSION,
+        id,
+        created: '2022-10-01T00:00:00.000Z',
+        name: TLP_CONFIG[tlp].label,
+        extensions: { [TLP_EXTENSION_ID]: { extension_type: 'property-extension', tlp_2_0: tlp } },
+      });
+    }
+    return id;
+  }
+
+  /** Marking refs, tags and the full annotations (for round-trips) on an exported object */
+  annotate(annotations: EntityAnnotations | undefined): Record<string, unknown> {
+    if (!annotations) return {};
+    return {
+      ...(annotations.tlp ? { object_marking_refs: [this.tlpMarking(annotations.tlp)] } : {}),
+      ...(annotations.tags?.length ? { x_osint_tags: annotations.tags } : {}),
+      x_osint_annotations: annotations,
+    };
+  }
+
+  /** Analyst notes become STIX notes on the objects they were written about */
+  notes(annotations: EntityAnnotations | undefined, objectRef: string): void {
+    for (const note of annotations?.notes || []) {
+      this.add({
+        type: 'note',
+        id: stixId('note', note.id),
+        created: toTimestamp(note.createdAt),
+        modified: toTimestamp(note.createdAt),
+        content: note.text,
+        authors: [note.author],
+        object_refs: [objectRef],
+        ...(annotations!.tlp ? { object_marking_refs: [this.tlpMarking(annotations!.tlp)] } : {}),
+      });
+    }
+  }
+
+  threatActor(name: string): string {
+    return this.ensure({
+      type: 'threat-actor',
+      id: stixId('threat-actor', name.toLowerCase()),
+      name,
+      threat_actor_types: ['unknown'],
+    });
+  }
+
+  indicator(ioc: IOCIndicator): string {
+    const path = ioc.type === 'ip' && ioc.value.includes(':') ? 'ipv6-addr:value' : IOC_PATTERN_PATHS[ioc.type];
+    return this.add({
+      type: 'indicator',
+      id: stixId('indicator', `${ioc.type}|${ioc.value.toLowerCase()}`),
+      name: ioc.value,
+      description: ioc.context,
+      indicator_types: ['malicious-activity'],
+      pattern: `[${path} = '${escapePatternValue(ioc.value)}']`,
+      pattern_type: 'stix',
+      valid_from: toTimestamp(ioc.firstSeen),
+      confidence: ioc.confidence,
+      labels: ioc.tags,
+      x_osint_severity: ioc.severity,
+      ...(ioc.lastSeen ? { x_osint_last_seen: toTimestamp(ioc.lastSeen) } : {}),
+    });
+  }
+
+  build(): StixBundle {
+    return {
+      type: 'bundle',
+      id: `bundle--${crypto.randomUUID()}`,
+      objects: [...this.objects.values()],
+    };
+  }
+}
+
+function graphNodeToStix(node: GraphNode, marking: Record<string, unknown>): StixObject {
+  const value = node.value;
+  const custom = {
+    x_osint_entity_type: node.type,
+    x_osint_label: node.label,
+    x_osint_position: node.position,
+    ...(node.metadata ? { x_osint_metadata: node.metadata } : {}),
+    ...marking,
+  };
+  // Observables take the STIX deterministic id over their ID contributing
+  // properties; everything else is keyed on the entity value
+  const sco = (type: string, contributing: Record<string, unknown>, props: Record<string, unknown> = {}): StixObject => ({
+    type,
+    id: scoId(type, contributing),
+    ...contributing,
+    ...props,
+    ...custom,
+  });
+  const sdo = (type: string, props: Record<string, unknown>, key = value.toLowerCase()): StixObject => ({
+    type,
+    id: stixId(type, key),
+    ...props,
+    ...custom,
+  });
+
+  switch (node.type) {
+    case 'domain':
+      return sco('domain-name', { value: value.toLowerCase() });
+    case 'ip':
+    case 'netblock':
+      return sco(value.includes(':') ? 'ipv6-addr' : 'ipv4-addr', { value });
+    case 'email':
+      return sco('email-addr', { value: value.toLowerCase() });
+    case 'url':
+      return sco('url', { value });
+    case 'hash': {
+      const algorithm = value.length === 32 ? 'MD5' : value.length === 40 ? 'SHA-1' : 'SHA-256';
+      return sco('file', { hashes: { [algorithm]: value.toLowerCase() } });
+    }
+    case 'asn':
+      return sco('autonomous-system', { number: parseInt(value.replace(/^AS/i, ''), 10) || 0 }, { name: node.label });
+    case 'certificate':
+      // Neither hashes nor serial_number are known, so there is no SCO id to derive
+      return sdo('x509-certificate', { subject: value }, value);
+    case 'social_profile':
+      return sco('user-account', { account_login: value, account_type: node.properties?.platform });
+    case 'malware':
+      return sdo('malware', { name: value, is_family: true, malware_types: ['unknown'] });
+    case 'vulnerability':
+      return sdo('vulnerability', {
+        name: value,
+        ...(/^CVE-\d{4}-\d+$/i.test(value) ? { external_references: [{ source_name: 'cve', external_id: value.toUpperCase() }] } : {}),
+      }, value.toUpperCase());
+    case 'organization':
+      return sdo('identity', { name: value, identity_class: 'organization' });
+    case 'person':
+      return sdo('identity', { name: value, identity_class: 'individual' });
+    case 'geolocation': {
+      const [lat, lon] = value.split(',').map(Number);
+      return sdo('location', {
+        name: node.label,
+        ...(isFinite(lat) && isFinite(lon) ? { latitude: lat, longitude: lon } : {}),
+        ...(node.properties?.countryCode ? { country: node.properties.countryCode } : {}),
+        ...(node.properties?.region ? { region: node.properties.region } : {}),
+      });
+    }
+    default:
+      return sdo('x-osint-entity', { name: value });
+  }
+}
+
+/**
+ * Build a STIX 2.1 bundle from any combination of IOCs, threat actors,
+ * correlated campaigns and graph data
+ */
+export function buildStixBundle(input: StixExportInput): StixBundle {
+  const builder = new BundleBuilder();
+  const familyRef = input.family ? builder.malware(input.family) : null;
+
+  // Indicators -> indicates -> malware family
+  for (const ioc of input.indicators || []) {
+    if (!ioc.value) continue;
+    const indicatorRef = builder.indicator(ioc);
+    if (familyRef) builder.relate(indicatorRef, 'indicates', familyRef);
+  }
+
+  // Threat actors with their TTPs and tooling
+  for (const actor of input.actors || []) {
+    const actorRef = builder.add({
+      type: 'threat-actor',
+      id: stixId('threat-actor', actor.name.toLowerCase()),
+      name: actor.name,
+      description: actor.description,
+      aliases: actor.aliases,
+      threat_actor_types: [ACTOR_TYPES[actor.type] || 'unknown'],
+      primary_motivation: ACTOR_MOTIVATIONS[actor.motivation] || 'unpredictable',
+      first_seen: toTimestamp(actor.firstSeen),
+      last_seen: toTimestamp(actor.lastSeen),
+      confidence: actor.confidence,
+      external_references: actor.references.map(url => ({ source_name: actor.source, url })),
+      ...(actor.country ? { x_osint_country: actor.country } : {}),
+    });
+
+    actor.ttps.forEach(ttp => builder.relate(actorRef, 'uses', builder.attackPattern(ttp)));
+    actor.malwareFamilies.forEach(family => builder.relate(actorRef, 'uses', builder.malware(family)));
+  }
+
+  // Campaigns with infrastructure, samples and attribution
+  for (const campaign of input.campaigns || []) {
+    const campaignRef = builder.add({
+      type: 'campaign',
+      id: stixId('campaign', campaign.id),
+      name: campaign.name,
+      description: campaign.description,
+      aliases: campaign.codename ? [campaign.codename] : undefined,
+      first_seen: toTimestamp(campaign.firstSeen),
+      last_seen: toTimestamp(campaign.lastSeen),
+      confidence: campaign.confidence,
+      x_osint_status: campaign.status,
+      x_osint_risk_score: campaign.riskScore,
+    });
+
+    campaign.families.forEach(family => builder.relate(campaignRef, 'uses', builder.malware(family)));
+    campaign.ttps.forEach(ttp => builder.relate(campaignRef, 'uses', builder.attackPattern(ttp)));
+    if (campaign.actor) builder.relate(campaignRef, 'attributed-to', builder.threatActor(campaign.actor));
+
+    for (const infra of campaign.infrastructure) {
+      const indicatorRef = builder.indicator({
+        type: /^\d{1,3}(\.\d{1,3}){3}$/.test(infra.value) ? 'ip' : 'domain',
+        value: infra.value,
+        confidence: campaign.confidence,
+        severity: infra.status === 'active' ? 'high' : 'medium',
+        firstSeen: infra.firstSeen,
+        lastSeen: infra.lastSeen,
+        tags: [infra.type, infra.status],
+      });
+      builder.relate(indicatorRef, 'indicates', campaignRef);
+    }
+
+    for (const sample of campaign.samples) {
+      const indicatorRef = builder.indicator({
+        type: `hash_${sample.hashType}` as IOCIndicator['type'],
+        value: sample.hash,
+        confidence: sample.confidence,
+        severity: 'high',
+        firstSeen: sample.firstSeen,
+        lastSeen: sample.lastSeen,
+        tags: sample.tags,
+      });
+      builder.relate(indicatorRef, 'indicates', builder.malware(sample.family, sample.type));
+    }
+  }
+
+  // Graph nodes become SCOs/SDOs, edges become relationships; TLP markings
+  // are honored first and annotations carried as markings, notes and tags
+  if (input.graph) {
+    const { graph } = applyTlpPolicy(input.graph, input.releaseTlp ?? DEFAULT_RELEASE_TLP);
+    const refs = new Map<string, string>();
+    for (const node of graph.nodes) {
+      const ref = builder.add(graphNodeToStix(node, builder.annotate(node.annotations)));
+      refs.set(node.id, ref);
+      builder.notes(node.annotations, ref);
+    }
+    for (const edge of graph.edges) {
+      const sourceRef = refs.get(edge.source);
+      const targetRef = refs.get(edge.target);
+      if (!sourceRef || !targetRef) continue;
+      const ref = builder.relate(sourceRef, TRANSFORM_RELATIONSHIPS[edge.type] || 'related-to', targetRef, {
+        x_osint_transform: edge.type,
+        x_osint_label: edge.label,
+        ...builder.annotate(edge.annotations),
+      });
+      builder.notes(edge.annotations, ref);
+    }
+  }
+
+  return builder.build();
+}
+
+export function downloadStixBundle(bundle: StixBundle, filename: string): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/stix+json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/* ============================================================================
+   IMPORT - BUNDLE PARSER
+============================================================================ */
+
+export function isStixBundle(data: unknown): data is StixBundle {
+  return !!data && typeof data === 'object'
+    && (data as StixBundle).type === 'bundle'
+    && Array.isArray((data as StixBundle).objects);
+}
+
+// Reverse of IOC_PATTERN_PATHS, tolerant of quoting and ipv6
+function patternPathToIOCType(objectType: string, path: string): IOCIndicator['type'] | null {
+  const normalized = path.replace(/["']/g, '').toUpperCase();
+  if (objectType === 'ipv4-addr' || objectType === 'ipv6-addr') return 'ip';
+  if (objectType === 'domain-name') return 'domain';
+  if (objectType === 'url') return 'url';
+  if (objectType === 'email-addr') return 'email';
+  if (objectType === 'mutex') return 'mutex';
+  if (objectType === 'windows-registry-key') return 'registry';
+  if (objectType === 'file') {
+    if (normalized.includes('SHA-256') || normalized.includes('SHA256')) return 'hash_sha256';
+    if (normalized.includes('SHA-1') || normalized.includes('SHA1')) return 'hash_sha1';
+    if (normalized.includes('MD5')) return 'hash_md5';
+    if (normalized === 'NAME' || normalized.endsWith('PATH')) return 'file_path';
+  }
+  return null;
+}
+
+/**
+ * Extract the equality comparisons from a STIX pattern. Only '=' comparisons
+ * carry an observable value; ranges, MATCHES and temporal qualifiers are ignored.
+ */
+export function parseStixPattern(pattern: string): { type: IOCIndicator['type']; value: string }[] {
+  const results: { type: IOCIndicator['type']; value: string }[] = [];
+  const comparison = /([a-z0-9-]+):([\w.'"-]+)\s*=\s*'((?:[^'\\]|\\.)*)'/gi;
+  let match: RegExpExecArray | null;
+  while ((match = comparison.exec(pattern)) !== null) {
+    const type = patternPathToIOCType(match[1].toLowerCase(), match[2]);
+    if (type) results.push({ type, value: match[3].replace(/\\(.)/g, '$1') });
+  }
+  return results;
+}
+
+const IOC_ENTITY_TYPES: Record<IOCIndicator['type'], EntityType> = {
+  ip: 'ip',
+  domain: 'domain',
+  url: 'url',
+  hash_md5: 'hash',
+  hash_sha1: 'hash',
+  hash_sha256: 'hash',
+  email: 'email',
+  mutex: 'malware',
+  registry: 'malware',
+  file_path: 'hash',
+};
+
+function stixObjectToEntity(object: StixObject): { type: EntityType; value: string } | null {
+  const custom = object.x_osint_entity_type as EntityType | undefined;
+  const str = (key: string) => (typeof object[key] === 'string' ? object[key] as string : '');
+
+  switch (object.type) {
+    case 'domain-name': return { type: custom || 'domain', value: str('value') };
+    case 'ipv4-addr':
+    case 'ipv6-addr': return { type: custom || (str('value').includes('/') ? 'netblock' : 'ip'), value: str('value') };
+    case 'email-addr': return { type: 'email', value: str('value') };
+    case 'url': return { type: 'url', value: str('value') };
+    case 'file': {
+      const hashes = (object.hashes || {}) as Record<string, string>;
+      const hash = hashes['SHA-256'] || hashes['SHA-1'] || hashes['MD5'] || Object.values(hashes)[0];
+      return hash ? { type: 'hash', value: hash } : str('name') ? { type: 'hash', value: str('name') } : null;
+    }
+    case 'autonomous-system': return { type: 'asn', value: `AS${object.number}` };
+    case 'x509-certificate': return { type: 'certificate', value: str('subject') || str('serial_number') };
+    case 'user-account': return { type: 'social_profile', value: str('account_login') || str('user_id') };
+    case 'malware': return { type: 'malware', value: str('name') };
+    case 'vulnerability': return { type: 'vulnerability', value: str('name') };
+    case 'threat-actor':
+    case 'intrusion-set': return { type: 'organization', value: str('name') };
+    case 'identity': return { type: str('identity_class') === 'individual' ? 'person' : 'organization', value: str('name') };
+    case 'location': {
+      const lat = object.latitude as number | undefined;
+      const lon = object.longitude as number | undefined;
+      return { type: 'geolocation', value: lat !== undefined && lon !== undefined ? `${lat},${lon}` : str('name') || str('country') };
+    }
+    case 'x-osint-entity': return custom ? { type: custom, value: str('name') } : null;
+    default: return null;
+  }
+}
+
+const THREAT_TYPES: Record<string, StixThreatRecord['threat_type']> = {
+  indicator: 'ioc',
+  malware: 'malware',
+  'threat-actor': 'actor',
+  'intrusion-set': 'actor',
+  campaign: 'campaign',
+  vulnerability: 'vulnerability',
+};
+
+/** Our own annotations when present, otherwise the TLP of the object's marking refs */
+function stixAnnotations(object: StixObject): EntityAnnotations | undefined {
+  const own = parseAnnotations(object.x_osint_annotations);
+  if (own) return own;
+  const refs = Array.isArray(object.object_marking_refs) ? object.object_marking_refs as string[] : [];
+  const tlp = refs
+    .map(ref => (Object.keys(TLP_MARKING_IDS) as TlpLevel[]).find(level => TLP_MARKING_IDS[level] === ref) || LEGACY_TLP_MARKING_IDS[ref])
+    .filter(Boolean)
+    .sort((a, b) => TLP_LEVELS.indexOf(b!) - TLP_LEVELS.indexOf(a!))[0];
+  return tlp ? { tlp } : undefined;
+}
+
+/**
+ * Bundles may carry several versions of one object; keep the latest
+ * `modified` per id, in first-seen order
+ */
+function latestVersions(objects: StixObject[]): StixObject[] {
+  const latest = new Map<string, StixObject>();
+  const anonymous: StixObject[] = [];
+  for (const object of objects) {
+    if (!object) continue;
+    if (!object.id) {
+      anonymous.push(object);
+      continue;
+    }
+    const current = latest.get(object.id);
+    const modified = (o: StixObject) => Date.parse(String(o.modified || o.created || '')) || 0;
+    if (!current || modified(object) >= modified(current)) latest.set(object.id, object);
+  }
+  return [...latest.values(), ...anonymous];
+}
+
+/**
+ * Parse a STIX 2.x bundle into IOCs, a graph and threat_intelligence rows
+ */
+export function parseStixBundle(raw: string | unknown): StixImportResult {
+  const data = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  if (!isStixBundle(data)) {
+    throw new Error('Not a STIX bundle: expected {"type": "bundle", "objects": [...]}');
+  }
+
+  const objects = latestVersions(data.objects);
+  const byId = new Map(objects.filter(o => o.id).map(o => [o.id, o]));
+  const producer = objects.find(o => o.type === 'identity' && o.identity_class === 'system')?.name;
+  const sourceName = `STIX: ${typeof producer === 'string' ? producer : 'Import'}`;
+
+  const indicators: IOCIndicator[] = [];
+  const records: StixThreatRecord[] = [];
+  const nodes = new Map<string, GraphNode>();
+  const refToNode = new Map<string, string>();
+  let skipped = 0;
+
+  const addNode = (ref: string, type: EntityType, value: string, object: StixObject) => {
+    if (!value) return;
+    const key = entityKey(type, value);
+    if (!nodes.has(key)) {
+      const position = object.x_osint_position as GraphNode['position'] | undefined;
+      const annotations = stixAnnotations(object);
+      const index = nodes.size;
+      nodes.set(key, {
+        id: canonicalEntityId(type, value),
+        type,
+        label: typeof object.x_osint_label === 'string' ? object.x_osint_label : value,
+        value,
+        properties: { stixId: ref, stixType: object.type },
+        position: position || { x: 200 + (index % 8) * 160, y: 150 + Math.floor(index / 8) * 140 },
+        color: ENTITY_CONFIG[type].color,
+        icon: ENTITY_CONFIG[type].icon,
+        size: 50,
+        metadata: {
+          ...(object.x_osint_metadata as GraphNode['metadata']),
+          source: sourceName,
+          ...(typeof object.confidence === 'number' ? { confidence: object.confidence } : {}),
+        },
+        ...(annotations ? { annotations } : {}),
+      });
+    }
+    refToNode.set(ref, nodes.get(key)!.id);
+  };
+
+  for (const object of objects) {
+    if (object.type === 'indicator') {
+      const observables = typeof object.pattern === 'string' ? parseStixPattern(object.pattern) : [];
+      if (observables.length === 0) {
+        skipped++;
+        continue;
+      }
+      const severity = (object.x_osint_severity as IOCIndicator['severity']) || 'medium';
+      for (const observable of observables) {
+        indicators.push({
+          ...observable,
+          confidence: typeof object.confidence === 'number' ? object.confidence : 50,
+          severity,
+          firstSeen: object.valid_from as string,
+          lastSeen: (object.x_osint_last_seen || object.valid_until) as string | undefined,
+          tags: Array.isArray(object.labels) ? object.labels as string[] : [],
+          context: object.description as string | undefined,
+        });
+      }
+      addNode(object.id, IOC_ENTITY_TYPES[observables[0].type], observables[0].value, object);
+    } else if (object.type !== 'relationship' && object.identity_class !== 'system') {
+      const entity = stixObjectToEntity(object);
+      if (entity) addNode(object.id, entity.type, entity.value, object);
+      else if (!['identity', 'marking-definition', 'note'].includes(object.type)) skipped++;
+    }
+
+    const threatType = THREAT_TYPES[object.type];
+    if (threatType) {
+      const observables = object.type === 'indicator' && typeof object.pattern === 'string' ? parseStixPattern(object.pattern) : [];
+      records.push({
+        source_id: object.id,
+        source_name: sourceName,
+        threat_type: threatType,
+        severity_level: (object.x_osint_severity as StixThreatRecord['severity_level']) || 'medium',
+        confidence_level: typeof object.confidence === 'number' ? object.confidence : 50,
+        title: String(object.name || object.pattern || object.id).slice(0, 500),
+        description: String(object.description || '').slice(0, 5000),
+        indicators: observables,
+        ttps: [],
+        targets: [],
+        attribution: null,
+        timeline: null,
+        metadata: { stix_type: object.type, spec_version: object.spec_version },
+        tags: Array.isArray(object.labels) ? object.labels as string[] : [],
+        status: 'active',
+        first_seen: toTimestamp((object.first_seen || object.valid_from || object.created) as string | undefined),
+        last_seen: toTimestamp((object.last_seen || object.modified) as string | undefined),
+        raw_data: object,
+      });
+    }
+  }
+
+  // Relationships -> graph edges and TTP / attribution enrichment of records
+  const edges: GraphEdge[] = [];
+  for (const rel of objects.filter(o => o.type === 'relationship')) {
+    const sourceRef = rel.source_ref as string;
+    const targetRef = rel.target_ref as string;
+    const target = byId.get(targetRef);
+    const record = records.find(r => r.source_id === sourceRef);
+
+    if (record && target?.type === 'attack-pattern') {
+      const mitre = (target.external_references as { source_name: string; external_id?: string }[] | undefined)
+        ?.find(ref => ref.source_name === 'mitre-attack');
+      if (mitre?.external_id) record.ttps.push(mitre.external_id);
+    }
+    if (record && rel.relationship_type === 'attributed-to' && typeof target?.name === 'string') {
+      record.attribution = target.name;
+    }
+
+    const source = refToNode.get(sourceRef);
+    const dest = refToNode.get(targetRef);
+    if (!source || !dest || source === dest) continue;
+    const annotations = stixAnnotations(rel);
+    edges.push({
+      // Keyed on the relationship, so `uses` and `indicates` between one pair both survive
+      id: `edge-${rel.id}`,
+      source,
+      target: dest,
+      label: typeof rel.x_osint_label === 'string' ? rel.x_osint_label : String(rel.relationship_type),
+      type: (rel.x_osint_transform as TransformType) || 'threat_intel',
+      color: '#64748b',
+      weight: 1,
+      metadata: { stixId: rel.id, relationshipType: rel.relationship_type },
+      ...(annotations ? { annotations } : {}),
+    });
+  }
+
+  // Partner notes become analyst notes; our own exports already carry them in x_osint_annotations
+  const nodesById = new Map([...nodes.values()].map(n => [n.id, n]));
+  for (const note of objects.filter(o => o.type === 'note' && typeof o.content === 'string')) {
+    for (const ref of Array.isArray(note.object_refs) ? note.object_refs as string[] : []) {
+      const node = nodesById.get(refToNode.get(ref) || '');
+      if (!node || byId.get(ref)?.x_osint_annotations) continue;
+      node.annotations = mergeAnnotations(node.annotations, {
+        notes: [{
+          id: note.id,
+          author: Array.isArray(note.authors) && note.authors.length ? String(note.authors[0]) : sourceName,
+          text: note.content as string,
+          createdAt: toTimestamp(note.created as string | undefined),
+        }],
+      });
+    }
+  }
+
+  return {
+    indicators,
+    graph: { nodes: [...nodes.values()], edges },
+    records,
+    stats: {
+      objects: data.objects.length,
+      indicators: indicators.length,
+      nodes: nodes.size,
+      edges: edges.length,
+      skipped,
+    },
+  };
+}
+
+/**
+ * Parse a bundle and upsert its SDOs into the threat_intelligence table
+ */
+export async function importStixBundle(raw: string | unknown): Promise<StixImportResult & { stored: number }> {
+  const result = parseStixBundle(raw);
+  let stored = 0;
+
+  for (let i = 0; i < result.records.length; i += 50) {
+    const batch = result.records.slice(i, i + 50);
+    const { error } = await supabase
+      .from('threat_intelligence')
+      .upsert(batch as unknown as TablesInsert<'threat_intelligence'>[], { onConflict: 'source_id,source_name', ignoreDuplicates: false });
+
+    if (error) {
+      console.warn('[STIX] Batch store error:', error.message);
+    } else {
+      stored += batch.length;
+    }
+  }
+
+  console.log(`[STIX] Imported ${result.stats.objects} objects, stored ${stored} records`);
+  return { ...result, stored };
+}
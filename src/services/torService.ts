@@ -1107,6 +1107,24 @@ async function scanLibraryOfLeaks(indicator: string, onSignal?: StreamCallback):
   return signals;
 }
 
+/* ============================================================================
+   PASTE SITE SCAN - Psbdmp, Pastebin archives, Rentry only
+============================================================================ */
+
+export async function scanPasteSites(
+  indicator: string,
+  onSignal?: StreamCallback
+): Promise<LeakSignal[]> {
+  const results = await Promise.allSettled([
+    scanPsbdmp(indicator, onSignal),
+    scanPastebinArchives(indicator, onSignal),
+    scanRentry(indicator, onSignal),
+  ]);
+
+  const signals = results.flatMap(r => (r.status === 'fulfilled' ? r.value : []));
+  return Array.from(new Map(signals.map(s => [s.url || s.id, s])).values());
+}
+
 /* ============================================================================
    MAIN AGGREGATOR - Stream Results in Real-Time (Enhanced)
 ============================================================================ */
@@ -0,0 +1,232 @@
+// ============================================================================
+// REMOTE TRANSFORM PACKS
+// ============================================================================
+// Exposes transforms served over HTTP (e.g. in-house enrichment scripts behind
+// a local server) in the graph. A pack server implements two endpoints:
+//
+//   GET  {url}/transforms        -> { name, description?, transforms: RemoteTransformManifest[] }
+//   POST {url}/transforms/{id}   <- { entity: { type, value, label, properties }, apiKeys }
+//                                -> { entities: RemoteEntity[] }
+//
+// apiKeys only holds keys the user entered for that pack (see
+// resolveTransformApiKey); shared and build-time keys are never sent.
+//
+// Configured servers are persisted in localStorage and re-registered on load.
+// Code-based packs can call registerTransformPack() from transformRegistry directly.
+// ============================================================================
+
+import { ENTITY_CONFIG, type EntityType, type GraphNode } from './graphService';
+import {
+  REMOTE_PACK_PREFIX,
+  registerTransformPack,
+  unregisterTransformPack,
+  type TransformDefinition,
+  type TransformRateLimit,
+} from './transformRegistry';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface RemoteTransformManifest {
+  id: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  inputTypes: EntityType[];
+  outputTypes: EntityType[];
+  rateLimit?: TransformRateLimit;
+  requiredApiKeys?: string[];
+}
+
+export interface RemoteEntity {
+  type: EntityType;
+  value: string;
+  label?: string;
+  properties?: Record<string, unknown>;
+}
+
+export interface RemotePackConfig {
+  id: string;
+  url: string;
+  name: string;
+  enabled: boolean;
+}
+
+export interface RemotePackStatus extends RemotePackConfig {
+  loaded: boolean;
+  transformCount: number;
+  error?: string;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+const STORAGE_KEY = 'graph_transform_packs';
+const MANIFEST_TIMEOUT_MS = 10_000;
+const RUN_TIMEOUT_MS = 60_000;
+
+const status = new Map<string, RemotePackStatus>();
+
+/* ============================================================================
+   HELPERS
+============================================================================ */
+
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function packIdForUrl(url: string): string {
+  return `${REMOTE_PACK_PREFIX}${normalizeBaseUrl(url).replace(/^https?:\/\//, '')}`;
+}
+
+function isEntityType(type: unknown): type is EntityType {
+  return typeof type === 'string' && type in ENTITY_CONFIG;
+}
+
+function loadConfigs(): RemotePackConfig[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function saveConfigs(configs: RemotePackConfig[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(configs));
+}
+
+function toGraphNode(entity: RemoteEntity, source: GraphNode, idx: number, packName: string): GraphNode {
+  const config = ENTITY_CONFIG[entity.type];
+  return {
+    id: `${entity.type}-${entity.value}-${Date.now()}-${idx}`,
+    type: entity.type,
+    label: entity.label || entity.value,
+    value: entity.value,
+    properties: entity.properties || {},
+    position: {
+      x: source.position.x + 250,
+      y: source.position.y + (idx * 80) - 40,
+    },
+    color: config.color,
+    icon: config.icon,
+    size: 50,
+    metadata: { source: packName, lastUpdated: new Date().toISOString() },
+  };
+}
+
+/* ============================================================================
+   REMOTE TRANSFORMS
+============================================================================ */
+
+function remoteTransform(baseUrl: string, packId: string, packName: string, manifest: RemoteTransformManifest): TransformDefinition {
+  return {
+    id: `${packId}:${manifest.id}`,
+    name: manifest.name,
+    description: manifest.description || `${packName} transform`,
+    icon: manifest.icon || '🧩',
+    inputTypes: manifest.inputTypes.filter(isEntityType),
+    outputTypes: manifest.outputTypes.filter(isEntityType),
+    rateLimit: manifest.rateLimit,
+    requiredApiKeys: manifest.requiredApiKeys,
+    run: async (node, context) => {
+      const response = await fetch(`${baseUrl}/transforms/${encodeURIComponent(manifest.id)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          entity: { type: node.type, value: node.value, label: node.label, properties: node.properties },
+          apiKeys: context.apiKeys,
+        }),
+        signal: AbortSignal.timeout(RUN_TIMEOUT_MS),
+      });
+      if (!response.ok) throw new Error(`${packName} returned ${response.status}`);
+
+      const data = await response.json();
+      const entities: unknown[] = Array.isArray(data?.entities) ? data.entities : [];
+      const valid = entities.filter((e): e is RemoteEntity =>
+        !!e && typeof e === 'object' && isEntityType((e as RemoteEntity).type) && typeof (e as RemoteEntity).value === 'string'
+      );
+      if (valid.length < entities.length) {
+        console.warn(`[TransformPacks] ${manifest.id} returned ${entities.length - valid.length} entities with unknown types`);
+      }
+      return valid.map((entity, idx) => toGraphNode(entity, node, idx, packName));
+    },
+  };
+}
+
+async function loadRemotePack(config: RemotePackConfig): Promise<RemotePackStatus> {
+  const baseUrl = normalizeBaseUrl(config.url);
+  try {
+    const response = await fetch(`${baseUrl}/transforms`, { signal: AbortSignal.timeout(MANIFEST_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`Manifest request failed with status ${response.status}`);
+    const manifest = await response.json();
+    if (!Array.isArray(manifest?.transforms)) throw new Error('Manifest has no transforms array');
+
+    const name = manifest.name || config.name;
+    const transforms = (manifest.transforms as RemoteTransformManifest[])
+      .filter(t => t?.id && t?.name && Array.isArray(t.inputTypes) && Array.isArray(t.outputTypes))
+      .map(t => remoteTransform(baseUrl, config.id, name, t));
+
+    registerTransformPack({ id: config.id, name, description: manifest.description, transforms });
+    return { ...config, name, loaded: true, transformCount: transforms.length };
+  } catch (error) {
+    console.error(`[TransformPacks] Failed to load ${baseUrl}:`, error);
+    unregisterTransformPack(config.id);
+    return { ...config, loaded: false, transformCount: 0, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/* ============================================================================
+   PUBLIC API
+============================================================================ */
+
+export function getRemotePackStatuses(): RemotePackStatus[] {
+  return loadConfigs().map(config => status.get(config.id) || { ...config, loaded: false, transformCount: 0 });
+}
+
+/** Adds a pack server, fetching its manifest immediately */
+export async function addRemotePack(url: string): Promise<RemotePackStatus> {
+  const baseUrl = normalizeBaseUrl(url);
+  if (!/^https?:\/\//i.test(baseUrl)) throw new Error('Pack URL must start with http:// or https://');
+
+  const config: RemotePackConfig = { id: packIdForUrl(baseUrl), url: baseUrl, name: baseUrl, enabled: true };
+  const result = await loadRemotePack(config);
+  status.set(config.id, result);
+  saveConfigs([...loadConfigs().filter(c => c.id !== config.id), { ...config, name: result.name }]);
+  return result;
+}
+
+export function removeRemotePack(id: string): void {
+  unregisterTransformPack(id);
+  status.delete(id);
+  saveConfigs(loadConfigs().filter(c => c.id !== id));
+}
+
+export async function setRemotePackEnabled(id: string, enabled: boolean): Promise<RemotePackStatus | undefined> {
+  const configs = loadConfigs().map(c => (c.id === id ? { ...c, enabled } : c));
+  saveConfigs(configs);
+  const config = configs.find(c => c.id === id);
+  if (!config) return undefined;
+
+  let result: RemotePackStatus;
+  if (enabled) {
+    result = await loadRemotePack(config);
+  } else {
+    unregisterTransformPack(id);
+    result = { ...config, loaded: false, transformCount: 0 };
+  }
+  status.set(id, result);
+  return result;
+}
+
+/** Registers every enabled pack server; failures are reported per pack */
+export async function loadRemotePacks(): Promise<RemotePackStatus[]> {
+  const results = await Promise.all(
+    loadConfigs().map(config =>
+      config.enabled ? loadRemotePack(config) : Promise.resolve({ ...config, loaded: false, transformCount: 0 })
+    )
+  );
+  results.forEach(result => status.set(result.id, result));
+  return results;
+}
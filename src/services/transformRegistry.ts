@@ -0,0 +1,217 @@
+// ============================================================================
+// GRAPH TRANSFORM REGISTRY
+// ============================================================================
+// Transforms are registered at runtime instead of being hardcoded in
+// graphService. Each transform declares the entity types it accepts and
+// produces, an optional rate limit and the API keys it needs; packs group
+// transforms so local or remote collections can be added and removed as a unit.
+// ============================================================================
+
+import type { EntityType, GraphNode, TransformType } from './graphService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export interface TransformRateLimit {
+  requests: number;           // Runs allowed per window
+  windowMs: number;
+}
+
+export interface TransformContext {
+  apiKeys: Record<string, string>;   // Resolved values for requiredApiKeys, scoped to the transform's pack
+}
+
+export interface TransformDefinition {
+  id: TransformType;
+  name: string;
+  description: string;
+  icon: string;
+  inputTypes: EntityType[];
+  outputTypes: EntityType[];
+  rateLimit?: TransformRateLimit;
+  requiredApiKeys?: string[];
+  pack?: string;              // Set on registration; 'builtin' for graphService transforms
+  run(node: GraphNode, context: TransformContext): Promise<GraphNode[]>;
+}
+
+export interface TransformPack {
+  id: string;
+  name: string;
+  description?: string;
+  transforms: TransformDefinition[];
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+export const BUILTIN_PACK_ID = 'builtin';
+export const REMOTE_PACK_PREFIX = 'remote:';
+const API_KEYS_STORAGE_KEY = 'graph_transform_api_keys';
+
+/* ============================================================================
+   REGISTRY
+============================================================================ */
+
+const transforms = new Map<string, TransformDefinition>();
+const packs = new Map<string, TransformPack>();
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+export function registerTransform(transform: TransformDefinition, packId = transform.pack || BUILTIN_PACK_ID): void {
+  if (transforms.has(transform.id) && transforms.get(transform.id)!.pack !== packId) {
+    console.warn(`[Transforms] ${transform.id} from ${packId} replaces the ${transforms.get(transform.id)!.pack} transform`);
+  }
+  transforms.set(transform.id, { ...transform, pack: packId });
+  notify();
+}
+
+export function unregisterTransform(id: TransformType): void {
+  if (transforms.delete(id)) notify();
+}
+
+/** Registers every transform of a pack, replacing an earlier version of the same pack */
+export function registerTransformPack(pack: TransformPack): void {
+  unregisterTransformPack(pack.id);
+  packs.set(pack.id, pack);
+  pack.transforms.forEach(transform => transforms.set(transform.id, { ...transform, pack: pack.id }));
+  console.log(`[Transforms] Registered pack ${pack.name} (${pack.transforms.length} transforms)`);
+  notify();
+}
+
+export function unregisterTransformPack(packId: string): void {
+  if (!packs.delete(packId)) return;
+  for (const [id, transform] of transforms) {
+    if (transform.pack === packId) transforms.delete(id);
+  }
+  notify();
+}
+
+export function getTransform(id: TransformType): TransformDefinition | undefined {
+  return transforms.get(id);
+}
+
+export function getTransforms(): TransformDefinition[] {
+  return Array.from(transforms.values());
+}
+
+export function getTransformsForEntity(type: EntityType): TransformDefinition[] {
+  return getTransforms().filter(t => t.inputTypes.includes(type));
+}
+
+export function getTransformPacks(): TransformPack[] {
+  return Array.from(packs.values());
+}
+
+/** Subscribe to registry changes; returns an unsubscribe function */
+export function subscribeTransforms(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/* ============================================================================
+   API KEYS
+============================================================================ */
+
+function loadStoredKeys(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(API_KEYS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function isRemotePack(packId: string): boolean {
+  return packId.startsWith(REMOTE_PACK_PREFIX);
+}
+
+// Built-in keys are shared; every other pack gets its own namespace
+function apiKeySlot(name: string, packId: string): string {
+  return packId === BUILTIN_PACK_ID ? name : `${packId}::${name}`;
+}
+
+export function setTransformApiKey(name: string, value: string, packId = BUILTIN_PACK_ID): void {
+  const keys = loadStoredKeys();
+  const slot = apiKeySlot(name, packId);
+  if (value.trim()) keys[slot] = value.trim();
+  else delete keys[slot];
+  localStorage.setItem(API_KEYS_STORAGE_KEY, JSON.stringify(keys));
+  notify();
+}
+
+/**
+ * Keys entered in the graph UI for this pack, then VITE_<NAME> build-time
+ * variables. Remote packs only ever get keys entered for them: a pack server
+ * could otherwise list any key name in its manifest and collect the secret.
+ */
+export function resolveTransformApiKey(name: string, packId = BUILTIN_PACK_ID): string | undefined {
+  const stored = loadStoredKeys()[apiKeySlot(name, packId)];
+  if (stored || isRemotePack(packId)) return stored || undefined;
+  const env = import.meta.env as Record<string, string | undefined>;
+  return env[`VITE_${name}`] || undefined;
+}
+
+export function getMissingApiKeys(transform: TransformDefinition): string[] {
+  const packId = transform.pack || BUILTIN_PACK_ID;
+  return (transform.requiredApiKeys || []).filter(name => !resolveTransformApiKey(name, packId));
+}
+
+/* ============================================================================
+   RATE LIMITING
+============================================================================ */
+
+const runHistory = new Map<string, number[]>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Waits until the transform has a free slot in its sliding window. Runs queue
+ * rather than fail so batch callers can fire many transforms at once.
+ */
+async function acquireSlot(transform: TransformDefinition): Promise<void> {
+  const limit = transform.rateLimit;
+  if (!limit) return;
+
+  for (;;) {
+    const now = Date.now();
+    const history = (runHistory.get(transform.id) || []).filter(t => now - t < limit.windowMs);
+    if (history.length < limit.requests) {
+      history.push(now);
+      runHistory.set(transform.id, history);
+      return;
+    }
+    runHistory.set(transform.id, history);
+    const wait = history[0] + limit.windowMs - now;
+    console.log(`[Transforms] ${transform.id} rate limited, waiting ${Math.ceil(wait / 1000)}s`);
+    await sleep(wait);
+  }
+}
+
+/* ============================================================================
+   EXECUTION
+============================================================================ */
+
+/** Checks entity type and API keys, waits for a rate-limit slot, then runs the transform */
+export async function runRegisteredTransform(id: TransformType, node: GraphNode): Promise<GraphNode[]> {
+  const transform = transforms.get(id);
+  if (!transform) throw new Error(`Transform ${id} is not registered`);
+  if (!transform.inputTypes.includes(node.type)) {
+    throw new Error(`${transform.name} does not accept ${node.type} entities`);
+  }
+
+  const missing = getMissingApiKeys(transform);
+  if (missing.length > 0) {
+    throw new Error(`${transform.name} requires API key${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`);
+  }
+
+  await acquireSlot(transform);
+
+  const apiKeys = Object.fromEntries(
+    (transform.requiredApiKeys || []).map(name => [name, resolveTransformApiKey(name, transform.pack || BUILTIN_PACK_ID)!])
+  );
+  return transform.run(node, { apiKeys });
+}
@@ -9,7 +9,7 @@
 // ============================================================================
 
 import { threatIntelligenceDB } from './threatIntelligenceDatabase';
-import { fetchAllThreatFeeds, type MalwareIndicator, type C2Server, type MalwareSample } from './mispFeedService';
+import { fetchAllThreatFeeds, fetchMispFeed, type MalwareIndicator, type C2Server, type MalwareSample } from './mispFeedService';
 import { fetchAPTMapData, type APTGroup } from './aptMapService';
 import { feodoTrackerService } from './feodoTrackerService';
 import { urlhausService } from './urlhausService';
@@ -71,6 +71,9 @@ export const THREAT_SOURCES = {
   TALOS: 'Cisco Talos',
   PHISHTANK: 'PhishTank',
   OPENPHISH: 'OpenPhish',
+  
+  // Community Sharing
+  MISP: 'MISP',
 } as const;
 
 export type ThreatSourceName = typeof THREAT_SOURCES[keyof typeof THREAT_SOURCES];
@@ -613,6 +616,15 @@ class UnifiedThreatPipelineService {
     } catch (e) {
       console.warn('[Pipeline] OpenPhish error:', e);
     }
+
+    // Fetch MISP community feed events
+    try {
+      const mispThreats = await fetchMispFeed();
+      threats.push(...mispThreats);
+      this.updateSourceStats(THREAT_SOURCES.MISP, mispThreats.length);
+    } catch (e) {
+      console.warn('[Pipeline] MISP feed error:', e);
+    }
     
     return threats;
   }
@@ -899,6 +911,12 @@ class UnifiedThreatPipelineService {
     return mapping[type] || 'malware';
   }
 
+  // Store externally sourced threats (e.g. imported MISP events)
+  async ingestThreats(threats: UnifiedThreat[]): Promise<number> {
+    const uniqueThreats = this.deduplicateThreats(threats);
+    return this.storeThreatsInDatabase(uniqueThreats);
+  }
+
   // Manual refresh trigger
   async refresh(): Promise<PipelineStats> {
     return this.syncAllSources();
@@ -28,10 +28,32 @@ export interface SavedGraph {
   graph_data: Record<string, any>;
   nodes_count: number;
   edges_count: number;
+  revision_count?: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface SavedGraphRevision {
+  id: string;
+  graph_id: string;
+  revision: number;
+  graph_data?: Record<string, any>;   // Omitted from history listings
+  nodes_count: number;
+  edges_count: number;
+  message: string | null;
+  created_at: string;
+}
+
+export type GraphRole = 'owner' | 'editor' | 'viewer';
+
+export interface SavedGraphMember {
+  graph_id: string;
+  user_id: string;
+  email: string | null;
+  role: Exclude<GraphRole, 'owner'>;
+  created_at: string;
+}
+
 export interface MonitoringItem {
   id: string;
   user_id: string;
@@ -231,7 +253,8 @@ export async function clearAllSearchHistory(): Promise<boolean> {
 export async function saveGraph(
   name: string,
   graphData: Record<string, any>,
-  description?: string
+  description?: string,
+  message?: string
 ): Promise<SavedGraph | null> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return null;
@@ -248,6 +271,7 @@ export async function saveGraph(
       graph_data: graphData,
       nodes_count: nodesCount,
       edges_count: edgesCount,
+      revision_message: message || 'Created',
     })
     .select()
     .single();
@@ -264,10 +288,10 @@ export async function getSavedGraphs(): Promise<SavedGraph[]> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return [];
 
+  // RLS returns the user's own graphs plus graphs shared with them
   const { data, error } = await supabase
     .from('saved_graphs')
     .select('*')
-    .eq('user_id', user.id)
     .order('updated_at', { ascending: false });
 
   if (error) {
@@ -295,13 +319,16 @@ export async function getGraph(id: string): Promise<SavedGraph | null> {
 
 export async function updateGraph(
   id: string,
-  updates: { name?: string; description?: string; graph_data?: Record<string, any> }
+  updates: { name?: string; description?: string; graph_data?: Record<string, any> },
+  message?: string
 ): Promise<SavedGraph | null> {
   const updateData: any = { ...updates };
   
   if (updates.graph_data) {
     updateData.nodes_count = updates.graph_data.nodes?.length || 0;
     updateData.edges_count = updates.graph_data.edges?.length || updates.graph_data.links?.length || 0;
+    // Each graph_data change is snapshotted into saved_graph_revisions by a trigger
+    updateData.revision_message = message || null;
   }
 
   const { data, error } = await supabase
@@ -333,6 +360,133 @@ export async function deleteGraph(id: string): Promise<boolean> {
   return true;
 }
 
+/* ============================================================================
+   SAVED GRAPH REVISIONS
+============================================================================ */
+
+export async function getGraphRevisions(graphId: string): Promise<SavedGraphRevision[]> {
+  const { data, error } = await supabase
+    .from('saved_graph_revisions')
+    .select('id, graph_id, revision, nodes_count, edges_count, message, created_at')
+    .eq('graph_id', graphId)
+    .order('revision', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching graph revisions:', error);
+    return [];
+  }
+
+  return data as SavedGraphRevision[];
+}
+
+export async function getGraphRevision(graphId: string, revision: number): Promise<SavedGraphRevision | null> {
+  const { data, error } = await supabase
+    .from('saved_graph_revisions')
+    .select('*')
+    .eq('graph_id', graphId)
+    .eq('revision', revision)
+    .single();
+
+  if (error) {
+    console.error('Error fetching graph revision:', error);
+    return null;
+  }
+
+  return data as SavedGraphRevision;
+}
+
+/** Restoring writes the old state as a new revision, so the restore itself can be undone */
+export async function restoreGraphRevision(graphId: string, revision: number): Promise<SavedGraph | null> {
+  const snapshot = await getGraphRevision(graphId, revision);
+  if (!snapshot?.graph_data) return null;
+
+  return updateGraph(graphId, { graph_data: snapshot.graph_data }, `Restored revision ${revision}`);
+}
+
+/* ============================================================================
+   SAVED GRAPH SHARING
+============================================================================ */
+
+export async function getGraphRole(graphId: string): Promise<GraphRole | null> {
+  const { data, error } = await supabase.rpc('graph_role', { _graph_id: graphId });
+
+  if (error) {
+    console.error('Error fetching graph role:', error);
+    return null;
+  }
+
+  return data as GraphRole | null;
+}
+
+export async function getGraphMembers(graphId: string): Promise<SavedGraphMember[]> {
+  const { data, error } = await supabase
+    .from('saved_graph_members')
+    .select('*')
+    .eq('graph_id', graphId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching graph members:', error);
+    return [];
+  }
+
+  return data as SavedGraphMember[];
+}
+
+/** Throws with the server's message (unknown address, not the owner) so the caller can show it */
+export async function addGraphMember(
+  graphId: string,
+  email: string,
+  role: SavedGraphMember['role']
+): Promise<SavedGraphMember> {
+  const { data, error } = await supabase.rpc('add_graph_member', {
+    _graph_id: graphId,
+    _email: email,
+    _role: role,
+  });
+
+  if (error) {
+    console.error('Error adding graph member:', error);
+    throw new Error(error.message);
+  }
+
+  return data as SavedGraphMember;
+}
+
+export async function updateGraphMemberRole(
+  graphId: string,
+  userId: string,
+  role: SavedGraphMember['role']
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('saved_graph_members')
+    .update({ role })
+    .eq('graph_id', graphId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error updating graph member:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function removeGraphMember(graphId: string, userId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('saved_graph_members')
+    .delete()
+    .eq('graph_id', graphId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error removing graph member:', error);
+    return false;
+  }
+
+  return true;
+}
+
 /* ============================================================================
    MONITORING OPERATIONS
 ============================================================================ */
@@ -632,6 +786,12 @@ export async function getCurrentUserId(): Promise<string | null> {
   return user?.id || null;
 }
 
+/** Name shown on authored content such as analyst notes */
+export async function getCurrentUserName(): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  return user ? user.user_metadata?.display_name || user.email || null : null;
+}
+
 export async function signOut(): Promise<boolean> {
   const { error } = await supabase.auth.signOut();
   if (error) {
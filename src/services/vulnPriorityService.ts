@@ -0,0 +1,263 @@
+// ============================================================================
+// VULNERABILITY PRIORITIZATION
+// ============================================================================
+// One 0-100 priority per CVE answering "what do we patch first". It is a
+// weighted blend of severity (CVSS), likelihood (EPSS), evidence of
+// exploitation (CISA KEV, public PoCs, ransomware campaign use) and how much of
+// our own inventory is exposed. Weights are user-configurable and every score
+// carries the per-factor breakdown that produced it.
+// ============================================================================
+
+import type { AssetCriticality } from '@/types/osint';
+import { getExposures, getInventory, groupExposuresByCVE, matchCVEsToAssets, type SoftwareAsset } from './assetExposureService';
+import { isKnownExploited, type ComprehensiveCVEData, type CVEData } from './cveService';
+import { getEPSS, type EPSSScore } from './epssService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export type PriorityFactor = 'cvss' | 'epss' | 'kev' | 'poc' | 'ransomware' | 'exposure';
+
+export type PriorityWeights = Record<PriorityFactor, number>;
+
+export type PriorityTier = 'P1' | 'P2' | 'P3' | 'P4';
+
+export interface CVEExposureSummary {
+  assets: number;
+  highestCriticality: AssetCriticality;
+}
+
+export interface PriorityInput {
+  cve: CVEData | ComprehensiveCVEData;
+  epss?: EPSSScore;
+  exposure?: CVEExposureSummary;
+}
+
+export interface PriorityFactorScore {
+  factor: PriorityFactor;
+  value: number;              // Normalised 0-1
+  weight: number;
+  points: number;             // Contribution to the 0-100 score
+  detail: string;
+}
+
+export interface PriorityResult {
+  cveId: string;
+  score: number;
+  tier: PriorityTier;
+  factors: PriorityFactorScore[];
+  rationale: string[];        // Contributing factors, largest first
+}
+
+export interface PrioritizedCVE {
+  cve: CVEData;
+  epss?: EPSSScore;
+  exposure?: CVEExposureSummary;
+  priority: PriorityResult;
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+export const PRIORITY_FACTORS: Record<PriorityFactor, { label: string; description: string }> = {
+  cvss: { label: 'CVSS', description: 'Base severity score, 0-10' },
+  epss: { label: 'EPSS', description: 'Probability of exploitation in the next 30 days, blended with its percentile' },
+  kev: { label: 'CISA KEV', description: 'Listed as exploited in the wild' },
+  poc: { label: 'Public PoC', description: 'Exploit-DB entries and GitHub PoC repositories, full at 5' },
+  ransomware: { label: 'Ransomware use', description: 'KEV marks it as used in ransomware campaigns' },
+  exposure: { label: 'Our exposure', description: 'Inventoried assets running an affected version' },
+};
+
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = {
+  cvss: 20,
+  epss: 25,
+  kev: 25,
+  poc: 10,
+  ransomware: 10,
+  exposure: 10,
+};
+
+export const PRIORITY_TIERS: Record<PriorityTier, { min: number; label: string }> = {
+  P1: { min: 70, label: 'Patch now' },
+  P2: { min: 50, label: 'This week' },
+  P3: { min: 30, label: 'This cycle' },
+  P4: { min: 0, label: 'Backlog' },
+};
+
+const STORAGE_KEY = 'cve_priority_weights';
+const POC_SATURATION = 5;
+// Raw EPSS probabilities sit near 0 for almost every CVE, so on their own they
+// barely move the score; the percentile says how it ranks against the rest
+const EPSS_PERCENTILE_SHARE = 0.5;
+
+/* ============================================================================
+   WEIGHTS
+============================================================================ */
+
+export function getPriorityWeights(): PriorityWeights {
+  try {
+    return { ...DEFAULT_PRIORITY_WEIGHTS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_PRIORITY_WEIGHTS };
+  }
+}
+
+export function savePriorityWeights(weights: PriorityWeights): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(weights));
+}
+
+export function resetPriorityWeights(): PriorityWeights {
+  localStorage.removeItem(STORAGE_KEY);
+  return { ...DEFAULT_PRIORITY_WEIGHTS };
+}
+
+/* ============================================================================
+   SCORING
+============================================================================ */
+
+/** Public exploit code known for a CVE, from whichever enrichment it carries */
+export function countPublicExploits(cve: CVEData | ComprehensiveCVEData): number {
+  if ('githubPoCs' in cve) return cve.exploits.length + cve.githubPoCs.length;
+  return (cve.pocRepos?.length || 0) + (cve.exploitDetails ? 1 : 0);
+}
+
+/** Whether PoC sources were searched for a CVE; if not, a zero count means unknown, not none */
+export function exploitsChecked(cve: CVEData | ComprehensiveCVEData): boolean {
+  return 'githubPoCs' in cve || cve.pocRepos !== undefined || !!cve.exploitDetails;
+}
+
+function kevOf(cve: CVEData | ComprehensiveCVEData) {
+  return ('kevData' in cve ? cve.kevData : undefined) || cve.kev;
+}
+
+export function getPriorityTier(score: number): PriorityTier {
+  return (Object.keys(PRIORITY_TIERS) as PriorityTier[]).find(tier => score >= PRIORITY_TIERS[tier].min) || 'P4';
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(value < 0.1 ? 1 : 0)}%`;
+
+export function scoreCVEPriority(input: PriorityInput, weights: PriorityWeights = getPriorityWeights()): PriorityResult {
+  const { cve, epss, exposure } = input;
+  const kev = kevOf(cve);
+  const exploits = countPublicExploits(cve);
+  const ransomware = kev?.knownRansomwareCampaignUse === 'Known';
+
+  const factors: Omit<PriorityFactorScore, 'weight' | 'points'>[] = [
+    {
+      factor: 'cvss',
+      value: Math.min(1, Math.max(0, cve.cvss.score / 10)),
+      detail: cve.cvss.score > 0 ? `CVSS ${cve.cvss.score.toFixed(1)} (${cve.cvss.severity.toLowerCase()})` : 'No CVSS score',
+    },
+    {
+      factor: 'epss',
+      value: epss ? EPSS_PERCENTILE_SHARE * epss.percentile + (1 - EPSS_PERCENTILE_SHARE) * epss.epss : 0,
+      detail: epss
+        ? `EPSS ${percent(epss.epss)} chance of exploitation in 30 days, ${Math.floor(epss.percentile * 100)}th percentile`
+        : 'No EPSS score',
+    },
+    {
+      factor: 'kev',
+      value: kev ? 1 : 0,
+      detail: kev ? `In CISA KEV since ${kev.dateAdded}${kev.dueDate ? `, federal due date ${kev.dueDate}` : ''}` : 'Not in CISA KEV',
+    },
+    {
+      factor: 'poc',
+      value: Math.min(1, exploits / POC_SATURATION),
+      detail: exploits > 0 ? `${exploits} public exploit${exploits === 1 ? '' : 's'} or PoC${exploits === 1 ? '' : 's'}`
+        : exploitsChecked(cve) ? 'No public PoC known' : 'PoC availability not checked',
+    },
+    {
+      factor: 'ransomware',
+      value: ransomware ? 1 : 0,
+      detail: ransomware ? 'Used in ransomware campaigns' : 'No known ransomware use',
+    },
+    {
+      factor: 'exposure',
+      // One exposed asset counts most of the way; more assets or a critical one fill it
+      value: !exposure?.assets ? 0
+        : exposure.highestCriticality === 'critical' ? 1
+        : Math.min(1, 0.6 + 0.1 * (exposure.assets - 1)),
+      detail: exposure?.assets
+        ? `Affects ${exposure.assets} of our assets (highest criticality: ${exposure.highestCriticality})`
+        : 'No inventoried asset affected',
+    },
+  ];
+
+  const totalWeight = Object.values(weights).reduce((sum, w) => sum + Math.max(0, w), 0) || 1;
+  const scored: PriorityFactorScore[] = factors.map(f => {
+    const weight = Math.max(0, weights[f.factor] || 0);
+    return { ...f, weight, points: Math.round((f.value * weight * 1000) / totalWeight) / 10 };
+  });
+  const score = Math.round(scored.reduce((sum, f) => sum + f.points, 0));
+
+  return {
+    cveId: cve.id,
+    score,
+    tier: getPriorityTier(score),
+    factors: scored,
+    rationale: scored
+      .filter(f => f.points > 0)
+      .sort((a, b) => b.points - a.points)
+      .map(f => `${f.detail} (+${f.points})`),
+  };
+}
+
+const CRITICALITY_RANK: Record<AssetCriticality, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+function summarizeAssets(assets: SoftwareAsset[]): CVEExposureSummary {
+  return {
+    assets: assets.length,
+    highestCriticality: assets.reduce<AssetCriticality>(
+      (max, asset) => (CRITICALITY_RANK[asset.criticality] > CRITICALITY_RANK[max] ? asset.criticality : max),
+      'low'
+    ),
+  };
+}
+
+/**
+ * Inventory exposure per CVE: results of the last asset exposure scan, plus
+ * live matches for listed CVEs that carry their own CPE configurations.
+ */
+export async function getExposureSummaries(cves: CVEData[] = []): Promise<Map<string, CVEExposureSummary>> {
+  const summaries = new Map<string, CVEExposureSummary>();
+  try {
+    const [exposures, assets] = await Promise.all([getExposures(), getInventory()]);
+    for (const group of groupExposuresByCVE(exposures, assets)) {
+      summaries.set(group.cveId, summarizeAssets(group.assets.map(a => a.asset)));
+    }
+
+    const live = new Map<string, SoftwareAsset[]>();
+    for (const match of matchCVEsToAssets(cves.filter(c => !summaries.has(c.id.toUpperCase())), assets)) {
+      const id = match.cve.id.toUpperCase();
+      live.set(id, [...(live.get(id) || []), match.asset]);
+    }
+    live.forEach((matched, id) => summaries.set(id, summarizeAssets(matched)));
+  } catch (error) {
+    console.warn('[Priority] Could not load asset exposures:', error);
+  }
+  return summaries;
+}
+
+/**
+ * Score a list of CVEs, highest priority first. EPSS, KEV status and
+ * inventory exposure are looked up here; PoC counts come from whatever
+ * enrichment the CVEs already carry.
+ */
+export async function prioritizeCVEs(
+  cves: CVEData[],
+  weights: PriorityWeights = getPriorityWeights()
+): Promise<PrioritizedCVE[]> {
+  const [epss, exposures] = await Promise.all([getEPSS(cves.map(c => c.id)), getExposureSummaries(cves)]);
+
+  const results = await Promise.all(cves.map(async (cve) => {
+    const id = cve.id.toUpperCase();
+    const kev = kevOf(cve) || (await isKnownExploited(id)) || undefined;
+    const enriched = kev && !cve.kev ? { ...cve, kev } : cve;
+    const input: PriorityInput = { cve: enriched, epss: cve.epss || epss.get(id), exposure: exposures.get(id) };
+    return { ...input, cve: enriched, priority: scoreCVEPriority(input, weights) };
+  }));
+
+  return results.sort((a, b) => b.priority.score - a.priority.score);
+}
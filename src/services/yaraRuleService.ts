@@ -0,0 +1,1607 @@
+// ============================================================================
+// YARA RULE SERVICE
+// ============================================================================
+// Parses and lints YARA rule source and runs rules against sample bytes
+// locally. Covers the YARA 4.x rule language except module internals: module
+// identifiers resolve to undefined, exactly like a scan where the module has
+// no data for the file.
+// ============================================================================
+
+import type { RuleIssue, RuleValidationResult } from '@/services/detectionEngineService';
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export type YaraStringKind = 'text' | 'hex' | 'regex';
+
+export interface YaraStringModifier {
+  name: string;
+  args?: string[];
+}
+
+export interface YaraStringDef {
+  id: string;
+  kind: YaraStringKind;
+  value: string; // Decoded text, raw hex body or regex source
+  flags?: string; // Regex flags (i, s)
+  modifiers: YaraStringModifier[];
+  line: number;
+}
+
+export type YaraExpr =
+  | { type: 'bool'; value: boolean }
+  | { type: 'number'; value: number }
+  | { type: 'text'; value: string }
+  | { type: 'regex'; pattern: string; flags: string }
+  | { type: 'filesize' }
+  | { type: 'entrypoint' }
+  | { type: 'strref'; id: string; at?: YaraExpr; range?: [YaraExpr, YaraExpr] }
+  | { type: 'count'; id: string; range?: [YaraExpr, YaraExpr] }
+  | { type: 'offset' | 'length'; id: string; index?: YaraExpr }
+  | { type: 'of'; quantifier: YaraQuantifier; set: YaraSet; at?: YaraExpr; range?: [YaraExpr, YaraExpr] }
+  | { type: 'for_of'; quantifier: YaraQuantifier; set: YaraSet; body: YaraExpr }
+  | { type: 'for_in'; quantifier: YaraQuantifier; vars: string[]; iterable: YaraIterable; body: YaraExpr }
+  | { type: 'ident'; name: string }
+  | { type: 'member'; object: YaraExpr; name: string }
+  | { type: 'index'; object: YaraExpr; index: YaraExpr }
+  | { type: 'call'; callee: YaraExpr; args: YaraExpr[] }
+  | { type: 'unary'; op: string; arg: YaraExpr }
+  | { type: 'binary'; op: string; left: YaraExpr; right: YaraExpr };
+
+export type YaraQuantifier =
+  | { kind: 'all' | 'any' | 'none' }
+  | { kind: 'count'; value: YaraExpr }
+  | { kind: 'percent'; value: YaraExpr };
+
+// String ids ($a, $s*) or rule names for rule sets; 'them' = every string
+export type YaraSet = { kind: 'them' } | { kind: 'strings'; items: string[] } | { kind: 'rules'; items: string[] };
+
+export type YaraIterable =
+  | { kind: 'range'; from: YaraExpr; to: YaraExpr }
+  | { kind: 'list'; items: YaraExpr[] }
+  | { kind: 'expr'; value: YaraExpr };
+
+export interface YaraRuleAst {
+  name: string;
+  isPrivate: boolean;
+  isGlobal: boolean;
+  tags: string[];
+  meta: { key: string; value: string | number | boolean }[];
+  strings: YaraStringDef[];
+  condition: YaraExpr;
+  line: number;
+}
+
+export interface YaraParseResult {
+  imports: string[];
+  includes: string[];
+  rules: YaraRuleAst[];
+  issues: RuleIssue[];
+}
+
+export interface YaraStringMatch {
+  id: string;
+  offsets: number[];
+  truncated?: boolean;
+}
+
+export interface YaraScanMatch {
+  rule: string;
+  matched: boolean;
+  strings: YaraStringMatch[];
+  unsupported: string[]; // Strings the local scanner could not evaluate
+}
+
+export interface YaraSample {
+  name: string;
+  data: Uint8Array;
+}
+
+export interface YaraHarnessResult {
+  validation: RuleValidationResult;
+  samples: { sample: string; size: number; matches: YaraScanMatch[] }[];
+}
+
+/* ============================================================================
+   CONSTANTS
+============================================================================ */
+
+const KEYWORDS = new Set([
+  'all', 'and', 'any', 'ascii', 'at', 'base64', 'base64wide', 'condition', 'contains', 'defined',
+  'endswith', 'entrypoint', 'false', 'filesize', 'for', 'fullword', 'global', 'import', 'icontains',
+  'iendswith', 'iequals', 'in', 'include', 'int16', 'int16be', 'int32', 'int32be', 'int8', 'int8be',
+  'istartswith', 'matches', 'meta', 'nocase', 'none', 'not', 'of', 'or', 'private', 'rule',
+  'startswith', 'strings', 'them', 'true', 'uint16', 'uint16be', 'uint32', 'uint32be', 'uint8',
+  'uint8be', 'wide', 'xor',
+]);
+
+const KNOWN_MODULES = new Set([
+  'pe', 'elf', 'math', 'hash', 'cuckoo', 'magic', 'dotnet', 'time', 'console', 'string', 'lnk', 'dex', 'macho',
+]);
+
+const INT_FUNCTIONS: Record<string, { size: 1 | 2 | 4; signed: boolean; bigEndian: boolean }> = {
+  int8: { size: 1, signed: true, bigEndian: false },
+  int16: { size: 2, signed: true, bigEndian: false },
+  int32: { size: 4, signed: true, bigEndian: false },
+  uint8: { size: 1, signed: false, bigEndian: false },
+  uint16: { size: 2, signed: false, bigEndian: false },
+  uint32: { size: 4, signed: false, bigEndian: false },
+  int8be: { size: 1, signed: true, bigEndian: true },
+  int16be: { size: 2, signed: true, bigEndian: true },
+  int32be: { size: 4, signed: true, bigEndian: true },
+  uint8be: { size: 1, signed: false, bigEndian: true },
+  uint16be: { size: 2, signed: false, bigEndian: true },
+  uint32be: { size: 4, signed: false, bigEndian: true },
+};
+
+const TEXT_MODIFIERS = new Set(['ascii', 'wide', 'nocase', 'fullword', 'private', 'xor', 'base64', 'base64wide']);
+const HEX_MODIFIERS = new Set(['private']);
+const REGEX_MODIFIERS = new Set(['ascii', 'wide', 'nocase', 'fullword', 'private']);
+
+const MAX_IDENTIFIER_LENGTH = 128;
+const MAX_MATCHES_PER_STRING = 1000;
+
+/* ============================================================================
+   LEXER
+============================================================================ */
+
+type TokenType = 'ident' | 'text' | 'number' | 'strid' | 'count' | 'offset' | 'length' | 'regex' | 'hex' | 'punct' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  flags?: string;
+  num?: number;
+  line: number;
+  column: number;
+}
+
+class YaraSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+    this.name = 'YaraSyntaxError';
+  }
+}
+
+const PUNCTUATION = ['..', '==', '!=', '<=', '>=', '<<', '>>', '{', '}', '(', ')', '[', ']', ':', '=', ',', '.', '<', '>', '+', '-', '*', '\\', '%', '&', '|', '^', '~'];
+
+function isIdentStart(ch: string): boolean {
+  return /[A-Za-z_]/.test(ch);
+}
+
+function isIdentChar(ch: string): boolean {
+  return /[A-Za-z0-9_]/.test(ch);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const error = (message: string, at = pos): never => {
+    throw new YaraSyntaxError(message, line, at - lineStart + 1);
+  };
+
+  const push = (type: TokenType, value: string, start: number, extra: Partial<Token> = {}) => {
+    tokens.push({ type, value, line, column: start - lineStart + 1, ...extra });
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+    const next = source[pos + 1];
+
+    if (ch === '\n') {
+      line++;
+      pos++;
+      lineStart = pos;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    // Comments
+    if (ch === '/' && next === '/') {
+      while (pos < source.length && source[pos] !== '\n') pos++;
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      const end = source.indexOf('*/', pos + 2);
+      if (end === -1) error('unterminated comment');
+      for (let i = pos; i < end; i++) {
+        if (source[i] === '\n') {
+          line++;
+          lineStart = i + 1;
+        }
+      }
+      pos = end + 2;
+      continue;
+    }
+
+    const start = pos;
+    const prev = tokens[tokens.length - 1];
+
+    // Hex strings only follow '=' in the strings section
+    if (ch === '{' && prev?.type === 'punct' && prev.value === '=') {
+      const end = source.indexOf('}', pos);
+      if (end === -1) error('unterminated hex string');
+      const body = source.slice(pos + 1, end);
+      push('hex', body, start);
+      for (const c of body) {
+        if (c === '\n') line++;
+      }
+      if (body.includes('\n')) lineStart = source.lastIndexOf('\n', end) + 1;
+      pos = end + 1;
+      continue;
+    }
+
+    // Regular expressions follow '=' (strings section) or 'matches'
+    if (ch === '/' && prev && ((prev.type === 'punct' && prev.value === '=') || (prev.type === 'ident' && prev.value === 'matches'))) {
+      let i = pos + 1;
+      let inClass = false;
+      let body = '';
+      while (i < source.length) {
+        const c = source[i];
+        if (c === '\n') error('unterminated regular expression');
+        if (c === '\\') {
+          body += c + (source[i + 1] ?? '');
+          i += 2;
+          continue;
+        }
+        if (c === '[') inClass = true;
+        else if (c === ']') inClass = false;
+        else if (c === '/' && !inClass) break;
+        body += c;
+        i++;
+      }
+      if (i >= source.length) error('unterminated regular expression');
+      i++;
+      let flags = '';
+      while (i < source.length && /[is]/.test(source[i])) flags += source[i++];
+      if (!body) error('empty regular expression');
+      push('regex', body, start, { flags });
+      pos = i;
+      continue;
+    }
+
+    // Text strings
+    if (ch === '"') {
+      let i = pos + 1;
+      let value = '';
+      while (i < source.length && source[i] !== '"') {
+        const c = source[i];
+        if (c === '\n') error('unterminated string');
+        if (c === '\\') {
+          const esc = source[i + 1];
+          if (esc === '"' || esc === '\\') value += esc;
+          else if (esc === 'n') value += '\n';
+          else if (esc === 't') value += '\t';
+          else if (esc === 'r') value += '\r';
+          else if (esc === 'x' && /^[0-9A-Fa-f]{2}$/.test(source.slice(i + 2, i + 4))) {
+            value += String.fromCharCode(parseInt(source.slice(i + 2, i + 4), 16));
+            i += 2;
+          } else {
+            error(`illegal escape sequence \\${esc ?? ''}`, i);
+          }
+          i += 2;
+          continue;
+        }
+        value += c;
+        i++;
+      }
+      if (i >= source.length) error('unterminated string');
+      push('text', value, start);
+      pos = i + 1;
+      continue;
+    }
+
+    // String identifiers, counts, offsets and lengths
+    if (ch === '$' || ch === '#' || ch === '@' || (ch === '!' && next !== '=')) {
+      let i = pos + 1;
+      while (i < source.length && isIdentChar(source[i])) i++;
+      if (ch === '$' && source[i] === '*') i++;
+      const type: TokenType = ch === '$' ? 'strid' : ch === '#' ? 'count' : ch === '@' ? 'offset' : 'length';
+      push(type, '$' + source.slice(pos + 1, i), start);
+      pos = i;
+      continue;
+    }
+
+    // Numbers
+    if (/[0-9]/.test(ch)) {
+      let i = pos;
+      let num: number;
+      if (ch === '0' && (next === 'x' || next === 'X')) {
+        i += 2;
+        while (i < source.length && /[0-9A-Fa-f]/.test(source[i])) i++;
+        if (i === pos + 2) error('invalid hexadecimal number');
+        num = parseInt(source.slice(pos + 2, i), 16);
+      } else if (ch === '0' && next === 'o') {
+        i += 2;
+        while (i < source.length && /[0-7]/.test(source[i])) i++;
+        num = parseInt(source.slice(pos + 2, i), 8);
+      } else {
+        while (i < source.length && /[0-9]/.test(source[i])) i++;
+        if (source[i] === '.' && /[0-9]/.test(source[i + 1] ?? '')) {
+          i++;
+          while (i < source.length && /[0-9]/.test(source[i])) i++;
+        }
+        num = Number(source.slice(pos, i));
+        if (source.startsWith('KB', i)) {
+          num *= 1024;
+          i += 2;
+        } else if (source.startsWith('MB', i)) {
+          num *= 1024 * 1024;
+          i += 2;
+        }
+      }
+      if (i < source.length && isIdentChar(source[i])) error('invalid number');
+      push('number', source.slice(pos, i), start, { num });
+      pos = i;
+      continue;
+    }
+
+    if (isIdentStart(ch)) {
+      let i = pos;
+      while (i < source.length && isIdentChar(source[i])) i++;
+      push('ident', source.slice(pos, i), start);
+      pos = i;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find(p => source.startsWith(p, pos));
+    if (!punct) error(`unexpected character '${ch}'`);
+    push('punct', punct, start);
+    pos += punct.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', line, column: pos - lineStart + 1 });
+  return tokens;
+}
+
+/* ============================================================================
+   PARSER
+============================================================================ */
+
+class YaraParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private is(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return (token.type === 'punct' || token.type === 'ident') && token.value === value;
+  }
+
+  private accept(value: string): boolean {
+    if (this.is(value)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private fail(message: string, token = this.peek()): never {
+    const found = token.type === 'eof' ? 'end of file' : `'${token.value}'`;
+    throw new YaraSyntaxError(`${message}, found ${found}`, token.line, token.column);
+  }
+
+  private expect(value: string): Token {
+    if (!this.is(value)) this.fail(`expected '${value}'`);
+    return this.advance();
+  }
+
+  private identifier(what: string): Token {
+    const token = this.peek();
+    if (token.type !== 'ident' || KEYWORDS.has(token.value)) this.fail(`expected ${what}`);
+    return this.advance();
+  }
+
+  parseFile(): Omit<YaraParseResult, 'issues'> {
+    const imports: string[] = [];
+    const includes: string[] = [];
+    const rules: YaraRuleAst[] = [];
+
+    while (this.peek().type !== 'eof') {
+      if (this.accept('import')) {
+        const token = this.advance();
+        if (token.type !== 'text') this.fail('expected module name string', token);
+        imports.push(token.value);
+      } else if (this.accept('include')) {
+        const token = this.advance();
+        if (token.type !== 'text') this.fail('expected include path string', token);
+        includes.push(token.value);
+      } else {
+        rules.push(this.parseRule());
+      }
+    }
+
+    return { imports, includes, rules };
+  }
+
+  private parseRule(): YaraRuleAst {
+    const first = this.peek();
+    let isPrivate = false;
+    let isGlobal = false;
+    while (this.is('private') || this.is('global')) {
+      if (this.advance().value === 'private') isPrivate = true;
+      else isGlobal = true;
+    }
+    this.expect('rule');
+    const name = this.identifier('rule identifier').value;
+
+    const tags: string[] = [];
+    if (this.accept(':')) {
+      while (this.peek().type === 'ident' && !this.is('{')) {
+        tags.push(this.identifier('tag').value);
+      }
+      if (tags.length === 0) this.fail('expected tag');
+    }
+
+    this.expect('{');
+    const meta: YaraRuleAst['meta'] = [];
+    const strings: YaraStringDef[] = [];
+
+    if (this.accept('meta')) {
+      this.expect(':');
+      while (this.peek().type === 'ident' && !this.is('strings') && !this.is('condition')) {
+        const key = this.advance().value;
+        this.expect('=');
+        const token = this.advance();
+        if (token.type === 'text') meta.push({ key, value: token.value });
+        else if (token.type === 'number') meta.push({ key, value: token.num! });
+        else if (token.type === 'punct' && token.value === '-' && this.peek().type === 'number') meta.push({ key, value: -this.advance().num! });
+        else if (token.type === 'ident' && (token.value === 'true' || token.value === 'false')) meta.push({ key, value: token.value === 'true' });
+        else this.fail('expected string, number or boolean meta value', token);
+      }
+    }
+
+    if (this.accept('strings')) {
+      this.expect(':');
+      while (this.peek().type === 'strid') {
+        strings.push(this.parseStringDef());
+      }
+      if (strings.length === 0) this.fail('expected string definition');
+    }
+
+    this.expect('condition');
+    this.expect(':');
+    const condition = this.parseExpr();
+    this.expect('}');
+
+    return { name, isPrivate, isGlobal, tags, meta, strings, condition, line: first.line };
+  }
+
+  private parseStringDef(): YaraStringDef {
+    const idToken = this.advance();
+    if (idToken.value.endsWith('*')) this.fail('wildcards are not allowed in string identifiers', idToken);
+    this.expect('=');
+    const valueToken = this.advance();
+
+    let kind: YaraStringKind;
+    if (valueToken.type === 'text') kind = 'text';
+    else if (valueToken.type === 'hex') kind = 'hex';
+    else if (valueToken.type === 'regex') kind = 'regex';
+    else this.fail('expected text string, hex string or regular expression', valueToken);
+
+    const modifiers: YaraStringModifier[] = [];
+    while (this.peek().type === 'ident' && TEXT_MODIFIERS.has(this.peek().value)) {
+      const name = this.advance().value;
+      const modifier: YaraStringModifier = { name };
+      if ((name === 'xor' || name === 'base64' || name === 'base64wide') && this.accept('(')) {
+        const args: string[] = [];
+        const arg = this.advance();
+        if (arg.type !== 'number' && arg.type !== 'text') this.fail(`expected ${name} argument`, arg);
+        args.push(arg.type === 'number' ? String(arg.num) : arg.value);
+        if (name === 'xor' && this.accept('-')) {
+          const upper = this.advance();
+          if (upper.type !== 'number') this.fail('expected xor range upper bound', upper);
+          args.push(String(upper.num));
+        }
+        this.expect(')');
+        modifier.args = args;
+      }
+      modifiers.push(modifier);
+    }
+
+    return {
+      id: idToken.value,
+      kind,
+      value: valueToken.value,
+      flags: valueToken.flags,
+      modifiers,
+      line: idToken.line,
+    };
+  }
+
+  /* ---------- Condition expressions ---------- */
+
+  parseExpr(): YaraExpr {
+    let left = this.parseAnd();
+    while (this.accept('or')) {
+      left = { type: 'binary', op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): YaraExpr {
+    let left = this.parseNot();
+    while (this.accept('and')) {
+      left = { type: 'binary', op: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): YaraExpr {
+    if (this.accept('not')) return { type: 'unary', op: 'not', arg: this.parseNot() };
+    if (this.accept('defined')) return { type: 'unary', op: 'defined', arg: this.parseNot() };
+    return this.parseComparison();
+  }
+
+  private parseComparison(): YaraExpr {
+    const left = this.parseBitwise(0);
+    const ops = ['==', '!=', '<', '<=', '>', '>=', 'contains', 'icontains', 'startswith', 'istartswith', 'endswith', 'iendswith', 'iequals', 'matches'];
+    const token = this.peek();
+    if ((token.type === 'punct' || token.type === 'ident') && ops.includes(token.value)) {
+      this.advance();
+      if (token.value === 'matches') {
+        const regex = this.advance();
+        if (regex.type !== 'regex') this.fail('expected regular expression', regex);
+        return { type: 'binary', op: 'matches', left, right: { type: 'regex', pattern: regex.value, flags: regex.flags || '' } };
+      }
+      return { type: 'binary', op: token.value, left, right: this.parseBitwise(0) };
+    }
+    return left;
+  }
+
+  // Binary operator levels from loosest to tightest binding
+  private static LEVELS = [['|'], ['^'], ['&'], ['<<', '>>'], ['+', '-'], ['*', '\\', '%']];
+
+  private parseBitwise(level: number): YaraExpr {
+    if (level >= YaraParser.LEVELS.length) return this.parseUnary();
+    let left = this.parseBitwise(level + 1);
+    while (this.peek().type === 'punct' && YaraParser.LEVELS[level].includes(this.peek().value)) {
+      // '%' directly followed by 'of' is a percentage quantifier, not modulo
+      if (this.peek().value === '%' && this.is('of', 1)) break;
+      const op = this.advance().value;
+      left = { type: 'binary', op, left, right: this.parseBitwise(level + 1) };
+    }
+    return left;
+  }
+
+  private parseUnary(): YaraExpr {
+    if (this.peek().type === 'punct' && (this.peek().value === '-' || this.peek().value === '~')) {
+      const op = this.advance().value;
+      return { type: 'unary', op, arg: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parseRange(): [YaraExpr, YaraExpr] {
+    this.expect('(');
+    const from = this.parseBitwise(0);
+    this.expect('..');
+    const to = this.parseBitwise(0);
+    this.expect(')');
+    return [from, to];
+  }
+
+  private parseSet(): YaraSet {
+    if (this.accept('them')) return { kind: 'them' };
+    this.expect('(');
+    const items: string[] = [];
+    let kind: 'strings' | 'rules' | null = null;
+    do {
+      const token = this.advance();
+      const itemKind = token.type === 'strid' ? 'strings' : token.type === 'ident' ? 'rules' : null;
+      if (!itemKind) this.fail('expected string identifier or rule name', token);
+      if (kind && kind !== itemKind) this.fail('cannot mix strings and rules in a set', token);
+      kind = itemKind;
+      let value = token.value;
+      if (itemKind === 'rules' && this.accept('*')) value += '*';
+      items.push(value);
+    } while (this.accept(','));
+    this.expect(')');
+    return { kind: kind!, items };
+  }
+
+  private parseQuantifierTail(quantifier: YaraQuantifier): YaraExpr {
+    this.expect('of');
+    const set = this.parseSet();
+    const node: Extract<YaraExpr, { type: 'of' }> = { type: 'of', quantifier, set };
+    if (this.accept('at')) node.at = this.parseBitwise(0);
+    else if (this.accept('in')) node.range = this.parseRange();
+    return node;
+  }
+
+  private parsePrimary(): YaraExpr {
+    const token = this.peek();
+
+    if (this.accept('(')) {
+      const inner = this.parseExpr();
+      this.expect(')');
+      return inner;
+    }
+
+    if (token.type === 'number') {
+      this.advance();
+      const value: YaraExpr = { type: 'number', value: token.num! };
+      if (this.is('of')) return this.parseQuantifierTail({ kind: 'count', value });
+      if (this.is('%') && this.is('of', 1)) {
+        this.advance();
+        return this.parseQuantifierTail({ kind: 'percent', value });
+      }
+      return value;
+    }
+
+    if (token.type === 'text') {
+      this.advance();
+      return { type: 'text', value: token.value };
+    }
+
+    if (token.type === 'strid') {
+      this.advance();
+      if (token.value.endsWith('*')) this.fail('wildcard string identifiers are only valid in sets', token);
+      const node: Extract<YaraExpr, { type: 'strref' }> = { type: 'strref', id: token.value };
+      if (this.accept('at')) node.at = this.parseBitwise(0);
+      else if (this.accept('in')) node.range = this.parseRange();
+      return node;
+    }
+
+    if (token.type === 'count') {
+      this.advance();
+      const node: Extract<YaraExpr, { type: 'count' }> = { type: 'count', id: token.value };
+      if (this.accept('in')) node.range = this.parseRange();
+      return node;
+    }
+
+    if (token.type === 'offset' || token.type === 'length') {
+      this.advance();
+      const node: Extract<YaraExpr, { type: 'offset' | 'length' }> = { type: token.type, id: token.value };
+      if (this.accept('[')) {
+        node.index = this.parseBitwise(0);
+        this.expect(']');
+      }
+      return node;
+    }
+
+    if (token.type === 'ident') {
+      switch (token.value) {
+        case 'true':
+        case 'false':
+          this.advance();
+          return { type: 'bool', value: token.value === 'true' };
+        case 'filesize':
+          this.advance();
+          return { type: 'filesize' };
+        case 'entrypoint':
+          this.advance();
+          return { type: 'entrypoint' };
+        case 'all':
+        case 'any':
+        case 'none':
+          this.advance();
+          return this.parseQuantifierTail({ kind: token.value as 'all' | 'any' | 'none' });
+        case 'for':
+          this.advance();
+          return this.parseFor();
+      }
+
+      if (INT_FUNCTIONS[token.value]) {
+        this.advance();
+        this.expect('(');
+        const arg = this.parseBitwise(0);
+        this.expect(')');
+        return { type: 'call', callee: { type: 'ident', name: token.value }, args: [arg] };
+      }
+
+      if (KEYWORDS.has(token.value)) this.fail('unexpected keyword');
+      this.advance();
+      let node: YaraExpr = { type: 'ident', name: token.value };
+      for (;;) {
+        if (this.accept('.')) {
+          node = { type: 'member', object: node, name: this.identifier('field name').value };
+        } else if (this.accept('[')) {
+          node = { type: 'index', object: node, index: this.parseBitwise(0) };
+          this.expect(']');
+        } else if (this.accept('(')) {
+          const args: YaraExpr[] = [];
+          if (!this.is(')')) {
+            do {
+              args.push(this.peek().type === 'regex' ? this.regexLiteral() : this.parseBitwise(0));
+            } while (this.accept(','));
+          }
+          this.expect(')');
+          node = { type: 'call', callee: node, args };
+        } else {
+          break;
+        }
+      }
+      return node;
+    }
+
+    return this.fail('expected expression');
+  }
+
+  private regexLiteral(): YaraExpr {
+    const token = this.advance();
+    return { type: 'regex', pattern: token.value, flags: token.flags || '' };
+  }
+
+  private parseFor(): YaraExpr {
+    let quantifier: YaraQuantifier;
+    if (this.is('all') || this.is('any') || this.is('none')) {
+      quantifier = { kind: this.advance().value as 'all' | 'any' | 'none' };
+    } else {
+      // Consume a bare number directly so parsePrimary doesn't treat 'N of' as an of-expression
+      const value: YaraExpr = this.peek().type === 'number'
+        ? { type: 'number', value: this.advance().num! }
+        : this.parseUnary();
+      if (this.is('%')) {
+        this.advance();
+        quantifier = { kind: 'percent', value };
+      } else {
+        quantifier = { kind: 'count', value };
+      }
+    }
+
+    if (this.accept('of')) {
+      const set = this.parseSet();
+      this.expect(':');
+      this.expect('(');
+      const body = this.parseExpr();
+      this.expect(')');
+      return { type: 'for_of', quantifier, set, body };
+    }
+
+    const vars = [this.identifier('loop variable').value];
+    while (this.accept(',')) vars.push(this.identifier('loop variable').value);
+    this.expect('in');
+
+    let iterable: YaraIterable;
+    if (this.is('(')) {
+      this.advance();
+      const first = this.parseBitwise(0);
+      if (this.accept('..')) {
+        const to = this.parseBitwise(0);
+        this.expect(')');
+        iterable = { kind: 'range', from: first, to };
+      } else {
+        const items = [first];
+        while (this.accept(',')) items.push(this.parseBitwise(0));
+        this.expect(')');
+        iterable = { kind: 'list', items };
+      }
+    } else {
+      iterable = { kind: 'expr', value: this.parsePrimary() };
+    }
+
+    this.expect(':');
+    this.expect('(');
+    const body = this.parseExpr();
+    this.expect(')');
+    return { type: 'for_in', quantifier, vars, iterable, body };
+  }
+}
+
+/**
+ * Parse YARA source. Syntax errors stop parsing (like yarac) and are returned
+ * as issues rather than thrown.
+ */
+export function parseYara(source: string): YaraParseResult {
+  try {
+    const parsed = new YaraParser(tokenize(source)).parseFile();
+    return { ...parsed, issues: [] };
+  } catch (err) {
+    if (err instanceof YaraSyntaxError) {
+      return {
+        imports: [],
+        includes: [],
+        rules: [],
+        issues: [{ severity: 'error', message: `syntax error: ${err.message}`, line: err.line, column: err.column }],
+      };
+    }
+    throw err;
+  }
+}
+
+/* ============================================================================
+   STRING COMPILATION
+============================================================================ */
+
+interface CompiledString {
+  def: YaraStringDef;
+  regex?: RegExp;
+  unsupported?: string;
+}
+
+const hexByte = (byte: number) => '\\x' + byte.toString(16).padStart(2, '0');
+
+function escapeBytes(bytes: string): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += hexByte(bytes.charCodeAt(i) & 0xff);
+  return out;
+}
+
+function widen(bytes: string): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += bytes[i] + '\x00';
+  return out;
+}
+
+function stringToBinary(value: string): string {
+  // Encode non-latin1 characters as UTF-8 the way yarac stores source strings
+  if (!Array.from(value).some(ch => ch.charCodeAt(0) > 0xff)) return value;
+  return Array.from(new TextEncoder().encode(value), b => String.fromCharCode(b)).join('');
+}
+
+/**
+ * The base64 encodings of `bytes` at each of the three alignments, minus the
+ * characters that depend on surrounding data (same approach as libyara)
+ */
+function base64Variants(bytes: string, alphabet?: string): string[] {
+  const standard = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  const variants: string[] = [];
+  for (let shift = 0; shift < 3; shift++) {
+    const padded = '\x00'.repeat(shift) + bytes;
+    let encoded = btoa(padded).replace(/=+$/, '');
+    const leading = shift === 0 ? 0 : shift + 1;
+    const trailing = padded.length % 3 === 0 ? 0 : 1;
+    encoded = encoded.slice(leading, encoded.length - trailing);
+    if (alphabet && alphabet.length === 64) {
+      encoded = Array.from(encoded, c => alphabet[standard.indexOf(c)]).join('');
+    }
+    if (encoded) variants.push(encoded);
+  }
+  return variants;
+}
+
+function hasModifier(def: YaraStringDef, name: string): boolean {
+  return def.modifiers.some(m => m.name === name);
+}
+
+function xorRange(def: YaraStringDef): [number, number] {
+  const args = def.modifiers.find(m => m.name === 'xor')?.args;
+  if (!args) return [0, 255];
+  const low = Number(args[0]);
+  return [low, args.length > 1 ? Number(args[1]) : low];
+}
+
+/**
+ * Translate a hex string body to an equivalent JS regex source over a
+ * latin1-decoded buffer. Throws with a YARA-style message on invalid input.
+ */
+export function hexToRegexSource(body: string): string {
+  const text = body.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/\/\/[^\n]*/g, ' ');
+  let pos = 0;
+  let fixedBytes = 0;
+
+  const parseSequence = (inAlternative: boolean): string => {
+    let out = '';
+    let items = 0;
+    let lastWasJump = false;
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (/\s/.test(ch)) {
+        pos++;
+        continue;
+      }
+      if (ch === ')' || ch === '|') break;
+
+      if (ch === '(') {
+        pos++;
+        const alternatives = [parseSequence(true)];
+        while (text[pos] === '|') {
+          pos++;
+          alternatives.push(parseSequence(true));
+        }
+        if (text[pos] !== ')') throw new Error('unbalanced parenthesis in hex string');
+        pos++;
+        out += `(?:${alternatives.join('|')})`;
+        items++;
+        lastWasJump = false;
+        continue;
+      }
+
+      if (ch === '[') {
+        const end = text.indexOf(']', pos);
+        if (end === -1) throw new Error('unterminated jump in hex string');
+        const spec = text.slice(pos + 1, end).replace(/\s/g, '');
+        pos = end + 1;
+        if (items === 0) throw new Error('hex string cannot start with a jump');
+        const match = spec.match(/^(\d*)(-?)(\d*)$/);
+        if (!match || (!match[2] && !match[1])) throw new Error(`invalid jump [${spec}]`);
+        const low = match[1] ? Number(match[1]) : 0;
+        const high = match[2] ? (match[3] ? Number(match[3]) : undefined) : low;
+        if (high !== undefined && high < low) throw new Error(`invalid jump range [${spec}]`);
+        if (inAlternative && high === undefined) throw new Error('unbounded jumps are not allowed inside alternatives');
+        out += `[\\s\\S]{${low},${high ?? ''}}`;
+        items++;
+        lastWasJump = true;
+        continue;
+      }
+
+      const negated = ch === '~';
+      const pair = text.slice(negated ? pos + 1 : pos, negated ? pos + 3 : pos + 2);
+      if (!/^[0-9A-Fa-f?]{2}$/.test(pair)) throw new Error(`invalid hex byte '${text.slice(pos, pos + 3).trim()}'`);
+      pos += negated ? 3 : 2;
+      if (negated && pair === '??') throw new Error('~?? is not a valid hex token');
+
+      let cls: string;
+      if (pair === '??') {
+        cls = '[\\s\\S]';
+      } else if (pair.includes('?')) {
+        const known = parseInt(pair.replace('?', '0'), 16);
+        const options: string[] = [];
+        for (let n = 0; n < 16; n++) {
+          options.push(hexByte(pair[0] === '?' ? (n << 4) | known : known | n));
+        }
+        cls = `[${negated ? '^' : ''}${options.join('')}]`;
+      } else {
+        fixedBytes++;
+        cls = negated ? `[^${hexByte(parseInt(pair, 16))}]` : hexByte(parseInt(pair, 16));
+      }
+      out += cls;
+      items++;
+      lastWasJump = false;
+    }
+    if (items === 0) throw new Error(inAlternative ? 'empty alternative in hex string' : 'empty hex string');
+    if (lastWasJump) throw new Error('hex string cannot end with a jump');
+    return out;
+  };
+
+  const source = parseSequence(false);
+  if (pos < text.length) throw new Error(`unexpected '${text[pos]}' in hex string`);
+  if (fixedBytes === 0) throw new Error('hex string has no fixed bytes');
+  return source;
+}
+
+function compileString(def: YaraStringDef): CompiledString {
+  try {
+    if (def.kind === 'hex') {
+      return { def, regex: new RegExp(hexToRegexSource(def.value), 'g') };
+    }
+
+    if (def.kind === 'regex') {
+      if (hasModifier(def, 'wide')) return { def, unsupported: 'wide regular expressions' };
+      const flags = 'g' + (def.flags?.includes('i') || hasModifier(def, 'nocase') ? 'i' : '') + (def.flags?.includes('s') ? 's' : '');
+      let source = def.value;
+      if (hasModifier(def, 'fullword')) source = `(?<![A-Za-z0-9])(?:${source})(?![A-Za-z0-9])`;
+      return { def, regex: new RegExp(source, flags) };
+    }
+
+    const bytes = stringToBinary(def.value);
+    const wide = hasModifier(def, 'wide');
+    const ascii = hasModifier(def, 'ascii') || !wide;
+    const encodings: string[] = [];
+    if (ascii) encodings.push(bytes);
+    if (wide) encodings.push(widen(bytes));
+
+    let alternatives: string[];
+    const b64 = def.modifiers.find(m => m.name === 'base64' || m.name === 'base64wide');
+    if (b64) {
+      const variants = base64Variants(bytes, b64.args?.[0]);
+      alternatives = [];
+      for (const modifier of def.modifiers.filter(m => m.name === 'base64' || m.name === 'base64wide')) {
+        for (const variant of variants) {
+          alternatives.push(escapeBytes(modifier.name === 'base64wide' ? widen(variant) : variant));
+        }
+      }
+    } else if (hasModifier(def, 'xor')) {
+      const [low, high] = xorRange(def);
+      alternatives = [];
+      for (const encoded of encodings) {
+        for (let key = low; key <= high; key++) {
+          let xored = '';
+          for (let i = 0; i < encoded.length; i++) xored += String.fromCharCode(encoded.charCodeAt(i) ^ key);
+          alternatives.push(escapeBytes(xored));
+        }
+      }
+    } else {
+      alternatives = encodings.map(escapeBytes);
+    }
+
+    let source = alternatives.length === 1 ? alternatives[0] : `(?:${alternatives.join('|')})`;
+    if (hasModifier(def, 'fullword')) {
+      source = wide && !ascii
+        ? `(?<![A-Za-z0-9]\\x00)${source}(?![A-Za-z0-9]\\x00)`
+        : `(?<![A-Za-z0-9])${source}(?![A-Za-z0-9])`;
+    }
+    return { def, regex: new RegExp(source, hasModifier(def, 'nocase') ? 'gi' : 'g') };
+  } catch (err) {
+    return { def, unsupported: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/* ============================================================================
+   LINTER
+============================================================================ */
+
+function walkExpr(expr: YaraExpr, visit: (node: YaraExpr) => void): void {
+  visit(expr);
+  const children: (YaraExpr | undefined)[] = [];
+  switch (expr.type) {
+    case 'strref':
+      children.push(expr.at, ...(expr.range || []));
+      break;
+    case 'count':
+      children.push(...(expr.range || []));
+      break;
+    case 'offset':
+    case 'length':
+      children.push(expr.index);
+      break;
+    case 'of':
+      children.push(expr.at, ...(expr.range || []));
+      if (expr.quantifier.kind === 'count' || expr.quantifier.kind === 'percent') children.push(expr.quantifier.value);
+      break;
+    case 'for_of':
+      children.push(expr.body);
+      if (expr.quantifier.kind === 'count' || expr.quantifier.kind === 'percent') children.push(expr.quantifier.value);
+      break;
+    case 'for_in':
+      children.push(expr.body);
+      if (expr.iterable.kind === 'range') children.push(expr.iterable.from, expr.iterable.to);
+      else if (expr.iterable.kind === 'list') children.push(...expr.iterable.items);
+      else children.push(expr.iterable.value);
+      break;
+    case 'member':
+      children.push(expr.object);
+      break;
+    case 'index':
+      children.push(expr.object, expr.index);
+      break;
+    case 'call':
+      children.push(expr.callee, ...expr.args);
+      break;
+    case 'unary':
+      children.push(expr.arg);
+      break;
+    case 'binary':
+      children.push(expr.left, expr.right);
+      break;
+  }
+  children.forEach(child => child && walkExpr(child, visit));
+}
+
+const matchesWildcard = (pattern: string, id: string) =>
+  pattern.endsWith('*') ? id.startsWith(pattern.slice(0, -1)) : id === pattern;
+
+function lintStringDef(def: YaraStringDef, rule: string, issues: RuleIssue[]): void {
+  const add = (severity: RuleIssue['severity'], message: string) =>
+    issues.push({ severity, message: `${def.id}: ${message}`, line: def.line, rule });
+
+  const allowed = def.kind === 'hex' ? HEX_MODIFIERS : def.kind === 'regex' ? REGEX_MODIFIERS : TEXT_MODIFIERS;
+  const seen = new Set<string>();
+  for (const modifier of def.modifiers) {
+    if (!allowed.has(modifier.name)) add('error', `modifier '${modifier.name}' is not valid for ${def.kind} strings`);
+    if (seen.has(modifier.name)) add('error', `duplicate modifier '${modifier.name}'`);
+    seen.add(modifier.name);
+  }
+
+  const has = (name: string) => seen.has(name);
+  if (has('xor') && has('nocase')) add('error', "'xor' cannot be combined with 'nocase'");
+  if ((has('base64') || has('base64wide')) && (has('nocase') || has('xor') || has('fullword'))) {
+    add('error', "'base64' cannot be combined with 'nocase', 'xor' or 'fullword'");
+  }
+  if (has('xor')) {
+    const [low, high] = xorRange(def);
+    if (!(low >= 0 && high <= 255 && low <= high)) add('error', 'xor range must be within 0-255 and ascending');
+  }
+  for (const modifier of def.modifiers.filter(m => (m.name === 'base64' || m.name === 'base64wide') && m.args)) {
+    if (modifier.args![0].length !== 64) add('error', 'base64 alphabet must be exactly 64 characters');
+  }
+
+  if (def.kind === 'text') {
+    if (def.value.length === 0) add('error', 'empty string');
+    else if (def.value.length < 4 && !has('xor')) add('warning', 'strings shorter than 4 bytes make slow atoms');
+    if ((has('base64') || has('base64wide')) && def.value.length < 3) add('error', 'base64 strings must be at least 3 bytes');
+  } else if (def.kind === 'hex') {
+    try {
+      hexToRegexSource(def.value);
+      const fixed = (def.value.replace(/\[[^\]]*\]/g, ' ').match(/(?<![~?0-9A-Fa-f])[0-9A-Fa-f]{2}(?![?])/g) || []).length;
+      if (fixed < 2) add('warning', 'hex string with fewer than 2 fixed bytes will slow scanning');
+      if (/^\s*[0-9A-Fa-f]{40,}\s*$/.test(def.value.replace(/\s/g, '')) && !/\s/.test(def.value.trim())) {
+        add('warning', 'looks like a file hash; match hashes with the hash module instead');
+      }
+    } catch (err) {
+      add('error', err instanceof Error ? err.message : String(err));
+    }
+  } else {
+    try {
+      new RegExp(def.value, def.flags?.includes('s') ? 's' : '');
+      if (/^\.\*|\.\*$/.test(def.value)) add('warning', 'leading or trailing .* makes the regex slow and is redundant');
+    } catch (err) {
+      add('error', `invalid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+function lintRule(rule: YaraRuleAst, imports: Set<string>, priorRules: Set<string>, issues: RuleIssue[]): void {
+  const add = (severity: RuleIssue['severity'], message: string, line = rule.line) =>
+    issues.push({ severity, message, line, rule: rule.name });
+
+  if (rule.name.length > MAX_IDENTIFIER_LENGTH) add('error', `rule identifier exceeds ${MAX_IDENTIFIER_LENGTH} characters`);
+  if (priorRules.has(rule.name)) add('error', `duplicated rule identifier '${rule.name}'`);
+
+  const tagSet = new Set<string>();
+  for (const tag of rule.tags) {
+    if (tagSet.has(tag)) add('error', `duplicated tag '${tag}'`);
+    tagSet.add(tag);
+  }
+
+  const ids = new Set<string>();
+  for (const def of rule.strings) {
+    if (ids.has(def.id)) add('error', `duplicated string identifier '${def.id}'`, def.line);
+    ids.add(def.id);
+    lintStringDef(def, rule.name, issues);
+  }
+
+  // Resolve references made by the condition
+  const referenced = new Set<string>();
+  let usesThem = false;
+  const loopVars = new Set<string>();
+  walkExpr(rule.condition, node => {
+    if (node.type === 'for_in') node.vars.forEach(v => loopVars.add(v));
+  });
+
+  walkExpr(rule.condition, node => {
+    switch (node.type) {
+      case 'strref':
+      case 'count':
+      case 'offset':
+      case 'length':
+        if (node.id === '$') break; // Anonymous reference inside for..of
+        if (!ids.has(node.id)) add('error', `undefined string identifier '${node.id}'`);
+        referenced.add(node.id);
+        break;
+      case 'of':
+      case 'for_of':
+        if (node.set.kind === 'them') {
+          usesThem = true;
+          if (ids.size === 0) add('error', "'them' used in a rule without strings");
+        } else if (node.set.kind === 'strings') {
+          for (const pattern of node.set.items) {
+            const hits = [...ids].filter(id => matchesWildcard(pattern, id));
+            if (hits.length === 0) add('error', `undefined string identifier '${pattern}'`);
+            hits.forEach(id => referenced.add(id));
+          }
+        } else {
+          for (const pattern of node.set.items) {
+            if (![...priorRules].some(name => matchesWildcard(pattern, name))) {
+              add('error', `undefined rule '${pattern}' (rules must be declared before use)`);
+            }
+          }
+        }
+        break;
+      case 'ident':
+        if (INT_FUNCTIONS[node.name] || loopVars.has(node.name)) break;
+        if (imports.has(node.name)) break;
+        if (KNOWN_MODULES.has(node.name)) add('error', `undefined identifier '${node.name}' (missing import "${node.name}")`);
+        else if (!priorRules.has(node.name)) add('error', `undefined identifier '${node.name}'`);
+        break;
+      case 'entrypoint':
+        add('warning', "'entrypoint' is deprecated; use pe.entry_point or elf.entry_point");
+        break;
+      case 'binary':
+        if (node.op === 'matches' && node.right.type === 'regex') {
+          try {
+            new RegExp(node.right.pattern);
+          } catch (err) {
+            add('error', `invalid regular expression in condition: ${err instanceof Error ? err.message : String(err)}`);
+          }
+        }
+        break;
+    }
+  });
+
+  if (!usesThem) {
+    for (const def of rule.strings) {
+      if (!referenced.has(def.id)) add('error', `unreferenced string '${def.id}'`, def.line);
+    }
+  }
+
+  const metaKeys = new Set(rule.meta.map(m => m.key));
+  if (!metaKeys.has('description')) add('warning', 'missing meta description');
+  if (!metaKeys.has('author')) add('warning', 'missing meta author');
+}
+
+/**
+ * Parse and lint YARA source, reporting the errors yarac would reject the
+ * file for plus performance and style warnings
+ */
+export function validateYara(source: string): RuleValidationResult {
+  const parsed = parseYara(source);
+  const issues = [...parsed.issues];
+
+  if (issues.length === 0) {
+    const imports = new Set(parsed.imports);
+    for (const module of parsed.imports) {
+      if (!KNOWN_MODULES.has(module)) issues.push({ severity: 'error', message: `unknown module '${module}'` });
+    }
+    for (const include of parsed.includes) {
+      issues.push({ severity: 'warning', message: `include "${include}" cannot be resolved locally` });
+    }
+    if (parsed.rules.length === 0) issues.push({ severity: 'error', message: 'no rules defined' });
+
+    const priorRules = new Set<string>();
+    for (const rule of parsed.rules) {
+      lintRule(rule, imports, priorRules, issues);
+      priorRules.add(rule.name);
+    }
+  }
+
+  return { valid: !issues.some(i => i.severity === 'error'), issues };
+}
+
+/* ============================================================================
+   SCANNER
+============================================================================ */
+
+type YaraValue = number | string | boolean | undefined;
+
+interface ScanContext {
+  data: Uint8Array;
+  strings: Map<string, { offset: number; length: number }[]>;
+  ruleResults: Map<string, boolean>;
+  vars: Map<string, YaraValue>;
+  anonymous?: string;
+}
+
+function bufferToBinary(data: Uint8Array): string {
+  let out = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < data.length; i += chunk) {
+    out += String.fromCharCode.apply(null, Array.from(data.subarray(i, i + chunk)));
+  }
+  return out;
+}
+
+function findMatches(compiled: CompiledString, haystack: string): { offset: number; length: number }[] {
+  const matches: { offset: number; length: number }[] = [];
+  const regex = compiled.regex!;
+  regex.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while (matches.length < MAX_MATCHES_PER_STRING && (m = regex.exec(haystack))) {
+    matches.push({ offset: m.index, length: m[0].length });
+    // Step one byte so overlapping matches are found, as libyara does
+    regex.lastIndex = m.index + 1;
+  }
+  return matches;
+}
+
+function readInt(data: Uint8Array, offset: number, spec: { size: 1 | 2 | 4; signed: boolean; bigEndian: boolean }): number | undefined {
+  if (offset < 0 || offset + spec.size > data.length) return undefined;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const le = !spec.bigEndian;
+  switch (spec.size) {
+    case 1: return spec.signed ? view.getInt8(offset) : view.getUint8(offset);
+    case 2: return spec.signed ? view.getInt16(offset, le) : view.getUint16(offset, le);
+    case 4: return spec.signed ? view.getInt32(offset, le) : view.getUint32(offset, le);
+  }
+}
+
+function resolveStringId(id: string, ctx: ScanContext): string {
+  return id === '$' && ctx.anonymous ? ctx.anonymous : id;
+}
+
+function resolveSet(set: YaraSet, ctx: ScanContext): string[] {
+  const ids = [...ctx.strings.keys()];
+  if (set.kind === 'them') return ids;
+  if (set.kind === 'strings') return ids.filter(id => set.items.some(p => matchesWildcard(p, id)));
+  return [...ctx.ruleResults.keys()].filter(name => set.items.some(p => matchesWildcard(p, name)));
+}
+
+function quantifierSatisfied(quantifier: YaraQuantifier, satisfied: number, total: number, ctx: ScanContext): boolean {
+  switch (quantifier.kind) {
+    case 'all': return satisfied === total;
+    case 'any': return satisfied > 0;
+    case 'none': return satisfied === 0;
+    case 'count': {
+      const n = evalExpr(quantifier.value, ctx);
+      return typeof n === 'number' && satisfied >= n;
+    }
+    case 'percent': {
+      const pct = evalExpr(quantifier.value, ctx);
+      return typeof pct === 'number' && satisfied >= Math.ceil((pct / 100) * total);
+    }
+  }
+}
+
+function numeric(value: YaraValue): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return undefined;
+}
+
+function evalRange(range: [YaraExpr, YaraExpr], ctx: ScanContext): [number, number] | undefined {
+  const from = numeric(evalExpr(range[0], ctx));
+  const to = numeric(evalExpr(range[1], ctx));
+  return from === undefined || to === undefined ? undefined : [from, to];
+}
+
+function evalExpr(expr: YaraExpr, ctx: ScanContext): YaraValue {
+  switch (expr.type) {
+    case 'bool':
+    case 'number':
+    case 'text':
+      return expr.value;
+    case 'regex':
+      return undefined;
+    case 'filesize':
+      return ctx.data.length;
+    case 'entrypoint':
+      return undefined;
+
+    case 'strref': {
+      const matches = ctx.strings.get(resolveStringId(expr.id, ctx)) || [];
+      if (expr.at) {
+        const at = numeric(evalExpr(expr.at, ctx));
+        return matches.some(m => m.offset === at);
+      }
+      if (expr.range) {
+        const range = evalRange(expr.range, ctx);
+        return !!range && matches.some(m => m.offset >= range[0] && m.offset <= range[1]);
+      }
+      return matches.length > 0;
+    }
+
+    case 'count': {
+      const matches = ctx.strings.get(resolveStringId(expr.id, ctx)) || [];
+      if (!expr.range) return matches.length;
+      const range = evalRange(expr.range, ctx);
+      return range ? matches.filter(m => m.offset >= range[0] && m.offset <= range[1]).length : undefined;
+    }
+
+    case 'offset':
+    case 'length': {
+      const matches = ctx.strings.get(resolveStringId(expr.id, ctx)) || [];
+      const index = expr.index ? numeric(evalExpr(expr.index, ctx)) : 1;
+      const match = index !== undefined ? matches[index - 1] : undefined;
+      if (!match) return undefined;
+      return expr.type === 'offset' ? match.offset : match.length;
+    }
+
+    case 'of': {
+      const ids = resolveSet(expr.set, ctx);
+      const satisfied = ids.filter(id => {
+        if (expr.set.kind === 'rules') return ctx.ruleResults.get(id) === true;
+        const matches = ctx.strings.get(id) || [];
+        if (expr.at) {
+          const at = numeric(evalExpr(expr.at, ctx));
+          return matches.some(m => m.offset === at);
+        }
+        if (expr.range) {
+          const range = evalRange(expr.range, ctx);
+          return !!range && matches.some(m => m.offset >= range[0] && m.offset <= range[1]);
+        }
+        return matches.length > 0;
+      }).length;
+      return quantifierSatisfied(expr.quantifier, satisfied, ids.length, ctx);
+    }
+
+    case 'for_of': {
+      const ids = resolveSet(expr.set, ctx);
+      const previous = ctx.anonymous;
+      const satisfied = ids.filter(id => {
+        ctx.anonymous = id;
+        return truthy(evalExpr(expr.body, ctx));
+      }).length;
+      ctx.anonymous = previous;
+      return quantifierSatisfied(expr.quantifier, satisfied, ids.length, ctx);
+    }
+
+    case 'for_in': {
+      let values: YaraValue[];
+      if (expr.iterable.kind === 'range') {
+        const from = numeric(evalExpr(expr.iterable.from, ctx));
+        const to = numeric(evalExpr(expr.iterable.to, ctx));
+        if (from === undefined || to === undefined) return undefined;
+        values = [];
+        for (let i = from; i <= to && values.length < 100000; i++) values.push(i);
+      } else if (expr.iterable.kind === 'list') {
+        values = expr.iterable.items.map(item => evalExpr(item, ctx));
+      } else {
+        return undefined; // Module arrays and dictionaries
+      }
+      const variable = expr.vars[0];
+      const previous = ctx.vars.get(variable);
+      const satisfied = values.filter(value => {
+        ctx.vars.set(variable, value);
+        return truthy(evalExpr(expr.body, ctx));
+      }).length;
+      ctx.vars.set(variable, previous);
+      return quantifierSatisfied(expr.quantifier, satisfied, values.length, ctx);
+    }
+
+    case 'ident':
+      if (ctx.vars.has(expr.name)) return ctx.vars.get(expr.name);
+      if (ctx.ruleResults.has(expr.name)) return ctx.ruleResults.get(expr.name);
+      return undefined;
+
+    case 'member':
+    case 'index':
+      return undefined;
+
+    case 'call': {
+      if (expr.callee.type === 'ident' && INT_FUNCTIONS[expr.callee.name]) {
+        const offset = numeric(evalExpr(expr.args[0], ctx));
+        return offset === undefined ? undefined : readInt(ctx.data, offset, INT_FUNCTIONS[expr.callee.name]);
+      }
+      return undefined;
+    }
+
+    case 'unary': {
+      const value = evalExpr(expr.arg, ctx);
+      if (expr.op === 'defined') return value !== undefined;
+      if (expr.op === 'not') return value === undefined ? undefined : !truthy(value);
+      const n = numeric(value);
+      if (n === undefined) return undefined;
+      return expr.op === '-' ? -n : ~n;
+    }
+
+    case 'binary':
+      return evalBinary(expr.op, expr.left, expr.right, ctx);
+  }
+}
+
+function evalBinary(op: string, leftExpr: YaraExpr, rightExpr: YaraExpr, ctx: ScanContext): YaraValue {
+  if (op === 'and') {
+    const left = evalExpr(leftExpr, ctx);
+    if (!truthy(left)) return false;
+    return truthy(evalExpr(rightExpr, ctx));
+  }
+  if (op === 'or') {
+    if (truthy(evalExpr(leftExpr, ctx))) return true;
+    return truthy(evalExpr(rightExpr, ctx));
+  }
+
+  const left = evalExpr(leftExpr, ctx);
+  if (op === 'matches') {
+    if (typeof left !== 'string' || rightExpr.type !== 'regex') return undefined;
+    return new RegExp(rightExpr.pattern, rightExpr.flags.replace(/[^is]/g, '')).test(left);
+  }
+
+  const right = evalExpr(rightExpr, ctx);
+  if (left === undefined || right === undefined) return undefined;
+
+  if (typeof left === 'string' && typeof right === 'string') {
+    const l = left.toLowerCase();
+    const r = right.toLowerCase();
+    switch (op) {
+      case '==': return left === right;
+      case '!=': return left !== right;
+      case '<': return left < right;
+      case '<=': return left <= right;
+      case '>': return left > right;
+      case '>=': return left >= right;
+      case 'contains': return left.includes(right);
+      case 'icontains': return l.includes(r);
+      case 'startswith': return left.startsWith(right);
+      case 'istartswith': return l.startsWith(r);
+      case 'endswith': return left.endsWith(right);
+      case 'iendswith': return l.endsWith(r);
+      case 'iequals': return l === r;
+    }
+    return undefined;
+  }
+
+  const l = numeric(left);
+  const r = numeric(right);
+  if (l === undefined || r === undefined) return undefined;
+  switch (op) {
+    case '==': return l === r;
+    case '!=': return l !== r;
+    case '<': return l < r;
+    case '<=': return l <= r;
+    case '>': return l > r;
+    case '>=': return l >= r;
+    case '+': return l + r;
+    case '-': return l - r;
+    case '*': return l * r;
+    case '\\': return r === 0 ? undefined : Math.trunc(l / r);
+    case '%': return r === 0 ? undefined : l % r;
+    case '&': return l & r;
+    case '|': return l | r;
+    case '^': return l ^ r;
+    case '<<': return l << r;
+    case '>>': return l >> r;
+  }
+  return undefined;
+}
+
+function truthy(value: YaraValue): boolean {
+  if (value === undefined) return false;
+  if (typeof value === 'string') return value.length > 0;
+  return Boolean(value);
+}
+
+/**
+ * Scan one buffer with every rule in the source. Global rules gate all
+ * others; private rules are evaluated but left out of the results.
+ */
+export function scanYara(source: string, data: Uint8Array): YaraScanMatch[] {
+  const parsed = parseYara(source);
+  if (parsed.issues.length > 0) {
+    throw new Error(parsed.issues[0].message);
+  }
+
+  const haystack = bufferToBinary(data);
+  const ruleResults = new Map<string, boolean>();
+  const results: YaraScanMatch[] = [];
+  let globalsPassed = true;
+
+  for (const rule of parsed.rules) {
+    const strings = new Map<string, { offset: number; length: number }[]>();
+    const unsupported: string[] = [];
+    const stringMatches: YaraStringMatch[] = [];
+
+    for (const def of rule.strings) {
+      const compiled = compileString(def);
+      if (!compiled.regex) {
+        unsupported.push(`${def.id}: ${compiled.unsupported}`);
+        strings.set(def.id, []);
+        continue;
+      }
+      const matches = findMatches(compiled, haystack);
+      strings.set(def.id, matches);
+      if (matches.length > 0) {
+        stringMatches.push({
+          id: def.id,
+          offsets: matches.map(m => m.offset),
+          truncated: matches.length >= MAX_MATCHES_PER_STRING || undefined,
+        });
+      }
+    }
+
+    walkExpr(rule.condition, node => {
+      if (node.type === 'ident' && parsed.imports.includes(node.name)) {
+        const note = `module '${node.name}' (evaluates as undefined)`;
+        if (!unsupported.includes(note)) unsupported.push(note);
+      }
+    });
+
+    const matched = truthy(evalExpr(rule.condition, { data, strings, ruleResults, vars: new Map() }));
+    ruleResults.set(rule.name, matched);
+    if (rule.isGlobal && !matched) globalsPassed = false;
+    if (!rule.isPrivate) {
+      results.push({ rule: rule.name, matched, strings: stringMatches, unsupported });
+    }
+  }
+
+  if (!globalsPassed) results.forEach(r => { r.matched = false; });
+  return results;
+}
+
+/* ============================================================================
+   TEST HARNESS
+============================================================================ */
+
+/**
+ * Validate a rule file and, when it compiles, scan each sample with it
+ */
+export function runYaraHarness(source: string, samples: YaraSample[]): YaraHarnessResult {
+  const validation = validateYara(source);
+  if (!validation.valid) return { validation, samples: [] };
+
+  return {
+    validation,
+    samples: samples.map(sample => ({
+      sample: sample.name,
+      size: sample.data.length,
+      matches: scanYara(source, sample.data),
+    })),
+  };
+}
@@ -230,8 +230,70 @@ export interface ActivityItem {
 export interface ImportedDataset {
   id: string;
   name: string;
-  type: 'breach' | 'domains' | 'ips' | 'keywords';
+  type: 'breach' | 'domains' | 'ips' | 'keywords' | 'crypto_labels' | 'software_inventory';
   recordCount: number;
   importedAt: Date;
   size: number;
 }
+
+export type CryptoLabelCategory =
+  | 'ransomware'
+  | 'sanctioned'
+  | 'darknet'
+  | 'mixer'
+  | 'scam'
+  | 'gambling'
+  | 'exchange'
+  | 'other';
+
+export interface CryptoLabel {
+  id: string;               // source|category|address, so re-imports overwrite
+  address: string;
+  chain: string;
+  category: CryptoLabelCategory;
+  entityName?: string;
+  source: string;
+  confidence: number;       // 0-100
+  date: string;             // When the source listed or observed the address
+  notes?: string;
+  createdBy?: string;
+}
+
+export type AssetCriticality = 'low' | 'medium' | 'high' | 'critical';
+
+export interface SoftwareAsset {
+  id: string;               // source|host|product|version, so re-imports overwrite
+  name: string;             // Product name as inventoried
+  vendor?: string;
+  version: string;
+  cpe?: string;             // cpe:2.3 string when the inventory supplies one
+  purl?: string;
+  group?: string;           // Package namespace, e.g. a CycloneDX group or Maven groupId
+  host?: string;            // Where it runs
+  owner?: string;
+  criticality: AssetCriticality;
+  source: string;           // Inventory file or SBOM it came from
+  importedAt: string;
+}
+
+export interface AssetExposure {
+  id: string;               // assetId|cveId
+  assetId: string;
+  cveId: string;
+  description: string;
+  cvss: number;
+  severity: string;
+  kev: boolean;
+  knownRansomware: boolean;
+  matchedCriteria: string;  // CPE criterion the asset version fell into
+  matchType: 'cpe' | 'product'; // 'product' when the asset had no vendor/CPE to compare
+  published: string;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface EPSSScore {
+  cve: string;
+  epss: number;             // Probability of exploitation in the next 30 days, 0-1
+  percentile: number;       // Rank among all scored CVEs, 0-1
+}
@@ -0,0 +1,442 @@
+// ============================================================================
+// ALERT DELIVERY
+// ============================================================================
+// Delivers monitoring alerts to webhook, Slack, Teams, PagerDuty and email
+// Shared by the monitoring-cycle and alert-dispatch edge functions
+// ============================================================================
+
+export interface AlertAction {
+  type: 'webhook' | 'email' | 'slack' | 'teams' | 'pagerduty' | 'log' | 'ui';
+  config: Record<string, any>;
+  enabled: boolean;
+}
+
+export interface DeliveryAlert {
+  id?: string;
+  ruleId?: string | null;
+  ruleName: string;
+  severity: string;
+  title: string;
+  description: string;
+  source: string;
+  indicators: string[];
+  timestamp: string;
+}
+
+export interface DeliveryResult {
+  channel: AlertAction['type'];
+  alertId?: string;
+  success: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+interface DeliveryRequest {
+  url: string;
+  init: RequestInit;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_TOTAL_BACKOFF_MS = 15000; // Keeps a delivery well inside the function's time limit
+
+const PAGERDUTY_EVENTS_URL = 'https://events.pagerduty.com/v2/enqueue';
+
+// Hosts Slack and Teams issue incoming webhook URLs on; a leading dot matches subdomains
+const SLACK_WEBHOOK_HOSTS = ['hooks.slack.com'];
+const TEAMS_WEBHOOK_HOSTS = ['outlook.office.com', '.webhook.office.com', '.logic.azure.com', '.api.powerplatform.com'];
+
+const DEFAULT_TEMPLATE = '[{{severity}}] {{ruleName}}: {{title}}\n{{description}}\nSource: {{source}}\nIndicators: {{indicators}}';
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: 'DC2626',
+  high: 'EA580C',
+  medium: 'CA8A04',
+  low: '2563EB',
+};
+
+const PAGERDUTY_SEVERITY: Record<string, string> = {
+  critical: 'critical',
+  high: 'error',
+  medium: 'warning',
+  low: 'info',
+};
+
+/**
+ * Map a threat_alerts row to the delivery shape
+ */
+export function toDeliveryAlert(row: any): DeliveryAlert {
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    ruleName: row.rule_name,
+    severity: row.severity,
+    title: row.title,
+    description: row.description || '',
+    source: row.source,
+    indicators: row.indicators || [],
+    timestamp: row.created_at,
+  };
+}
+
+// ============================================================================
+// DELIVERY TARGETS
+// ============================================================================
+
+function parseIpv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(p => /^\d{1,3}$/.test(p))) return null;
+  const octets = parts.map(Number);
+  return octets.every(o => o <= 255) ? octets : null;
+}
+
+function isInternalIpv4([a, b]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||  // this network, private, loopback, multicast/reserved
+    (a === 100 && b >= 64 && b <= 127) ||                 // carrier-grade NAT
+    (a === 169 && b === 254) ||                           // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && (b === 168 || b === 0)) ||
+    (a === 198 && (b === 18 || b === 19));                // benchmarking
+}
+
+/**
+ * Loopback, private, link-local and other non-public addresses, including
+ * IPv4 reached through mapped or NAT64 IPv6 forms
+ */
+export function isInternalAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) return isInternalIpv4(ipv4);
+
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '').split('%')[0];
+  if (!ip.includes(':')) return true; // Not an IP literal we understand
+  if (ip === '::' || ip === '::1') return true;
+
+  const embedded = ip.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) return isInternalAddress(embedded[1]);
+  const mappedHex = ip.match(/^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [hi, lo] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isInternalIpv4([hi >> 8, hi & 0xff, lo >> 8, lo & 0xff]);
+  }
+
+  const first = parseInt(ip.split(':')[0] || '0', 16);
+  return (first & 0xfe00) === 0xfc00 ||  // unique local
+    (first & 0xffc0) === 0xfe80 ||       // link-local
+    (first & 0xff00) === 0xff00;         // multicast
+}
+
+function hostAllowed(hostname: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some(host => host.startsWith('.') ? hostname.endsWith(host) : hostname === host);
+}
+
+/**
+ * Reject delivery URLs that could reach the function's own network: only
+ * https, optionally pinned to a provider's hosts, and every address the host
+ * resolves to must be public
+ */
+export async function assertDeliveryTarget(rawUrl: string, allowedHosts?: string[]): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error('Delivery URL is not a valid URL');
+  }
+  if (url.protocol !== 'https:') throw new Error('Delivery URL must use https');
+  if (url.username || url.password) throw new Error('Delivery URL must not contain credentials');
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  if (allowedHosts && !hostAllowed(hostname, allowedHosts)) {
+    throw new Error(`Delivery URL must point to ${allowedHosts.map(h => h.replace(/^\./, '*.')).join(', ')}`);
+  }
+
+  let addresses: string[];
+  if (parseIpv4(hostname) || hostname.startsWith('[')) {
+    addresses = [hostname];
+  } else {
+    const lookups = await Promise.allSettled([
+      Deno.resolveDns(hostname, 'A'),
+      Deno.resolveDns(hostname, 'AAAA'),
+    ]);
+    addresses = lookups.flatMap(r => r.status === 'fulfilled' ? r.value : []);
+    if (addresses.length === 0) throw new Error(`Delivery host ${hostname} does not resolve`);
+  }
+  if (addresses.some(isInternalAddress)) {
+    throw new Error(`Delivery host ${hostname} resolves to a private or local address`);
+  }
+  return url.toString();
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/**
+ * Render a per-channel template; {{field}} placeholders map to alert fields
+ */
+export function renderTemplate(template: string | undefined, alert: DeliveryAlert): string {
+  return (template || DEFAULT_TEMPLATE).replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+    const value = (alert as any)[key];
+    if (Array.isArray(value)) return value.join(', ');
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function buildRequest(action: AlertAction, alert: DeliveryAlert): Promise<DeliveryRequest> {
+  const { config } = action;
+  const text = renderTemplate(config.template, alert);
+
+  switch (action.type) {
+    case 'webhook': {
+      if (!config.url) throw new Error('Webhook URL is not configured');
+      const body = JSON.stringify({ event: 'threat_alert', message: text, alert });
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-Monitoring-Timestamp': timestamp,
+      };
+      // Receivers verify HMAC-SHA256(secret, "<timestamp>.<body>")
+      if (config.secret) {
+        headers['X-Monitoring-Signature'] = `sha256=${await hmacSha256Hex(config.secret, `${timestamp}.${body}`)}`;
+      }
+      return { url: await assertDeliveryTarget(config.url), init: { method: 'POST', headers, body } };
+    }
+
+    case 'slack': {
+      if (!config.webhookUrl) throw new Error('Slack webhook URL is not configured');
+      return {
+        url: await assertDeliveryTarget(config.webhookUrl, SLACK_WEBHOOK_HOSTS),
+        init: {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            text,
+            blocks: [
+              { type: 'header', text: { type: 'plain_text', text: `${alert.severity.toUpperCase()}: ${alert.title}`.slice(0, 150) } },
+              { type: 'section', text: { type: 'mrkdwn', text } },
+            ],
+          }),
+        },
+      };
+    }
+
+    case 'teams': {
+      if (!config.webhookUrl) throw new Error('Teams webhook URL is not configured');
+      return {
+        url: await assertDeliveryTarget(config.webhookUrl, TEAMS_WEBHOOK_HOSTS),
+        init: {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            '@type': 'MessageCard',
+            '@context': 'https://schema.org/extensions',
+            themeColor: SEVERITY_COLORS[alert.severity] || SEVERITY_COLORS.low,
+            summary: alert.title,
+            title: `${alert.severity.toUpperCase()}: ${alert.title}`,
+            text: text.replace(/\n/g, '<br>'),
+            sections: [{
+              facts: [
+                { name: 'Rule', value: alert.ruleName },
+                { name: 'Source', value: alert.source },
+                { name: 'Detected', value: alert.timestamp },
+              ],
+            }],
+          }),
+        },
+      };
+    }
+
+    case 'pagerduty': {
+      if (!config.routingKey) throw new Error('PagerDuty routing key is not configured');
+      return {
+        url: PAGERDUTY_EVENTS_URL,
+        init: {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            routing_key: config.routingKey,
+            event_action: 'trigger',
+            dedup_key: alert.id || `${alert.ruleName}:${alert.title}`,
+            payload: {
+              summary: renderTemplate(config.template || '[{{severity}}] {{title}}', alert).slice(0, 1024),
+              source: alert.source,
+              severity: PAGERDUTY_SEVERITY[alert.severity] || 'warning',
+              timestamp: alert.timestamp,
+              component: alert.ruleName,
+              custom_details: { description: alert.description, indicators: alert.indicators },
+            },
+          }),
+        },
+      };
+    }
+
+    case 'email': {
+      if (!config.to) throw new Error('Email recipient is not configured');
+      // Reuse the send-report function for Resend delivery
+      return {
+        url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/send-report`,
+        init: {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+          },
+          body: JSON.stringify({
+            to: config.to,
+            subject: `[${alert.severity.toUpperCase()}] ${alert.title}`,
+            report: text,
+            reportType: 'Threat Alert',
+          }),
+        },
+      };
+    }
+
+    default:
+      throw new Error(`Unsupported action type: ${action.type}`);
+  }
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POST with exponential backoff; retries network errors, 429 and 5xx until
+ * the attempts or the total backoff budget run out
+ */
+async function sendWithRetry(
+  request: DeliveryRequest,
+  maxAttempts: number
+): Promise<{ ok: boolean; attempts: number; status?: number; error?: string }> {
+  let lastStatus: number | undefined;
+  let lastError = '';
+  let attempts = 0;
+  let backoffLeft = MAX_TOTAL_BACKOFF_MS;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    attempts = attempt;
+    try {
+      // Redirects are not followed, they could lead past the target checks
+      const res = await fetch(request.url, { ...request.init, redirect: 'manual' });
+      if (res.ok) return { ok: true, attempts: attempt, status: res.status };
+
+      lastStatus = res.status;
+      lastError = `HTTP ${res.status}: ${(await res.text()).slice(0, 300)}`;
+      if (res.status !== 429 && res.status < 500) break; // Not retryable
+    } catch (e) {
+      lastError = e instanceof Error ? e.message : String(e);
+    }
+
+    const delay = BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+    if (attempt >= maxAttempts || delay > backoffLeft) break;
+    backoffLeft -= delay;
+    await sleep(delay);
+  }
+
+  return { ok: false, attempts, status: lastStatus, error: lastError };
+}
+
+/**
+ * Deliver one alert through one action
+ */
+export async function deliverAlert(action: AlertAction, alert: DeliveryAlert): Promise<DeliveryResult> {
+  if (action.type === 'log') {
+    console.log(`[AlertDelivery] ${renderTemplate(action.config.template, alert)}`);
+    return { channel: action.type, alertId: alert.id, success: true, attempts: 1 };
+  }
+
+  try {
+    const request = await buildRequest(action, alert);
+    const requested = Number(action.config.maxAttempts) || DEFAULT_MAX_ATTEMPTS;
+    const result = await sendWithRetry(request, Math.min(Math.max(1, requested | 0), MAX_ATTEMPTS));
+    return {
+      channel: action.type,
+      alertId: alert.id,
+      success: result.ok,
+      attempts: result.attempts,
+      status: result.status,
+      error: result.error,
+    };
+  } catch (e) {
+    return {
+      channel: action.type,
+      alertId: alert.id,
+      success: false,
+      attempts: 0,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
+}
+
+/**
+ * Deliver alerts through every enabled action of a rule. Failed deliveries
+ * are written to the alert_delivery_log dead-letter table.
+ */
+export async function deliverAlertActions(
+  supabase: any,
+  userId: string,
+  actions: AlertAction[],
+  alerts: DeliveryAlert[]
+): Promise<DeliveryResult[]> {
+  const results: DeliveryResult[] = [];
+  // 'ui' alerts reach the dashboard through realtime
+  const deliverable = (actions || []).filter(a => a.enabled && a.type !== 'ui');
+
+  for (const action of deliverable) {
+    for (const alert of alerts) {
+      const result = await deliverAlert(action, alert);
+      results.push(result);
+
+      if (!result.success) {
+        console.error(`[AlertDelivery] ${action.type} delivery failed:`, result.error);
+        const { error } = await supabase.from('alert_delivery_log').insert({
+          user_id: userId,
+          rule_id: alert.ruleId || null,
+          alert_id: alert.id || null,
+          channel: action.type,
+          payload: { alert, config: redactConfig(action.config) },
+          error: result.error,
+          attempts: result.attempts,
+        });
+        if (error) console.error('[AlertDelivery] Failed to write dead-letter entry:', error);
+      }
+    }
+  }
+
+  return results;
+}
+
+// Secrets, routing keys and Slack/Teams webhook URLs (bearer credentials in
+// themselves) stay out of the dead-letter log; only the host is kept
+function redactConfig(config: Record<string, any>): Record<string, any> {
+  const redacted = { ...config };
+  for (const key of ['secret', 'routingKey']) {
+    if (redacted[key]) redacted[key] = '***';
+  }
+  if (redacted.webhookUrl) redacted.webhookUrl = redactUrl(redacted.webhookUrl);
+  return redacted;
+}
+
+function redactUrl(url: string): string {
+  try {
+    return `${new URL(url).origin}/***`;
+  } catch {
+    return '***';
+  }
+}
@@ -0,0 +1,109 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deliverAlert, deliverAlertActions, toDeliveryAlert, type AlertAction } from "../_shared/alertDelivery.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// ============================================================================
+// ALERT DISPATCH EDGE FUNCTION
+// ============================================================================
+// Delivers a rule's alert actions for alerts raised in the browser, and sends
+// test notifications from the monitoring dashboard
+// ============================================================================
+
+interface DispatchRequest {
+  test?: boolean;
+  action?: AlertAction;
+  ruleId?: string;
+  alertIds?: string[];
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') || '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const data: DispatchRequest = await req.json();
+
+    // Test notification for a single, possibly unsaved, action. Its URL comes
+    // from the request body; deliverAlert applies the same target checks as saved rules
+    if (data.test) {
+      if (!data.action) throw new Error('Action is required for a test notification');
+      const result = await deliverAlert({ ...data.action, enabled: true }, {
+        ruleName: 'Test Rule',
+        severity: 'low',
+        title: 'Test notification',
+        description: 'This is a test alert from the Phoenix monitoring dashboard.',
+        source: 'Phoenix OSINT',
+        indicators: ['example.com'],
+        timestamp: new Date().toISOString(),
+      });
+
+      return new Response(
+        JSON.stringify({ success: result.success, results: [result] }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!data.ruleId || !data.alertIds?.length) {
+      throw new Error('ruleId and alertIds are required');
+    }
+
+    // Load the rule and alerts server-side so action secrets come from the database
+    const { data: rule, error: ruleError } = await supabase
+      .from('monitoring_rules')
+      .select('*')
+      .eq('id', data.ruleId)
+      .eq('user_id', user.id)
+      .single();
+    if (ruleError || !rule) throw new Error('Rule not found');
+
+    const { data: alerts, error: alertsError } = await supabase
+      .from('threat_alerts')
+      .select('*')
+      .in('id', data.alertIds)
+      .eq('user_id', user.id);
+    if (alertsError) throw alertsError;
+
+    const results = await deliverAlertActions(
+      supabase,
+      user.id,
+      rule.actions as AlertAction[],
+      (alerts || []).map(toDeliveryAlert)
+    );
+
+    console.log(`[AlertDispatch] ${results.filter(r => r.success).length}/${results.length} deliveries succeeded`);
+
+    return new Response(
+      JSON.stringify({ success: results.every(r => r.success), results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Alert dispatch error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,444 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deliverAlertActions, toDeliveryAlert, type AlertAction } from "../_shared/alertDelivery.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// ============================================================================
+// MONITORING CYCLE EDGE FUNCTION
+// ============================================================================
+// Server-side counterpart of runMonitoringCycle in continuousMonitoringService
+// Scheduled via pg_cron (all users) or invoked from the dashboard (caller only)
+// ============================================================================
+
+interface MonitoringSource {
+  id: string;
+  name: string;
+  type: string;
+  enabled: boolean;
+  refreshIntervalMinutes: number;
+  lastChecked?: string;
+  status: 'active' | 'error' | 'paused';
+  errorMessage?: string;
+  cursor?: SourceCursor;
+}
+
+// Written apart from the rule's sources (see merge_monitoring_source_state)
+type SourceState = Pick<MonitoringSource, 'cursor' | 'lastChecked' | 'status' | 'errorMessage'>;
+
+// Same cursor format as monitoringSourceAdapters in the app, so browser and
+// scheduled cycles never alert twice on the same item
+interface SourceCursor {
+  since?: string;
+  seenIds: string[];
+}
+
+interface RuleRow {
+  id: string;
+  user_id: string;
+  name: string;
+  rule_type: string;
+  pattern: string;
+  severity: string;
+  sources: MonitoringSource[];
+  source_state: Record<string, SourceState> | null;
+  actions: AlertAction[];
+  cooldown_minutes: number;
+  last_triggered: string | null;
+}
+
+interface PatternMatch {
+  title: string;
+  description: string;
+  indicators: string[];
+  context: Record<string, unknown>;
+}
+
+interface FeedItem {
+  id: string;
+  timestamp?: string;
+  text: string[];
+  match: PatternMatch;
+}
+
+const SOURCES = {
+  RANSOMWATCH: 'https://raw.githubusercontent.com/joshhighet/ransomwatch/main/posts.json',
+  THREATFOX: 'https://threatfox-api.abuse.ch/api/v1/',
+  URLHAUS: 'https://urlhaus-api.abuse.ch/v1/urls/recent/limit/500/',
+};
+
+// Source types that can be checked without the browser-side proxies
+const SERVER_SOURCE_TYPES = ['ransomwatch', 'threatfox', 'urlhaus'];
+
+const MAX_SEEN_IDS = 2000;
+const INITIAL_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+// Late-published items are re-read this far behind the cursor; seenIds dedupe
+const CURSOR_OVERLAP_MS = 6 * 60 * 60 * 1000;
+const MAX_PATTERN_LENGTH = 500;
+const MAX_MATCH_TEXT = 2000;
+// Matching time one rule may use per cycle before its remaining sources are skipped
+const RULE_MATCH_BUDGET_MS = 2000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+  const stats = {
+    rulesChecked: 0,
+    alertsCreated: 0,
+    duplicates: 0,
+    suppressed: 0,
+    deliveriesFailed: 0,
+    skippedSources: 0,
+    errors: [] as string[],
+  };
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Scheduled runs authenticate with the service role and cover every user;
+    // dashboard invocations carry a user JWT and only run that user's rules.
+    // Anything else (anon key, expired or forged JWT) is rejected.
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') || '';
+    let scopeUserId: string | null = null;
+    if (token !== supabaseKey) {
+      const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+      if (!user) {
+        return new Response(JSON.stringify({ success: false, error: 'Unauthorized' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      scopeUserId = user.id;
+    }
+
+    let query = supabase.from('monitoring_rules').select('*').eq('enabled', true);
+    if (scopeUserId) query = query.eq('user_id', scopeUserId);
+    const { data: rules, error } = await query;
+    if (error) throw error;
+
+    // Each feed is fetched at most once per cycle and shared across rules
+    const feedCache = new Map<string, Promise<FeedItem[]>>();
+    const loadFeed = (type: string) => {
+      if (!feedCache.has(type)) feedCache.set(type, fetchFeed(type));
+      return feedCache.get(type)!;
+    };
+
+    for (const rule of (rules || []) as RuleRow[]) {
+      if (isInCooldown(rule)) continue;
+      stats.rulesChecked++;
+      const sources = (rule.sources || []).map(source => ({ ...source, ...rule.source_state?.[source.id] }));
+      const sourceState: Record<string, SourceState> = {};
+
+      // A broken pattern only fails its own rule, never the whole cycle
+      let regex: RegExp;
+      try {
+        regex = compilePattern(rule);
+      } catch (e) {
+        const message = `Invalid pattern: ${e instanceof Error ? e.message : String(e)}`;
+        stats.errors.push(`${rule.name}: ${message}`);
+        sources.filter(source => source.enabled).forEach(source => {
+          sourceState[source.id] = { cursor: source.cursor, lastChecked: new Date().toISOString(), status: 'error', errorMessage: message };
+        });
+        await supabase.rpc('merge_monitoring_source_state', { _rule_id: rule.id, _state: sourceState });
+        continue;
+      }
+
+      const deadline = Date.now() + RULE_MATCH_BUDGET_MS;
+      let ruleAlerts = 0;
+
+      for (const source of sources) {
+        if (!source.enabled || !SERVER_SOURCE_TYPES.includes(source.type)) {
+          if (source.enabled) stats.skippedSources++;
+          continue;
+        }
+
+        try {
+          const items = await loadFeed(source.type);
+          const matches = matchItems(filterNewItems(items, source.cursor), regex, deadline);
+
+          // Suppression, dedup and incident grouping happen in ingest_threat_alert
+          const created: any[] = [];
+          for (const { match } of matches) {
+            const { data, error: ingestError } = await supabase.rpc('ingest_threat_alert', {
+              _user_id: rule.user_id,
+              _rule_id: rule.id,
+              _rule_name: rule.name,
+              _severity: rule.severity,
+              _title: match.title,
+              _description: match.description,
+              _source: source.name,
+              _indicators: match.indicators,
+              _context: match.context,
+            });
+            if (ingestError) throw ingestError;
+
+            if (data.outcome === 'created') created.push(data.alert);
+            else if (data.outcome === 'duplicate') stats.duplicates++;
+            else stats.suppressed++;
+          }
+
+          if (created.length > 0) {
+            ruleAlerts += created.length;
+
+            // Page on-call etc. without waiting for a browser to pick the alert up
+            const deliveries = await deliverAlertActions(supabase, rule.user_id, rule.actions, created.map(toDeliveryAlert));
+            stats.deliveriesFailed += deliveries.filter(d => !d.success).length;
+          }
+
+          sourceState[source.id] = {
+            cursor: advanceCursor(items, source.cursor),
+            lastChecked: new Date().toISOString(),
+            status: 'active',
+          };
+        } catch (e) {
+          const message = e instanceof Error ? e.message : String(e);
+          stats.errors.push(`${rule.name}/${source.name}: ${message}`);
+          sourceState[source.id] = { cursor: source.cursor, lastChecked: new Date().toISOString(), status: 'error', errorMessage: message };
+        }
+      }
+
+      // Only cursor and health are written back: the user may have edited the rule meanwhile
+      await supabase.rpc('merge_monitoring_source_state', { _rule_id: rule.id, _state: sourceState });
+      if (ruleAlerts > 0) {
+        await supabase.rpc('record_monitoring_trigger', { _rule_id: rule.id, _count: ruleAlerts });
+        stats.alertsCreated += ruleAlerts;
+      }
+    }
+
+    console.log(`[MonitoringCycle] ${stats.rulesChecked} rules checked, ${stats.alertsCreated} alerts created`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      stats: {
+        ...stats,
+        duration: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      },
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Monitoring cycle error:', error);
+    return new Response(JSON.stringify({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stats,
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// ============================================================================
+// RULE HELPERS
+// ============================================================================
+
+function isInCooldown(rule: RuleRow): boolean {
+  if (!rule.last_triggered) return false;
+  const cooldownEnd = new Date(rule.last_triggered).getTime() + rule.cooldown_minutes * 60 * 1000;
+  return Date.now() < cooldownEnd;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Same checks as validateRulePattern in monitoringSourceAdapters; rules can be
+// written straight through the API, so the cycle re-checks before compiling
+function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = [];
+  let closedQuantified = false;
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      i++;
+      closedQuantified = false;
+      continue;
+    }
+    if (inClass) {
+      if (ch === ']') inClass = false;
+      continue;
+    }
+    if (ch === '[') {
+      inClass = true;
+      closedQuantified = false;
+      continue;
+    }
+    if (ch === '(') {
+      groups.push(false);
+      closedQuantified = false;
+      continue;
+    }
+    if (ch === ')') {
+      closedQuantified = groups.pop() || false;
+      if (closedQuantified && groups.length) groups[groups.length - 1] = true;
+      continue;
+    }
+    const quantifier = ch === '*' || ch === '+' || (ch === '?' && pattern[i - 1] !== '(') ||
+      (ch === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)));
+    if (quantifier) {
+      const unbounded = ch === '*' || ch === '+' || /^\{\d+,\}/.test(pattern.slice(i));
+      if (closedQuantified && unbounded) return true;
+      if (groups.length) groups[groups.length - 1] = true;
+    }
+    closedQuantified = false;
+  }
+  return false;
+}
+
+function validatePattern(rule: RuleRow): string | null {
+  if (!rule.pattern?.trim()) return 'Pattern is empty';
+  if (rule.pattern.length > MAX_PATTERN_LENGTH) return `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  if (rule.rule_type !== 'regex') return null;
+  if (hasNestedQuantifier(rule.pattern)) return 'Nested quantifiers such as (a+)+ can take exponential time';
+  if (/\\[1-9]/.test(rule.pattern)) return 'Backreferences are not supported';
+  return null;
+}
+
+// Keyword-style rules are literal "a | b | c" alternatives, only regex rules are patterns
+function compilePattern(rule: RuleRow): RegExp {
+  const problem = validatePattern(rule);
+  if (problem) throw new Error(problem);
+  return rule.rule_type === 'regex'
+    ? new RegExp(rule.pattern, 'i')
+    : new RegExp(rule.pattern.split('|').map(p => p.trim()).filter(Boolean).map(escapeRegex).join('|'), 'i');
+}
+
+// A single test can't be interrupted, so texts are capped and the budget is
+// checked between items; a rule that runs over fails its source
+function matchItems(items: FeedItem[], regex: RegExp, deadline: number): FeedItem[] {
+  return items.filter(item => {
+    if (Date.now() > deadline) throw new Error(`Pattern matching exceeded ${RULE_MATCH_BUDGET_MS}ms for this cycle`);
+    return item.text.some(t => t && regex.test(t.slice(0, MAX_MATCH_TEXT)));
+  });
+}
+
+function filterNewItems(items: FeedItem[], cursor?: SourceCursor): FeedItem[] {
+  const seen = new Set(cursor?.seenIds || []);
+  const since = cursor?.since
+    ? new Date(cursor.since).getTime() - CURSOR_OVERLAP_MS
+    : cursor ? 0 : Date.now() - INITIAL_LOOKBACK_MS;
+
+  // Adding to `seen` also drops repeats within one fetch (several search terms can return one item)
+  return items.filter(item => {
+    if (seen.has(item.id)) return false;
+    seen.add(item.id);
+    if (!item.timestamp) return true;
+    const time = new Date(item.timestamp).getTime();
+    return isNaN(time) || time >= since;
+  });
+}
+
+function advanceCursor(items: FeedItem[], cursor?: SourceCursor): SourceCursor {
+  const timeOf = (item: FeedItem) => (item.timestamp ? new Date(item.timestamp).getTime() : NaN);
+  // Newest first so the bounded seen-list keeps the most recent keys
+  const ordered = [...items].sort((a, b) => (timeOf(b) || 0) - (timeOf(a) || 0));
+  const previous = cursor?.since ? new Date(cursor.since).getTime() : 0;
+  const newest = ordered.reduce((max, item) => Math.max(max, timeOf(item) || 0), previous);
+
+  return {
+    since: newest > 0 ? new Date(newest).toISOString() : cursor?.since,
+    seenIds: Array.from(new Set([...ordered.map(i => i.id), ...(cursor?.seenIds || [])])).slice(0, MAX_SEEN_IDS),
+  };
+}
+
+// ============================================================================
+// SOURCE FETCHERS
+// ============================================================================
+
+function fetchFeed(type: string): Promise<FeedItem[]> {
+  switch (type) {
+    case 'ransomwatch': return fetchRansomwatch();
+    case 'threatfox': return fetchThreatFox();
+    case 'urlhaus': return fetchUrlhaus();
+    default: return Promise.resolve([]);
+  }
+}
+
+async function fetchRansomwatch(): Promise<FeedItem[]> {
+  const res = await fetch(SOURCES.RANSOMWATCH);
+  if (!res.ok) throw new Error(`Ransomwatch returned ${res.status}`);
+  const posts = await res.json();
+  const since = Date.now() - 7 * 24 * 60 * 60 * 1000;
+
+  return (posts || [])
+    .filter((post: any) => post.discovered && new Date(post.discovered).getTime() >= since)
+    .map((post: any) => ({
+      id: `${post.group_name || 'Unknown'}:${post.post_title || 'Unknown'}`,
+      timestamp: post.discovered,
+      text: [post.group_name, post.post_title],
+      match: {
+        title: `Ransomware Victim: ${post.post_title}`,
+        description: `New victim announced by ${post.group_name}`,
+        indicators: [post.post_title, post.group_name].filter(Boolean),
+        context: { victim: post },
+      },
+    }));
+}
+
+async function fetchThreatFox(): Promise<FeedItem[]> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const authKey = Deno.env.get('ABUSECH_AUTH_KEY');
+  if (authKey) headers['Auth-Key'] = authKey;
+
+  const res = await fetch(SOURCES.THREATFOX, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ query: 'get_iocs', days: 1 }),
+  });
+  if (!res.ok) throw new Error(`ThreatFox returned ${res.status}`);
+  const data = await res.json();
+
+  return (Array.isArray(data.data) ? data.data : []).map((ioc: any) => ({
+    id: `${iocKind(ioc.ioc_type)}:${ioc.ioc}`,
+    timestamp: ioc.first_seen ? new Date(ioc.first_seen.replace(' UTC', 'Z').replace(' ', 'T')).toISOString() : undefined,
+    text: [ioc.ioc, ioc.malware_printable, ioc.malware, typeof ioc.tags === 'string' ? ioc.tags : (ioc.tags || []).join(' ')],
+    match: {
+      title: `ThreatFox IOC Match: ${ioc.malware_printable || ioc.ioc}`,
+      description: `${ioc.threat_type_desc || ioc.threat_type || 'IOC'} reported to ThreatFox`,
+      indicators: [ioc.ioc].filter(Boolean),
+      context: { ioc },
+    },
+  }));
+}
+
+async function fetchUrlhaus(): Promise<FeedItem[]> {
+  const headers: Record<string, string> = {};
+  const authKey = Deno.env.get('ABUSECH_AUTH_KEY');
+  if (authKey) headers['Auth-Key'] = authKey;
+
+  const res = await fetch(SOURCES.URLHAUS, { headers });
+  if (!res.ok) throw new Error(`URLhaus returned ${res.status}`);
+  const data = await res.json();
+
+  return (data.urls || []).map((entry: any) => ({
+    id: entry.id || entry.url,
+    timestamp: entry.date_added ? new Date(entry.date_added.replace(' UTC', 'Z').replace(' ', 'T')).toISOString() : undefined,
+    text: [entry.url, entry.threat, (entry.tags || []).join(' ')],
+    match: {
+      title: `URLhaus Match: ${entry.url?.slice(0, 80)}`,
+      description: `Malicious URL (${entry.threat || 'malware_download'}) reported to URLhaus`,
+      indicators: [entry.url, entry.host].filter(Boolean),
+      context: { url: entry },
+    },
+  }));
+}
+
+// Matches the indicator kinds used by malwareTrackingService.searchThreatFox
+function iocKind(iocType = ''): string {
+  if (iocType.includes('ip')) return 'ip';
+  if (iocType.includes('domain')) return 'domain';
+  if (iocType.includes('url')) return 'url';
+  return 'hash';
+}
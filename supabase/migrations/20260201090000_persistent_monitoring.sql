@@ -0,0 +1,181 @@
+-- ============================================================================
+-- PERSISTENT MONITORING ENGINE
+-- ============================================================================
+-- Rules, alerts, analyst notes and trigger counters for continuous monitoring.
+-- Rows are owned per user; the monitoring-cycle edge function writes with the
+-- service role so it keeps running when no browser session is open.
+-- ============================================================================
+
+-- Monitoring rules
+CREATE TABLE public.monitoring_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  rule_type TEXT NOT NULL DEFAULT 'keyword', -- 'keyword', 'regex', 'hash', 'domain', 'ip', 'email', 'campaign'
+  pattern TEXT NOT NULL CHECK (char_length(pattern) <= 500), -- MAX_PATTERN_LENGTH in the app
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  severity TEXT NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  sources JSONB NOT NULL DEFAULT '[]'::jsonb,
+  source_state JSONB NOT NULL DEFAULT '{}'::jsonb, -- Cursor and health per source id, see merge_monitoring_source_state
+  actions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  cooldown_minutes INTEGER NOT NULL DEFAULT 60,
+  last_triggered TIMESTAMP WITH TIME ZONE,
+  trigger_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Alerts raised by monitoring rules
+CREATE TABLE public.threat_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES public.monitoring_rules(id) ON DELETE SET NULL,
+  rule_name TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  title TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  source TEXT NOT NULL,
+  indicators JSONB NOT NULL DEFAULT '[]'::jsonb,
+  context JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'acknowledged', 'investigating', 'resolved', 'false_positive')),
+  assignee TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Analyst notes on alerts
+CREATE TABLE public.threat_alert_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  alert_id UUID NOT NULL REFERENCES public.threat_alerts(id) ON DELETE CASCADE,
+  author TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.monitoring_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.threat_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.threat_alert_notes ENABLE ROW LEVEL SECURITY;
+
+-- Monitoring rules policies
+CREATE POLICY "Users can view own monitoring rules"
+  ON public.monitoring_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own monitoring rules"
+  ON public.monitoring_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own monitoring rules"
+  ON public.monitoring_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own monitoring rules"
+  ON public.monitoring_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Threat alerts policies
+CREATE POLICY "Users can view own threat alerts"
+  ON public.threat_alerts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own threat alerts"
+  ON public.threat_alerts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own threat alerts"
+  ON public.threat_alerts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own threat alerts"
+  ON public.threat_alerts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Alert notes policies
+CREATE POLICY "Users can view own alert notes"
+  ON public.threat_alert_notes FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own alert notes"
+  ON public.threat_alert_notes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own alert notes"
+  ON public.threat_alert_notes FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- updated_at triggers
+CREATE TRIGGER update_monitoring_rules_updated_at
+BEFORE UPDATE ON public.monitoring_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_threat_alerts_updated_at
+BEFORE UPDATE ON public.threat_alerts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Atomically bump a rule's trigger counter (called by browser and edge function)
+CREATE OR REPLACE FUNCTION public.record_monitoring_trigger(_rule_id UUID, _count INTEGER)
+RETURNS public.monitoring_rules
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.monitoring_rules
+  SET trigger_count = trigger_count + _count,
+      last_triggered = now()
+  WHERE id = _rule_id
+  RETURNING *
+$$;
+
+-- Cycles record each source's cursor and health here instead of rewriting
+-- sources from their snapshot, so a rule edited mid-cycle keeps the edit.
+-- Only the sources a cycle checked are replaced.
+CREATE OR REPLACE FUNCTION public.merge_monitoring_source_state(_rule_id UUID, _state JSONB)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.monitoring_rules
+  SET source_state = source_state || _state
+  WHERE id = _rule_id
+$$;
+
+-- Indexes
+CREATE INDEX idx_monitoring_rules_user_id ON public.monitoring_rules(user_id);
+CREATE INDEX idx_monitoring_rules_enabled ON public.monitoring_rules(enabled);
+CREATE INDEX idx_threat_alerts_user_id ON public.threat_alerts(user_id);
+CREATE INDEX idx_threat_alerts_rule_id ON public.threat_alerts(rule_id);
+CREATE INDEX idx_threat_alerts_created ON public.threat_alerts(created_at DESC);
+CREATE INDEX idx_threat_alert_notes_alert_id ON public.threat_alert_notes(alert_id);
+
+-- Enable realtime so the dashboard receives alerts raised server-side
+ALTER PUBLICATION supabase_realtime ADD TABLE public.threat_alerts;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.threat_alert_notes;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.monitoring_rules;
+
+-- Schedule the monitoring-cycle edge function every 15 minutes.
+-- Requires pg_cron, pg_net and the 'project_url' / 'service_role_key' vault
+-- secrets; skipped gracefully on projects where they are not configured.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'monitoring-cycle',
+      '*/15 * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/monitoring-cycle',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"scheduled": true}'::jsonb
+        )
+      $cron$
+    );
+  END IF;
+END $$;
@@ -0,0 +1,33 @@
+-- ============================================================================
+-- ALERT DELIVERY DEAD-LETTER LOG
+-- ============================================================================
+-- Alert action deliveries (webhook, Slack, Teams, PagerDuty, email) that still
+-- failed after retries. Written by the alert-dispatch and monitoring-cycle
+-- edge functions with the service role.
+-- ============================================================================
+
+CREATE TABLE public.alert_delivery_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES public.monitoring_rules(id) ON DELETE SET NULL,
+  alert_id UUID REFERENCES public.threat_alerts(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL, -- 'webhook', 'email', 'slack', 'teams', 'pagerduty'
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.alert_delivery_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own failed deliveries"
+  ON public.alert_delivery_log FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own failed deliveries"
+  ON public.alert_delivery_log FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_alert_delivery_log_user_id ON public.alert_delivery_log(user_id);
+CREATE INDEX idx_alert_delivery_log_created ON public.alert_delivery_log(created_at DESC);
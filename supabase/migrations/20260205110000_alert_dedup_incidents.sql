@@ -0,0 +1,272 @@
+-- ============================================================================
+-- ALERT DEDUPLICATION, INCIDENTS AND SUPPRESSION
+-- ============================================================================
+-- Alerts are fingerprinted on source + normalized indicators. Repeat matches
+-- bump the existing alert instead of creating a new one, related alerts are
+-- grouped into incidents, and suppression lists (manual or learned from alerts
+-- marked false_positive) drop matches before they become alerts.
+-- ============================================================================
+
+-- Incidents group related alerts
+CREATE TABLE public.monitoring_incidents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES public.monitoring_rules(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  source TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'investigating', 'resolved', 'false_positive')),
+  indicators JSONB NOT NULL DEFAULT '[]'::jsonb, -- Normalized indicators of member alerts
+  alert_count INTEGER NOT NULL DEFAULT 0,
+  first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Suppression lists
+CREATE TABLE public.monitoring_suppressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES public.monitoring_rules(id) ON DELETE CASCADE, -- NULL = all rules
+  kind TEXT NOT NULL DEFAULT 'indicator' CHECK (kind IN ('indicator', 'fingerprint')),
+  value TEXT NOT NULL, -- Normalized indicator or alert fingerprint
+  reason TEXT DEFAULT '',
+  origin TEXT NOT NULL DEFAULT 'manual' CHECK (origin IN ('manual', 'auto_false_positive')),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_monitoring_suppressions_unique
+  ON public.monitoring_suppressions (user_id, kind, value, (COALESCE(rule_id, '00000000-0000-0000-0000-000000000000'::uuid)));
+
+-- Dedup and grouping columns on alerts
+ALTER TABLE public.threat_alerts
+  ADD COLUMN fingerprint TEXT,
+  ADD COLUMN occurrence_count INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN incident_id UUID REFERENCES public.monitoring_incidents(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_threat_alerts_fingerprint ON public.threat_alerts(user_id, fingerprint);
+CREATE INDEX idx_threat_alerts_incident_id ON public.threat_alerts(incident_id);
+CREATE INDEX idx_monitoring_incidents_user_id ON public.monitoring_incidents(user_id, last_seen_at DESC);
+CREATE INDEX idx_monitoring_suppressions_user_id ON public.monitoring_suppressions(user_id);
+
+-- Enable RLS
+ALTER TABLE public.monitoring_incidents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.monitoring_suppressions ENABLE ROW LEVEL SECURITY;
+
+-- Incident policies
+CREATE POLICY "Users can view own incidents"
+  ON public.monitoring_incidents FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own incidents"
+  ON public.monitoring_incidents FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own incidents"
+  ON public.monitoring_incidents FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own incidents"
+  ON public.monitoring_incidents FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Suppression policies
+CREATE POLICY "Users can view own suppressions"
+  ON public.monitoring_suppressions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own suppressions"
+  ON public.monitoring_suppressions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own suppressions"
+  ON public.monitoring_suppressions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own suppressions"
+  ON public.monitoring_suppressions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_monitoring_incidents_updated_at
+BEFORE UPDATE ON public.monitoring_incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.monitoring_incidents;
+
+-- Helpers
+CREATE OR REPLACE FUNCTION public.monitoring_normalize_indicators(_indicators JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT v ORDER BY v), '{}')
+  FROM (
+    SELECT lower(trim(x)) AS v FROM jsonb_array_elements_text(COALESCE(_indicators, '[]'::jsonb)) AS x
+  ) n
+  WHERE v <> ''
+$$;
+
+CREATE OR REPLACE FUNCTION public.monitoring_severity_rank(_severity TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _severity WHEN 'critical' THEN 4 WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END
+$$;
+
+-- Ingest a rule match: suppress, deduplicate or create (and group) an alert.
+-- Returns { outcome: 'created' | 'duplicate' | 'suppressed', alert }.
+CREATE OR REPLACE FUNCTION public.ingest_threat_alert(
+  _user_id UUID,
+  _rule_id UUID,
+  _rule_name TEXT,
+  _severity TEXT,
+  _title TEXT,
+  _description TEXT,
+  _source TEXT,
+  _indicators JSONB,
+  _context JSONB,
+  _dedup_window_minutes INTEGER DEFAULT 1440,
+  _incident_window_minutes INTEGER DEFAULT 360
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  normalized TEXT[] := public.monitoring_normalize_indicators(_indicators);
+  alert_fingerprint TEXT;
+  suppression_id UUID;
+  existing public.threat_alerts;
+  incident public.monitoring_incidents;
+  created public.threat_alerts;
+BEGIN
+  alert_fingerprint := md5(lower(_source) || '|' || array_to_string(normalized, ','));
+
+  -- Suppression lists
+  SELECT id INTO suppression_id
+  FROM public.monitoring_suppressions
+  WHERE user_id = _user_id
+    AND (rule_id IS NULL OR rule_id = _rule_id)
+    AND (expires_at IS NULL OR expires_at > now())
+    AND ((kind = 'fingerprint' AND value = alert_fingerprint) OR (kind = 'indicator' AND value = ANY(normalized)))
+  LIMIT 1;
+
+  IF suppression_id IS NOT NULL THEN
+    UPDATE public.monitoring_suppressions
+    SET hit_count = hit_count + 1, last_hit_at = now()
+    WHERE id = suppression_id;
+    RETURN jsonb_build_object('outcome', 'suppressed', 'fingerprint', alert_fingerprint);
+  END IF;
+
+  -- Deduplicate against open alerts, or any alert seen within the window
+  SELECT * INTO existing
+  FROM public.threat_alerts
+  WHERE user_id = _user_id
+    AND fingerprint = alert_fingerprint
+    AND (status NOT IN ('resolved', 'false_positive')
+         OR last_seen_at > now() - make_interval(mins => _dedup_window_minutes))
+  ORDER BY last_seen_at DESC
+  LIMIT 1;
+
+  IF existing.id IS NOT NULL THEN
+    UPDATE public.threat_alerts
+    SET occurrence_count = occurrence_count + 1, last_seen_at = now()
+    WHERE id = existing.id
+    RETURNING * INTO existing;
+    RETURN jsonb_build_object('outcome', 'duplicate', 'alert', to_jsonb(existing));
+  END IF;
+
+  -- Group into an open incident of the same rule/source, or one sharing an indicator
+  SELECT * INTO incident
+  FROM public.monitoring_incidents
+  WHERE user_id = _user_id
+    AND status IN ('open', 'investigating')
+    AND last_seen_at > now() - make_interval(mins => _incident_window_minutes)
+    AND ((rule_id = _rule_id AND source = _source) OR indicators ?| normalized)
+  ORDER BY last_seen_at DESC
+  LIMIT 1;
+
+  IF incident.id IS NULL THEN
+    INSERT INTO public.monitoring_incidents (user_id, rule_id, title, source, severity, indicators, alert_count)
+    VALUES (_user_id, _rule_id, _rule_name || ' on ' || _source, _source, _severity, to_jsonb(normalized), 1)
+    RETURNING * INTO incident;
+  ELSE
+    UPDATE public.monitoring_incidents
+    SET alert_count = alert_count + 1,
+        last_seen_at = now(),
+        severity = CASE WHEN public.monitoring_severity_rank(_severity) > public.monitoring_severity_rank(severity)
+                        THEN _severity ELSE severity END,
+        indicators = (
+          SELECT COALESCE(jsonb_agg(DISTINCT v), '[]'::jsonb)
+          FROM (
+            SELECT jsonb_array_elements_text(indicators) AS v
+            UNION
+            SELECT unnest(normalized)
+          ) merged
+        )
+    WHERE id = incident.id;
+  END IF;
+
+  INSERT INTO public.threat_alerts (
+    user_id, rule_id, rule_name, severity, title, description, source,
+    indicators, context, fingerprint, incident_id
+  )
+  VALUES (
+    _user_id, _rule_id, _rule_name, _severity, _title, _description, _source,
+    COALESCE(_indicators, '[]'::jsonb), COALESCE(_context, '{}'::jsonb), alert_fingerprint, incident.id
+  )
+  RETURNING * INTO created;
+
+  RETURN jsonb_build_object('outcome', 'created', 'alert', to_jsonb(created));
+END;
+$$;
+
+-- Learn suppressions from alerts marked false_positive: the exact fingerprint
+-- is suppressed immediately, and an indicator is suppressed for the rule once
+-- it has appeared in three false positives.
+CREATE OR REPLACE FUNCTION public.learn_false_positive_suppression()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  indicator TEXT;
+  fp_count INTEGER;
+BEGIN
+  IF NEW.fingerprint IS NOT NULL THEN
+    INSERT INTO public.monitoring_suppressions (user_id, rule_id, kind, value, reason, origin)
+    VALUES (NEW.user_id, NEW.rule_id, 'fingerprint', NEW.fingerprint, 'Marked false positive: ' || NEW.title, 'auto_false_positive')
+    ON CONFLICT (user_id, kind, value, (COALESCE(rule_id, '00000000-0000-0000-0000-000000000000'::uuid))) DO NOTHING;
+  END IF;
+
+  FOREACH indicator IN ARRAY public.monitoring_normalize_indicators(NEW.indicators) LOOP
+    SELECT COUNT(*) INTO fp_count
+    FROM public.threat_alerts a
+    WHERE a.user_id = NEW.user_id
+      AND a.rule_id IS NOT DISTINCT FROM NEW.rule_id
+      AND a.status = 'false_positive'
+      AND indicator = ANY(public.monitoring_normalize_indicators(a.indicators));
+
+    IF fp_count >= 3 THEN
+      INSERT INTO public.monitoring_suppressions (user_id, rule_id, kind, value, reason, origin)
+      VALUES (NEW.user_id, NEW.rule_id, 'indicator', indicator, 'Indicator in ' || fp_count || ' false positives', 'auto_false_positive')
+      ON CONFLICT (user_id, kind, value, (COALESCE(rule_id, '00000000-0000-0000-0000-000000000000'::uuid))) DO NOTHING;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_learn_false_positive_suppression
+AFTER UPDATE OF status ON public.threat_alerts
+FOR EACH ROW
+WHEN (NEW.status = 'false_positive' AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.learn_false_positive_suppression();
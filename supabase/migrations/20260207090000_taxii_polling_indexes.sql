@@ -0,0 +1,15 @@
+-- ============================================================================
+-- TAXII POLLING INDEXES
+-- ============================================================================
+-- The TAXII 2.1 endpoint (api/taxii2) pages collections in (updated_at, id)
+-- order and filters by added_after, optionally scoped to a source or severity.
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_threat_intelligence_updated_id
+ON public.threat_intelligence(updated_at, id);
+
+CREATE INDEX IF NOT EXISTS idx_threat_intelligence_source_updated
+ON public.threat_intelligence(source_name, updated_at, id);
+
+CREATE INDEX IF NOT EXISTS idx_threat_intelligence_severity_updated
+ON public.threat_intelligence(severity_level, updated_at, id);
@@ -0,0 +1,92 @@
+-- ============================================================================
+-- SAVED GRAPH REVISIONS
+-- ============================================================================
+-- Every insert into saved_graphs and every update that changes graph_data is
+-- snapshotted into saved_graph_revisions, so an overwrite (or a bad bulk
+-- transform that got saved) can be diffed against and rolled back. Clients
+-- describe a save by setting saved_graphs.revision_message alongside
+-- graph_data; the trigger copies it onto the revision.
+-- ============================================================================
+
+ALTER TABLE public.saved_graphs
+  ADD COLUMN revision_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN revision_message TEXT;
+
+CREATE TABLE public.saved_graph_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  graph_id UUID NOT NULL REFERENCES public.saved_graphs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  graph_data JSONB NOT NULL DEFAULT '{}',
+  nodes_count INTEGER DEFAULT 0,
+  edges_count INTEGER DEFAULT 0,
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (graph_id, revision)
+);
+
+CREATE INDEX idx_saved_graph_revisions_graph ON public.saved_graph_revisions(graph_id, revision DESC);
+
+-- Enable RLS
+ALTER TABLE public.saved_graph_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are immutable: no update policy. Only the snapshot trigger
+-- writes them, so there is no insert policy either; a client-side insert
+-- could otherwise plant a revision on someone else's graph_id.
+CREATE POLICY "Users can view own graph revisions"
+  ON public.saved_graph_revisions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own graph revisions"
+  ON public.saved_graph_revisions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Number the revision before the row is written...
+CREATE OR REPLACE FUNCTION public.bump_saved_graph_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.revision_count = 1;
+  ELSIF NEW.graph_data IS DISTINCT FROM OLD.graph_data THEN
+    NEW.revision_count = OLD.revision_count + 1;
+  ELSE
+    NEW.revision_count = OLD.revision_count;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- ...and snapshot it once the parent row exists. The update holds the row
+-- lock on saved_graphs, so concurrent saves of one graph get distinct numbers.
+-- Runs as definer since saved_graph_revisions has no insert policy.
+CREATE OR REPLACE FUNCTION public.snapshot_saved_graph()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.revision_count = OLD.revision_count THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.saved_graph_revisions
+    (graph_id, user_id, revision, graph_data, nodes_count, edges_count, message)
+  VALUES
+    (NEW.id, NEW.user_id, NEW.revision_count, NEW.graph_data, NEW.nodes_count, NEW.edges_count, NEW.revision_message);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Existing graphs start their history at revision 1 (before the triggers exist)
+UPDATE public.saved_graphs SET revision_count = 1 WHERE revision_count = 0;
+
+INSERT INTO public.saved_graph_revisions
+  (graph_id, user_id, revision, graph_data, nodes_count, edges_count, message, created_at)
+SELECT id, user_id, 1, graph_data, nodes_count, edges_count, 'Initial snapshot', updated_at
+FROM public.saved_graphs;
+
+CREATE TRIGGER bump_saved_graph_revision
+  BEFORE INSERT OR UPDATE ON public.saved_graphs
+  FOR EACH ROW EXECUTE FUNCTION public.bump_saved_graph_revision();
+
+CREATE TRIGGER snapshot_saved_graph
+  AFTER INSERT OR UPDATE ON public.saved_graphs
+  FOR EACH ROW EXECUTE FUNCTION public.snapshot_saved_graph();
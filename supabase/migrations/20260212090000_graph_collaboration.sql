@@ -0,0 +1,158 @@
+-- ============================================================================
+-- SHARED INVESTIGATION GRAPHS
+-- ============================================================================
+-- A saved graph can be shared with other analysts as editor or viewer; the
+-- row's user_id stays the owner. Live edits travel over two private Realtime
+-- broadcast channels per graph:
+--   graph:<id>           entity/link changes   (members receive, editors send)
+--   graph-presence:<id>  presence, cursors and sync requests  (all members)
+-- Channel access is authorized by RLS on realtime.messages.
+-- ============================================================================
+
+CREATE TABLE public.saved_graph_members (
+  graph_id UUID NOT NULL REFERENCES public.saved_graphs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('editor', 'viewer')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (graph_id, user_id)
+);
+
+CREATE INDEX idx_saved_graph_members_user_id ON public.saved_graph_members(user_id);
+
+-- 'owner', 'editor', 'viewer' or NULL for the calling user
+CREATE OR REPLACE FUNCTION public.graph_role(_graph_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM public.saved_graphs WHERE id = _graph_id AND user_id = auth.uid()) THEN 'owner'
+    ELSE (SELECT role FROM public.saved_graph_members WHERE graph_id = _graph_id AND user_id = auth.uid())
+  END
+$$;
+
+-- Owners invite by email; the address must belong to an existing account.
+-- An unknown address gets the same error as any other refusal, so the call
+-- cannot be used to probe which emails have accounts.
+CREATE OR REPLACE FUNCTION public.add_graph_member(_graph_id UUID, _email TEXT, _role TEXT)
+RETURNS public.saved_graph_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+  _member public.saved_graph_members;
+BEGIN
+  IF public.graph_role(_graph_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the graph owner can share it';
+  END IF;
+
+  SELECT id INTO _user_id FROM auth.users WHERE lower(email) = lower(trim(_email));
+  IF _user_id IS NULL OR _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Could not share the graph with that address';
+  END IF;
+
+  INSERT INTO public.saved_graph_members (graph_id, user_id, email, role, invited_by)
+  VALUES (_graph_id, _user_id, lower(trim(_email)), _role, auth.uid())
+  ON CONFLICT (graph_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO _member;
+
+  RETURN _member;
+END;
+$$;
+
+-- Enable RLS
+ALTER TABLE public.saved_graph_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view graph members"
+  ON public.saved_graph_members FOR SELECT
+  USING (public.graph_role(graph_id) IS NOT NULL);
+
+CREATE POLICY "Owners can update graph members"
+  ON public.saved_graph_members FOR UPDATE
+  USING (public.graph_role(graph_id) = 'owner');
+
+-- Owners remove anyone; members can leave
+CREATE POLICY "Owners and members can delete memberships"
+  ON public.saved_graph_members FOR DELETE
+  USING (public.graph_role(graph_id) = 'owner' OR auth.uid() = user_id);
+
+-- Shared access to the graph itself and its history
+CREATE POLICY "Members can view shared graphs"
+  ON public.saved_graphs FOR SELECT
+  USING (public.graph_role(id) IN ('editor', 'viewer'));
+
+CREATE POLICY "Editors can update shared graphs"
+  ON public.saved_graphs FOR UPDATE
+  USING (public.graph_role(id) = 'editor')
+  WITH CHECK (public.graph_role(id) = 'editor');
+
+-- The row's identity and owner are fixed; editors change its content only
+CREATE OR REPLACE FUNCTION public.guard_saved_graph_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+     OR NEW.id IS DISTINCT FROM OLD.id
+     OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only graph content can be updated';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER guard_saved_graph_update
+  BEFORE UPDATE ON public.saved_graphs
+  FOR EACH ROW EXECUTE FUNCTION public.guard_saved_graph_update();
+
+CREATE POLICY "Members can view shared graph revisions"
+  ON public.saved_graph_revisions FOR SELECT
+  USING (public.graph_role(graph_id) IS NOT NULL);
+
+-- Editors save graphs they do not own, so the snapshot is written with the
+-- owner's user_id; record who saved it
+ALTER TABLE public.saved_graph_revisions
+  ADD COLUMN author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.snapshot_saved_graph()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.revision_count = OLD.revision_count THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.saved_graph_revisions
+    (graph_id, user_id, author_id, revision, graph_data, nodes_count, edges_count, message)
+  VALUES
+    (NEW.id, NEW.user_id, auth.uid(), NEW.revision_count, NEW.graph_data, NEW.nodes_count, NEW.edges_count, NEW.revision_message);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Realtime channel authorization
+CREATE POLICY "Graph members can receive live updates"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND (
+      (realtime.topic() LIKE 'graph:%' AND public.graph_role(substring(realtime.topic() FROM 7)::uuid) IS NOT NULL)
+      OR (realtime.topic() LIKE 'graph-presence:%' AND public.graph_role(substring(realtime.topic() FROM 16)::uuid) IS NOT NULL)
+    )
+  );
+
+CREATE POLICY "Graph editors can send live updates"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND (
+      (realtime.topic() LIKE 'graph:%' AND public.graph_role(substring(realtime.topic() FROM 7)::uuid) IN ('owner', 'editor'))
+      OR (realtime.topic() LIKE 'graph-presence:%' AND public.graph_role(substring(realtime.topic() FROM 16)::uuid) IS NOT NULL)
+    )
+  );
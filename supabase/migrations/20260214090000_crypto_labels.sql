@@ -0,0 +1,56 @@
+-- ============================================================================
+-- CRYPTO ATTRIBUTION LABELS
+-- ============================================================================
+-- Address labels used for crypto risk scoring: imported label packs (OFAC SDN
+-- digital currency addresses, Ransomwhere exports, internal case labels) and
+-- labels analysts add by hand. The browser keeps a full copy in IndexedDB for
+-- offline lookups; this table carries a user's labels across devices. A label
+-- is unique per address, source and category, so re-importing a newer pack
+-- updates its rows instead of duplicating them.
+-- ============================================================================
+
+CREATE TABLE public.crypto_labels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  address TEXT NOT NULL,
+  chain TEXT NOT NULL DEFAULT 'bitcoin',
+  category TEXT NOT NULL CHECK (category IN (
+    'ransomware', 'sanctioned', 'darknet', 'mixer', 'scam', 'gambling', 'exchange', 'other'
+  )),
+  entity_name TEXT,
+  source TEXT NOT NULL,
+  confidence INTEGER NOT NULL DEFAULT 50 CHECK (confidence BETWEEN 0 AND 100),
+  observed_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, address, source, category)
+);
+
+CREATE INDEX idx_crypto_labels_user_source ON public.crypto_labels(user_id, source);
+
+-- Enable RLS
+ALTER TABLE public.crypto_labels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own crypto labels"
+  ON public.crypto_labels FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own crypto labels"
+  ON public.crypto_labels FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own crypto labels"
+  ON public.crypto_labels FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own crypto labels"
+  ON public.crypto_labels FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- updated_at trigger
+CREATE TRIGGER update_crypto_labels_updated_at
+BEFORE UPDATE ON public.crypto_labels
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -169,6 +169,12 @@ export default defineConfig(({ mode }) => {
           changeOrigin: true,
           rewrite: (path) => path.replace(/^\/api\/sslbl/, '/blacklist'),
         },
+        // Proxy CIRCL OSINT MISP feed
+        '/api/misp-feed': {
+          target: 'https://www.circl.lu',
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/^\/api\/misp-feed/, '/doc/misp/feed-osint'),
+        },
       },
     },
 